@@ -17,7 +17,15 @@ const nextConfig = {
       },
     ],
   },
-  serverExternalPackages: ['formidable', 'pubnub', 'superagent', 'esbuild'],
+  // The export route reads the Expo template's config files at runtime
+  outputFileTracingIncludes: {
+    '/api/projects/[id]/export': ['../../packages/expo-template/*.{json,js}'],
+  },
+  experimental: {
+    // The proxy buffers request bodies; ZIP imports go up to 20 MB (MAX_ARCHIVE_BYTES)
+    proxyClientMaxBodySize: '21mb',
+  },
+  serverExternalPackages: ['formidable', 'pubnub', 'superagent', 'esbuild', 'typescript'],
 };
 
 module.exports = nextConfig;
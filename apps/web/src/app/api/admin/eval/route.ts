@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { renderEvalReportHtml, type EvalReport } from '@ai-engine/core';
+import { hasBearerSecret } from '@/lib/admin-auth';
+import { getEvalSuite, runEval, saveEvalReport, type EvalCassetteMode } from '@/lib/eval';
+import { isModelId } from '@/lib/model-keys';
+import { createClient } from '@/lib/supabase/server';
+
+export const maxDuration = 300; // replayed suites finish well within this; run live suites a few cases at a time
+
+const CASSETTE_MODES: EvalCassetteMode[] = ['live', 'record', 'replay'];
+
+/**
+ * GET /api/admin/eval
+ * Header: Authorization: Bearer <EVAL_ADMIN_SECRET>
+ * The eval suite's cases (id, name, prompt)
+ */
+export async function GET(request: NextRequest) {
+  if (!hasBearerSecret(request, process.env.EVAL_ADMIN_SECRET)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  return NextResponse.json({
+    cases: getEvalSuite().map(({ id, name, prompt }) => ({ id, name, prompt })),
+  });
+}
+
+/**
+ * POST /api/admin/eval
+ * Header: Authorization: Bearer <EVAL_ADMIN_SECRET>
+ * Body: { label, model?, cases?, cassettes?: 'live' | 'record' | 'replay', baseline?: EvalReport, format?: 'json' | 'html' }
+ * Runs the agent over the suite with the server's keys and returns the
+ * scored report (as HTML with deltas against `baseline` when asked). The
+ * report is also saved to EVAL_REPORT_DIR when set.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!hasBearerSecret(request, process.env.EVAL_ADMIN_SECRET)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { label, model = 'claude', cases, cassettes = 'live', baseline, format = 'json' } = body as {
+      label?: unknown;
+      model?: unknown;
+      cases?: unknown;
+      cassettes?: EvalCassetteMode;
+      baseline?: EvalReport;
+      format?: 'json' | 'html';
+    };
+
+    if (typeof label !== 'string' || !label.trim()) {
+      return NextResponse.json({ error: 'label is required' }, { status: 400 });
+    }
+    if (!isModelId(model)) {
+      return NextResponse.json({ error: 'Invalid model' }, { status: 400 });
+    }
+    if (!CASSETTE_MODES.includes(cassettes)) {
+      return NextResponse.json({ error: `cassettes must be one of: ${CASSETTE_MODES.join(', ')}` }, { status: 400 });
+    }
+    if (cases !== undefined && !(Array.isArray(cases) && cases.every((id) => typeof id === 'string'))) {
+      return NextResponse.json({ error: 'cases must be an array of case ids' }, { status: 400 });
+    }
+    if (baseline !== undefined && baseline?.version !== 1) {
+      return NextResponse.json({ error: 'baseline must be an eval report' }, { status: 400 });
+    }
+
+    const supabase = await createClient();
+    const report = await runEval(supabase, {
+      label: label.trim(),
+      model,
+      caseIds: cases as string[] | undefined,
+      cassettes,
+      signal: request.signal,
+    });
+    await saveEvalReport(report, baseline);
+
+    if (format === 'html') {
+      return new NextResponse(renderEvalReportHtml(report, baseline), {
+        headers: { 'Content-Type': 'text/html; charset=utf-8' },
+      });
+    }
+    return NextResponse.json(report);
+
+  } catch (error) {
+    console.error('Eval error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
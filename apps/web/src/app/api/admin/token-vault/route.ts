@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { hasBearerSecret } from '@/lib/admin-auth';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { migrateUserTokens, TOKEN_COLUMNS, type TokenColumn, type VaultTokenKind } from '@/lib/token-vault';
+
+const PAGE_SIZE = 100;
+const TOKEN_COLUMN_LIST = Object.values(TOKEN_COLUMNS);
+
+type TokenRow = { user_id: string } & Partial<Record<TokenColumn, string | null>>;
+
+/**
+ * POST /api/admin/token-vault
+ * Header: Authorization: Bearer <TOKEN_VAULT_ADMIN_SECRET>
+ * Bulk migration for every user: seals tokens still stored as plaintext and
+ * re-wraps tokens under a retired master key (run after rotating
+ * TOKEN_VAULT_KEYS, before removing the old key). Tokens are not decrypted.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!hasBearerSecret(request, process.env.TOKEN_VAULT_ADMIN_SECRET)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = createAdminClient();
+    const upgraded: Record<VaultTokenKind, number> = { github: 0, expo: 0, claude: 0, gemini: 0 };
+    const failed: string[] = [];
+    let scanned = 0;
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data: rows, error } = await supabase
+        .from('user_settings')
+        .select(['user_id', ...TOKEN_COLUMN_LIST].join(', '))
+        .or(TOKEN_COLUMN_LIST.map((column) => `${column}.not.is.null`).join(','))
+        .order('user_id')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+      }
+
+      for (const row of (rows ?? []) as unknown as TokenRow[]) {
+        scanned++;
+        try {
+          for (const kind of await migrateUserTokens(supabase, row)) upgraded[kind]++;
+        } catch (migrateError) {
+          console.error(`Token migration error for ${row.user_id}:`, migrateError);
+          failed.push(row.user_id);
+        }
+      }
+      if (!rows || rows.length < PAGE_SIZE) break;
+    }
+
+    return NextResponse.json({ scanned, upgraded, failed });
+
+  } catch (error) {
+    console.error('Token vault migration error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
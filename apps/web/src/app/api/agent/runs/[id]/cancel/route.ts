@@ -0,0 +1,61 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import type { AgentRun } from '@rork/shared';
+import { cancelIdleAgentRun } from '@/lib/agent-runs';
+
+/**
+ * POST /api/agent/runs/[id]/cancel
+ * Stop an agent run. A running run is stopped by its worker within a few
+ * seconds; a paused run, or one whose worker died, is finalized here. Files
+ * written so far are kept.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: run } = await supabase
+      .from('agent_runs')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!run) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+    }
+
+    const agentRun = run as AgentRun;
+    if (agentRun.status !== 'running' && agentRun.status !== 'paused') {
+      return NextResponse.json({ status: agentRun.status });
+    }
+
+    const { error } = await supabase
+      .from('agent_runs')
+      .update({ cancel_requested: true })
+      .eq('id', id);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    // Nobody is executing a paused or interrupted run, so record the cancellation directly
+    if (await cancelIdleAgentRun(supabase, agentRun)) {
+      return NextResponse.json({ status: 'cancelled' });
+    }
+
+    return NextResponse.json({ status: 'cancelling' });
+
+  } catch (error) {
+    console.error('Agent run cancel error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,144 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest } from 'next/server';
+import type { AgentRun } from '@rork/shared';
+import {
+  cancelIdleAgentRun,
+  claimAgentRun,
+  executeAgentRun,
+  formatSSE,
+  isRunResumable,
+  readRunEvents,
+  RUN_TIME_BUDGET_MS,
+  TERMINAL_RUN_STATUSES,
+} from '@/lib/agent-runs';
+
+export const maxDuration = 300; // same budget as /api/agent/run — this request may resume the run
+
+// How often to poll for events written by another request's worker
+const TAIL_POLL_MS = 1000;
+
+/**
+ * GET /api/agent/runs/[id]/events
+ * Reattach to an agent run. Replays persisted events after `Last-Event-ID`
+ * (header, or `?lastEventId=`), then follows the run live. A paused or
+ * interrupted run is resumed by this request.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const encoder = new TextEncoder();
+  const lastEventId = Number(
+    request.headers.get('last-event-id') ?? request.nextUrl.searchParams.get('lastEventId') ?? 0
+  ) || 0;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let closed = false;
+      let lastSeq = lastEventId;
+      const send = (data: unknown, seq?: number): void => {
+        if (closed) return;
+        if (seq !== undefined) {
+          if (seq <= lastSeq) return; // already delivered
+          lastSeq = seq;
+        }
+        try {
+          controller.enqueue(encoder.encode(formatSSE(data, seq)));
+        } catch {
+          closed = true;
+        }
+      };
+      const close = (): void => {
+        if (closed) return;
+        closed = true;
+        try {
+          controller.close();
+        } catch {
+          // Stream already closed
+        }
+      };
+
+      try {
+        const supabase = await createClient();
+
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) {
+          send({ type: 'error', error: 'Unauthorized' });
+          close();
+          return;
+        }
+
+        const deadline = Date.now() + RUN_TIME_BUDGET_MS;
+
+        while (!closed) {
+          // Replay anything persisted since the client's last event
+          for (const { seq, event } of await readRunEvents(supabase, id, lastSeq)) {
+            send(event, seq);
+          }
+
+          const { data: run } = await supabase
+            .from('agent_runs')
+            .select('*')
+            .eq('id', id)
+            .eq('user_id', user.id)
+            .single();
+
+          if (!run) {
+            send({ type: 'error', error: 'Run not found' });
+            break;
+          }
+
+          const agentRun = run as AgentRun;
+          if (TERMINAL_RUN_STATUSES.includes(agentRun.status)) {
+            // Final events may have landed after the replay above
+            for (const { seq, event } of await readRunEvents(supabase, id, lastSeq)) {
+              send(event, seq);
+            }
+            break;
+          }
+
+          // Cancelled while nobody was executing it: finish the cancellation
+          // instead of resuming, then replay its final events
+          if (agentRun.cancel_requested && await cancelIdleAgentRun(supabase, agentRun)) continue;
+
+          if (isRunResumable(agentRun)) {
+            const claimed = await claimAgentRun(supabase, agentRun);
+            if (claimed) {
+              send({ type: 'run_resumed', runId: id });
+              await executeAgentRun(supabase, claimed, {
+                sink: (seq, event) => send(event, seq),
+              });
+              // Finished or paused again; the client reconnects for the next slice
+              break;
+            }
+          }
+
+          // Another request is executing the run — keep tailing its events
+          if (Date.now() > deadline) break;
+          await new Promise((resolve) => setTimeout(resolve, TAIL_POLL_MS));
+        }
+
+        close();
+
+      } catch (error) {
+        send({
+          type: 'error',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        close();
+      }
+    },
+    cancel() {
+      // Client went away; the run itself continues in the background
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,68 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import type { AgentRun } from '@rork/shared';
+import { commitReviewedFiles } from '@/lib/agent-runs';
+import { openRunPullRequest } from '@/lib/github-sync';
+
+/**
+ * POST /api/agent/runs/[id]/review
+ * Body: { files: Array<{ path: string; content: string | null }> }
+ * Apply the accepted changes of a staged run (null content deletes the file).
+ * Paths not listed are discarded; an empty list discards the whole changeset.
+ * With pull requests per run on, the applied changes are opened as a pull request.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: run } = await supabase
+      .from('agent_runs')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!run) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+    }
+
+    const agentRun = run as AgentRun;
+    if (agentRun.review_status !== 'pending') {
+      return NextResponse.json({ error: 'This run has no changes awaiting review' }, { status: 409 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (!Array.isArray(body.files)) {
+      return NextResponse.json({ error: 'files array required' }, { status: 400 });
+    }
+
+    const files: Record<string, string | null> = {};
+    for (const file of body.files as Array<{ path?: unknown; content?: unknown }>) {
+      if (typeof file.path !== 'string' || (typeof file.content !== 'string' && file.content !== null)) {
+        return NextResponse.json({ error: 'Each file needs a path and string or null content' }, { status: 400 });
+      }
+      files[file.path] = file.content;
+    }
+
+    const applied = await commitReviewedFiles(supabase, agentRun, files);
+    const pullRequest = applied.length > 0 ? await openRunPullRequest(supabase, agentRun) : null;
+    return NextResponse.json({
+      applied,
+      status: applied.length > 0 ? 'applied' : 'discarded',
+      pullRequestUrl: pullRequest?.url ?? null,
+    });
+
+  } catch (error) {
+    console.error('Agent run review error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * GET /api/agent/runs?projectId=...
+ * The project's in-progress (running or paused) agent run, if any, so the
+ * editor can reattach to it after a reload, plus the latest staged run whose
+ * changes still await review
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const projectId = request.nextUrl.searchParams.get('projectId');
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
+    }
+
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: run, error } = await supabase
+      .from('agent_runs')
+      .select('id, status, prompt, agent_mode, model, iteration, staged, created_at, updated_at')
+      .eq('project_id', projectId)
+      .eq('user_id', user.id)
+      .in('status', ['running', 'paused'])
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const { data: review, error: reviewError } = await supabase
+      .from('agent_runs')
+      .select('id, prompt, written_files, changes, created_at')
+      .eq('project_id', projectId)
+      .eq('user_id', user.id)
+      .eq('review_status', 'pending')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (reviewError) {
+      return NextResponse.json({ error: reviewError.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ run, review });
+
+  } catch (error) {
+    console.error('Agent runs error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
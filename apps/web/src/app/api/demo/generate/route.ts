@@ -1,5 +1,8 @@
 import { NextRequest } from 'next/server';
 import { createAIProvider } from '@ai-engine/core';
+import type { ModelId } from '@rork/shared';
+import { isModelId, resolveModel } from '@/lib/model-keys';
+import { createClient } from '@/lib/supabase/server';
 
 export const maxDuration = 300;
 
@@ -25,18 +28,19 @@ export async function POST(request: NextRequest) {
           return;
         }
         
-        // Get API key
-        const apiKey = model === 'claude' 
-          ? process.env.ANTHROPIC_API_KEY 
-          : process.env.GEMINI_API_KEY;
+        // Get API key: a signed-in user's own key first, else the server's
+        const modelId: ModelId = isModelId(model) ? model : 'claude';
+        const supabase = await createClient();
+        const { data: { user } } = await supabase.auth.getUser();
+        const modelKey = await resolveModel(supabase, user?.id ?? null, modelId, 'demo-generate');
         
-        if (!apiKey || apiKey.startsWith('your-')) {
+        if (!modelKey) {
           // Return mock response if no API key
           controller.enqueue(encoder.encode(
             `data: ${JSON.stringify({ type: 'text', content: 'API key not configured. ' })}\n\n`
           ));
           controller.enqueue(encoder.encode(
-            `data: ${JSON.stringify({ type: 'text', content: 'Please add your ANTHROPIC_API_KEY or GEMINI_API_KEY to .env.local\n\n' })}\n\n`
+            `data: ${JSON.stringify({ type: 'text', content: 'Please add your own key in Settings, or ANTHROPIC_API_KEY or GEMINI_API_KEY to .env.local\n\n' })}\n\n`
           ));
           controller.enqueue(encoder.encode(
             `data: ${JSON.stringify({ type: 'text', content: 'Here\'s a sample response showing what would happen:\n\n' })}\n\n`
@@ -200,12 +204,15 @@ export default function HomeScreen() {
         }
         
         // Create provider and stream
-        const provider = createAIProvider(model as 'claude' | 'gemini', apiKey);
+        controller.enqueue(encoder.encode(
+          `data: ${JSON.stringify({ type: 'key_source', model: modelId, keySource: modelKey.source })}\n\n`
+        ));
+        const aiProvider = createAIProvider(modelKey.type, modelKey.apiKey, modelKey.config);
         
         let fullText = '';
         const files: Array<{ path: string; content: string; language: string }> = [];
         
-        for await (const chunk of provider.streamCode({
+        for await (const chunk of aiProvider.streamCode({
           prompt,
           currentFiles,
           conversationHistory,
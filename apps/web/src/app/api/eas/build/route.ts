@@ -0,0 +1,121 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import type { Build, BuildProfile } from '@rork/shared';
+import { createExpoApiClient } from '@/lib/expo-api';
+import { TERMINAL_BUILD_STATES, type BuildConfig } from '@/lib/eas-build';
+import { refreshBuilds, submitProjectBuilds } from '@/lib/eas-submit';
+import { openToken } from '@/lib/token-vault';
+
+const PLATFORMS: BuildConfig['platform'][] = ['ios', 'android', 'all'];
+const PROFILES: BuildProfile[] = ['development', 'preview', 'production'];
+const BUILD_HISTORY_LIMIT = 20;
+
+const MISSING_TOKEN_ERROR = 'Expo token not configured. Go to Settings to add your Expo access token.';
+
+/**
+ * GET /api/eas/build?projectId=...
+ * Build history of a project, newest first. Builds still running are polled
+ * on Expo and updated before returning.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const projectId = request.nextUrl.searchParams.get('projectId');
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId required' }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from('builds')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(BUILD_HISTORY_LIMIT);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    let builds = (data ?? []) as Build[];
+    // The token is only decrypted when there is something to poll
+    const running = builds.some(build => !TERMINAL_BUILD_STATES.includes(build.status) && build.eas_build_id);
+    const expoToken = running ? await openToken(supabase, user.id, 'expo', 'eas-build') : null;
+    if (expoToken) {
+      builds = await refreshBuilds(supabase, createExpoApiClient(expoToken), builds);
+    }
+
+    return NextResponse.json({ builds });
+
+  } catch (error) {
+    console.error('List builds error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/eas/build
+ * Body: { projectId, platform: 'ios' | 'android' | 'all', profile? }
+ * Add the EAS config to the project and submit builds with the user's Expo token.
+ * `configFiles` lists the config files that were written (path → content).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { projectId, platform, profile = 'preview' } = body;
+
+    if (!projectId || !PLATFORMS.includes(platform)) {
+      return NextResponse.json({ error: 'projectId and platform (ios, android or all) are required' }, { status: 400 });
+    }
+    if (!PROFILES.includes(profile)) {
+      return NextResponse.json({ error: `Unknown build profile: ${profile}` }, { status: 400 });
+    }
+
+    // Verify project ownership
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('id, name')
+      .eq('id', projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (projectError || !project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const expoToken = await openToken(supabase, user.id, 'expo', 'eas-build');
+    if (!expoToken) {
+      return NextResponse.json({ error: MISSING_TOKEN_ERROR }, { status: 400 });
+    }
+
+    const { builds, configFiles } = await submitProjectBuilds(supabase, createExpoApiClient(expoToken), {
+      projectId,
+      userId: user.id,
+      projectName: project.name,
+      platform,
+      profile,
+    });
+
+    return NextResponse.json({ builds, configFiles }, { status: 201 });
+
+  } catch (error) {
+    console.error('EAS build error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to start build' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createGitHubClient, getBranchHead } from '@/lib/github';
+import {
+  applyPull,
+  getGitHubToken,
+  getLinkedRepo,
+  loadGitHubProject,
+  previewPull,
+} from '@/lib/github-sync';
+import { loadCurrentFiles } from '@/lib/project-versions';
+
+const MISSING_TOKEN_ERROR = 'GitHub token not configured. Go to Settings to add your GitHub token.';
+
+/**
+ * GET /api/github/pull?projectId=...
+ * Preview a pull: the linked branch's changes since the last sync, each with
+ * the local and remote content and the merge result.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const projectId = request.nextUrl.searchParams.get('projectId');
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId required' }, { status: 400 });
+    }
+
+    const project = await loadGitHubProject(supabase, projectId, user.id);
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    const link = getLinkedRepo(project);
+    if (!link) {
+      return NextResponse.json({ error: 'The project is not linked to a GitHub repository' }, { status: 400 });
+    }
+
+    const githubToken = await getGitHubToken(supabase, user.id, 'github-pull');
+    if (!githubToken) {
+      return NextResponse.json({ error: MISSING_TOKEN_ERROR }, { status: 400 });
+    }
+    const client = createGitHubClient(githubToken);
+
+    const head = await getBranchHead(client, link.repo, link.branch);
+    if (!head) {
+      return NextResponse.json({ error: `Branch ${link.branch} not found on GitHub` }, { status: 404 });
+    }
+
+    const changes = await previewPull(supabase, client, project, head.commitSha);
+    return NextResponse.json({ remoteSha: head.commitSha, changes });
+
+  } catch (error) {
+    console.error('GitHub pull preview error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to check GitHub for changes' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/github/pull
+ * Body: { projectId, remoteSha }
+ * Apply the previewed pull of `remoteSha`. Conflicting files are written with
+ * conflict markers and listed in `conflicts`; `files` is the updated project.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { projectId, remoteSha } = await request.json();
+    if (!projectId || typeof remoteSha !== 'string') {
+      return NextResponse.json({ error: 'projectId and remoteSha are required' }, { status: 400 });
+    }
+
+    const project = await loadGitHubProject(supabase, projectId, user.id);
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const githubToken = await getGitHubToken(supabase, user.id, 'github-pull');
+    if (!githubToken) {
+      return NextResponse.json({ error: MISSING_TOKEN_ERROR }, { status: 400 });
+    }
+
+    const { changed, conflicts } = await applyPull(supabase, createGitHubClient(githubToken), {
+      project,
+      userId: user.id,
+      remoteSha,
+    });
+
+    const files = Object.entries(await loadCurrentFiles(supabase, projectId))
+      .map(([path, file]) => ({ path, content: file.content, language: file.language }))
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+    return NextResponse.json({ changed, conflicts, files });
+
+  } catch (error) {
+    console.error('GitHub pull error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to pull from GitHub' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,55 +1,168 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
-import { syncToGitHub, importFromGitHub } from '@/lib/github';
+import {
+  createGitHubClient,
+  ensureRepo,
+  getBranchHead,
+  importFromGitHub,
+  parseRepoFullName,
+  repoUrl,
+  slugify,
+} from '@/lib/github';
+import {
+  getGitHubToken,
+  getLinkedRepo,
+  loadGitHubProject,
+  pushProject,
+  recordSync,
+} from '@/lib/github-sync';
 import { getLanguageFromPath } from '@/lib/language';
+import { loadCurrentFiles } from '@/lib/project-versions';
 
+const MISSING_TOKEN_ERROR = 'GitHub token not configured. Go to Settings to add your GitHub token.';
+
+const PUSH_REFUSED_ERRORS = {
+  'remote-moved': 'GitHub has new commits since the last sync. Pull them first, or merge and push.',
+  conflicts: 'GitHub has changes that conflict with yours. Pull and resolve the conflicts, then push.',
+  unresolved: 'Some files still contain merge conflict markers. Resolve them before pushing.',
+} as const;
+
+const RECENT_PULL_REQUESTS = 5;
+
+/**
+ * GET /api/github/sync?projectId=...
+ * The project's GitHub link, whether the branch has commits it hasn't synced,
+ * and the pull requests recently opened for agent runs.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const projectId = request.nextUrl.searchParams.get('projectId');
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId required' }, { status: 400 });
+    }
+
+    const project = await loadGitHubProject(supabase, projectId, user.id);
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const link = getLinkedRepo(project);
+    if (!link) {
+      return NextResponse.json({ link: null });
+    }
+
+    const githubToken = await getGitHubToken(supabase, user.id, 'github-sync');
+    const head = githubToken
+      ? await getBranchHead(createGitHubClient(githubToken), link.repo, link.branch).catch(() => null)
+      : null;
+
+    const { data: runPulls } = await supabase
+      .from('agent_runs')
+      .select('id, prompt, github_pr_url, created_at')
+      .eq('project_id', projectId)
+      .not('github_pr_url', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(RECENT_PULL_REQUESTS);
+
+    return NextResponse.json({
+      link: {
+        repo: project.github_repo,
+        branch: link.branch,
+        repoUrl: repoUrl(link.repo),
+        syncedSha: project.github_synced_sha,
+        syncedAt: project.github_synced_at,
+        prPerRun: project.github_pr_per_run,
+      },
+      pullRequests: (runPulls ?? []).map((run) => ({
+        runId: run.id,
+        prompt: run.prompt,
+        url: run.github_pr_url,
+        createdAt: run.created_at,
+      })),
+      remoteSha: head?.commitSha ?? null,
+      behind: Boolean(head && project.github_synced_sha && head.commitSha !== project.github_synced_sha),
+    });
+
+  } catch (error) {
+    console.error('GitHub status error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/github/sync
+ * Body: { projectId, repo?, branch?, commitMessage?, isPrivate?, merge? }
+ * Push the project to its linked branch. An unlinked project is linked first:
+ * `repo` is "owner/name" or a repo name created under the token's account
+ * (defaults to the project name). Refused with 409 when GitHub moved since
+ * the last sync, unless `merge` is set and the changes merge cleanly
+ * (`files` is then the updated project).
+ */
 export async function POST(request: NextRequest) {
   try {
     const supabase = await createClient();
     const { data: { user } } = await supabase.auth.getUser();
-    
+
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
-    
+
     const body = await request.json();
-    const { projectName, files, repoName, commitMessage, isPrivate = true } = body;
-    
-    if (!projectName || !files || Object.keys(files).length === 0) {
-      return NextResponse.json(
-        { error: 'Project name and files are required' },
-        { status: 400 }
-      );
+    const { projectId, repo, branch, commitMessage, isPrivate = true, merge = false } = body;
+
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId required' }, { status: 400 });
     }
-    
-    // Get user's GitHub token from settings
-    const { data: settings } = await supabase
-      .from('user_settings')
-      .select('github_token')
-      .eq('user_id', user.id)
-      .single();
-    
-    const githubToken = settings?.github_token;
-    
+
+    let project = await loadGitHubProject(supabase, projectId, user.id);
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const githubToken = await getGitHubToken(supabase, user.id, 'github-sync');
     if (!githubToken) {
-      return NextResponse.json(
-        { error: 'GitHub token not configured. Go to Settings to add your GitHub token.' },
-        { status: 400 }
-      );
+      return NextResponse.json({ error: MISSING_TOKEN_ERROR }, { status: 400 });
     }
-    
-    // Sync to GitHub
-    const result = await syncToGitHub(githubToken, projectName, files, {
-      repoName,
-      commitMessage,
-      isPrivate,
-    });
-    
-    return NextResponse.json({
-      success: true,
-      ...result,
+    const client = createGitHubClient(githubToken);
+
+    // Link on first push
+    if (!getLinkedRepo(project)) {
+      const repoName = typeof repo === 'string' && repo.trim() ? repo.trim() : slugify(project.name) || 'rork-app';
+      const repoRef = parseRepoFullName(repoName) ?? await ensureRepo(client, repoName, isPrivate);
+      const linkedBranch = typeof branch === 'string' && branch.trim() ? branch.trim() : 'main';
+      await recordSync(supabase, projectId, { repo: repoRef, branch: linkedBranch, syncedSha: null });
+      project = {
+        ...project,
+        github_repo: `${repoRef.owner}/${repoRef.repo}`,
+        github_branch: linkedBranch,
+        github_synced_sha: null,
+      };
+    }
+
+    const result = await pushProject(supabase, client, {
+      project,
+      userId: user.id,
+      message: commitMessage || 'Update from Rork',
+      merge: Boolean(merge),
     });
-    
+
+    if (result.status === 'remote-moved' || result.status === 'conflicts' || result.status === 'unresolved') {
+      return NextResponse.json({ error: PUSH_REFUSED_ERRORS[result.status], ...result }, { status: 409 });
+    }
+    // A merge pulled remote changes into the project: send back the updated files
+    const files = result.status === 'pushed' && result.merged.length > 0
+      ? Object.entries(await loadCurrentFiles(supabase, projectId))
+          .map(([path, file]) => ({ path, content: file.content, language: file.language }))
+      : undefined;
+    return NextResponse.json({ success: true, ...result, files });
+
   } catch (error) {
     console.error('GitHub sync error:', error);
     return NextResponse.json(
@@ -59,46 +172,76 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * PATCH /api/github/sync
+ * Body: { projectId, prPerRun }
+ * Turn pull requests per agent run on or off: each run is pushed to its own
+ * branch and opened as a pull request into the linked branch.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { projectId, prPerRun } = body;
+
+    if (!projectId || typeof prPerRun !== 'boolean') {
+      return NextResponse.json({ error: 'projectId and prPerRun required' }, { status: 400 });
+    }
+
+    const { data: project, error } = await supabase
+      .from('projects')
+      .update({ github_pr_per_run: prPerRun })
+      .eq('id', projectId)
+      .eq('user_id', user.id)
+      .select('id')
+      .single();
+
+    if (error || !project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, prPerRun });
+
+  } catch (error) {
+    console.error('GitHub settings error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
 // Import from GitHub
 export async function PUT(request: NextRequest) {
   try {
     const supabase = await createClient();
     const { data: { user } } = await supabase.auth.getUser();
-    
+
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
-    
+
     const body = await request.json();
     const { owner, repo, branch = 'main', projectId } = body;
-    
+
     if (!owner || !repo) {
       return NextResponse.json(
         { error: 'Owner and repo are required' },
         { status: 400 }
       );
     }
-    
-    // Get user's GitHub token from settings
-    const { data: settings } = await supabase
-      .from('user_settings')
-      .select('github_token')
-      .eq('user_id', user.id)
-      .single();
-    
-    const githubToken = settings?.github_token;
-    
+
+    const githubToken = await getGitHubToken(supabase, user.id, 'github-import');
     if (!githubToken) {
-      return NextResponse.json(
-        { error: 'GitHub token not configured. Go to Settings to add your GitHub token.' },
-        { status: 400 }
-      );
+      return NextResponse.json({ error: MISSING_TOKEN_ERROR }, { status: 400 });
     }
-    
+
     // Import from GitHub
-    const files = await importFromGitHub(githubToken, owner, repo, branch);
-    
-    // If a projectId was supplied, persist the imported files to the DB
+    const { files, commitSha } = await importFromGitHub(githubToken, owner, repo, branch);
+
+    // If a projectId was supplied, persist the imported files to the DB and link the repo
     if (projectId) {
       // Verify the project belongs to this user
       const { data: project } = await supabase
@@ -107,7 +250,7 @@ export async function PUT(request: NextRequest) {
         .eq('id', projectId)
         .eq('user_id', user.id)
         .single();
-      
+
       if (project) {
         const upsertData = Object.entries(files).map(([path, content]) => ({
           project_id: projectId,
@@ -115,26 +258,24 @@ export async function PUT(request: NextRequest) {
           content,
           language: getLanguageFromPath(path),
         }));
-        
+
         if (upsertData.length > 0) {
           await supabase
             .from('project_files')
             .upsert(upsertData, { onConflict: 'project_id,path' });
-          
-          await supabase
-            .from('projects')
-            .update({ updated_at: new Date().toISOString() })
-            .eq('id', projectId);
         }
+
+        await recordSync(supabase, projectId, { repo: { owner, repo }, branch, syncedSha: commitSha });
       }
     }
-    
+
     return NextResponse.json({
       success: true,
       files,
       fileCount: Object.keys(files).length,
+      commitSha,
     });
-    
+
   } catch (error) {
     console.error('GitHub import error:', error);
     return NextResponse.json(
@@ -144,4 +285,37 @@ export async function PUT(request: NextRequest) {
   }
 }
 
+/**
+ * DELETE /api/github/sync?projectId=...
+ * Unlink the project from its repo (the repo itself is left untouched).
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
 
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const projectId = request.nextUrl.searchParams.get('projectId');
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId required' }, { status: 400 });
+    }
+
+    const { error } = await supabase
+      .from('projects')
+      .update({ github_repo: null, github_branch: null, github_synced_sha: null, github_synced_at: null })
+      .eq('id', projectId)
+      .eq('user_id', user.id);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('GitHub unlink error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,7 +1,14 @@
 import { createClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
 import JSZip from 'jszip';
+import { getExpoSdk } from '@rork/shared';
+import { buildProjectExport, EXPORT_MODES, loadExpoTemplate, type ExportMode } from '@/lib/project-export';
 
+/**
+ * GET /api/projects/[id]/export?mode=managed|eas|source[&report=1]
+ * Download the project as a ZIP. managed (default) and eas produce a runnable
+ * Expo project; with report=1 only the validation report is returned.
+ */
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -14,11 +21,16 @@ export async function GET(
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
+
+    const mode = (request.nextUrl.searchParams.get('mode') ?? 'managed') as ExportMode;
+    if (!EXPORT_MODES.includes(mode)) {
+      return NextResponse.json({ error: `mode must be one of: ${EXPORT_MODES.join(', ')}` }, { status: 400 });
+    }
     
     // Get project
     const { data: project } = await supabase
       .from('projects')
-      .select('name')
+      .select('name, sdk_version')
       .eq('id', id)
       .eq('user_id', user.id)
       .single();
@@ -36,47 +48,25 @@ export async function GET(
     if (!files || files.length === 0) {
       return NextResponse.json({ error: 'No files to export' }, { status: 400 });
     }
+
+    const projectFiles = Object.fromEntries(files.map(file => [file.path, file.content as string]));
+    const { files: exportFiles, report } = buildProjectExport(
+      project.name,
+      projectFiles,
+      mode,
+      await loadExpoTemplate(),
+      getExpoSdk(project.sdk_version)
+    );
+
+    if (request.nextUrl.searchParams.get('report') === '1') {
+      return NextResponse.json({ report });
+    }
     
     // Create ZIP
     const zip = new JSZip();
-    
-    // Add all project files
-    files.forEach(file => {
-      zip.file(file.path, file.content);
-    });
-    
-    // Add README
-    const readme = `# ${project.name}
-
-Exported from Rork AI Mobile App Builder
-
-## Getting Started
-
-1. Install dependencies:
-   \`\`\`bash
-   npm install
-   \`\`\`
-
-2. Start the development server:
-   \`\`\`bash
-   npx expo start
-   \`\`\`
-
-3. Scan the QR code with Expo Go on your device
-
-## Build for Production
-
-\`\`\`bash
-npx expo build:android
-npx expo build:ios
-\`\`\`
-
-## Learn More
-
-- [Expo Documentation](https://docs.expo.dev/)
-- [React Native Documentation](https://reactnative.dev/)
-`;
-    zip.file('README.md', readme);
+    for (const [path, content] of Object.entries(exportFiles)) {
+      zip.file(path, content);
+    }
     
     // Generate ZIP buffer
     const content = await zip.generateAsync({ 
@@ -0,0 +1,48 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { analyzeImportGraph } from '@ai-engine/core';
+
+/**
+ * POST /api/projects/[id]/import-graph
+ * Body: { files: { [path]: content } } — the editor's working copy. Returns
+ * the import issues: unresolved imports, missing exports, circular imports
+ * and unreachable files.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const files: unknown = body.files;
+    if (!files || typeof files !== 'object' || Object.values(files).some((content) => typeof content !== 'string')) {
+      return NextResponse.json({ error: 'files must map paths to file contents' }, { status: 400 });
+    }
+
+    const { issues } = analyzeImportGraph(files as Record<string, string>);
+    return NextResponse.json({ issues });
+
+  } catch (error) {
+    console.error('Import graph error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,105 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { describeLintRules } from '@ai-engine/core';
+
+/**
+ * GET /api/projects/[id]/lint-rules
+ * List the registered lint rules with this project's enabled state
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: project, error } = await supabase
+      .from('projects')
+      .select('id, lint_rules')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (error || !project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const toggles: Record<string, boolean> = project.lint_rules ?? {};
+    const rules = describeLintRules().map((rule) => ({
+      ...rule,
+      enabled: toggles[rule.id] ?? true,
+    }));
+
+    return NextResponse.json({ rules });
+
+  } catch (error) {
+    console.error('Lint rules error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/projects/[id]/lint-rules
+ * Body: { rules: { [ruleId]: boolean } } — merged into the stored toggles
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const updates = body?.rules;
+    if (!updates || typeof updates !== 'object') {
+      return NextResponse.json({ error: 'rules object is required' }, { status: 400 });
+    }
+
+    const knownIds = new Set(describeLintRules().map((rule) => rule.id));
+    for (const [ruleId, enabled] of Object.entries(updates)) {
+      if (!knownIds.has(ruleId) || typeof enabled !== 'boolean') {
+        return NextResponse.json({ error: `Invalid toggle for rule: ${ruleId}` }, { status: 400 });
+      }
+    }
+
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id, lint_rules')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const lintRules = { ...(project.lint_rules ?? {}), ...updates };
+    const { error } = await supabase
+      .from('projects')
+      .update({ lint_rules: lintRules })
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ lintRules });
+
+  } catch (error) {
+    console.error('Lint rules update error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -40,7 +40,7 @@ export async function GET(
     // Get chat messages (ordered by creation time)
     const { data: messages } = await supabase
       .from('messages')
-      .select('id, role, content, model, files_changed, tokens_used, created_at')
+      .select('id, role, content, model, key_source, files_changed, tokens_used, version_id, created_at')
       .eq('project_id', id)
       .order('created_at', { ascending: true });
     
@@ -0,0 +1,47 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { analyzeRoutes } from '@ai-engine/core';
+
+/**
+ * POST /api/projects/[id]/routes
+ * Body: { files: { [path]: content } } — the editor's working copy. Returns
+ * the Expo Router route map (routes, declared screens, links) and its issues:
+ * dead links, unmatched screens, stray tabs and routes without a default export.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const files: unknown = body.files;
+    if (!files || typeof files !== 'object' || Object.values(files).some((content) => typeof content !== 'string')) {
+      return NextResponse.json({ error: 'files must map paths to file contents' }, { status: 400 });
+    }
+
+    return NextResponse.json(analyzeRoutes(files as Record<string, string>));
+
+  } catch (error) {
+    console.error('Route map error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
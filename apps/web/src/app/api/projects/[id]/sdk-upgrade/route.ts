@@ -0,0 +1,106 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import type { ExpoSdkVersion } from '@rork/shared';
+import { applyProjectUpgrade, planProjectUpgrade, upgradeTargetError } from '@/lib/sdk-upgrade';
+
+/**
+ * POST /api/projects/[id]/sdk-upgrade
+ * Body: { sdkVersion } — the upgrade changeset for review: files with their
+ * original and upgraded content, notes on what needs a hand migration, and
+ * the verification result. Nothing is written.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id, sdk_version, lint_rules')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const targetError = upgradeTargetError(project, body.sdkVersion);
+    if (targetError) {
+      return NextResponse.json({ error: targetError }, { status: 400 });
+    }
+
+    const plan = await planProjectUpgrade(supabase, project, body.sdkVersion as ExpoSdkVersion);
+    return NextResponse.json(plan);
+
+  } catch (error) {
+    console.error('SDK upgrade plan error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/projects/[id]/sdk-upgrade
+ * Body: { sdkVersion, files: Array<{ path, content }> } — apply the accepted
+ * upgrade changes (paths the upgrade doesn't touch are ignored), checkpoint
+ * the project first, and switch it to the new SDK.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id, sdk_version, lint_rules')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const targetError = upgradeTargetError(project, body.sdkVersion);
+    if (targetError) {
+      return NextResponse.json({ error: targetError }, { status: 400 });
+    }
+    if (!Array.isArray(body.files)) {
+      return NextResponse.json({ error: 'files array required' }, { status: 400 });
+    }
+
+    const files: Record<string, string> = {};
+    for (const file of body.files as Array<{ path?: unknown; content?: unknown }>) {
+      if (typeof file.path !== 'string' || typeof file.content !== 'string') {
+        return NextResponse.json({ error: 'Each file needs a path and string content' }, { status: 400 });
+      }
+      files[file.path] = file.content;
+    }
+
+    const sdkVersion = body.sdkVersion as ExpoSdkVersion;
+    const applied = await applyProjectUpgrade(supabase, user.id, project, sdkVersion, files);
+    return NextResponse.json({ applied, sdkVersion });
+
+  } catch (error) {
+    console.error('SDK upgrade error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,110 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import type { AgentRunFileChange, ProjectVersion } from '@rork/shared';
+import {
+  applySnapshot,
+  changesBetween,
+  createProjectVersion,
+  loadCurrentFiles,
+  loadVersions,
+  replayVersions,
+} from '@/lib/project-versions';
+
+/**
+ * POST /api/projects/[id]/versions/[versionId]/restore
+ * Body: { path?: string; scope?: 'version' | 'run' }
+ * Restores one file, every file an agent run changed (`scope: 'run'`, undoing
+ * that run only) or the whole project to this version. The current state is
+ * saved as a version first, so a restore can itself be undone.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    const { id: projectId, versionId } = await params;
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project ownership
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (projectError || !project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { path, scope = 'version' } = body as { path?: string; scope?: 'version' | 'run' };
+
+    const versions = await loadVersions(supabase, projectId);
+    const version = versions.find((v) => v.id === versionId);
+    const target = replayVersions(versions, versionId);
+    if (!version || !target) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    // Limit the restore to the requested paths (undefined = every file)
+    let paths: string[] | undefined;
+    let label: string;
+    if (path) {
+      paths = [path];
+      label = `Before restoring ${path}`;
+    } else if (scope === 'run') {
+      const runPaths = await getRunPaths(supabase, version);
+      if (!runPaths) {
+        return NextResponse.json({ error: 'This version has no finished agent run to revert' }, { status: 409 });
+      }
+      paths = runPaths;
+      label = `Before reverting "${version.label}"`;
+    } else {
+      label = `Before restoring "${version.label}"`;
+    }
+
+    const current = await loadCurrentFiles(supabase, projectId);
+    const changes = changesBetween(current, target, paths);
+    const restored = Object.keys(changes);
+
+    if (restored.length > 0) {
+      await createProjectVersion(supabase, { projectId, userId: user.id, kind: 'restore', label });
+      await applySnapshot(supabase, projectId, changes);
+    }
+
+    const files = Object.entries(restored.length > 0 ? await loadCurrentFiles(supabase, projectId) : current)
+      .map(([filePath, file]) => ({ path: filePath, content: file.content, language: file.language }))
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+    return NextResponse.json({ restored, files });
+
+  } catch (error) {
+    console.error('Restore version error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/** Paths a finished agent run touched (including old paths of moved files) */
+async function getRunPaths(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  version: ProjectVersion
+): Promise<string[] | null> {
+  if (version.kind !== 'agent_run' || !version.run_id) return null;
+
+  const { data: run } = await supabase
+    .from('agent_runs')
+    .select('status, changes')
+    .eq('id', version.run_id)
+    .single();
+
+  if (!run || run.status === 'running' || run.status === 'paused') return null;
+  return (run.changes as AgentRunFileChange[]).flatMap((change) =>
+    change.from ? [change.path, change.from] : [change.path]
+  );
+}
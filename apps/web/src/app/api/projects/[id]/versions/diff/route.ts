@@ -0,0 +1,54 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { diffSnapshots, loadCurrentFiles, loadVersions, replayVersions } from '@/lib/project-versions';
+
+/**
+ * GET /api/projects/[id]/versions/diff?from=<versionId>&to=<versionId|current>
+ * Per-file differences between two versions (`to` defaults to the current files).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project ownership
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (projectError || !project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const from = request.nextUrl.searchParams.get('from');
+    const to = request.nextUrl.searchParams.get('to') || 'current';
+    if (!from) {
+      return NextResponse.json({ error: 'from version required' }, { status: 400 });
+    }
+
+    const versions = await loadVersions(supabase, projectId);
+    const before = replayVersions(versions, from);
+    const after = to === 'current' ? await loadCurrentFiles(supabase, projectId) : replayVersions(versions, to);
+
+    if (!before || !after) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ from, to, files: diffSnapshots(before, after) });
+
+  } catch (error) {
+    console.error('Diff versions error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
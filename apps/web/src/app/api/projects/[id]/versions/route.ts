@@ -0,0 +1,95 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { createProjectVersion, VERSION_SUMMARY_COLUMNS } from '@/lib/project-versions';
+
+/**
+ * GET /api/projects/[id]/versions
+ * Version history of a project, newest first (metadata only).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: versions, error } = await supabase
+      .from('project_versions')
+      .select(VERSION_SUMMARY_COLUMNS)
+      .eq('project_id', projectId)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ versions: versions || [] });
+
+  } catch (error) {
+    console.error('List versions error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/projects/[id]/versions
+ * Save a version of the project as it is now ({ label? }).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project ownership
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (projectError || !project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const label = typeof body.label === 'string' && body.label.trim() ? body.label.trim() : 'Manual save';
+
+    const version = await createProjectVersion(supabase, {
+      projectId,
+      userId: user.id,
+      kind: 'manual',
+      label,
+    });
+
+    return NextResponse.json({
+      version: {
+        id: version.id,
+        kind: version.kind,
+        label: version.label,
+        message_id: version.message_id,
+        run_id: version.run_id,
+        created_at: version.created_at,
+      },
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Create version error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
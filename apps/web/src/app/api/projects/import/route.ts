@@ -0,0 +1,135 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_EXPO_SDK_VERSION, type VersionSnapshot } from '@rork/shared';
+import { getLanguageFromPath } from '@/lib/language';
+import { MAX_ARCHIVE_BYTES, readProjectArchive, type ProjectArchive } from '@/lib/project-import';
+import { applySnapshot, createProjectVersion } from '@/lib/project-versions';
+
+/**
+ * POST /api/projects/import
+ * Multipart form: file (ZIP), name?, projectId?
+ * Creates a project from the archive, or merges its files into `projectId`
+ * (existing files with the same path are overwritten, others are kept; the
+ * previous state is saved as a version). Returns the project and what was
+ * imported and skipped.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const form = await request.formData().catch(() => null);
+    const upload = form?.get('file');
+    if (!(upload instanceof File)) {
+      return NextResponse.json({ error: 'A ZIP file is required' }, { status: 400 });
+    }
+    if (upload.size > MAX_ARCHIVE_BYTES) {
+      return NextResponse.json(
+        { error: `The archive is larger than ${MAX_ARCHIVE_BYTES / 1024 / 1024} MB. Remove node_modules and build output and try again.` },
+        { status: 413 }
+      );
+    }
+
+    let archive: ProjectArchive;
+    try {
+      archive = await readProjectArchive(await upload.arrayBuffer());
+    } catch {
+      return NextResponse.json({ error: 'The file is not a valid ZIP archive' }, { status: 400 });
+    }
+    if (Object.keys(archive.files).length === 0) {
+      return NextResponse.json({ error: 'The archive has no project files to import', skipped: archive.skipped }, { status: 400 });
+    }
+
+    const projectId = form?.get('projectId');
+    const summary = {
+      imported: Object.keys(archive.files).sort(),
+      skipped: archive.skipped,
+      entry: archive.entry,
+      router: archive.router,
+      sdkVersion: archive.sdkVersion,
+    };
+
+    // Merge into an existing project
+    if (typeof projectId === 'string' && projectId) {
+      const { data: project } = await supabase
+        .from('projects')
+        .select('*')
+        .eq('id', projectId)
+        .eq('user_id', user.id)
+        .single();
+
+      if (!project) {
+        return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+      }
+
+      await createProjectVersion(supabase, {
+        projectId,
+        userId: user.id,
+        kind: 'manual',
+        label: `Before importing ${upload.name}`,
+      });
+      const changes: VersionSnapshot = {};
+      for (const [path, content] of Object.entries(archive.files)) {
+        changes[path] = { content, language: getLanguageFromPath(path) };
+      }
+      await applySnapshot(supabase, projectId, changes);
+
+      return NextResponse.json({ project, ...summary });
+    }
+
+    // New project: it has to be runnable on its own
+    if (!archive.entry) {
+      return NextResponse.json(
+        { error: 'No Expo entry point found: the archive needs an App.tsx or an app/ directory with screens', skipped: archive.skipped },
+        { status: 422 }
+      );
+    }
+
+    const formName = form?.get('name');
+    const name = (typeof formName === 'string' && formName.trim())
+      || archive.suggestedName
+      || upload.name.replace(/\.zip$/i, '')
+      || 'Imported project';
+
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .insert({
+        user_id: user.id,
+        name: name.trim(),
+        description: `Imported from ${upload.name}`,
+        expo_slug: `project-${Date.now()}`,
+        sdk_version: archive.sdkVersion ?? DEFAULT_EXPO_SDK_VERSION,
+      })
+      .select()
+      .single();
+
+    if (projectError) {
+      return NextResponse.json({ error: projectError.message }, { status: 500 });
+    }
+
+    const { error: filesError } = await supabase
+      .from('project_files')
+      .insert(Object.entries(archive.files).map(([path, content]) => ({
+        project_id: project.id,
+        path,
+        content,
+        language: getLanguageFromPath(path),
+      })));
+
+    if (filesError) {
+      // Rollback project creation
+      await supabase.from('projects').delete().eq('id', project.id);
+      return NextResponse.json({ error: filesError.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ project, ...summary });
+
+  } catch (error) {
+    console.error('Import project error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { createClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_EXPO_SDK_VERSION, getExpoSdk } from '@rork/shared';
 import { getDefaultExpoFiles } from '@/lib/expo-template';
 import { getLanguageFromPath } from '@/lib/language';
 
@@ -51,6 +52,7 @@ export async function POST(request: NextRequest) {
         name: name.trim(),
         description: description?.trim() || null,
         expo_slug: `project-${Date.now()}`,
+        sdk_version: DEFAULT_EXPO_SDK_VERSION,
       })
       .select()
       .single();
@@ -60,7 +62,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Initialize with default Expo files
-    const defaultFiles = getDefaultExpoFiles(name);
+    const defaultFiles = getDefaultExpoFiles(name, getExpoSdk(DEFAULT_EXPO_SDK_VERSION));
     const fileInserts = Object.entries(defaultFiles).map(([path, content]) => ({
       project_id: project.id,
       path,
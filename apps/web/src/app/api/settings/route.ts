@@ -1,5 +1,28 @@
+import type { ModelOption } from '@rork/shared';
 import { createClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
+import {
+  migrateUserTokens,
+  recordTokenAudit,
+  sealToken,
+  TOKEN_COLUMNS,
+  TokenVaultError,
+  type VaultTokenKind,
+} from '@/lib/token-vault';
+import { isModelId, isModelProvider, listModels, MODEL_PROVIDERS, validateModelKey } from '@/lib/model-keys';
+
+/** Settings as sent to the browser: whether each token is set, never the tokens */
+function toPublicSettings(settings: Record<string, unknown>, models: ModelOption[]) {
+  const publicSettings: Record<string, unknown> = { ...settings };
+  for (const column of Object.values(TOKEN_COLUMNS)) delete publicSettings[column];
+  return {
+    ...publicSettings,
+    github_connected: !!settings.github_token,
+    expo_connected: !!settings.expo_token,
+    // Models the user can pick, and whose key each would use (null: no usable key)
+    models,
+  };
+}
 
 export async function GET() {
   try {
@@ -26,19 +49,20 @@ export async function GET() {
           theme: 'dark',
           github_connected: false,
           expo_connected: false,
+          models: await listModels(supabase, user.id),
         }
       });
     }
     
+    // Tokens saved before the vault (or under a retired key) are sealed on the next visit
+    try {
+      await migrateUserTokens(supabase, settings);
+    } catch (migrateError) {
+      console.error('Token migration error:', migrateError);
+    }
+
     return NextResponse.json({
-      settings: {
-        ...settings,
-        // Don't expose actual tokens, just whether they're set
-        github_connected: !!settings.github_token,
-        expo_connected: !!settings.expo_token,
-        github_token: undefined,
-        expo_token: undefined,
-      }
+      settings: toPublicSettings(settings, await listModels(supabase, user.id)),
     });
     
   } catch (error) {
@@ -57,14 +81,31 @@ export async function PUT(request: NextRequest) {
     }
     
     const body = await request.json();
-    const { preferred_model, theme, github_token, expo_token } = body;
+    const { preferred_model, theme } = body;
+
+    if (preferred_model !== undefined && !isModelId(preferred_model)) {
+      return NextResponse.json({ error: `Unknown model: ${preferred_model}` }, { status: 400 });
+    }
     
     // Build update object with ONLY the fields the caller provided
-    const updateData: Record<string, string> = {};
+    const updateData: Record<string, string | null> = {};
     if (preferred_model !== undefined) updateData.preferred_model = preferred_model;
     if (theme !== undefined) updateData.theme = theme;
-    if (github_token !== undefined) updateData.github_token = github_token;
-    if (expo_token !== undefined) updateData.expo_token = expo_token;
+
+    // Tokens and keys are only ever stored sealed by the token vault;
+    // model API keys must work before they are saved
+    const savedTokens: VaultTokenKind[] = [];
+    for (const kind of Object.keys(TOKEN_COLUMNS) as VaultTokenKind[]) {
+      const token = body[TOKEN_COLUMNS[kind]];
+      if (token === undefined) continue;
+      const value = typeof token === 'string' ? token.trim() : '';
+      if (value && isModelProvider(kind)) {
+        const invalid = await validateModelKey(kind, value);
+        if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+      }
+      updateData[TOKEN_COLUMNS[kind]] = value ? sealToken(value, { userId: user.id, kind }) : null;
+      if (value) savedTokens.push(kind);
+    }
 
     // Try to update the existing row first
     const { data: existing } = await supabase
@@ -90,8 +131,7 @@ export async function PUT(request: NextRequest) {
           user_id: user.id,
           preferred_model: updateData.preferred_model ?? 'claude',
           theme: updateData.theme ?? 'dark',
-          github_token: updateData.github_token ?? null,
-          expo_token: updateData.expo_token ?? null,
+          ...Object.fromEntries(Object.values(TOKEN_COLUMNS).map((column) => [column, updateData[column] ?? null])),
         })
         .select()
         .single();
@@ -102,24 +142,25 @@ export async function PUT(request: NextRequest) {
     if (error) {
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
+
+    for (const kind of savedTokens) {
+      await recordTokenAudit({ userId: user.id, kind, action: 'seal' });
+    }
     
     return NextResponse.json({
-      settings: {
-        ...settings,
-        github_connected: !!settings.github_token,
-        expo_connected: !!settings.expo_token,
-        github_token: undefined,
-        expo_token: undefined,
-      }
+      settings: toPublicSettings(settings, await listModels(supabase, user.id)),
     });
     
   } catch (error) {
     console.error('Update settings error:', error);
+    if (error instanceof TokenVaultError) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
 
-// Disconnect integrations
+// Disconnect integrations (or remove the user's own model API key)
 export async function DELETE(request: NextRequest) {
   try {
     const supabase = await createClient();
@@ -132,22 +173,24 @@ export async function DELETE(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const integration = searchParams.get('integration');
     
-    if (!integration || !['github', 'expo'].includes(integration)) {
+    if (!integration || !['github', 'expo', ...MODEL_PROVIDERS].includes(integration)) {
       return NextResponse.json({ error: 'Invalid integration' }, { status: 400 });
     }
     
-    const tokenField = integration === 'github' ? 'github_token' : 'expo_token';
+    const kind = integration as VaultTokenKind;
     
     const { error } = await supabase
       .from('user_settings')
-      .update({ [tokenField]: null })
+      .update({ [TOKEN_COLUMNS[kind]]: null })
       .eq('user_id', user.id);
     
     if (error) {
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
+
+    await recordTokenAudit({ userId: user.id, kind, action: 'delete' });
     
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: true, models: await listModels(supabase, user.id) });
     
   } catch (error) {
     console.error('Disconnect integration error:', error);
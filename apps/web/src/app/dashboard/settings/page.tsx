@@ -4,15 +4,25 @@ import { useState, useEffect } from 'react';
 import type { ReactNode } from 'react';
 import Link from 'next/link';
 import { Settings, Key, Github, Smartphone, Check, X, Loader2, Sparkles, AlertCircle, ChevronLeft } from 'lucide-react';
+import type { ModelId, ModelOption, ModelProvider } from '@rork/shared';
 import { useToast } from '@/components/ui/Toast';
 
 interface UserSettings {
-  preferred_model: 'claude' | 'gemini';
+  preferred_model: ModelId;
   theme: 'dark';
   github_connected: boolean;
   expo_connected: boolean;
+  /** Models the user can pick, and whose key each would use (null: no usable key) */
+  models: ModelOption[];
 }
 
+const MODEL_VENDORS: Record<string, string> = { claude: 'Anthropic', gemini: 'Google' };
+
+const MODEL_KEY_FIELDS = [
+  { provider: 'claude', column: 'claude_api_key', name: 'Claude', vendor: 'Anthropic', placeholder: 'sk-ant-...', hint: 'console.anthropic.com > API Keys' },
+  { provider: 'gemini', column: 'gemini_api_key', name: 'Gemini', vendor: 'Google', placeholder: 'AIza...', hint: 'aistudio.google.com > Get API key' },
+] as const;
+
 function Section({ title, icon, children }: { title: string; icon: ReactNode; children: ReactNode }) {
   return (
     <section className="rounded-2xl border border-border bg-card p-6">
@@ -33,6 +43,7 @@ export default function SettingsPage() {
   const [expoToken, setExpoToken] = useState('');
   const [showGithubInput, setShowGithubInput] = useState(false);
   const [showExpoInput, setShowExpoInput] = useState(false);
+  const [modelKeyInputs, setModelKeyInputs] = useState<Partial<Record<ModelProvider, string>>>({});
   const { showToast } = useToast();
 
   useEffect(() => {
@@ -51,7 +62,9 @@ export default function SettingsPage() {
     fetchSettings();
   }, [showToast]);
 
-  const updateSettings = async (updates: Partial<UserSettings & { github_token?: string; expo_token?: string }>) => {
+  const updateSettings = async (
+    updates: Partial<Pick<UserSettings, 'preferred_model'> & Record<'github_token' | 'expo_token' | 'claude_api_key' | 'gemini_api_key', string>>
+  ): Promise<boolean> => {
     setSaving(true);
     try {
       const response = await fetch('/api/settings', {
@@ -63,20 +76,26 @@ export default function SettingsPage() {
       if (data.error) throw new Error(data.error);
       setSettings(data.settings);
       showToast('Settings saved', 'success');
-    } catch {
-      showToast('Failed to save settings', 'error');
+      return true;
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to save settings', 'error');
+      return false;
     } finally {
       setSaving(false);
     }
   };
 
-  const disconnectIntegration = async (integration: 'github' | 'expo') => {
+  const disconnectIntegration = async (integration: 'github' | 'expo' | ModelProvider) => {
     setSaving(true);
     try {
       const response = await fetch(`/api/settings?integration=${integration}`, { method: 'DELETE' });
       if (!response.ok) throw new Error('Failed to disconnect');
-      setSettings((prev) => (prev ? { ...prev, [`${integration}_connected`]: false } as UserSettings : null));
-      showToast(`${integration === 'github' ? 'GitHub' : 'Expo'} disconnected`, 'success');
+      const data = await response.json();
+      setSettings((prev) => (prev
+        ? { ...prev, [`${integration}_connected`]: false, models: data.models ?? prev.models } as UserSettings
+        : null));
+      const labels = { github: 'GitHub', expo: 'Expo', claude: 'Claude API key', gemini: 'Gemini API key' };
+      showToast(`${labels[integration]} ${integration === 'github' || integration === 'expo' ? 'disconnected' : 'removed'}`, 'success');
     } catch {
       showToast('Failed to disconnect', 'error');
     } finally {
@@ -104,6 +123,17 @@ export default function SettingsPage() {
     setShowExpoInput(false);
   };
 
+  const handleModelKeySave = async (field: (typeof MODEL_KEY_FIELDS)[number]) => {
+    const key = modelKeyInputs[field.provider]?.trim();
+    if (!key) {
+      showToast('Please enter an API key', 'error');
+      return;
+    }
+    if (await updateSettings({ [field.column]: key })) {
+      setModelKeyInputs((prev) => ({ ...prev, [field.provider]: '' }));
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex h-64 items-center justify-center">
@@ -129,26 +159,22 @@ export default function SettingsPage() {
       <Section title="AI Model" icon={<Sparkles className="h-5 w-5 text-violet-300" />}>
         <p className="mb-4 text-sm text-muted-foreground">Choose which model the code agent should use by default.</p>
         <div className="grid gap-3 sm:grid-cols-2">
-          <button
-            onClick={() => updateSettings({ preferred_model: 'claude' })}
-            disabled={saving}
-            className={`rounded-xl border px-4 py-4 text-left transition-colors ${
-              settings?.preferred_model === 'claude' ? 'border-violet-400 bg-violet-500/10' : 'border-border bg-secondary hover:bg-accent'
-            }`}
-          >
-            <p className="font-semibold">Claude</p>
-            <p className="text-sm text-muted-foreground">Anthropic</p>
-          </button>
-          <button
-            onClick={() => updateSettings({ preferred_model: 'gemini' })}
-            disabled={saving}
-            className={`rounded-xl border px-4 py-4 text-left transition-colors ${
-              settings?.preferred_model === 'gemini' ? 'border-sky-400 bg-sky-500/10' : 'border-border bg-secondary hover:bg-accent'
-            }`}
-          >
-            <p className="font-semibold">Gemini</p>
-            <p className="text-sm text-muted-foreground">Google</p>
-          </button>
+          {settings?.models.map((model) => {
+            const vendor = MODEL_VENDORS[model.id] ?? 'OpenAI-compatible endpoint';
+            return (
+              <button
+                key={model.id}
+                onClick={() => updateSettings({ preferred_model: model.id })}
+                disabled={saving || !model.keySource}
+                className={`rounded-xl border px-4 py-4 text-left transition-colors disabled:cursor-not-allowed ${
+                  settings.preferred_model === model.id ? 'border-violet-400 bg-violet-500/10' : 'border-border bg-secondary hover:bg-accent'
+                } ${model.keySource ? '' : 'opacity-50'}`}
+              >
+                <p className="font-semibold">{model.name}</p>
+                <p className="text-sm text-muted-foreground">{model.keySource ? vendor : `${vendor} · add an API key below`}</p>
+              </button>
+            );
+          })}
         </div>
       </Section>
 
@@ -237,9 +263,47 @@ export default function SettingsPage() {
       </Section>
 
       <Section title="API Keys" icon={<Key className="h-5 w-5 text-amber-300" />}>
-        <p className="rounded-xl border border-border bg-secondary p-4 text-sm text-muted-foreground">
-          Model provider keys are configured server-side. Update environment variables in Vercel to rotate API keys.
+        <p className="mb-4 text-sm text-muted-foreground">
+          Use your own provider keys for agent runs. Your key is used instead of Rork&apos;s whenever it is set;
+          keys are checked with the provider before saving and stored encrypted.
         </p>
+        <div className="space-y-4">
+          {MODEL_KEY_FIELDS.map((field) => {
+            const source = settings?.models.find((model) => model.id === field.provider)?.keySource ?? null;
+            return (
+              <div key={field.provider} className="rounded-xl border border-border bg-secondary p-4">
+                <div className="mb-3 flex items-center justify-between">
+                  <p className="font-semibold">{field.name} <span className="font-normal text-muted-foreground">· {field.vendor}</span></p>
+                  <div className={`inline-flex items-center gap-1.5 text-sm ${source ? 'text-emerald-300' : 'text-muted-foreground'}`}>
+                    {source ? <Check className="h-4 w-4" /> : <X className="h-4 w-4" />}
+                    {source === 'user' ? 'Using your key' : source === 'server' ? 'Using Rork key' : 'No key'}
+                  </div>
+                </div>
+                <div className="flex flex-col gap-2 sm:flex-row">
+                  <input
+                    type="password"
+                    value={modelKeyInputs[field.provider] ?? ''}
+                    onChange={(e) => setModelKeyInputs((prev) => ({ ...prev, [field.provider]: e.target.value }))}
+                    placeholder={source === 'user' ? 'Replace your saved key' : field.placeholder}
+                    className="w-full rounded-xl border border-border bg-card px-3 py-2.5 text-sm outline-none focus:border-zinc-500"
+                  />
+                  <button onClick={() => handleModelKeySave(field)} disabled={saving} className="rounded-xl bg-white px-4 py-2.5 text-sm font-semibold text-black hover:bg-zinc-200 disabled:opacity-60">
+                    {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save'}
+                  </button>
+                  {source === 'user' && (
+                    <button onClick={() => disconnectIntegration(field.provider)} disabled={saving} className="rounded-xl border border-red-500/40 px-4 py-2.5 text-sm text-red-300 hover:bg-red-500/10 disabled:opacity-60">
+                      Remove
+                    </button>
+                  )}
+                </div>
+                <p className="mt-2 flex items-start gap-1.5 text-xs text-muted-foreground">
+                  <AlertCircle className="mt-0.5 h-3.5 w-3.5" />
+                  {field.hint}
+                </p>
+              </div>
+            );
+          })}
+        </div>
       </Section>
     </div>
   );
@@ -16,6 +16,7 @@ const PreviewPanel = dynamic(
 );
 import { useProjectStore, type EditorFile } from '@/stores/projectStore';
 import { useToast } from '@/components/ui/Toast';
+import type { ModelKeySource } from '@rork/shared';
 
 // Demo template files
 const DEMO_FILES: Record<string, EditorFile> = {
@@ -363,6 +364,7 @@ function DemoChatPanel({ projectId }: { projectId: string }) {
       const decoder = new TextDecoder();
       
       let fullContent = '';
+      let keySource: ModelKeySource | null = null;
       const generatedFiles: Array<{ path: string; content: string; language: string }> = [];
       
       // Add assistant placeholder
@@ -390,6 +392,8 @@ function DemoChatPanel({ projectId }: { projectId: string }) {
                     newMessages[newMessages.length - 1].content = fullContent;
                     return newMessages;
                   });
+                } else if (data.type === 'key_source') {
+                  keySource = data.keySource;
                 } else if (data.type === 'file' && data.file) {
                   generatedFiles.push(data.file);
                 } else if (data.type === 'error') {
@@ -409,7 +413,7 @@ function DemoChatPanel({ projectId }: { projectId: string }) {
       // Apply generated files
       if (generatedFiles.length > 0) {
         applyGeneratedFiles(generatedFiles);
-        showToast(`Generated ${generatedFiles.length} file(s)`, 'success');
+        showToast(`Generated ${generatedFiles.length} file(s)${keySource === 'user' ? ' with your API key' : ''}`, 'success');
       }
       
     } catch (error) {
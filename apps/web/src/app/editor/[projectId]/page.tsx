@@ -10,13 +10,16 @@ import { ChatPanel } from '@/components/editor/ChatPanel';
 import { QRPanel } from '@/components/editor/QRPanel';
 import { Toolbar } from '@/components/editor/Toolbar';
 import { CommandPalette } from '@/components/editor/CommandPalette';
+import { ExportPanel } from '@/components/editor/ExportPanel';
 import { useSnack } from '@/hooks/useSnack';
 
 const PreviewPanel = dynamic(
   () => import('@/components/editor/PreviewPanel').then(mod => mod.PreviewPanel),
   { ssr: false, loading: () => <div className="flex h-full items-center justify-center text-muted-foreground">Loading preview...</div> }
 );
+import { EXPO_SDK_VERSIONS, getExpoSdk, type ModelId, type ModelKeySource } from '@rork/shared';
 import { useProjectStore, type EditorFile, type UIMessage } from '@/stores/projectStore';
+import { useReviewStore } from '@/stores/reviewStore';
 import { useToast } from '@/components/ui/Toast';
 import { useAutoSave } from '@/hooks/useAutoSave';
 
@@ -30,12 +33,13 @@ export default function EditorPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [commandPaletteOpen, setCommandPaletteOpen] = useState(false);
+  const [showExportPanel, setShowExportPanel] = useState(false);
   const [viewMode, setViewMode] = useState<ViewMode>('preview');
   const [expoURL, setExpoURL] = useState<string | undefined>(undefined);
   const [connectedDevices, setConnectedDevices] = useState(0);
   const [initialPrompt, setInitialPrompt] = useState<string | undefined>(undefined);
   
-  const { setProject, files, setActiveFile, setAgentMode } = useProjectStore();
+  const { setProject, setSdkVersion, sdkVersion, files, setActiveFile, setAgentMode } = useProjectStore();
   const { showToast } = useToast();
 
   // Snack SDK — manages Expo preview session (lazy: does NOT connect on mount)
@@ -51,7 +55,7 @@ export default function EditorPage() {
     setAllFiles: snackSetAllFiles,
     updateFiles: snackUpdateFiles,
     goOnline: snackGoOnline,
-  } = useSnack();
+  } = useSnack(sdkVersion);
 
   // Auto-save dirty files every 2 seconds after changes
   useAutoSave({ projectId, delay: 2000, enabled: !loading });
@@ -70,9 +74,9 @@ export default function EditorPage() {
   useEffect(() => {
     if (!loading) {
       const pending = sessionStorage.getItem('rork_pending_prompt');
-      const savedMode = sessionStorage.getItem('rork_agent_mode') as 'plan' | 'build';
+      const savedMode = sessionStorage.getItem('rork_agent_mode');
       
-      if (savedMode === 'plan' || savedMode === 'build') {
+      if (savedMode === 'plan' || savedMode === 'build' || savedMode === 'edit') {
         setAgentMode(savedMode);
         sessionStorage.removeItem('rork_agent_mode');
       }
@@ -119,32 +123,63 @@ export default function EditorPage() {
       });
       
       if (!response.ok) throw new Error('Failed to save');
+      
+      // Every manual save is also a restorable version
+      const versionRes = await fetch(`/api/projects/${projectId}/versions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ label: `Saved ${dirtyFiles.map(f => f.path).join(', ')}` }),
+      });
+      if (!versionRes.ok) console.error('Failed to save version:', versionRes.status);
+      
       showToast(`Saved ${dirtyFiles.length} file(s)`, 'success');
     } catch (err) {
       showToast('Failed to save files', 'error');
     }
   }, [files, projectId, showToast]);
 
-  // Export handler
-  const handleExport = useCallback(async () => {
+  // Upgrade to the newest SDK: the server plans the changeset, which is staged for review
+  const handleUpgradeSdk = useCallback(async () => {
+    const current = getExpoSdk(sdkVersion);
+    const target = EXPO_SDK_VERSIONS.map(version => getExpoSdk(version)).filter(sdk => sdk.major > current.major).pop();
+    if (!target) {
+      showToast(`Already on the newest Expo SDK (${current.major})`, 'info');
+      return;
+    }
+    if (Object.keys(useReviewStore.getState().changes).length > 0) {
+      showToast('Review the staged changes before upgrading the SDK', 'info');
+      useReviewStore.getState().openReview();
+      setViewMode('code');
+      return;
+    }
+    if (Object.values(files).some(f => f.isDirty)) {
+      showToast('Save your changes before upgrading the SDK', 'info');
+      return;
+    }
+
     try {
-      const response = await fetch(`/api/projects/${projectId}/export`);
-      if (!response.ok) throw new Error('Export failed');
-      
-      const blob = await response.blob();
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `project-${projectId}.zip`;
-      a.click();
-      URL.revokeObjectURL(url);
-      
-      showToast('Project exported successfully', 'success');
+      const res = await fetch(`/api/projects/${projectId}/sdk-upgrade`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sdkVersion: target.version }),
+      });
+      const plan = await res.json();
+      if (!res.ok) throw new Error(plan.error || 'Failed to plan the SDK upgrade');
+
+      const review = useReviewStore.getState();
+      review.startSdkUpgrade({ from: plan.from, to: plan.to, notes: plan.notes, verification: plan.verification });
+      for (const change of plan.changes as Array<{ path: string; original: string; content: string }>) {
+        review.stageFile(change.path, change.original, change.content);
+      }
+      review.openReview();
+      setViewMode('code');
+      showToast(`Upgrade to Expo SDK ${target.major}: ${plan.changes.length} file(s) to review`, 'success');
     } catch (err) {
-      showToast('Failed to export project', 'error');
+      showToast(err instanceof Error ? err.message : 'Failed to plan the SDK upgrade', 'error');
     }
-  }, [projectId, showToast]);
+  }, [sdkVersion, files, projectId, showToast]);
 
+  // Export handler
   // Keyboard shortcut for save (Cmd+S / Ctrl+S)
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -192,17 +227,23 @@ export default function EditorPage() {
           id: string;
           role: string;
           content: string;
+          model?: ModelId | null;
+          key_source?: ModelKeySource | null;
           files_changed?: string[];
+          version_id?: string | null;
           created_at: string;
         }) => ({
           id: m.id,
           role: m.role as 'user' | 'assistant',
           content: m.content,
           filesChanged: m.files_changed || undefined,
+          versionId: m.version_id || undefined,
+          run: m.model && m.key_source ? { model: m.model, keySource: m.key_source } : undefined,
           timestamp: new Date(m.created_at),
         }));
         
         setProject(projectId, project.name, loadedFiles, messages);
+        setSdkVersion(getExpoSdk(project.sdk_version).version);
         
       } catch (err) {
         setError('Failed to load project');
@@ -212,7 +253,7 @@ export default function EditorPage() {
     };
     
     loadProject();
-  }, [projectId, router, setProject]);
+  }, [projectId, router, setProject, setSdkVersion]);
 
   // Push all project files to Snack when project finishes loading.
   // If the project has more than just default scaffold (>3 files), also go online immediately.
@@ -257,9 +298,12 @@ export default function EditorPage() {
   }, [snackGoOnline]);
 
   // Handle "View Code" from chat panel - switch to code view and open file
+  // (or its diff, when the file has staged changes awaiting review)
   const handleViewCode = useCallback((filePath?: string) => {
     setViewMode('code');
-    if (filePath) {
+    if (filePath && useReviewStore.getState().changes[filePath]) {
+      useReviewStore.getState().openReview(filePath);
+    } else if (filePath) {
       setActiveFile(filePath);
     }
   }, [setActiveFile]);
@@ -305,7 +349,7 @@ export default function EditorPage() {
       <Toolbar 
         projectId={projectId} 
         onSave={handleSave} 
-        onExport={handleExport}
+        onExport={() => setShowExportPanel(true)}
         viewMode={viewMode}
         onViewModeChange={setViewMode}
       />
@@ -357,8 +401,13 @@ export default function EditorPage() {
         onClose={() => setCommandPaletteOpen(false)}
         projectId={projectId}
         onSave={handleSave}
-        onExport={handleExport}
+        onExport={() => setShowExportPanel(true)}
+        onUpgradeSdk={handleUpgradeSdk}
       />
+
+      {showExportPanel && (
+        <ExportPanel projectId={projectId} onClose={() => setShowExportPanel(false)} />
+      )}
     </div>
   );
 }
@@ -2,7 +2,7 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { Plus, X, Loader2 } from 'lucide-react';
+import { Plus, X, Loader2, Upload } from 'lucide-react';
 
 interface CreateProjectButtonProps {
   variant?: 'primary' | 'secondary';
@@ -13,12 +13,16 @@ export function CreateProjectButton({ variant = 'primary' }: CreateProjectButton
   const [isOpen, setIsOpen] = useState(false);
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
+  const [source, setSource] = useState<'blank' | 'zip'>('blank');
+  const [archive, setArchive] = useState<File | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
   const reset = () => {
     setName('');
     setDescription('');
+    setSource('blank');
+    setArchive(null);
     setError('');
   };
 
@@ -27,11 +31,20 @@ export function CreateProjectButton({ variant = 'primary' }: CreateProjectButton
     setLoading(true);
     setError('');
     try {
-      const res = await fetch('/api/projects', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name, description }),
-      });
+      let res: Response;
+      if (source === 'zip') {
+        if (!archive) return;
+        const form = new FormData();
+        form.append('file', archive);
+        if (name.trim()) form.append('name', name.trim());
+        res = await fetch('/api/projects/import', { method: 'POST', body: form });
+      } else {
+        res = await fetch('/api/projects', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name, description }),
+        });
+      }
       const data = await res.json();
       if (!res.ok) {
         setError(data.error || 'Failed to create project');
@@ -78,28 +91,59 @@ export function CreateProjectButton({ variant = 'primary' }: CreateProjectButton
             <form onSubmit={handleCreate} className="space-y-4">
               {error && <div className="rounded-xl border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-300">{error}</div>}
 
+              <div className="grid grid-cols-2 gap-1 rounded-xl border border-border bg-secondary p-1">
+                {(['blank', 'zip'] as const).map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => { setSource(option); setError(''); }}
+                    className={`rounded-lg py-1.5 text-sm transition-colors ${
+                      source === option ? 'bg-white font-medium text-black' : 'text-muted-foreground hover:text-foreground'
+                    }`}
+                  >
+                    {option === 'blank' ? 'Blank project' : 'Import ZIP'}
+                  </button>
+                ))}
+              </div>
+
+              {source === 'zip' && (
+                <label className="flex cursor-pointer flex-col items-center gap-2 rounded-xl border border-dashed border-border bg-secondary px-3 py-6 text-center transition-colors hover:border-zinc-500">
+                  <Upload className="h-5 w-5 text-muted-foreground" />
+                  <span className="text-sm">{archive ? archive.name : 'Choose a .zip of an Expo project'}</span>
+                  <span className="text-xs text-muted-foreground">node_modules, .git, build output and binary files are skipped</span>
+                  <input
+                    type="file"
+                    accept=".zip,application/zip"
+                    className="hidden"
+                    onChange={(e) => setArchive(e.target.files?.[0] ?? null)}
+                  />
+                </label>
+              )}
+
               <label className="block space-y-1.5">
                 <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Project name</span>
                 <input
                   type="text"
                   value={name}
                   onChange={(e) => setName(e.target.value)}
-                  placeholder="Habit Tracker Mobile"
+                  placeholder={source === 'zip' ? 'Defaults to the name in app.json' : 'Habit Tracker Mobile'}
                   className="w-full rounded-xl border border-border bg-secondary px-3 py-2.5 text-sm outline-none transition-colors placeholder:text-zinc-500 focus:border-zinc-500"
                   autoFocus
-                  required
+                  required={source === 'blank'}
                 />
               </label>
 
-              <label className="block space-y-1.5">
-                <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Description</span>
-                <textarea
-                  value={description}
-                  onChange={(e) => setDescription(e.target.value)}
-                  placeholder="Short description of the app and intended users"
-                  className="h-24 w-full resize-none rounded-xl border border-border bg-secondary px-3 py-2.5 text-sm outline-none transition-colors placeholder:text-zinc-500 focus:border-zinc-500"
-                />
-              </label>
+              {source === 'blank' && (
+                <label className="block space-y-1.5">
+                  <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Description</span>
+                  <textarea
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    placeholder="Short description of the app and intended users"
+                    className="h-24 w-full resize-none rounded-xl border border-border bg-secondary px-3 py-2.5 text-sm outline-none transition-colors placeholder:text-zinc-500 focus:border-zinc-500"
+                  />
+                </label>
+              )}
 
               <div className="flex gap-2 pt-1">
                 <button
@@ -111,16 +155,16 @@ export function CreateProjectButton({ variant = 'primary' }: CreateProjectButton
                 </button>
                 <button
                   type="submit"
-                  disabled={loading || !name.trim()}
+                  disabled={loading || (source === 'zip' ? !archive : !name.trim())}
                   className="flex flex-1 items-center justify-center gap-1.5 rounded-xl bg-white py-2.5 text-sm font-semibold text-black hover:bg-zinc-200 disabled:cursor-not-allowed disabled:opacity-60"
                 >
                   {loading ? (
                     <>
                       <Loader2 className="h-4 w-4 animate-spin" />
-                      Creating...
+                      {source === 'zip' ? 'Importing...' : 'Creating...'}
                     </>
                   ) : (
-                    'Create and open'
+                    source === 'zip' ? 'Import and open' : 'Create and open'
                   )}
                 </button>
               </div>
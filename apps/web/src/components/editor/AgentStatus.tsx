@@ -13,6 +13,7 @@ import {
   Sparkles,
   ChevronDown,
   ChevronUp,
+  CircleStop,
 } from 'lucide-react';
 import { useState } from 'react';
 import type { AgentPhase } from '@ai-engine/core';
@@ -24,6 +25,7 @@ const PHASE_INFO: Record<AgentPhase, { label: string; icon: ReactNode; color: st
   testing: { label: 'Testing', icon: <TestTube className="w-4 h-4" />, color: 'text-purple-400' },
   debugging: { label: 'Debugging', icon: <Bug className="w-4 h-4" />, color: 'text-orange-400' },
   complete: { label: 'Complete', icon: <CheckCircle2 className="w-4 h-4" />, color: 'text-green-400' },
+  cancelled: { label: 'Stopped', icon: <CircleStop className="w-4 h-4" />, color: 'text-gray-400' },
   error: { label: 'Error', icon: <XCircle className="w-4 h-4" />, color: 'text-red-400' },
 };
 
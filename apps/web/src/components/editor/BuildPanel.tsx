@@ -0,0 +1,222 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Smartphone, X, Loader2, ExternalLink, Download, AlertCircle } from 'lucide-react';
+import type { Build, BuildProfile } from '@rork/shared';
+import { getBuildStatusMessage, TERMINAL_BUILD_STATES, type BuildConfig } from '@/lib/eas-build';
+import { useProjectStore } from '@/stores/projectStore';
+import { useToast } from '@/components/ui/Toast';
+import { formatRelativeTime } from '@/lib/utils';
+
+// How often running builds are re-checked while the panel is open
+const BUILD_POLL_INTERVAL_MS = 10_000;
+
+const PLATFORM_OPTIONS: Array<{ platform: BuildConfig['platform']; icon: string; label: string; detail: string }> = [
+  { platform: 'ios', icon: '🍎', label: 'iOS', detail: 'iPhone & iPad' },
+  { platform: 'android', icon: '🤖', label: 'Android', detail: 'Phone & Tablet' },
+  { platform: 'all', icon: '📱', label: 'Both', detail: 'iOS & Android' },
+];
+
+const STATUS_STYLES: Record<Build['status'], string> = {
+  'in-queue': 'bg-zinc-500/20 text-zinc-300',
+  'in-progress': 'bg-blue-500/20 text-blue-400',
+  finished: 'bg-green-500/20 text-green-400',
+  errored: 'bg-red-500/20 text-red-400',
+  canceled: 'bg-zinc-500/20 text-zinc-400',
+};
+
+interface BuildPanelProps {
+  projectId: string;
+  onClose: () => void;
+}
+
+export function BuildPanel({ projectId, onClose }: BuildPanelProps) {
+  const { showToast } = useToast();
+  const { applyGeneratedFiles } = useProjectStore();
+  const [builds, setBuilds] = useState<Build[] | null>(null);
+  const [profile, setProfile] = useState<BuildProfile>('preview');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadBuilds = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/eas/build?projectId=${projectId}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load builds');
+      setBuilds(data.builds);
+    } catch (error) {
+      console.error('Build history error:', error);
+      setBuilds(prev => prev ?? []);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadBuilds();
+  }, [loadBuilds]);
+
+  // Poll while any build is still queued or running
+  const hasActiveBuilds = builds?.some(build => !TERMINAL_BUILD_STATES.includes(build.status)) ?? false;
+  useEffect(() => {
+    if (!hasActiveBuilds) return;
+    const timer = setInterval(loadBuilds, BUILD_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasActiveBuilds, loadBuilds]);
+
+  const handleBuild = async (platform: BuildConfig['platform']) => {
+    setIsSubmitting(true);
+    try {
+      const res = await fetch('/api/eas/build', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ projectId, platform, profile }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to start build');
+
+      const started = data.builds as Build[];
+      setBuilds(prev => [...started, ...(prev ?? [])]);
+      // Pick up the eas.json / app.json changes written for the build
+      const configFiles = Object.entries(data.configFiles ?? {}) as Array<[string, string]>;
+      if (configFiles.length > 0) {
+        applyGeneratedFiles(configFiles.map(([path, content]) => ({ path, content })));
+        window.dispatchEvent(new CustomEvent('project-files-changed'));
+      }
+      const failed = started.filter(build => build.status === 'errored');
+      showToast(
+        failed.length > 0 ? `${failed.length} build(s) could not be submitted` : 'Build submitted to EAS',
+        failed.length > 0 ? 'error' : 'success'
+      );
+    } catch (error) {
+      console.error('Build error:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to start build', 'error');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-background border border-border rounded-xl w-full max-w-2xl max-h-[85vh] p-6 shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <Smartphone size={20} />
+            Build for Mobile
+          </h2>
+          <button onClick={onClose} className="p-1 hover:bg-accent rounded">
+            <X size={18} className="text-gray-400" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-sm text-muted-foreground">
+              Build your app on Expo EAS for iOS, Android, or both.
+            </p>
+            <select
+              value={profile}
+              onChange={(e) => setProfile(e.target.value as BuildProfile)}
+              disabled={isSubmitting}
+              className="px-3 py-1.5 bg-secondary border border-border rounded-lg text-sm focus:outline-none"
+            >
+              <option value="development">Development</option>
+              <option value="preview">Preview</option>
+              <option value="production">Production</option>
+            </select>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            {PLATFORM_OPTIONS.map(option => (
+              <button
+                key={option.platform}
+                onClick={() => handleBuild(option.platform)}
+                disabled={isSubmitting}
+                className="p-4 bg-secondary border border-border rounded-lg hover:border-zinc-600 transition-colors disabled:opacity-50"
+              >
+                <div className="text-2xl mb-2">{option.icon}</div>
+                <p className="text-sm font-medium">{option.label}</p>
+                <p className="text-xs text-muted-foreground">{option.detail}</p>
+              </button>
+            ))}
+          </div>
+
+          {isSubmitting && (
+            <div className="flex items-center justify-center gap-2 p-2">
+              <Loader2 size={16} className="animate-spin text-gray-400" />
+              <span className="text-sm text-gray-400">Uploading project and submitting build...</span>
+            </div>
+          )}
+
+          <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg">
+            <p className="text-xs text-amber-400">
+              Builds run on your Expo account using the access token from Settings. iOS builds need Apple
+              credentials stored on your Expo account.
+            </p>
+          </div>
+        </div>
+
+        {/* Build history */}
+        <div className="mt-5 flex flex-col min-h-0">
+          <h3 className="text-sm font-medium text-muted-foreground mb-2">Build history</h3>
+          {builds === null ? (
+            <div className="flex items-center justify-center gap-2 p-6">
+              <Loader2 size={16} className="animate-spin text-gray-400" />
+              <span className="text-sm text-gray-400">Loading builds...</span>
+            </div>
+          ) : builds.length === 0 ? (
+            <p className="text-sm text-muted-foreground p-3">No builds yet.</p>
+          ) : (
+            <div className="space-y-2 overflow-y-auto custom-scrollbar">
+              {builds.map(build => (
+                <div key={build.id} className="p-3 bg-secondary border border-border rounded-lg">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">{build.platform === 'ios' ? 'iOS' : 'Android'}</span>
+                    <span className="text-xs text-muted-foreground capitalize">{build.profile}</span>
+                    <span className={`text-[11px] px-1.5 py-0.5 rounded ${STATUS_STYLES[build.status]}`}>
+                      {build.status}
+                    </span>
+                    {!TERMINAL_BUILD_STATES.includes(build.status) && (
+                      <Loader2 size={12} className="animate-spin text-gray-400" />
+                    )}
+                    <span className="ml-auto text-xs text-muted-foreground">{formatRelativeTime(build.created_at)}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">{getBuildStatusMessage(build.status)}</p>
+                  {build.error && (
+                    <p className="mt-2 flex items-start gap-1.5 text-xs text-red-400">
+                      <AlertCircle size={12} className="mt-0.5 flex-shrink-0" />
+                      {build.error}
+                    </p>
+                  )}
+                  {(build.artifact_url || build.build_url) && (
+                    <div className="mt-2 flex items-center gap-3">
+                      {build.artifact_url && (
+                        <a
+                          href={build.artifact_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center gap-1 text-xs text-green-400 hover:underline"
+                        >
+                          <Download size={12} />
+                          Download {build.platform === 'ios' ? 'build' : 'APK/AAB'}
+                        </a>
+                      )}
+                      {build.build_url && (
+                        <a
+                          href={build.build_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                        >
+                          <ExternalLink size={12} />
+                          Logs on Expo
+                        </a>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
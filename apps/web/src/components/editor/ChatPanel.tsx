@@ -1,11 +1,15 @@
 'use client';
 
 import { useState, useRef, useEffect, useDeferredValue } from 'react';
-import { Send, Loader2, ChevronDown, ChevronRight, Sparkles, FileCode, Code, AlertCircle, Mic, NotebookPen } from 'lucide-react';
+import { Send, Square, Loader2, ChevronDown, ChevronRight, Sparkles, FileCode, Code, AlertCircle, Mic, NotebookPen, RotateCcw, GitCompare } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
-import { useProjectStore } from '@/stores/projectStore';
+import Link from 'next/link';
+import type { ModelId, ModelKeySource } from '@rork/shared';
+import { useProjectStore, type UIMessage } from '@/stores/projectStore';
 import { useAgentStore } from '@/stores/agentStore';
+import { useReviewStore } from '@/stores/reviewStore';
 import { AgentStatus } from './AgentStatus';
+import { useToast } from '@/components/ui/Toast';
 
 // Strip <file path="...">...</file> blocks from AI response text
 // Also handles partial blocks during streaming (no closing tag yet)
@@ -17,6 +21,78 @@ function stripFileBlocks(text: string): string {
     .trim();
 }
 
+const AGENT_MODE_LABELS = { plan: 'Plan', build: 'Agent', edit: 'Edit' } as const;
+
+const KEY_SOURCE_LABELS: Record<ModelKeySource, string> = { user: 'your key', server: 'Rork key' };
+
+const AGENT_MODE_PLACEHOLDERS = {
+  plan: 'Planning app structure...',
+  build: 'Starting autonomous build...',
+  edit: 'Applying edits...',
+} as const;
+
+// Reconnect attempts without new events before giving up on a run's stream
+const MAX_STREAM_RECONNECTS = 5;
+const STREAM_RECONNECT_DELAY_MS = 2000;
+
+type StreamedFile = { path: string; content: string; language: string };
+
+interface AgentStreamEvent {
+  type: string;
+  runId?: string;
+  staged?: boolean;
+  message?: string;
+  summary?: string;
+  error?: string;
+  versionId?: string | null;
+  file?: StreamedFile;
+  files?: StreamedFile[];
+  path?: string;
+  fromPath?: string;
+  changes?: Array<{ path: string; action: string; from?: string }>;
+  url?: string;
+  number?: number;
+  model?: ModelId;
+  keySource?: ModelKeySource;
+}
+
+interface AgentStreamState {
+  runId: string | null;
+  /** File events go to the review changeset instead of the project */
+  staged: boolean;
+  lastEventId: number;
+  finished: boolean;
+  summaryContent: string;
+  generatedFiles: StreamedFile[];
+  progressLines: string[];
+  versionId?: string;
+  run?: UIMessage['run'];
+}
+
+function createStreamState(runId: string | null = null, staged = false): AgentStreamState {
+  return {
+    runId,
+    staged,
+    lastEventId: 0,
+    finished: false,
+    summaryContent: 'Building app...',
+    generatedFiles: [],
+    progressLines: [],
+  };
+}
+
+// Forget a file the run deleted or moved away, so the final apply doesn't restore it
+function dropStreamedFile(stream: AgentStreamState, path: string): void {
+  stream.generatedFiles = stream.generatedFiles.filter(f => f.path !== path);
+}
+
+// Add a staged run's change to the review changeset (null content = removed).
+// The project store still holds the pre-run content, which becomes the original.
+function stageFileChange(path: string, content: string | null): void {
+  const original = useProjectStore.getState().files[path]?.content ?? null;
+  useReviewStore.getState().stageFile(path, original, content);
+}
+
 interface ChatPanelProps {
   projectId: string;
   onViewCode?: (filePath?: string) => void;
@@ -28,7 +104,13 @@ export function ChatPanel({ projectId, onViewCode, initialPrompt }: ChatPanelPro
   const [expandedFiles, setExpandedFiles] = useState<Record<string, boolean>>({}); // Per-message file list collapse
   const [showErrorDetails, setShowErrorDetails] = useState(false); // Error details expand
   const [retryPrompt, setRetryPrompt] = useState<string | null>(null); // For handling agent failures
+  const [revertingVersionId, setRevertingVersionId] = useState<string | null>(null);
+  const { showToast } = useToast();
   const handleAgentRunRef = useRef<(prompt?: string) => Promise<void>>(undefined);
+  const abortControllerRef = useRef<AbortController | null>(null); // Aborts the running agent request
+  const runIdRef = useRef<string | null>(null); // Server-side id of the run being followed
+  const stopPendingRef = useRef(false); // Stop pressed before the run had an id
+  const reattachAgentRunRef = useRef<(runId: string, staged: boolean) => Promise<void>>(undefined);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   
@@ -39,17 +121,31 @@ export function ChatPanel({ projectId, onViewCode, initialPrompt }: ChatPanelPro
     files,
     addGeneratingFile,
     applyGeneratedFiles,
+    replaceFiles,
+    deleteFile,
+    moveFile,
     streamingContent,
     appendStreamingContent,
     setStreamingContent,
     runtimeErrors,
     clearRuntimeErrors,
     selectedModel,
+    setSelectedModel,
+    models,
+    setModels,
     agentMode,
     setAgentMode,
+    stageAgentChanges,
+    setStageAgentChanges,
   } = useProjectStore();
+
+  const { changes: pendingChanges, openReview } = useReviewStore();
+  const pendingReviewCount = Object.keys(pendingChanges).length;
   
   const deferredStreamingContent = useDeferredValue(streamingContent);
+
+  const usableModels = (models ?? []).filter(model => model.keySource);
+  const selectedKeySource = usableModels.find(model => model.id === selectedModel)?.keySource;
   
   const {
     isRunning: isAgentRunning,
@@ -65,10 +161,231 @@ export function ChatPanel({ projectId, onViewCode, initialPrompt }: ChatPanelPro
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages, streamingContent]);
 
+  // Run Agent mode
+  // Read one SSE response, applying agent events as they arrive
+  const readAgentStream = async (response: Response, stream: AgentStreamState) => {
+    const reader = response.body?.getReader();
+    if (!reader) return;
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? ''; // Keep incomplete last line for next chunk
+
+      for (const line of lines) {
+        if (line.startsWith('id: ')) {
+          stream.lastEventId = Number(line.slice(4)) || stream.lastEventId;
+        } else if (line.startsWith('data: ')) {
+          try {
+            handleStreamEvent(JSON.parse(line.slice(6)), stream);
+          } catch (e) {
+            console.warn('SSE parse error (agent):', e);
+          }
+        }
+      }
+    }
+  };
+
+  const handleStreamEvent = (data: AgentStreamEvent, stream: AgentStreamState) => {
+    // Process agent event
+    processEvent(data as Parameters<typeof processEvent>[0]);
+
+    // Handle specific events
+    if (data.type === 'run_created' && data.runId) {
+      stream.runId = data.runId;
+      stream.staged = data.staged ?? stream.staged;
+      runIdRef.current = data.runId;
+      if (stream.staged) useReviewStore.getState().startReview(data.runId);
+      // Stop was pressed while the run was being created: cancel it now it has an id
+      if (stopPendingRef.current) void cancelAgentRun(data.runId);
+    } else if (data.type === 'file_created' || data.type === 'file_updated') {
+      if (data.file) {
+        stream.generatedFiles.push(data.file);
+        stream.progressLines.push(`${data.type === 'file_created' ? 'Created' : 'Updated'} ${data.file.path}`);
+        appendStreamingContent(`- ${stream.progressLines[stream.progressLines.length - 1]}\n`);
+        if (stream.staged) {
+          stageFileChange(data.file.path, data.file.content);
+        } else {
+          // Apply file immediately so preview updates in real-time
+          addGeneratingFile(data.file);
+          // Signal editor to push updated files to Snack preview
+          window.dispatchEvent(new CustomEvent('project-files-changed'));
+        }
+      }
+    } else if (data.type === 'file_deleted' && data.path) {
+      dropStreamedFile(stream, data.path);
+      stream.progressLines.push(`Deleted ${data.path}`);
+      appendStreamingContent(`- Deleted ${data.path}\n`);
+      if (stream.staged) {
+        stageFileChange(data.path, null);
+      } else {
+        deleteFile(data.path);
+        window.dispatchEvent(new CustomEvent('project-files-changed'));
+      }
+    } else if (data.type === 'file_moved' && data.fromPath && data.file) {
+      dropStreamedFile(stream, data.fromPath);
+      stream.generatedFiles.push(data.file);
+      stream.progressLines.push(`Moved ${data.fromPath} → ${data.file.path}`);
+      appendStreamingContent(`- Moved ${data.fromPath} → ${data.file.path}\n`);
+      if (stream.staged) {
+        stageFileChange(data.fromPath, null);
+        stageFileChange(data.file.path, data.file.content);
+      } else {
+        moveFile(data.fromPath, data.file.path);
+        addGeneratingFile(data.file);
+        window.dispatchEvent(new CustomEvent('project-files-changed'));
+      }
+    } else if (data.type === 'text_delta' && data.message) {
+      appendStreamingContent(data.message);
+    } else if (data.type === 'plan_progress' && data.message) {
+      // Don't flood chat — just update the last progress line
+      // The AgentStatus component shows the real-time progress
+    } else if ((data.type === 'step_start' || data.type === 'step_finish' || data.type === 'plan_created') && data.message) {
+      appendStreamingContent(`\n${data.message}\n`);
+    } else if (data.type === 'run_paused') {
+      appendStreamingContent(`\n[${data.message || 'Paused; resuming...'}]\n`);
+    } else if (data.type === 'agent_complete') {
+      stream.finished = true;
+      stream.summaryContent = data.summary || 'App built successfully!';
+      stream.versionId = data.versionId || undefined;
+      if (data.model && data.keySource) stream.run = { model: data.model, keySource: data.keySource };
+      if (data.files && data.files.length > 0) {
+        stream.generatedFiles.push(...data.files);
+        if (stream.staged) data.files.forEach(file => stageFileChange(file.path, file.content));
+      }
+      // Removals are already applied per event; this covers events missed while disconnected
+      for (const change of data.changes ?? []) {
+        const removed = change.action === 'deleted' ? change.path : change.action === 'moved' ? change.from : undefined;
+        if (removed) {
+          dropStreamedFile(stream, removed);
+          if (stream.staged) stageFileChange(removed, null);
+          else deleteFile(removed);
+        }
+      }
+      // Final refresh signal after all files are written
+      window.dispatchEvent(new CustomEvent('project-files-changed'));
+      // Signal editor to start Snack preview (agent finished building)
+      window.dispatchEvent(new CustomEvent('agent-build-complete'));
+    } else if (data.type === 'github_pr' && data.url) {
+      stream.summaryContent += `\n\nOpened pull request #${data.number}: ${data.url}`;
+    } else if (data.type === 'cancelled') {
+      stream.summaryContent = data.message || 'Run stopped.';
+    } else if (data.type === 'error') {
+      stream.finished = true;
+      stream.summaryContent = `Error: ${data.error}`;
+    }
+  };
+
+  // Follow a run to the end, reconnecting with Last-Event-ID whenever the
+  // stream drops or the server pauses the run at its time limit
+  const followAgentRun = async (firstResponse: Response, stream: AgentStreamState, signal: AbortSignal) => {
+    let response = firstResponse;
+    let reconnects = 0;
+
+    while (true) {
+      const seenBefore = stream.lastEventId;
+      await readAgentStream(response, stream);
+      if (stream.finished) return;
+      if (!stream.runId) throw new Error('Agent stream ended unexpectedly');
+
+      reconnects = stream.lastEventId > seenBefore ? 0 : reconnects + 1;
+      if (reconnects > MAX_STREAM_RECONNECTS) throw new Error('Lost connection to the agent run');
+      if (reconnects > 0) await new Promise(resolve => setTimeout(resolve, STREAM_RECONNECT_DELAY_MS));
+
+      response = await fetch(`/api/agent/runs/${stream.runId}/events`, {
+        headers: { 'Last-Event-ID': String(stream.lastEventId) },
+        signal,
+      });
+      if (!response.ok) throw new Error(`Failed to reconnect to agent run (${response.status})`);
+    }
+  };
+
+  // Update final message with file list and apply generated files
+  // (a staged run's files wait in the review view instead)
+  const finishAgentRun = (stream: AgentStreamState) => {
+    const changedPaths = [...new Set(stream.generatedFiles.map(f => f.path))];
+    let summaryContent = stream.summaryContent;
+    if (summaryContent === 'Building app...' && stream.progressLines.length > 0) {
+      summaryContent = `Done. ${stream.progressLines.length} changes applied.`;
+    }
+
+    if (stream.staged) {
+      const stagedPaths = Object.keys(useReviewStore.getState().changes).sort();
+      if (stagedPaths.length > 0) {
+        summaryContent += `\n\n${stagedPaths.length} file change${stagedPaths.length > 1 ? 's' : ''} staged for review.`;
+        updateLastMessage(summaryContent, stagedPaths, stream.versionId, stream.run);
+        openReview(stagedPaths[0]);
+        onViewCode?.(stagedPaths[0]);
+      } else {
+        updateLastMessage(summaryContent, undefined, stream.versionId, stream.run);
+      }
+      return;
+    }
+
+    updateLastMessage(summaryContent, changedPaths, stream.versionId, stream.run);
+
+    if (stream.generatedFiles.length > 0) {
+      applyGeneratedFiles(stream.generatedFiles);
+      // Final dispatch after all files are persisted
+      window.dispatchEvent(new CustomEvent('project-files-changed'));
+    }
+  };
+
+  // Shared error/stop handling for new and reattached runs
+  const failAgentRun = (error: unknown, stream: AgentStreamState, signal: AbortSignal, prompt?: string) => {
+    if (signal.aborted) {
+      if (stream.staged) {
+        // The server keeps the partial changeset pending, so it can still be reviewed
+        const stagedPaths = Object.keys(useReviewStore.getState().changes).sort();
+        updateLastMessage(`Stopped. ${stagedPaths.length} staged change(s) are waiting for review.`, stagedPaths);
+        processEvent({ type: 'cancelled', message: 'Run stopped' });
+        return;
+      }
+      // Stopped locally: keep everything written so far (the server keeps it too)
+      updateLastMessage(
+        `Stopped. Kept ${stream.progressLines.length} changes made before the run was cancelled.`,
+        stream.generatedFiles.map(f => f.path)
+      );
+      if (stream.generatedFiles.length > 0) {
+        applyGeneratedFiles(stream.generatedFiles);
+        window.dispatchEvent(new CustomEvent('project-files-changed'));
+      }
+      processEvent({ type: 'cancelled', message: 'Run stopped' });
+      return;
+    }
+    const errMsg = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Agent error:', errMsg);
+    updateLastMessage(`Error: ${errMsg}\n\nPlease check your API key configuration and try again.`);
+    processEvent({ type: 'error', error: errMsg });
+    if (prompt) setRetryPrompt(prompt); // Allow user to retry
+  };
+
+  const cleanupAgentRun = () => {
+    abortControllerRef.current = null;
+    runIdRef.current = null;
+    stopPendingRef.current = false;
+    stopAgent();
+    setStreamingContent('');
+    // Clear the generatingFiles list (setGenerating(false) resets it)
+    useProjectStore.getState().setGenerating(false);
+  };
+
   // Run Agent mode
   const handleAgentRun = async (overridePrompt?: string) => {
     const promptText = overridePrompt || input.trim();
     if (!promptText || isAgentRunning) return;
+    // A new run would be based on files that the pending review may still change
+    if (Object.keys(useReviewStore.getState().changes).length > 0) {
+      showToast('Apply or discard the staged changes before starting another run', 'info');
+      openReview();
+      onViewCode?.();
+      return;
+    }
     
     const prompt = promptText;
     setInput('');
@@ -79,8 +396,12 @@ export function ChatPanel({ projectId, onViewCode, initialPrompt }: ChatPanelPro
     startAgent();
     
     // Add user message
-    addMessage({ role: 'user', content: `[${agentMode === 'plan' ? 'Plan' : 'Agent'} Mode] ${prompt}` });
-    addMessage({ role: 'assistant', content: agentMode === 'plan' ? 'Planning app structure...' : 'Starting autonomous build...', isStreaming: true });
+    addMessage({ role: 'user', content: `[${AGENT_MODE_LABELS[agentMode]} Mode] ${prompt}` });
+    addMessage({ role: 'assistant', content: AGENT_MODE_PLACEHOLDERS[agentMode], isStreaming: true });
+    
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const stream = createStreamState(null, stageAgentChanges);
     
     try {
       // Build current files context
@@ -99,7 +420,9 @@ export function ChatPanel({ projectId, onViewCode, initialPrompt }: ChatPanelPro
           existingFiles,
           model: selectedModel,
           agentMode,
+          staged: stageAgentChanges,
         }),
+        signal: abortController.signal,
       });
       
       if (!response.ok) {
@@ -112,99 +435,87 @@ export function ChatPanel({ projectId, onViewCode, initialPrompt }: ChatPanelPro
         throw new Error(errorMsg);
       }
       
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      
-      let summaryContent = 'Building app...';
-      const generatedFiles: Array<{ path: string; content: string; language: string }> = [];
-      const progressLines: string[] = [];
-      
-      if (reader) {
-        let buffer = '';
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split('\n');
-          buffer = lines.pop() ?? ''; // Keep incomplete last line for next chunk
-          
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              try {
-                const data = JSON.parse(line.slice(6));
-                
-                // Process agent event
-                processEvent(data);
-                
-                // Handle specific events
-                if (data.type === 'file_created' || data.type === 'file_updated') {
-                  if (data.file) {
-                    generatedFiles.push(data.file);
-                    // Apply file immediately so preview updates in real-time
-                    addGeneratingFile(data.file);
-                    progressLines.push(`${data.type === 'file_created' ? 'Created' : 'Updated'} ${data.file.path}`);
-                    appendStreamingContent(`- ${progressLines[progressLines.length - 1]}\n`);
-                    // Signal editor to push updated files to Snack preview
-                    window.dispatchEvent(new CustomEvent('project-files-changed'));
-                  }
-                } else if (data.type === 'text_delta' && data.message) {
-                  appendStreamingContent(data.message);
-                } else if (data.type === 'plan_progress' && data.message) {
-                  // Don't flood chat — just update the last progress line
-                  // The AgentStatus component shows the real-time progress
-                } else if ((data.type === 'step_start' || data.type === 'step_finish' || data.type === 'plan_created') && data.message) {
-                  appendStreamingContent(`\n${data.message}\n`);
-                } else if (data.type === 'agent_complete') {
-                  summaryContent = data.summary || 'App built successfully!';
-                  if (data.files && data.files.length > 0) {
-                    generatedFiles.push(...data.files);
-                  }
-                  // Final refresh signal after all files are written
-                  window.dispatchEvent(new CustomEvent('project-files-changed'));
-                  // Signal editor to start Snack preview (agent finished building)
-                  window.dispatchEvent(new CustomEvent('agent-build-complete'));
-                } else if (data.type === 'error') {
-                  summaryContent = `Error: ${data.error}`;
-                }
-              } catch (e) {
-                console.warn('SSE parse error (agent):', e);
-              }
-            }
-          }
-        }
-      }
-      
-      // Update final message with file list
-      const changedPaths = generatedFiles.map(f => f.path);
-      if (summaryContent === 'Building app...' && progressLines.length > 0) {
-        summaryContent = `Done. ${progressLines.length} changes applied.`;
-      }
-      updateLastMessage(summaryContent, changedPaths);
-      
-      // Apply generated files
-      if (generatedFiles.length > 0) {
-        applyGeneratedFiles(generatedFiles);
-        // Final dispatch after all files are persisted
-        window.dispatchEvent(new CustomEvent('project-files-changed'));
-      }
+      await followAgentRun(response, stream, abortController.signal);
+      finishAgentRun(stream);
       
     } catch (error) {
-      const errMsg = error instanceof Error ? error.message : 'Unknown error';
-      console.error('Agent error:', errMsg);
-      updateLastMessage(`Error: ${errMsg}\n\nPlease check your API key configuration and try again.`);
-      processEvent({ type: 'error', error: errMsg });
-      setRetryPrompt(prompt); // Allow user to retry
+      failAgentRun(error, stream, abortController.signal, prompt);
     } finally {
-      stopAgent();
-      setStreamingContent('');
-      // Clear the generatingFiles list (setGenerating(false) resets it)
-      useProjectStore.getState().setGenerating(false);
+      cleanupAgentRun();
+    }
+  };
+
+  // Reattach to a run still in progress (e.g. after a page reload), replaying its events
+  const reattachAgentRun = async (runId: string, staged: boolean) => {
+    if (useAgentStore.getState().isRunning) return;
+
+    startAgent();
+    addMessage({ role: 'assistant', content: 'Reconnecting to the running agent...', isStreaming: true });
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    runIdRef.current = runId;
+    const stream = createStreamState(runId, staged);
+    // Events are replayed from the start, so the changeset is rebuilt from scratch
+    if (staged) useReviewStore.getState().startReview(runId);
+
+    try {
+      const response = await fetch(`/api/agent/runs/${runId}/events`, {
+        headers: { 'Last-Event-ID': '0' },
+        signal: abortController.signal,
+      });
+      if (!response.ok) throw new Error(`Failed to reconnect to agent run (${response.status})`);
+
+      await followAgentRun(response, stream, abortController.signal);
+      finishAgentRun(stream);
+    } catch (error) {
+      failAgentRun(error, stream, abortController.signal);
+    } finally {
+      cleanupAgentRun();
     }
   };
 
   // Keep ref always pointing to latest handleAgentRun (avoids stale closures in effects)
   handleAgentRunRef.current = handleAgentRun;
+  reattachAgentRunRef.current = reattachAgentRun;
+
+  // Pick up a run that is still going in the background (survives reloads),
+  // or the staged changes of a finished run that were never reviewed
+  useEffect(() => {
+    let cancelled = false;
+    useReviewStore.getState().clear();
+    fetch(`/api/agent/runs?projectId=${projectId}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (cancelled) return;
+        if (data?.run?.id) {
+          reattachAgentRunRef.current?.(data.run.id, Boolean(data.run.staged));
+        } else if (data?.review?.id) {
+          useReviewStore.getState().startReview(data.review.id);
+          for (const file of Object.values(data.review.written_files ?? {}) as StreamedFile[]) {
+            stageFileChange(file.path, file.content);
+          }
+          for (const change of (data.review.changes ?? []) as NonNullable<AgentStreamEvent['changes']>) {
+            const removed = change.action === 'deleted' ? change.path : change.action === 'moved' ? change.from : undefined;
+            if (removed) stageFileChange(removed, null);
+          }
+        }
+      })
+      .catch(error => console.warn('Failed to check for active agent run:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  // Which providers have a usable key (the user's own, or the server's)
+  useEffect(() => {
+    fetch('/api/settings')
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (data?.settings?.models) setModels(data.settings.models, data.settings.preferred_model);
+      })
+      .catch(error => console.warn('Failed to load models:', error));
+  }, [setModels]);
 
   // Listen for 'send-to-ai' event from other components
   useEffect(() => {
@@ -232,6 +543,56 @@ export function ChatPanel({ projectId, onViewCode, initialPrompt }: ChatPanelPro
   const handleSend = async () => {
     await handleAgentRun();
   };
+
+  // Undo one agent run: restore the files it changed to the version taken before it
+  const handleRevertRun = async (versionId: string) => {
+    if (!window.confirm('Revert the files this run changed? The current state is saved as a version first.')) return;
+
+    setRevertingVersionId(versionId);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/versions/${versionId}/restore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scope: 'run' }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to revert run');
+
+      replaceFiles(data.files);
+      window.dispatchEvent(new CustomEvent('project-files-changed'));
+      showToast(
+        data.restored.length > 0 ? `Reverted ${data.restored.length} file(s)` : 'Nothing to revert',
+        data.restored.length > 0 ? 'success' : 'info'
+      );
+    } catch (error) {
+      console.error('Revert run error:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to revert run', 'error');
+    } finally {
+      setRevertingVersionId(null);
+    }
+  };
+
+  // Ask the server to stop; the stream then delivers the cancelled result
+  const cancelAgentRun = async (runId: string) => {
+    try {
+      const response = await fetch(`/api/agent/runs/${runId}/cancel`, { method: 'POST' });
+      if (!response.ok) throw new Error(`Cancel failed (${response.status})`);
+    } catch (error) {
+      console.error('Agent cancel error:', error);
+      abortControllerRef.current?.abort();
+    }
+  };
+
+  const handleStop = async () => {
+    const runId = runIdRef.current;
+    if (!runId) {
+      // Aborting the request now would leave the run going on the server,
+      // so wait for run_created and cancel it then
+      stopPendingRef.current = true;
+      return;
+    }
+    await cancelAgentRun(runId);
+  };
   
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -358,15 +719,38 @@ export function ChatPanel({ projectId, onViewCode, initialPrompt }: ChatPanelPro
                     )}
                     
                     {/* Action buttons - OUTSIDE file list, below message */}
-                    {msg.filesChanged && msg.filesChanged.length > 0 && !msg.isStreaming && (
+                    {((msg.filesChanged && msg.filesChanged.length > 0) || msg.versionId) && !msg.isStreaming && (
                       <div className="flex items-center gap-5 mt-3">
-                        <button 
-                          onClick={() => onViewCode?.(msg.filesChanged?.[0])}
-                          className="flex items-center gap-1.5 text-xs text-gray-500 hover:text-gray-200 transition-colors"
-                        >
-                          <Code size={13} />
-                          <span>View Code</span>
-                        </button>
+                        {msg.filesChanged && msg.filesChanged.length > 0 && (
+                          <button 
+                            onClick={() => onViewCode?.(msg.filesChanged?.[0])}
+                            className="flex items-center gap-1.5 text-xs text-gray-500 hover:text-gray-200 transition-colors"
+                          >
+                            <Code size={13} />
+                            <span>View Code</span>
+                          </button>
+                        )}
+                        {msg.versionId && (
+                          <button 
+                            onClick={() => handleRevertRun(msg.versionId!)}
+                            disabled={isLoading || revertingVersionId !== null}
+                            className="flex items-center gap-1.5 text-xs text-gray-500 hover:text-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            title="Restore the files this run changed to how they were before it"
+                          >
+                            {revertingVersionId === msg.versionId ? (
+                              <Loader2 size={13} className="animate-spin" />
+                            ) : (
+                              <RotateCcw size={13} />
+                            )}
+                            <span>Revert this run</span>
+                          </button>
+                        )}
+                      </div>
+                    )}
+
+                    {msg.run && !msg.isStreaming && (
+                      <div className="mt-2 text-[11px] text-gray-600">
+                        {models?.find(model => model.id === msg.run!.model)?.name ?? msg.run.model} · {KEY_SOURCE_LABELS[msg.run.keySource]}
                       </div>
                     )}
                   </div>
@@ -432,6 +816,19 @@ export function ChatPanel({ projectId, onViewCode, initialPrompt }: ChatPanelPro
         </div>
       )}
       
+      {/* Pending review */}
+      {pendingReviewCount > 0 && !isAgentRunning && (
+        <div className="mx-3 mb-2 flex justify-center">
+          <button
+            onClick={() => { openReview(); onViewCode?.(); }}
+            className="flex items-center gap-2 px-4 py-2 bg-amber-500/10 text-amber-400 hover:bg-amber-500/20 border border-amber-500/30 rounded-lg transition-colors text-xs font-medium"
+          >
+            <GitCompare size={14} />
+            Review {pendingReviewCount} staged change{pendingReviewCount > 1 ? 's' : ''}
+          </button>
+        </div>
+      )}
+      
       {/* Input */}
       <div className="p-3 border-t border-[#27272a]">
         <div className="relative bg-[#18181b] rounded-xl border border-[#27272a] p-3 focus-within:border-gray-500 transition-colors">
@@ -440,7 +837,7 @@ export function ChatPanel({ projectId, onViewCode, initialPrompt }: ChatPanelPro
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={handleKeyDown}
-            placeholder="Describe the mobile app you want to build..."
+            placeholder={agentMode === 'edit' ? 'Describe the change you want to make...' : 'Describe the mobile app you want to build...'}
             className="w-full bg-transparent outline-none text-[13px] text-gray-200 resize-none h-12 placeholder-gray-500 leading-relaxed custom-scrollbar py-1"
             disabled={isLoading}
           />
@@ -454,6 +851,38 @@ export function ChatPanel({ projectId, onViewCode, initialPrompt }: ChatPanelPro
               >
                 <NotebookPen size={18} />
               </button>
+              <button
+                onClick={() => setStageAgentChanges(!stageAgentChanges)}
+                className={`flex items-center gap-1 p-1 text-xs transition-colors ${
+                  stageAgentChanges ? 'text-amber-400' : 'text-gray-500 hover:text-gray-300'
+                }`}
+                disabled={isLoading}
+                title={stageAgentChanges
+                  ? 'Review mode: agent changes wait for you to accept them'
+                  : 'Review mode off: agent changes are applied immediately'}
+              >
+                <GitCompare size={16} />
+                Review
+              </button>
+              {models && (usableModels.length > 0 ? (
+                <select
+                  value={selectedModel}
+                  onChange={(e) => setSelectedModel(e.target.value as ModelId)}
+                  disabled={isLoading}
+                  className="bg-transparent text-xs text-gray-500 hover:text-gray-300 outline-none cursor-pointer max-w-[120px] truncate"
+                  title={selectedKeySource ? `Runs with ${KEY_SOURCE_LABELS[selectedKeySource]}` : undefined}
+                >
+                  {usableModels.map(model => (
+                    <option key={model.id} value={model.id} className="bg-[#18181b]">
+                      {model.name}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <Link href="/dashboard/settings" className="text-xs text-amber-400 hover:text-amber-300">
+                  Add an API key
+                </Link>
+              ))}
             </div>
 
             <div className="flex items-center rounded-full bg-zinc-800 p-0.5">
@@ -475,6 +904,16 @@ export function ChatPanel({ projectId, onViewCode, initialPrompt }: ChatPanelPro
               >
                 Build
               </button>
+              <button
+                onClick={() => setAgentMode('edit')}
+                className={`rounded-full px-3 py-1 text-xs font-medium transition-colors ${
+                  agentMode === 'edit' ? 'bg-white text-black' : 'text-zinc-400 hover:text-zinc-200'
+                }`}
+                disabled={isLoading || Object.keys(files).length === 0}
+                title="Make a focused change to the existing files"
+              >
+                Edit
+              </button>
             </div>
 
             {/* Right: Mic + Send */}
@@ -485,21 +924,27 @@ export function ChatPanel({ projectId, onViewCode, initialPrompt }: ChatPanelPro
               >
                 <Mic size={18} />
               </button>
-              <button
-                onClick={handleSend}
-                disabled={isLoading || !input.trim()}
-                className={`p-2 rounded-lg transition-all ${
-                  input.trim() && !isLoading
-                    ? 'bg-white text-black hover:bg-gray-200 shadow-md'
-                    : 'text-gray-600 bg-[#27272a]'
-                }`}
-              >
-                {isLoading ? (
-                  <Loader2 size={16} className="animate-spin" />
-                ) : (
+              {isLoading ? (
+                <button
+                  onClick={handleStop}
+                  className="p-2 rounded-lg transition-all bg-white text-black hover:bg-gray-200 shadow-md"
+                  title="Stop the agent (files written so far are kept)"
+                >
+                  <Square size={16} fill="currentColor" />
+                </button>
+              ) : (
+                <button
+                  onClick={handleSend}
+                  disabled={!input.trim()}
+                  className={`p-2 rounded-lg transition-all ${
+                    input.trim()
+                      ? 'bg-white text-black hover:bg-gray-200 shadow-md'
+                      : 'text-gray-600 bg-[#27272a]'
+                  }`}
+                >
                   <Send size={16} />
-                )}
-              </button>
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -3,7 +3,9 @@
 import { useState, useEffect, useCallback } from 'react';
 import dynamic from 'next/dynamic';
 import { useProjectStore } from '@/stores/projectStore';
-import { X, Circle } from 'lucide-react';
+import { useReviewStore } from '@/stores/reviewStore';
+import { X, Circle, GitCompare } from 'lucide-react';
+import { ReviewPanel } from './ReviewPanel';
 
 // Dynamic import Monaco to avoid SSR issues
 const Editor = dynamic(
@@ -25,6 +27,8 @@ interface CodePanelProps {
 export function CodePanel({ projectId: _projectId }: CodePanelProps) {
   const { activeFile, files, updateFile, setActiveFile } = useProjectStore();
   const [openTabs, setOpenTabs] = useState<string[]>([]);
+  const { isOpen: isReviewOpen, changes: pendingChanges, openReview } = useReviewStore();
+  const pendingReviewCount = Object.keys(pendingChanges).length;
   
   const file = activeFile ? files[activeFile] : null;
   
@@ -112,10 +116,28 @@ export function CodePanel({ projectId: _projectId }: CodePanelProps) {
             </div>
           );
         })}
+        {pendingReviewCount > 0 && (
+          <button
+            onClick={() => openReview()}
+            className={`ml-auto h-full flex items-center gap-1.5 px-3 border-l border-[#27272a] text-[13px] flex-shrink-0 transition-colors ${
+              isReviewOpen ? 'bg-[#1e1e21] text-amber-400' : 'text-amber-400/80 hover:bg-[#27272a]'
+            }`}
+          >
+            <GitCompare size={13} />
+            Review ({pendingReviewCount})
+          </button>
+        )}
       </div>
       
       {/* Editor Container */}
       <div className="flex-1 relative">
+        {/* Staged agent changes (the editor stays mounted underneath) */}
+        {isReviewOpen && pendingReviewCount > 0 && (
+          <div className="absolute inset-0 z-20">
+            <ReviewPanel />
+          </div>
+        )}
+
         {/* Empty State */}
         {!file && (
           <div className="absolute inset-0 z-10 flex items-center justify-center bg-[#0a0a0a] text-gray-500">
@@ -11,6 +11,7 @@ import {
   Save,
   FolderOpen,
   RefreshCw,
+  ArrowUpCircle,
 } from 'lucide-react';
 import { useProjectStore } from '@/stores/projectStore';
 
@@ -32,6 +33,7 @@ interface CommandPaletteProps {
   onExport?: () => void;
   onGithubSync?: () => void;
   onPreview?: () => void;
+  onUpgradeSdk?: () => void;
 }
 
 export function CommandPalette({ 
@@ -41,7 +43,8 @@ export function CommandPalette({
   onSave,
   onExport,
   onGithubSync,
-  onPreview
+  onPreview,
+  onUpgradeSdk
 }: CommandPaletteProps) {
   const [query, setQuery] = useState('');
   const [selectedIndex, setSelectedIndex] = useState(0);
@@ -115,6 +118,17 @@ export function CommandPalette({
       });
     }
     
+    if (onUpgradeSdk) {
+      cmds.push({
+        id: 'upgrade-sdk',
+        name: 'Upgrade Expo SDK',
+        description: 'Bump dependencies, run codemods and review the changes',
+        icon: <ArrowUpCircle size={16} className="text-amber-400" />,
+        category: 'action',
+        action: () => { onUpgradeSdk(); onClose(); },
+      });
+    }
+    
     // Navigation commands
     cmds.push({
       id: 'goto-settings',
@@ -153,7 +167,7 @@ export function CommandPalette({
     });
     
     return cmds;
-  }, [files, setActiveFile, onClose, onSave, onExport, onGithubSync, onPreview]);
+  }, [files, setActiveFile, onClose, onSave, onExport, onGithubSync, onPreview, onUpgradeSdk]);
 
   // Filter commands based on query
   const filteredCommands = useMemo(() => {
@@ -0,0 +1,196 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Package, X, Plus, Trash2, AlertTriangle } from 'lucide-react';
+import {
+  CORE_PACKAGES,
+  checkProjectDependencies,
+  dependencyError,
+  getAllowedDependencies,
+  getDependencyVersion,
+  getExpoSdk,
+  readDependencies,
+  removeDependency,
+  setDependency,
+} from '@rork/shared';
+import { useProjectStore } from '@/stores/projectStore';
+import { useToast } from '@/components/ui/Toast';
+
+interface DependenciesPanelProps {
+  onClose: () => void;
+}
+
+export function DependenciesPanel({ onClose }: DependenciesPanelProps) {
+  const { showToast } = useToast();
+  const { files, sdkVersion, updateFile } = useProjectStore();
+  const [name, setName] = useState('');
+
+  const sdk = getExpoSdk(sdkVersion);
+  const packageJson = files['package.json']?.content;
+  const dependencies = packageJson === undefined ? null : readDependencies(packageJson);
+
+  const warnings = useMemo(
+    () => checkProjectDependencies(Object.fromEntries(Object.values(files).map((f) => [f.path, f.content]))),
+    [files]
+  );
+  const suggestions = useMemo(
+    () => Object.keys(getAllowedDependencies(sdk)).filter((pkg) => !dependencies?.[pkg]),
+    [sdk, dependencies]
+  );
+
+  // Edit package.json in the editor (saved with the other files) and push it to the preview
+  const editPackageJson = (edit: (content: string) => string, message: string) => {
+    if (packageJson === undefined) return;
+    try {
+      updateFile('package.json', edit(packageJson));
+      window.dispatchEvent(new CustomEvent('project-files-changed'));
+      showToast(message, 'success');
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to update package.json', 'error');
+    }
+  };
+
+  const handleAdd = (pkg: string) => {
+    const error = dependencyError(sdk, pkg);
+    if (error) {
+      showToast(error, 'error');
+      return;
+    }
+    const version = getDependencyVersion(sdk, pkg)!;
+    editPackageJson((content) => setDependency(content, pkg, version), `Added ${pkg}@${version}`);
+    setName('');
+  };
+
+  const handleRemove = (pkg: string) => {
+    editPackageJson((content) => removeDependency(content, pkg), `Removed ${pkg}`);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-background border border-border rounded-xl w-full max-w-lg p-6 shadow-2xl">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <Package size={20} />
+            Dependencies
+          </h2>
+          <button onClick={onClose} className="p-1 hover:bg-accent rounded">
+            <X size={18} className="text-gray-400" />
+          </button>
+        </div>
+
+        <p className="text-sm text-muted-foreground mb-4">
+          Packages Snack can run on Expo SDK {sdk.major}, at the versions the SDK pins. Changes are saved with your files.
+        </p>
+
+        {dependencies === null ? (
+          <p className="text-sm text-amber-400 p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg">
+            {packageJson === undefined
+              ? 'This project has no package.json.'
+              : 'package.json is not valid JSON; fix it in the code editor first.'}
+          </p>
+        ) : (
+          <>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (name.trim()) handleAdd(name.trim());
+              }}
+              className="flex gap-2 mb-4"
+            >
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                list="dependency-suggestions"
+                placeholder="Add a package, e.g. expo-image"
+                className="flex-1 min-w-0 px-3 py-2 bg-secondary border border-border rounded-lg text-sm font-mono focus:outline-none focus:border-zinc-500"
+              />
+              <datalist id="dependency-suggestions">
+                {suggestions.map((pkg) => (
+                  <option key={pkg} value={pkg} />
+                ))}
+              </datalist>
+              <button
+                type="submit"
+                disabled={!name.trim()}
+                className="flex items-center gap-1.5 px-3 py-2 bg-white text-black rounded-lg text-sm font-medium hover:bg-gray-200 transition-colors disabled:opacity-50"
+              >
+                <Plus size={14} />
+                Add
+              </button>
+            </form>
+
+            {warnings.length > 0 && (
+              <div className="space-y-1.5 mb-4">
+                {warnings.map((warning) => (
+                  <div
+                    key={`${warning.kind}:${warning.name}`}
+                    className="flex items-start gap-2 px-3 py-2 bg-amber-500/10 border border-amber-500/20 rounded-lg"
+                  >
+                    <AlertTriangle size={14} className="text-amber-400 mt-0.5 flex-shrink-0" />
+                    <span className="text-xs text-amber-200 flex-1">{warning.message}</span>
+                    {warning.kind === 'undeclared' && !dependencyError(sdk, warning.name) && (
+                      <button onClick={() => handleAdd(warning.name)} className="text-xs text-amber-400 hover:text-amber-300">
+                        Add
+                      </button>
+                    )}
+                    {warning.kind === 'unused' && (
+                      <button onClick={() => handleRemove(warning.name)} className="text-xs text-amber-400 hover:text-amber-300">
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-1.5 max-h-[50vh] overflow-y-auto custom-scrollbar">
+              {Object.entries(dependencies).map(([pkg, version]) => {
+                const pinned = getDependencyVersion(sdk, pkg);
+                const error = dependencyError(sdk, pkg);
+                const isCore = CORE_PACKAGES.includes(pkg);
+                return (
+                  <div
+                    key={pkg}
+                    className="flex items-center gap-3 px-3 py-2 bg-secondary border border-border rounded-lg"
+                  >
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-mono text-foreground truncate">{pkg}</span>
+                        <span className="text-xs font-mono text-muted-foreground">{version}</span>
+                      </div>
+                      {error ? (
+                        <p className="text-xs text-red-400 mt-0.5">{error}</p>
+                      ) : pinned && pinned !== version ? (
+                        <button
+                          onClick={() => editPackageJson((content) => setDependency(content, pkg, pinned), `Pinned ${pkg} to ${pinned}`)}
+                          className="text-xs text-amber-400 hover:text-amber-300 mt-0.5"
+                        >
+                          Expo SDK {sdk.major} pins {pinned}; use it
+                        </button>
+                      ) : null}
+                    </div>
+                    <button
+                      onClick={() => handleRemove(pkg)}
+                      disabled={isCore}
+                      className="p-1.5 rounded text-gray-500 hover:text-red-400 hover:bg-accent transition-colors disabled:opacity-30 disabled:hover:text-gray-500"
+                      title={isCore ? 'Every Expo project needs this package' : `Remove ${pkg}`}
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+
+        <button
+          onClick={onClose}
+          className="w-full mt-4 py-2 bg-accent text-foreground rounded-lg text-sm font-medium hover:bg-secondary transition-colors"
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Download, X, Loader2, AlertCircle, AlertTriangle, Info, CheckCircle2 } from 'lucide-react';
+import type { ExportIssue, ExportMode, ExportReport } from '@/lib/project-export';
+import { useProjectStore } from '@/stores/projectStore';
+import { useToast } from '@/components/ui/Toast';
+
+const MODE_OPTIONS: Array<{ mode: ExportMode; label: string; detail: string }> = [
+  { mode: 'managed', label: 'Expo managed', detail: 'Runnable project: npm install && npx expo start' },
+  { mode: 'eas', label: 'With EAS config', detail: 'Managed project plus eas.json and bundle identifiers' },
+  { mode: 'source', label: 'Source only', detail: 'Just your project files' },
+];
+
+const SEVERITY_ICONS: Record<ExportIssue['severity'], { icon: typeof Info; className: string }> = {
+  error: { icon: AlertCircle, className: 'text-red-400' },
+  warning: { icon: AlertTriangle, className: 'text-amber-400' },
+  info: { icon: Info, className: 'text-blue-400' },
+};
+
+interface ExportPanelProps {
+  projectId: string;
+  onClose: () => void;
+}
+
+export function ExportPanel({ projectId, onClose }: ExportPanelProps) {
+  const { showToast } = useToast();
+  const { projectName } = useProjectStore();
+  const [mode, setMode] = useState<ExportMode>('managed');
+  const [report, setReport] = useState<ExportReport | null>(null);
+  const [reportError, setReportError] = useState<string | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  // Validate the export for the selected mode
+  useEffect(() => {
+    let cancelled = false;
+    setReport(null);
+    setReportError(null);
+    (async () => {
+      try {
+        const res = await fetch(`/api/projects/${projectId}/export?mode=${mode}&report=1`);
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to check project');
+        if (!cancelled) setReport(data.report);
+      } catch (error) {
+        console.error('Export report error:', error);
+        if (!cancelled) setReportError(error instanceof Error ? error.message : 'Failed to check project');
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [projectId, mode]);
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/export?mode=${mode}`);
+      if (!response.ok) throw new Error('Export failed');
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${projectName || 'project'}.zip`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+      showToast('Project exported successfully', 'success');
+      onClose();
+    } catch (error) {
+      console.error('Export error:', error);
+      showToast('Failed to export project', 'error');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const errorCount = report?.issues.filter(issue => issue.severity === 'error').length ?? 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-background border border-border rounded-xl w-full max-w-2xl max-h-[85vh] p-6 shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <Download size={20} />
+            Export Project
+          </h2>
+          <button onClick={onClose} className="p-1 hover:bg-accent rounded">
+            <X size={18} className="text-gray-400" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          {MODE_OPTIONS.map(option => (
+            <button
+              key={option.mode}
+              onClick={() => setMode(option.mode)}
+              disabled={isDownloading}
+              className={`p-3 text-left bg-secondary border rounded-lg transition-colors disabled:opacity-50 ${
+                mode === option.mode ? 'border-blue-500' : 'border-border hover:border-zinc-600'
+              }`}
+            >
+              <p className="text-sm font-medium">{option.label}</p>
+              <p className="text-xs text-muted-foreground mt-1">{option.detail}</p>
+            </button>
+          ))}
+        </div>
+
+        {/* Validation report */}
+        <div className="mt-5 flex flex-col min-h-0">
+          <h3 className="text-sm font-medium text-muted-foreground mb-2">
+            Export check
+            {report && <span className="ml-2 text-xs font-normal">Expo SDK {report.sdkVersion}</span>}
+          </h3>
+          {reportError ? (
+            <p className="text-sm text-red-400 p-3">{reportError}</p>
+          ) : !report ? (
+            <div className="flex items-center justify-center gap-2 p-6">
+              <Loader2 size={16} className="animate-spin text-gray-400" />
+              <span className="text-sm text-gray-400">Checking project...</span>
+            </div>
+          ) : (
+            <div className="space-y-2 overflow-y-auto custom-scrollbar">
+              {report.generatedFiles.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Adds or updates: {report.generatedFiles.join(', ')}
+                </p>
+              )}
+              {report.issues.length === 0 ? (
+                <p className="flex items-center gap-2 p-3 text-sm text-green-400">
+                  <CheckCircle2 size={16} />
+                  Nothing found that would stop this project running outside Snack.
+                </p>
+              ) : (
+                report.issues.map((issue, index) => {
+                  const { icon: Icon, className } = SEVERITY_ICONS[issue.severity];
+                  return (
+                    <div key={index} className="flex items-start gap-2 p-2 bg-secondary border border-border rounded-lg">
+                      <Icon size={14} className={`mt-0.5 flex-shrink-0 ${className}`} />
+                      <div className="min-w-0 text-xs">
+                        {issue.file && <p className="font-mono text-muted-foreground truncate">{issue.file}</p>}
+                        <p>{issue.message}</p>
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="mt-5 flex items-center justify-between gap-3">
+          <p className="text-xs text-muted-foreground">
+            {errorCount > 0
+              ? `${errorCount} error(s) will need fixing before the app runs.`
+              : report?.issues.length
+                ? 'The report is included in the ZIP as EXPORT_REPORT.md.'
+                : null}
+          </p>
+          <button
+            onClick={handleDownload}
+            disabled={isDownloading}
+            className="flex items-center gap-2 px-4 py-2 bg-white text-black rounded-lg text-sm font-medium hover:bg-gray-200 transition-colors disabled:opacity-50"
+          >
+            {isDownloading ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+            Download ZIP
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -10,7 +10,8 @@ import {
   FolderPlus,
   FilePlus,
 } from 'lucide-react';
-import { useProjectStore } from '@/stores/projectStore';
+import type { ImportIssue } from '@ai-engine/core';
+import { useProjectStore, type EditorFile } from '@/stores/projectStore';
 
 interface TreeNode {
   name: string;
@@ -86,6 +87,66 @@ function getFileIcon(name: string): string {
   }
 }
 
+/**
+ * Import graph problems per file (unresolved imports, missing exports,
+ * cycles, unreachable files), refreshed shortly after the files change.
+ */
+function useImportIssues(projectId: string | null, files: Record<string, EditorFile>): Record<string, ImportIssue[]> {
+  const [issues, setIssues] = useState<Record<string, ImportIssue[]>>({});
+
+  useEffect(() => {
+    if (!projectId) return;
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/projects/${projectId}/import-graph`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ files: Object.fromEntries(Object.values(files).map(f => [f.path, f.content])) }),
+          signal: controller.signal,
+        });
+        // Badges are best-effort: projects without a server copy (the demo) just get none
+        if (!res.ok) {
+          setIssues({});
+          return;
+        }
+        const data: { issues: ImportIssue[] } = await res.json();
+        const byFile: Record<string, ImportIssue[]> = {};
+        for (const issue of data.issues) {
+          (byFile[issue.file] ??= []).push(issue);
+        }
+        setIssues(byFile);
+      } catch (error) {
+        if (!controller.signal.aborted) console.error('Import graph error:', error);
+      }
+    }, 1000);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [projectId, files]);
+
+  return issues;
+}
+
+function FileBadges({ issues }: { issues: ImportIssue[] }) {
+  const errors = issues.filter(i => i.severity === 'error');
+  const circular = issues.some(i => i.kind === 'circular-import');
+  const unused = issues.some(i => i.kind === 'unreachable-file');
+  const title = issues.map(i => (i.line > 1 ? `${i.line}: ${i.message}` : i.message)).join('\n');
+
+  return (
+    <span className="flex items-center gap-1 flex-shrink-0" title={title}>
+      {errors.length > 0 && (
+        <span className="px-1 rounded text-[10px] leading-4 bg-red-500/15 text-red-400">{errors.length}</span>
+      )}
+      {circular && <span className="text-[10px] text-amber-400">cycle</span>}
+      {unused && <span className="text-[10px] text-gray-500">unused</span>}
+    </span>
+  );
+}
+
 interface NewFileInputProps {
   type: 'file' | 'folder';
   parentPath: string;
@@ -217,6 +278,11 @@ export function FileTree() {
   } | null>(null);
   
   const tree = useMemo(() => buildTree(Object.keys(files)), [files]);
+  const importIssues = useImportIssues(projectId, files);
+  const brokenPaths = useMemo(
+    () => Object.keys(importIssues).filter(path => importIssues[path].some(i => i.severity === 'error')),
+    [importIssues]
+  );
   
   const toggleExpand = (path: string) => {
     setExpanded(prev => {
@@ -338,7 +404,13 @@ export function FileTree() {
               <File size={14} className={getFileIcon(node.name)} />
             </>
           )}
-          <span className="text-[13px] truncate flex-1">{node.name}</span>
+          <span className={`text-[13px] truncate flex-1 ${importIssues[node.path]?.some(i => i.kind === 'unreachable-file') ? 'opacity-60' : ''}`}>
+            {node.name}
+          </span>
+          {node.type === 'file' && importIssues[node.path] && <FileBadges issues={importIssues[node.path]} />}
+          {node.type === 'folder' && !isExpanded && brokenPaths.some(p => p.startsWith(`${node.path}/`)) && (
+            <span className="w-1.5 h-1.5 rounded-full bg-red-400 flex-shrink-0" title="Contains files with broken imports" />
+          )}
           
           {/* Hover actions */}
           <div className="opacity-0 group-hover:opacity-100 flex items-center gap-0.5">
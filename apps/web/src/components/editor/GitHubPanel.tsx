@@ -0,0 +1,483 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import dynamic from 'next/dynamic';
+import { Github, X, Loader2, ExternalLink, ArrowDownToLine, ArrowUpFromLine, AlertTriangle, Unlink, GitPullRequest } from 'lucide-react';
+import type { PullChange, PushResult } from '@/lib/github-sync';
+import { hasConflictMarkers } from '@/lib/diff';
+import { getLanguageFromPath } from '@/lib/language';
+import { useProjectStore } from '@/stores/projectStore';
+import { useToast } from '@/components/ui/Toast';
+import { formatRelativeTime } from '@/lib/utils';
+
+// Dynamic import Monaco to avoid SSR issues
+const DiffEditor = dynamic(
+  () => import('@monaco-editor/react').then(mod => mod.DiffEditor),
+  {
+    ssr: false,
+    loading: () => (
+      <div className="h-full flex items-center justify-center bg-[#0a0a0a] text-gray-500">
+        Loading diff...
+      </div>
+    ),
+  }
+);
+
+interface GitHubLink {
+  repo: string;
+  branch: string;
+  repoUrl: string;
+  syncedSha: string | null;
+  syncedAt: string | null;
+  /** Each agent run is pushed to its own branch and opened as a pull request */
+  prPerRun: boolean;
+}
+
+interface RunPullRequest {
+  runId: string;
+  prompt: string;
+  url: string;
+  createdAt: string;
+}
+
+const RESULT_STYLES: Record<PullChange['result'], string> = {
+  clean: 'bg-green-500/20 text-green-400',
+  merged: 'bg-blue-500/20 text-blue-400',
+  conflict: 'bg-red-500/20 text-red-400',
+};
+
+interface GitHubPanelProps {
+  projectId: string;
+  onClose: () => void;
+  /** Open a file in the code editor (used to resolve conflicts) */
+  onOpenFile: (path: string) => void;
+}
+
+export function GitHubPanel({ projectId, onClose, onOpenFile }: GitHubPanelProps) {
+  const { showToast } = useToast();
+  const { projectName, files, replaceFiles } = useProjectStore();
+  const [link, setLink] = useState<GitHubLink | null | undefined>(undefined);
+  const [behind, setBehind] = useState(false);
+  const [pullRequests, setPullRequests] = useState<RunPullRequest[]>([]);
+  const [repoName, setRepoName] = useState('');
+  const [branch, setBranch] = useState('main');
+  const [commitMessage, setCommitMessage] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [refusal, setRefusal] = useState<Exclude<PushResult, { status: 'pushed' | 'up-to-date' }> | null>(null);
+  const [lastPush, setLastPush] = useState<{ commitUrl: string } | null>(null);
+  const [pull, setPull] = useState<{ remoteSha: string; changes: PullChange[] } | null>(null);
+  const [activePath, setActivePath] = useState<string | null>(null);
+
+  const hasDirtyFiles = Object.values(files).some(f => f.isDirty);
+  const conflictedFiles = useMemo(
+    () => Object.values(files).filter(file => hasConflictMarkers(file.content)).map(file => file.path).sort(),
+    [files]
+  );
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/github/sync?projectId=${projectId}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load GitHub status');
+      setLink(data.link);
+      setBehind(Boolean(data.behind));
+      setPullRequests(data.pullRequests ?? []);
+    } catch (error) {
+      console.error('GitHub status error:', error);
+      setLink(null);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const handlePush = async (merge = false) => {
+    setIsBusy(true);
+    setRefusal(null);
+    setLastPush(null);
+    try {
+      const res = await fetch('/api/github/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          projectId,
+          repo: repoName.trim() || undefined,
+          branch: branch.trim() || undefined,
+          commitMessage: commitMessage.trim() || undefined,
+          merge,
+        }),
+      });
+      const data = await res.json();
+      if (res.status === 409) {
+        setRefusal(data);
+        return;
+      }
+      if (!res.ok) throw new Error(data.error || 'Failed to push to GitHub');
+
+      const result = data as Extract<PushResult, { status: 'pushed' | 'up-to-date' }>;
+      if (result.status === 'pushed') {
+        setLastPush({ commitUrl: result.commitUrl });
+        if (data.files) {
+          // The merge pulled remote changes into the project
+          replaceFiles(data.files);
+          window.dispatchEvent(new CustomEvent('project-files-changed'));
+        }
+        showToast('Pushed to GitHub', 'success');
+      } else {
+        showToast('GitHub is already up to date', 'info');
+      }
+      setCommitMessage('');
+      await loadStatus();
+    } catch (error) {
+      console.error('GitHub sync error:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to push to GitHub', 'error');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handlePreviewPull = async () => {
+    setIsBusy(true);
+    setRefusal(null);
+    try {
+      const res = await fetch(`/api/github/pull?projectId=${projectId}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to check GitHub for changes');
+      setPull(data);
+      setActivePath(data.changes[0]?.path ?? null);
+    } catch (error) {
+      console.error('GitHub pull preview error:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to check GitHub for changes', 'error');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleApplyPull = async () => {
+    if (!pull) return;
+    setIsBusy(true);
+    try {
+      const res = await fetch('/api/github/pull', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ projectId, remoteSha: pull.remoteSha }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to pull from GitHub');
+
+      replaceFiles(data.files);
+      window.dispatchEvent(new CustomEvent('project-files-changed'));
+      showToast(
+        data.conflicts.length > 0
+          ? `Pulled ${data.changed.length} file(s); ${data.conflicts.length} need resolving`
+          : `Pulled ${data.changed.length} file(s) from GitHub`,
+        data.conflicts.length > 0 ? 'info' : 'success'
+      );
+      setPull(null);
+      await loadStatus();
+    } catch (error) {
+      console.error('GitHub pull error:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to pull from GitHub', 'error');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleTogglePrPerRun = async (prPerRun: boolean) => {
+    if (!link) return;
+    setLink({ ...link, prPerRun });
+    try {
+      const res = await fetch('/api/github/sync', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ projectId, prPerRun }),
+      });
+      if (!res.ok) throw new Error((await res.json()).error || 'Failed to update GitHub settings');
+    } catch (error) {
+      console.error('GitHub settings error:', error);
+      setLink({ ...link, prPerRun: !prPerRun });
+      showToast(error instanceof Error ? error.message : 'Failed to update GitHub settings', 'error');
+    }
+  };
+
+  const handleUnlink = async () => {
+    if (!confirm('Unlink this project from GitHub? The repository is not changed.')) return;
+    const res = await fetch(`/api/github/sync?projectId=${projectId}`, { method: 'DELETE' });
+    if (res.ok) {
+      setLink(null);
+      setPull(null);
+      setRefusal(null);
+    } else {
+      showToast('Failed to unlink repository', 'error');
+    }
+  };
+
+  const activeChange = pull?.changes.find(change => change.path === activePath) ?? null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className={`bg-background border border-border rounded-xl w-full ${pull ? 'max-w-5xl h-[85vh]' : 'max-w-md'} p-6 shadow-2xl flex flex-col`}>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <Github size={20} />
+            GitHub
+          </h2>
+          <button onClick={onClose} className="p-1 hover:bg-accent rounded">
+            <X size={18} className="text-gray-400" />
+          </button>
+        </div>
+
+        {link === undefined ? (
+          <div className="flex items-center justify-center gap-2 p-6">
+            <Loader2 size={16} className="animate-spin text-gray-400" />
+            <span className="text-sm text-gray-400">Loading...</span>
+          </div>
+        ) : link === null ? (
+          /* Not linked yet: the first push links the repo */
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Link this project to a repository. The first push creates it if it doesn&apos;t exist.
+            </p>
+            <label className="block space-y-1.5">
+              <span className="text-xs text-muted-foreground">Repository (name or owner/name)</span>
+              <input
+                value={repoName}
+                onChange={(e) => setRepoName(e.target.value)}
+                placeholder={projectName ? projectName.toLowerCase().replace(/\s+/g, '-') : 'rork-app'}
+                className="w-full px-3 py-2 bg-secondary border border-border rounded-lg text-sm focus:outline-none focus:border-zinc-500"
+              />
+            </label>
+            <label className="block space-y-1.5">
+              <span className="text-xs text-muted-foreground">Branch</span>
+              <input
+                value={branch}
+                onChange={(e) => setBranch(e.target.value)}
+                className="w-full px-3 py-2 bg-secondary border border-border rounded-lg text-sm focus:outline-none focus:border-zinc-500"
+              />
+            </label>
+            <button
+              onClick={() => handlePush()}
+              disabled={isBusy || hasDirtyFiles}
+              className="w-full py-2 bg-white text-black rounded-lg text-sm font-medium hover:bg-gray-200 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              {isBusy ? <Loader2 size={14} className="animate-spin" /> : <Github size={14} />}
+              Link and push
+            </button>
+          </div>
+        ) : (
+          <div className="flex flex-col min-h-0 flex-1 space-y-4">
+            <div className="p-3 bg-secondary border border-border rounded-lg text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <a
+                  href={link.repoUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-1.5 font-medium hover:underline truncate"
+                >
+                  {link.repo}
+                  <ExternalLink size={12} className="text-muted-foreground" />
+                </a>
+                <button
+                  onClick={handleUnlink}
+                  title="Unlink repository"
+                  className="p-1 text-muted-foreground hover:text-foreground hover:bg-accent rounded"
+                >
+                  <Unlink size={14} />
+                </button>
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                Branch <span className="font-mono">{link.branch}</span>
+                {link.syncedSha && link.syncedAt
+                  ? <> · synced <span className="font-mono">{link.syncedSha.slice(0, 7)}</span> {formatRelativeTime(link.syncedAt)}</>
+                  : ' · not synced yet'}
+              </p>
+              {behind && (
+                <p className="text-xs text-amber-400 mt-1">GitHub has new commits. Pull them before pushing.</p>
+              )}
+              <label className="flex items-center gap-2 mt-3 text-xs text-muted-foreground cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={link.prPerRun}
+                  onChange={(e) => handleTogglePrPerRun(e.target.checked)}
+                  className="accent-white"
+                />
+                Open a pull request for each agent run
+              </label>
+              {pullRequests.length > 0 && (
+                <div className="mt-2 space-y-1">
+                  {pullRequests.map(pr => (
+                    <a
+                      key={pr.runId}
+                      href={pr.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground"
+                    >
+                      <GitPullRequest size={12} className="shrink-0" />
+                      <span className="truncate">{pr.prompt}</span>
+                      <span className="shrink-0">· {formatRelativeTime(pr.createdAt)}</span>
+                    </a>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {conflictedFiles.length > 0 && (
+              <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+                <p className="flex items-center gap-1.5 text-xs font-medium text-red-400 mb-2">
+                  <AlertTriangle size={12} />
+                  Resolve the conflict markers in these files before pushing
+                </p>
+                <div className="space-y-1">
+                  {conflictedFiles.map(path => (
+                    <button
+                      key={path}
+                      onClick={() => { onOpenFile(path); onClose(); }}
+                      className="block w-full text-left text-xs font-mono text-red-300 hover:underline truncate"
+                    >
+                      {path}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {refusal && (
+              <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg space-y-2">
+                <p className="text-xs text-amber-400">
+                  {refusal.status === 'remote-moved'
+                    ? 'GitHub has commits you haven\'t pulled. Pull to review them, or merge them and push.'
+                    : refusal.status === 'conflicts'
+                      ? `GitHub changed the same lines as you in: ${refusal.conflicts.join(', ')}. Pull to resolve them.`
+                      : 'Some files still contain conflict markers.'}
+                </p>
+                {refusal.status === 'remote-moved' && (
+                  <button
+                    onClick={() => handlePush(true)}
+                    disabled={isBusy}
+                    className="px-3 py-1.5 bg-secondary border border-border rounded-lg text-xs hover:border-zinc-600 disabled:opacity-50"
+                  >
+                    Merge and push
+                  </button>
+                )}
+              </div>
+            )}
+
+            {pull ? (
+              /* Pull preview */
+              pull.changes.length === 0 ? (
+                <div className="space-y-3">
+                  <p className="text-sm text-muted-foreground">Already up to date with GitHub.</p>
+                  <button onClick={() => setPull(null)} className="text-xs text-muted-foreground hover:text-foreground">Back</button>
+                </div>
+              ) : (
+                <div className="flex-1 min-h-0 flex flex-col">
+                  <div className="flex-1 min-h-0 flex border border-border rounded-lg overflow-hidden">
+                    <div className="w-64 border-r border-border overflow-y-auto custom-scrollbar">
+                      {pull.changes.map(change => (
+                        <button
+                          key={change.path}
+                          onClick={() => setActivePath(change.path)}
+                          className={`w-full text-left px-3 py-2 text-xs border-b border-border ${
+                            change.path === activePath ? 'bg-accent' : 'hover:bg-secondary'
+                          }`}
+                        >
+                          <p className="font-mono truncate">{change.path}</p>
+                          <p className="mt-1 flex items-center gap-1.5">
+                            <span className="text-muted-foreground">{change.status}</span>
+                            <span className={`px-1.5 py-0.5 rounded text-[10px] ${RESULT_STYLES[change.result]}`}>
+                              {change.result}
+                            </span>
+                          </p>
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex-1 min-w-0 flex flex-col">
+                      {activeChange && (
+                        <>
+                          <div className="flex justify-between px-3 py-1.5 text-[11px] text-muted-foreground border-b border-border">
+                            <span>Rork</span>
+                            <span>After pull</span>
+                          </div>
+                          <div className="flex-1 min-h-0">
+                            <DiffEditor
+                              height="100%"
+                              theme="vs-dark"
+                              language={getLanguageFromPath(activeChange.path)}
+                              original={activeChange.local ?? ''}
+                              modified={activeChange.merged ?? ''}
+                              options={{ readOnly: true, renderSideBySide: true, minimap: { enabled: false } }}
+                            />
+                          </div>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-end gap-3 pt-4">
+                    <button
+                      onClick={() => setPull(null)}
+                      className="px-4 py-2 border border-border text-muted-foreground rounded-lg text-sm font-medium hover:bg-accent transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleApplyPull}
+                      disabled={isBusy || hasDirtyFiles}
+                      className="px-4 py-2 bg-white text-black rounded-lg text-sm font-medium hover:bg-gray-200 transition-colors disabled:opacity-50 flex items-center gap-2"
+                    >
+                      {isBusy ? <Loader2 size={14} className="animate-spin" /> : <ArrowDownToLine size={14} />}
+                      Apply {pull.changes.length} change(s)
+                    </button>
+                  </div>
+                </div>
+              )
+            ) : (
+              <div className="space-y-3">
+                <input
+                  value={commitMessage}
+                  onChange={(e) => setCommitMessage(e.target.value)}
+                  placeholder="Commit message (optional)"
+                  className="w-full px-3 py-2 bg-secondary border border-border rounded-lg text-sm focus:outline-none focus:border-zinc-500"
+                />
+                <div className="flex gap-3">
+                  <button
+                    onClick={handlePreviewPull}
+                    disabled={isBusy}
+                    className="flex-1 py-2 border border-border rounded-lg text-sm font-medium hover:bg-accent transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                  >
+                    <ArrowDownToLine size={14} />
+                    Pull
+                  </button>
+                  <button
+                    onClick={() => handlePush()}
+                    disabled={isBusy || hasDirtyFiles || conflictedFiles.length > 0}
+                    className="flex-1 py-2 bg-white text-black rounded-lg text-sm font-medium hover:bg-gray-200 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                  >
+                    {isBusy ? <Loader2 size={14} className="animate-spin" /> : <ArrowUpFromLine size={14} />}
+                    Push
+                  </button>
+                </div>
+                {lastPush && (
+                  <a
+                    href={lastPush.commitUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center justify-between p-3 bg-secondary border border-border rounded-lg hover:border-zinc-600 transition-colors"
+                  >
+                    <span className="text-sm text-muted-foreground">View commit</span>
+                    <ExternalLink size={14} className="text-muted-foreground" />
+                  </a>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {hasDirtyFiles && (
+          <p className="text-xs text-amber-400 mt-3">Save your changes before syncing with GitHub.</p>
+        )}
+      </div>
+    </div>
+  );
+}
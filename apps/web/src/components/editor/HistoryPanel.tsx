@@ -0,0 +1,321 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import dynamic from 'next/dynamic';
+import { History, X, Loader2, RotateCcw, Save, Bot, User, Undo2 } from 'lucide-react';
+import type { VersionFileDiff, VersionSummary } from '@/lib/project-versions';
+import { useProjectStore } from '@/stores/projectStore';
+import { useToast } from '@/components/ui/Toast';
+import { getLanguageFromPath } from '@/lib/language';
+import { formatRelativeTime } from '@/lib/utils';
+
+// Dynamic import Monaco to avoid SSR issues
+const DiffEditor = dynamic(
+  () => import('@monaco-editor/react').then(mod => mod.DiffEditor),
+  {
+    ssr: false,
+    loading: () => (
+      <div className="h-full flex items-center justify-center bg-[#0a0a0a] text-gray-500">
+        Loading diff...
+      </div>
+    ),
+  }
+);
+
+const KIND_ICONS = {
+  agent_run: Bot,
+  manual: User,
+  restore: Undo2,
+} as const;
+
+const STATUS_STYLES: Record<VersionFileDiff['status'], string> = {
+  added: 'text-green-400',
+  removed: 'text-red-400',
+  modified: 'text-amber-400',
+};
+
+interface HistoryPanelProps {
+  projectId: string;
+  onClose: () => void;
+}
+
+export function HistoryPanel({ projectId, onClose }: HistoryPanelProps) {
+  const { showToast } = useToast();
+  const { replaceFiles } = useProjectStore();
+  const [versions, setVersions] = useState<VersionSummary[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareTo, setCompareTo] = useState<string>('current');
+  const [diff, setDiff] = useState<VersionFileDiff[] | null>(null);
+  const [activePath, setActivePath] = useState<string | null>(null);
+  const [label, setLabel] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const loadVersions = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/projects/${projectId}/versions`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load versions');
+      setVersions(data.versions);
+    } catch (error) {
+      console.error('Version history error:', error);
+      setVersions([]);
+      showToast('Failed to load version history', 'error');
+    }
+  }, [projectId, showToast]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  // Load the diff whenever the compared pair changes
+  useEffect(() => {
+    if (!selectedId) return;
+    let cancelled = false;
+    setDiff(null);
+    fetch(`/api/projects/${projectId}/versions/diff?from=${selectedId}&to=${compareTo}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load diff');
+        if (!cancelled) {
+          setDiff(data.files);
+          setActivePath(data.files[0]?.path ?? null);
+        }
+      })
+      .catch((error) => {
+        console.error('Version diff error:', error);
+        if (!cancelled) {
+          setDiff([]);
+          showToast('Failed to load diff', 'error');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, selectedId, compareTo, showToast]);
+
+  const handleSaveVersion = async () => {
+    setIsSaving(true);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/versions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ label: label.trim() || undefined }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save version');
+      setLabel('');
+      showToast('Version saved', 'success');
+      await loadVersions();
+    } catch (error) {
+      console.error('Save version error:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to save version', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRestore = async (path?: string) => {
+    if (!selectedId) return;
+    const target = path ? path : 'the whole project';
+    if (!window.confirm(`Restore ${target} to this version? The current state is saved as a version first.`)) return;
+
+    setIsRestoring(true);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/versions/${selectedId}/restore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(path ? { path } : { scope: 'version' }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to restore');
+
+      replaceFiles(data.files);
+      window.dispatchEvent(new CustomEvent('project-files-changed'));
+      showToast(
+        data.restored.length > 0 ? `Restored ${data.restored.length} file(s)` : 'Already up to date',
+        data.restored.length > 0 ? 'success' : 'info'
+      );
+      setCompareTo('current');
+      await loadVersions();
+    } catch (error) {
+      console.error('Restore version error:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to restore', 'error');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const activeDiff = diff?.find(f => f.path === activePath) ?? null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-background border border-border rounded-xl w-full max-w-6xl h-[85vh] p-6 shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <History size={20} />
+            Version History
+          </h2>
+          <button onClick={onClose} className="p-1 hover:bg-accent rounded">
+            <X size={18} className="text-gray-400" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0 gap-4">
+          {/* Versions */}
+          <div className="w-72 flex-shrink-0 flex flex-col min-h-0">
+            <div className="flex gap-2 mb-3">
+              <input
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="Version label (optional)"
+                className="flex-1 min-w-0 px-3 py-2 bg-secondary border border-border rounded-lg text-sm focus:outline-none focus:border-zinc-500"
+              />
+              <button
+                onClick={handleSaveVersion}
+                disabled={isSaving}
+                className="flex items-center gap-1.5 px-3 py-2 bg-white text-black rounded-lg text-sm font-medium hover:bg-gray-200 transition-colors disabled:opacity-50"
+                title="Save the current files as a version"
+              >
+                {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />}
+                Save
+              </button>
+            </div>
+
+            {versions === null ? (
+              <div className="flex items-center justify-center gap-2 p-6">
+                <Loader2 size={16} className="animate-spin text-gray-400" />
+                <span className="text-sm text-gray-400">Loading history...</span>
+              </div>
+            ) : versions.length === 0 ? (
+              <p className="text-sm text-muted-foreground p-3">
+                No versions yet. A version is saved before every agent run and whenever you save one here.
+              </p>
+            ) : (
+              <div className="space-y-1.5 overflow-y-auto custom-scrollbar">
+                {versions.map((version) => {
+                  const Icon = KIND_ICONS[version.kind];
+                  const isSelected = version.id === selectedId;
+                  return (
+                    <button
+                      key={version.id}
+                      onClick={() => {
+                        setSelectedId(version.id);
+                        if (compareTo === version.id) setCompareTo('current');
+                      }}
+                      className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                        isSelected
+                          ? 'bg-accent border-zinc-500'
+                          : 'bg-secondary border-border hover:border-zinc-600'
+                      }`}
+                    >
+                      <div className="flex items-center gap-2">
+                        <Icon size={14} className="text-muted-foreground flex-shrink-0" />
+                        <span className="text-sm text-foreground truncate">{version.label}</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1 pl-[22px]">
+                        {formatRelativeTime(version.created_at)}
+                      </p>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {/* Diff */}
+          <div className="flex-1 min-w-0 flex flex-col min-h-0">
+            {!selectedId ? (
+              <div className="flex-1 flex items-center justify-center text-sm text-muted-foreground">
+                Select a version to see what changed
+              </div>
+            ) : (
+              <>
+                <div className="flex items-center gap-3 mb-3">
+                  <span className="text-sm text-muted-foreground">Compare with</span>
+                  <select
+                    value={compareTo}
+                    onChange={(e) => setCompareTo(e.target.value)}
+                    className="px-3 py-1.5 bg-secondary border border-border rounded-lg text-sm focus:outline-none"
+                  >
+                    <option value="current">Current files</option>
+                    {versions?.filter(v => v.id !== selectedId).map(v => (
+                      <option key={v.id} value={v.id}>
+                        {v.label.slice(0, 60)} ({formatRelativeTime(v.created_at)})
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => handleRestore()}
+                    disabled={isRestoring}
+                    className="ml-auto flex items-center gap-1.5 px-3 py-1.5 border border-border text-muted-foreground rounded-lg text-sm hover:bg-accent transition-colors disabled:opacity-50"
+                  >
+                    {isRestoring ? <Loader2 size={14} className="animate-spin" /> : <RotateCcw size={14} />}
+                    Restore this version
+                  </button>
+                </div>
+
+                {diff === null ? (
+                  <div className="flex items-center justify-center gap-2 p-6">
+                    <Loader2 size={16} className="animate-spin text-gray-400" />
+                    <span className="text-sm text-gray-400">Loading diff...</span>
+                  </div>
+                ) : diff.length === 0 ? (
+                  <div className="flex-1 flex items-center justify-center text-sm text-muted-foreground">
+                    No differences
+                  </div>
+                ) : (
+                  <div className="flex flex-1 min-h-0 border border-border rounded-lg overflow-hidden">
+                    <div className="w-56 flex-shrink-0 border-r border-border overflow-y-auto custom-scrollbar bg-card">
+                      {diff.map((file) => (
+                        <button
+                          key={file.path}
+                          onClick={() => setActivePath(file.path)}
+                          className={`w-full flex items-center gap-2 px-3 py-2 text-left text-xs font-mono transition-colors ${
+                            file.path === activePath ? 'bg-accent text-foreground' : 'text-muted-foreground hover:bg-accent/50'
+                          }`}
+                        >
+                          <span className={`w-3 flex-shrink-0 ${STATUS_STYLES[file.status]}`}>
+                            {file.status === 'added' ? 'A' : file.status === 'removed' ? 'D' : 'M'}
+                          </span>
+                          <span className="truncate">{file.path}</span>
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex-1 min-w-0 flex flex-col">
+                      {activeDiff && (
+                        <>
+                          <div className="h-9 flex items-center justify-between px-3 border-b border-border bg-card">
+                            <span className="text-xs font-mono text-muted-foreground truncate">{activeDiff.path}</span>
+                            <button
+                              onClick={() => handleRestore(activeDiff.path)}
+                              disabled={isRestoring}
+                              className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50"
+                            >
+                              <RotateCcw size={12} />
+                              Restore file
+                            </button>
+                          </div>
+                          <div className="flex-1 min-h-0">
+                            <DiffEditor
+                              height="100%"
+                              theme="vs-dark"
+                              language={getLanguageFromPath(activeDiff.path)}
+                              original={activeDiff.before ?? ''}
+                              modified={activeDiff.after ?? ''}
+                              options={{ readOnly: true, renderSideBySide: true, minimap: { enabled: false } }}
+                            />
+                          </div>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ShieldCheck, X, Loader2, Wand2 } from 'lucide-react';
+import { useToast } from '@/components/ui/Toast';
+
+interface LintRuleItem {
+  id: string;
+  description: string;
+  severity: 'error' | 'warning';
+  files: string[];
+  fixable: boolean;
+  enabled: boolean;
+}
+
+interface LintRulesModalProps {
+  projectId: string;
+  onClose: () => void;
+}
+
+export function LintRulesModal({ projectId, onClose }: LintRulesModalProps) {
+  const { showToast } = useToast();
+  const [rules, setRules] = useState<LintRuleItem[] | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/projects/${projectId}/lint-rules`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load lint rules');
+        if (!cancelled) setRules(data.rules);
+      })
+      .catch((error) => {
+        console.error('Lint rules error:', error);
+        if (!cancelled) {
+          setRules([]);
+          showToast('Failed to load lint rules', 'error');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, showToast]);
+
+  const toggleRule = async (rule: LintRuleItem) => {
+    setSavingId(rule.id);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/lint-rules`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rules: { [rule.id]: !rule.enabled } }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to update rule');
+
+      setRules((prev) => prev?.map((r) => (r.id === rule.id ? { ...r, enabled: !r.enabled } : r)) ?? null);
+    } catch (error) {
+      console.error('Lint rule update error:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to update rule', 'error');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-background border border-border rounded-xl w-full max-w-lg p-6 shadow-2xl">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <ShieldCheck size={20} />
+            Lint Rules
+          </h2>
+          <button onClick={onClose} className="p-1 hover:bg-accent rounded">
+            <X size={18} className="text-gray-400" />
+          </button>
+        </div>
+
+        <p className="text-sm text-muted-foreground mb-4">
+          Rules the agent checks (and autofixes where possible) when it verifies this project.
+        </p>
+
+        {rules === null ? (
+          <div className="flex items-center justify-center gap-2 p-6">
+            <Loader2 size={16} className="animate-spin text-gray-400" />
+            <span className="text-sm text-gray-400">Loading rules...</span>
+          </div>
+        ) : (
+          <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+            {rules.map((rule) => (
+              <label
+                key={rule.id}
+                className="flex items-start gap-3 p-3 bg-secondary border border-border rounded-lg cursor-pointer hover:border-zinc-600 transition-colors"
+              >
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  disabled={savingId === rule.id}
+                  onChange={() => toggleRule(rule)}
+                  className="mt-1 accent-white"
+                />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-mono text-foreground">{rule.id}</span>
+                    <span
+                      className={`text-[10px] uppercase px-1.5 py-0.5 rounded ${
+                        rule.severity === 'error'
+                          ? 'bg-red-500/10 text-red-400'
+                          : 'bg-amber-500/10 text-amber-400'
+                      }`}
+                    >
+                      {rule.severity}
+                    </span>
+                    {rule.fixable && (
+                      <span className="flex items-center gap-1 text-[10px] text-green-400" title="Autofixable">
+                        <Wand2 size={10} /> fix
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">{rule.description}</p>
+                </div>
+              </label>
+            ))}
+          </div>
+        )}
+
+        <button
+          onClick={onClose}
+          className="w-full mt-4 py-2 bg-accent text-foreground rounded-lg text-sm font-medium hover:bg-secondary transition-colors"
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  );
+}
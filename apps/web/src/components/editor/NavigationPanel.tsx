@@ -0,0 +1,271 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Network, X, Loader2, RefreshCw, Layers, FileCode, FileQuestion, Component, AlertTriangle } from 'lucide-react';
+import type { RouteIssue, RouteMap } from '@ai-engine/core';
+import { useProjectStore } from '@/stores/projectStore';
+import { useToast } from '@/components/ui/Toast';
+
+const ROW_HEIGHT = 32;
+const ARC_WIDTH = 180;
+
+interface GraphRow {
+  file: string;
+  label: string;
+  depth: number;
+  kind: 'layout' | 'screen' | 'not-found' | 'file';
+  pathname?: string;
+  navigator?: string;
+  modal?: boolean;
+}
+
+/** Route tree in display order (layouts before their children, index first), then other files that link */
+function buildRows(map: RouteMap): GraphRow[] {
+  const rows: GraphRow[] = [];
+  const known = new Set(map.routes.map(r => r.file));
+  const order = (name: string) => (name === 'index' ? '' : name.startsWith('+') ? `~${name}` : name);
+
+  const visit = (parent: string | null, depth: number) => {
+    const children = map.routes
+      .filter(r => r.parent === parent || (depth === 0 && r.parent !== null && !known.has(r.parent)))
+      .sort((a, b) => order(a.name).localeCompare(order(b.name)));
+    for (const route of children) {
+      rows.push({
+        file: route.file,
+        label: route.kind === 'layout' && !route.name ? 'app' : route.name,
+        depth,
+        kind: route.kind,
+        pathname: route.pathname,
+        navigator: route.navigator,
+        modal: route.modal,
+      });
+      if (route.kind === 'layout') visit(route.file, depth + 1);
+    }
+  };
+  visit(null, 0);
+
+  const linkSources = [...new Set(map.links.map(l => l.file))].filter(file => !known.has(file)).sort();
+  for (const file of linkSources) {
+    rows.push({ file, label: file, depth: 0, kind: 'file' });
+  }
+  return rows;
+}
+
+const ROW_ICONS = {
+  layout: Layers,
+  screen: FileCode,
+  'not-found': FileQuestion,
+  file: Component,
+} as const;
+
+interface NavigationPanelProps {
+  projectId: string;
+  onClose: () => void;
+  onOpenFile: (path: string) => void;
+}
+
+export function NavigationPanel({ projectId, onClose, onOpenFile }: NavigationPanelProps) {
+  const { showToast } = useToast();
+  const { files } = useProjectStore();
+  const [map, setMap] = useState<RouteMap | null>(null);
+  const [issues, setIssues] = useState<RouteIssue[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  const loadRoutes = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const contents = Object.fromEntries(Object.values(useProjectStore.getState().files).map(f => [f.path, f.content]));
+      const res = await fetch(`/api/projects/${projectId}/routes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ files: contents }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to analyze routes');
+      setMap(data.map);
+      setIssues(data.issues);
+    } catch (error) {
+      console.error('Route map error:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to analyze routes', 'error');
+      setMap({ routes: [], screens: [], links: [] });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId, showToast]);
+
+  useEffect(() => {
+    loadRoutes();
+  }, [loadRoutes]);
+
+  const rows = useMemo(() => (map ? buildRows(map) : []), [map]);
+  const rowIndex = useMemo(() => new Map(rows.map((row, i) => [row.file, i])), [rows]);
+
+  // One arc per linked pair of rows
+  const arcs = useMemo(() => {
+    const seen = new Set<string>();
+    return (map?.links ?? []).flatMap(link => {
+      const from = rowIndex.get(link.file);
+      const to = link.target ? rowIndex.get(link.target) : undefined;
+      const key = `${link.file}→${link.target}`;
+      if (from === undefined || to === undefined || from === to || seen.has(key)) return [];
+      seen.add(key);
+      return [{ key, source: link.file, target: link.target!, from, to }];
+    });
+  }, [map, rowIndex]);
+
+  const issuesByFile = useMemo(() => {
+    const byFile: Record<string, RouteIssue[]> = {};
+    for (const issue of issues) (byFile[issue.file] ??= []).push(issue);
+    return byFile;
+  }, [issues]);
+
+  const openFile = (path: string) => {
+    if (!files[path]) return;
+    onOpenFile(path);
+    onClose();
+  };
+
+  const rowY = (index: number) => index * ROW_HEIGHT + ROW_HEIGHT / 2;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-background border border-border rounded-xl w-full max-w-6xl h-[85vh] p-6 shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <Network size={20} />
+            Navigation Map
+          </h2>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={loadRoutes}
+              disabled={isLoading}
+              className="p-1 hover:bg-accent rounded disabled:opacity-50"
+              title="Re-analyze the current files"
+            >
+              <RefreshCw size={16} className={`text-gray-400 ${isLoading ? 'animate-spin' : ''}`} />
+            </button>
+            <button onClick={onClose} className="p-1 hover:bg-accent rounded">
+              <X size={18} className="text-gray-400" />
+            </button>
+          </div>
+        </div>
+
+        {map === null ? (
+          <div className="flex items-center justify-center gap-2 p-6">
+            <Loader2 size={16} className="animate-spin text-gray-400" />
+            <span className="text-sm text-gray-400">Analyzing routes...</span>
+          </div>
+        ) : map.routes.length === 0 ? (
+          <p className="text-sm text-muted-foreground p-3">
+            No Expo Router routes found. Routes are the files under <span className="font-mono">app/</span>.
+          </p>
+        ) : (
+          <div className="flex flex-1 min-h-0 gap-4">
+            {/* Route tree with links drawn as arcs */}
+            <div className="flex-1 min-w-0 overflow-auto custom-scrollbar border border-border rounded-lg">
+              <div className="relative flex" style={{ height: rows.length * ROW_HEIGHT }}>
+                <div className="flex-1 min-w-0">
+                  {rows.map((row) => {
+                    const Icon = ROW_ICONS[row.kind];
+                    const rowIssues = issuesByFile[row.file] ?? [];
+                    const hasError = rowIssues.some(i => i.severity === 'error');
+                    const isLinked = hovered !== null && arcs.some(a =>
+                      (a.source === hovered && a.target === row.file) || (a.target === hovered && a.source === row.file)
+                    );
+                    return (
+                      <button
+                        key={row.file}
+                        onClick={() => openFile(row.file)}
+                        onMouseEnter={() => setHovered(row.file)}
+                        onMouseLeave={() => setHovered(null)}
+                        className={`w-full flex items-center gap-2 pr-2 text-left transition-colors ${
+                          hovered === row.file ? 'bg-accent' : isLinked ? 'bg-blue-500/10' : 'hover:bg-accent/50'
+                        }`}
+                        style={{ height: ROW_HEIGHT, paddingLeft: row.depth * 16 + 8 }}
+                        title={row.file}
+                      >
+                        <Icon size={14} className={row.kind === 'layout' ? 'text-blue-400' : row.kind === 'file' ? 'text-gray-500' : 'text-gray-400'} />
+                        <span className={`text-[13px] font-mono truncate ${row.kind === 'file' ? 'text-muted-foreground' : 'text-foreground'}`}>
+                          {row.label}
+                        </span>
+                        {row.navigator && (
+                          <span className="text-[10px] px-1.5 rounded bg-blue-500/10 text-blue-400">{row.navigator}</span>
+                        )}
+                        {row.modal && (
+                          <span className="text-[10px] px-1.5 rounded bg-purple-500/10 text-purple-400">modal</span>
+                        )}
+                        {row.pathname && row.kind === 'screen' && (
+                          <span className="text-[11px] font-mono text-muted-foreground truncate">{row.pathname}</span>
+                        )}
+                        {rowIssues.length > 0 && (
+                          <span
+                            className={`ml-auto text-[10px] px-1 rounded ${hasError ? 'bg-red-500/15 text-red-400' : 'bg-amber-500/15 text-amber-400'}`}
+                          >
+                            {rowIssues.length}
+                          </span>
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+
+                <svg width={ARC_WIDTH} height={rows.length * ROW_HEIGHT} className="flex-shrink-0 pointer-events-none">
+                  <defs>
+                    <marker id="nav-arrow" viewBox="0 0 6 6" refX="5" refY="3" markerWidth="6" markerHeight="6" orient="auto">
+                      <path d="M0,0 L6,3 L0,6 z" fill="currentColor" />
+                    </marker>
+                  </defs>
+                  {arcs.map(arc => {
+                    const bulge = Math.min(ARC_WIDTH - 16, 16 + Math.abs(arc.to - arc.from) * 10);
+                    const active = hovered === arc.source || hovered === arc.target;
+                    return (
+                      <path
+                        key={arc.key}
+                        d={`M 4 ${rowY(arc.from)} C ${4 + bulge} ${rowY(arc.from)}, ${4 + bulge} ${rowY(arc.to)}, 4 ${rowY(arc.to)}`}
+                        fill="none"
+                        strokeWidth={active ? 1.5 : 1}
+                        markerEnd="url(#nav-arrow)"
+                        className={active ? 'text-blue-400 stroke-current' : 'text-zinc-600 stroke-current'}
+                      />
+                    );
+                  })}
+                </svg>
+              </div>
+            </div>
+
+            {/* Issues */}
+            <div className="w-80 flex-shrink-0 flex flex-col min-h-0">
+              <h3 className="text-sm font-medium mb-2">
+                {issues.length === 0 ? 'No navigation issues' : `${issues.length} issue(s)`}
+              </h3>
+              <div className="space-y-1.5 overflow-y-auto custom-scrollbar">
+                {issues.map((issue, i) => (
+                  <button
+                    key={`${issue.file}:${issue.line}:${i}`}
+                    onClick={() => openFile(issue.file)}
+                    className="w-full text-left flex items-start gap-2 px-3 py-2 bg-secondary border border-border rounded-lg hover:border-zinc-600 transition-colors"
+                  >
+                    <AlertTriangle
+                      size={14}
+                      className={`mt-0.5 flex-shrink-0 ${issue.severity === 'error' ? 'text-red-400' : 'text-amber-400'}`}
+                    />
+                    <div className="min-w-0">
+                      <p className="text-xs text-foreground">{issue.message}</p>
+                      <p className="text-[11px] font-mono text-muted-foreground truncate">
+                        {issue.file}:{issue.line}
+                      </p>
+                    </div>
+                  </button>
+                ))}
+              </div>
+              <p className="text-[11px] text-muted-foreground mt-3">
+                Arcs are links (Link, Redirect, router.push). Click a route or an issue to open its file.
+              </p>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import dynamic from 'next/dynamic';
+import { Check, X, Loader2, GitCompare, CheckCheck, Trash2, AlertTriangle } from 'lucide-react';
+import { getExpoSdk } from '@rork/shared';
+import { acceptedFiles, isResolved, useReviewStore, type PendingChange } from '@/stores/reviewStore';
+import { useProjectStore } from '@/stores/projectStore';
+import { useToast } from '@/components/ui/Toast';
+import { diffHunks } from '@/lib/diff';
+
+// Dynamic import Monaco to avoid SSR issues
+const DiffEditor = dynamic(
+  () => import('@monaco-editor/react').then(mod => mod.DiffEditor),
+  {
+    ssr: false,
+    loading: () => (
+      <div className="h-full flex items-center justify-center bg-[#0a0a0a] text-gray-500">
+        Loading diff...
+      </div>
+    ),
+  }
+);
+
+function changeStatus(change: PendingChange): 'A' | 'D' | 'M' {
+  if (change.original === null) return 'A';
+  if (change.proposed === null || change.base === null) return 'D';
+  return 'M';
+}
+
+const STATUS_STYLES = { A: 'text-green-400', D: 'text-red-400', M: 'text-amber-400' } as const;
+
+/**
+ * Review view for a staged agent run or an Expo SDK upgrade: a diff per file
+ * with accept/reject per file and per hunk. Only accepted changes are written
+ * to the project.
+ */
+export function ReviewPanel() {
+  const { showToast } = useToast();
+  const { projectId, applyGeneratedFiles, deleteFile, setSdkVersion } = useProjectStore();
+  const {
+    runId,
+    sdkUpgrade,
+    activePath,
+    changes,
+    acceptFile,
+    rejectFile,
+    acceptHunk,
+    rejectHunk,
+    acceptAll,
+    rejectAll,
+    openReview,
+    closeReview,
+    clear,
+  } = useReviewStore();
+  const [isApplying, setIsApplying] = useState(false);
+
+  const paths = Object.keys(changes).sort();
+  const active = activePath ? changes[activePath] : undefined;
+  const unresolvedCount = paths.filter(path => !isResolved(changes[path])).length;
+
+  // Hunks between the accepted state and the remaining proposal (whole-file changes have none)
+  const hunks = useMemo(
+    () => (active?.base != null && active.proposed != null ? diffHunks(active.base, active.proposed) : []),
+    [active?.base, active?.proposed]
+  );
+
+  const submitReview = async (files: Array<{ path: string; content: string | null }>) => {
+    if (!runId && !sdkUpgrade) return;
+    // A discarded upgrade was never stored server-side
+    if (sdkUpgrade && files.length === 0) {
+      clear();
+      showToast('SDK upgrade discarded', 'info');
+      return;
+    }
+
+    setIsApplying(true);
+    try {
+      const res = sdkUpgrade
+        ? await fetch(`/api/projects/${projectId}/sdk-upgrade`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ sdkVersion: sdkUpgrade.to, files }),
+        })
+        : await fetch(`/api/agent/runs/${runId}/review`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ files }),
+        });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to apply changes');
+
+      const written = files.filter((f): f is { path: string; content: string } => f.content !== null);
+      if (written.length > 0) applyGeneratedFiles(written);
+      files.filter(f => f.content === null).forEach(f => deleteFile(f.path));
+      // The preview follows the store's SDK, so it reloads on the new runtime
+      if (sdkUpgrade) setSdkVersion(sdkUpgrade.to);
+      if (files.length > 0) window.dispatchEvent(new CustomEvent('project-files-changed'));
+
+      clear();
+      showToast(
+        sdkUpgrade ? `Upgraded to Expo SDK ${getExpoSdk(sdkUpgrade.to).major} (${files.length} file(s) changed)`
+          : files.length === 0 ? 'Staged changes discarded'
+          : data.pullRequestUrl ? `Applied changes to ${files.length} file(s) and opened a pull request`
+          : `Applied changes to ${files.length} file(s)`,
+        files.length > 0 ? 'success' : 'info'
+      );
+    } catch (error) {
+      console.error('Apply review error:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to apply changes', 'error');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleApply = () => {
+    if (unresolvedCount > 0 && !window.confirm(
+      `${unresolvedCount} file(s) still have unreviewed changes. Apply only what you accepted and discard the rest?`
+    )) return;
+    submitReview(acceptedFiles(changes));
+  };
+
+  const handleDiscard = () => {
+    if (!window.confirm(sdkUpgrade ? 'Discard this SDK upgrade?' : 'Discard every staged change from this run?')) return;
+    submitReview([]);
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-[#0a0a0a]">
+      {/* Header */}
+      <div className="h-10 flex items-center gap-3 px-3 border-b border-[#27272a] flex-shrink-0">
+        <GitCompare size={14} className="text-amber-400" />
+        <span className="text-[13px] text-gray-200">
+          {sdkUpgrade
+            ? `Upgrade to Expo SDK ${getExpoSdk(sdkUpgrade.to).major}`
+            : 'Review changes'}
+          <span className="text-gray-500"> · {paths.length - unresolvedCount}/{paths.length} reviewed</span>
+        </span>
+        <div className="ml-auto flex items-center gap-1">
+          <button
+            onClick={acceptAll}
+            disabled={isApplying}
+            className="flex items-center gap-1 px-2 py-1 text-xs text-gray-400 hover:text-green-400 hover:bg-[#27272a] rounded transition-colors disabled:opacity-50"
+          >
+            <CheckCheck size={13} />
+            Accept all
+          </button>
+          <button
+            onClick={rejectAll}
+            disabled={isApplying}
+            className="flex items-center gap-1 px-2 py-1 text-xs text-gray-400 hover:text-red-400 hover:bg-[#27272a] rounded transition-colors disabled:opacity-50"
+          >
+            <X size={13} />
+            Reject all
+          </button>
+          <button
+            onClick={handleDiscard}
+            disabled={isApplying}
+            className="flex items-center gap-1 px-2 py-1 text-xs text-gray-400 hover:text-white hover:bg-[#27272a] rounded transition-colors disabled:opacity-50"
+          >
+            <Trash2 size={13} />
+            Discard
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={isApplying}
+            className="flex items-center gap-1.5 ml-1 px-3 py-1 bg-white text-black rounded text-xs font-medium hover:bg-gray-200 transition-colors disabled:opacity-50"
+          >
+            {isApplying ? <Loader2 size={13} className="animate-spin" /> : <Check size={13} />}
+            Apply accepted
+          </button>
+          <button
+            onClick={closeReview}
+            className="p-1 ml-1 text-gray-400 hover:text-white hover:bg-[#27272a] rounded transition-colors"
+            title="Back to the editor (changes stay staged)"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      {/* SDK upgrade: verification and what is left to migrate by hand */}
+      {sdkUpgrade && (
+        <div className="max-h-36 overflow-y-auto custom-scrollbar border-b border-[#27272a] bg-[#111113] px-3 py-2 flex-shrink-0 text-xs">
+          {sdkUpgrade.verification && (
+            <div className={`flex items-center gap-1.5 ${sdkUpgrade.verification.success ? 'text-green-400' : 'text-amber-400'}`}>
+              {sdkUpgrade.verification.success ? <Check size={12} /> : <AlertTriangle size={12} />}
+              {sdkUpgrade.verification.success
+                ? `Typecheck and lint pass on SDK ${getExpoSdk(sdkUpgrade.to).major} with every change accepted`
+                : `Typecheck/lint issues remain with every change accepted: ${sdkUpgrade.verification.error?.split('\n')[0] ?? ''}`}
+            </div>
+          )}
+          {sdkUpgrade.notes.map((note, index) => (
+            <button
+              key={`${note.file}-${note.line}-${index}`}
+              onClick={() => openReview(note.file)}
+              className="w-full flex items-start gap-2 mt-1 text-left text-gray-400 hover:text-gray-200"
+            >
+              <span className="font-mono text-gray-500 flex-shrink-0">{note.file}:{note.line}</span>
+              <span>{note.message}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-1 min-h-0">
+        {/* Files */}
+        <div className="w-56 flex-shrink-0 border-r border-[#27272a] overflow-y-auto custom-scrollbar bg-[#111113]">
+          {paths.map((path) => {
+            const change = changes[path];
+            const status = changeStatus(change);
+            return (
+              <button
+                key={path}
+                onClick={() => openReview(path)}
+                className={`w-full flex items-center gap-2 px-3 py-2 text-left text-xs font-mono transition-colors ${
+                  path === activePath ? 'bg-[#27272a] text-white' : 'text-gray-400 hover:bg-[#1e1e21]'
+                }`}
+              >
+                <span className={`w-3 flex-shrink-0 ${STATUS_STYLES[status]}`}>{status}</span>
+                <span className="truncate flex-1">{path}</span>
+                {isResolved(change) && <Check size={12} className="text-green-400 flex-shrink-0" />}
+              </button>
+            );
+          })}
+        </div>
+
+        {/* Diff */}
+        <div className="flex-1 min-w-0 flex flex-col">
+          {active ? (
+            <>
+              <div className="h-9 flex items-center gap-2 px-3 border-b border-[#27272a] bg-[#111113] flex-shrink-0">
+                <span className="text-xs font-mono text-gray-400 truncate">{active.path}</span>
+                {isResolved(active) ? (
+                  <span className="ml-auto text-xs text-green-400">Reviewed</span>
+                ) : (
+                  <div className="ml-auto flex items-center gap-1">
+                    <button
+                      onClick={() => acceptFile(active.path)}
+                      className="flex items-center gap-1 px-2 py-0.5 text-xs text-green-400 hover:bg-green-500/10 rounded transition-colors"
+                    >
+                      <Check size={12} />
+                      Accept file
+                    </button>
+                    <button
+                      onClick={() => rejectFile(active.path)}
+                      className="flex items-center gap-1 px-2 py-0.5 text-xs text-red-400 hover:bg-red-500/10 rounded transition-colors"
+                    >
+                      <X size={12} />
+                      Reject file
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex-1 min-h-0">
+                <DiffEditor
+                  height="100%"
+                  theme="vs-dark"
+                  language={active.language}
+                  original={active.base ?? ''}
+                  modified={active.proposed ?? ''}
+                  options={{ readOnly: true, renderSideBySide: true, minimap: { enabled: false } }}
+                />
+              </div>
+
+              {hunks.length > 0 && (
+                <div className="max-h-40 overflow-y-auto custom-scrollbar border-t border-[#27272a] bg-[#111113] flex-shrink-0">
+                  {hunks.map((hunk, index) => (
+                    <div
+                      key={`${hunk.originalStart}-${hunk.proposedStart}`}
+                      className="flex items-center gap-3 px-3 py-1.5 text-xs border-b border-[#1e1e21] last:border-b-0"
+                    >
+                      <span className="font-mono text-gray-400">
+                        Line {hunk.proposedStart + 1}
+                      </span>
+                      <span className="text-red-400">-{hunk.originalLines.length}</span>
+                      <span className="text-green-400">+{hunk.proposedLines.length}</span>
+                      <span className="flex-1 truncate font-mono text-gray-500">
+                        {(hunk.proposedLines.find(line => line.trim()) ?? hunk.originalLines.find(line => line.trim()) ?? '').trim()}
+                      </span>
+                      <button
+                        onClick={() => acceptHunk(active.path, index)}
+                        className="px-2 py-0.5 text-green-400 hover:bg-green-500/10 rounded transition-colors"
+                      >
+                        Accept
+                      </button>
+                      <button
+                        onClick={() => rejectHunk(active.path, index)}
+                        className="px-2 py-0.5 text-red-400 hover:bg-red-500/10 rounded transition-colors"
+                      >
+                        Reject
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="flex-1 flex items-center justify-center text-sm text-gray-500">
+              Select a file to review its changes
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -11,16 +11,22 @@ import {
   Save,
   Github,
   Smartphone,
-  Loader2,
-  ExternalLink,
-  Check,
-  X,
   ChevronLeft,
   MoreHorizontal,
+  ShieldCheck,
+  History,
+  Package,
+  Network,
 } from 'lucide-react';
 import Link from 'next/link';
 import { useProjectStore } from '@/stores/projectStore';
 import { useToast } from '@/components/ui/Toast';
+import { LintRulesModal } from './LintRulesModal';
+import { HistoryPanel } from './HistoryPanel';
+import { DependenciesPanel } from './DependenciesPanel';
+import { NavigationPanel } from './NavigationPanel';
+import { BuildPanel } from './BuildPanel';
+import { GitHubPanel } from './GitHubPanel';
 
 type ViewMode = 'preview' | 'code';
 
@@ -33,16 +39,16 @@ interface ToolbarProps {
 }
 
 export function Toolbar({ projectId, onSave, onExport, viewMode = 'preview', onViewModeChange }: ToolbarProps) {
-  const { projectName, files } = useProjectStore();
+  const { projectName, files, setActiveFile } = useProjectStore();
   const { showToast } = useToast();
   
   const [showGitHubModal, setShowGitHubModal] = useState(false);
   const [showBuildModal, setShowBuildModal] = useState(false);
   const [showMoreMenu, setShowMoreMenu] = useState(false);
-  const [isGitHubSyncing, setIsGitHubSyncing] = useState(false);
-  const [isBuildTriggering, setIsBuildTriggering] = useState(false);
-  const [gitHubResult, setGitHubResult] = useState<{ repoUrl?: string; commitUrl?: string } | null>(null);
-  const [buildResult, setBuildResult] = useState<{ buildCommand?: string; instructions?: string[] } | null>(null);
+  const [showLintRules, setShowLintRules] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showDependencies, setShowDependencies] = useState(false);
+  const [showNavigation, setShowNavigation] = useState(false);
   
   const hasDirtyFiles = Object.values(files).some(f => f.isDirty);
   
@@ -72,77 +78,6 @@ export function Toolbar({ projectId, onSave, onExport, viewMode = 'preview', onV
     }
   };
   
-  const handleGitHubSync = async () => {
-    setIsGitHubSyncing(true);
-    setGitHubResult(null);
-    
-    try {
-      const filesMap: Record<string, string> = {};
-      Object.values(files).forEach(file => {
-        filesMap[file.path] = file.content;
-      });
-      
-      const response = await fetch('/api/github/sync', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          projectName: projectName || 'rork-app',
-          files: filesMap,
-          commitMessage: `Update from Rork AI - ${new Date().toISOString()}`,
-          isPrivate: true,
-        }),
-      });
-      
-      const data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to sync to GitHub');
-      }
-      
-      setGitHubResult({ repoUrl: data.repoUrl, commitUrl: data.commitUrl });
-      showToast('Synced to GitHub successfully', 'success');
-      
-    } catch (error) {
-      console.error('GitHub sync error:', error);
-      showToast(error instanceof Error ? error.message : 'Failed to sync to GitHub', 'error');
-    } finally {
-      setIsGitHubSyncing(false);
-    }
-  };
-  
-  const handleBuild = async (platform: 'ios' | 'android' | 'all') => {
-    setIsBuildTriggering(true);
-    setBuildResult(null);
-    
-    try {
-      const response = await fetch('/api/eas/build', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          projectId,
-          projectName: projectName || 'rork-app',
-          platform,
-          profile: 'preview',
-        }),
-      });
-      
-      const data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to trigger build');
-      }
-      
-      setBuildResult({ buildCommand: data.buildCommand, instructions: data.instructions });
-      showToast('Build configuration generated', 'success');
-      
-    } catch (error) {
-      console.error('Build error:', error);
-      showToast(error instanceof Error ? error.message : 'Failed to trigger build', 'error');
-    } finally {
-      setIsBuildTriggering(false);
-    }
-  };
-  
   return (
     <>
       <div className="h-14 border-b border-border flex items-center px-4 bg-background relative">
@@ -239,7 +174,7 @@ export function Toolbar({ projectId, onSave, onExport, viewMode = 'preview', onV
                     onClick={() => { setShowGitHubModal(true); setShowMoreMenu(false); }}
                     className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-muted-foreground hover:bg-accent transition-colors"
                   >
-                    <Github size={16} /> Push to GitHub
+                    <Github size={16} /> Sync with GitHub
                   </button>
                   <button
                     onClick={() => { setShowBuildModal(true); setShowMoreMenu(false); }}
@@ -247,6 +182,30 @@ export function Toolbar({ projectId, onSave, onExport, viewMode = 'preview', onV
                   >
                     <Smartphone size={16} /> Build for Mobile
                   </button>
+                  <button
+                    onClick={() => { setShowLintRules(true); setShowMoreMenu(false); }}
+                    className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-muted-foreground hover:bg-accent transition-colors"
+                  >
+                    <ShieldCheck size={16} /> Lint Rules
+                  </button>
+                  <button
+                    onClick={() => { setShowHistory(true); setShowMoreMenu(false); }}
+                    className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-muted-foreground hover:bg-accent transition-colors"
+                  >
+                    <History size={16} /> Version History
+                  </button>
+                  <button
+                    onClick={() => { setShowDependencies(true); setShowMoreMenu(false); }}
+                    className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-muted-foreground hover:bg-accent transition-colors"
+                  >
+                    <Package size={16} /> Dependencies
+                  </button>
+                  <button
+                    onClick={() => { setShowNavigation(true); setShowMoreMenu(false); }}
+                    className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-muted-foreground hover:bg-accent transition-colors"
+                  >
+                    <Network size={16} /> Navigation Map
+                  </button>
                   <div className="h-px bg-border my-1" />
                   <Link
                     href="/dashboard/settings"
@@ -267,215 +226,41 @@ export function Toolbar({ projectId, onSave, onExport, viewMode = 'preview', onV
         </div>
       </div>
       
-      {/* GitHub Modal */}
+      {/* GitHub sync */}
       {showGitHubModal && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
-          <div className="bg-background border border-border rounded-xl w-full max-w-md p-6 shadow-2xl">
-            <div className="flex items-center justify-between mb-4">
-              <h2 className="text-lg font-semibold flex items-center gap-2">
-                <Github size={20} />
-                Push to GitHub
-              </h2>
-              <button 
-                onClick={() => { setShowGitHubModal(false); setGitHubResult(null); }}
-                className="p-1 hover:bg-accent rounded"
-              >
-                <X size={18} className="text-gray-400" />
-              </button>
-            </div>
-            
-            {gitHubResult ? (
-              <div className="space-y-4">
-                <div className="flex items-center gap-3 p-4 bg-green-500/10 border border-green-500/30 rounded-lg">
-                  <Check size={20} className="text-green-400" />
-                  <span className="text-green-400 font-medium">Successfully pushed to GitHub!</span>
-                </div>
-                
-                <div className="space-y-2">
-                  <a 
-                    href={gitHubResult.repoUrl}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="flex items-center justify-between p-3 bg-secondary border border-border rounded-lg hover:border-zinc-600 transition-colors"
-                  >
-                    <span className="text-sm text-muted-foreground">View Repository</span>
-                    <ExternalLink size={14} className="text-muted-foreground" />
-                  </a>
-                  
-                  {gitHubResult.commitUrl && (
-                    <a 
-                      href={gitHubResult.commitUrl}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="flex items-center justify-between p-3 bg-secondary border border-border rounded-lg hover:border-zinc-600 transition-colors"
-                    >
-                      <span className="text-sm text-muted-foreground">View Commit</span>
-                      <ExternalLink size={14} className="text-muted-foreground" />
-                    </a>
-                  )}
-                </div>
-                
-                <button
-                  onClick={() => { setShowGitHubModal(false); setGitHubResult(null); }}
-                  className="w-full py-2 bg-accent text-foreground rounded-lg text-sm font-medium hover:bg-secondary transition-colors"
-                >
-                  Done
-                </button>
-              </div>
-            ) : (
-              <div className="space-y-4">
-                <p className="text-sm text-muted-foreground">
-                  This will create or update a GitHub repository with your project files.
-                </p>
-                
-                <div className="p-3 bg-secondary border border-border rounded-lg">
-                  <p className="text-sm text-muted-foreground">
-                    <span className="text-muted-foreground">Repository:</span> {projectName || 'rork-app'}
-                  </p>
-                  <p className="text-sm text-muted-foreground mt-1">
-                    <span className="text-muted-foreground">Files:</span> {Object.keys(files).length} files
-                  </p>
-                </div>
-                
-                <div className="flex gap-3">
-                  <button
-                    onClick={() => setShowGitHubModal(false)}
-                    className="flex-1 py-2 border border-border text-muted-foreground rounded-lg text-sm font-medium hover:bg-accent transition-colors"
-                  >
-                    Cancel
-                  </button>
-                  <button
-                    onClick={handleGitHubSync}
-                    disabled={isGitHubSyncing}
-                    className="flex-1 py-2 bg-white text-black rounded-lg text-sm font-medium hover:bg-gray-200 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
-                  >
-                    {isGitHubSyncing ? (
-                      <>
-                        <Loader2 size={14} className="animate-spin" />
-                        Syncing...
-                      </>
-                    ) : (
-                      <>
-                        <Github size={14} />
-                        Push to GitHub
-                      </>
-                    )}
-                  </button>
-                </div>
-              </div>
-            )}
-          </div>
-        </div>
+        <GitHubPanel
+          projectId={projectId}
+          onClose={() => setShowGitHubModal(false)}
+          onOpenFile={(path) => { setActiveFile(path); onViewModeChange?.('code'); }}
+        />
+      )}
+      
+      {/* Lint Rules Modal */}
+      {showLintRules && (
+        <LintRulesModal projectId={projectId} onClose={() => setShowLintRules(false)} />
+      )}
+      
+      {/* Version History */}
+      {showHistory && (
+        <HistoryPanel projectId={projectId} onClose={() => setShowHistory(false)} />
+      )}
+      
+      {/* Dependencies */}
+      {showDependencies && (
+        <DependenciesPanel onClose={() => setShowDependencies(false)} />
+      )}
+      
+      {/* Navigation Map */}
+      {showNavigation && (
+        <NavigationPanel
+          projectId={projectId}
+          onClose={() => setShowNavigation(false)}
+          onOpenFile={(path) => { setActiveFile(path); onViewModeChange?.('code'); }}
+        />
       )}
       
-      {/* Build Modal */}
       {showBuildModal && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
-          <div className="bg-background border border-border rounded-xl w-full max-w-lg p-6 shadow-2xl">
-            <div className="flex items-center justify-between mb-4">
-              <h2 className="text-lg font-semibold flex items-center gap-2">
-                <Smartphone size={20} />
-                Build for Mobile
-              </h2>
-              <button 
-                onClick={() => { setShowBuildModal(false); setBuildResult(null); }}
-                className="p-1 hover:bg-accent rounded"
-              >
-                <X size={18} className="text-gray-400" />
-              </button>
-            </div>
-            
-            {buildResult ? (
-              <div className="space-y-4">
-                <div className="flex items-center gap-3 p-4 bg-green-500/10 border border-green-500/30 rounded-lg">
-                  <Check size={20} className="text-green-400" />
-                  <span className="text-green-400 font-medium">Build configuration generated!</span>
-                </div>
-                
-                <div className="p-3 bg-secondary border border-border rounded-lg">
-                  <p className="text-xs text-muted-foreground mb-2">Run this command:</p>
-                  <code className="text-sm text-green-400 font-mono">{buildResult.buildCommand}</code>
-                </div>
-                
-                {buildResult.instructions && (
-                  <div className="space-y-2">
-                    <p className="text-sm font-medium text-muted-foreground">Instructions:</p>
-                    <ol className="text-sm text-muted-foreground space-y-1">
-                      {buildResult.instructions.map((instruction, i) => (
-                        <li key={i}>{instruction}</li>
-                      ))}
-                    </ol>
-                  </div>
-                )}
-                
-                <button
-                  onClick={() => { setShowBuildModal(false); setBuildResult(null); }}
-                  className="w-full py-2 bg-accent text-foreground rounded-lg text-sm font-medium hover:bg-secondary transition-colors"
-                >
-                  Done
-                </button>
-              </div>
-            ) : (
-              <div className="space-y-4">
-                <p className="text-sm text-muted-foreground">
-                  Generate a build for iOS, Android, or both platforms using Expo EAS.
-                </p>
-                
-                <div className="grid grid-cols-3 gap-3">
-                  <button
-                    onClick={() => handleBuild('ios')}
-                    disabled={isBuildTriggering}
-                    className="p-4 bg-secondary border border-border rounded-lg hover:border-zinc-600 transition-colors disabled:opacity-50"
-                  >
-                    <div className="text-2xl mb-2">🍎</div>
-                    <p className="text-sm font-medium">iOS</p>
-                    <p className="text-xs text-muted-foreground">iPhone & iPad</p>
-                  </button>
-                  
-                  <button
-                    onClick={() => handleBuild('android')}
-                    disabled={isBuildTriggering}
-                    className="p-4 bg-secondary border border-border rounded-lg hover:border-zinc-600 transition-colors disabled:opacity-50"
-                  >
-                    <div className="text-2xl mb-2">🤖</div>
-                    <p className="text-sm font-medium">Android</p>
-                    <p className="text-xs text-muted-foreground">Phone & Tablet</p>
-                  </button>
-                  
-                  <button
-                    onClick={() => handleBuild('all')}
-                    disabled={isBuildTriggering}
-                    className="p-4 bg-secondary border border-border rounded-lg hover:border-zinc-600 transition-colors disabled:opacity-50"
-                  >
-                    <div className="text-2xl mb-2">📱</div>
-                    <p className="text-sm font-medium">Both</p>
-                    <p className="text-xs text-muted-foreground">iOS & Android</p>
-                  </button>
-                </div>
-                
-                {isBuildTriggering && (
-                  <div className="flex items-center justify-center gap-2 p-4">
-                    <Loader2 size={16} className="animate-spin text-gray-400" />
-                    <span className="text-sm text-gray-400">Generating build configuration...</span>
-                  </div>
-                )}
-                
-                <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg">
-                  <p className="text-xs text-amber-400">
-                    Note: You need an Expo account and EAS CLI installed. Add your Expo token in Settings.
-                  </p>
-                </div>
-                
-                <button
-                  onClick={() => setShowBuildModal(false)}
-                  className="w-full py-2 border border-border text-muted-foreground rounded-lg text-sm font-medium hover:bg-accent transition-colors"
-                >
-                  Cancel
-                </button>
-              </div>
-            )}
-          </div>
-        </div>
+        <BuildPanel projectId={projectId} onClose={() => setShowBuildModal(false)} />
       )}
     </>
   );
@@ -3,6 +3,7 @@
 import { useRef, useState, useCallback, useEffect } from 'react';
 import { Snack, SnackFiles, isModulePreloaded } from 'snack-sdk';
 import type { SnackState } from 'snack-sdk';
+import { DEFAULT_EXPO_SDK_VERSION, getDependencyVersion, getExpoSdk, type ExpoSdk, type ExpoSdkVersion } from '@rork/shared';
 
 interface DepState {
   handle?: unknown;
@@ -45,34 +46,15 @@ function collectDepErrors(state: SnackState): string | null {
     : null;
 }
 
-const DEFAULT_SDK_VERSION = '52.0.0';
-
 /**
- * Known-good dependency versions for Expo SDK 52 in the Snack environment.
- * AI models frequently hallucinate wrong version numbers. This map overrides
- * whatever version the AI puts in package.json with a version Snackager can resolve.
+ * The version Snack should install for a dependency. AI models frequently
+ * hallucinate version numbers, so allow-listed packages get the version the
+ * SDK pins (see getDependencyVersion); packages Snack preloads resolve at any
+ * version.
  */
-const SDK52_VERSION_MAP: Record<string, string> = {
-  'expo-image': '~2.0.0',
-  'expo-blur': '~14.0.0',
-  'expo-haptics': '~14.0.0',
-  'expo-linear-gradient': '~14.0.0',
-  'expo-status-bar': '~2.0.0',
-  'expo-constants': '~17.0.0',
-  'expo-font': '~13.0.0',
-  'expo-linking': '~7.0.0',
-  'expo-clipboard': '~7.0.0',
-  'expo-router': '~4.0.0',
-  '@expo/vector-icons': '*',
-  'react-native-safe-area-context': '*',
-  'react-native-reanimated': '*',
-  'react-native-gesture-handler': '*',
-  'react-native-screens': '*',
-  '@react-native-async-storage/async-storage': '~2.1.0',
-};
-
-function resolveVersion(name: string, aiVersion: string): string {
-  return SDK52_VERSION_MAP[name] ?? aiVersion;
+function resolveVersion(sdk: ExpoSdk, name: string, aiVersion: string): string {
+  if (sdk.snackPreloaded.includes(name)) return '*';
+  return getDependencyVersion(sdk, name) ?? aiVersion;
 }
 
 function parseDependencies(packageJsonContent: string): Record<string, string> {
@@ -94,7 +76,8 @@ const RETRY_DELAYS = [5000, 10000, 15000];
  * The caller must explicitly call `goOnline()` when there are real files to preview
  * (after agent completes or after loading a project with existing files).
  */
-export function useSnack() {
+export function useSnack(sdkVersion: ExpoSdkVersion = DEFAULT_EXPO_SDK_VERSION) {
+  const sdkRef = useRef(getExpoSdk(sdkVersion));
   const webPreviewRef = useRef<Window | null>(null);
   const snackRef = useRef<Snack | null>(null);
   const isInitializedRef = useRef(false);
@@ -121,7 +104,7 @@ export function useSnack() {
     if (snackRef.current) return snackRef.current;
 
     const snack = new Snack({
-      sdkVersion: DEFAULT_SDK_VERSION,
+      sdkVersion: sdkRef.current.version,
       files: {
         'App.tsx': {
           type: 'CODE',
@@ -243,6 +226,25 @@ const styles = StyleSheet.create({
     };
   }, [ensureSnackInstance]);
 
+  /**
+   * Follow the project's SDK (known only once it loads, after the instance
+   * exists): switch the runtime and re-pin dependencies for the new SDK.
+   */
+  useEffect(() => {
+    const sdk = getExpoSdk(sdkVersion);
+    if (sdkRef.current.version === sdk.version) return;
+    sdkRef.current = sdk;
+
+    const snack = snackRef.current;
+    if (!snack) return;
+    snack.setSDKVersion(sdk.version);
+    const snackDeps: Record<string, { version: string }> = {};
+    for (const [name, dep] of Object.entries(snack.getState().dependencies)) {
+      snackDeps[name] = { version: resolveVersion(sdk, name, dep.version) };
+    }
+    if (Object.keys(snackDeps).length > 0) snack.updateDependencies(snackDeps);
+  }, [sdkVersion]);
+
   /**
    * Internal: attempt to go online with retry logic.
    * Does NOT reset retryCountRef — that's the caller's responsibility.
@@ -398,7 +400,7 @@ const styles = StyleSheet.create({
       const snackDeps: Record<string, { version: string }> = {};
       for (const [name, version] of Object.entries(depsToSync)) {
         if (name === 'react' || name === 'react-native' || name === 'react-dom') continue;
-        snackDeps[name] = { version: resolveVersion(name, version) };
+        snackDeps[name] = { version: resolveVersion(sdkRef.current, name, version) };
       }
       if (Object.keys(snackDeps).length > 0) {
         snack.updateDependencies(snackDeps);
@@ -427,7 +429,7 @@ const styles = StyleSheet.create({
 
     const snackDeps: Record<string, { version: string }> = {};
     for (const [name, version] of Object.entries(deps)) {
-      snackDeps[name] = { version: resolveVersion(name, version) };
+      snackDeps[name] = { version: resolveVersion(sdkRef.current, name, version) };
     }
     snack.updateDependencies(snackDeps);
   }, [ensureSnackInstance]);
@@ -0,0 +1,31 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { hasBearerSecret } from '@/lib/admin-auth';
+
+function requestWith(authorization?: string): NextRequest {
+  return new NextRequest('http://localhost/api/admin/token-vault', {
+    headers: authorization === undefined ? {} : { authorization },
+  });
+}
+
+describe('hasBearerSecret', () => {
+  it('accepts the configured secret', () => {
+    expect(hasBearerSecret(requestWith('Bearer s3cret-token'), 's3cret-token')).toBe(true);
+    expect(hasBearerSecret(requestWith('bearer s3cret-token'), 's3cret-token')).toBe(true);
+  });
+
+  it('rejects a missing or different token', () => {
+    expect(hasBearerSecret(requestWith(), 's3cret-token')).toBe(false);
+    expect(hasBearerSecret(requestWith('Bearer s3cret-tokem'), 's3cret-token')).toBe(false);
+    expect(hasBearerSecret(requestWith('Bearer s3cret'), 's3cret-token')).toBe(false);
+  });
+
+  it('rejects a non-ASCII token of the same length without throwing', () => {
+    expect(hasBearerSecret(requestWith('Bearer sécret'), 'secret')).toBe(false);
+  });
+
+  it('rejects everything when no secret is configured', () => {
+    expect(hasBearerSecret(requestWith('Bearer '), undefined)).toBe(false);
+    expect(hasBearerSecret(requestWith('Bearer '), '')).toBe(false);
+  });
+});
@@ -0,0 +1,18 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import type { NextRequest } from 'next/server';
+
+function sha256(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Whether the request carries `Authorization: Bearer <secret>`, compared in
+ * constant time. Always false when the secret isn't configured, so admin
+ * routes stay closed by default.
+ */
+export function hasBearerSecret(request: NextRequest, secret: string | undefined): boolean {
+  const provided = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+  if (!secret) return false;
+  // Digests have the same length whatever the input, so the length of the secret doesn't leak either
+  return timingSafeEqual(sha256(provided), sha256(secret));
+}
@@ -0,0 +1,59 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import {
+  parseCassette,
+  RecordingAgentModel,
+  ReplayAgentModel,
+  serializeCassette,
+  type AgentModel,
+  type AgentModelCassette,
+} from '@ai-engine/core';
+
+/**
+ * Development hooks for recording agent runs to JSON cassettes and
+ * replaying them offline:
+ *
+ * - AGENT_CASSETTE_RECORD_DIR: every run's model turns are written to
+ *   `<dir>/<run id>.json` as they happen (a resumed run keeps appending)
+ * - AGENT_CASSETTE_REPLAY: path of a cassette every run is served from
+ *   instead of a real model; no API key is needed
+ */
+
+/** A model that serves every request from the cassette at `file` */
+export async function replayCassette(file: string): Promise<AgentModel> {
+  return new ReplayAgentModel(parseCassette(await readFile(file, 'utf-8')));
+}
+
+/**
+ * Wrap `model` to write its turns to `file` as they happen. With `resume`,
+ * an existing cassette there is appended to instead of replaced.
+ */
+export async function recordCassette(model: AgentModel, file: string, resume = false): Promise<AgentModel> {
+  await mkdir(path.dirname(file), { recursive: true });
+  let cassette: AgentModelCassette | undefined;
+  if (resume) {
+    try {
+      const existing = parseCassette(await readFile(file, 'utf-8'));
+      if (existing.kind === 'agent-model') cassette = existing;
+    } catch {
+      // First request of the run: start a new cassette
+    }
+  }
+
+  return new RecordingAgentModel(model, {
+    cassette,
+    onRecord: (updated) => writeFile(file, serializeCassette(updated)),
+  });
+}
+
+/** The replay model when AGENT_CASSETTE_REPLAY is set, else null */
+export async function loadReplayModel(): Promise<AgentModel | null> {
+  const file = process.env.AGENT_CASSETTE_REPLAY;
+  return file ? replayCassette(file) : null;
+}
+
+/** Wrap `model` to record the run's turns when AGENT_CASSETTE_RECORD_DIR is set */
+export async function recordRunCassette(model: AgentModel, runId: string): Promise<AgentModel> {
+  const dir = process.env.AGENT_CASSETTE_RECORD_DIR;
+  return dir ? recordCassette(model, path.join(dir, `${runId}.json`), true) : model;
+}
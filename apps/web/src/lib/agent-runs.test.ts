@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { AgentRun } from '@rork/shared';
+import { cancelIdleAgentRun, claimAgentRun } from '@/lib/agent-runs';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { createFakeSupabase, type FakeRow } from '@/test/fake-supabase';
+
+vi.mock('@/lib/supabase/admin', () => ({ createAdminClient: vi.fn() }));
+
+const STALE = new Date(Date.now() - 60_000).toISOString();
+
+function agentRun(overrides: Partial<AgentRun> = {}): AgentRun {
+  const file = { path: 'app/index.tsx', content: 'export default function Home() { return null; }\n', language: 'typescript' };
+  return {
+    id: 'run-1',
+    project_id: 'project-1',
+    user_id: 'user-1',
+    status: 'running',
+    prompt: 'A home screen',
+    agent_mode: 'build',
+    model: 'claude',
+    plan: null,
+    iteration: 3,
+    written_files: { [file.path]: file },
+    changes: [{ path: file.path, action: 'created' }],
+    summary: null,
+    error: null,
+    cancel_requested: false,
+    staged: false,
+    review_status: null,
+    github_pr_url: null,
+    key_source: 'server',
+    heartbeat_at: STALE,
+    created_at: '',
+    updated_at: '',
+    ...overrides,
+  };
+}
+
+/** Tables holding `run`, with two events already logged */
+function runTables(run: AgentRun): Record<string, FakeRow[]> {
+  return {
+    agent_runs: [{ ...run }],
+    agent_run_events: [
+      { run_id: run.id, seq: 1, event: { type: 'phase' } },
+      { run_id: run.id, seq: 2, event: { type: 'file_created' } },
+    ],
+    project_versions: [{ id: 'version-1', run_id: run.id, kind: 'agent_run' }],
+    project_files: [],
+    messages: [],
+  };
+}
+
+/** A client over `tables`, also serving as the service-role client for the event log */
+function fakeClients(tables: Record<string, FakeRow[]>) {
+  const supabase = createFakeSupabase(tables);
+  vi.mocked(createAdminClient).mockReturnValue(supabase as unknown as ReturnType<typeof createAdminClient>);
+  return supabase;
+}
+
+describe('claimAgentRun', () => {
+  it('resumes an interrupted run', async () => {
+    const run = agentRun();
+    const tables = runTables(run);
+
+    const claimed = await claimAgentRun(createFakeSupabase(tables), run);
+    expect(claimed?.status).toBe('running');
+    expect(claimed?.heartbeat_at).not.toBe(STALE);
+  });
+
+  it('refuses a run with a cancellation requested', async () => {
+    for (const status of ['running', 'paused'] as const) {
+      const run = agentRun({ status, cancel_requested: true });
+      const tables = runTables(run);
+
+      expect(await claimAgentRun(createFakeSupabase(tables), run)).toBeNull();
+      expect(tables.agent_runs[0]).toMatchObject({ status, heartbeat_at: STALE });
+    }
+  });
+});
+
+describe('cancelIdleAgentRun', () => {
+  it('finalizes a running run whose worker died, keeping its files', async () => {
+    const run = agentRun({ cancel_requested: true });
+    const tables = runTables(run);
+
+    expect(await cancelIdleAgentRun(fakeClients(tables), run)).toBe(true);
+
+    expect(tables.agent_runs[0]).toMatchObject({ status: 'cancelled', summary: expect.stringContaining('Run cancelled after 3 iterations') });
+    expect(tables.agent_run_events.map((row) => [row.seq, (row.event as { type: string }).type])).toEqual([
+      [1, 'phase'],
+      [2, 'file_created'],
+      [3, 'cancelled'],
+      [4, 'agent_complete'],
+    ]);
+    expect(tables.agent_run_events[3].event).toMatchObject({ success: true, versionId: 'version-1' });
+    expect(tables.project_files).toEqual([{ project_id: 'project-1', ...run.written_files['app/index.tsx'] }]);
+    expect(tables.messages).toEqual([expect.objectContaining({ role: 'assistant', status: 'cancelled', version_id: 'version-1' })]);
+  });
+
+  it('finalizes a paused run', async () => {
+    const run = agentRun({ status: 'paused', heartbeat_at: new Date().toISOString(), cancel_requested: true });
+    const tables = runTables(run);
+
+    expect(await cancelIdleAgentRun(fakeClients(tables), run)).toBe(true);
+    expect(tables.agent_runs[0].status).toBe('cancelled');
+  });
+
+  it('leaves a run with a live worker to stop by itself', async () => {
+    const run = agentRun({ heartbeat_at: new Date().toISOString(), cancel_requested: true });
+    const tables = runTables(run);
+
+    expect(await cancelIdleAgentRun(fakeClients(tables), run)).toBe(false);
+    expect(tables.agent_runs[0].status).toBe('running');
+    expect(tables.agent_run_events).toHaveLength(2);
+  });
+
+  it('leaves a run another request took over first', async () => {
+    const run = agentRun({ cancel_requested: true });
+    const tables = runTables(run);
+    tables.agent_runs[0].heartbeat_at = new Date().toISOString();
+
+    expect(await cancelIdleAgentRun(fakeClients(tables), run)).toBe(false);
+    expect(tables.agent_runs[0].status).toBe('running');
+  });
+});
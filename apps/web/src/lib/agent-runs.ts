@@ -0,0 +1,945 @@
+import {
+  RorkAgent,
+  createAgentModel,
+  buildConversationContext,
+  runChecks,
+  fixProject,
+  type ToolExecutor,
+  type ToolResult,
+  type ProjectCheck,
+  type CreatePlanInput,
+  type WriteFileInput,
+  type PatchFileInput,
+  type SearchFilesInput,
+  type VerifyProjectInput,
+  type DeleteFileInput,
+  type MoveFileInput,
+  type AddDependencyInput,
+  type RemoveDependencyInput,
+  type ReadFileInput,
+  type ListFilesInput,
+  type RunTestInput,
+  type FixErrorInput,
+  type CompleteInput,
+  type AgentEvent,
+  type AgentFileChange,
+  type AgentMode,
+  type AgentModel,
+  type AppPlan,
+} from '@ai-engine/core';
+import {
+  dependencyError,
+  findImportedPackages,
+  getDependencyVersion,
+  getExpoSdk,
+  removeDependency,
+  setDependency,
+  type AgentRun,
+  type AgentRunStatus,
+  type ModelId,
+  type ModelKeySource,
+} from '@rork/shared';
+import { loadReplayModel, recordRunCassette } from '@/lib/agent-cassettes';
+import { openRunPullRequest } from '@/lib/github-sync';
+import { getLanguageFromPath } from '@/lib/language';
+import { resolveModel, unavailableModelError } from '@/lib/model-keys';
+import { createAdminClient } from '@/lib/supabase/admin';
+import type { createClient } from '@/lib/supabase/server';
+import { createProjectVersion, getRunVersionId } from '@/lib/project-versions';
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+export interface ProjectFileRecord {
+  path: string;
+  content: string;
+  language: string;
+}
+
+/** Sends one event to the connected client; `seq` is the SSE event id */
+export type RunEventSink = (seq: number, event: unknown) => void;
+
+// Stored turns considered for conversation memory, and their token budget
+const HISTORY_MESSAGE_LIMIT = 40;
+const HISTORY_TOKEN_BUDGET = 6000;
+
+// Work done per request before the run pauses, leaving headroom under maxDuration (300s)
+export const RUN_TIME_BUDGET_MS = 240_000;
+
+// Heartbeat cadence, and the age after which a 'running' run counts as interrupted
+const HEARTBEAT_INTERVAL_MS = 5_000;
+const STALE_HEARTBEAT_MS = 45_000;
+
+const MAX_ITERATIONS = 40;
+
+export const AGENT_MODE_LABELS: Record<AgentMode, string> = { plan: 'Plan', build: 'Agent', edit: 'Edit' };
+
+export function isAgentMode(value: unknown): value is AgentMode {
+  return Object.keys(AGENT_MODE_LABELS).includes(value as string);
+}
+
+export const TERMINAL_RUN_STATUSES: AgentRunStatus[] = ['complete', 'failed', 'cancelled'];
+
+/** Format one SSE frame; events with an id can be replayed via Last-Event-ID */
+export function formatSSE(data: unknown, seq?: number): string {
+  return `${seq !== undefined ? `id: ${seq}\n` : ''}data: ${JSON.stringify(data)}\n\n`;
+}
+
+/** Whether no worker is currently executing the run, so another request may take it over */
+export function isRunResumable(run: AgentRun): boolean {
+  if (run.status === 'paused') return true;
+  if (run.status !== 'running') return false;
+  return Date.now() - new Date(run.heartbeat_at).getTime() > STALE_HEARTBEAT_MS;
+}
+
+/**
+ * Create the run row, the user's chat message and the version the run can
+ * be reverted to
+ */
+export async function createAgentRun(
+  supabase: SupabaseServerClient,
+  params: { projectId: string; userId: string; prompt: string; agentMode: AgentMode; model: string; staged?: boolean }
+): Promise<AgentRun> {
+  const { data: run, error } = await supabase
+    .from('agent_runs')
+    .insert({
+      project_id: params.projectId,
+      user_id: params.userId,
+      prompt: params.prompt,
+      agent_mode: params.agentMode,
+      model: params.model,
+      staged: params.staged ?? false,
+      status: 'running',
+      heartbeat_at: new Date().toISOString(),
+    })
+    .select('*')
+    .single();
+
+  if (error || !run) {
+    throw new Error(`Failed to create agent run: ${error?.message ?? 'unknown error'}`);
+  }
+
+  const { data: userMsg, error: userMsgErr } = await supabase
+    .from('messages')
+    .insert({
+      project_id: params.projectId,
+      role: 'user',
+      content: `[${AGENT_MODE_LABELS[params.agentMode] ?? 'Agent'} Mode] ${params.prompt}`,
+      model: params.model,
+    })
+    .select('id')
+    .single();
+  if (userMsgErr) console.error('Failed to save user message:', userMsgErr);
+
+  // Checkpoint the project before the run changes anything
+  try {
+    await createProjectVersion(supabase, {
+      projectId: params.projectId,
+      userId: params.userId,
+      kind: 'agent_run',
+      label: params.prompt,
+      messageId: userMsg?.id ?? null,
+      runId: run.id,
+    });
+  } catch (versionErr) {
+    console.error('Failed to snapshot project before agent run:', versionErr);
+  }
+
+  return run as AgentRun;
+}
+
+/**
+ * Take over a paused or interrupted run. The update only matches while the
+ * row is unchanged, so two reconnecting clients cannot both resume it. A run
+ * with a cancellation requested is never resumed (see cancelIdleAgentRun).
+ */
+export async function claimAgentRun(supabase: SupabaseServerClient, run: AgentRun): Promise<AgentRun | null> {
+  const { data } = await supabase
+    .from('agent_runs')
+    .update({ status: 'running', heartbeat_at: new Date().toISOString() })
+    .eq('id', run.id)
+    .eq('status', run.status)
+    .eq('heartbeat_at', run.heartbeat_at)
+    .eq('cancel_requested', false)
+    .select('*')
+    .maybeSingle();
+
+  return (data as AgentRun | null) ?? null;
+}
+
+/**
+ * Cancel a run no worker is executing (paused, or running with a stale
+ * heartbeat): take it over the way claimAgentRun does, record the
+ * cancellation and finalize it, keeping the files written so far. False when
+ * the run isn't idle or another request took it over first; a worker stops
+ * by itself once it sees cancel_requested.
+ */
+export async function cancelIdleAgentRun(supabase: SupabaseServerClient, run: AgentRun): Promise<boolean> {
+  if (!isRunResumable(run)) return false;
+
+  const { data: taken } = await supabase
+    .from('agent_runs')
+    .update({ heartbeat_at: new Date().toISOString() })
+    .eq('id', run.id)
+    .eq('status', run.status)
+    .eq('heartbeat_at', run.heartbeat_at)
+    .select('id')
+    .maybeSingle();
+  if (!taken) return false;
+
+  const versionId = run.changes.length > 0 ? await getRunVersionId(supabase, run.id) : null;
+  const summary = `Run cancelled after ${run.iteration} iterations. Kept ${run.changes.length} file changes:\n${formatChanges(run.changes)}`;
+  await appendRunEvents(supabase, run.id, [
+    { type: 'cancelled', phase: 'cancelled', message: 'Run cancelled', changes: run.changes },
+    { type: 'agent_complete', success: true, files: Object.values(run.written_files), changes: run.changes, summary, versionId },
+  ]);
+  await finalizeAgentRun(supabase, run, {
+    status: 'cancelled',
+    summary,
+    files: run.written_files,
+    changes: run.changes,
+    plan: run.plan,
+    versionId,
+  });
+  return true;
+}
+
+/** Persisted events after `afterSeq`, oldest first */
+export async function readRunEvents(
+  supabase: SupabaseServerClient,
+  runId: string,
+  afterSeq: number
+): Promise<Array<{ seq: number; event: unknown }>> {
+  const { data, error } = await supabase
+    .from('agent_run_events')
+    .select('seq, event')
+    .eq('run_id', runId)
+    .gt('seq', afterSeq)
+    .order('seq', { ascending: true });
+
+  if (error) console.error('Failed to read agent run events:', error);
+  return data ?? [];
+}
+
+/**
+ * Append events to a run's log outside of a worker (e.g. when cancelling an
+ * idle run). Users can only read the log, so it is written with the service
+ * role; callers must have checked the run belongs to the user.
+ */
+export async function appendRunEvents(
+  supabase: SupabaseServerClient,
+  runId: string,
+  events: unknown[]
+): Promise<void> {
+  const { data: lastEvent } = await supabase
+    .from('agent_run_events')
+    .select('seq')
+    .eq('run_id', runId)
+    .order('seq', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  const start = lastEvent?.seq ?? 0;
+
+  const { error } = await createAdminClient()
+    .from('agent_run_events')
+    .insert(events.map((event, index) => ({ run_id: runId, seq: start + index + 1, event })));
+  if (error) console.error('Failed to save agent run events:', error);
+}
+
+/**
+ * Execute (or resume) a run within this request's time budget. Every event
+ * is persisted with a sequence number and forwarded to `sink`; progress is
+ * checkpointed each iteration. When the budget runs out the run is paused
+ * for the next request to resume.
+ */
+export async function executeAgentRun(
+  supabase: SupabaseServerClient,
+  run: AgentRun,
+  options: { sink: RunEventSink; existingFiles?: Record<string, string> }
+): Promise<void> {
+  const { sink } = options;
+
+  // ── Event log (read-only for users, so written with the service role) ──
+  const eventLog = createAdminClient();
+  const { data: lastEvent } = await supabase
+    .from('agent_run_events')
+    .select('seq')
+    .eq('run_id', run.id)
+    .order('seq', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  let seq = lastEvent?.seq ?? 0;
+
+  // Writes are chained so events and checkpoints land in order
+  let writes: Promise<unknown> = Promise.resolve();
+  const enqueueWrite = (write: () => PromiseLike<{ error: unknown }>, label: string): void => {
+    writes = writes.then(async () => {
+      const { error } = await write();
+      if (error) console.error(`Failed to save ${label}:`, error);
+    });
+  };
+  const record = (event: unknown): void => {
+    seq++;
+    const eventSeq = seq;
+    sink(eventSeq, event);
+    enqueueWrite(() => eventLog.from('agent_run_events').insert({ run_id: run.id, seq: eventSeq, event }), 'agent run event');
+  };
+
+  // ── Project state ──
+  const { data: project } = await supabase
+    .from('projects')
+    .select('id, lint_rules, sdk_version')
+    .eq('id', run.project_id)
+    .single();
+  const lintRules: Record<string, boolean> = project?.lint_rules ?? {};
+  const sdkVersion: string | undefined = project?.sdk_version ?? undefined;
+
+  const existingFiles = options.existingFiles ?? await loadProjectFiles(supabase, run.project_id);
+
+  // Files written by this run so far (restored when resuming)
+  const projectFiles: Record<string, ProjectFileRecord> = { ...(run.written_files ?? {}) };
+  // Paths this run deleted or moved away
+  const deletedPaths = new Set(removedPaths(run.changes ?? []));
+  const resuming = run.iteration > 0 || Object.keys(projectFiles).length > 0 || deletedPaths.size > 0;
+  const agentFiles = collectAllFiles(projectFiles, existingFiles, deletedPaths);
+
+  // The user's own key when they saved one, else the server's (or a configured
+  // endpoint); a replayed cassette needs no key
+  let model: AgentModel | null = null;
+  let keySource: ModelKeySource = 'server';
+  let keyError = unavailableModelError(run.model as ModelId);
+  try {
+    model = await loadReplayModel();
+    if (!model) {
+      const modelKey = await resolveModel(supabase, run.user_id, run.model as ModelId, 'agent-run');
+      if (modelKey) {
+        keySource = modelKey.source;
+        model = await recordRunCassette(createAgentModel(modelKey.type, modelKey.apiKey, modelKey.config), run.id);
+      }
+    }
+  } catch (error) {
+    console.error('Failed to load model:', error);
+    keyError = error instanceof Error ? error.message : 'Failed to load model';
+  }
+  if (!model) {
+    record({ type: 'error', error: keyError });
+    await writes;
+    await updateRun(supabase, run.id, { status: 'failed', error: keyError });
+    return;
+  }
+  if (keySource !== run.key_source) {
+    run = { ...run, key_source: keySource };
+    await updateRun(supabase, run.id, { key_source: keySource });
+  }
+
+  // Conversation memory; this run's own prompt is the trailing unanswered turn and is dropped
+  const { data: storedMessages, error: historyErr } = await supabase
+    .from('messages')
+    .select('role, content, files_changed, plan')
+    .eq('project_id', run.project_id)
+    .order('created_at', { ascending: false })
+    .limit(HISTORY_MESSAGE_LIMIT);
+  if (historyErr) console.error('Failed to load conversation history:', historyErr);
+
+  const conversation = buildConversationContext(
+    (storedMessages ?? []).reverse().map((m) => ({
+      role: m.role,
+      content: m.content,
+      filesChanged: m.files_changed,
+      plan: m.plan,
+    })),
+    { maxTokens: HISTORY_TOKEN_BUDGET }
+  );
+
+  // ── Cancellation, heartbeat and time budget ──
+  const abortController = new AbortController();
+  const budgetTimer = setTimeout(() => abortController.abort('timeout'), RUN_TIME_BUDGET_MS);
+  const heartbeat = setInterval(async () => {
+    const { data } = await supabase
+      .from('agent_runs')
+      .update({ heartbeat_at: new Date().toISOString() })
+      .eq('id', run.id)
+      .select('cancel_requested')
+      .single();
+    if (data?.cancel_requested) abortController.abort('cancelled');
+  }, HEARTBEAT_INTERVAL_MS);
+
+  const executor = createProjectExecutor(projectFiles, existingFiles, deletedPaths, { lintRules, sdkVersion }, record);
+
+  const agent = new RorkAgent({
+    model,
+    maxIterations: MAX_ITERATIONS,
+    conversationHistory: conversation.messages,
+    sdkVersion,
+    signal: abortController.signal,
+    resume: resuming
+      ? { plan: run.plan as AppPlan | null, iterations: run.iteration, changes: run.changes ?? [] }
+      : undefined,
+    onEvent: (event: AgentEvent) => {
+      // Running out of time is a pause, not a user cancellation
+      if (event.type === 'cancelled' && abortController.signal.reason === 'timeout') return;
+      record(event);
+      // Checkpoint at the start of each iteration (state reflects all previous ones)
+      if (event.type === 'iteration') {
+        const checkpoint = agent.getCheckpoint();
+        enqueueWrite(() => supabase
+          .from('agent_runs')
+          .update({
+            plan: checkpoint.plan,
+            iteration: checkpoint.iterations - 1,
+            changes: checkpoint.changes,
+            written_files: projectFiles,
+          })
+          .eq('id', run.id), 'agent run checkpoint');
+      }
+    },
+  });
+
+  try {
+    const result = await agent.run(run.prompt, executor, agentFiles, run.agent_mode);
+
+    if (result.phase === 'cancelled' && abortController.signal.reason === 'timeout') {
+      // Out of time for this request: checkpoint and hand over to the next one
+      const checkpoint = agent.getCheckpoint();
+      record({
+        type: 'run_paused',
+        runId: run.id,
+        message: `Paused after ${checkpoint.iterations} iterations; resuming...`,
+      });
+      await writes;
+      await updateRun(supabase, run.id, {
+        status: 'paused',
+        plan: checkpoint.plan,
+        iteration: checkpoint.iterations,
+        changes: checkpoint.changes,
+        written_files: projectFiles,
+      });
+      return;
+    }
+
+    const cancelled = result.phase === 'cancelled';
+    const summaryContent = cancelled
+      ? `Run cancelled after ${result.iterations} iterations. Kept ${result.changes.length} file changes:\n${formatChanges(result.changes)}`
+      : !result.success
+      ? `Agent failed: ${result.error}`
+      : run.agent_mode === 'edit'
+      ? `Changed ${result.changes.length} files in ${result.iterations} iterations:\n${formatChanges(result.changes)}\n\n${result.summary || ''}`
+      : `Built ${result.files.length} files in ${result.iterations} iterations.\n\n${result.summary || ''}`;
+
+    const versionId = result.changes.length > 0 ? await getRunVersionId(supabase, run.id) : null;
+
+    // Send final result FIRST so UI updates immediately
+    record({
+      type: 'agent_complete',
+      success: true,
+      files: Object.values(projectFiles),
+      changes: result.changes,
+      summary: summaryContent,
+      versionId,
+      model: run.model,
+      keySource,
+    });
+    await writes;
+
+    await finalizeAgentRun(supabase, run, {
+      status: cancelled ? 'cancelled' : result.success ? 'complete' : 'failed',
+      summary: summaryContent,
+      error: result.success ? null : result.error ?? null,
+      files: projectFiles,
+      changes: result.changes,
+      plan: agent.getPlan(),
+      tokensUsed: result.usage.inputTokens + result.usage.outputTokens,
+      versionId,
+    });
+
+    // Staged runs get their pull request once the review is applied
+    if (result.success && !cancelled && !run.staged && result.changes.length > 0) {
+      const pull = await openRunPullRequest(supabase, { ...run, plan: agent.getPlan(), summary: summaryContent });
+      if (pull) {
+        record({ type: 'github_pr', url: pull.url, number: pull.number, branch: pull.branch });
+        await writes;
+      }
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    record({ type: 'error', error: message });
+    await writes;
+    await updateRun(supabase, run.id, { status: 'failed', error: message });
+  } finally {
+    clearTimeout(budgetTimer);
+    clearInterval(heartbeat);
+    await writes;
+  }
+}
+
+/**
+ * Persist a finished run: its files, the assistant summary message and the
+ * final run status. Also used to cancel an idle run without resuming it.
+ * A staged run's files are left for review (see commitReviewedFiles).
+ */
+export async function finalizeAgentRun(
+  supabase: SupabaseServerClient,
+  run: AgentRun,
+  outcome: {
+    status: AgentRunStatus;
+    summary: string;
+    error?: string | null;
+    files: Record<string, ProjectFileRecord>;
+    changes: AgentFileChange[];
+    plan: AppPlan | null;
+    tokensUsed?: number;
+    /** Version to revert the run to; looked up when omitted */
+    versionId?: string | null;
+  }
+): Promise<void> {
+  // Save written files and deletions together in one transaction
+  // (a cancelled run keeps whatever it changed before stopping)
+  const deleted = removedPaths(outcome.changes);
+  const hasChanges = Object.keys(outcome.files).length > 0 || deleted.length > 0;
+  if (hasChanges && !run.staged) {
+    const { error: filesErr } = await supabase.rpc('commit_project_files', {
+      p_project_id: run.project_id,
+      p_files: Object.values(outcome.files).map(({ path, content, language }) => ({ path, content, language })),
+      p_deleted_paths: deleted,
+    });
+
+    if (filesErr) console.error('Failed to save project files:', filesErr);
+  }
+
+  const versionId = outcome.versionId !== undefined
+    ? outcome.versionId
+    : outcome.changes.length > 0 ? await getRunVersionId(supabase, run.id) : null;
+
+  // Save assistant summary message
+  const { error: asstMsgErr } = await supabase.from('messages').insert({
+    project_id: run.project_id,
+    role: 'assistant',
+    content: outcome.summary,
+    model: run.model,
+    files_changed: Object.keys(outcome.files),
+    tokens_used: outcome.tokensUsed ?? null,
+    plan: outcome.plan,
+    status: outcome.status === 'cancelled' ? 'cancelled' : outcome.status === 'complete' ? 'complete' : 'failed',
+    version_id: versionId,
+    key_source: run.key_source,
+  });
+  if (asstMsgErr) console.error('Failed to save assistant message:', asstMsgErr);
+
+  await updateRun(supabase, run.id, {
+    status: outcome.status,
+    summary: outcome.summary,
+    error: outcome.error ?? null,
+    plan: outcome.plan,
+    changes: outcome.changes,
+    written_files: outcome.files,
+    review_status: run.staged ? (hasChanges ? 'pending' : 'discarded') : null,
+  });
+}
+
+/**
+ * Apply the accepted part of a staged run's changeset. `files` maps each
+ * accepted path to its final content (null deletes it); only paths the run
+ * changed are allowed. Everything not listed is discarded.
+ */
+export async function commitReviewedFiles(
+  supabase: SupabaseServerClient,
+  run: AgentRun,
+  files: Record<string, string | null>
+): Promise<string[]> {
+  const changedPaths = new Set([...Object.keys(run.written_files ?? {}), ...removedPaths(run.changes ?? [])]);
+  const accepted = Object.entries(files).filter(([path]) => changedPaths.has(path));
+
+  if (accepted.length > 0) {
+    const { error } = await supabase.rpc('commit_project_files', {
+      p_project_id: run.project_id,
+      p_files: accepted
+        .filter(([, content]) => content !== null)
+        .map(([path, content]) => ({ path, content, language: getLanguageFromPath(path) })),
+      p_deleted_paths: accepted.filter(([, content]) => content === null).map(([path]) => path),
+    });
+    if (error) throw new Error(`Failed to apply reviewed changes: ${error.message}`);
+  }
+
+  await updateRun(supabase, run.id, { review_status: accepted.length > 0 ? 'applied' : 'discarded' });
+  return accepted.map(([path]) => path);
+}
+
+async function updateRun(
+  supabase: SupabaseServerClient,
+  runId: string,
+  update: Partial<Omit<AgentRun, 'id' | 'project_id' | 'user_id'>>
+): Promise<void> {
+  const { error } = await supabase.from('agent_runs').update(update).eq('id', runId);
+  if (error) console.error('Failed to update agent run:', error);
+}
+
+export function formatChanges(changes: AgentFileChange[]): string {
+  if (changes.length === 0) return '- No files changed';
+  return changes
+    .map((change) => change.action === 'moved'
+      ? `- Moved ${change.from} → ${change.path}`
+      : `- ${change.action[0].toUpperCase()}${change.action.slice(1)} ${change.path}`)
+    .join('\n');
+}
+
+/** Paths a run removed from the project: deleted files and the old paths of moved ones */
+export function removedPaths(changes: AgentFileChange[]): string[] {
+  return changes.flatMap((change) =>
+    change.action === 'deleted' ? [change.path]
+      : change.action === 'moved' && change.from ? [change.from]
+      : []
+  );
+}
+
+// ── Tool executor over the project's files ──
+
+export function createProjectExecutor(
+  projectFiles: Record<string, ProjectFileRecord>,
+  existingFiles: Record<string, string>,
+  deletedPaths: Set<string>,
+  checkOptions: { lintRules: Record<string, boolean>; sdkVersion?: string },
+  record: (event: unknown) => void
+): ToolExecutor {
+  const { lintRules, sdkVersion } = checkOptions;
+  const allFiles = (): Record<string, string> => collectAllFiles(projectFiles, existingFiles, deletedPaths);
+  const currentContent = (path: string): string | undefined =>
+    deletedPaths.has(path) ? undefined : projectFiles[path]?.content ?? existingFiles[path];
+
+  // Apply lint autofixes to the files this run wrote (never the user's untouched
+  // files) and verify the merged project; the result's `fixedFiles` lets the
+  // agent mirror the fixes
+  const verify = (checks: ProjectCheck[]): ToolResult => {
+    const fixedFiles: ProjectFileRecord[] = [];
+    if (checks.includes('lint')) {
+      const written = Object.fromEntries(Object.values(projectFiles).map((file) => [file.path, file.content]));
+      for (const [path, content] of Object.entries(fixProject(written, { rules: lintRules, sdkVersion }))) {
+        projectFiles[path] = { path, content, language: getLanguageFromPath(path) };
+        fixedFiles.push(projectFiles[path]);
+      }
+    }
+
+    const result = runChecks(allFiles(), checks, { lintRules, sdkVersion });
+    if (fixedFiles.length === 0) return result;
+
+    const note = `Autofixed lint issues in: ${fixedFiles.map((file) => file.path).join(', ')}`;
+    const data = { ...(result.data as Record<string, unknown>), fixedFiles };
+    return result.success
+      ? { ...result, output: `${result.output}\n${note}`, data }
+      : { ...result, error: `${result.error}\n${note}`, data };
+  };
+
+  // Rewrite package.json; the result carries the file so the agent can mirror it
+  const updatePackageJson = (edit: (content: string) => string, output: string): ToolResult => {
+    const content = currentContent('package.json');
+    if (content === undefined) {
+      return {
+        success: false,
+        error: 'The project has no package.json',
+      };
+    }
+
+    try {
+      const file = { path: 'package.json', content: edit(content), language: getLanguageFromPath('package.json') };
+      projectFiles[file.path] = file;
+      deletedPaths.delete(file.path);
+      return { success: true, output, data: { file } };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update package.json',
+      };
+    }
+  };
+
+  return {
+    async createPlan(input: CreatePlanInput): Promise<ToolResult> {
+      // Send plan event
+      record({
+        type: 'plan_created',
+        plan: {
+          appName: input.app_name,
+          appType: input.app_type,
+          features: input.features,
+          screens: input.screens,
+          fileTree: input.file_tree,
+          dependencies: input.dependencies || [],
+          planSteps: input.plan_steps || [],
+        },
+      });
+
+      return {
+        success: true,
+        output: `Plan created for ${input.app_name} (${input.app_type}) with ${input.file_tree.length} files`,
+      };
+    },
+
+    async writeFile(input: WriteFileInput): Promise<ToolResult> {
+      const language = getLanguageFromPath(input.path);
+      projectFiles[input.path] = {
+        path: input.path,
+        content: input.content,
+        language,
+      };
+      deletedPaths.delete(input.path);
+
+      return {
+        success: true,
+        output: `File written: ${input.path}`,
+      };
+    },
+
+    async patchFile(input: PatchFileInput): Promise<ToolResult> {
+      const current = currentContent(input.path);
+
+      if (!current) {
+        return {
+          success: false,
+          error: `Cannot patch missing file: ${input.path}`,
+        };
+      }
+
+      if (!current.includes(input.find)) {
+        return {
+          success: false,
+          error: `Patch target not found in ${input.path}`,
+        };
+      }
+
+      const next = current.replace(input.find, input.replace);
+      projectFiles[input.path] = {
+        path: input.path,
+        content: next,
+        language: getLanguageFromPath(input.path),
+      };
+
+      return {
+        success: true,
+        output: `Patched ${input.path}`,
+      };
+    },
+
+    async searchFiles(input: SearchFilesInput): Promise<ToolResult> {
+      const all = allFiles();
+      const matches: Array<{ path: string; line: number; snippet: string }> = [];
+
+      for (const [path, content] of Object.entries(all)) {
+        if (input.path_prefix && !path.startsWith(input.path_prefix)) continue;
+        const lines = content.split('\n');
+        for (let i = 0; i < lines.length; i++) {
+          if (lines[i].includes(input.query)) {
+            matches.push({
+              path,
+              line: i + 1,
+              snippet: lines[i].trim().slice(0, 180),
+            });
+          }
+        }
+      }
+
+      if (matches.length === 0) {
+        return {
+          success: true,
+          output: 'No matches found',
+          data: { matches: [] },
+        };
+      }
+
+      return {
+        success: true,
+        output: matches.slice(0, 50).map((m) => `${m.path}:${m.line} ${m.snippet}`).join('\n'),
+        data: { matches: matches.slice(0, 200) },
+      };
+    },
+
+    async verifyProject(input: VerifyProjectInput): Promise<ToolResult> {
+      return verify(input.checks);
+    },
+
+    async deleteFile(input: DeleteFileInput): Promise<ToolResult> {
+      if (currentContent(input.path) === undefined) {
+        return {
+          success: false,
+          error: `Cannot delete missing file: ${input.path}`,
+        };
+      }
+
+      delete projectFiles[input.path];
+      if (input.path in existingFiles) deletedPaths.add(input.path);
+
+      return {
+        success: true,
+        output: `File deleted: ${input.path}`,
+      };
+    },
+
+    async moveFile(input: MoveFileInput): Promise<ToolResult> {
+      const content = currentContent(input.from);
+
+      if (content === undefined) {
+        return {
+          success: false,
+          error: `Cannot move missing file: ${input.from}`,
+        };
+      }
+
+      if (!input.to || input.to === input.from || currentContent(input.to) !== undefined) {
+        return {
+          success: false,
+          error: `Cannot move ${input.from} to ${input.to || '(empty path)'}: target already exists or is invalid`,
+        };
+      }
+
+      projectFiles[input.to] = {
+        path: input.to,
+        content,
+        language: getLanguageFromPath(input.to),
+      };
+      deletedPaths.delete(input.to);
+      delete projectFiles[input.from];
+      if (input.from in existingFiles) deletedPaths.add(input.from);
+
+      return {
+        success: true,
+        output: `File moved: ${input.from} → ${input.to}`,
+      };
+    },
+
+    async addDependency(input: AddDependencyInput): Promise<ToolResult> {
+      const sdk = getExpoSdk(sdkVersion);
+      const error = dependencyError(sdk, input.name);
+      if (error) {
+        return {
+          success: false,
+          error,
+        };
+      }
+
+      const version = getDependencyVersion(sdk, input.name)!;
+      return updatePackageJson(
+        (content) => setDependency(content, input.name, version),
+        `Added ${input.name}@${version} to package.json`
+      );
+    },
+
+    async removeDependency(input: RemoveDependencyInput): Promise<ToolResult> {
+      const importers = Object.entries(allFiles())
+        .filter(([path, content]) => /\.(tsx?|jsx?)$/.test(path) && findImportedPackages(content).has(input.name))
+        .map(([path]) => path);
+
+      return updatePackageJson(
+        (content) => {
+          const next = removeDependency(content, input.name);
+          if (next === content) throw new Error(`${input.name} is not declared in package.json`);
+          return next;
+        },
+        importers.length > 0
+          ? `Removed ${input.name} from package.json, but it is still imported by: ${importers.join(', ')}`
+          : `Removed ${input.name} from package.json`
+      );
+    },
+
+    async readFile(input: ReadFileInput): Promise<ToolResult> {
+      const content = currentContent(input.path);
+
+      if (content !== undefined) {
+        return {
+          success: true,
+          output: content,
+        };
+      }
+
+      return {
+        success: false,
+        error: `File not found: ${input.path}`,
+      };
+    },
+
+    async listFiles(input: ListFilesInput): Promise<ToolResult> {
+      const uniqueFiles = Object.keys(allFiles());
+
+      if (input.directory) {
+        const filtered = uniqueFiles.filter(f => f.startsWith(input.directory!));
+        return {
+          success: true,
+          output: filtered.join('\n'),
+        };
+      }
+
+      return {
+        success: true,
+        output: uniqueFiles.join('\n'),
+      };
+    },
+
+    async runTest(input: RunTestInput): Promise<ToolResult> {
+      const check =
+        input.check_type === 'typescript'
+          ? 'typecheck'
+          : input.check_type === 'runtime'
+          ? 'build'
+          : input.check_type;
+      return verify([check]);
+    },
+
+    async fixError(input: FixErrorInput): Promise<ToolResult> {
+      // Validate the file exists so the agent knows what it's working with
+      const fileContent = currentContent(input.file_path);
+
+      if (!fileContent) {
+        return {
+          success: false,
+          error: `Cannot fix error: file not found: ${input.file_path}`,
+        };
+      }
+
+      // Return the current file content so the agent can patch it precisely
+      return {
+        success: true,
+        output: [
+          `Error in ${input.file_path}: ${input.error_message}`,
+          `Planned fix: ${input.fix_description}`,
+          `Current file content (${fileContent.split('\n').length} lines):`,
+          '---',
+          fileContent.slice(0, 3000), // cap to avoid huge context
+          fileContent.length > 3000 ? '... (truncated)' : '',
+          '---',
+          'Use patch_file or write_file to apply the fix.',
+        ]
+          .filter(Boolean)
+          .join('\n'),
+      };
+    },
+
+    async complete(input: CompleteInput): Promise<ToolResult> {
+      return {
+        success: true,
+        output: input.summary,
+        data: {
+          summary: input.summary,
+          filesCreated: input.files_created,
+          nextSteps: input.next_steps,
+        },
+      };
+    },
+  };
+}
+
+async function loadProjectFiles(supabase: SupabaseServerClient, projectId: string): Promise<Record<string, string>> {
+  const { data: storedFiles } = await supabase
+    .from('project_files')
+    .select('path, content')
+    .eq('project_id', projectId);
+  return Object.fromEntries((storedFiles ?? []).map((f: { path: string; content: string | null }) => [f.path, f.content ?? '']));
+}
+
+export function collectAllFiles(
+  projectFiles: Record<string, ProjectFileRecord>,
+  existingFiles: Record<string, string>,
+  deletedPaths: Set<string>
+): Record<string, string> {
+  const merged: Record<string, string> = { ...existingFiles };
+  for (const [path, file] of Object.entries(projectFiles)) {
+    merged[path] = file.content;
+  }
+  for (const path of deletedPaths) delete merged[path];
+  return merged;
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { hasConflictMarkers, mergeText } from '@/lib/diff';
+
+const BASE = ['import React from "react";', '', 'const title = "Home";', '', 'export default function Home() {', '  return null;', '}'].join('\n');
+
+describe('mergeText', () => {
+  it('takes the side that changed when the other did not', () => {
+    const edited = BASE.replace('"Home"', '"Start"');
+    expect(mergeText(BASE, BASE, edited)).toEqual({ content: edited, conflicts: 0 });
+    expect(mergeText(BASE, edited, BASE)).toEqual({ content: edited, conflicts: 0 });
+  });
+
+  it('combines edits to separate lines', () => {
+    const local = BASE.replace('"Home"', '"Start"');
+    const remote = BASE.replace('return null;', 'return <Title />;');
+
+    const { content, conflicts } = mergeText(BASE, local, remote);
+    expect(conflicts).toBe(0);
+    expect(content).toBe(BASE.replace('"Home"', '"Start"').replace('return null;', 'return <Title />;'));
+  });
+
+  it('accepts the same edit made on both sides', () => {
+    const edited = BASE.replace('return null;', 'return <Title />;');
+    expect(mergeText(BASE, edited, edited)).toEqual({ content: edited, conflicts: 0 });
+  });
+
+  it('marks lines both sides changed differently as a conflict', () => {
+    const local = BASE.replace('"Home"', '"Start"');
+    const remote = BASE.replace('"Home"', '"Welcome"');
+
+    const { content, conflicts } = mergeText(BASE, local, remote, { local: 'Rork', remote: 'GitHub' });
+    expect(conflicts).toBe(1);
+    expect(content).toBe(BASE.replace(
+      'const title = "Home";',
+      ['<<<<<<< Rork', 'const title = "Start";', '=======', 'const title = "Welcome";', '>>>>>>> GitHub'].join('\n')
+    ));
+    expect(hasConflictMarkers(content)).toBe(true);
+  });
+
+  it('counts each conflicting region', () => {
+    const local = BASE.replace('"Home"', '"Start"').replace('return null;', 'return 1;');
+    const remote = BASE.replace('"Home"', '"Welcome"').replace('return null;', 'return 2;');
+
+    expect(mergeText(BASE, local, remote).conflicts).toBe(2);
+  });
+});
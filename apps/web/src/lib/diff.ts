@@ -0,0 +1,164 @@
+/**
+ * Line-based diffing for reviewing agent changes hunk by hunk, and merging
+ * remote edits on pull.
+ * Pure functions, safe to use on the client.
+ */
+
+/** A contiguous run of changed lines (start indexes are 0-based line numbers) */
+export interface DiffHunk {
+  originalStart: number;
+  originalLines: string[];
+  proposedStart: number;
+  proposedLines: string[];
+}
+
+// Above this many LCS cells the changed middle is reported as a single hunk
+const MAX_LCS_CELLS = 4_000_000;
+
+function splitLines(text: string): string[] {
+  return text.split('\n');
+}
+
+/** Hunks that turn `original` into `proposed`, in file order */
+export function diffHunks(original: string, proposed: string): DiffHunk[] {
+  if (original === proposed) return [];
+  const a = splitLines(original);
+  const b = splitLines(proposed);
+
+  // Trim the common prefix and suffix so the LCS only covers the changed middle
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    return [{ originalStart: prefix, originalLines: midA, proposedStart: prefix, proposedLines: midB }];
+  }
+
+  // lcs[i][j] = length of the LCS of midA[i..] and midB[j..]
+  const n = midA.length;
+  const m = midB.length;
+  const lcs: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && midA[i] === midB[j]) {
+      if (current) hunks.push(current);
+      current = null;
+      i++;
+      j++;
+      continue;
+    }
+    current ??= { originalStart: prefix + i, originalLines: [], proposedStart: prefix + j, proposedLines: [] };
+    if (j < m && (i >= n || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      current.proposedLines.push(midB[j++]);
+    } else {
+      current.originalLines.push(midA[i++]);
+    }
+  }
+  if (current) hunks.push(current);
+  return hunks;
+}
+
+/** Accept one hunk: apply it to the original text */
+export function applyHunk(original: string, hunk: DiffHunk): string {
+  const lines = splitLines(original);
+  lines.splice(hunk.originalStart, hunk.originalLines.length, ...hunk.proposedLines);
+  return lines.join('\n');
+}
+
+/** Reject one hunk: undo it in the proposed text */
+export function revertHunk(proposed: string, hunk: DiffHunk): string {
+  const lines = splitLines(proposed);
+  lines.splice(hunk.proposedStart, hunk.proposedLines.length, ...hunk.originalLines);
+  return lines.join('\n');
+}
+
+const CONFLICT_START = '<<<<<<< ';
+const CONFLICT_END = '>>>>>>> ';
+
+/** Lines of `base[start, end)` with the given hunks (all within that range) applied */
+function applyHunksInRange(baseLines: string[], hunks: DiffHunk[], start: number, end: number): string[] {
+  const lines: string[] = [];
+  let position = start;
+  for (const hunk of hunks) {
+    lines.push(...baseLines.slice(position, hunk.originalStart), ...hunk.proposedLines);
+    position = hunk.originalStart + hunk.originalLines.length;
+  }
+  lines.push(...baseLines.slice(position, end));
+  return lines;
+}
+
+/**
+ * Three-way merge of two edits of `base`. Changes to separate regions are
+ * combined; where both sides changed the same lines differently, both
+ * versions are kept between git-style conflict markers.
+ */
+export function mergeText(
+  base: string,
+  local: string,
+  remote: string,
+  labels: { local: string; remote: string } = { local: 'local', remote: 'remote' }
+): { content: string; conflicts: number } {
+  if (local === remote || remote === base) return { content: local, conflicts: 0 };
+  if (local === base) return { content: remote, conflicts: 0 };
+
+  const baseLines = splitLines(base);
+  const changes = [
+    ...diffHunks(base, local).map(hunk => ({ side: 'local' as const, hunk })),
+    ...diffHunks(base, remote).map(hunk => ({ side: 'remote' as const, hunk })),
+  ].sort((a, b) => a.hunk.originalStart - b.hunk.originalStart);
+
+  const output: string[] = [];
+  let position = 0;
+  let conflicts = 0;
+  let i = 0;
+  while (i < changes.length) {
+    // Group changes whose base ranges overlap or touch
+    const start = changes[i].hunk.originalStart;
+    let end = start + changes[i].hunk.originalLines.length;
+    const group = [changes[i++]];
+    while (i < changes.length && changes[i].hunk.originalStart <= end) {
+      end = Math.max(end, changes[i].hunk.originalStart + changes[i].hunk.originalLines.length);
+      group.push(changes[i++]);
+    }
+
+    output.push(...baseLines.slice(position, start));
+    const localHunks = group.filter(change => change.side === 'local').map(change => change.hunk);
+    const remoteHunks = group.filter(change => change.side === 'remote').map(change => change.hunk);
+    const localLines = applyHunksInRange(baseLines, localHunks, start, end);
+    const remoteLines = applyHunksInRange(baseLines, remoteHunks, start, end);
+
+    if (remoteHunks.length === 0 || localLines.join('\n') === remoteLines.join('\n')) {
+      output.push(...localLines);
+    } else if (localHunks.length === 0) {
+      output.push(...remoteLines);
+    } else {
+      conflicts++;
+      output.push(`${CONFLICT_START}${labels.local}`, ...localLines, '=======', ...remoteLines, `${CONFLICT_END}${labels.remote}`);
+    }
+    position = end;
+  }
+  output.push(...baseLines.slice(position));
+  return { content: output.join('\n'), conflicts };
+}
+
+/** Whether a file still contains unresolved merge conflict markers */
+export function hasConflictMarkers(content: string): boolean {
+  const lines = splitLines(content);
+  return lines.some(line => line.startsWith(CONFLICT_START)) && lines.some(line => line.startsWith(CONFLICT_END));
+}
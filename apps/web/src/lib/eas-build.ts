@@ -3,6 +3,8 @@
  * Handles building mobile apps using Expo Application Services
  */
 
+import type { BuildPlatform, BuildState } from '@rork/shared';
+
 export interface BuildConfig {
   projectId: string;
   platform: 'ios' | 'android' | 'all';
@@ -18,8 +20,8 @@ export interface BuildResult {
 
 export interface BuildStatus {
   id: string;
-  status: 'in-queue' | 'in-progress' | 'finished' | 'errored' | 'canceled';
-  platform: 'ios' | 'android';
+  status: BuildState;
+  platform: BuildPlatform;
   artifacts?: {
     buildUrl?: string;
     applicationArchiveUrl?: string;
@@ -67,7 +69,7 @@ export function generateAppConfig(
   projectName: string,
   easProjectId?: string
 ): Record<string, unknown> {
-  const slug = projectName.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
+  const slug = slugifyProjectName(projectName);
   
   return {
     expo: {
@@ -92,7 +94,8 @@ export function generateAppConfig(
           foregroundImage: './assets/adaptive-icon.png',
           backgroundColor: '#0a0a0a',
         },
-        package: `com.rork.${slug}`,
+        // Android package segments can't contain hyphens
+        package: `com.rork.${slug.replace(/-/g, '')}`,
       },
       web: {
         bundler: 'metro',
@@ -179,3 +182,47 @@ export function getBuildStatusMessage(status: BuildStatus['status']): string {
       return 'Unknown build status.';
   }
 }
+
+export const TERMINAL_BUILD_STATES: BuildState[] = ['finished', 'errored', 'canceled'];
+
+export function slugifyProjectName(projectName: string): string {
+  return projectName.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '') || 'rork-app';
+}
+
+export type AppJson = { expo?: Record<string, unknown> & { slug?: string; name?: string; version?: string } };
+
+/**
+ * EAS config files the project needs before it can be built: eas.json when
+ * missing, and app.json with the bundle identifiers EAS requires (linked to
+ * the EAS project when its id is known). Existing app.json settings are
+ * kept. Returns only files that change.
+ */
+export function injectEasConfig(
+  files: Record<string, string>,
+  projectName: string,
+  easProjectId?: string
+): Record<string, string> {
+  const updates: Record<string, string> = {};
+  if (!isEasConfigured(files)) {
+    updates['eas.json'] = generateEasConfig(projectName) + '\n';
+  }
+
+  const generated = generateAppConfig(projectName, easProjectId).expo as Record<string, Record<string, unknown>>;
+  let appJson: AppJson = {};
+  try {
+    appJson = files['app.json'] ? JSON.parse(files['app.json']) : { expo: generated };
+  } catch {
+    throw new Error('app.json is not valid JSON; fix it before building');
+  }
+
+  const expo = { ...(appJson.expo ?? generated) } as Record<string, Record<string, unknown> | undefined>;
+  expo.ios = { bundleIdentifier: generated.ios.bundleIdentifier, ...expo.ios };
+  expo.android = { package: generated.android.package, ...expo.android };
+  if (easProjectId) {
+    expo.extra = { ...expo.extra, eas: { ...(expo.extra?.eas as object), projectId: easProjectId } };
+  }
+
+  const content = JSON.stringify({ ...appJson, expo }, null, 2) + '\n';
+  if (content !== files['app.json']) updates['app.json'] = content;
+  return updates;
+}
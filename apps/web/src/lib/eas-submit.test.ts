@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Build } from '@rork/shared';
+import { createFakeExpoClient, type ExpoApiClient } from '@/lib/expo-api';
+import { refreshBuilds, submitProjectBuilds } from '@/lib/eas-submit';
+import { createFakeSupabase, projectFileRows, type FakeRow } from '@/test/fake-supabase';
+
+const PROJECT = { projectId: 'project-1', userId: 'user-1', projectName: 'Habit Tracker' };
+
+function projectTables(): Record<string, FakeRow[]> {
+  return {
+    project_files: projectFileRows('project-1', {
+      'app/index.tsx': 'export default function Home() { return null; }',
+      'package.json': '{ "name": "habit-tracker" }',
+    }),
+    builds: [],
+  };
+}
+
+function supabaseWith(tables: Record<string, FakeRow[]>) {
+  return createFakeSupabase(tables, { builds: { artifact_url: null } });
+}
+
+describe('submitProjectBuilds', () => {
+  it('starts one build per platform for "all" and records them', async () => {
+    const tables = projectTables();
+    const { builds, configFiles } = await submitProjectBuilds(supabaseWith(tables), createFakeExpoClient(), {
+      ...PROJECT,
+      platform: 'all',
+      profile: 'preview',
+    });
+
+    expect(builds.map((build) => build.platform)).toEqual(['ios', 'android']);
+    for (const build of builds) {
+      expect(build.status).toBe('in-queue');
+      expect(build.eas_build_id).toMatch(new RegExp(`^fake-${build.platform}-\\d+$`));
+      expect(build.build_url).toBe(`https://expo.dev/accounts/rork-local/projects/habit-tracker/builds/${build.eas_build_id}`);
+      expect(build.error).toBeNull();
+    }
+    expect(tables.builds).toHaveLength(2);
+
+    // The EAS config is written back to the project
+    expect(Object.keys(configFiles).sort()).toEqual(['app.json', 'eas.json']);
+    const appJson = JSON.parse(configFiles['app.json']);
+    expect(appJson.expo.extra.eas.projectId).toBe('fake-app-rork-local-habit-tracker');
+    expect(tables.project_files.map((file) => file.path)).toEqual(expect.arrayContaining(['app.json', 'eas.json']));
+  });
+
+  it('starts only the requested platform', async () => {
+    const tables = projectTables();
+    const { builds } = await submitProjectBuilds(supabaseWith(tables), createFakeExpoClient(), {
+      ...PROJECT,
+      platform: 'android',
+      profile: 'production',
+    });
+
+    expect(builds.map((build) => build.platform)).toEqual(['android']);
+    expect(tables.builds).toHaveLength(1);
+  });
+
+  it('records a platform that fails to submit as errored and still starts the other', async () => {
+    const fake = createFakeExpoClient();
+    const client: ExpoApiClient = {
+      ...fake,
+      createBuild: async (input) => {
+        if (input.platform === 'ios') throw new Error('No iOS credentials on the Expo account');
+        return fake.createBuild(input);
+      },
+    };
+    const tables = projectTables();
+    const { builds } = await submitProjectBuilds(supabaseWith(tables), client, { ...PROJECT, platform: 'all', profile: 'preview' });
+
+    const [ios, android] = builds;
+    expect(ios).toMatchObject({ platform: 'ios', status: 'errored', eas_build_id: null, build_url: null, error: 'No iOS credentials on the Expo account' });
+    expect(android).toMatchObject({ platform: 'android', status: 'in-queue', error: null });
+  });
+
+  it('refuses a project without files', async () => {
+    await expect(
+      submitProjectBuilds(supabaseWith({}), createFakeExpoClient(), { ...PROJECT, platform: 'ios', profile: 'preview' })
+    ).rejects.toThrow('The project has no files to build');
+  });
+});
+
+describe('refreshBuilds', () => {
+  const start = new Date('2026-10-19T12:00:00Z').getTime();
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(start);
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function submitAll(fail = false) {
+    const tables = projectTables();
+    const supabase = supabaseWith(tables);
+    const client = createFakeExpoClient({ fail });
+    const { builds } = await submitProjectBuilds(supabase, client, { ...PROJECT, platform: 'all', profile: 'preview' });
+    return { tables, supabase, client, builds };
+  }
+
+  it('moves builds through the queue to finished with artifacts', async () => {
+    const { tables, supabase, client, builds } = await submitAll();
+
+    vi.setSystemTime(start + 1_000);
+    let refreshed = await refreshBuilds(supabase, client, builds);
+    expect(refreshed.map((build) => build.status)).toEqual(['in-queue', 'in-queue']);
+
+    vi.setSystemTime(start + 10_000);
+    refreshed = await refreshBuilds(supabase, client, refreshed);
+    expect(refreshed.map((build) => build.status)).toEqual(['in-progress', 'in-progress']);
+
+    vi.setSystemTime(start + 30_000);
+    refreshed = await refreshBuilds(supabase, client, refreshed);
+    const [ios, android] = refreshed;
+    expect(ios.status).toBe('finished');
+    expect(ios.artifact_url).toBe(`https://expo.dev/artifacts/eas/${ios.eas_build_id}.ipa`);
+    expect(android.status).toBe('finished');
+    expect(android.artifact_url).toBe(`https://expo.dev/artifacts/eas/${android.eas_build_id}.apk`);
+
+    // The new status is stored
+    expect(tables.builds.map((row) => [row.status, row.artifact_url])).toEqual([
+      ['finished', ios.artifact_url],
+      ['finished', android.artifact_url],
+    ]);
+  });
+
+  it('stores the error of a failed build', async () => {
+    const { tables, supabase, client, builds } = await submitAll(true);
+
+    vi.setSystemTime(start + 30_000);
+    const refreshed = await refreshBuilds(supabase, client, builds);
+    for (const build of refreshed) {
+      expect(build.status).toBe('errored');
+      expect(build.error).toBe('Fake build failed (EXPO_API_FAKE=fail)');
+      expect(build.artifact_url).toBeNull();
+    }
+    expect(tables.builds.every((row) => row.status === 'errored')).toBe(true);
+  });
+
+  it('does not poll builds that already finished', async () => {
+    const { supabase, client, builds } = await submitAll();
+    const getBuild = vi.spyOn(client, 'getBuild');
+    const finished: Build[] = builds.map((build) => ({ ...build, status: 'finished' }));
+
+    vi.setSystemTime(start + 30_000);
+    expect(await refreshBuilds(supabase, client, finished)).toEqual(finished);
+    expect(getBuild).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,129 @@
+import type { Build, BuildPlatform, BuildProfile } from '@rork/shared';
+import type { createClient } from '@/lib/supabase/server';
+import type { ExpoApiClient } from '@/lib/expo-api';
+import {
+  injectEasConfig,
+  slugifyProjectName,
+  TERMINAL_BUILD_STATES,
+  type AppJson,
+  type BuildConfig,
+  type BuildStatus,
+} from '@/lib/eas-build';
+import { loadCurrentFiles } from '@/lib/project-versions';
+import { getLanguageFromPath } from '@/lib/language';
+import { createTarball } from '@/lib/tarball';
+
+/**
+ * Server side of EAS builds: submitting a project and tracking its builds.
+ * (lib/eas-build.ts holds the config helpers shared with the client.)
+ */
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Submit EAS builds for a project: link it to an EAS project, write the EAS
+ * config into its files, upload the sources once and start one build per
+ * platform. Each build is recorded in the builds table.
+ */
+export async function submitProjectBuilds(
+  supabase: SupabaseServerClient,
+  client: ExpoApiClient,
+  params: { projectId: string; userId: string; projectName: string; platform: BuildConfig['platform']; profile: BuildProfile }
+): Promise<{ builds: Build[]; configFiles: Record<string, string> }> {
+  const snapshot = await loadCurrentFiles(supabase, params.projectId);
+  const files = Object.fromEntries(Object.entries(snapshot).map(([path, file]) => [path, file.content]));
+  if (Object.keys(files).length === 0) throw new Error('The project has no files to build');
+
+  let appJson: AppJson = {};
+  try {
+    appJson = files['app.json'] ? JSON.parse(files['app.json']) : {};
+  } catch { /* reported by injectEasConfig */ }
+  const slug = appJson.expo?.slug || slugifyProjectName(params.projectName);
+
+  const account = await client.getAccount();
+  const appId = await client.ensureApp(account, slug);
+
+  // Persist the injected config so the project stays buildable outside Rork too
+  const configUpdates = injectEasConfig(files, params.projectName, appId);
+  if (Object.keys(configUpdates).length > 0) {
+    const { error } = await supabase.rpc('commit_project_files', {
+      p_project_id: params.projectId,
+      p_files: Object.entries(configUpdates).map(([path, content]) => ({ path, content, language: getLanguageFromPath(path) })),
+      p_deleted_paths: [],
+    });
+    if (error) throw new Error(`Failed to save EAS config: ${error.message}`);
+    Object.assign(files, configUpdates);
+  }
+
+  const archiveKey = await client.uploadProjectArchive(createTarball(files));
+  const platforms: BuildPlatform[] = params.platform === 'all' ? ['ios', 'android'] : [params.platform];
+
+  const builds: Build[] = [];
+  for (const platform of platforms) {
+    let status: BuildStatus | null = null;
+    let submitError: string | null = null;
+    try {
+      status = await client.createBuild({
+        appId,
+        platform,
+        profile: params.profile,
+        archiveKey,
+        appName: appJson.expo?.name || params.projectName,
+        appVersion: appJson.expo?.version || '1.0.0',
+      });
+    } catch (error) {
+      // Keep going so one platform's failure doesn't hide the other build
+      submitError = error instanceof Error ? error.message : 'Failed to submit build';
+    }
+
+    const { data, error } = await supabase
+      .from('builds')
+      .insert({
+        project_id: params.projectId,
+        user_id: params.userId,
+        platform,
+        profile: params.profile,
+        status: status?.status ?? 'errored',
+        eas_build_id: status?.id ?? null,
+        build_url: status ? `https://expo.dev/accounts/${account.name}/projects/${slug}/builds/${status.id}` : null,
+        error: submitError,
+      })
+      .select('*')
+      .single();
+    if (error || !data) throw new Error(`Failed to record build: ${error?.message ?? 'unknown error'}`);
+    builds.push(data as Build);
+  }
+  return { builds, configFiles: configUpdates };
+}
+
+/** Poll Expo for builds that are still running and store their new status */
+export async function refreshBuilds(
+  supabase: SupabaseServerClient,
+  client: ExpoApiClient,
+  builds: Build[]
+): Promise<Build[]> {
+  return Promise.all(builds.map(async (build) => {
+    if (TERMINAL_BUILD_STATES.includes(build.status) || !build.eas_build_id) return build;
+
+    let status: BuildStatus;
+    try {
+      status = await client.getBuild(build.eas_build_id);
+    } catch (error) {
+      console.error('Build status error:', error);
+      return build;
+    }
+
+    const update = {
+      status: status.status,
+      artifact_url: status.artifacts?.buildUrl ?? status.artifacts?.applicationArchiveUrl ?? build.artifact_url,
+      error: status.error?.message ?? build.error,
+    };
+    if (update.status === build.status && update.artifact_url === build.artifact_url && update.error === build.error) {
+      return build;
+    }
+
+    const { error } = await supabase.from('builds').update(update).eq('id', build.id);
+    if (error) console.error('Failed to update build:', error);
+    return { ...build, ...update };
+  }));
+}
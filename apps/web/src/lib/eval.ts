@@ -0,0 +1,97 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import {
+  createAgentModel,
+  getAgentTemplateEvalCases,
+  renderEvalReportHtml,
+  runEvalSuite,
+  type AgentModel,
+  type EvalCase,
+  type EvalReport,
+} from '@ai-engine/core';
+import type { ModelId } from '@rork/shared';
+import { recordCassette, replayCassette } from '@/lib/agent-cassettes';
+import { collectAllFiles, createProjectExecutor, type ProjectFileRecord } from '@/lib/agent-runs';
+import { resolveModel, unavailableModelError } from '@/lib/model-keys';
+import type { createClient } from '@/lib/supabase/server';
+import { APP_TEMPLATES } from '@/lib/templates';
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * How cases get their model: 'live' calls the model, 'record' calls it and
+ * writes `<EVAL_CASSETTE_DIR>/<case id>.json`, 'replay' serves each case
+ * from that cassette (offline, no API key).
+ */
+export type EvalCassetteMode = 'live' | 'record' | 'replay';
+
+export interface EvalOptions {
+  label: string;
+  model: ModelId;
+  /** Case ids to run (default: the whole suite) */
+  caseIds?: string[];
+  cassettes?: EvalCassetteMode;
+  signal?: AbortSignal;
+}
+
+/** The gallery templates (lib/templates.ts), then the agent's app templates */
+export function getEvalSuite(): EvalCase[] {
+  return [
+    ...APP_TEMPLATES.map((template) => ({ id: `template-${template.id}`, name: template.name, prompt: template.prompt })),
+    ...getAgentTemplateEvalCases(),
+  ];
+}
+
+function cassetteFile(evalCase: EvalCase): string {
+  const dir = process.env.EVAL_CASSETTE_DIR;
+  if (!dir) throw new Error('EVAL_CASSETTE_DIR is not configured');
+  return path.join(dir, `${evalCase.id}.json`);
+}
+
+/** Run the suite against `options.model` with the server's keys */
+export async function runEval(supabase: SupabaseServerClient, options: EvalOptions): Promise<EvalReport> {
+  const suite = getEvalSuite();
+  const cases = options.caseIds ? suite.filter((evalCase) => options.caseIds!.includes(evalCase.id)) : suite;
+  const mode = options.cassettes ?? 'live';
+
+  const createModel = async (evalCase: EvalCase): Promise<AgentModel> => {
+    if (mode === 'replay') return replayCassette(cassetteFile(evalCase));
+
+    const modelKey = await resolveModel(supabase, null, options.model, 'agent-run');
+    if (!modelKey) throw new Error(unavailableModelError(options.model));
+    const model = createAgentModel(modelKey.type, modelKey.apiKey, modelKey.config);
+    return mode === 'record' ? recordCassette(model, cassetteFile(evalCase)) : model;
+  };
+
+  return runEvalSuite(cases, {
+    label: options.label,
+    createModel,
+    createExecutor: (evalCase) => {
+      const projectFiles: Record<string, ProjectFileRecord> = {};
+      const existingFiles = evalCase.files ?? {};
+      const deletedPaths = new Set<string>();
+      return {
+        executor: createProjectExecutor(projectFiles, existingFiles, deletedPaths, { lintRules: {} }, () => {}),
+        files: () => collectAllFiles(projectFiles, existingFiles, deletedPaths),
+      };
+    },
+    signal: options.signal,
+  });
+}
+
+/**
+ * Write `<EVAL_REPORT_DIR>/<label>.json` and `.html` (the HTML compared
+ * with `baseline` when given). Returns the JSON path, or null when
+ * EVAL_REPORT_DIR is unset.
+ */
+export async function saveEvalReport(report: EvalReport, baseline?: EvalReport): Promise<string | null> {
+  const dir = process.env.EVAL_REPORT_DIR;
+  if (!dir) return null;
+
+  await mkdir(dir, { recursive: true });
+  const name = report.label.replace(/[^a-zA-Z0-9._-]+/g, '-');
+  const file = path.join(dir, `${name}.json`);
+  await writeFile(file, JSON.stringify(report, null, 2));
+  await writeFile(path.join(dir, `${name}.html`), renderEvalReportHtml(report, baseline));
+  return file;
+}
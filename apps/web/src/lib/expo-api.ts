@@ -0,0 +1,234 @@
+import type { BuildPlatform, BuildProfile } from '@rork/shared';
+import type { BuildStatus } from '@/lib/eas-build';
+
+/**
+ * Expo API access for EAS builds.
+ * Routes talk to the ExpoApiClient interface only, so the GraphQL client can be
+ * swapped for the in-memory fake (EXPO_API_FAKE=1) to run builds offline.
+ */
+
+export interface CreateBuildInput {
+  appId: string;
+  platform: BuildPlatform;
+  profile: BuildProfile;
+  /** Bucket key of the uploaded project tarball */
+  archiveKey: string;
+  appName: string;
+  appVersion: string;
+}
+
+export interface ExpoApiClient {
+  /** Account the token belongs to (builds are owned by it) */
+  getAccount(): Promise<{ id: string; name: string }>;
+  /** EAS project id for @account/slug, creating the project if needed */
+  ensureApp(account: { id: string; name: string }, slug: string): Promise<string>;
+  /** Upload a gzipped project tarball and return its bucket key */
+  uploadProjectArchive(archive: Buffer): Promise<string>;
+  createBuild(input: CreateBuildInput): Promise<BuildStatus>;
+  getBuild(buildId: string): Promise<BuildStatus>;
+}
+
+const EXPO_GRAPHQL_URL = 'https://api.expo.dev/graphql';
+
+const BUILD_FIELDS = `
+  id
+  status
+  platform
+  artifacts { buildUrl applicationArchiveUrl }
+  error { message }
+`;
+
+const EXPO_BUILD_STATUSES: Record<string, BuildStatus['status']> = {
+  NEW: 'in-queue',
+  IN_QUEUE: 'in-queue',
+  IN_PROGRESS: 'in-progress',
+  PENDING_CANCEL: 'in-progress',
+  FINISHED: 'finished',
+  ERRORED: 'errored',
+  CANCELED: 'canceled',
+};
+
+interface ExpoBuildNode {
+  id: string;
+  status: string;
+  platform: string;
+  artifacts?: { buildUrl?: string | null; applicationArchiveUrl?: string | null } | null;
+  error?: { message: string } | null;
+}
+
+function toBuildStatus(build: ExpoBuildNode): BuildStatus {
+  return {
+    id: build.id,
+    status: EXPO_BUILD_STATUSES[build.status] ?? 'in-queue',
+    platform: build.platform === 'IOS' ? 'ios' : 'android',
+    artifacts: build.artifacts
+      ? {
+          buildUrl: build.artifacts.buildUrl ?? undefined,
+          applicationArchiveUrl: build.artifacts.applicationArchiveUrl ?? undefined,
+        }
+      : undefined,
+    error: build.error ?? undefined,
+  };
+}
+
+/** Client for Expo's GraphQL API, authenticated with a personal access token */
+export function createGraphQLExpoClient(token: string): ExpoApiClient {
+  const request = async <T>(query: string, variables: Record<string, unknown> = {}): Promise<T> => {
+    const response = await fetch(EXPO_GRAPHQL_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ query, variables }),
+    });
+    const body = await response.json().catch(() => null);
+    if (response.status === 401 || response.status === 403) {
+      throw new Error('Expo rejected the access token. Update your Expo token in Settings.');
+    }
+    if (!response.ok || body?.errors?.length) {
+      throw new Error(body?.errors?.[0]?.message ?? `Expo API request failed (${response.status})`);
+    }
+    return body.data as T;
+  };
+
+  return {
+    async getAccount() {
+      const data = await request<{ me: { primaryAccount: { id: string; name: string } } | null }>(
+        'query { me { primaryAccount { id name } } }'
+      );
+      if (!data.me) throw new Error('The Expo token does not belong to a user account');
+      return data.me.primaryAccount;
+    },
+
+    async ensureApp(account, slug) {
+      const existing = await request<{ app: { byFullName: { id: string } | null } }>(
+        'query ($fullName: String!) { app { byFullName(fullName: $fullName) { id } } }',
+        { fullName: `@${account.name}/${slug}` }
+      ).catch(() => null);
+      if (existing?.app.byFullName) return existing.app.byFullName.id;
+
+      const created = await request<{ app: { createApp: { id: string } } }>(
+        'mutation ($appInput: AppInput!) { app { createApp(appInput: $appInput) { id } } }',
+        { appInput: { accountId: account.id, projectName: slug } }
+      );
+      return created.app.createApp.id;
+    },
+
+    async uploadProjectArchive(archive) {
+      const data = await request<{ uploadSession: { createUploadSession: { url: string; fields: Record<string, string> } } }>(
+        'mutation { uploadSession { createUploadSession(type: EAS_BUILD_PROJECT_SOURCES) } }'
+      );
+      const { url, fields } = data.uploadSession.createUploadSession;
+
+      // Presigned S3 POST: policy fields first, file last
+      const form = new FormData();
+      for (const [key, value] of Object.entries(fields)) form.append(key, value);
+      form.append('file', new Blob([new Uint8Array(archive)], { type: 'application/gzip' }), 'project.tar.gz');
+      const upload = await fetch(url, { method: 'POST', body: form });
+      if (!upload.ok) throw new Error(`Failed to upload project sources (${upload.status})`);
+      return fields.key;
+    },
+
+    async createBuild(input) {
+      const isIos = input.platform === 'ios';
+      const job = {
+        type: 'MANAGED',
+        projectArchive: { type: 'S3', bucketKey: input.archiveKey },
+        projectRootDirectory: '.',
+        ...(isIos
+          ? { simulator: input.profile === 'development' }
+          : { buildType: input.profile === 'production' ? 'APP_BUNDLE' : 'APK' }),
+      };
+      const metadata = {
+        appName: input.appName,
+        appVersion: input.appVersion,
+        buildProfile: input.profile,
+        workflow: 'MANAGED',
+        // Signing credentials are read from the Expo account
+        credentialsSource: 'REMOTE',
+        distribution: input.profile === 'production' ? 'STORE' : 'INTERNAL',
+        trackingContext: { source: 'rork' },
+      };
+      const mutation = isIos
+        ? `mutation ($appId: ID!, $job: IosJobInput!, $metadata: BuildMetadataInput) {
+            build { createIosBuild(appId: $appId, job: $job, metadata: $metadata) { build { ${BUILD_FIELDS} } } }
+          }`
+        : `mutation ($appId: ID!, $job: AndroidJobInput!, $metadata: BuildMetadataInput) {
+            build { createAndroidBuild(appId: $appId, job: $job, metadata: $metadata) { build { ${BUILD_FIELDS} } } }
+          }`;
+
+      const data = await request<{ build: Record<string, { build: ExpoBuildNode }> }>(mutation, {
+        appId: input.appId,
+        job,
+        metadata,
+      });
+      return toBuildStatus(data.build[isIos ? 'createIosBuild' : 'createAndroidBuild'].build);
+    },
+
+    async getBuild(buildId) {
+      const data = await request<{ builds: { byId: ExpoBuildNode } }>(
+        `query ($buildId: ID!) { builds { byId(buildId: $buildId) { ${BUILD_FIELDS} } } }`,
+        { buildId }
+      );
+      return toBuildStatus(data.builds.byId);
+    },
+  };
+}
+
+// Fake build timeline (ms since submission)
+const FAKE_QUEUE_MS = 5_000;
+const FAKE_BUILD_MS = 20_000;
+
+/**
+ * Offline stand-in for the Expo API. Builds move from queued to in progress
+ * to finished (or errored with `fail`) based on the time encoded in their id,
+ * so status polling works across requests without shared state.
+ */
+export function createFakeExpoClient(options: { fail?: boolean } = {}): ExpoApiClient {
+  return {
+    async getAccount() {
+      return { id: 'fake-account', name: 'rork-local' };
+    },
+
+    async ensureApp(account, slug) {
+      return `fake-app-${account.name}-${slug}`;
+    },
+
+    async uploadProjectArchive(archive) {
+      return `fake-archive-${Date.now()}-${archive.length}`;
+    },
+
+    async createBuild(input) {
+      return { id: `fake-${input.platform}-${Date.now()}`, status: 'in-queue', platform: input.platform };
+    },
+
+    async getBuild(buildId) {
+      const match = /^fake-(ios|android)-(\d+)$/.exec(buildId);
+      if (!match) throw new Error(`Unknown build: ${buildId}`);
+      const platform = match[1] as BuildPlatform;
+      const elapsed = Date.now() - Number(match[2]);
+
+      if (elapsed < FAKE_QUEUE_MS) return { id: buildId, status: 'in-queue', platform };
+      if (elapsed < FAKE_BUILD_MS) return { id: buildId, status: 'in-progress', platform };
+      if (options.fail) {
+        return { id: buildId, status: 'errored', platform, error: { message: 'Fake build failed (EXPO_API_FAKE=fail)' } };
+      }
+      return {
+        id: buildId,
+        status: 'finished',
+        platform,
+        artifacts: {
+          buildUrl: `https://expo.dev/artifacts/eas/${buildId}.${platform === 'ios' ? 'ipa' : 'apk'}`,
+        },
+      };
+    },
+  };
+}
+
+/** The Expo client for a user's token (the fake when EXPO_API_FAKE is set) */
+export function createExpoApiClient(token: string): ExpoApiClient {
+  const fake = process.env.EXPO_API_FAKE;
+  if (fake) return createFakeExpoClient({ fail: fake === 'fail' });
+  return createGraphQLExpoClient(token);
+}
@@ -1,4 +1,6 @@
-export function getDefaultExpoFiles(projectName: string): Record<string, string> {
+import { CORE_PACKAGES, getSdkDependencies, type ExpoSdk } from '@rork/shared';
+
+export function getDefaultExpoFiles(projectName: string, sdk: ExpoSdk): Record<string, string> {
   return {
     'App.tsx': `import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
@@ -41,13 +43,7 @@ const styles = StyleSheet.create({
       name: projectName.toLowerCase().replace(/\s+/g, '-'),
       version: '1.0.0',
       private: true,
-      dependencies: {
-        'react': '18.3.1',
-        'react-dom': '18.3.1',
-        'react-native': '0.78.0',
-        'react-native-web': '~0.19.13',
-        'lucide-react-native': '^0.475.0',
-      },
+      dependencies: getSdkDependencies(sdk, CORE_PACKAGES),
     }, null, 2),
     'tsconfig.json': JSON.stringify({
       compilerOptions: {
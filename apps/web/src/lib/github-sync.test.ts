@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { commitFiles, createFakeGitHubClient, fetchCommitFiles, getBranchHead, type GitHubClient } from '@/lib/github';
+import { planPull, pushRunPullRequest, type GitHubProject } from '@/lib/github-sync';
+import { createFakeSupabase, projectFileRows } from '@/test/fake-supabase';
+
+describe('planPull', () => {
+  const base = {
+    'app/index.tsx': 'line 1\nline 2\nline 3\n',
+    'app/about.tsx': 'about\n',
+    'app/old.tsx': 'old\n',
+    'app/same.tsx': 'same\n',
+  };
+
+  it('applies remote changes to files the project left alone', () => {
+    const remote = { ...base, 'app/about.tsx': 'about us\n', 'app/new.tsx': 'new\n' };
+    delete (remote as Partial<typeof remote>)['app/old.tsx'];
+
+    expect(planPull(base, base, remote)).toEqual([
+      { path: 'app/about.tsx', status: 'modified', result: 'clean', local: 'about\n', remote: 'about us\n', merged: 'about us\n' },
+      { path: 'app/new.tsx', status: 'added', result: 'clean', local: null, remote: 'new\n', merged: 'new\n' },
+      { path: 'app/old.tsx', status: 'removed', result: 'clean', local: 'old\n', remote: null, merged: null },
+    ]);
+  });
+
+  it('leaves out files the remote did not change or that already match', () => {
+    const local = { ...base, 'app/same.tsx': 'edited\n', 'app/about.tsx': 'about us\n' };
+    const remote = { ...base, 'app/about.tsx': 'about us\n' };
+
+    expect(planPull(base, local, remote)).toEqual([]);
+  });
+
+  it('merges edits to different lines of a file', () => {
+    const local = { ...base, 'app/index.tsx': 'line one\nline 2\nline 3\n' };
+    const remote = { ...base, 'app/index.tsx': 'line 1\nline 2\nline three\n' };
+
+    expect(planPull(base, local, remote)).toEqual([{
+      path: 'app/index.tsx',
+      status: 'modified',
+      result: 'merged',
+      local: local['app/index.tsx'],
+      remote: remote['app/index.tsx'],
+      merged: 'line one\nline 2\nline three\n',
+    }]);
+  });
+
+  it('leaves conflict markers where both sides edited the same lines', () => {
+    const local = { ...base, 'app/index.tsx': 'line 1\nline two\nline 3\n' };
+    const remote = { ...base, 'app/index.tsx': 'line 1\nline II\nline 3\n' };
+
+    const [change] = planPull(base, local, remote);
+    expect(change.result).toBe('conflict');
+    expect(change.merged).toBe('line 1\n<<<<<<< Rork\nline two\n=======\nline II\n>>>>>>> GitHub\nline 3\n');
+  });
+
+  it('keeps a file edited on one side and deleted on the other as a conflict', () => {
+    const editedLocally = { ...base, 'app/about.tsx': 'about us\n' };
+    const deletedRemotely: Record<string, string> = { ...base };
+    delete deletedRemotely['app/about.tsx'];
+    expect(planPull(base, editedLocally, deletedRemotely)).toEqual([
+      { path: 'app/about.tsx', status: 'removed', result: 'conflict', local: 'about us\n', remote: null, merged: 'about us\n' },
+    ]);
+
+    const deletedLocally: Record<string, string> = { ...base };
+    delete deletedLocally['app/about.tsx'];
+    const editedRemotely = { ...base, 'app/about.tsx': 'about them\n' };
+    expect(planPull(base, deletedLocally, editedRemotely)).toEqual([
+      { path: 'app/about.tsx', status: 'modified', result: 'conflict', local: null, remote: 'about them\n', merged: 'about them\n' },
+    ]);
+  });
+});
+
+describe('pushRunPullRequest', () => {
+  let repoCount = 0;
+
+  const run = {
+    id: '3f2a9c1e-8b7d-4c6a-9e5f-1a2b3c4d5e6f',
+    prompt: 'Add a settings screen\nwith a dark mode toggle',
+    plan: null,
+    summary: 'Added app/settings.tsx.',
+  };
+
+  /** A linked project and its repo, with main holding `remote` on top of the initial commit */
+  async function linkedProject(remote: Record<string, string>, synced: boolean) {
+    const client: GitHubClient = createFakeGitHubClient();
+    const name = `sync-test-${++repoCount}`;
+    await client.createRepo(name, { isPrivate: true, description: 'Test repo' });
+    const repo = { owner: await client.getLogin(), repo: name };
+    const initial = (await getBranchHead(client, repo, 'main'))!;
+    const syncedSha = await commitFiles(client, repo, 'main', initial, remote, 'Sync', { deleteMissing: true });
+
+    const project: GitHubProject = {
+      id: 'project-1',
+      name: 'Habit Tracker',
+      github_repo: `${repo.owner}/${repo.repo}`,
+      github_branch: 'main',
+      github_synced_sha: synced ? syncedSha : null,
+      github_synced_at: null,
+      github_pr_per_run: true,
+    };
+    return { client, repo, project, syncedSha: syncedSha! };
+  }
+
+  const synced = {
+    'app/index.tsx': 'export default function Home() {}\n',
+    'app/old.tsx': 'export default function Old() {}\n',
+  };
+
+  it('pushes the project to a run branch and opens a pull request into the linked branch', async () => {
+    const { client, repo, project, syncedSha } = await linkedProject(synced, true);
+    const local = { 'app/index.tsx': synced['app/index.tsx'], 'app/settings.tsx': 'export default function Settings() {}\n' };
+    const supabase = createFakeSupabase({ project_files: projectFileRows('project-1', local) });
+
+    const pull = await pushRunPullRequest(supabase, client, { project, run });
+
+    expect(pull).toEqual({ number: 1, url: `https://github.com/${repo.owner}/${repo.repo}/pull/1`, branch: 'rork/run-3f2a9c1e' });
+    const head = (await getBranchHead(client, repo, 'rork/run-3f2a9c1e'))!;
+    // The run branch mirrors the project, so the file deleted in the project is deleted in the pull request
+    expect(await fetchCommitFiles(client, repo, head.commitSha)).toEqual(local);
+    // The linked branch is left alone
+    expect(await client.getBranchSha(repo, 'main')).toBe(syncedSha);
+  });
+
+  it('keeps remote files when the project was never synced', async () => {
+    const { client, repo, project } = await linkedProject(synced, false);
+    const local = { 'app/settings.tsx': 'export default function Settings() {}\n' };
+    const supabase = createFakeSupabase({ project_files: projectFileRows('project-1', local) });
+
+    const pull = await pushRunPullRequest(supabase, client, { project, run });
+
+    const head = (await getBranchHead(client, repo, pull!.branch))!;
+    expect(await fetchCommitFiles(client, repo, head.commitSha)).toEqual({ ...synced, ...local });
+  });
+
+  it('opens nothing when the run changed nothing since the last sync', async () => {
+    const { client, project } = await linkedProject(synced, true);
+    const supabase = createFakeSupabase({ project_files: projectFileRows('project-1', synced) });
+
+    expect(await pushRunPullRequest(supabase, client, { project, run: { ...run, id: 'aaaaaaaa-unchanged' } })).toBeNull();
+  });
+
+  it('refuses a project with unresolved conflicts', async () => {
+    const { client, project } = await linkedProject(synced, true);
+    const conflicted = { 'app/index.tsx': '<<<<<<< Rork\nlocal\n=======\nremote\n>>>>>>> GitHub\n' };
+    const supabase = createFakeSupabase({ project_files: projectFileRows('project-1', conflicted) });
+
+    await expect(pushRunPullRequest(supabase, client, { project, run })).rejects.toThrow('merge conflict markers');
+  });
+});
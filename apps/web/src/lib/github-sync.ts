@@ -0,0 +1,378 @@
+import type { AgentRun, Project, VersionSnapshot } from '@rork/shared';
+import type { createClient } from '@/lib/supabase/server';
+import { hasConflictMarkers, mergeText } from '@/lib/diff';
+import {
+  commitFiles,
+  createGitHubClient,
+  ensureBranch,
+  fetchCommitFiles,
+  getBranchHead,
+  parseRepoFullName,
+  repoUrl,
+  type GitHubClient,
+  type PullRequestRef,
+  type RepoRef,
+} from '@/lib/github';
+import { getLanguageFromPath } from '@/lib/language';
+import { applySnapshot, createProjectVersion, loadCurrentFiles } from '@/lib/project-versions';
+import { openToken, type TokenPurpose } from '@/lib/token-vault';
+
+/**
+ * Two-way sync between a project and its linked GitHub branch. The commit the
+ * project last matched (github_synced_sha) is the merge base: pushes are
+ * refused or merged when the branch moved past it, and pulls merge remote
+ * changes into the project, leaving conflict markers where both sides edited.
+ */
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+export type GitHubProject = Pick<
+  Project,
+  'id' | 'name' | 'github_repo' | 'github_branch' | 'github_synced_sha' | 'github_synced_at' | 'github_pr_per_run'
+>;
+
+const GITHUB_PROJECT_COLUMNS = 'id, name, github_repo, github_branch, github_synced_sha, github_synced_at, github_pr_per_run';
+
+export interface PullChange {
+  path: string;
+  /** What the remote did to the file since the last sync */
+  status: 'added' | 'modified' | 'removed';
+  /** clean: only GitHub changed it · merged: both changed different lines · conflict: needs resolving */
+  result: 'clean' | 'merged' | 'conflict';
+  local: string | null;
+  remote: string | null;
+  /** Content after the pull (null deletes the file) */
+  merged: string | null;
+}
+
+export type PushResult =
+  | { status: 'pushed'; repoUrl: string; commitSha: string; commitUrl: string; merged: string[] }
+  | { status: 'up-to-date'; repoUrl: string; commitSha: string }
+  | { status: 'remote-moved'; remoteSha: string }
+  | { status: 'conflicts'; remoteSha: string; conflicts: string[] }
+  | { status: 'unresolved'; files: string[] };
+
+const CONFLICT_LABELS = { local: 'Rork', remote: 'GitHub' };
+
+/** The user's GitHub token from the vault, if configured (the decrypt is audited under `purpose`) */
+export async function getGitHubToken(
+  supabase: SupabaseServerClient,
+  userId: string,
+  purpose: TokenPurpose<'github'>
+): Promise<string | null> {
+  return openToken(supabase, userId, 'github', purpose);
+}
+
+/** The project's GitHub fields, if it exists and belongs to the user */
+export async function loadGitHubProject(
+  supabase: SupabaseServerClient,
+  projectId: string,
+  userId: string
+): Promise<GitHubProject | null> {
+  const { data: project } = await supabase
+    .from('projects')
+    .select(GITHUB_PROJECT_COLUMNS)
+    .eq('id', projectId)
+    .eq('user_id', userId)
+    .single();
+  return (project as GitHubProject | null) ?? null;
+}
+
+export function getLinkedRepo(project: GitHubProject): { repo: RepoRef; branch: string } | null {
+  const repo = project.github_repo ? parseRepoFullName(project.github_repo) : null;
+  return repo ? { repo, branch: project.github_branch ?? 'main' } : null;
+}
+
+export async function recordSync(
+  supabase: SupabaseServerClient,
+  projectId: string,
+  link: { repo?: RepoRef; branch?: string; syncedSha: string | null }
+): Promise<void> {
+  const { error } = await supabase
+    .from('projects')
+    .update({
+      ...(link.repo && { github_repo: `${link.repo.owner}/${link.repo.repo}` }),
+      ...(link.branch && { github_branch: link.branch }),
+      github_synced_sha: link.syncedSha,
+      github_synced_at: link.syncedSha ? new Date().toISOString() : null,
+    })
+    .eq('id', projectId);
+  if (error) throw new Error(`Failed to save GitHub link: ${error.message}`);
+}
+
+/**
+ * Remote changes since `base` and how each combines with the local files.
+ * Files the remote didn't touch, or that already match it, are left out.
+ */
+export function planPull(
+  base: Record<string, string>,
+  local: Record<string, string>,
+  remote: Record<string, string>
+): PullChange[] {
+  const changes: PullChange[] = [];
+  for (const path of new Set([...Object.keys(base), ...Object.keys(remote)])) {
+    const baseContent = base[path] ?? null;
+    const localContent = local[path] ?? null;
+    const remoteContent = remote[path] ?? null;
+    if (remoteContent === baseContent || remoteContent === localContent) continue;
+
+    const status = baseContent === null ? 'added' : remoteContent === null ? 'removed' : 'modified';
+    const change = { path, status, local: localContent, remote: remoteContent } as const;
+
+    if (localContent === baseContent) {
+      changes.push({ ...change, result: 'clean', merged: remoteContent });
+    } else if (localContent === null || remoteContent === null) {
+      // Edited on one side, deleted on the other: keep the edited file
+      changes.push({ ...change, result: 'conflict', merged: localContent ?? remoteContent });
+    } else {
+      const { content, conflicts } = mergeText(baseContent ?? '', localContent, remoteContent, CONFLICT_LABELS);
+      changes.push({ ...change, result: conflicts > 0 ? 'conflict' : 'merged', merged: content });
+    }
+  }
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+async function loadLocalContents(supabase: SupabaseServerClient, projectId: string): Promise<Record<string, string>> {
+  const snapshot = await loadCurrentFiles(supabase, projectId);
+  return Object.fromEntries(Object.entries(snapshot).map(([path, file]) => [path, file.content]));
+}
+
+/** Pull plan for merging commit `remoteSha` into the project */
+export async function previewPull(
+  supabase: SupabaseServerClient,
+  client: GitHubClient,
+  project: GitHubProject,
+  remoteSha: string
+): Promise<PullChange[]> {
+  const link = getLinkedRepo(project);
+  if (!link) throw new Error('The project is not linked to a GitHub repository');
+  if (remoteSha === project.github_synced_sha) return [];
+
+  const [base, remote, local] = await Promise.all([
+    project.github_synced_sha ? fetchCommitFiles(client, link.repo, project.github_synced_sha) : {},
+    fetchCommitFiles(client, link.repo, remoteSha),
+    loadLocalContents(supabase, project.id),
+  ]);
+  return planPull(base, local, remote);
+}
+
+function toSnapshot(changes: PullChange[]): VersionSnapshot {
+  const snapshot: VersionSnapshot = {};
+  for (const change of changes) {
+    snapshot[change.path] = change.merged === null
+      ? null
+      : { content: change.merged, language: getLanguageFromPath(change.path) };
+  }
+  return snapshot;
+}
+
+/**
+ * Merge commit `remoteSha` into the project. The project is saved as a
+ * version first; afterwards it counts as synced with that commit.
+ * Returns the changed paths and those left with conflicts.
+ */
+export async function applyPull(
+  supabase: SupabaseServerClient,
+  client: GitHubClient,
+  params: { project: GitHubProject; userId: string; remoteSha: string }
+): Promise<{ changed: string[]; conflicts: string[] }> {
+  const { project, userId, remoteSha } = params;
+  const changes = await previewPull(supabase, client, project, remoteSha);
+
+  if (changes.length > 0) {
+    await createProjectVersion(supabase, {
+      projectId: project.id,
+      userId,
+      kind: 'manual',
+      label: `Before pulling ${remoteSha.slice(0, 7)} from GitHub`,
+    });
+    await applySnapshot(supabase, project.id, toSnapshot(changes));
+  }
+  await recordSync(supabase, project.id, { syncedSha: remoteSha });
+
+  return {
+    changed: changes.map((change) => change.path),
+    conflicts: changes.filter((change) => change.result === 'conflict').map((change) => change.path),
+  };
+}
+
+/**
+ * Push the project's files to its linked branch, which then mirrors the
+ * project. When the branch moved since the last sync the push is refused, or
+ * with `merge` the remote changes are pulled in first (refused again if they
+ * conflict). The first push keeps the branch's existing files, adding them to
+ * the project.
+ */
+export async function pushProject(
+  supabase: SupabaseServerClient,
+  client: GitHubClient,
+  params: { project: GitHubProject; userId: string; message: string; merge?: boolean }
+): Promise<PushResult> {
+  const { project, userId, message, merge = false } = params;
+  const link = getLinkedRepo(project);
+  if (!link) throw new Error('The project is not linked to a GitHub repository');
+
+  let local = await loadLocalContents(supabase, project.id);
+  const unresolved = Object.keys(local).filter((path) => hasConflictMarkers(local[path])).sort();
+  if (unresolved.length > 0) return { status: 'unresolved', files: unresolved };
+
+  const head = await ensureBranch(client, link.repo, link.branch);
+  let merged: string[] = [];
+
+  if (!project.github_synced_sha) {
+    // First push: files already on the branch join the project, so the branch
+    // can mirror the project (deletions included) from then on
+    const remote = await fetchCommitFiles(client, link.repo, head.commitSha);
+    const snapshot: VersionSnapshot = {};
+    for (const [path, content] of Object.entries(remote)) {
+      if (!(path in local)) snapshot[path] = { content, language: getLanguageFromPath(path) };
+    }
+    merged = Object.keys(snapshot).sort();
+    if (merged.length > 0) {
+      await createProjectVersion(supabase, {
+        projectId: project.id,
+        userId,
+        kind: 'manual',
+        label: `Before linking ${link.repo.owner}/${link.repo.repo}`,
+      });
+      await applySnapshot(supabase, project.id, snapshot);
+      local = await loadLocalContents(supabase, project.id);
+    }
+  } else if (head.commitSha !== project.github_synced_sha) {
+    if (!merge) return { status: 'remote-moved', remoteSha: head.commitSha };
+
+    const changes = await previewPull(supabase, client, project, head.commitSha);
+    const conflicts = changes.filter((change) => change.result === 'conflict').map((change) => change.path);
+    if (conflicts.length > 0) return { status: 'conflicts', remoteSha: head.commitSha, conflicts };
+
+    if (changes.length > 0) {
+      await createProjectVersion(supabase, {
+        projectId: project.id,
+        userId,
+        kind: 'manual',
+        label: `Before merging ${head.commitSha.slice(0, 7)} from GitHub`,
+      });
+      await applySnapshot(supabase, project.id, toSnapshot(changes));
+      local = await loadLocalContents(supabase, project.id);
+      merged = changes.map((change) => change.path);
+    }
+  }
+
+  let commitSha: string | null;
+  try {
+    commitSha = await commitFiles(client, link.repo, link.branch, head, local, message, { deleteMissing: true });
+  } catch (error) {
+    // The branch moved between reading its head and updating it
+    if ((error as { status?: number }).status === 422) {
+      const latest = await getBranchHead(client, link.repo, link.branch);
+      if (latest && latest.commitSha !== head.commitSha) return { status: 'remote-moved', remoteSha: latest.commitSha };
+    }
+    throw error;
+  }
+
+  await recordSync(supabase, project.id, { syncedSha: commitSha ?? head.commitSha });
+  const url = repoUrl(link.repo);
+  if (!commitSha) return { status: 'up-to-date', repoUrl: url, commitSha: head.commitSha };
+  return { status: 'pushed', repoUrl: url, commitSha, commitUrl: `${url}/commit/${commitSha}`, merged };
+}
+
+const RUN_BRANCH_PREFIX = 'rork/run-';
+const PR_TITLE_LENGTH = 72;
+
+export type RunPullRequest = PullRequestRef & { branch: string };
+
+type RunDescription = Pick<AgentRun, 'id' | 'prompt' | 'plan' | 'summary'>;
+
+function runPullRequestTitle(prompt: string): string {
+  const firstLine = prompt.trim().split('\n')[0].trim() || 'Agent run';
+  return firstLine.length > PR_TITLE_LENGTH ? `${firstLine.slice(0, PR_TITLE_LENGTH - 1)}…` : firstLine;
+}
+
+/** Pull request description: the prompt, the run's plan and its summary */
+export function runPullRequestBody(run: RunDescription): string {
+  const sections = [`## Prompt\n\n${run.prompt.trim().split('\n').map((line) => `> ${line}`).join('\n')}`];
+
+  if (run.plan) {
+    const { appName, appType, features, screens, planSteps, dependencies } = run.plan;
+    const list = (title: string, items: string[] | undefined) =>
+      items && items.length > 0 ? `\n\n**${title}**\n${items.map((item) => `- ${item}`).join('\n')}` : '';
+    sections.push(
+      `## Plan\n\n${appName} (${appType})` +
+      list('Steps', planSteps) +
+      list('Features', features) +
+      list('Screens', screens) +
+      list('Dependencies', dependencies)
+    );
+  }
+  if (run.summary) sections.push(`## Summary\n\n${run.summary.trim()}`);
+
+  sections.push(`---\nOpened by Rork for agent run \`${run.id}\`.`);
+  return sections.join('\n\n');
+}
+
+/**
+ * Push the project as it is after an agent run to its own branch
+ * (rork/run-<id>) and open a pull request into the linked branch. The branch
+ * starts from the last synced commit, so the pull request shows everything
+ * changed since then. Returns null when there is nothing to propose.
+ */
+export async function pushRunPullRequest(
+  supabase: SupabaseServerClient,
+  client: GitHubClient,
+  params: { project: GitHubProject; run: RunDescription }
+): Promise<RunPullRequest | null> {
+  const { project, run } = params;
+  const link = getLinkedRepo(project);
+  if (!link) throw new Error('The project is not linked to a GitHub repository');
+
+  const local = await loadLocalContents(supabase, project.id);
+  if (Object.values(local).some(hasConflictMarkers)) {
+    throw new Error('Some files still contain merge conflict markers');
+  }
+
+  const base = project.github_synced_sha ?? (await ensureBranch(client, link.repo, link.branch)).commitSha;
+  const branch = `${RUN_BRANCH_PREFIX}${run.id.slice(0, 8)}`;
+  const head = await ensureBranch(client, link.repo, branch, base);
+
+  const title = runPullRequestTitle(run.prompt);
+  const commitSha = await commitFiles(client, link.repo, branch, head, local, title, {
+    deleteMissing: Boolean(project.github_synced_sha),
+  });
+  if (!commitSha) return null;
+
+  const pull = await client.createPullRequest(link.repo, {
+    title,
+    body: runPullRequestBody(run),
+    head: branch,
+    base: link.branch,
+  });
+  return { ...pull, branch };
+}
+
+/**
+ * Open a pull request for a finished run when its project is linked and has
+ * pull requests per run turned on. Best effort: failures are logged, as the
+ * run itself already succeeded. The pull request's URL is saved on the run.
+ */
+export async function openRunPullRequest(
+  supabase: SupabaseServerClient,
+  run: Pick<AgentRun, 'id' | 'project_id' | 'user_id' | 'prompt' | 'plan' | 'summary'>
+): Promise<RunPullRequest | null> {
+  try {
+    const project = await loadGitHubProject(supabase, run.project_id, run.user_id);
+    if (!project?.github_pr_per_run || !getLinkedRepo(project)) return null;
+
+    const githubToken = await getGitHubToken(supabase, run.user_id, 'github-run-pr');
+    if (!githubToken) return null;
+
+    const pull = await pushRunPullRequest(supabase, createGitHubClient(githubToken), { project, run });
+    if (pull) {
+      const { error } = await supabase.from('agent_runs').update({ github_pr_url: pull.url }).eq('id', run.id);
+      if (error) console.error('Failed to save run pull request:', error);
+    }
+    return pull;
+  } catch (error) {
+    console.error('Failed to open run pull request:', error);
+    return null;
+  }
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import {
+  commitFiles,
+  createFakeGitHubClient,
+  fetchCommitFiles,
+  getBranchHead,
+  type BranchHead,
+  type GitHubClient,
+  type RepoRef,
+} from '@/lib/github';
+
+let repoCount = 0;
+
+/** A new repo in the fake (whose repos are shared by the whole process) with main holding exactly `files` */
+async function createRepo(files: Record<string, string>): Promise<{ client: GitHubClient; repo: RepoRef; head: BranchHead }> {
+  const client = createFakeGitHubClient();
+  const name = `github-test-${++repoCount}`;
+  await client.createRepo(name, { isPrivate: true, description: 'Test repo' });
+  const repo = { owner: await client.getLogin(), repo: name };
+
+  const initial = (await getBranchHead(client, repo, 'main'))!;
+  const entries = await Promise.all(Object.entries(files).map(async ([path, content]) => ({
+    path,
+    mode: path.startsWith('bin/') ? '100755' : '100644',
+    type: 'blob' as const,
+    sha: await client.createBlob(repo, content),
+  })));
+  const treeSha = await client.createTree(repo, entries);
+  const commitSha = await client.createCommit(repo, { message: 'Seed', treeSha, parents: [initial.commitSha] });
+  await client.updateBranch(repo, 'main', commitSha);
+  return { client, repo, head: { commitSha, treeSha } };
+}
+
+async function treeModes(client: GitHubClient, repo: RepoRef, commitSha: string): Promise<Record<string, string>> {
+  const tree = await client.getTree(repo, await client.getCommitTreeSha(repo, commitSha));
+  return Object.fromEntries(tree.filter((entry) => entry.type === 'blob').map((entry) => [entry.path, entry.mode]));
+}
+
+/** `client` with the most blob requests it had pending at once */
+function trackBlobRequests(client: GitHubClient) {
+  const tracked = { client: { ...client }, pending: 0, maxPending: 0 };
+  const track = <A extends unknown[], R>(request: (...args: A) => Promise<R>) => async (...args: A) => {
+    tracked.maxPending = Math.max(tracked.maxPending, ++tracked.pending);
+    try {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return await request(...args);
+    } finally {
+      tracked.pending--;
+    }
+  };
+  tracked.client.getBlob = track(client.getBlob);
+  tracked.client.createBlob = track(client.createBlob);
+  return tracked;
+}
+
+const SEED = {
+  'app/index.tsx': 'export default function Home() {}\n',
+  'app/settings.tsx': 'export default function Settings() {}\n',
+  'assets/icon.png': 'PNG\0\0',
+  'assets/font': 'binary\0data',
+  'ios/Podfile': "platform :ios, '15.1'\n",
+  'bin/setup.sh': '#!/bin/sh\n',
+};
+
+describe('fetchCommitFiles', () => {
+  it('returns the text files a project can hold', async () => {
+    const { client, repo, head } = await createRepo(SEED);
+    const files = await fetchCommitFiles(client, repo, head.commitSha);
+
+    expect(Object.keys(files).sort()).toEqual(['app/index.tsx', 'app/settings.tsx', 'bin/setup.sh']);
+    expect(files['app/index.tsx']).toBe(SEED['app/index.tsx']);
+  });
+});
+
+describe('commitFiles', () => {
+  it('deletes project files missing from the project and keeps everything else', async () => {
+    const { client, repo, head } = await createRepo(SEED);
+    const files = {
+      'app/index.tsx': 'export default function Home() { return null; }\n',
+      'bin/setup.sh': '#!/bin/sh\nnpm install\n',
+    };
+
+    const commitSha = await commitFiles(client, repo, 'main', head, files, 'Update', { deleteMissing: true });
+
+    expect(commitSha).not.toBeNull();
+    expect(await client.getBranchSha(repo, 'main')).toBe(commitSha);
+    // app/settings.tsx is deleted; assets and native code stay
+    expect(await treeModes(client, repo, commitSha!)).toEqual({
+      'app/index.tsx': '100644',
+      'assets/font': '100644',
+      'assets/icon.png': '100644',
+      'bin/setup.sh': '100755',
+      'ios/Podfile': '100644',
+    });
+    expect(await fetchCommitFiles(client, repo, commitSha!)).toEqual(files);
+  });
+
+  it('keeps files missing from the project without deleteMissing', async () => {
+    const { client, repo, head } = await createRepo(SEED);
+    const commitSha = await commitFiles(client, repo, 'main', head, { 'app/new.tsx': 'export {};\n' }, 'Add a file');
+
+    const files = await fetchCommitFiles(client, repo, commitSha!);
+    expect(Object.keys(files).sort()).toEqual(['app/index.tsx', 'app/new.tsx', 'app/settings.tsx', 'bin/setup.sh']);
+  });
+
+  it('makes no commit when nothing changed', async () => {
+    const { client, repo, head } = await createRepo(SEED);
+    const files = await fetchCommitFiles(client, repo, head.commitSha);
+
+    expect(await commitFiles(client, repo, 'main', head, files, 'Nothing', { deleteMissing: true })).toBeNull();
+    expect(await client.getBranchSha(repo, 'main')).toBe(head.commitSha);
+  });
+
+  it('refuses to move a branch that moved since the parent', async () => {
+    const { client, repo, head } = await createRepo(SEED);
+    await commitFiles(client, repo, 'main', head, { 'app/index.tsx': 'remote\n' }, 'Remote edit');
+
+    await expect(commitFiles(client, repo, 'main', head, { 'app/index.tsx': 'local\n' }, 'Local edit'))
+      .rejects.toMatchObject({ status: 422 });
+  });
+
+  it('keeps at most 8 blob requests pending', async () => {
+    const many = Object.fromEntries(Array.from({ length: 40 }, (_, i) => [`app/screen-${i}.tsx`, `export const n = ${i};\n`]));
+    const { client, repo, head } = await createRepo(many);
+
+    const reads = trackBlobRequests(client);
+    const files = await fetchCommitFiles(reads.client, repo, head.commitSha);
+    expect(files).toEqual(many);
+    expect(reads.maxPending).toBe(8);
+
+    const writes = trackBlobRequests(client);
+    const edited = Object.fromEntries(Object.entries(many).slice(5).map(([path, content]) => [path, `${content}// edited\n`]));
+    const commitSha = await commitFiles(writes.client, repo, 'main', head, edited, 'Edit', { deleteMissing: true });
+    expect(await fetchCommitFiles(client, repo, commitSha!)).toEqual(edited);
+    expect(writes.maxPending).toBe(8);
+  });
+});
@@ -1,119 +1,490 @@
+import { createHash } from 'crypto';
 import { Octokit } from '@octokit/rest';
+import { getImportSkipReason, MAX_FILE_BYTES } from '@/lib/project-import';
 
-interface SyncOptions {
-  repoName?: string;
-  commitMessage?: string;
-  branch?: string;
-  isPrivate?: boolean;
+/**
+ * GitHub access for sync and import.
+ * Everything goes through the GitHubClient interface, so the Octokit client can
+ * be swapped for the in-memory fake (GITHUB_API_FAKE=1) to sync offline.
+ */
+
+export interface RepoRef {
+  owner: string;
+  repo: string;
 }
 
-export async function syncToGitHub(
-  accessToken: string,
-  projectName: string,
-  files: Record<string, string>,
-  options: SyncOptions = {}
-) {
+export interface BranchHead {
+  commitSha: string;
+  treeSha: string;
+}
+
+/** An entry of a recursive git tree */
+export interface TreeEntry {
+  path: string;
+  /** 100644 file · 100755 executable · 120000 symlink · 160000 submodule · 040000 directory */
+  mode: string;
+  type: 'blob' | 'tree' | 'commit';
+  sha: string;
+  size?: number;
+}
+
+export interface PullRequestRef {
+  number: number;
+  url: string;
+}
+
+export interface GitHubClient {
+  /** Login of the account the token belongs to */
+  getLogin(): Promise<string>;
+  /** The repo's default branch, or null if the repo doesn't exist */
+  getDefaultBranch(repo: RepoRef): Promise<string | null>;
+  /** Create a repo under the token's account, initialised with one commit */
+  createRepo(name: string, options: { isPrivate: boolean; description: string }): Promise<void>;
+  /** Commit `branch` points at, or null if it doesn't exist */
+  getBranchSha(repo: RepoRef, branch: string): Promise<string | null>;
+  getCommitTreeSha(repo: RepoRef, commitSha: string): Promise<string>;
+  /** All entries of a tree, subdirectories included */
+  getTree(repo: RepoRef, treeSha: string): Promise<TreeEntry[]>;
+  getBlob(repo: RepoRef, sha: string): Promise<Buffer>;
+  createBlob(repo: RepoRef, content: string): Promise<string>;
+  /** Create a tree holding exactly `entries` (directories are implied by the paths) */
+  createTree(repo: RepoRef, entries: Omit<TreeEntry, 'size'>[]): Promise<string>;
+  createCommit(repo: RepoRef, commit: { message: string; treeSha: string; parents: string[] }): Promise<string>;
+  createBranch(repo: RepoRef, branch: string, sha: string): Promise<void>;
+  /** Fast-forward `branch` to `sha`; fails with status 422 if the branch moved elsewhere */
+  updateBranch(repo: RepoRef, branch: string, sha: string): Promise<void>;
+  createPullRequest(repo: RepoRef, pull: { title: string; body: string; head: string; base: string }): Promise<PullRequestRef>;
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as { status?: number }).status === 404;
+}
+
+/** Client for GitHub's REST API, authenticated with a personal access token */
+export function createOctokitGitHubClient(accessToken: string): GitHubClient {
   const octokit = new Octokit({ auth: accessToken });
-  
-  const {
-    repoName = slugify(projectName),
-    commitMessage = 'Update from Rork',
-    branch = 'main',
-    isPrivate = true,
-  } = options;
-  
-  // Get authenticated user
-  const { data: user } = await octokit.users.getAuthenticated();
-  
-  // Check if repo exists
-  let repoExists = false;
-  try {
-    await octokit.repos.get({
-      owner: user.login,
-      repo: repoName,
-    });
-    repoExists = true;
-  } catch {
-    repoExists = false;
-  }
-  
-  // Create repo if it doesn't exist
-  if (!repoExists) {
-    await octokit.repos.createForAuthenticatedUser({
-      name: repoName,
-      private: isPrivate,
-      auto_init: true,
-      description: `Mobile app built with Rork AI`,
-    });
-    
-    // Wait a moment for repo to be ready
-    await new Promise(resolve => setTimeout(resolve, 1000));
-  }
-  
-  // Get current commit SHA
-  const { data: ref } = await octokit.git.getRef({
-    owner: user.login,
-    repo: repoName,
-    ref: `heads/${branch}`,
-  });
-  
-  const currentCommitSha = ref.object.sha;
-  
-  // Get current tree
-  const { data: commit } = await octokit.git.getCommit({
-    owner: user.login,
-    repo: repoName,
-    commit_sha: currentCommitSha,
-  });
-  
-  // Create blobs for all files
-  const blobs = await Promise.all(
-    Object.entries(files).map(async ([path, content]) => {
+
+  return {
+    async getLogin() {
+      const { data: user } = await octokit.users.getAuthenticated();
+      return user.login;
+    },
+
+    async getDefaultBranch(repo) {
+      try {
+        const { data: repository } = await octokit.repos.get({ ...repo });
+        return repository.default_branch;
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    async createRepo(name, { isPrivate, description }) {
+      await octokit.repos.createForAuthenticatedUser({ name, private: isPrivate, auto_init: true, description });
+    },
+
+    async getBranchSha(repo, branch) {
+      try {
+        const { data: ref } = await octokit.git.getRef({ ...repo, ref: `heads/${branch}` });
+        return ref.object.sha;
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    async getCommitTreeSha(repo, commitSha) {
+      const { data: commit } = await octokit.git.getCommit({ ...repo, commit_sha: commitSha });
+      return commit.tree.sha;
+    },
+
+    async getTree(repo, treeSha) {
+      const { data: tree } = await octokit.git.getTree({ ...repo, tree_sha: treeSha, recursive: 'true' });
+      if (tree.truncated) throw new Error(`${repo.owner}/${repo.repo} has too many files to sync`);
+      return tree.tree
+        .filter((item) => item.path && item.sha && item.mode && item.type)
+        .map((item) => ({
+          path: item.path!,
+          mode: item.mode!,
+          type: item.type as TreeEntry['type'],
+          sha: item.sha!,
+          size: item.size,
+        }));
+    },
+
+    async getBlob(repo, sha) {
+      const { data: blob } = await octokit.git.getBlob({ ...repo, file_sha: sha });
+      return Buffer.from(blob.content, 'base64');
+    },
+
+    async createBlob(repo, content) {
       const { data: blob } = await octokit.git.createBlob({
-        owner: user.login,
-        repo: repoName,
+        ...repo,
         content: Buffer.from(content).toString('base64'),
         encoding: 'base64',
       });
-      return { path, sha: blob.sha };
-    })
-  );
-  
-  // Create new tree
-  const { data: tree } = await octokit.git.createTree({
-    owner: user.login,
-    repo: repoName,
-    base_tree: commit.tree.sha,
-    tree: blobs.map(({ path, sha }) => ({
-      path,
-      mode: '100644' as const,
-      type: 'blob' as const,
-      sha,
-    })),
-  });
-  
-  // Create new commit
-  const { data: newCommit } = await octokit.git.createCommit({
-    owner: user.login,
-    repo: repoName,
-    message: commitMessage,
-    tree: tree.sha,
-    parents: [currentCommitSha],
-  });
-  
-  // Update ref
-  await octokit.git.updateRef({
-    owner: user.login,
-    repo: repoName,
-    ref: `heads/${branch}`,
-    sha: newCommit.sha,
-  });
-  
+      return blob.sha;
+    },
+
+    async createTree(repo, entries) {
+      const { data: tree } = await octokit.git.createTree({
+        ...repo,
+        tree: entries.map(({ path, mode, type, sha }) => ({
+          path,
+          mode: mode as '100644',
+          type,
+          sha,
+        })),
+      });
+      return tree.sha;
+    },
+
+    async createCommit(repo, { message, treeSha, parents }) {
+      const { data: commit } = await octokit.git.createCommit({ ...repo, message, tree: treeSha, parents });
+      return commit.sha;
+    },
+
+    async createBranch(repo, branch, sha) {
+      await octokit.git.createRef({ ...repo, ref: `refs/heads/${branch}`, sha });
+    },
+
+    async updateBranch(repo, branch, sha) {
+      await octokit.git.updateRef({ ...repo, ref: `heads/${branch}`, sha });
+    },
+
+    async createPullRequest(repo, { title, body, head, base }) {
+      const { data: pull } = await octokit.pulls.create({ ...repo, title, body, head, base });
+      return { number: pull.number, url: pull.html_url };
+    },
+  };
+}
+
+// ── In-memory fake ──
+
+interface FakeCommit {
+  treeSha: string;
+  parents: string[];
+}
+
+interface FakeRepo {
+  defaultBranch: string;
+  branches: Map<string, string>;
+  commits: Map<string, FakeCommit>;
+  trees: Map<string, TreeEntry[]>;
+  blobs: Map<string, Buffer>;
+  pulls: Array<{ number: number; head: string; base: string; title: string; body: string }>;
+}
+
+const FAKE_LOGIN = 'rork-local';
+
+// Shared by every fake client in the process, so state survives across requests
+const fakeRepos = new Map<string, FakeRepo>();
+
+function fakeSha(kind: string, data: string | Buffer): string {
+  return createHash('sha1').update(kind).update('\0').update(data).digest('hex');
+}
+
+function fakeError(status: number, message: string): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+/** Fast-forward check: whether `ancestor` is `commitSha` or one of its ancestors */
+function isAncestor(repo: FakeRepo, ancestor: string, commitSha: string): boolean {
+  const pending = [commitSha];
+  const seen = new Set<string>();
+  while (pending.length > 0) {
+    const sha = pending.pop()!;
+    if (sha === ancestor) return true;
+    if (seen.has(sha)) continue;
+    seen.add(sha);
+    pending.push(...(repo.commits.get(sha)?.parents ?? []));
+  }
+  return false;
+}
+
+/**
+ * Offline stand-in for the GitHub API. Repos live in process memory and
+ * behave like git: content-addressed objects, non-forced branch updates and
+ * pull requests, so sync can be exercised without a token or network.
+ */
+export function createFakeGitHubClient(): GitHubClient {
+  const getRepo = (ref: RepoRef): FakeRepo => {
+    const repo = fakeRepos.get(`${ref.owner}/${ref.repo}`);
+    if (!repo) throw fakeError(404, `Not Found: ${ref.owner}/${ref.repo}`);
+    return repo;
+  };
+
+  const writeTree = (repo: FakeRepo, entries: TreeEntry[]): string => {
+    const sorted = [...entries].sort((a, b) => a.path.localeCompare(b.path));
+    const sha = fakeSha('tree', sorted.map((entry) => `${entry.mode} ${entry.sha} ${entry.path}`).join('\n'));
+    repo.trees.set(sha, sorted);
+    return sha;
+  };
+
+  const writeBlob = (repo: FakeRepo, content: Buffer): string => {
+    const sha = fakeSha('blob', content);
+    repo.blobs.set(sha, content);
+    return sha;
+  };
+
   return {
-    repoUrl: `https://github.com/${user.login}/${repoName}`,
-    commitSha: newCommit.sha,
-    commitUrl: `https://github.com/${user.login}/${repoName}/commit/${newCommit.sha}`,
+    async getLogin() {
+      return FAKE_LOGIN;
+    },
+
+    async getDefaultBranch(ref) {
+      return fakeRepos.get(`${ref.owner}/${ref.repo}`)?.defaultBranch ?? null;
+    },
+
+    async createRepo(name, { description }) {
+      const repo: FakeRepo = {
+        defaultBranch: 'main',
+        branches: new Map(),
+        commits: new Map(),
+        trees: new Map(),
+        blobs: new Map(),
+        pulls: [],
+      };
+      const readme = writeBlob(repo, Buffer.from(`# ${name}\n\n${description}\n`));
+      const treeSha = writeTree(repo, [{ path: 'README.md', mode: '100644', type: 'blob', sha: readme }]);
+      const commitSha = fakeSha('commit', `${treeSha}\nInitial commit`);
+      repo.commits.set(commitSha, { treeSha, parents: [] });
+      repo.branches.set('main', commitSha);
+      fakeRepos.set(`${FAKE_LOGIN}/${name}`, repo);
+    },
+
+    async getBranchSha(ref, branch) {
+      return getRepo(ref).branches.get(branch) ?? null;
+    },
+
+    async getCommitTreeSha(ref, commitSha) {
+      const commit = getRepo(ref).commits.get(commitSha);
+      if (!commit) throw fakeError(404, `No commit ${commitSha}`);
+      return commit.treeSha;
+    },
+
+    async getTree(ref, treeSha) {
+      const entries = getRepo(ref).trees.get(treeSha);
+      if (!entries) throw fakeError(404, `No tree ${treeSha}`);
+      // Recursive listings include the directories
+      const directories = new Set(entries.flatMap((entry) =>
+        entry.path.split('/').slice(0, -1).map((_, i, segments) => segments.slice(0, i + 1).join('/'))
+      ));
+      return [
+        ...[...directories].map((path) => ({ path, mode: '040000', type: 'tree' as const, sha: fakeSha('dir', `${treeSha}/${path}`) })),
+        ...entries,
+      ];
+    },
+
+    async getBlob(ref, sha) {
+      const blob = getRepo(ref).blobs.get(sha);
+      if (!blob) throw fakeError(404, `No blob ${sha}`);
+      return blob;
+    },
+
+    async createBlob(ref, content) {
+      return writeBlob(getRepo(ref), Buffer.from(content));
+    },
+
+    async createTree(ref, entries) {
+      const repo = getRepo(ref);
+      return writeTree(repo, entries.filter((entry) => entry.type !== 'tree').map((entry) => ({
+        ...entry,
+        size: repo.blobs.get(entry.sha)?.length,
+      })));
+    },
+
+    async createCommit(ref, { message, treeSha, parents }) {
+      const repo = getRepo(ref);
+      const sha = fakeSha('commit', `${treeSha}\n${parents.join(' ')}\n${message}\n${Date.now()}`);
+      repo.commits.set(sha, { treeSha, parents });
+      return sha;
+    },
+
+    async createBranch(ref, branch, sha) {
+      const repo = getRepo(ref);
+      if (repo.branches.has(branch)) throw fakeError(422, 'Reference already exists');
+      repo.branches.set(branch, sha);
+    },
+
+    async updateBranch(ref, branch, sha) {
+      const repo = getRepo(ref);
+      const current = repo.branches.get(branch);
+      if (!current) throw fakeError(422, 'Reference does not exist');
+      if (!isAncestor(repo, current, sha)) throw fakeError(422, 'Update is not a fast forward');
+      repo.branches.set(branch, sha);
+    },
+
+    async createPullRequest(ref, pull) {
+      const repo = getRepo(ref);
+      if (!repo.branches.has(pull.head)) throw fakeError(422, `No branch ${pull.head}`);
+      const number = repo.pulls.length + 1;
+      repo.pulls.push({ number, ...pull });
+      return { number, url: `${repoUrl(ref)}/pull/${number}` };
+    },
+  };
+}
+
+/** The GitHub client for a user's token (the fake when GITHUB_API_FAKE is set) */
+export function createGitHubClient(accessToken: string): GitHubClient {
+  if (process.env.GITHUB_API_FAKE) return createFakeGitHubClient();
+  return createOctokitGitHubClient(accessToken);
+}
+
+/** "owner/repo" → { owner, repo } */
+export function parseRepoFullName(fullName: string): RepoRef | null {
+  const match = /^([\w.-]+)\/([\w.-]+)$/.exec(fullName.trim());
+  return match ? { owner: match[1], repo: match[2] } : null;
+}
+
+export function repoUrl({ owner, repo }: RepoRef): string {
+  return `https://github.com/${owner}/${repo}`;
+}
+
+/** The authenticated user's repo `repoName`, created (private by default) if it doesn't exist */
+export async function ensureRepo(client: GitHubClient, repoName: string, isPrivate = true): Promise<RepoRef> {
+  const ref = { owner: await client.getLogin(), repo: repoName };
+
+  if (!(await client.getDefaultBranch(ref))) {
+    await client.createRepo(repoName, { isPrivate, description: 'Mobile app built with Rork AI' });
+
+    // Wait a moment for repo to be ready
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  }
+  return ref;
+}
+
+/** Latest commit on `branch`, or null if the branch doesn't exist */
+export async function getBranchHead(client: GitHubClient, repo: RepoRef, branch: string): Promise<BranchHead | null> {
+  const commitSha = await client.getBranchSha(repo, branch);
+  if (!commitSha) return null;
+  return { commitSha, treeSha: await client.getCommitTreeSha(repo, commitSha) };
+}
+
+/**
+ * Head of `branch`, creating the branch if needed: from `from` when given,
+ * otherwise from the repo's default branch.
+ */
+export async function ensureBranch(
+  client: GitHubClient,
+  repo: RepoRef,
+  branch: string,
+  from?: string
+): Promise<BranchHead> {
+  const head = await getBranchHead(client, repo, branch);
+  if (head) return head;
+
+  let base: BranchHead | null;
+  if (from) {
+    base = { commitSha: from, treeSha: await client.getCommitTreeSha(repo, from) };
+  } else {
+    const defaultBranch = await client.getDefaultBranch(repo);
+    if (!defaultBranch) throw new Error(`${repo.owner}/${repo.repo} not found`);
+    base = await getBranchHead(client, repo, defaultBranch);
+  }
+  if (!base) throw new Error(`${repo.owner}/${repo.repo} has no commits to branch from`);
+  await client.createBranch(repo, branch, base.commitSha);
+  return base;
+}
+
+/**
+ * Whether a tree entry is a file a project can hold. Dependencies, build
+ * output, binaries, oversized files, symlinks and submodules are not, as for
+ * ZIP imports.
+ */
+function isProjectEntry(entry: TreeEntry): boolean {
+  return entry.type === 'blob' &&
+    (entry.mode === '100644' || entry.mode === '100755') &&
+    !getImportSkipReason(entry.path) &&
+    (entry.size ?? 0) <= MAX_FILE_BYTES;
+}
+
+function isBinary(content: Buffer): boolean {
+  return content.includes(0);
+}
+
+/** Blob requests in flight at once, so large repos don't hit GitHub's secondary rate limits */
+const BLOB_CONCURRENCY = 8;
+
+/** `items` mapped through `fn` with at most `limit` calls pending at a time, results in order */
+async function mapWithLimit<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
   };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/** Text files of a commit (path → content), limited to files a project can hold */
+export async function fetchCommitFiles(client: GitHubClient, repo: RepoRef, commitSha: string): Promise<Record<string, string>> {
+  const tree = await client.getTree(repo, await client.getCommitTreeSha(repo, commitSha));
+
+  // Fetch all file contents
+  const files: Record<string, string> = {};
+  await mapWithLimit(tree.filter(isProjectEntry), BLOB_CONCURRENCY, async (entry) => {
+    const content = await client.getBlob(repo, entry.sha);
+    if (!isBinary(content)) files[entry.path] = content.toString('utf-8');
+  });
+  return files;
+}
+
+/**
+ * Commit `files` as the project's content on top of `parent` and move
+ * `branch` to the new commit. The tree is built in full: with `deleteMissing`,
+ * parent files the project could hold but doesn't are deleted; everything else
+ * in the parent (assets, dependencies, native code...) is kept as it is.
+ * Without it, files not listed keep their content from the parent.
+ * Returns null when nothing changed, so no empty commit is made.
+ */
+export async function commitFiles(
+  client: GitHubClient,
+  repo: RepoRef,
+  branch: string,
+  parent: BranchHead,
+  files: Record<string, string>,
+  message: string,
+  options: { deleteMissing?: boolean } = {}
+): Promise<string | null> {
+  const parentEntries = (await client.getTree(repo, parent.treeSha)).filter((entry) => entry.type !== 'tree');
+  const parentByPath = new Map(parentEntries.map((entry) => [entry.path, entry]));
+
+  // Only text files are deleted: a binary without a known extension is not project content
+  const missing = parentEntries.filter((entry) => !(entry.path in files));
+  const deleted = new Set<string>();
+  if (options.deleteMissing) {
+    await mapWithLimit(missing.filter(isProjectEntry), BLOB_CONCURRENCY, async (entry) => {
+      if (!isBinary(await client.getBlob(repo, entry.sha))) deleted.add(entry.path);
+    });
+  }
+
+  // Create blobs for all files
+  const written = await mapWithLimit(Object.entries(files), BLOB_CONCURRENCY, async ([path, content]) => ({
+    path,
+    // Keep the executable bit of existing files
+    mode: parentByPath.get(path)?.mode === '100755' ? '100755' : '100644',
+    type: 'blob' as const,
+    sha: await client.createBlob(repo, content),
+  }));
+
+  const treeSha = await client.createTree(repo, [
+    ...missing
+      .filter((entry) => !deleted.has(entry.path))
+      .map(({ path, mode, type, sha }) => ({ path, mode, type, sha })),
+    ...written,
+  ]);
+  if (treeSha === parent.treeSha) return null;
+
+  const commitSha = await client.createCommit(repo, { message, treeSha, parents: [parent.commitSha] });
+
+  // Not forced: GitHub rejects the update if the branch moved since `parent`
+  await client.updateBranch(repo, branch, commitSha);
+  return commitSha;
 }
 
 export async function importFromGitHub(
@@ -121,62 +492,15 @@ export async function importFromGitHub(
   owner: string,
   repo: string,
   branch = 'main'
-): Promise<Record<string, string>> {
-  const octokit = new Octokit({ auth: accessToken });
-  
-  // Get tree
-  const { data: ref } = await octokit.git.getRef({
-    owner,
-    repo,
-    ref: `heads/${branch}`,
-  });
-  
-  const { data: commit } = await octokit.git.getCommit({
-    owner,
-    repo,
-    commit_sha: ref.object.sha,
-  });
-  
-  const { data: tree } = await octokit.git.getTree({
-    owner,
-    repo,
-    tree_sha: commit.tree.sha,
-    recursive: 'true',
-  });
-  
-  // Fetch all file contents
-  const files: Record<string, string> = {};
-  
-  const relevantFiles = tree.tree.filter(
-    item => item.type === 'blob' && 
-    !item.path?.startsWith('.git') &&
-    !item.path?.includes('node_modules')
-  );
-  
-  await Promise.all(
-    relevantFiles.map(async (item) => {
-      if (!item.sha || !item.path) return;
-      
-      try {
-        const { data: blob } = await octokit.git.getBlob({
-          owner,
-          repo,
-          file_sha: item.sha,
-        });
-        
-        // Decode base64 content
-        const content = Buffer.from(blob.content, 'base64').toString('utf-8');
-        files[item.path] = content;
-      } catch (error) {
-        console.error(`Failed to fetch ${item.path}:`, error);
-      }
-    })
-  );
-  
-  return files;
+): Promise<{ files: Record<string, string>; commitSha: string }> {
+  const client = createGitHubClient(accessToken);
+  const head = await getBranchHead(client, { owner, repo }, branch);
+  if (!head) throw new Error(`Branch ${branch} not found in ${owner}/${repo}`);
+
+  return { files: await fetchCommitFiles(client, { owner, repo }, head.commitSha), commitSha: head.commitSha };
 }
 
-function slugify(text: string): string {
+export function slugify(text: string): string {
   return text
     .toLowerCase()
     .replace(/[^\w\s-]/g, '')
@@ -0,0 +1,41 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ModelId } from '@rork/shared';
+import { getModelEndpoints, isModelId, resolveModel } from '@/lib/model-keys';
+import { createFakeSupabase } from '@/test/fake-supabase';
+
+describe('OpenRouter endpoint', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('is offered as its own OpenAI-compatible endpoint when OPENROUTER_API_KEY is set', async () => {
+    vi.stubEnv('OPENAI_COMPATIBLE_ENDPOINTS', '');
+    vi.stubEnv('OPENROUTER_API_KEY', 'sk-or-test');
+    vi.stubEnv('OPENROUTER_MODEL', 'anthropic/claude-sonnet-4');
+
+    expect(isModelId('custom:openrouter')).toBe(true);
+    expect(await resolveModel(createFakeSupabase({}), null, 'custom:openrouter' as ModelId, 'demo-generate')).toEqual({
+      type: 'openai-compatible',
+      apiKey: 'sk-or-test',
+      source: 'server',
+      config: {
+        baseUrl: 'https://openrouter.ai/api/v1',
+        model: 'anthropic/claude-sonnet-4',
+        headers: { 'HTTP-Referer': 'https://rork.io' },
+        displayName: 'OpenRouter (anthropic/claude-sonnet-4)',
+      },
+    });
+  });
+
+  it('is not offered without a key, and an endpoint entry with its id wins', () => {
+    vi.stubEnv('OPENROUTER_API_KEY', '');
+    vi.stubEnv('OPENAI_COMPATIBLE_ENDPOINTS', '');
+    expect(getModelEndpoints()).toEqual([]);
+
+    vi.stubEnv('OPENROUTER_API_KEY', 'sk-or-test');
+    vi.stubEnv('OPENAI_COMPATIBLE_ENDPOINTS', JSON.stringify([
+      { id: 'openrouter', baseUrl: 'https://proxy.example.com/v1', model: 'openai/gpt-4.1' },
+    ]));
+    expect(getModelEndpoints().map((endpoint) => endpoint.baseUrl)).toEqual(['https://proxy.example.com/v1']);
+  });
+});
@@ -0,0 +1,216 @@
+import { openRouterConfig, type AIProviderType, type OpenAICompatibleConfig } from '@ai-engine/core';
+import type { ModelId, ModelKeySource, ModelOption, ModelProvider } from '@rork/shared';
+import type { createClient } from '@/lib/supabase/server';
+import { openToken, TOKEN_COLUMNS, type TokenPurpose } from '@/lib/token-vault';
+
+/**
+ * Which model and API key a run uses. For the built-in providers a user's
+ * own key (saved in the token vault) is preferred over the server's key from
+ * the environment. OpenAI-compatible endpoints (OpenRouter, vLLM, Ollama,
+ * LM Studio, ...) are configured by the operator in
+ * OPENAI_COMPATIBLE_ENDPOINTS, a JSON array of
+ * { id, name?, baseUrl, model, apiKey?, headers? }, and offered to every user
+ * as "custom:<id>". OPENROUTER_API_KEY adds OpenRouter as one more such
+ * endpoint, "custom:openrouter" (model from OPENROUTER_MODEL).
+ */
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+export const MODEL_PROVIDERS: ModelProvider[] = ['claude', 'gemini'];
+
+const PROVIDER_NAMES: Record<ModelProvider, string> = {
+  claude: 'Claude',
+  gemini: 'Gemini',
+};
+
+const SERVER_KEY_ENV: Record<ModelProvider, string> = {
+  claude: 'ANTHROPIC_API_KEY',
+  gemini: 'GEMINI_API_KEY',
+};
+
+const VALIDATION_TIMEOUT_MS = 10_000;
+
+const CUSTOM_MODEL_PREFIX = 'custom:';
+
+const OPENROUTER_ENDPOINT_ID = 'openrouter';
+
+interface ModelEndpoint extends OpenAICompatibleConfig {
+  id: string;
+  apiKey?: string;
+}
+
+export interface ResolvedModel {
+  type: AIProviderType;
+  apiKey: string;
+  source: ModelKeySource;
+  /** The endpoint, for 'openai-compatible' */
+  config?: OpenAICompatibleConfig;
+}
+
+export function isModelProvider(value: unknown): value is ModelProvider {
+  return MODEL_PROVIDERS.includes(value as ModelProvider);
+}
+
+let cachedEndpoints: { source: string; endpoints: ModelEndpoint[] } | null = null;
+
+/** OpenRouter from OPENROUTER_API_KEY, or null when it isn't set */
+function getOpenRouterEndpoint(): ModelEndpoint | null {
+  const apiKey = process.env.OPENROUTER_API_KEY;
+  if (!apiKey || apiKey.startsWith('your-')) return null;
+  return { id: OPENROUTER_ENDPOINT_ID, apiKey, ...openRouterConfig(process.env.OPENROUTER_MODEL || undefined) };
+}
+
+/**
+ * OpenAI-compatible endpoints from OPENAI_COMPATIBLE_ENDPOINTS (invalid
+ * entries are skipped), then OpenRouter unless an entry already uses its id
+ */
+export function getModelEndpoints(): ModelEndpoint[] {
+  const endpointsJson = process.env.OPENAI_COMPATIBLE_ENDPOINTS ?? '';
+  const source = [endpointsJson, process.env.OPENROUTER_API_KEY, process.env.OPENROUTER_MODEL].join('\n');
+  if (cachedEndpoints?.source === source) return cachedEndpoints.endpoints;
+
+  let entries: unknown = [];
+  try {
+    entries = endpointsJson.trim() ? JSON.parse(endpointsJson) : [];
+  } catch {
+    console.error('OPENAI_COMPATIBLE_ENDPOINTS is not valid JSON');
+  }
+
+  const endpoints: ModelEndpoint[] = [];
+  for (const entry of Array.isArray(entries) ? entries : []) {
+    const { id, name, baseUrl, model, apiKey, headers } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof id !== 'string' || !/^[\w.-]+$/.test(id) || typeof baseUrl !== 'string' || typeof model !== 'string') {
+      console.error('Skipping OPENAI_COMPATIBLE_ENDPOINTS entry without a valid id, baseUrl and model:', id);
+      continue;
+    }
+    endpoints.push({
+      id,
+      baseUrl,
+      model,
+      displayName: typeof name === 'string' ? name : model,
+      apiKey: typeof apiKey === 'string' ? apiKey : undefined,
+      headers: headers && typeof headers === 'object' ? (headers as Record<string, string>) : undefined,
+    });
+  }
+
+  const openRouter = getOpenRouterEndpoint();
+  if (openRouter && !endpoints.some((endpoint) => endpoint.id === openRouter.id)) endpoints.push(openRouter);
+
+  cachedEndpoints = { source, endpoints };
+  return endpoints;
+}
+
+function findEndpoint(model: ModelId): ModelEndpoint | undefined {
+  if (!model.startsWith(CUSTOM_MODEL_PREFIX)) return undefined;
+  const id = model.slice(CUSTOM_MODEL_PREFIX.length);
+  return getModelEndpoints().find((endpoint) => endpoint.id === id);
+}
+
+/** A built-in provider, or a configured endpoint */
+export function isModelId(value: unknown): value is ModelId {
+  return isModelProvider(value) || (typeof value === 'string' && !!findEndpoint(value as ModelId));
+}
+
+export function getModelName(model: ModelId): string {
+  return isModelProvider(model) ? PROVIDER_NAMES[model] : findEndpoint(model)?.displayName ?? model;
+}
+
+/** The server's key for `provider`, ignoring unset and placeholder values */
+function getServerKey(provider: ModelProvider): string | null {
+  const key = process.env[SERVER_KEY_ENV[provider]];
+  return key && !key.startsWith('your-') ? key : null;
+}
+
+/**
+ * Which key each provider would use for the user, without decrypting
+ * anything: 'user' when they saved their own, 'server' when only the
+ * server has one, null when the provider can't be used.
+ */
+async function getModelKeySources(
+  supabase: SupabaseServerClient,
+  userId: string
+): Promise<Record<ModelProvider, ModelKeySource | null>> {
+  const { data: settings } = await supabase
+    .from('user_settings')
+    .select(MODEL_PROVIDERS.map((provider) => TOKEN_COLUMNS[provider]).join(', '))
+    .eq('user_id', userId)
+    .maybeSingle();
+  const saved = (settings ?? {}) as Record<string, string | null>;
+
+  return Object.fromEntries(MODEL_PROVIDERS.map((provider) => [
+    provider,
+    saved[TOKEN_COLUMNS[provider]] ? 'user' : getServerKey(provider) ? 'server' : null,
+  ])) as Record<ModelProvider, ModelKeySource | null>;
+}
+
+/** Every model the user could pick: built-in providers, then configured endpoints */
+export async function listModels(supabase: SupabaseServerClient, userId: string): Promise<ModelOption[]> {
+  const keySources = await getModelKeySources(supabase, userId);
+  return [
+    ...MODEL_PROVIDERS.map((provider) => ({ id: provider, name: PROVIDER_NAMES[provider], keySource: keySources[provider] })),
+    ...getModelEndpoints().map((endpoint) => ({
+      id: `${CUSTOM_MODEL_PREFIX}${endpoint.id}` as ModelId,
+      name: endpoint.displayName ?? endpoint.model,
+      keySource: 'server' as const,
+    })),
+  ];
+}
+
+/**
+ * What to call `model` with for this user. Built-in providers use their own
+ * key when saved, else the server's (without a user, as in the signed-out
+ * demo, only the server's); endpoints use the operator's configuration.
+ * Null when the model can't be used.
+ */
+export async function resolveModel(
+  supabase: SupabaseServerClient,
+  userId: string | null,
+  model: ModelId,
+  purpose: TokenPurpose<ModelProvider>
+): Promise<ResolvedModel | null> {
+  if (!isModelProvider(model)) {
+    const endpoint = findEndpoint(model);
+    if (!endpoint) return null;
+    const { baseUrl, model: endpointModel, headers, displayName, apiKey = '' } = endpoint;
+    return { type: 'openai-compatible', apiKey, source: 'server', config: { baseUrl, model: endpointModel, headers, displayName } };
+  }
+
+  const userKey = userId ? await openToken(supabase, userId, model, purpose) : null;
+  if (userKey) return { type: model, apiKey: userKey, source: 'user' };
+
+  const serverKey = getServerKey(model);
+  return serverKey ? { type: model, apiKey: serverKey, source: 'server' } : null;
+}
+
+export function unavailableModelError(model: ModelId): string {
+  return isModelProvider(model)
+    ? `${PROVIDER_NAMES[model]} API key not configured. Add your own key in Settings.`
+    : `Model "${model}" is not configured on this server`;
+}
+
+/**
+ * Check a key against the provider by listing its models (free, no tokens
+ * used). Returns an error message, or null when the key works.
+ */
+export async function validateModelKey(provider: ModelProvider, apiKey: string): Promise<string | null> {
+  const request = provider === 'claude'
+    ? new Request('https://api.anthropic.com/v1/models?limit=1', {
+        headers: { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' },
+      })
+    : new Request('https://generativelanguage.googleapis.com/v1beta/models?pageSize=1', {
+        headers: { 'x-goog-api-key': apiKey },
+      });
+
+  let response: Response;
+  try {
+    response = await fetch(request, { signal: AbortSignal.timeout(VALIDATION_TIMEOUT_MS) });
+  } catch {
+    return `Could not reach ${PROVIDER_NAMES[provider]} to check the key. Try again.`;
+  }
+
+  if (response.ok) return null;
+  if ([400, 401, 403].includes(response.status)) {
+    return `${PROVIDER_NAMES[provider]} rejected this API key`;
+  }
+  return `${PROVIDER_NAMES[provider]} could not check the key (HTTP ${response.status}). Try again.`;
+}
@@ -0,0 +1,485 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { injectEasConfig, slugifyProjectName } from '@/lib/eas-build';
+import {
+  CORE_PACKAGES,
+  DEV_BUILD_PACKAGES,
+  getExpoSdk,
+  getPackageName,
+  ROUTER_PACKAGES,
+  type ExpoSdk,
+} from '@rork/shared';
+
+/**
+ * Project export: turns the project's files into a standalone Expo project by
+ * merging them with the packages/expo-template base, and reports anything that
+ * only works inside Snack.
+ */
+
+/** managed: runnable Expo project · eas: managed + EAS build config · source: files as-is */
+export type ExportMode = 'managed' | 'eas' | 'source';
+
+export const EXPORT_MODES: ExportMode[] = ['managed', 'eas', 'source'];
+
+export interface ExportIssue {
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  file?: string;
+}
+
+export interface ExportReport {
+  mode: ExportMode;
+  sdkVersion: string;
+  /** How the app starts: Expo Router's app/ directory or a root App component */
+  entry: 'expo-router' | 'app-component' | null;
+  /** Files the export adds or rewrites on top of the project's own */
+  generatedFiles: string[];
+  issues: ExportIssue[];
+}
+
+export interface ProjectExport {
+  files: Record<string, string>;
+  report: ExportReport;
+}
+
+// Template files that form the base of a managed project
+const TEMPLATE_BASE_FILES = ['package.json', 'app.json', 'tsconfig.json', 'babel.config.js'];
+
+const SOURCE_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js'];
+const RESOLVE_SUFFIXES = [
+  '',
+  ...SOURCE_EXTENSIONS,
+  ...['.ios', '.android', '.native', '.web'].flatMap((platform) => SOURCE_EXTENSIONS.map((ext) => platform + ext)),
+  '.json',
+  ...SOURCE_EXTENSIONS.map((ext) => `/index${ext}`),
+];
+
+const NODE_BUILTINS = new Set([
+  'fs', 'path', 'os', 'http', 'https', 'net', 'tls', 'child_process', 'crypto', 'stream',
+  'zlib', 'worker_threads', 'cluster', 'dgram', 'dns', 'readline', 'vm',
+]);
+
+// import x from 'y' · export * from 'y' · import 'y' · require('y') · import('y')
+const IMPORT_PATTERN = /(?:import|export)\s[^'"]*?\sfrom\s*['"]([^'"]+)['"]|import\s*['"]([^'"]+)['"]|(?:require|import)\s*\(\s*['"]([^'"]+)['"]\s*\)/g;
+const BROWSER_API_PATTERN = /\b(?:window\.(?:localStorage|sessionStorage|location|document|addEventListener)|document\.(?:getElementById|querySelector|createElement|body)|localStorage\.|sessionStorage\.)/;
+
+const GITIGNORE = `# Dependencies
+node_modules/
+
+# Expo
+.expo/
+dist/
+web-build/
+expo-env.d.ts
+
+# Native builds (managed workflow regenerates these)
+ios/
+android/
+
+# Misc
+.DS_Store
+*.log
+.env*.local
+`;
+
+let templateCache: Promise<Record<string, string>> | null = null;
+
+/** The packages/expo-template config files (path → content), read once per server */
+export function loadExpoTemplate(): Promise<Record<string, string>> {
+  templateCache ??= (async () => {
+    const candidates = [
+      path.join(process.cwd(), '../../packages/expo-template'),
+      path.join(process.cwd(), 'packages/expo-template'),
+    ];
+    for (const dir of candidates) {
+      const stat = await fs.stat(dir).catch(() => null);
+      if (!stat?.isDirectory()) continue;
+      const files: Record<string, string> = {};
+      for (const file of TEMPLATE_BASE_FILES) {
+        files[file] = await fs.readFile(path.join(dir, file), 'utf8');
+      }
+      return files;
+    }
+    throw new Error('Expo template not found');
+  })().catch((error) => {
+    templateCache = null;
+    throw error;
+  });
+  return templateCache;
+}
+
+function isSourcePath(filePath: string): boolean {
+  return SOURCE_EXTENSIONS.some((ext) => filePath.endsWith(ext));
+}
+
+function extractImports(content: string): string[] {
+  const specifiers: string[] = [];
+  for (const match of content.matchAll(IMPORT_PATTERN)) {
+    specifiers.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return specifiers;
+}
+
+/** Resolve a relative or `@/` import to a project file, if it exists */
+function resolveLocalImport(files: Record<string, string>, fromPath: string, specifier: string): string | null {
+  const base = specifier.startsWith('@/')
+    ? specifier.slice(2)
+    : path.posix.normalize(path.posix.join(path.posix.dirname(fromPath), specifier));
+  for (const suffix of RESOLVE_SUFFIXES) {
+    if (files[base + suffix] !== undefined) return base + suffix;
+  }
+  return null;
+}
+
+/** How the project starts: Expo Router when app/ has screens (and App.tsx, if any, only forwards to it) */
+export function detectEntry(files: Record<string, string>): ExportReport['entry'] {
+  const paths = Object.keys(files);
+  const hasRoutes = paths.some((p) => p.startsWith('app/') && isSourcePath(p));
+  const hasAppComponent = paths.some((p) => /^App\.(tsx|ts|jsx|js)$/.test(p));
+  const appIsRouterShim = hasAppComponent && /expo-router\/entry/.test(
+    files['App.tsx'] ?? files['App.js'] ?? files['App.jsx'] ?? files['App.ts'] ?? ''
+  );
+
+  if (hasRoutes && (!hasAppComponent || appIsRouterShim)) return 'expo-router';
+  if (hasAppComponent) return 'app-component';
+  return hasRoutes ? 'expo-router' : null;
+}
+
+function parseJson(content: string | undefined): Record<string, unknown> | null {
+  if (content === undefined) return null;
+  try {
+    const value = JSON.parse(content);
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Packages imported by the source files, with the first file importing each */
+function collectImports(files: Record<string, string>, issues: ExportIssue[]): Map<string, string> {
+  const packages = new Map<string, string>();
+
+  for (const [filePath, content] of Object.entries(files)) {
+    if (!isSourcePath(filePath)) continue;
+
+    for (const specifier of extractImports(content)) {
+      if (specifier.startsWith('.') || specifier.startsWith('@/')) {
+        if (!resolveLocalImport(files, filePath, specifier)) {
+          issues.push({ severity: 'error', file: filePath, message: `Import "${specifier}" does not resolve to a file in the project` });
+        }
+        continue;
+      }
+
+      const name = getPackageName(specifier.replace(/^node:/, ''));
+      if (NODE_BUILTINS.has(name)) {
+        issues.push({ severity: 'error', file: filePath, message: `"${specifier}" is a Node.js module and is not available in React Native` });
+        continue;
+      }
+      if (!packages.has(name)) packages.set(name, filePath);
+    }
+
+    if (BROWSER_API_PATTERN.test(content)) {
+      issues.push({
+        severity: 'warning',
+        file: filePath,
+        message: 'Uses browser-only APIs (window/document/localStorage) that work in the web preview but crash on iOS and Android',
+      });
+    }
+  }
+  return packages;
+}
+
+/**
+ * package.json for the exported project: the template's scripts and dev
+ * dependencies, the entry point, and dependencies pinned to the SDK's versions.
+ */
+function reconcilePackageJson(
+  sdk: ExpoSdk,
+  projectName: string,
+  projectPackage: Record<string, unknown> | null,
+  templatePackage: Record<string, unknown> | null,
+  entry: ExportReport['entry'],
+  imports: Map<string, string>,
+  issues: ExportIssue[]
+): string {
+  const declared = { ...(projectPackage?.dependencies as Record<string, string> | undefined) };
+  const dependencies: Record<string, string> = {};
+
+  const required = [...CORE_PACKAGES, ...(entry === 'expo-router' ? ROUTER_PACKAGES : [])];
+  for (const name of new Set([...required, ...Object.keys(declared), ...imports.keys()])) {
+    const sdkVersion = sdk.packages[name];
+    const current = declared[name];
+
+    if (sdkVersion) {
+      dependencies[name] = sdkVersion;
+      if (current && current !== sdkVersion) {
+        issues.push({ severity: 'info', file: 'package.json', message: `${name}: ${current} → ${sdkVersion} (Expo SDK ${sdk.major})` });
+      } else if (!current && imports.has(name)) {
+        issues.push({ severity: 'info', file: 'package.json', message: `Added ${name}@${sdkVersion}, imported in ${imports.get(name)}` });
+      }
+    } else if (current) {
+      dependencies[name] = current;
+      if (current === '*' || current === 'latest') {
+        issues.push({ severity: 'warning', file: 'package.json', message: `${name} has no pinned version ("${current}"); pin it before building` });
+      }
+    } else if (imports.has(name)) {
+      issues.push({
+        severity: 'warning',
+        file: imports.get(name),
+        message: `"${name}" is imported but not in package.json (Snack installs it automatically); run npx expo install ${name}`,
+      });
+    }
+
+    if (sdk.deprecated[name] && dependencies[name]) {
+      issues.push({ severity: 'warning', file: imports.get(name), message: `${name} is deprecated in Expo SDK ${sdk.major}; use ${sdk.deprecated[name]}` });
+    }
+    if (DEV_BUILD_PACKAGES.includes(name) && dependencies[name]) {
+      issues.push({ severity: 'warning', message: `${name} contains native code that Expo Go lacks; use a development build (npx expo run:ios / run:android)` });
+    }
+  }
+
+  const templateScripts = (templatePackage?.scripts as Record<string, string> | undefined) ?? {};
+  const pkg = {
+    ...projectPackage,
+    name: slugifyProjectName(projectName),
+    version: (projectPackage?.version as string | undefined) ?? '1.0.0',
+    private: true,
+    main: entry === 'expo-router' ? 'expo-router/entry' : 'expo/AppEntry.js',
+    scripts: { ...templateScripts, ...(projectPackage?.scripts as Record<string, string> | undefined) },
+    dependencies: Object.fromEntries(Object.entries(dependencies).sort(([a], [b]) => a.localeCompare(b))),
+    devDependencies: {
+      ...(projectPackage?.devDependencies as Record<string, string> | undefined),
+      ...sdk.devDependencies,
+    },
+  };
+  return JSON.stringify(pkg, null, 2) + '\n';
+}
+
+/** app.json from the template, named after the project, without icons the export doesn't contain */
+function buildAppJson(
+  projectName: string,
+  files: Record<string, string>,
+  templateAppJson: Record<string, unknown> | null,
+  entry: ExportReport['entry'],
+  issues: ExportIssue[]
+): string {
+  const slug = slugifyProjectName(projectName);
+  const expo = { ...(templateAppJson?.expo as Record<string, unknown> | undefined) } as Record<string, unknown>;
+  expo.name = projectName;
+  expo.slug = slug;
+  expo.scheme = slug;
+  if (entry !== 'expo-router') {
+    delete expo.plugins;
+    delete expo.experiments;
+  }
+
+  // Drop references to image assets the project doesn't have
+  const dropMissing = (owner: Record<string, unknown> | undefined, key: string) => {
+    const value = owner?.[key];
+    if (owner && typeof value === 'string' && files[value.replace(/^\.\//, '')] === undefined) {
+      delete owner[key];
+      issues.push({ severity: 'info', file: 'app.json', message: `Removed ${key} (${value} is not in the project); add your own before publishing` });
+    }
+  };
+  dropMissing(expo, 'icon');
+  for (const key of ['splash', 'android', 'web', 'ios']) {
+    if (expo[key] && typeof expo[key] === 'object') expo[key] = { ...(expo[key] as object) };
+  }
+  dropMissing(expo.splash as Record<string, unknown> | undefined, 'image');
+  const android = expo.android as Record<string, unknown> | undefined;
+  if (android?.adaptiveIcon) {
+    android.adaptiveIcon = { ...(android.adaptiveIcon as object) };
+    dropMissing(android.adaptiveIcon as Record<string, unknown>, 'foregroundImage');
+  }
+  dropMissing(expo.web as Record<string, unknown> | undefined, 'favicon');
+
+  return JSON.stringify({ expo }, null, 2) + '\n';
+}
+
+function generateReadme(projectName: string, mode: ExportMode, report: ExportReport, dependencies: string[]): string {
+  const sdkMajor = getExpoSdk(report.sdkVersion).major;
+  const entryDescription = report.entry === 'expo-router'
+    ? 'The app uses Expo Router: every file in `app/` is a screen, and `app/_layout.tsx` defines the navigation.'
+    : report.entry === 'app-component'
+      ? 'The app starts from the `App` component in the project root.'
+      : 'No entry point was found (neither `App.tsx` nor an `app/` directory); add one before running the app.';
+
+  const errors = report.issues.filter((issue) => issue.severity === 'error').length;
+  const warnings = report.issues.filter((issue) => issue.severity === 'warning').length;
+  const reportNote = errors + warnings > 0
+    ? `\n> The export found ${errors} error(s) and ${warnings} warning(s) that may stop the app from running outside Snack. See \`EXPORT_REPORT.md\`.\n`
+    : '';
+
+  if (mode === 'source') {
+    return `# ${projectName}
+
+Source files exported from Rork. This export contains only the project's own
+files; it is not a complete Expo project.
+${reportNote}
+## Running it
+
+1. Create an Expo SDK ${sdkMajor} project:
+   \`\`\`bash
+   npx create-expo-app@latest ${slugifyProjectName(projectName)} --template blank-typescript@sdk-${sdkMajor}
+   \`\`\`
+2. Copy these files into it, replacing the generated ones.
+3. Install the dependencies the code imports:
+   \`\`\`bash
+   npx expo install ${dependencies.join(' ') || '<packages>'}
+   \`\`\`
+4. Start it with \`npx expo start\`.
+
+${entryDescription}
+`;
+  }
+
+  const easSection = mode === 'eas'
+    ? `## Building with EAS
+
+\`eas.json\` defines three build profiles:
+
+- \`development\`: development client, internal distribution (iOS simulator)
+- \`preview\`: internal distribution (APK on Android)
+- \`production\`: store builds with auto-incremented build numbers
+
+\`\`\`bash
+npm install -g eas-cli
+eas login
+eas init                                  # links the app to your Expo account
+eas build --profile preview --platform android
+eas build --profile production --platform ios
+eas submit --platform ios                 # after a production build
+\`\`\`
+
+The iOS bundle identifier and Android package in \`app.json\` were generated
+from the project name; change them before your first store build.
+`
+    : `## Building for the stores
+
+Native builds use [EAS Build](https://docs.expo.dev/build/introduction/):
+
+\`\`\`bash
+npm install -g eas-cli
+eas login
+eas build:configure
+eas build --platform android
+\`\`\`
+`;
+
+  return `# ${projectName}
+
+An Expo SDK ${sdkMajor} app exported from Rork.
+${reportNote}
+## Getting started
+
+Requires Node.js 18 or newer.
+
+\`\`\`bash
+npm install
+npx expo start
+\`\`\`
+
+Then scan the QR code with Expo Go (iOS/Android), or press \`w\` to open it in the browser.
+
+## Project structure
+
+${entryDescription}
+
+- \`app.json\`: app name, slug and platform settings
+- \`package.json\`: dependencies pinned to Expo SDK ${sdkMajor} (use \`npx expo install <package>\` to add more)
+
+${easSection}
+## Learn more
+
+- [Expo documentation](https://docs.expo.dev/)
+- [Expo Router](https://docs.expo.dev/router/introduction/)
+- [React Native](https://reactnative.dev/)
+`;
+}
+
+export function formatExportReport(projectName: string, report: ExportReport): string {
+  const lines = [
+    `# Export report: ${projectName}`,
+    '',
+    `- Mode: ${report.mode}`,
+    `- Expo SDK: ${report.sdkVersion}`,
+    `- Entry: ${report.entry ?? 'not found'}`,
+    `- Generated files: ${report.generatedFiles.join(', ') || 'none'}`,
+    '',
+  ];
+  for (const severity of ['error', 'warning', 'info'] as const) {
+    const issues = report.issues.filter((issue) => issue.severity === severity);
+    if (issues.length === 0) continue;
+    lines.push(`## ${severity === 'error' ? 'Errors' : severity === 'warning' ? 'Warnings' : 'Changes'}`, '');
+    for (const issue of issues) {
+      lines.push(`- ${issue.file ? `\`${issue.file}\`: ` : ''}${issue.message}`);
+    }
+    lines.push('');
+  }
+  if (report.issues.length === 0) lines.push('No issues found.', '');
+  return lines.join('\n');
+}
+
+/**
+ * Build the exported file set. Project files win over the template; config
+ * files are only added when the project lacks them, except package.json,
+ * which is always reconciled for the managed modes.
+ */
+export function buildProjectExport(
+  projectName: string,
+  projectFiles: Record<string, string>,
+  mode: ExportMode,
+  template: Record<string, string>,
+  sdk: ExpoSdk
+): ProjectExport {
+  const issues: ExportIssue[] = [];
+  const entry = detectEntry(projectFiles);
+  if (!entry) {
+    issues.push({ severity: 'error', message: 'No entry point: add App.tsx or an app/ directory with screens' });
+  }
+
+  const imports = collectImports(projectFiles, issues);
+  const files = { ...projectFiles };
+  const generated = new Set<string>();
+  const write = (filePath: string, content: string) => {
+    if (files[filePath] !== content) generated.add(filePath);
+    files[filePath] = content;
+  };
+
+  const projectPackage = parseJson(projectFiles['package.json']);
+  if (projectFiles['package.json'] !== undefined && !projectPackage) {
+    issues.push({ severity: 'error', file: 'package.json', message: 'package.json is not valid JSON' + (mode === 'source' ? '' : '; it was regenerated') });
+  }
+
+  if (mode !== 'source') {
+    write('package.json', reconcilePackageJson(sdk, projectName, projectPackage, parseJson(template['package.json']), entry, imports, issues));
+
+    if (files['app.json'] === undefined) {
+      write('app.json', buildAppJson(projectName, files, parseJson(template['app.json']), entry, issues));
+    } else if (!parseJson(files['app.json'])) {
+      issues.push({ severity: 'error', file: 'app.json', message: 'app.json is not valid JSON' });
+    }
+
+    for (const base of TEMPLATE_BASE_FILES) {
+      if (files[base] === undefined && template[base] !== undefined) write(base, template[base]);
+    }
+    if (files['.gitignore'] === undefined) write('.gitignore', GITIGNORE);
+
+    // eas.json plus the bundle identifiers; linking to an EAS project is left to `eas init`
+    if (mode === 'eas' && parseJson(files['app.json'])) {
+      for (const [filePath, content] of Object.entries(injectEasConfig(files, projectName))) write(filePath, content);
+    }
+  }
+
+  const report: ExportReport = { mode, sdkVersion: sdk.version, entry, generatedFiles: [], issues };
+  if (projectFiles['README.md'] === undefined) {
+    const dependencies = [...imports.keys()].filter((name) => !['react', 'react-native'].includes(name)).sort();
+    write('README.md', generateReadme(projectName, mode, report, dependencies));
+  } else {
+    issues.push({ severity: 'info', file: 'README.md', message: 'Kept the project\'s own README.md' });
+  }
+
+  report.generatedFiles = [...generated].sort();
+  if (issues.length > 0) files['EXPORT_REPORT.md'] = formatExportReport(projectName, report);
+  return { files, report };
+}
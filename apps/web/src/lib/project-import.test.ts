@@ -0,0 +1,62 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { MAX_FILE_BYTES, readProjectArchive } from '@/lib/project-import';
+
+async function zip(files: Record<string, string | Uint8Array>, compression: 'STORE' | 'DEFLATE' = 'STORE'): Promise<ArrayBuffer> {
+  const archive = new JSZip();
+  for (const [path, content] of Object.entries(files)) archive.file(path, content);
+  return archive.generateAsync({ type: 'arraybuffer', compression });
+}
+
+/** Rewrite the uncompressed size the local and central directory headers declare for `path` */
+function declareSize(data: ArrayBuffer, path: string, size: number): ArrayBuffer {
+  const view = new DataView(data);
+  const nameAt = (offset: number, lengthOffset: number, nameOffset: number) =>
+    new TextDecoder().decode(new Uint8Array(data, offset + nameOffset, view.getUint16(offset + lengthOffset, true))) === path;
+  for (let offset = 0; offset + 46 <= data.byteLength; offset++) {
+    const signature = view.getUint32(offset, true);
+    if (signature === 0x04034b50 && nameAt(offset, 26, 30)) view.setUint32(offset + 22, size, true);
+    if (signature === 0x02014b50 && nameAt(offset, 28, 46)) view.setUint32(offset + 24, size, true);
+  }
+  return data;
+}
+
+const PACKAGE_JSON = JSON.stringify({ name: 'imported-app', main: 'expo-router/entry' });
+
+describe('readProjectArchive', () => {
+  it('skips a file over the per-file limit and keeps the rest', async () => {
+    const archive = await readProjectArchive(await zip({
+      'package.json': PACKAGE_JSON,
+      'app/index.tsx': 'export default function Home() { return null; }\n',
+      'app/data.ts': `export const data = '${'a'.repeat(MAX_FILE_BYTES)}';\n`,
+    }));
+
+    expect(Object.keys(archive.files)).toEqual(['package.json', 'app/index.tsx']);
+    expect(archive.skipped).toEqual([{ path: 'app/data.ts', reason: 'larger than 512 KB' }]);
+  });
+
+  it('skips files once the project passes the total size limit', async () => {
+    // 20 files of 500 KB fit in 10 MB, the 21st doesn't
+    const files: Record<string, string> = { 'package.json': PACKAGE_JSON };
+    for (let index = 0; index < 21; index++) files[`src/data${String(index).padStart(2, '0')}.ts`] = 'a'.repeat(500 * 1024);
+
+    const archive = await readProjectArchive(await zip(files));
+
+    expect(Object.keys(archive.files)).toHaveLength(21);
+    expect(archive.skipped).toEqual([{ path: 'src/data20.ts', reason: 'project exceeds 10 MB' }]);
+  });
+
+  it('stops inflating an entry whose header understates its size', async () => {
+    // 16 MB of zeros deflates to a few KB; the headers claim 16 bytes
+    const bomb = declareSize(await zip({
+      'package.json': PACKAGE_JSON,
+      'app/index.tsx': 'export default function Home() { return null; }\n',
+      'app/bomb.ts': new Uint8Array(16 * 1024 * 1024),
+    }, 'DEFLATE'), 'app/bomb.ts', 16);
+
+    const archive = await readProjectArchive(bomb);
+
+    expect(Object.keys(archive.files)).toEqual(['package.json', 'app/index.tsx']);
+    expect(archive.skipped).toEqual([{ path: 'app/bomb.ts', reason: 'larger than 512 KB' }]);
+  });
+});
@@ -0,0 +1,241 @@
+import JSZip from 'jszip';
+import { findExpoSdkVersion, type ExpoSdkVersion } from '@rork/shared';
+import { detectEntry, type ExportReport } from '@/lib/project-export';
+
+/**
+ * Project import: reads an uploaded ZIP into project files. Dependencies,
+ * VCS data and build output are dropped, and only text files small enough
+ * for the editor are kept; everything else is listed as skipped.
+ */
+
+export const MAX_ARCHIVE_BYTES = 20 * 1024 * 1024;
+export const MAX_IMPORT_FILES = 500;
+export const MAX_FILE_BYTES = 512 * 1024;
+const MAX_TOTAL_BYTES = 10 * 1024 * 1024;
+
+// Directories that are never project sources, at any depth
+const IGNORED_DIRECTORIES = new Set([
+  'node_modules', '.git', '.expo', '.expo-shared', '.next', '.turbo', '.cache',
+  'dist', 'build', 'web-build', 'coverage', '__MACOSX',
+]);
+// Native projects: generated by `expo prebuild`, and Snack can't run them
+const NATIVE_DIRECTORIES = new Set(['ios', 'android']);
+const IGNORED_FILES = new Set(['.DS_Store', 'Thumbs.db', 'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb']);
+
+const BINARY_EXTENSIONS = new Set([
+  'png', 'jpg', 'jpeg', 'gif', 'webp', 'bmp', 'ico', 'heic', 'ttf', 'otf', 'woff', 'woff2',
+  'mp3', 'mp4', 'mov', 'wav', 'm4a', 'aac', 'pdf', 'zip', 'gz', 'jar', 'keystore', 'jks', 'p12',
+]);
+
+export interface SkippedFile {
+  path: string;
+  reason: string;
+}
+
+export interface RouterLayout {
+  /** Navigator used by app/_layout (null when there is no root layout) */
+  rootNavigator: 'stack' | 'tabs' | 'drawer' | 'slot' | null;
+  /** Route groups such as (tabs) or (auth) */
+  groups: string[];
+  screenCount: number;
+}
+
+export interface ProjectArchive {
+  files: Record<string, string>;
+  skipped: SkippedFile[];
+  /** Folder the archive wrapped the project in, if it was stripped */
+  rootDirectory: string | null;
+  entry: ExportReport['entry'];
+  router: RouterLayout | null;
+  /** Name from app.json or package.json, if either has one */
+  suggestedName: string | null;
+  /** SDK the package.json `expo` dependency targets, if it's one we support */
+  sdkVersion: ExpoSdkVersion | null;
+}
+
+/** Directory an entry is skipped with (reported once, not per file) */
+function skippedDirectory(path: string): SkippedFile | null {
+  const segments = path.split('/');
+  const ignored = segments.slice(0, -1).findIndex((segment) => IGNORED_DIRECTORIES.has(segment));
+  if (ignored >= 0) return { path: `${segments.slice(0, ignored + 1).join('/')}/`, reason: 'dependencies or build output' };
+  if (segments.length > 1 && NATIVE_DIRECTORIES.has(segments[0])) {
+    return { path: `${segments[0]}/`, reason: 'native project (regenerated by expo prebuild)' };
+  }
+  return null;
+}
+
+/** Why a file at `path` is not imported as project source, or null to import it */
+export function getImportSkipReason(path: string): string | null {
+  return skippedDirectory(path)?.reason ?? skipReason(path);
+}
+
+function skipReason(path: string): string | null {
+  const fileName = path.split('/').pop()!;
+  if (IGNORED_FILES.has(fileName)) return 'ignored file';
+  if (fileName.startsWith('.env')) return 'environment file (may contain secrets)';
+  const ext = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+  if (BINARY_EXTENSIONS.has(ext)) return 'binary file (assets are not supported yet)';
+  return null;
+}
+
+/** Single top-level folder every entry lives in, e.g. "my-app/" in a GitHub download */
+function commonRootDirectory(paths: string[]): string | null {
+  const first = paths[0]?.split('/')[0];
+  if (!first) return null;
+  return paths.every((path) => path.startsWith(`${first}/`)) ? first : null;
+}
+
+function decodeText(data: Uint8Array): string | null {
+  try {
+    const text = new TextDecoder('utf-8', { fatal: true }).decode(data);
+    return text.includes('\0') ? null : text;
+  } catch {
+    return null;
+  }
+}
+
+export function detectRouterLayout(files: Record<string, string>): RouterLayout | null {
+  const routes = Object.keys(files).filter((path) => path.startsWith('app/') && /\.(tsx|ts|jsx|js)$/.test(path));
+  if (routes.length === 0) return null;
+
+  const rootLayout = routes.find((path) => /^app\/_layout\.(tsx|ts|jsx|js)$/.test(path));
+  const layoutSource = rootLayout ? files[rootLayout] : '';
+  const rootNavigator = !rootLayout
+    ? null
+    : /<Tabs\b/.test(layoutSource) ? 'tabs'
+    : /<Drawer\b/.test(layoutSource) ? 'drawer'
+    : /<Stack\b/.test(layoutSource) ? 'stack'
+    : 'slot';
+
+  const groups = new Set<string>();
+  for (const path of routes) {
+    for (const segment of path.split('/')) {
+      if (/^\(.+\)$/.test(segment)) groups.add(segment);
+    }
+  }
+
+  return {
+    rootNavigator,
+    groups: [...groups].sort(),
+    screenCount: routes.filter((path) => !/(^|\/)(_layout|\+[^/]*)\.\w+$/.test(path)).length,
+  };
+}
+
+function suggestName(files: Record<string, string>): string | null {
+  for (const [path, read] of [
+    ['app.json', (json: Record<string, unknown>) => (json.expo as Record<string, unknown> | undefined)?.name],
+    ['package.json', (json: Record<string, unknown>) => json.name],
+  ] as const) {
+    try {
+      const name = files[path] ? read(JSON.parse(files[path])) : null;
+      if (typeof name === 'string' && name.trim()) return name.trim();
+    } catch {
+      // Invalid JSON is reported by the editor's lint, not here
+    }
+  }
+  return null;
+}
+
+function detectSdkVersion(files: Record<string, string>): ExpoSdkVersion | null {
+  try {
+    const pkg = files['package.json'] ? JSON.parse(files['package.json']) : null;
+    return findExpoSdkVersion(pkg?.dependencies?.expo);
+  } catch {
+    return null;
+  }
+}
+
+/** Inflate an entry, stopping as soon as it passes `limit` bytes (null then) */
+function inflateEntry(entry: JSZip.JSZipObject, limit: number): Promise<Uint8Array | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let length = 0;
+    let stopped = false;
+    const stream = entry.nodeStream('nodebuffer');
+    stream.on('data', (chunk: Buffer) => {
+      if (stopped) return;
+      length += chunk.length;
+      if (length <= limit) {
+        chunks.push(chunk);
+        return;
+      }
+      // A paused stream stops pulling, so JSZip stops inflating the rest
+      stopped = true;
+      chunks.length = 0;
+      stream.pause();
+      resolve(null);
+    });
+    stream.on('end', () => resolve(stopped ? null : Buffer.concat(chunks, length)));
+    // Still listened to once stopped: the chunk in flight can end the entry
+    // short of its declared size, which JSZip reports as an error
+    stream.on('error', (error) => {
+      if (!stopped) reject(error);
+    });
+  });
+}
+
+/** Read a ZIP upload into project files. Throws if the data is not a ZIP. */
+export async function readProjectArchive(data: ArrayBuffer): Promise<ProjectArchive> {
+  const zip = await JSZip.loadAsync(data);
+  // macOS Finder adds resource forks under __MACOSX/ next to the project folder
+  const entries = Object.values(zip.files).filter((entry) => !entry.dir && !entry.name.startsWith('__MACOSX/'));
+  const rootDirectory = commonRootDirectory(entries.map((entry) => entry.name));
+
+  const files: Record<string, string> = {};
+  const skipped: SkippedFile[] = [];
+  const skippedDirectories = new Set<string>();
+  let totalBytes = 0;
+
+  for (const entry of entries) {
+    const path = (rootDirectory ? entry.name.slice(rootDirectory.length + 1) : entry.name).replace(/^\/+/, '');
+    if (!path || path.split('/').includes('..')) {
+      skipped.push({ path: entry.name, reason: 'invalid path' });
+      continue;
+    }
+
+    const directory = skippedDirectory(path);
+    if (directory) {
+      if (!skippedDirectories.has(directory.path)) skipped.push(directory);
+      skippedDirectories.add(directory.path);
+      continue;
+    }
+    const reason = skipReason(path);
+    if (reason) {
+      skipped.push({ path, reason });
+      continue;
+    }
+    if (Object.keys(files).length >= MAX_IMPORT_FILES) {
+      skipped.push({ path, reason: `more than ${MAX_IMPORT_FILES} files` });
+      continue;
+    }
+
+    // Sizes in the archive's headers can lie, so the inflated bytes are what's capped
+    const fileLimit = Math.min(MAX_FILE_BYTES, MAX_TOTAL_BYTES - totalBytes);
+    const content = await inflateEntry(entry, fileLimit);
+    if (content === null) {
+      const reason = fileLimit === MAX_FILE_BYTES
+        ? `larger than ${MAX_FILE_BYTES / 1024} KB`
+        : `project exceeds ${MAX_TOTAL_BYTES / 1024 / 1024} MB`;
+      skipped.push({ path, reason });
+      continue;
+    }
+
+    const text = decodeText(content);
+    if (text === null) {
+      skipped.push({ path, reason: 'binary file (assets are not supported yet)' });
+      continue;
+    }
+    files[path] = text;
+    totalBytes += content.length;
+  }
+
+  return {
+    files,
+    skipped,
+    rootDirectory,
+    entry: detectEntry(files),
+    router: detectRouterLayout(files),
+    suggestedName: suggestName(files),
+    sdkVersion: detectSdkVersion(files),
+  };
+}
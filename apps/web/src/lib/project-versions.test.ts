@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import type { ProjectVersion } from '@rork/shared';
+import { createProjectVersion, loadVersions, replayVersions, SNAPSHOT_INTERVAL } from '@/lib/project-versions';
+import { createFakeSupabase, projectFileRows, type FakeRow } from '@/test/fake-supabase';
+
+const file = (content: string) => ({ content, language: 'typescript' });
+
+function projectTables(files: Record<string, string>): Record<string, FakeRow[]> {
+  return { project_files: projectFileRows('project-1', files), project_versions: [] };
+}
+
+function checkpoint(supabase: ReturnType<typeof createFakeSupabase>, label: string) {
+  return createProjectVersion(supabase, { projectId: 'project-1', userId: 'user-1', kind: 'manual', label });
+}
+
+/** Edit app/index.tsx and checkpoint, `count` times */
+async function editAndCheckpoint(tables: Record<string, FakeRow[]>, supabase: ReturnType<typeof createFakeSupabase>, count: number) {
+  for (let index = 0; index < count; index++) {
+    tables.project_files[0].content = `// edit ${index}\n`;
+    await checkpoint(supabase, `Edit ${index}`);
+  }
+}
+
+describe('createProjectVersion', () => {
+  it('stores the whole project first, then only the changes', async () => {
+    const tables = projectTables({ 'app/index.tsx': '// home\n', 'app/about.tsx': '// about\n' });
+    const supabase = createFakeSupabase(tables);
+
+    const first = await checkpoint(supabase, 'First');
+    tables.project_files[0].content = '// home v2\n';
+    tables.project_files.pop();
+    const second = await checkpoint(supabase, 'Second');
+
+    expect(first).toMatchObject({ full_snapshot: true, files: { 'app/index.tsx': file('// home\n'), 'app/about.tsx': file('// about\n') } });
+    expect(second).toMatchObject({ full_snapshot: false, files: { 'app/index.tsx': file('// home v2\n'), 'app/about.tsx': null } });
+  });
+
+  it(`takes a full snapshot every ${SNAPSHOT_INTERVAL} versions`, async () => {
+    const tables = projectTables({ 'app/index.tsx': '// home\n', 'app/about.tsx': '// about\n' });
+    const supabase = createFakeSupabase(tables);
+
+    await editAndCheckpoint(tables, supabase, 2 * SNAPSHOT_INTERVAL + 1);
+
+    const versions = await loadVersions(supabase, 'project-1');
+    expect(versions.flatMap((version, index) => (version.full_snapshot ? [index] : []))).toEqual([0, SNAPSHOT_INTERVAL, 2 * SNAPSHOT_INTERVAL]);
+    expect(versions[SNAPSHOT_INTERVAL].files).toEqual({
+      'app/index.tsx': file(`// edit ${SNAPSHOT_INTERVAL}\n`),
+      'app/about.tsx': file('// about\n'),
+    });
+  });
+
+  it('rebuilds the previous version from the latest snapshot only', async () => {
+    const tables = projectTables({ 'app/index.tsx': '// home\n', 'app/about.tsx': '// about\n' });
+    const supabase = createFakeSupabase(tables);
+    await editAndCheckpoint(tables, supabase, SNAPSHOT_INTERVAL + 2);
+
+    // Versions before the snapshot don't take part any more
+    for (const row of tables.project_versions.slice(0, SNAPSHOT_INTERVAL)) row.files = { 'app/index.tsx': file('// stale\n') };
+    tables.project_files[1].content = '// about v2\n';
+    const next = await checkpoint(supabase, 'About');
+
+    expect(next).toMatchObject({ full_snapshot: false, files: { 'app/about.tsx': file('// about v2\n') } });
+  });
+
+  it('gives a project with only older diff versions a full snapshot', async () => {
+    const tables = projectTables({ 'app/index.tsx': '// home v2\n' });
+    tables.project_versions.push({
+      id: 'version-0',
+      project_id: 'project-1',
+      files: { 'app/index.tsx': file('// home\n') },
+      created_at: '2024-12-31T00:00:00.000Z',
+    });
+
+    const next = await checkpoint(createFakeSupabase(tables), 'Next');
+    expect(next).toMatchObject({ full_snapshot: true, files: { 'app/index.tsx': file('// home v2\n') } });
+  });
+});
+
+describe('replayVersions', () => {
+  const version = (id: string, files: ProjectVersion['files'], fullSnapshot = false) => ({ id, files, full_snapshot: fullSnapshot }) as ProjectVersion;
+
+  it('starts over at each full snapshot', () => {
+    const versions = [
+      version('v1', { 'app/index.tsx': file('1'), 'app/old.tsx': file('old') }, true),
+      version('v2', { 'app/index.tsx': file('2') }),
+      version('v3', { 'app/index.tsx': file('3') }, true),
+      version('v4', { 'app/new.tsx': file('new') }),
+    ];
+
+    expect(replayVersions(versions, 'v2')).toEqual({ 'app/index.tsx': file('2'), 'app/old.tsx': file('old') });
+    expect(replayVersions(versions)).toEqual({ 'app/index.tsx': file('3'), 'app/new.tsx': file('new') });
+    expect(replayVersions(versions, 'missing')).toBeNull();
+  });
+});
@@ -0,0 +1,203 @@
+import type {
+  ProjectVersion,
+  ProjectVersionKind,
+  VersionFile,
+  VersionSnapshot,
+} from '@rork/shared';
+import type { createClient } from '@/lib/supabase/server';
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/** Full project contents at some point: path → file */
+export type ProjectSnapshot = Record<string, VersionFile>;
+
+export interface VersionFileDiff {
+  path: string;
+  status: 'added' | 'removed' | 'modified';
+  before: string | null;
+  after: string | null;
+}
+
+/** Version metadata returned by the list API (snapshots stay server-side) */
+export type VersionSummary = Omit<ProjectVersion, 'files' | 'project_id' | 'user_id'>;
+
+export const VERSION_SUMMARY_COLUMNS = 'id, kind, label, message_id, run_id, created_at';
+
+export async function loadCurrentFiles(supabase: SupabaseServerClient, projectId: string): Promise<ProjectSnapshot> {
+  const { data, error } = await supabase
+    .from('project_files')
+    .select('path, content, language')
+    .eq('project_id', projectId);
+
+  if (error) throw new Error(`Failed to load project files: ${error.message}`);
+  const files: ProjectSnapshot = {};
+  for (const file of data ?? []) {
+    files[file.path] = { content: file.content ?? '', language: file.language ?? 'typescript' };
+  }
+  return files;
+}
+
+/** All versions of a project, oldest first */
+export async function loadVersions(supabase: SupabaseServerClient, projectId: string): Promise<ProjectVersion[]> {
+  const { data, error } = await supabase
+    .from('project_versions')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw new Error(`Failed to load project versions: ${error.message}`);
+  return (data ?? []) as ProjectVersion[];
+}
+
+/** Every SNAPSHOT_INTERVAL-th version stores the whole project instead of the changes */
+export const SNAPSHOT_INTERVAL = 20;
+
+/**
+ * The latest full snapshot and the versions after it, oldest first: enough
+ * to rebuild the latest version. Every version until a project has one.
+ */
+export async function loadVersionsSinceSnapshot(supabase: SupabaseServerClient, projectId: string): Promise<ProjectVersion[]> {
+  const { data: snapshot, error } = await supabase
+    .from('project_versions')
+    .select('created_at')
+    .eq('project_id', projectId)
+    .eq('full_snapshot', true)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load project versions: ${error.message}`);
+  if (!snapshot) return loadVersions(supabase, projectId);
+
+  const { data, error: versionsError } = await supabase
+    .from('project_versions')
+    .select('*')
+    .eq('project_id', projectId)
+    .gte('created_at', snapshot.created_at)
+    .order('created_at', { ascending: true });
+
+  if (versionsError) throw new Error(`Failed to load project versions: ${versionsError.message}`);
+  return (data ?? []) as ProjectVersion[];
+}
+
+/**
+ * Rebuild the project as of `versionId` (or the latest version) by replaying
+ * version snapshots in order, starting over at each full snapshot. Returns
+ * null when the version is unknown.
+ */
+export function replayVersions(versions: ProjectVersion[], versionId?: string): ProjectSnapshot | null {
+  let files: ProjectSnapshot = {};
+  for (const version of versions) {
+    if (version.full_snapshot) files = {};
+    for (const [path, file] of Object.entries(version.files ?? {})) {
+      if (file) files[path] = file;
+      else delete files[path];
+    }
+    if (version.id === versionId) return files;
+  }
+  return versionId ? null : files;
+}
+
+/** Files that differ between two snapshots, as the entries that turn `from` into `to` */
+export function changesBetween(from: ProjectSnapshot, to: ProjectSnapshot, paths?: string[]): VersionSnapshot {
+  const candidates = paths ?? [...new Set([...Object.keys(from), ...Object.keys(to)])];
+  const changes: VersionSnapshot = {};
+  for (const path of candidates) {
+    const before = from[path];
+    const after = to[path];
+    if (!after) {
+      if (before) changes[path] = null;
+    } else if (!before || before.content !== after.content || before.language !== after.language) {
+      changes[path] = after;
+    }
+  }
+  return changes;
+}
+
+export function diffSnapshots(before: ProjectSnapshot, after: ProjectSnapshot): VersionFileDiff[] {
+  return Object.keys(changesBetween(before, after))
+    .sort()
+    .map((path) => ({
+      path,
+      status: !before[path] ? 'added' as const : !after[path] ? 'removed' as const : 'modified' as const,
+      before: before[path]?.content ?? null,
+      after: after[path]?.content ?? null,
+    }));
+}
+
+/**
+ * Checkpoint the project as it is now. Only files changed since the
+ * previous version are stored, except in a full snapshot every
+ * SNAPSHOT_INTERVAL versions, so the previous version is rebuilt from the
+ * latest snapshot rather than from every version before it.
+ */
+export async function createProjectVersion(
+  supabase: SupabaseServerClient,
+  params: {
+    projectId: string;
+    userId: string;
+    kind: ProjectVersionKind;
+    label: string;
+    messageId?: string | null;
+    runId?: string | null;
+  }
+): Promise<ProjectVersion> {
+  const [current, versions] = await Promise.all([
+    loadCurrentFiles(supabase, params.projectId),
+    loadVersionsSinceSnapshot(supabase, params.projectId),
+  ]);
+  // Projects from before snapshots get one on their next version
+  const fullSnapshot = !versions[0]?.full_snapshot || versions.length >= SNAPSHOT_INTERVAL;
+
+  const { data, error } = await supabase
+    .from('project_versions')
+    .insert({
+      project_id: params.projectId,
+      user_id: params.userId,
+      kind: params.kind,
+      label: params.label.slice(0, 200),
+      message_id: params.messageId ?? null,
+      run_id: params.runId ?? null,
+      files: fullSnapshot ? current : changesBetween(replayVersions(versions) ?? {}, current),
+      full_snapshot: fullSnapshot,
+    })
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create project version: ${error?.message ?? 'unknown error'}`);
+  }
+  return data as ProjectVersion;
+}
+
+/** Write snapshot entries to project_files (null entries delete) in one transaction */
+export async function applySnapshot(
+  supabase: SupabaseServerClient,
+  projectId: string,
+  changes: VersionSnapshot
+): Promise<void> {
+  const entries = Object.entries(changes);
+  if (entries.length === 0) return;
+
+  const { error } = await supabase.rpc('commit_project_files', {
+    p_project_id: projectId,
+    p_files: entries
+      .filter(([, file]) => file !== null)
+      .map(([path, file]) => ({ path, content: file!.content, language: file!.language })),
+    p_deleted_paths: entries.filter(([, file]) => file === null).map(([path]) => path),
+  });
+
+  if (error) throw new Error(`Failed to restore files: ${error.message}`);
+}
+
+/** The version taken before an agent run started, if any */
+export async function getRunVersionId(supabase: SupabaseServerClient, runId: string): Promise<string | null> {
+  const { data } = await supabase
+    .from('project_versions')
+    .select('id')
+    .eq('run_id', runId)
+    .eq('kind', 'agent_run')
+    .maybeSingle();
+
+  return data?.id ?? null;
+}
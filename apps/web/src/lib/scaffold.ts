@@ -1,3 +1,4 @@
+import { getExpoSdk, getSdkDependencies } from '@rork/shared';
 import { createClient } from '@/lib/supabase/server';
 
 const META_PATH = "project.meta.json";
@@ -41,17 +42,15 @@ const styles = StyleSheet.create({
 });
 `;
 
-const PACKAGE_JSON = {
-  "name": "rork-app",
-  "main": "App.tsx",
-  "dependencies": {
-    "react": "18.3.1",
-    "react-native": "0.76.0",
-    "expo": "~52.0.0"
-  }
-};
+function packageJson(sdkVersion?: string) {
+  return {
+    "name": "rork-app",
+    "main": "App.tsx",
+    "dependencies": getSdkDependencies(getExpoSdk(sdkVersion), ['react', 'react-native', 'expo']),
+  };
+}
 
-export async function ensureScaffold(projectId: string, accessToken?: string) {
+export async function ensureScaffold(projectId: string, accessToken?: string, sdkVersion?: string) {
   const supabase = await createClient();
   
   // Check if project has files
@@ -82,7 +81,7 @@ export async function ensureScaffold(projectId: string, accessToken?: string) {
     await supabase.from('project_files').insert({
       project_id: projectId,
       path: 'package.json',
-      content: JSON.stringify(PACKAGE_JSON, null, 2),
+      content: JSON.stringify(packageJson(sdkVersion), null, 2),
       language: 'json'
     });
 
@@ -0,0 +1,81 @@
+import { planSdkUpgrade, type SdkUpgradePlan } from '@ai-engine/core';
+import { getExpoSdk, isExpoSdkVersion, type ExpoSdkVersion, type VersionSnapshot } from '@rork/shared';
+import { getLanguageFromPath } from '@/lib/language';
+import { applySnapshot, createProjectVersion, loadCurrentFiles } from '@/lib/project-versions';
+import type { createClient } from '@/lib/supabase/server';
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+export interface UpgradeableProject {
+  id: string;
+  sdk_version: string | null;
+  lint_rules: Record<string, boolean> | null;
+}
+
+/** Why a project can't move to `target`, or null when it can */
+export function upgradeTargetError(project: UpgradeableProject, target: unknown): string | null {
+  if (!isExpoSdkVersion(target)) return 'Unknown Expo SDK version';
+  const current = getExpoSdk(project.sdk_version);
+  const next = getExpoSdk(target);
+  if (next.major === current.major) return `The project already targets Expo SDK ${current.major}`;
+  if (next.major < current.major) return `Downgrading from Expo SDK ${current.major} is not supported`;
+  return null;
+}
+
+async function loadFileContents(supabase: SupabaseServerClient, projectId: string): Promise<Record<string, string>> {
+  const snapshot = await loadCurrentFiles(supabase, projectId);
+  return Object.fromEntries(Object.entries(snapshot).map(([path, file]) => [path, file.content]));
+}
+
+/** The upgrade changeset for a project, verified against the target SDK */
+export async function planProjectUpgrade(
+  supabase: SupabaseServerClient,
+  project: UpgradeableProject,
+  target: ExpoSdkVersion
+): Promise<SdkUpgradePlan> {
+  const files = await loadFileContents(supabase, project.id);
+  return planSdkUpgrade(files, getExpoSdk(project.sdk_version).version, target, {
+    lintRules: project.lint_rules ?? {},
+  });
+}
+
+/**
+ * Apply the reviewed upgrade: write the accepted files (only paths the
+ * upgrade changes) after checkpointing the project, then switch its SDK.
+ * Returns the paths written.
+ */
+export async function applyProjectUpgrade(
+  supabase: SupabaseServerClient,
+  userId: string,
+  project: UpgradeableProject,
+  target: ExpoSdkVersion,
+  accepted: Record<string, string>
+): Promise<string[]> {
+  const files = await loadFileContents(supabase, project.id);
+  const plan = planSdkUpgrade(files, getExpoSdk(project.sdk_version).version, target, { verify: false });
+  const planned = new Set(plan.changes.map((change) => change.path));
+
+  const changes: VersionSnapshot = {};
+  for (const [path, content] of Object.entries(accepted)) {
+    if (planned.has(path) && content !== files[path]) {
+      changes[path] = { content, language: getLanguageFromPath(path) };
+    }
+  }
+
+  await createProjectVersion(supabase, {
+    projectId: project.id,
+    userId,
+    kind: 'manual',
+    label: `Before upgrading to Expo SDK ${getExpoSdk(target).major}`,
+  });
+  await applySnapshot(supabase, project.id, changes);
+
+  const { error } = await supabase
+    .from('projects')
+    .update({ sdk_version: target })
+    .eq('id', project.id)
+    .eq('user_id', userId);
+  if (error) throw new Error(`Failed to update the project SDK: ${error.message}`);
+
+  return Object.keys(changes).sort();
+}
@@ -0,0 +1,16 @@
+import { createClient as createSupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Service-role client that bypasses RLS, for maintenance across all users
+ * and for the logs users may only read (token audit log, agent run events).
+ * Only for server routes gated by an operator secret, the token vault and the
+ * run event log; never for reading or writing user data on a user's behalf.
+ */
+export function createAdminClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) throw new Error('SUPABASE_SERVICE_ROLE_KEY is not configured');
+
+  return createSupabaseClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
@@ -0,0 +1,65 @@
+import { gzipSync } from 'zlib';
+
+/**
+ * Minimal ustar writer for uploading project sources (EAS expects a .tar.gz).
+ * Only regular files are written; directories are implied by the paths.
+ */
+
+const BLOCK_SIZE = 512;
+
+function writeString(header: Buffer, value: string, offset: number, length: number): void {
+  header.write(value, offset, Math.min(Buffer.byteLength(value), length), 'utf8');
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+  writeString(header, value.toString(8).padStart(length - 1, '0') + '\0', offset, length);
+}
+
+// ustar stores paths as prefix (155 bytes) + name (100 bytes), split on a '/'
+function splitPath(path: string): { name: string; prefix: string } {
+  if (Buffer.byteLength(path) <= 100) return { name: path, prefix: '' };
+  const slash = path.lastIndexOf('/', 155);
+  const name = path.slice(slash + 1);
+  if (slash <= 0 || Buffer.byteLength(name) > 100) {
+    throw new Error(`Path too long for the build archive: ${path}`);
+  }
+  return { name, prefix: path.slice(0, slash) };
+}
+
+function fileHeader(path: string, size: number, mtime: number): Buffer {
+  const header = Buffer.alloc(BLOCK_SIZE);
+  const { name, prefix } = splitPath(path);
+  writeString(header, name, 0, 100);
+  writeOctal(header, 0o644, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, mtime, 136, 12);
+  header.fill(' ', 148, 156); // checksum is computed with this field blank
+  header.write('0', 156); // regular file
+  writeString(header, 'ustar\0', 257, 6);
+  writeString(header, '00', 263, 2);
+  writeString(header, prefix, 345, 155);
+
+  let checksum = 0;
+  for (const byte of header) checksum += byte;
+  writeString(header, checksum.toString(8).padStart(6, '0') + '\0 ', 148, 8);
+  return header;
+}
+
+/** Gzipped tarball of `files` (path → content) */
+export function createTarball(files: Record<string, string>): Buffer {
+  const mtime = Math.floor(Date.now() / 1000);
+  const chunks: Buffer[] = [];
+
+  for (const [path, content] of Object.entries(files).sort(([a], [b]) => a.localeCompare(b))) {
+    const data = Buffer.from(content, 'utf8');
+    chunks.push(fileHeader(path.replace(/^\/+/, ''), data.length, mtime), data);
+    const padding = (BLOCK_SIZE - (data.length % BLOCK_SIZE)) % BLOCK_SIZE;
+    if (padding > 0) chunks.push(Buffer.alloc(padding));
+  }
+
+  // Two empty blocks mark the end of the archive
+  chunks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return gzipSync(Buffer.concat(chunks));
+}
@@ -0,0 +1,127 @@
+import { randomBytes } from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createAdminClient } from '@/lib/supabase/admin';
+import {
+  migrateUserTokens,
+  openToken,
+  rewrapToken,
+  sealToken,
+  TokenVaultError,
+  type TokenPurpose,
+} from '@/lib/token-vault';
+import { createFakeSupabase, type FakeRow } from '@/test/fake-supabase';
+
+vi.mock('@/lib/supabase/admin', () => ({ createAdminClient: vi.fn() }));
+
+const OLD_KEY = `k1:${randomBytes(32).toString('base64')}`;
+const NEW_KEY = `k2:${randomBytes(32).toString('base64')}`;
+const OWNER = { userId: 'user-1', kind: 'github' } as const;
+
+/** A user_settings row holding `settings`, and the audit log the vault writes */
+function vaultTables(settings: FakeRow) {
+  const tables: Record<string, FakeRow[]> = {
+    user_settings: [{ user_id: 'user-1', ...settings }],
+    token_audit_log: [],
+  };
+  const supabase = createFakeSupabase(tables);
+  vi.mocked(createAdminClient).mockReturnValue(supabase as unknown as ReturnType<typeof createAdminClient>);
+  return { supabase, tables };
+}
+
+const auditActions = (tables: Record<string, FakeRow[]>) =>
+  tables.token_audit_log.map(({ action, purpose, key_id }) => ({ action, purpose, key_id }));
+
+describe('token vault', () => {
+  beforeEach(() => {
+    vi.stubEnv('TOKEN_VAULT_KEYS', OLD_KEY);
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('opens a sealed token for an allowed purpose and audits the decrypt', async () => {
+    const sealed = sealToken('ghp_secret', OWNER);
+    expect(sealed).toMatch(/^vault:v1:k1:/);
+    expect(sealed).not.toContain('ghp_secret');
+    const { supabase, tables } = vaultTables({ github_token: sealed });
+
+    expect(await openToken(supabase, 'user-1', 'github', 'github-sync')).toBe('ghp_secret');
+    expect(auditActions(tables)).toEqual([{ action: 'decrypt', purpose: 'github-sync', key_id: 'k1' }]);
+  });
+
+  it('rejects a token sealed for another user or kind', async () => {
+    for (const owner of [{ ...OWNER, userId: 'user-2' }, { ...OWNER, kind: 'expo' }] as const) {
+      const { supabase } = vaultTables({ github_token: sealToken('ghp_secret', owner) });
+
+      await expect(openToken(supabase, 'user-1', 'github', 'github-sync'))
+        .rejects.toThrow(new TokenVaultError('Stored token could not be decrypted'));
+    }
+  });
+
+  it('rejects a purpose not allowed for the kind, before reading anything', async () => {
+    const { supabase, tables } = vaultTables({ expo_token: sealToken('expo_secret', { userId: 'user-1', kind: 'expo' }) });
+
+    await expect(openToken(supabase, 'user-1', 'expo', 'github-sync' as TokenPurpose<'expo'>))
+      .rejects.toThrow(new TokenVaultError('"github-sync" may not read the expo token'));
+    expect(tables.token_audit_log).toEqual([]);
+  });
+
+  it('re-wraps tokens with a new master key, which then opens them alone', async () => {
+    const sealed = sealToken('ghp_secret', OWNER);
+    vi.stubEnv('TOKEN_VAULT_KEYS', `${NEW_KEY},${OLD_KEY}`);
+
+    const rewrapped = rewrapToken(sealed)!;
+    expect(rewrapped).toMatch(/^vault:v1:k2:/);
+    // Only the wrapped data key changes, not the encrypted token
+    expect(rewrapped.split(':').slice(-2)).toEqual(sealed.split(':').slice(-2));
+    expect(rewrapToken(rewrapped)).toBeNull();
+
+    vi.stubEnv('TOKEN_VAULT_KEYS', NEW_KEY);
+    const { supabase } = vaultTables({ github_token: rewrapped });
+    expect(await openToken(supabase, 'user-1', 'github', 'github-sync')).toBe('ghp_secret');
+  });
+
+  it('re-wraps a token under an old key when opening it', async () => {
+    const { supabase, tables } = vaultTables({ github_token: sealToken('ghp_secret', OWNER) });
+    vi.stubEnv('TOKEN_VAULT_KEYS', `${NEW_KEY},${OLD_KEY}`);
+
+    expect(await openToken(supabase, 'user-1', 'github', 'github-pull')).toBe('ghp_secret');
+    expect(tables.user_settings[0].github_token).toMatch(/^vault:v1:k2:/);
+    expect(auditActions(tables)).toEqual([
+      { action: 'rewrap', purpose: null, key_id: 'k2' },
+      { action: 'decrypt', purpose: 'github-pull', key_id: 'k2' },
+    ]);
+  });
+
+  it('seals a plaintext token from before the vault when opening it', async () => {
+    const { supabase, tables } = vaultTables({ github_token: 'ghp_plain' });
+
+    expect(await openToken(supabase, 'user-1', 'github', 'github-import')).toBe('ghp_plain');
+    expect(tables.user_settings[0].github_token).toMatch(/^vault:v1:k1:/);
+    expect(auditActions(tables)).toEqual([
+      { action: 'migrate', purpose: null, key_id: 'k1' },
+      { action: 'decrypt', purpose: 'github-import', key_id: 'k1' },
+    ]);
+  });
+
+  it('migrates the plaintext and stale-key tokens of a settings row', async () => {
+    const settings = {
+      user_id: 'user-1',
+      github_token: 'ghp_plain',
+      expo_token: sealToken('expo_secret', { userId: 'user-1', kind: 'expo' }),
+      claude_api_key: null,
+    };
+    vi.stubEnv('TOKEN_VAULT_KEYS', `${NEW_KEY},${OLD_KEY}`);
+    const gemini = sealToken('gemini_secret', { userId: 'user-1', kind: 'gemini' });
+    const { supabase, tables } = vaultTables({ ...settings, gemini_api_key: gemini });
+
+    expect(await migrateUserTokens(supabase, { ...settings, gemini_api_key: gemini })).toEqual(['github', 'expo']);
+    expect(tables.user_settings[0]).toMatchObject({
+      github_token: expect.stringMatching(/^vault:v1:k2:/),
+      expo_token: expect.stringMatching(/^vault:v1:k2:/),
+      claude_api_key: null,
+      gemini_api_key: gemini,
+    });
+    expect(auditActions(tables).map(({ action }) => action)).toEqual(['migrate', 'rewrap']);
+  });
+});
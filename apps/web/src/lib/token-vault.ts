@@ -0,0 +1,260 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import type { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+
+/**
+ * Token vault for third-party tokens and model API keys stored in user_settings.
+ *
+ * Envelope encryption: each token is encrypted (AES-256-GCM) with its own
+ * random data key, and the data key is wrapped with a server-side master key
+ * from TOKEN_VAULT_KEYS ("id:base64key,..."; the first key is current). Rotating
+ * means adding a new key in front: stored tokens are re-wrapped with it as
+ * they are read, or in bulk, without decrypting the tokens themselves.
+ *
+ * Tokens are only decrypted through openToken, for one of the integration
+ * purposes below, and each decrypt is written to token_audit_log first. Users
+ * can read their audit log but not write it, so entries go through the
+ * service-role client.
+ */
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/** Integration tokens, and the users' own model provider API keys */
+export type VaultTokenKind = 'github' | 'expo' | 'claude' | 'gemini';
+
+/** Integrations allowed to decrypt each kind of token */
+const TOKEN_PURPOSES = {
+  github: ['github-sync', 'github-pull', 'github-import', 'github-run-pr'],
+  expo: ['eas-build'],
+  claude: ['agent-run', 'demo-generate'],
+  gemini: ['agent-run', 'demo-generate'],
+} as const;
+
+export type TokenPurpose<K extends VaultTokenKind = VaultTokenKind> = (typeof TOKEN_PURPOSES)[K][number];
+
+export type TokenAuditAction = 'seal' | 'decrypt' | 'rewrap' | 'migrate' | 'delete';
+
+export const TOKEN_COLUMNS = {
+  github: 'github_token',
+  expo: 'expo_token',
+  claude: 'claude_api_key',
+  gemini: 'gemini_api_key',
+} as const satisfies Record<VaultTokenKind, string>;
+
+export type TokenColumn = (typeof TOKEN_COLUMNS)[VaultTokenKind];
+
+const ENVELOPE_PREFIX = 'vault:v1';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+interface VaultKey {
+  id: string;
+  key: Buffer;
+}
+
+export class TokenVaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenVaultError';
+  }
+}
+
+let cachedKeys: { source: string; keys: VaultKey[] } | null = null;
+
+/** Master keys from TOKEN_VAULT_KEYS, current key first */
+function getVaultKeys(): VaultKey[] {
+  const source = process.env.TOKEN_VAULT_KEYS ?? '';
+  if (cachedKeys?.source === source) return cachedKeys.keys;
+
+  const keys = source.split(',').map((entry) => entry.trim()).filter(Boolean).map((entry) => {
+    const match = /^([\w-]+):(.+)$/.exec(entry);
+    const key = match ? Buffer.from(match[2], 'base64') : null;
+    if (!match || key?.length !== KEY_BYTES) {
+      throw new TokenVaultError(`TOKEN_VAULT_KEYS entries must be "id:<base64 ${KEY_BYTES}-byte key>"`);
+    }
+    return { id: match[1], key };
+  });
+  if (keys.length === 0) throw new TokenVaultError('Token vault is not configured (set TOKEN_VAULT_KEYS)');
+
+  cachedKeys = { source, keys };
+  return keys;
+}
+
+function encrypt(key: Buffer, plaintext: Buffer, aad: string): [Buffer, Buffer] {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', key, iv).setAAD(Buffer.from(aad));
+  const sealed = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+  return [iv, sealed];
+}
+
+function decrypt(key: Buffer, iv: Buffer, sealed: Buffer, aad: string): Buffer {
+  const decipher = createDecipheriv('aes-256-gcm', key, iv).setAAD(Buffer.from(aad));
+  decipher.setAuthTag(sealed.subarray(sealed.length - TAG_BYTES));
+  return Buffer.concat([decipher.update(sealed.subarray(0, sealed.length - TAG_BYTES)), decipher.final()]);
+}
+
+interface Envelope {
+  keyId: string;
+  keyIv: Buffer;
+  wrappedKey: Buffer;
+  iv: Buffer;
+  ciphertext: Buffer;
+}
+
+function formatEnvelope({ keyId, keyIv, wrappedKey, iv, ciphertext }: Envelope): string {
+  return [ENVELOPE_PREFIX, keyId, ...[keyIv, wrappedKey, iv, ciphertext].map((part) => part.toString('base64'))].join(':');
+}
+
+function parseEnvelope(value: string): Envelope {
+  const parts = value.slice(ENVELOPE_PREFIX.length + 1).split(':');
+  if (parts.length !== 5) throw new TokenVaultError('Malformed token envelope');
+  const [keyId, ...encoded] = parts;
+  const [keyIv, wrappedKey, iv, ciphertext] = encoded.map((part) => Buffer.from(part, 'base64'));
+  return { keyId, keyIv, wrappedKey, iv, ciphertext };
+}
+
+function findKey(keyId: string): VaultKey {
+  const key = getVaultKeys().find((candidate) => candidate.id === keyId);
+  if (!key) throw new TokenVaultError(`Token vault key "${keyId}" is no longer configured`);
+  return key;
+}
+
+// The data key is bound to its master key; the token to its owner and kind,
+// so envelopes can't be swapped between users or columns
+const keyContext = (keyId: string) => `rork-token-key:${keyId}`;
+const tokenContext = (userId: string, kind: VaultTokenKind) => `rork-token:${userId}:${kind}`;
+
+function unwrapDataKey(envelope: Envelope): Buffer {
+  return decrypt(findKey(envelope.keyId).key, envelope.keyIv, envelope.wrappedKey, keyContext(envelope.keyId));
+}
+
+export function isSealedToken(value: string): boolean {
+  return value.startsWith(`${ENVELOPE_PREFIX}:`);
+}
+
+/** Encrypt `token` under a fresh data key wrapped with the current master key */
+export function sealToken(token: string, owner: { userId: string; kind: VaultTokenKind }): string {
+  const [current] = getVaultKeys();
+  const dataKey = randomBytes(KEY_BYTES);
+  const [keyIv, wrappedKey] = encrypt(current.key, dataKey, keyContext(current.id));
+  const [iv, ciphertext] = encrypt(dataKey, Buffer.from(token, 'utf-8'), tokenContext(owner.userId, owner.kind));
+  return formatEnvelope({ keyId: current.id, keyIv, wrappedKey, iv, ciphertext });
+}
+
+function unsealToken(value: string, owner: { userId: string; kind: VaultTokenKind }): string {
+  const envelope = parseEnvelope(value);
+  try {
+    const dataKey = unwrapDataKey(envelope);
+    return decrypt(dataKey, envelope.iv, envelope.ciphertext, tokenContext(owner.userId, owner.kind)).toString('utf-8');
+  } catch (error) {
+    if (error instanceof TokenVaultError) throw error;
+    throw new TokenVaultError('Stored token could not be decrypted');
+  }
+}
+
+/**
+ * Re-wrap a sealed token's data key with the current master key. The token
+ * itself stays encrypted. Returns null when it already uses the current key.
+ */
+export function rewrapToken(value: string): string | null {
+  const envelope = parseEnvelope(value);
+  const [current] = getVaultKeys();
+  if (envelope.keyId === current.id) return null;
+
+  const [keyIv, wrappedKey] = encrypt(current.key, unwrapDataKey(envelope), keyContext(current.id));
+  return formatEnvelope({ ...envelope, keyId: current.id, keyIv, wrappedKey });
+}
+
+export async function recordTokenAudit(
+  entry: { userId: string; kind: VaultTokenKind; action: TokenAuditAction; purpose?: TokenPurpose | null; keyId?: string | null }
+): Promise<void> {
+  const { error } = await createAdminClient().from('token_audit_log').insert({
+    user_id: entry.userId,
+    token_kind: entry.kind,
+    action: entry.action,
+    purpose: entry.purpose ?? null,
+    key_id: entry.keyId ?? null,
+  });
+  if (error) throw new TokenVaultError(`Failed to write token audit log: ${error.message}`);
+}
+
+async function writeStoredToken(
+  supabase: SupabaseServerClient,
+  userId: string,
+  kind: VaultTokenKind,
+  value: string | null
+): Promise<void> {
+  const { error } = await supabase
+    .from('user_settings')
+    .update({ [TOKEN_COLUMNS[kind]]: value })
+    .eq('user_id', userId);
+  if (error) throw new TokenVaultError(`Failed to save token: ${error.message}`);
+}
+
+/**
+ * Bring one stored token up to date: plaintext from before the vault is
+ * sealed, and envelopes under an old master key are re-wrapped.
+ * Returns the stored value after the upgrade.
+ */
+export async function upgradeStoredToken(
+  supabase: SupabaseServerClient,
+  userId: string,
+  kind: VaultTokenKind,
+  value: string
+): Promise<string> {
+  if (!isSealedToken(value)) {
+    const sealed = sealToken(value, { userId, kind });
+    await writeStoredToken(supabase, userId, kind, sealed);
+    await recordTokenAudit({ userId, kind, action: 'migrate', keyId: parseEnvelope(sealed).keyId });
+    return sealed;
+  }
+
+  const rewrapped = rewrapToken(value);
+  if (!rewrapped) return value;
+  await writeStoredToken(supabase, userId, kind, rewrapped);
+  await recordTokenAudit({ userId, kind, action: 'rewrap', keyId: parseEnvelope(rewrapped).keyId });
+  return rewrapped;
+}
+
+/** Seal any plaintext or stale-key tokens in a settings row; returns the kinds upgraded */
+export async function migrateUserTokens(
+  supabase: SupabaseServerClient,
+  settings: { user_id: string } & Partial<Record<TokenColumn, string | null>>
+): Promise<VaultTokenKind[]> {
+  const upgraded: VaultTokenKind[] = [];
+  for (const kind of Object.keys(TOKEN_COLUMNS) as VaultTokenKind[]) {
+    const value = settings[TOKEN_COLUMNS[kind]];
+    if (value && await upgradeStoredToken(supabase, settings.user_id, kind, value) !== value) upgraded.push(kind);
+  }
+  return upgraded;
+}
+
+/**
+ * Decrypt the user's `kind` token for an integration. The decrypt is
+ * audited before the token is returned; if the audit can't be written the
+ * token isn't either. Null when the user has no token of that kind.
+ */
+export async function openToken<K extends VaultTokenKind>(
+  supabase: SupabaseServerClient,
+  userId: string,
+  kind: K,
+  purpose: TokenPurpose<K>
+): Promise<string | null> {
+  if (!(TOKEN_PURPOSES[kind] as readonly string[]).includes(purpose)) {
+    throw new TokenVaultError(`"${purpose}" may not read the ${kind} token`);
+  }
+
+  const column = TOKEN_COLUMNS[kind];
+  const { data: settings } = await supabase
+    .from('user_settings')
+    .select(column)
+    .eq('user_id', userId)
+    .single();
+  const stored = (settings as Record<string, string | null> | null)?.[column];
+  if (!stored) return null;
+
+  const value = await upgradeStoredToken(supabase, userId, kind, stored);
+  await recordTokenAudit({ userId, kind, action: 'decrypt', purpose, keyId: parseEnvelope(value).keyId });
+  return unsealToken(value, { userId, kind });
+}
@@ -77,6 +77,7 @@ const PHASE_PROGRESS: Record<AgentPhase, number> = {
   testing: 70,
   debugging: 80,
   complete: 100,
+  cancelled: 0,
   error: 0,
 };
 
@@ -357,6 +358,37 @@ export const useAgentStore = create<AgentState>()(
           }
           break;
           
+        case 'file_deleted':
+          if (event.path) {
+            delete state.files[event.path];
+            state.messages.push({
+              id: `msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+              type: 'file',
+              content: `Deleted ${event.path}`,
+              timestamp: new Date(),
+            });
+          }
+          break;
+
+        case 'file_moved':
+          if (event.file && event.fromPath) {
+            delete state.files[event.fromPath];
+            state.files[event.file.path] = {
+              path: event.file.path,
+              content: event.file.content,
+              language: event.file.language,
+              status: 'updated',
+            };
+            state.messages.push({
+              id: `msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+              type: 'file',
+              content: `Moved ${event.fromPath} → ${event.file.path}`,
+              timestamp: new Date(),
+              file: { path: event.file.path, content: event.file.content },
+            });
+          }
+          break;
+          
         case 'error':
           state.error = event.error || 'Unknown error';
           state.phase = 'error';
@@ -369,6 +401,18 @@ export const useAgentStore = create<AgentState>()(
           });
           break;
           
+        case 'cancelled':
+          state.phase = 'cancelled';
+          state.isRunning = false;
+          state.currentTool = null;
+          state.messages.push({
+            id: `msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            type: 'system',
+            content: event.message || 'Run stopped',
+            timestamp: new Date(),
+          });
+          break;
+
         case 'complete':
           state.phase = 'complete';
           state.isRunning = false;
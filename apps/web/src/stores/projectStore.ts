@@ -1,5 +1,7 @@
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
+import type { AgentMode } from '@ai-engine/core';
+import { DEFAULT_EXPO_SDK_VERSION, type ExpoSdkVersion, type ModelId, type ModelKeySource, type ModelOption } from '@rork/shared';
 import { getLanguageFromPath } from '@/lib/language';
 
 export interface EditorFile {
@@ -14,6 +16,10 @@ export interface UIMessage {
   role: 'user' | 'assistant';
   content: string;
   filesChanged?: string[];
+  /** Version taken before the agent run this message reports (for "revert this run") */
+  versionId?: string;
+  /** Model the agent run this message reports ran on, and whose API key it used */
+  run?: { model: ModelId; keySource: ModelKeySource };
   timestamp: Date;
   isStreaming?: boolean;
 }
@@ -29,29 +35,41 @@ interface ProjectState {
   // State
   projectId: string | null;
   projectName: string;
+  /** Expo SDK the project targets (drives the Snack runtime) */
+  sdkVersion: ExpoSdkVersion;
   files: Record<string, EditorFile>;
   activeFile: string | null;
   messages: UIMessage[];
   isGenerating: boolean;
-  selectedModel: 'claude' | 'gemini';
-  agentMode: 'plan' | 'build';
+  selectedModel: ModelId;
+  /** Models the user can pick; null until loaded (a null keySource has no usable key) */
+  models: ModelOption[] | null;
+  agentMode: AgentMode;
+  /** Hold agent changes for review instead of applying them as they stream in */
+  stageAgentChanges: boolean;
   streamingContent: string;
   generatingFiles: string[]; // File paths being generated in real-time
   runtimeErrors: RuntimeError[];
   
   // Actions
   setProject: (id: string, name: string, files: Record<string, EditorFile>, messages?: UIMessage[]) => void;
+  setSdkVersion: (version: ExpoSdkVersion) => void;
   setFiles: (files: Record<string, EditorFile>) => void;
+  replaceFiles: (files: Array<{ path: string; content: string; language?: string }>) => void;
   updateFile: (path: string, content: string) => void;
   deleteFile: (path: string) => void;
+  moveFile: (from: string, to: string) => void;
   createFile: (path: string, content: string, language?: string) => void;
   setActiveFile: (path: string | null) => void;
   addMessage: (message: Omit<UIMessage, 'id' | 'timestamp'>) => void;
-  updateLastMessage: (content: string, filesChanged?: string[]) => void;
+  updateLastMessage: (content: string, filesChanged?: string[], versionId?: string, run?: UIMessage['run']) => void;
   setMessages: (messages: UIMessage[]) => void;
   setGenerating: (value: boolean) => void;
-  setSelectedModel: (model: 'claude' | 'gemini') => void;
-  setAgentMode: (mode: 'plan' | 'build') => void;
+  setSelectedModel: (model: ModelId) => void;
+  /** Set the available models; the selected model moves to `preferred` or another usable one */
+  setModels: (models: ModelOption[], preferred?: ModelId) => void;
+  setAgentMode: (mode: AgentMode) => void;
+  setStageAgentChanges: (value: boolean) => void;
   setStreamingContent: (content: string) => void;
   appendStreamingContent: (content: string) => void;
   addGeneratingFile: (file: { path: string; content: string; language?: string }) => void;
@@ -64,12 +82,15 @@ interface ProjectState {
 const initialState = {
   projectId: null,
   projectName: '',
+  sdkVersion: DEFAULT_EXPO_SDK_VERSION as ExpoSdkVersion,
   files: {},
   activeFile: null,
   messages: [],
   isGenerating: false,
-  selectedModel: 'gemini' as const,
-  agentMode: 'build' as const,
+  selectedModel: 'gemini' as ModelId,
+  models: null as ModelOption[] | null,
+  agentMode: 'build' as AgentMode,
+  stageAgentChanges: false,
   streamingContent: '',
   generatingFiles: [] as string[],
   runtimeErrors: [] as RuntimeError[],
@@ -86,11 +107,31 @@ export const useProjectStore = create<ProjectState>()(
       state.activeFile = Object.keys(files)[0] || null;
       state.messages = messages || [];
     }),
+
+    setSdkVersion: (version) => set((state) => {
+      state.sdkVersion = version;
+    }),
     
     setFiles: (files) => set((state) => {
       state.files = files;
     }),
     
+    // Replace all files with saved server state (e.g. after restoring a version)
+    replaceFiles: (files) => set((state) => {
+      state.files = {};
+      for (const file of files) {
+        state.files[file.path] = {
+          path: file.path,
+          content: file.content,
+          language: file.language || getLanguageFromPath(file.path),
+          isDirty: false,
+        };
+      }
+      if (state.activeFile && !state.files[state.activeFile]) {
+        state.activeFile = Object.keys(state.files)[0] || null;
+      }
+    }),
+    
     updateFile: (path, content) => set((state) => {
       if (state.files[path]) {
         state.files[path].content = content;
@@ -100,11 +141,23 @@ export const useProjectStore = create<ProjectState>()(
     
     deleteFile: (path) => set((state) => {
       delete state.files[path];
+      state.generatingFiles = state.generatingFiles.filter(p => p !== path);
       if (state.activeFile === path) {
         state.activeFile = Object.keys(state.files)[0] || null;
       }
     }),
     
+    moveFile: (from, to) => set((state) => {
+      const file = state.files[from];
+      if (!file) return;
+      delete state.files[from];
+      state.files[to] = { ...file, path: to, language: getLanguageFromPath(to) };
+      state.generatingFiles = state.generatingFiles.map(p => (p === from ? to : p));
+      if (state.activeFile === from) {
+        state.activeFile = to;
+      }
+    }),
+    
     createFile: (path, content, language) => set((state) => {
       state.files[path] = {
         path,
@@ -126,7 +179,7 @@ export const useProjectStore = create<ProjectState>()(
       });
     }),
     
-    updateLastMessage: (content, filesChanged) => set((state) => {
+    updateLastMessage: (content, filesChanged, versionId, run) => set((state) => {
       const lastMessage = state.messages[state.messages.length - 1];
       if (lastMessage && lastMessage.role === 'assistant') {
         lastMessage.content = content;
@@ -134,6 +187,12 @@ export const useProjectStore = create<ProjectState>()(
         if (filesChanged && filesChanged.length > 0) {
           lastMessage.filesChanged = filesChanged;
         }
+        if (versionId) {
+          lastMessage.versionId = versionId;
+        }
+        if (run) {
+          lastMessage.run = run;
+        }
       }
     }),
     
@@ -154,11 +213,25 @@ export const useProjectStore = create<ProjectState>()(
     setSelectedModel: (model) => set((state) => {
       state.selectedModel = model;
     }),
+
+    setModels: (models, preferred) => set((state) => {
+      state.models = models;
+      const usable = models.filter((model) => model.keySource).map((model) => model.id);
+      if (preferred && usable.includes(preferred)) {
+        state.selectedModel = preferred;
+      } else if (!usable.includes(state.selectedModel) && usable.length > 0) {
+        state.selectedModel = usable[0];
+      }
+    }),
     
     setAgentMode: (mode) => set((state) => {
       state.agentMode = mode;
     }),
     
+    setStageAgentChanges: (value) => set((state) => {
+      state.stageAgentChanges = value;
+    }),
+    
     setStreamingContent: (content) => set((state) => {
       state.streamingContent = content;
     }),
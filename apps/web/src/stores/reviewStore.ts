@@ -0,0 +1,156 @@
+import { create } from 'zustand';
+import { immer } from 'zustand/middleware/immer';
+import { applyHunk, diffHunks, revertHunk } from '@/lib/diff';
+import { getLanguageFromPath } from '@/lib/language';
+import type { SdkUpgradeNote } from '@ai-engine/core';
+import type { ExpoSdkVersion } from '@rork/shared';
+
+/**
+ * One file of a staged agent changeset. `null` content means the file does
+ * not exist (created by the agent when `original` is null, deleted when
+ * `proposed` is null). `base` is the original with every accepted hunk
+ * applied; rejected hunks are reverted in `proposed`, so the file is fully
+ * reviewed once `base === proposed`.
+ */
+export interface PendingChange {
+  path: string;
+  language: string;
+  original: string | null;
+  base: string | null;
+  proposed: string | null;
+}
+
+/** An Expo SDK upgrade under review (instead of an agent run's changes) */
+export interface SdkUpgradeReview {
+  from: ExpoSdkVersion;
+  to: ExpoSdkVersion;
+  /** What the codemods left to migrate by hand */
+  notes: SdkUpgradeNote[];
+  /** Typecheck/lint of the fully upgraded project, null when not run */
+  verification: { success: boolean; output?: string; error?: string } | null;
+}
+
+interface ReviewState {
+  runId: string | null;
+  sdkUpgrade: SdkUpgradeReview | null;
+  isOpen: boolean;
+  activePath: string | null;
+  changes: Record<string, PendingChange>;
+
+  startReview: (runId: string | null) => void;
+  startSdkUpgrade: (upgrade: SdkUpgradeReview) => void;
+  stageFile: (path: string, original: string | null, proposed: string | null) => void;
+  acceptFile: (path: string) => void;
+  rejectFile: (path: string) => void;
+  acceptHunk: (path: string, index: number) => void;
+  rejectHunk: (path: string, index: number) => void;
+  acceptAll: () => void;
+  rejectAll: () => void;
+  openReview: (path?: string) => void;
+  closeReview: () => void;
+  clear: () => void;
+}
+
+export function isResolved(change: PendingChange): boolean {
+  return change.base === change.proposed;
+}
+
+/** Final content for every file whose accepted state differs from the original */
+export function acceptedFiles(changes: Record<string, PendingChange>): Array<{ path: string; content: string | null }> {
+  return Object.values(changes)
+    .filter((change) => change.base !== change.original)
+    .map((change) => ({ path: change.path, content: change.base }));
+}
+
+const initialState = {
+  runId: null as string | null,
+  sdkUpgrade: null as SdkUpgradeReview | null,
+  isOpen: false,
+  activePath: null as string | null,
+  changes: {} as Record<string, PendingChange>,
+};
+
+export const useReviewStore = create<ReviewState>()(
+  immer((set) => ({
+    ...initialState,
+
+    startReview: (runId) => set((state) => {
+      state.runId = runId;
+      state.sdkUpgrade = null;
+      state.changes = {};
+      state.activePath = null;
+      state.isOpen = false;
+    }),
+
+    startSdkUpgrade: (upgrade) => set((state) => {
+      state.runId = null;
+      state.sdkUpgrade = upgrade;
+      state.changes = {};
+      state.activePath = null;
+      state.isOpen = false;
+    }),
+
+    // Record the agent's latest content for a path; the original is kept from the first write
+    stageFile: (path, original, proposed) => set((state) => {
+      const existing = state.changes[path];
+      const base = existing ? existing.original : original;
+      if (base === proposed) {
+        delete state.changes[path];
+        return;
+      }
+      state.changes[path] = {
+        path,
+        language: getLanguageFromPath(path),
+        original: base,
+        base,
+        proposed,
+      };
+    }),
+
+    acceptFile: (path) => set((state) => {
+      const change = state.changes[path];
+      if (change) change.base = change.proposed;
+    }),
+
+    rejectFile: (path) => set((state) => {
+      const change = state.changes[path];
+      if (change) change.proposed = change.base;
+    }),
+
+    acceptHunk: (path, index) => set((state) => {
+      const change = state.changes[path];
+      if (change?.base == null || change.proposed == null) return;
+      const hunk = diffHunks(change.base, change.proposed)[index];
+      if (hunk) change.base = applyHunk(change.base, hunk);
+    }),
+
+    rejectHunk: (path, index) => set((state) => {
+      const change = state.changes[path];
+      if (change?.base == null || change.proposed == null) return;
+      const hunk = diffHunks(change.base, change.proposed)[index];
+      if (hunk) change.proposed = revertHunk(change.proposed, hunk);
+    }),
+
+    acceptAll: () => set((state) => {
+      for (const change of Object.values(state.changes)) change.base = change.proposed;
+    }),
+
+    rejectAll: () => set((state) => {
+      for (const change of Object.values(state.changes)) change.proposed = change.base;
+    }),
+
+    openReview: (path) => set((state) => {
+      state.isOpen = true;
+      if (path && state.changes[path]) state.activePath = path;
+      else if (!state.activePath || !state.changes[state.activePath]) {
+        state.activePath = Object.keys(state.changes).sort()[0] ?? null;
+      }
+    }),
+
+    closeReview: () => set((state) => {
+      state.isOpen = false;
+    }),
+
+    clear: () => set(initialState),
+  }))
+);
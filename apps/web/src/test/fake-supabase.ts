@@ -0,0 +1,94 @@
+import type { createClient } from '@/lib/supabase/server';
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+export type FakeRow = Record<string, unknown>;
+
+/** A column value to compare (rows hold strings, numbers or null) */
+function cell(row: FakeRow, column: string): string | number {
+  return row[column] as string | number;
+}
+
+/**
+ * Just enough of the Supabase client for offline tests of the lib modules:
+ * select/insert/update with `eq`/`gt`/`gte` filters, `order` and `limit` over
+ * in-memory tables (table name → rows, mutated in place), and the
+ * commit_project_files RPC. Inserted rows get an id, timestamps in insertion
+ * order and the table's column `defaults`.
+ */
+export function createFakeSupabase(
+  tables: Record<string, FakeRow[]>,
+  defaults: Record<string, FakeRow> = {}
+): SupabaseServerClient {
+  let nextId = 1;
+  const client = {
+    from(table: string) {
+      const rows = (tables[table] ??= []);
+      const filters: Array<(row: FakeRow) => boolean> = [];
+      let ordering: { column: string; ascending: boolean } | null = null;
+      let limit = Infinity;
+      let action: { kind: 'select' } | { kind: 'insert'; rows: FakeRow[] } | { kind: 'update'; values: FakeRow } = { kind: 'select' };
+
+      const run = (single: boolean) => {
+        let matching = rows.filter((row) => filters.every((filter) => filter(row)));
+        if (action.kind === 'insert') {
+          const inserted = action.rows.map((row) => {
+            const id = nextId++;
+            const createdAt = new Date(Date.UTC(2025, 0, 1) + id * 1000).toISOString();
+            return { id: `${table}-${id}`, created_at: createdAt, updated_at: createdAt, ...defaults[table], ...row };
+          });
+          rows.push(...inserted);
+          return { data: single ? inserted[0] : inserted, error: null };
+        }
+        if (action.kind === 'update') {
+          for (const row of matching) Object.assign(row, action.values);
+        }
+        if (ordering) {
+          const { column, ascending } = ordering;
+          matching = [...matching].sort((a, b) => (cell(a, column) < cell(b, column) ? -1 : cell(a, column) > cell(b, column) ? 1 : 0) * (ascending ? 1 : -1));
+        }
+        matching = matching.slice(0, limit);
+        return { data: single ? matching[0] ?? null : matching, error: null };
+      };
+
+      const builder = {
+        select: () => builder,
+        insert: (row: FakeRow | FakeRow[]) => ((action = { kind: 'insert', rows: Array.isArray(row) ? row : [row] }), builder),
+        update: (values: FakeRow) => ((action = { kind: 'update', values }), builder),
+        eq: (column: string, value: unknown) => (filters.push((row) => row[column] === value), builder),
+        gt: (column: string, value: number | string) => (filters.push((row) => cell(row, column) > value), builder),
+        gte: (column: string, value: number | string) => (filters.push((row) => cell(row, column) >= value), builder),
+        order: (column: string, options: { ascending?: boolean } = {}) => ((ordering = { column, ascending: options.ascending ?? true }), builder),
+        limit: (count: number) => ((limit = count), builder),
+        single: async () => run(true),
+        maybeSingle: async () => run(true),
+        then: (resolve: (value: ReturnType<typeof run>) => unknown, reject?: (reason: unknown) => unknown) =>
+          Promise.resolve().then(() => run(false)).then(resolve, reject),
+      };
+      return builder;
+    },
+    async rpc(
+      name: string,
+      args: { p_project_id: string; p_files: { path: string; content: string; language: string }[]; p_deleted_paths?: string[] }
+    ) {
+      if (name !== 'commit_project_files') throw new Error(`Unexpected RPC ${name}`);
+      const files = (tables.project_files ??= []);
+      for (const path of args.p_deleted_paths ?? []) {
+        const index = files.findIndex((row) => row.project_id === args.p_project_id && row.path === path);
+        if (index >= 0) files.splice(index, 1);
+      }
+      for (const file of args.p_files) {
+        const existing = files.find((row) => row.project_id === args.p_project_id && row.path === file.path);
+        if (existing) Object.assign(existing, file);
+        else files.push({ project_id: args.p_project_id, ...file });
+      }
+      return { data: null, error: null };
+    },
+  };
+  return client as unknown as SupabaseServerClient;
+}
+
+/** project_files rows for `files` (path → content) */
+export function projectFileRows(projectId: string, files: Record<string, string>): FakeRow[] {
+  return Object.entries(files).map(([path, content]) => ({ project_id: projectId, path, content, language: 'typescript' }));
+}
@@ -1,5 +1,8 @@
+import { getExpoSdk } from '@rork/shared';
 import { FULL_SYSTEM_PROMPT } from './prompts';
 
+const SDK_MAJOR = getExpoSdk().major;
+
 /**
  * Agent-Specific Prompts for Autonomous App Building
  * These prompts guide the AI agent through different phases of app creation
@@ -71,7 +74,7 @@ You are implementing the app according to the plan. For each file:
 4. Implement actual functionality, not placeholders
 5. Add realistic sample data where needed
 6. Handle loading and error states
-7. Use modern Expo SDK 54+ patterns
+7. Use modern Expo SDK ${SDK_MAJOR} patterns
 
 ## Code Quality Rules
 - NEVER use placeholder comments like "// TODO" or "// rest of code"
@@ -173,7 +176,7 @@ You have tools to plan, code, test, debug, and finalize apps.
 - Create a WORKING app, not a template
 - Include sample data for demo purposes
 - Handle edge cases (empty states, loading, errors)
-- Use Expo SDK 54 compatible patterns (Tabs, Ionicons, expo-av, StyleSheet.create)
+- Use Expo SDK ${SDK_MAJOR} compatible patterns (Tabs, Ionicons, expo-audio/expo-video, StyleSheet.create)
 
 ### Quality Standards
 - Every file must be complete and runnable
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { RorkAgent, type AgentEvent } from './agent';
+import type { ToolExecutor, ToolResult } from './tools';
+import type { AgentModel, AgentToolCall, AgentTurnResponse, ParsedFile } from './types';
+
+/** Serves fixed turns in order */
+function scriptedModel(turns: AgentToolCall[][]): AgentModel {
+  return {
+    name: 'scripted',
+    displayName: 'Scripted',
+    defaultMaxTokens: 1024,
+    async createTurn(): Promise<AgentTurnResponse> {
+      const toolCalls = turns.shift() ?? [];
+      return { text: '', toolCalls, stopReason: toolCalls.length ? 'tool_use' : 'end_turn', usage: { inputTokens: 0, outputTokens: 0 } };
+    },
+  };
+}
+
+describe('RorkAgent', () => {
+  it('mirrors files the executor autofixes while verifying', async () => {
+    const files: Record<string, string> = {
+      'app/index.tsx': "import { Text } from 'react-native';\nexport default function Home() { return <Text>Hi</Text>; }\n",
+    };
+    const fixed: ParsedFile = {
+      path: 'app/index.tsx',
+      content: "import { Text } from 'react-native';\n\nexport default function Home() { return <Text>Hi</Text>; }\n",
+      language: 'typescript',
+    };
+    const ok: ToolResult = { success: true, output: 'Success' };
+    const executor = {
+      patchFile: async ({ path, find, replace }) => {
+        files[path] = files[path].replace(find, replace);
+        return { ...ok };
+      },
+      verifyProject: async () => {
+        if (files[fixed.path] === fixed.content.replace('Hi', 'Hello')) return { ...ok };
+        files[fixed.path] = fixed.content;
+        return { ...ok, data: { fixedFiles: [fixed] } };
+      },
+      complete: async () => ({ ...ok }),
+    } as Partial<ToolExecutor> as ToolExecutor;
+
+    const model = scriptedModel([
+      [{ id: '1', name: 'verify_project', input: { checks: ['lint'] } }],
+      [{ id: '2', name: 'patch_file', input: { path: 'app/index.tsx', find: '>Hi<', replace: '>Hello<' } }],
+      [{ id: '3', name: 'complete', input: { summary: 'Said hello', files_created: [] } }],
+    ]);
+    const events: AgentEvent[] = [];
+    const agent = new RorkAgent({ model, onEvent: (event) => events.push(event) });
+    const result = await agent.run('Say hello', executor, { ...files }, 'edit');
+
+    const updates = events.filter((event) => event.type === 'file_updated').map((event) => event.file!.content);
+    expect(updates).toEqual([fixed.content, fixed.content.replace('Hi', 'Hello')]);
+    expect(result.success).toBe(true);
+    expect(result.files.find((file) => file.path === 'app/index.tsx')?.content).toBe(files['app/index.tsx']);
+    expect(result.changes).toEqual([{ path: 'app/index.tsx', action: 'modified' }]);
+  });
+});
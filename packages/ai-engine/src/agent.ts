@@ -8,14 +8,17 @@
  * 4. Debug - Fix any errors found
  * 5. Complete - Finalize and report
  * 
- * The agent uses Claude's tool_use capability to call functions
- * that manipulate the project files.
+ * The agent drives any tool-calling AgentModel (Claude, Gemini, ...) through
+ * the shared AGENT_TOOLS / ToolExecutor, so every provider gets the same
+ * tools, events and safeguards.
  */
 
-import Anthropic from '@anthropic-ai/sdk';
-import type { ParsedFile, TokenUsage } from './types';
-import { FULL_SYSTEM_PROMPT } from './prompts';
-import { parseGeneratedFiles } from './parser';
+import type { AgentMessage, AgentMode, AgentModel, AgentToolResult, ConversationMessage, ParsedFile, TokenUsage } from './types';
+import { getExpoSdk } from '@rork/shared';
+import { getFullSystemPrompt } from './prompts';
+import { selectRelevantFiles } from './context/files';
+import { buildContinuationPrompt, buildCompressedContext, buildErrorFixPrompt } from './prompts/recovery';
+import { AnthropicAgentModel, withRetry } from './models';
 import {
   AGENT_TOOLS,
   type ToolDefinition,
@@ -26,6 +29,8 @@ import {
   type CreatePlanInput,
   type WriteFileInput,
   type PatchFileInput,
+  type DeleteFileInput,
+  type MoveFileInput,
   type CompleteInput,
   executeTool,
   getLanguageFromPath,
@@ -39,6 +44,7 @@ export type AgentPhase =
   | 'testing'
   | 'debugging'
   | 'complete'
+  | 'cancelled'
   | 'error';
 
 // Agent event types for streaming
@@ -57,7 +63,10 @@ export type AgentEventType =
   | 'thinking'
   | 'file_created'
   | 'file_updated'
+  | 'file_deleted'
+  | 'file_moved'
   | 'error'
+  | 'cancelled'
   | 'complete';
 
 export interface PlanProgress {
@@ -78,22 +87,69 @@ export interface AgentEvent {
   input?: unknown;
   result?: ToolResult;
   file?: ParsedFile;
+  /** Deleted path (`file_deleted`) */
+  path?: string;
+  /** Previous path of a moved file (`file_moved`; `file` holds the new one) */
+  fromPath?: string;
   summary?: string;
   filesCreated?: string[];
+  changes?: AgentFileChange[];
   error?: string;
 }
 
+/** One entry in the run's change list, relative to the files the run started with */
+export interface AgentFileChange {
+  path: string;
+  action: 'created' | 'modified' | 'deleted' | 'moved';
+  /** Original path of a moved file */
+  from?: string;
+}
+
+// After this many written files, compress the conversation to avoid context bloat
+const COMPRESS_AFTER_FILES = 6;
+
+// Max consecutive turns without tool calls before compressing the conversation
+const MAX_CONSECUTIVE_EMPTY = 2;
+
+// Total turns without tool calls (while plan files remain) before giving up
+const MAX_TOTAL_EMPTY = 8;
+
+// Failed verifications the agent gets to fix before `complete` is accepted anyway
+const MAX_VERIFY_ROUNDS = 2;
+
+// Edit mode: relevant files inlined into the first prompt, and the per-file size cap
+const EDIT_CONTEXT_FILES = 6;
+const EDIT_CONTEXT_MAX_CHARS = 6000;
+
 export interface AgentConfig {
-  apiKey: string;
+  /** Tool-calling model; when omitted, Claude is used with `apiKey` */
+  model?: AgentModel;
+  apiKey?: string;
   maxIterations?: number;
   maxTokens?: number;
+  /** Earlier turns of the project conversation (see buildConversationContext) */
+  conversationHistory?: ConversationMessage[];
+  /** Expo SDK the project targets (`projects.sdk_version`); defaults to the current SDK */
+  sdkVersion?: string;
+  /** Aborting stops the loop and the in-flight model call; files written so far are kept */
+  signal?: AbortSignal;
+  /** Continue an interrupted run; `existingFiles` must already include its changes */
+  resume?: AgentCheckpoint;
   onEvent?: (event: AgentEvent) => void;
 }
 
+/** Progress needed to resume a run in a later request */
+export interface AgentCheckpoint {
+  plan: AppPlan | null;
+  iterations: number;
+  changes: AgentFileChange[];
+}
+
 export interface AgentResult {
   success: boolean;
   phase: AgentPhase;
   files: ParsedFile[];
+  changes: AgentFileChange[];
   summary?: string;
   error?: string;
   usage: TokenUsage;
@@ -116,22 +172,32 @@ export interface AppPlan {
  * Autonomously builds Expo apps from natural language descriptions
  */
 export class RorkAgent {
-  private client: Anthropic;
+  private model: AgentModel;
   private config: AgentConfig;
   private phase: AgentPhase = 'idle';
   private plan: AppPlan | null = null;
   private files: Map<string, ParsedFile> = new Map();
-  private errors: string[] = [];
+  private writtenFiles: Set<string> = new Set();
+  private originalPaths: Set<string> = new Set();
+  private deletedFiles: Set<string> = new Set();
+  // Current path → original path, for starting files the run moved
+  private movedFrom: Map<string, string> = new Map();
+  private completionSummary: string | null = null;
   private iterations: number = 0;
   private totalUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
 
   constructor(config: AgentConfig) {
     this.config = {
       maxIterations: 10,
-      maxTokens: 16384,
       ...config,
     };
-    this.client = new Anthropic({ apiKey: config.apiKey });
+    if (config.model) {
+      this.model = config.model;
+    } else if (config.apiKey) {
+      this.model = new AnthropicAgentModel(config.apiKey);
+    } else {
+      throw new Error('RorkAgent requires a model or an apiKey');
+    }
   }
 
   /**
@@ -141,7 +207,7 @@ export class RorkAgent {
     prompt: string,
     executor: ToolExecutor,
     existingFiles?: Record<string, string>,
-    agentMode: 'plan' | 'build' = 'build'
+    agentMode: AgentMode = 'build'
   ): Promise<AgentResult> {
     this.reset();
     
@@ -153,24 +219,62 @@ export class RorkAgent {
           content,
           language: getLanguageFromPath(path),
         });
+        this.originalPaths.add(path);
       }
     }
 
+    const { resume } = this.config;
+    if (resume) {
+      this.restore(resume);
+    }
+
     try {
-      this.phase = 'planning';
+      this.phase = resume ? 'coding' : 'planning';
       this.emit({
         type: 'run_start',
-        phase: 'planning',
-        message: 'Agent run started',
+        phase: this.phase,
+        message: resume
+          ? `Agent run resumed at iteration ${this.iterations} (${this.model.displayName})`
+          : `Agent run started (${this.model.displayName})`,
       });
 
       // Build the agent system prompt
       const systemPrompt = this.buildSystemPrompt(agentMode);
+      // A resumed run picks up from a compressed summary of its own progress
+      const initialPrompt = resume
+        ? buildCompressedContext(this.writtenFiles, this.plan, this.remainingPlanFiles(agentMode), prompt)
+        : this.buildInitialPrompt(prompt, agentMode);
+      // Edit mode works on the existing structure, so planning is not offered
+      const tools = agentMode === 'edit'
+        ? AGENT_TOOLS.filter(tool => tool.name !== 'create_plan')
+        : AGENT_TOOLS;
+      const maxTokens = this.config.maxTokens ?? this.model.defaultMaxTokens;
       
+      // Prior turns stay in front of the run (and survive compression)
+      const history: AgentMessage[] = (this.config.conversationHistory ?? []).map((message) =>
+        message.role === 'user'
+          ? { role: 'user', content: message.content }
+          : { role: 'assistant', text: message.content, toolCalls: [] }
+      );
+
       // Start the agent loop
-      let messages: Anthropic.MessageParam[] = [
-        { role: 'user', content: this.buildInitialPrompt(prompt) },
+      let messages: AgentMessage[] = [
+        ...history,
+        { role: 'user', content: initialPrompt },
       ];
+      let consecutiveEmpty = 0;
+      let totalEmpty = 0;
+      let lastCompressedAt = this.writtenFiles.size;
+      let verifyRounds = 0;
+      let stallError: string | null = null;
+
+      const compress = (): void => {
+        messages = [...history, {
+          role: 'user',
+          content: buildCompressedContext(this.writtenFiles, this.plan, this.remainingPlanFiles(agentMode), prompt),
+        }];
+        lastCompressedAt = this.writtenFiles.size;
+      };
 
       while (this.iterations < this.config.maxIterations! && this.shouldContinue()) {
         this.iterations++;
@@ -186,174 +290,276 @@ export class RorkAgent {
           message: `Iteration ${this.iterations}: Agent is thinking...`,
         });
 
-        // Call Claude with tools
-        const response = await this.client.messages.create({
-          model: 'claude-sonnet-4-20250514',
-          max_tokens: this.config.maxTokens!,
-          system: systemPrompt,
-          tools: AGENT_TOOLS as Anthropic.Tool[],
-          messages,
-        });
+        // Call the model with tools, retrying transient API errors
+        const response = await withRetry(
+          () => this.model.createTurn({
+            system: systemPrompt,
+            messages,
+            tools,
+            maxTokens,
+            signal: this.config.signal,
+          }),
+          (attempt, error) => this.emit({
+            type: 'thinking',
+            phase: this.phase,
+            message: `Retrying after API error (attempt ${attempt}): ${error instanceof Error ? error.message : 'unknown error'}`,
+          }),
+          this.config.signal
+        );
 
         // Track usage
-        this.totalUsage.inputTokens += response.usage.input_tokens;
-        this.totalUsage.outputTokens += response.usage.output_tokens;
-
-        // Process response
-        const assistantContent: Anthropic.ContentBlock[] = [];
-        const toolResults: Anthropic.ToolResultBlockParam[] = [];
+        this.totalUsage.inputTokens += response.usage.inputTokens;
+        this.totalUsage.outputTokens += response.usage.outputTokens;
+
+        if (response.text) {
+          this.emit({
+            type: 'text_delta',
+            message: response.text,
+          });
+        }
 
-        for (const block of response.content) {
-          assistantContent.push(block);
+        if (response.text || response.toolCalls.length > 0) {
+          messages.push({
+            role: 'assistant',
+            text: response.text,
+            toolCalls: response.toolCalls,
+            raw: response.raw,
+          });
+        }
 
-          if (block.type === 'text') {
-            this.emit({
-              type: 'text_delta',
-              message: block.text,
-            });
-          } else if (block.type === 'tool_use') {
-            // Execute the tool
-            const toolName = block.name as ToolName;
-            const toolInput = block.input as ToolInput;
+        // ── No tool calls: nudge the model while plan files remain ──
+        if (response.toolCalls.length === 0) {
+          consecutiveEmpty++;
+          totalEmpty++;
+          const remainingFiles = this.remainingPlanFiles(agentMode);
 
-            this.emit({
-              type: 'tool_call',
-              iteration: this.iterations,
-              tool: toolName,
-              input: toolInput,
-            });
-            this.emit({
-              type: 'step_start',
-              iteration: this.iterations,
-              step: `${toolName}`,
-              message: `Running ${toolName}`,
-            });
+          if (remainingFiles.length === 0) {
+            // Nothing left to write — the agent is done
+            this.phase = 'complete';
+            break;
+          }
 
-            // Update phase based on tool
-            this.updatePhaseFromTool(toolName);
+          if (totalEmpty >= MAX_TOTAL_EMPTY) {
+            stallError = `Model stopped responding with ${remainingFiles.length} planned files unwritten: ${remainingFiles.join(', ')}`;
+            this.emit({ type: 'text_delta', message: `\n[Warning: ${stallError}]\n` });
+            break;
+          }
 
-            // Normalize path for file-related tools before execution
-            if ('path' in toolInput && typeof toolInput.path === 'string') {
-              toolInput.path = toolInput.path.trim().replace(/^\/+/, '');
-            }
+          if (consecutiveEmpty >= MAX_CONSECUTIVE_EMPTY) {
+            this.emit({ type: 'text_delta', message: `\n[Session reset: ${remainingFiles.length} files remaining...]\n` });
+            compress();
+            consecutiveEmpty = 0;
+          } else {
+            this.emit({ type: 'text_delta', message: `\n[Continuing: ${remainingFiles.length} files remaining...]\n` });
+            messages.push({ role: 'user', content: buildContinuationPrompt(remainingFiles) });
+          }
+          continue;
+        }
 
-            // Execute tool
-            let result = await executeTool(executor, toolName, toolInput);
+        consecutiveEmpty = 0;
+        const toolResults: AgentToolResult[] = [];
+
+        for (const call of response.toolCalls) {
+          // Cancelled mid-turn: skip the remaining calls
+          if (this.config.signal?.aborted) break;
+
+          // Execute the tool
+          const toolName = call.name as ToolName;
+          const toolInput = call.input as unknown as ToolInput;
+
+          this.emit({
+            type: 'tool_call',
+            iteration: this.iterations,
+            tool: toolName,
+            input: toolInput,
+          });
+          this.emit({
+            type: 'step_start',
+            iteration: this.iterations,
+            step: `${toolName}`,
+            message: `Running ${toolName}`,
+          });
+
+          // Update phase based on tool
+          this.updatePhaseFromTool(toolName);
+
+          // Normalize path for file-related tools before execution
+          if ('path' in toolInput && typeof toolInput.path === 'string') {
+            toolInput.path = toolInput.path.trim().replace(/^\/+/, '');
+          }
+          if (toolName === 'move_file') {
+            const moveInput = toolInput as MoveFileInput;
+            moveInput.from = String(moveInput.from ?? '').trim().replace(/^\/+/, '');
+            moveInput.to = String(moveInput.to ?? '').trim().replace(/^\/+/, '');
+          }
 
+          // Execute tool
+          const result = await executeTool(executor, toolName, toolInput);
+          if (toolName === 'verify_project' || toolName === 'run_test') this.applyFixedFiles(result);
+
+          this.emit({
+            type: 'tool_result',
+            iteration: this.iterations,
+            tool: toolName,
+            result,
+          });
+          this.emit({
+            type: 'step_finish',
+            iteration: this.iterations,
+            step: `${toolName}`,
+            message: result.success ? `${toolName} completed` : `${toolName} failed`,
+          });
+
+          // Handle special tools
+          if (toolName === 'create_plan') {
+            const planInput = toolInput as CreatePlanInput;
+            this.plan = {
+              appName: planInput.app_name,
+              appType: planInput.app_type,
+              features: planInput.features,
+              screens: planInput.screens,
+              fileTree: (planInput.file_tree || []).map(f => f.trim().replace(/^\/+/, '')),
+              dependencies: planInput.dependencies || [],
+              planSteps: planInput.plan_steps || [],
+            };
+            // NOTE: plan_created SSE is emitted by the executor (route.ts createPlan).
+            // Do NOT emit plan_created here to avoid sending the event twice.
+            
+            if (agentMode === 'plan') {
+              // If in plan mode, we can inject a specific message to tell it to complete
+              result.output = 'Plan created successfully. You are in PLAN MODE. Now immediately call the complete tool with a summary. Do not write any code.';
+            }
+          } else if (toolName === 'write_file' && result.success) {
+            const writeInput = toolInput as WriteFileInput;
+            const fileExists = this.files.has(writeInput.path);
+            const file: ParsedFile = {
+              path: writeInput.path,
+              content: writeInput.content,
+              language: getLanguageFromPath(writeInput.path),
+            };
+            this.files.set(file.path, file);
+            this.writtenFiles.add(file.path);
+            this.deletedFiles.delete(file.path);
             this.emit({
-              type: 'tool_result',
-              iteration: this.iterations,
-              tool: toolName,
-              result,
-            });
-            this.emit({
-              type: 'step_finish',
-              iteration: this.iterations,
-              step: `${toolName}`,
-              message: result.success ? `${toolName} completed` : `${toolName} failed`,
+              type: fileExists ? 'file_updated' : 'file_created',
+              file,
             });
-
-            // Handle special tools
-            if (toolName === 'create_plan') {
-              const planInput = toolInput as CreatePlanInput;
-              this.plan = {
-                appName: planInput.app_name,
-                appType: planInput.app_type,
-                features: planInput.features,
-                screens: planInput.screens,
-                fileTree: (planInput.file_tree || []).map(f => f.trim().replace(/^\/+/, '')),
-                dependencies: planInput.dependencies || [],
-                planSteps: planInput.plan_steps || [],
-              };
-              // NOTE: plan_created SSE is emitted by the executor (route.ts createPlan).
-              // Do NOT emit plan_created here to avoid sending the event twice.
-              
-              if (agentMode === 'plan') {
-                // If in plan mode, we can inject a specific message to tell it to complete
-                result.output = 'Plan created successfully. You are in PLAN MODE. Now immediately call the complete tool with a summary. Do not write any code.';
-              }
-            } else if (toolName === 'write_file') {
-              const writeInput = toolInput as WriteFileInput;
-              const fileExists = this.files.has(writeInput.path);
-              const file: ParsedFile = {
-                path: writeInput.path,
-                content: writeInput.content,
-                language: getLanguageFromPath(writeInput.path),
+            this.emitPlanProgress(file.path);
+          } else if (toolName === 'patch_file' && result.success) {
+            const patchInput = toolInput as PatchFileInput;
+            const existing = this.files.get(patchInput.path);
+            if (existing) {
+              const file = {
+                ...existing,
+                content: existing.content.replace(patchInput.find, patchInput.replace),
               };
-              this.files.set(file.path, file);
-              this.emit({
-                type: fileExists ? 'file_updated' : 'file_created',
-                file,
-              });
-            } else if (toolName === 'patch_file') {
-              const patchInput = toolInput as PatchFileInput;
-              const existing = this.files.get(patchInput.path);
-              if (existing) {
-                this.files.set(patchInput.path, {
-                  ...existing,
-                  content: existing.content.replace(patchInput.find, patchInput.replace),
-                });
-              }
-            } else if (toolName === 'complete') {
-              const completeInput = toolInput as CompleteInput;
-              
-              let canComplete = true;
-              if (this.plan && agentMode === 'build') {
-                const remainingFiles = this.plan.fileTree.filter(f => !this.files.has(f));
-                if (remainingFiles.length > 0) {
-                  canComplete = false;
-                  result.success = false;
-                  result.error = `You cannot call complete yet. You have ${remainingFiles.length} files left to write from your plan: ${remainingFiles.join(', ')}. Call write_file for these remaining files immediately.`;
-                }
-              }
-
-              if (canComplete) {
-                this.phase = 'complete';
+              this.files.set(patchInput.path, file);
+              this.writtenFiles.add(patchInput.path);
+              this.emit({ type: 'file_updated', file });
+            }
+          } else if (toolName === 'delete_file' && result.success) {
+            const deleteInput = toolInput as DeleteFileInput;
+            this.files.delete(deleteInput.path);
+            this.writtenFiles.delete(deleteInput.path);
+            // Deleting a moved file leaves its original path deleted
+            this.movedFrom.delete(deleteInput.path);
+            if (this.originalPaths.has(deleteInput.path)) this.deletedFiles.add(deleteInput.path);
+            this.emit({ type: 'file_deleted', path: deleteInput.path });
+          } else if (toolName === 'move_file' && result.success) {
+            this.applyMove(toolInput as MoveFileInput);
+          } else if ((toolName === 'add_dependency' || toolName === 'remove_dependency') && result.success) {
+            const { file } = result.data as { file: ParsedFile };
+            const fileExists = this.files.has(file.path);
+            this.files.set(file.path, file);
+            this.writtenFiles.add(file.path);
+            this.deletedFiles.delete(file.path);
+            this.emit({ type: fileExists ? 'file_updated' : 'file_created', file });
+          } else if (toolName === 'complete') {
+            const completeInput = toolInput as CompleteInput;
+            
+            let canComplete = true;
+            const remainingFiles = this.remainingPlanFiles(agentMode);
+            if (remainingFiles.length > 0) {
+              canComplete = false;
+              result.success = false;
+              result.error = `You cannot call complete yet. You have ${remainingFiles.length} files left to write from your plan: ${remainingFiles.join(', ')}. Call write_file for these remaining files immediately.`;
+            } else if (agentMode !== 'plan' && this.writtenFiles.size > 0 && verifyRounds < MAX_VERIFY_ROUNDS) {
+              // Verify before accepting completion
+              const check = await executor.verifyProject({ checks: ['typecheck', 'lint', 'build', 'imports', 'routes'] });
+              this.applyFixedFiles(check);
+              if (!check.success && check.error) {
+                verifyRounds++;
+                canComplete = false;
+                result.success = false;
+                result.error = buildErrorFixPrompt(check.error.split('\n'));
                 this.emit({
-                  type: 'complete',
-                  summary: completeInput.summary,
-                  filesCreated: completeInput.files_created,
+                  type: 'text_delta',
+                  message: `\n[Verification failed. Auto-fixing ${check.error.split('\n').length} errors...]\n`,
                 });
               }
             }
 
-            toolResults.push({
-              type: 'tool_result',
-              tool_use_id: block.id,
-              content: result.success 
-                ? (result.output || 'Success') 
-                : `Error: ${result.error}`,
-            });
+            if (canComplete) {
+              this.phase = 'complete';
+              this.completionSummary = completeInput.summary;
+              this.emit({
+                type: 'complete',
+                summary: completeInput.summary,
+                filesCreated: completeInput.files_created,
+                changes: this.getChanges(),
+              });
+            }
           }
-        }
 
-        // Add assistant message and tool results to conversation
-        messages.push({ role: 'assistant', content: assistantContent });
-        
-        if (toolResults.length > 0) {
-          messages.push({ role: 'user', content: toolResults });
+          toolResults.push({
+            toolCallId: call.id,
+            name: toolName,
+            content: result.success 
+              ? (result.output || 'Success') 
+              : `Error: ${result.error}`,
+            isError: !result.success,
+          });
         }
 
-        // Check if we should stop
-        if (response.stop_reason === 'end_turn' && toolResults.length === 0) {
-          // No more tool calls, agent is done thinking
-          if (this.phase !== 'complete') {
-            this.phase = 'complete';
-          }
-          break;
+        // Add tool results to conversation
+        messages.push({ role: 'tool', results: toolResults });
+
+        // ── Context compression: start fresh after enough new files ──
+        if (
+          this.shouldContinue() &&
+          this.writtenFiles.size - lastCompressedAt >= COMPRESS_AFTER_FILES &&
+          this.remainingPlanFiles(agentMode).length > 0
+        ) {
+          compress();
         }
       }
 
+      if (this.config.signal?.aborted && this.phase !== 'complete') {
+        return this.cancelledResult();
+      }
+
+      const success = this.phase === 'complete';
       return {
-        success: this.phase === 'complete',
+        success,
         phase: this.phase,
         files: Array.from(this.files.values()),
-        summary: this.plan ? `Built ${this.plan.appName} (${this.plan.appType})` : 'App built',
+        changes: this.getChanges(),
+        summary: this.completionSummary
+          ?? (agentMode === 'edit'
+            ? `Changed ${this.getChanges().length} files`
+            : this.plan ? `Built ${this.plan.appName} (${this.plan.appType})` : 'App built'),
+        error: success
+          ? undefined
+          : stallError ?? `Stopped after ${this.iterations} iterations without completing`,
         usage: this.totalUsage,
         iterations: this.iterations,
       };
 
     } catch (error) {
+      if (this.config.signal?.aborted) {
+        return this.cancelledResult();
+      }
+
       this.phase = 'error';
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       
@@ -366,6 +572,7 @@ export class RorkAgent {
         success: false,
         phase: 'error',
         files: Array.from(this.files.values()),
+        changes: this.getChanges(),
         error: errorMessage,
         usage: this.totalUsage,
         iterations: this.iterations,
@@ -379,11 +586,172 @@ export class RorkAgent {
     }
   }
 
+  /**
+   * Snapshot of the run's progress, for persisting and later `config.resume`
+   */
+  getCheckpoint(): AgentCheckpoint {
+    return {
+      plan: this.plan,
+      iterations: this.iterations,
+      changes: this.getChanges(),
+    };
+  }
+
+  private restore(checkpoint: AgentCheckpoint): void {
+    this.plan = checkpoint.plan;
+    this.iterations = checkpoint.iterations;
+    for (const change of checkpoint.changes) {
+      if (change.action === 'deleted') {
+        this.deletedFiles.add(change.path);
+        this.files.delete(change.path);
+      } else if (change.action === 'moved') {
+        this.writtenFiles.add(change.path);
+        this.originalPaths.delete(change.path);
+        if (change.from) {
+          this.movedFrom.set(change.path, change.from);
+          this.deletedFiles.add(change.from);
+          this.files.delete(change.from);
+        }
+      } else {
+        this.writtenFiles.add(change.path);
+        // Files the interrupted run created were not part of the original project
+        if (change.action === 'created') this.originalPaths.delete(change.path);
+      }
+    }
+    for (const path of this.deletedFiles) this.originalPaths.add(path);
+  }
+
+  /**
+   * Result for a run stopped through `config.signal`
+   */
+  private cancelledResult(): AgentResult {
+    this.phase = 'cancelled';
+    const changes = this.getChanges();
+    this.emit({
+      type: 'cancelled',
+      phase: 'cancelled',
+      message: `Run cancelled after ${this.iterations} iterations`,
+      changes,
+    });
+
+    return {
+      success: false,
+      phase: 'cancelled',
+      files: Array.from(this.files.values()),
+      changes,
+      summary: this.completionSummary ?? undefined,
+      error: 'Run cancelled',
+      usage: this.totalUsage,
+      iterations: this.iterations,
+    };
+  }
+
+  /**
+   * Plan files not yet written (build mode only)
+   */
+  private remainingPlanFiles(agentMode: AgentMode): string[] {
+    if (!this.plan || agentMode !== 'build') return [];
+    return this.plan.fileTree.filter(f => !this.files.has(f));
+  }
+
+  /**
+   * Apply a successful move_file to the agent's view of the project
+   */
+  private applyMove({ from, to }: MoveFileInput): void {
+    const existing = this.files.get(from);
+    if (!existing) return;
+
+    const file: ParsedFile = { path: to, content: existing.content, language: getLanguageFromPath(to) };
+    this.files.delete(from);
+    this.files.set(to, file);
+    this.writtenFiles.delete(from);
+    this.writtenFiles.add(to);
+    this.deletedFiles.delete(to);
+
+    // Track moves of starting files back to where they began
+    const origin = this.movedFrom.get(from) ?? (this.originalPaths.has(from) ? from : undefined);
+    this.movedFrom.delete(from);
+    if (origin && origin !== to) {
+      this.movedFrom.set(to, origin);
+      this.deletedFiles.add(origin);
+    }
+
+    this.emit({ type: 'file_moved', fromPath: from, file });
+  }
+
+  /**
+   * Mirror files the executor autofixed while verifying, so later patches
+   * start from the fixed content and the preview shows it
+   */
+  private applyFixedFiles(result: ToolResult): void {
+    const { fixedFiles = [] } = (result.data ?? {}) as { fixedFiles?: ParsedFile[] };
+    for (const file of fixedFiles) {
+      this.files.set(file.path, file);
+      this.writtenFiles.add(file.path);
+      this.emit({ type: 'file_updated', file });
+    }
+  }
+
+  /**
+   * Files created, modified, moved or deleted relative to the starting project
+   */
+  private getChanges(): AgentFileChange[] {
+    const changes: AgentFileChange[] = Array.from(this.writtenFiles, (path): AgentFileChange => {
+      const from = this.movedFrom.get(path);
+      if (from) return { path, action: 'moved', from };
+      return { path, action: this.originalPaths.has(path) ? 'modified' : 'created' };
+    });
+    const moveOrigins = new Set(this.movedFrom.values());
+    for (const path of this.deletedFiles) {
+      if (!moveOrigins.has(path)) changes.push({ path, action: 'deleted' });
+    }
+    return changes;
+  }
+
+  private emitPlanProgress(currentFile: string): void {
+    if (!this.plan) return;
+    const completedFiles = this.plan.fileTree.filter(f => this.files.has(f)).length;
+    const totalFiles = this.plan.fileTree.length;
+    this.emit({
+      type: 'plan_progress',
+      progress: { currentFile, completedFiles, totalFiles },
+      message: `Writing file ${completedFiles}/${totalFiles}: ${currentFile}`,
+    });
+  }
+
   /**
    * Build the system prompt for the agent
    */
-  private buildSystemPrompt(agentMode: 'plan' | 'build'): string {
-    const basePrompt = `${FULL_SYSTEM_PROMPT}
+  private buildSystemPrompt(agentMode: AgentMode): string {
+    const sdk = getExpoSdk(this.config.sdkVersion);
+    const systemPrompt = getFullSystemPrompt(sdk);
+
+    if (agentMode === 'edit') {
+      return `${systemPrompt}
+
+## Agent Instructions
+
+You are an AI agent making a focused change to an EXISTING Expo mobile app.
+The app already works. Your job is to apply the user's request with the smallest correct change.
+
+### Your Process
+1. **INSPECT**: Start from the relevant files provided; use read_file, list_files and search_files for anything else you need
+2. **PATCH MINIMALLY**: Use patch_file for every change to an existing file — never rewrite a whole file to change a few lines
+3. **NEW FILES ONLY WHEN NEEDED**: Use write_file only to create files that do not exist yet
+4. **VERIFY**: Call verify_project to check for type/lint/build/import/route issues and fix anything you broke
+5. **COMPLETE**: Call complete with a summary listing exactly which files you changed and what changed in each
+
+### Rules
+- Do NOT call create_plan and do NOT restructure the app
+- Leave unrelated code, styling and formatting untouched
+- Keep existing imports, names and conventions consistent with the surrounding code
+- Make each patch_file \`find\` string unique and copied exactly from the current file
+- Use move_file to rename or move a file, then patch every import of the old path
+- Use add_dependency / remove_dependency for packages instead of editing package.json
+- NEVER leave placeholder comments like "// TODO" or "// rest of code"`;
+    }
+
+    const basePrompt = `${systemPrompt}
 
 ## Agent Instructions
 
@@ -394,7 +762,7 @@ You have access to tools that let you plan, create files, patch files, verify, a
 1. **PLAN FIRST**: Always start by calling create_plan to define the app structure
 2. **CODE**: Use write_file to create all files in your plan
 3. **PATCH PRECISELY**: Use patch_file for targeted changes instead of rewriting large files
-4. **VERIFY**: Call verify_project (or run_test) to check for type/lint/build issues
+4. **VERIFY**: Call verify_project (or run_test) to check for type/lint/build/import/route issues
 5. **DEBUG**: If errors found, use fix_error plus patch_file/write_file to resolve them
 6. **COMPLETE**: When everything works, call complete
 
@@ -404,9 +772,10 @@ You have access to tools that let you plan, create files, patch files, verify, a
 - Always start with app/_layout.tsx 
 - Include proper navigation (NativeTabs or Stack)
 - Add realistic sample data where needed
-- Use modern Expo SDK 54+ patterns
+- Use modern Expo SDK ${sdk.major} patterns
 - Handle loading and error states
 - Use search_files before risky refactors
+- Use add_dependency for every package you import beyond react and react-native; never hand-edit versions in package.json
 - NEVER leave placeholder comments like "// TODO" or "// rest of code"
 
 ### File Generation Order
@@ -429,7 +798,11 @@ When you're done building, call the complete tool with a summary.`;
   /**
    * Build the initial prompt with context
    */
-  private buildInitialPrompt(userPrompt: string): string {
+  private buildInitialPrompt(userPrompt: string, agentMode: AgentMode): string {
+    if (agentMode === 'edit') {
+      return this.buildEditPrompt(userPrompt);
+    }
+
     const existingFilesContext = this.files.size > 0
       ? `\n\nExisting project files:\n${Array.from(this.files.values())
           .map(f => `- ${f.path}`)
@@ -445,6 +818,35 @@ ${existingFilesContext}
 Start by creating a plan, then implement all the files needed for a complete, working app.`;
   }
 
+  /**
+   * Edit mode prompt: the file list plus the contents of the files most
+   * relevant to the request, so the agent can patch without exploring first
+   */
+  private buildEditPrompt(userPrompt: string): string {
+    const contents: Record<string, string> = {};
+    for (const [path, file] of this.files) contents[path] = file.content;
+
+    const relevant = selectRelevantFiles(userPrompt, contents, { limit: EDIT_CONTEXT_FILES });
+    const relevantContext = relevant
+      .map(({ path }) => {
+        const content = contents[path];
+        const truncated = content.length > EDIT_CONTEXT_MAX_CHARS
+          ? `${content.slice(0, EDIT_CONTEXT_MAX_CHARS)}\n... (truncated — use read_file for the rest)`
+          : content;
+        return `<file path="${path}">\n${truncated}\n</file>`;
+      })
+      .join('\n\n');
+
+    return `Make the following change to this existing app:
+
+${userPrompt}
+
+Project files:
+${Object.keys(contents).map(path => `- ${path}`).join('\n') || '(none)'}
+
+${relevantContext ? `Most relevant files:\n\n${relevantContext}\n\n` : ''}Apply the smallest change that satisfies the request using patch_file, verify the project, then call complete with the list of changed files.`;
+  }
+
   /**
    * Update phase based on tool being called
    */
@@ -458,6 +860,9 @@ Start by creating a plan, then implement all the files needed for a complete, wo
       case 'write_file':
       case 'patch_file':
       case 'delete_file':
+      case 'move_file':
+      case 'add_dependency':
+      case 'remove_dependency':
         this.phase = 'coding';
         break;
       case 'search_files':
@@ -470,9 +875,7 @@ Start by creating a plan, then implement all the files needed for a complete, wo
       case 'fix_error':
         this.phase = 'debugging';
         break;
-      case 'complete':
-        this.phase = 'complete';
-        break;
+      // 'complete' only ends the run once it is accepted (see run)
     }
 
     if (oldPhase !== this.phase) {
@@ -500,13 +903,22 @@ Start by creating a plan, then implement all the files needed for a complete, wo
     this.phase = 'idle';
     this.plan = null;
     this.files.clear();
-    this.errors = [];
+    this.writtenFiles.clear();
+    this.originalPaths.clear();
+    this.deletedFiles.clear();
+    this.movedFrom.clear();
+    this.completionSummary = null;
     this.iterations = 0;
     this.totalUsage = { inputTokens: 0, outputTokens: 0 };
   }
 
   private shouldContinue(): boolean {
-    return this.phase !== 'complete' && this.phase !== 'error';
+    return (
+      this.phase !== 'complete' &&
+      this.phase !== 'error' &&
+      this.phase !== 'cancelled' &&
+      !this.config.signal?.aborted
+    );
   }
 
   /**
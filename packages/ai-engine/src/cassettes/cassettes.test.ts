@@ -0,0 +1,136 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { RorkAgent, type AgentEvent } from '../agent';
+import type { ToolExecutor, ToolResult } from '../tools';
+import type { AgentMode, AgentModel, AgentTurnRequest } from '../types';
+import { parseCassette, ReplayAgentModel } from '.';
+
+/**
+ * Agent flows replayed from recorded cassettes (src/cassettes/__fixtures__),
+ * offline: plan mode stopping after the plan, `complete` being rejected until
+ * the plan is written and verification passes, and context compression.
+ */
+
+function loadCassette(name: string): ReplayAgentModel {
+  return new ReplayAgentModel(parseCassette(readFileSync(path.join(__dirname, '__fixtures__', `${name}.json`), 'utf-8')));
+}
+
+/** Records what the agent sent, so tests can check the conversation it kept */
+class RequestSpy implements AgentModel {
+  name: string;
+  displayName: string;
+  defaultMaxTokens: number;
+  readonly requests: AgentTurnRequest[] = [];
+
+  constructor(private inner: AgentModel) {
+    this.name = inner.name;
+    this.displayName = inner.displayName;
+    this.defaultMaxTokens = inner.defaultMaxTokens;
+  }
+
+  createTurn(request: AgentTurnRequest) {
+    this.requests.push({ ...request, messages: structuredClone(request.messages) });
+    return this.inner.createTurn(request);
+  }
+}
+
+/** In-memory executor; verification fails while any file still references `undefinedStyles` */
+function createExecutor() {
+  const files = new Map<string, string>();
+  const calls: string[] = [];
+  const ok = (output = 'Success'): ToolResult => ({ success: true, output });
+  const record = (name: string) => calls.push(name);
+
+  const executor: ToolExecutor = {
+    createPlan: async () => (record('create_plan'), ok('Plan created')),
+    writeFile: async ({ path, content }) => (record('write_file'), files.set(path, content), ok(`Wrote ${path}`)),
+    patchFile: async ({ path, find, replace }) => {
+      record('patch_file');
+      const content = files.get(path);
+      if (content === undefined || !content.includes(find)) return { success: false, error: `Text not found in ${path}` };
+      files.set(path, content.replace(find, replace));
+      return ok(`Patched ${path}`);
+    },
+    verifyProject: async () => {
+      record('verify_project');
+      const broken = [...files].filter(([, content]) => content.includes('undefinedStyles')).map(([path]) => path);
+      return broken.length === 0
+        ? ok('No issues found')
+        : { success: false, error: broken.map((path) => `${path}(1,1): error TS2304: Cannot find name 'undefinedStyles'.`).join('\n') };
+    },
+    searchFiles: async () => ok(),
+    deleteFile: async ({ path }) => (record('delete_file'), files.delete(path), ok()),
+    moveFile: async () => ok(),
+    addDependency: async () => ({ success: false, error: 'Not supported in this test' }),
+    removeDependency: async () => ({ success: false, error: 'Not supported in this test' }),
+    readFile: async ({ path }) => ok(files.get(path) ?? ''),
+    listFiles: async () => ok([...files.keys()].join('\n')),
+    runTest: async () => ok(),
+    fixError: async () => ok(),
+    complete: async () => (record('complete'), ok('Done')),
+  };
+  return { executor, files, calls };
+}
+
+async function replay(name: string, prompt: string, agentMode: AgentMode) {
+  const model = loadCassette(name);
+  const spy = new RequestSpy(model);
+  const events: AgentEvent[] = [];
+  const { executor, files, calls } = createExecutor();
+  const agent = new RorkAgent({ model: spy, maxIterations: 10, onEvent: (event) => events.push(event) });
+  const result = await agent.run(prompt, executor, undefined, agentMode);
+  return { result, model, requests: spy.requests, events, files, calls };
+}
+
+function completeResults(events: AgentEvent[]) {
+  return events.filter((event) => event.type === 'tool_result' && event.tool === 'complete').map((event) => event.result!);
+}
+
+describe('cassette replay', () => {
+  it('stops after the plan in plan mode', async () => {
+    const { result, model, calls, events } = await replay('plan-mode', 'A habit tracker with streaks', 'plan');
+
+    expect(result.success).toBe(true);
+    expect(result.phase).toBe('complete');
+    expect(result.iterations).toBe(2);
+    expect(result.changes).toEqual([]);
+    expect(calls).toEqual(['create_plan', 'complete']);
+    expect(events.some((event) => event.type === 'file_created')).toBe(false);
+    expect(model.remaining).toBe(0);
+  });
+
+  it('rejects complete until the plan is written and verification passes', async () => {
+    const { result, model, files, calls, events } = await replay('rejected-complete', 'A counter app', 'build');
+
+    const [unfinished, unverified, accepted] = completeResults(events);
+    expect(unfinished.success).toBe(false);
+    expect(unfinished.error).toContain('1 files left to write from your plan: app/index.tsx');
+    expect(unverified.success).toBe(false);
+    expect(unverified.error).toContain('VERIFICATION FAILED');
+    expect(unverified.error).toContain("Cannot find name 'undefinedStyles'");
+    expect(accepted.success).toBe(true);
+
+    expect(calls.filter((call) => call === 'verify_project')).toHaveLength(2);
+    expect(files.get('app/index.tsx')).not.toContain('undefinedStyles');
+    expect(result.success).toBe(true);
+    expect(result.summary).toBe('Built a counter app');
+    expect(model.remaining).toBe(0);
+  });
+
+  it('compresses the conversation after enough files are written', async () => {
+    const { result, model, requests, files } = await replay('context-compression', 'A recipe book app', 'build');
+
+    // Plan, six files, then a fresh conversation holding only the compressed context
+    expect(requests[1].messages.length).toBe(3);
+    const [compressed] = requests[2].messages;
+    expect(requests[2].messages).toHaveLength(1);
+    expect(compressed.role).toBe('user');
+    expect(compressed.role === 'user' && compressed.content).toContain('=== CONTINUATION SESSION ===');
+    expect(compressed.role === 'user' && compressed.content).toContain('## Remaining Files (2');
+
+    expect(files.size).toBe(8);
+    expect(result.success).toBe(true);
+    expect(model.remaining).toBe(0);
+  });
+});
@@ -0,0 +1,397 @@
+/**
+ * Record/replay for model calls.
+ *
+ * A recording wrapper passes every call through to a real AgentModel (or
+ * AIProvider) and captures the request and response, tool calls included,
+ * in a JSON cassette. A replay model serves a cassette back without network
+ * access, so agent flows can be re-run deterministically: plan mode
+ * stopping, `complete` being rejected, context compression, and so on.
+ *
+ * Cassettes are plain JSON: serializeCassette/parseCassette convert them,
+ * and storing them is up to the caller.
+ */
+
+import type {
+  AgentMessage,
+  AgentModel,
+  AgentTurnRequest,
+  AgentTurnResponse,
+  AIProvider,
+  GenerateParams,
+  GenerateResult,
+  StreamChunk,
+} from '../types';
+
+export const CASSETTE_VERSION = 1;
+
+/** What a recorded request looked like: enough to match it and to see what went wrong */
+export interface CassetteRequest {
+  /** Hash of the whole request (system prompt, messages, tool names) */
+  fingerprint: string;
+  /** Hash of the system prompt alone */
+  system: string;
+  tools: string[];
+  messageCount: number;
+  /** The newest message, i.e. what the model was answering */
+  lastMessage: AgentMessage | null;
+}
+
+export interface AgentModelInteraction {
+  request: CassetteRequest;
+  response?: AgentTurnResponse;
+  /** Recorded failures are replayed as thrown errors (so retries replay too) */
+  error?: string;
+}
+
+export interface ProviderInteraction {
+  method: 'generateCode' | 'streamCode';
+  request: { fingerprint: string; prompt: string };
+  result?: GenerateResult;
+  chunks?: StreamChunk[];
+  error?: string;
+}
+
+interface CassetteBase {
+  version: typeof CASSETTE_VERSION;
+  /** The recorded model's name / displayName, reported by the replay model */
+  model: string;
+  displayName: string;
+  recordedAt: string;
+}
+
+export type Cassette =
+  | (CassetteBase & {
+      kind: 'agent-model';
+      /** The agent's output budget comes from the model, and is part of every request */
+      defaultMaxTokens: number;
+      interactions: AgentModelInteraction[];
+    })
+  | (CassetteBase & { kind: 'provider'; interactions: ProviderInteraction[] });
+
+export type AgentModelCassette = Extract<Cassette, { kind: 'agent-model' }>;
+export type ProviderCassette = Extract<Cassette, { kind: 'provider' }>;
+
+/**
+ * How replay picks the recorded response for a request:
+ * - 'sequence' (default): the next one in order; tolerates prompt changes
+ * - 'request': the next unused one with the same fingerprint; fails on any
+ *   difference in the request
+ */
+export type ReplayMatch = 'sequence' | 'request';
+
+export class CassetteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CassetteError';
+  }
+}
+
+// ── Fingerprints ───────────────────────────────────────────────────────────
+
+/** JSON with object keys sorted, so equal values always serialize the same */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/** 64-bit FNV-1a as hex (two 32-bit lanes); not cryptographic, just stable */
+export function contentHash(text: string): string {
+  let low = 0x811c9dc5;
+  let high = 0xcbf29ce4;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    low = Math.imul(low ^ code, 0x01000193) >>> 0;
+    high = Math.imul(high ^ code ^ (low >>> 7), 0x01000193) >>> 0;
+  }
+  return high.toString(16).padStart(8, '0') + low.toString(16).padStart(8, '0');
+}
+
+/** Provider-native replay content (e.g. Gemini thought signatures) is left out of the match */
+function withoutRaw(message: AgentMessage): AgentMessage {
+  if (message.role !== 'assistant' || message.raw === undefined) return message;
+  const { raw: _raw, ...rest } = message;
+  return rest;
+}
+
+export function describeAgentRequest(request: AgentTurnRequest): CassetteRequest {
+  const messages = request.messages.map(withoutRaw);
+  const tools = request.tools.map((tool) => tool.name);
+  return {
+    fingerprint: contentHash(stableStringify({ system: request.system, messages, tools, maxTokens: request.maxTokens })),
+    system: contentHash(request.system),
+    tools,
+    messageCount: messages.length,
+    // A copy: the agent keeps using (and may change) its own message objects
+    lastMessage: structuredClone(messages[messages.length - 1] ?? null),
+  };
+}
+
+function describeProviderRequest(params: GenerateParams): ProviderInteraction['request'] {
+  const { signal: _signal, ...rest } = params;
+  return { fingerprint: contentHash(stableStringify(rest)), prompt: params.prompt };
+}
+
+/** Where two recorded requests first differ, for mismatch errors */
+function describeDifference(expected: CassetteRequest, actual: CassetteRequest): string {
+  if (expected.system !== actual.system) return 'system prompt changed';
+  if (expected.tools.join() !== actual.tools.join()) {
+    return `tools changed (recorded ${expected.tools.join(', ')}; got ${actual.tools.join(', ')})`;
+  }
+  if (expected.messageCount !== actual.messageCount) {
+    return `recorded ${expected.messageCount} messages, got ${actual.messageCount}`;
+  }
+  if (stableStringify(expected.lastMessage) !== stableStringify(actual.lastMessage)) {
+    return `last message differs (recorded ${truncate(stableStringify(expected.lastMessage))}; got ${truncate(stableStringify(actual.lastMessage))})`;
+  }
+  return 'earlier messages differ';
+}
+
+function truncate(text: string, max = 200): string {
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new CassetteError('Request aborted');
+}
+
+// ── Serialization ──────────────────────────────────────────────────────────
+
+export function serializeCassette(cassette: Cassette): string {
+  return `${JSON.stringify(cassette, null, 2)}\n`;
+}
+
+export function parseCassette(json: string): Cassette {
+  let cassette: Cassette;
+  try {
+    cassette = JSON.parse(json) as Cassette;
+  } catch {
+    throw new CassetteError('Cassette is not valid JSON');
+  }
+  if (cassette?.version !== CASSETTE_VERSION) {
+    throw new CassetteError(`Unsupported cassette version ${String(cassette?.version)} (expected ${CASSETTE_VERSION})`);
+  }
+  if ((cassette.kind !== 'agent-model' && cassette.kind !== 'provider') || !Array.isArray(cassette.interactions)) {
+    throw new CassetteError('Cassette has no interactions');
+  }
+  return cassette;
+}
+
+function cassetteBase(source: { name: string; displayName: string }): CassetteBase {
+  return {
+    version: CASSETTE_VERSION,
+    model: source.name,
+    displayName: source.displayName,
+    recordedAt: new Date().toISOString(),
+  };
+}
+
+// ── Agent models ───────────────────────────────────────────────────────────
+
+export interface RecordingOptions<C extends Cassette> {
+  /** Keep appending to this cassette (e.g. a paused run being resumed) */
+  cassette?: C;
+  /** Called after every interaction with the updated cassette, to persist it */
+  onRecord?: (cassette: C) => void | Promise<void>;
+}
+
+/** Passes turns through to `inner`, recording each request and response */
+export class RecordingAgentModel implements AgentModel {
+  name: string;
+  displayName: string;
+  defaultMaxTokens: number;
+  readonly cassette: AgentModelCassette;
+
+  private inner: AgentModel;
+  private onRecord?: RecordingOptions<AgentModelCassette>['onRecord'];
+
+  constructor(inner: AgentModel, options: RecordingOptions<AgentModelCassette> = {}) {
+    this.inner = inner;
+    this.name = inner.name;
+    this.displayName = inner.displayName;
+    this.defaultMaxTokens = inner.defaultMaxTokens;
+    this.cassette = options.cassette ?? {
+      ...cassetteBase(inner),
+      kind: 'agent-model',
+      defaultMaxTokens: inner.defaultMaxTokens,
+      interactions: [],
+    };
+    this.onRecord = options.onRecord;
+  }
+
+  async createTurn(request: AgentTurnRequest): Promise<AgentTurnResponse> {
+    const described = describeAgentRequest(request);
+    try {
+      const response = await this.inner.createTurn(request);
+      await this.record({ request: described, response: structuredClone(response) });
+      return response;
+    } catch (error) {
+      // A cancelled request is not the model's behaviour; don't replay it
+      if (!request.signal?.aborted) await this.record({ request: described, error: errorMessage(error) });
+      throw error;
+    }
+  }
+
+  private async record(interaction: AgentModelInteraction): Promise<void> {
+    this.cassette.interactions.push(interaction);
+    await this.onRecord?.(this.cassette);
+  }
+}
+
+/** Serves a recorded cassette back, offline */
+export class ReplayAgentModel implements AgentModel {
+  name: string;
+  displayName: string;
+  defaultMaxTokens: number;
+
+  private cassette: AgentModelCassette;
+  private match: ReplayMatch;
+  private used = new Set<number>();
+  private next = 0;
+
+  constructor(cassette: Cassette, options: { match?: ReplayMatch } = {}) {
+    if (cassette.kind !== 'agent-model') throw new CassetteError('Not an agent model cassette');
+    this.cassette = cassette;
+    this.name = cassette.model;
+    this.displayName = `${cassette.displayName} (replay)`;
+    this.defaultMaxTokens = cassette.defaultMaxTokens;
+    this.match = options.match ?? 'sequence';
+  }
+
+  /** Recorded turns not served yet */
+  get remaining(): number {
+    return this.cassette.interactions.length - this.used.size;
+  }
+
+  async createTurn(request: AgentTurnRequest): Promise<AgentTurnResponse> {
+    throwIfAborted(request.signal);
+    const actual = describeAgentRequest(request);
+    const index = this.match === 'request'
+      ? this.cassette.interactions.findIndex((interaction, i) => !this.used.has(i) && interaction.request.fingerprint === actual.fingerprint)
+      : this.next < this.cassette.interactions.length ? this.next : -1;
+
+    if (index === -1) {
+      if (this.match === 'sequence') {
+        throw new CassetteError(`Cassette exhausted: the agent asked for turn ${this.next + 1} of ${this.cassette.interactions.length}`);
+      }
+      const expected = this.cassette.interactions.find((_, i) => !this.used.has(i));
+      throw new CassetteError(expected
+        ? `No recorded turn matches this request: ${describeDifference(expected.request, actual)}`
+        : 'Cassette exhausted: every recorded turn has been served');
+    }
+
+    this.used.add(index);
+    this.next = index + 1;
+    const interaction = this.cassette.interactions[index];
+    if (interaction.error !== undefined) throw new Error(interaction.error);
+    if (!interaction.response) throw new CassetteError(`Recorded turn ${index + 1} has no response`);
+    return structuredClone(interaction.response);
+  }
+}
+
+// ── Single-shot providers ──────────────────────────────────────────────────
+
+/** Passes generations through to `inner`, recording the result or streamed chunks */
+export class RecordingAIProvider implements AIProvider {
+  name: string;
+  displayName: string;
+  readonly cassette: ProviderCassette;
+
+  private inner: AIProvider;
+  private onRecord?: RecordingOptions<ProviderCassette>['onRecord'];
+
+  constructor(inner: AIProvider, options: RecordingOptions<ProviderCassette> = {}) {
+    this.inner = inner;
+    this.name = inner.name;
+    this.displayName = inner.displayName;
+    this.cassette = options.cassette ?? { ...cassetteBase(inner), kind: 'provider', interactions: [] };
+    this.onRecord = options.onRecord;
+  }
+
+  async generateCode(params: GenerateParams): Promise<GenerateResult> {
+    const request = describeProviderRequest(params);
+    try {
+      const result = await this.inner.generateCode(params);
+      await this.record({ method: 'generateCode', request, result: structuredClone(result) });
+      return result;
+    } catch (error) {
+      if (!params.signal?.aborted) await this.record({ method: 'generateCode', request, error: errorMessage(error) });
+      throw error;
+    }
+  }
+
+  async *streamCode(params: GenerateParams): AsyncGenerator<StreamChunk> {
+    const chunks: StreamChunk[] = [];
+    try {
+      for await (const chunk of this.inner.streamCode(params)) {
+        chunks.push(structuredClone(chunk));
+        yield chunk;
+      }
+    } finally {
+      if (!params.signal?.aborted) {
+        await this.record({ method: 'streamCode', request: describeProviderRequest(params), chunks });
+      }
+    }
+  }
+
+  private async record(interaction: ProviderInteraction): Promise<void> {
+    this.cassette.interactions.push(interaction);
+    await this.onRecord?.(this.cassette);
+  }
+}
+
+/** Serves recorded generations back in order, offline */
+export class ReplayAIProvider implements AIProvider {
+  name: string;
+  displayName: string;
+
+  private cassette: ProviderCassette;
+  private next = 0;
+
+  constructor(cassette: Cassette) {
+    if (cassette.kind !== 'provider') throw new CassetteError('Not a provider cassette');
+    this.cassette = cassette;
+    this.name = cassette.model;
+    this.displayName = `${cassette.displayName} (replay)`;
+  }
+
+  async generateCode(params: GenerateParams): Promise<GenerateResult> {
+    throwIfAborted(params.signal);
+    const interaction = this.take('generateCode');
+    if (interaction.error !== undefined) throw new Error(interaction.error);
+    if (!interaction.result) throw new CassetteError('Recorded generation has no result');
+    return structuredClone(interaction.result);
+  }
+
+  async *streamCode(params: GenerateParams): AsyncGenerator<StreamChunk> {
+    const interaction = this.take('streamCode');
+    for (const chunk of interaction.chunks ?? []) {
+      if (params.signal?.aborted) {
+        yield { type: 'cancelled' };
+        return;
+      }
+      yield structuredClone(chunk);
+    }
+  }
+
+  private take(method: ProviderInteraction['method']): ProviderInteraction {
+    const interaction = this.cassette.interactions[this.next];
+    if (!interaction) {
+      throw new CassetteError(`Cassette exhausted after ${this.cassette.interactions.length} generations`);
+    }
+    if (interaction.method !== method) {
+      throw new CassetteError(`Recorded call ${this.next + 1} was ${interaction.method}, not ${method}`);
+    }
+    this.next++;
+    return interaction;
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Relevant file selection
+ * Ranks existing project files against a follow-up prompt so edit-mode runs
+ * start from the handful of files the change is likely to touch.
+ */
+
+export interface RelevantFile {
+  path: string;
+  score: number;
+}
+
+export interface RelevantFileOptions {
+  /** Maximum number of files to return (default 6) */
+  limit?: number;
+}
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'onto', 'make', 'change',
+  'add', 'remove', 'update', 'please', 'can', 'you', 'should', 'when', 'then', 'all',
+  'app', 'screen', 'file', 'files', 'use', 'using', 'instead', 'also', 'more', 'less',
+  'some', 'new', 'its', 'are', 'was', 'have', 'has', 'but', 'not', 'there', 'them',
+]);
+
+// Entry points are useful context for almost any edit
+const ENTRY_FILES = ['app/_layout.tsx', 'app/(tabs)/_layout.tsx', 'App.tsx'];
+
+/** Lowercase word stems from the prompt, ignoring filler words. */
+function promptTerms(prompt: string): string[] {
+  const words = prompt.toLowerCase().match(/[a-z][a-z0-9]{2,}/g) ?? [];
+  const terms = new Set<string>();
+  for (const word of words) {
+    if (STOP_WORDS.has(word)) continue;
+    // Crude singularisation so "buttons" matches "Button.tsx"
+    terms.add(word.length > 4 && word.endsWith('s') ? word.slice(0, -1) : word);
+  }
+  return [...terms];
+}
+
+/** Words in a path: `components/TodoItem.tsx` → components, todo, item, todoitem */
+function pathWords(path: string): string[] {
+  const withoutExt = path.replace(/\.[a-z]+$/i, '');
+  const segments = withoutExt.split(/[/()[\]._-]+/).filter(Boolean);
+  const words = segments.flatMap((segment) => [
+    segment.toLowerCase(),
+    ...segment.split(/(?=[A-Z])/).map((part) => part.toLowerCase()),
+  ]);
+  return [...new Set(words)];
+}
+
+function countOccurrences(haystack: string, needle: string, cap: number): number {
+  let count = 0;
+  let index = haystack.indexOf(needle);
+  while (index !== -1 && count < cap) {
+    count++;
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return count;
+}
+
+/**
+ * Rank project files by how likely a prompt is to concern them.
+ * Explicit path mentions win, then path words, then content matches.
+ */
+export function selectRelevantFiles(
+  prompt: string,
+  files: Record<string, string>,
+  options: RelevantFileOptions = {}
+): RelevantFile[] {
+  const { limit = 6 } = options;
+  const promptLower = prompt.toLowerCase();
+  const terms = promptTerms(prompt);
+
+  const scored: RelevantFile[] = Object.entries(files).map(([path, content]) => {
+    let score = 0;
+    const pathLower = path.toLowerCase();
+    const baseName = pathLower.split('/').pop()!.replace(/\.[a-z]+$/, '');
+
+    if (promptLower.includes(pathLower)) score += 20;
+    else if (baseName.length > 2 && baseName !== 'index' && baseName !== '_layout' && promptLower.includes(baseName)) {
+      score += 8;
+    }
+
+    const words = pathWords(path);
+    const contentLower = content.toLowerCase();
+    for (const term of terms) {
+      if (words.some((word) => word === term || (term.length > 3 && word.startsWith(term)))) score += 4;
+      score += countOccurrences(contentLower, term, 5) * 0.5;
+    }
+
+    if (score > 0 && ENTRY_FILES.includes(path)) score += 1;
+    return { path, score };
+  });
+
+  const ranked = scored
+    .filter((file) => file.score > 0)
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+    .slice(0, limit);
+
+  if (ranked.length > 0) return ranked;
+
+  // Nothing matched — fall back to the navigation entry points
+  return ENTRY_FILES
+    .filter((path) => path in files)
+    .slice(0, limit)
+    .map((path) => ({ path, score: 0 }));
+}
@@ -0,0 +1,157 @@
+/**
+ * Conversation memory
+ * Turns stored project messages into a token-budgeted history for the next
+ * agent run. Recent turns are kept verbatim; older ones are folded into a
+ * compact summary so follow-ups ("now add a settings screen") keep context.
+ */
+
+import type { ConversationMessage } from '../types';
+import type { AppPlan } from '../agent';
+
+export interface HistoryTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  filesChanged?: string[] | null;
+  plan?: AppPlan | null;
+}
+
+export interface ConversationContextOptions {
+  /** Approximate token budget for the whole history (default 6000) */
+  maxTokens?: number;
+  /** Share of the budget reserved for the summary of older turns (default 0.25) */
+  summaryShare?: number;
+}
+
+export interface ConversationContext {
+  messages: ConversationMessage[];
+  /** Number of older turns folded into the summary */
+  summarizedTurns: number;
+  estimatedTokens: number;
+}
+
+// Lists of files/screens longer than this are cut in rendered turns
+const MAX_LISTED_PATHS = 15;
+const SUMMARY_LINE_CHARS = 160;
+
+/** Rough token estimate (~4 characters per token) — good enough for budgeting */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function listPaths(paths: string[]): string {
+  const shown = paths.slice(0, MAX_LISTED_PATHS).join(', ');
+  return paths.length > MAX_LISTED_PATHS ? `${shown}, … (+${paths.length - MAX_LISTED_PATHS} more)` : shown;
+}
+
+function firstLine(text: string, maxChars: number): string {
+  const line = text.split('\n').map((l) => l.trim()).find(Boolean) ?? '';
+  return line.length > maxChars ? `${line.slice(0, maxChars - 1)}…` : line;
+}
+
+/** Full rendering of a turn, including its plan and file-change list. */
+function renderTurn(turn: HistoryTurn): string {
+  const parts = [turn.content.trim()];
+  if (turn.plan) {
+    parts.push(
+      `Plan: ${turn.plan.appName} (${turn.plan.appType})`,
+      `Screens: ${turn.plan.screens.join(', ')}`,
+      `Features: ${turn.plan.features.join(', ')}`
+    );
+  }
+  if (turn.filesChanged && turn.filesChanged.length > 0) {
+    parts.push(`Files changed: ${listPaths(turn.filesChanged)}`);
+  }
+  return parts.join('\n');
+}
+
+/** One-line rendering used for summarised turns. */
+function summarizeTurn(turn: HistoryTurn): string {
+  if (turn.role === 'user') {
+    return `- User asked: ${firstLine(turn.content, SUMMARY_LINE_CHARS)}`;
+  }
+  const details: string[] = [];
+  if (turn.plan) details.push(`planned ${turn.plan.appName} (${turn.plan.screens.length} screens)`);
+  if (turn.filesChanged && turn.filesChanged.length > 0) details.push(`changed ${listPaths(turn.filesChanged)}`);
+  const suffix = details.length > 0 ? ` [${details.join('; ')}]` : '';
+  return `- Assistant: ${firstLine(turn.content, SUMMARY_LINE_CHARS)}${suffix}`;
+}
+
+/** Keep the newest summary lines that fit; note that older ones were dropped. */
+function fitSummary(lines: string[], budget: number): string {
+  const kept: string[] = [];
+  let used = 0;
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(lines[i]) + 1;
+    if (used + cost > budget) break;
+    kept.unshift(lines[i]);
+    used += cost;
+  }
+  if (kept.length < lines.length) kept.unshift('- (earlier turns omitted)');
+  return kept.join('\n');
+}
+
+/** Merge consecutive same-role messages so providers see strict alternation. */
+function alternate(messages: ConversationMessage[]): ConversationMessage[] {
+  const merged: ConversationMessage[] = [];
+  for (const message of messages) {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.role === message.role) {
+      previous.content = `${previous.content}\n\n${message.content}`;
+    } else {
+      merged.push({ role: message.role, content: message.content });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Build the conversation history for the next run from stored turns
+ * (oldest first). The result starts with a user turn and ends with an
+ * assistant turn, so the new prompt can be appended directly.
+ */
+export function buildConversationContext(
+  turns: HistoryTurn[],
+  options: ConversationContextOptions = {}
+): ConversationContext {
+  const { maxTokens = 6000, summaryShare = 0.25 } = options;
+
+  // A trailing unanswered prompt (failed or cancelled run) has nothing to pair with
+  const history = [...turns];
+  while (history.length > 0 && history[history.length - 1].role === 'user') history.pop();
+  if (history.length === 0) return { messages: [], summarizedTurns: 0, estimatedTokens: 0 };
+
+  // Newest turns first, verbatim, until the recent-history budget runs out
+  const recentBudget = Math.floor(maxTokens * (1 - summaryShare));
+  const recent: ConversationMessage[] = [];
+  let used = 0;
+  let splitAt = history.length;
+  for (let i = history.length - 1; i >= 0; i--) {
+    const content = renderTurn(history[i]);
+    const cost = estimateTokens(content);
+    if (used + cost > recentBudget) break;
+    recent.unshift({ role: history[i].role, content });
+    used += cost;
+    splitAt = i;
+  }
+
+  // Everything older is folded into a summary that opens the history
+  const older = history.slice(0, splitAt);
+  const messages: ConversationMessage[] = [];
+  if (older.length > 0) {
+    const summary = fitSummary(older.map(summarizeTurn), maxTokens - used);
+    messages.push({ role: 'user', content: `Summary of our earlier conversation about this project:\n${summary}` });
+    used += estimateTokens(summary);
+  }
+  messages.push(...recent);
+
+  // Providers expect the history to open with the user
+  if (messages[0]?.role === 'assistant') {
+    messages.unshift({ role: 'user', content: 'Continue from our previous conversation about this project.' });
+  }
+
+  return {
+    messages: alternate(messages),
+    summarizedTurns: older.length,
+    estimatedTokens: used,
+  };
+}
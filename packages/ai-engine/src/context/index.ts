@@ -1,9 +1,13 @@
 /**
  * AI Context Injection System
  * Dynamically loads relevant documentation based on user prompts
- * Updated for SDK 54 compatibility
+ * Written for the default Expo SDK (DEFAULT_EXPO_SDK_VERSION)
  */
 
+import { getExpoSdk } from '@rork/shared';
+
+const SDK_MAJOR = getExpoSdk().major;
+
 // Keywords mapped to documentation topics
 const KEYWORD_TO_TOPIC: Record<string, string[]> = {
   // Navigation
@@ -53,9 +57,9 @@ const KEYWORD_TO_TOPIC: Record<string, string[]> = {
   'list': ['styling'],
 };
 
-// Topic to documentation content (SDK 54 compatible)
+// Topic to documentation content
 const TOPIC_DOCS: Record<string, string> = {
-  'navigation': `## Navigation Context (SDK 54)
+  'navigation': `## Navigation Context (SDK ${SDK_MAJOR})
 
 Use Tabs from 'expo-router' for tab navigation:
 \`\`\`tsx
@@ -85,7 +89,7 @@ import { Link } from 'expo-router';
 <Link href="/details">Go to details</Link>
 \`\`\``,
 
-  'tabs': `## Tabs (SDK 54)
+  'tabs': `## Tabs (SDK ${SDK_MAJOR})
 
 Use Tabs from 'expo-router':
 \`\`\`tsx
@@ -113,7 +117,7 @@ Key rules:
 - Use tabBarIcon for tab icons with Ionicons
 - Set headerShown: false if nesting Stack inside tabs`,
 
-  'styling': `## Styling Rules (SDK 54)
+  'styling': `## Styling Rules (SDK ${SDK_MAJOR})
 
 Use StyleSheet.create and React Native shadow styles (NOT CSS boxShadow):
 \`\`\`tsx
@@ -144,7 +148,7 @@ const colors = {
 
 Use contentInsetAdjustmentBehavior="automatic" on ScrollView/FlatList for safe areas.`,
 
-  'icons': `## Icons (SDK 54)
+  'icons': `## Icons (SDK ${SDK_MAJOR})
 
 Use Ionicons from @expo/vector-icons (NOT expo-symbols):
 \`\`\`tsx
@@ -160,16 +164,16 @@ Common icons:
 - Social: heart, star, person, people, chatbubble
 - Actions: share, download, trash, pencil, bookmark`,
 
-  'media': `## Media (SDK 54)
+  'media': `## Media (SDK ${SDK_MAJOR})
 
-Audio playback (use expo-audio in SDK 54):
+Audio playback (use expo-audio in SDK ${SDK_MAJOR}):
 \`\`\`tsx
 import { useAudioPlayer } from 'expo-audio';
 const player = useAudioPlayer({ uri: audioUrl });
 player.play();
 \`\`\`
 
-Video playback (use expo-video in SDK 54):
+Video playback (use expo-video in SDK ${SDK_MAJOR}):
 \`\`\`tsx
 import { VideoView, useVideoPlayer } from 'expo-video';
 const player = useVideoPlayer({ uri: videoUrl });
@@ -182,7 +186,7 @@ import { CameraView, useCameraPermissions } from 'expo-camera';
 <CameraView ref={cameraRef} facing={facing} style={{ flex: 1 }} />
 \`\`\``,
 
-  'visual-effects': `## Visual Effects (SDK 54)
+  'visual-effects': `## Visual Effects (SDK ${SDK_MAJOR})
 
 BlurView (expo-blur):
 \`\`\`tsx
@@ -194,7 +198,7 @@ import { BlurView } from 'expo-blur';
 
 NOTE: expo-glass-effect / GlassView is NOT available. Use BlurView instead.`,
 
-  'components': `## Components (SDK 54)
+  'components': `## Components (SDK ${SDK_MAJOR})
 
 Use expo-image for all images:
 \`\`\`tsx
@@ -217,15 +221,15 @@ if (Platform.OS === 'ios') {
 }
 \`\`\``,
 
-  'expo-sdk': `## Expo SDK 54 Rules
+  'expo-sdk': `## Expo SDK ${SDK_MAJOR} Rules
 
-Library preferences for SDK 54:
+Library preferences for SDK ${SDK_MAJOR}:
 - @expo/vector-icons Ionicons (NOT expo-symbols)
 - expo-audio for audio (NOT expo-av Audio)
 - expo-video for video (NOT expo-av Video)
 - Platform.OS (NOT process.env.EXPO_OS)
 - useWindowDimensions (NOT Dimensions.get())
-- React.use (available in SDK 54 / React 19)
+- React.use (available in SDK ${SDK_MAJOR} / React 19)
 - StyleSheet.create for styles
 - React Native shadow styles (NOT CSS boxShadow)
 
@@ -0,0 +1,494 @@
+/**
+ * Offline evaluation of the agent.
+ *
+ * Runs the agent over a suite of prompts and scores what it built: plan
+ * coverage, lint and type diagnostics, unresolved imports, Expo Router
+ * route validity, iterations and tokens. Reports are plain JSON (with a
+ * fingerprint of the system prompt and tools the run used) and render to a
+ * standalone HTML page; comparing two reports shows what a prompt or tool
+ * change did.
+ */
+
+import { RorkAgent, type AppPlan } from '../agent';
+import { APP_TEMPLATES as AGENT_APP_TEMPLATES } from '../agent-prompts';
+import { contentHash } from '../cassettes';
+import { lintProject } from '../lint';
+import type { ToolExecutor } from '../tools';
+import { typecheckProject } from '../typecheck';
+import type { AgentMode, AgentModel, AgentTurnRequest } from '../types';
+
+export interface EvalCase {
+  id: string;
+  name: string;
+  prompt: string;
+  mode?: AgentMode;
+  /** Files the project starts with (e.g. for edit-mode cases) */
+  files?: Record<string, string>;
+  /** Screens the app should have, matched loosely against the plan and route files */
+  expectedScreens?: string[];
+}
+
+export interface EvalScores {
+  success: boolean;
+  /** Share of the plan's files that were written (null without a plan) */
+  planCoverage: number | null;
+  missingPlannedFiles: string[];
+  /** Share of the case's expected screens found in the plan or routes (null when none expected) */
+  screenCoverage: number | null;
+  fileCount: number;
+  lintErrors: number;
+  lintWarnings: number;
+  typeErrors: number;
+  /** Imports of project files (relative or `@/`) that don't resolve, as "file: specifier" */
+  missingImports: string[];
+  routeIssues: string[];
+  iterations: number;
+  inputTokens: number;
+  outputTokens: number;
+  durationMs: number;
+  /** 0-100 summary of the above (see overallScore) */
+  score: number;
+}
+
+export interface EvalCaseResult {
+  id: string;
+  name: string;
+  /** Hash of the system prompt and tool definitions of the case's first model request */
+  promptFingerprint: string | null;
+  error?: string;
+  scores: EvalScores;
+}
+
+export type EvalSummary = Record<
+  'score' | 'successRate' | 'planCoverage' | 'screenCoverage' | 'lintErrors' | 'typeErrors' | 'missingImports'
+  | 'routeIssues' | 'iterations' | 'inputTokens' | 'outputTokens' | 'durationMs',
+  number | null
+>;
+
+export interface EvalReport {
+  version: 1;
+  label: string;
+  model: string;
+  createdAt: string;
+  promptFingerprints: string[];
+  cases: EvalCaseResult[];
+  /** Means over the cases (null when no case has the metric) */
+  summary: EvalSummary;
+}
+
+export interface EvalComparison {
+  baseline: { label: string; createdAt: string; promptFingerprints: string[] };
+  /** current - baseline for each summary metric */
+  summary: Record<keyof EvalSummary, number | null>;
+  /** current - baseline score per case present in both reports */
+  cases: Record<string, number>;
+}
+
+export interface EvalRunOptions {
+  label: string;
+  /** A fresh model per case (e.g. a cassette replay for that case) */
+  createModel: (evalCase: EvalCase) => AgentModel | Promise<AgentModel>;
+  /** The tool executor the agent runs against, and the project files it ends up with */
+  createExecutor: (evalCase: EvalCase) => { executor: ToolExecutor; files: () => Record<string, string> };
+  maxIterations?: number;
+  signal?: AbortSignal;
+  onCaseComplete?: (result: EvalCaseResult) => void;
+}
+
+// Default cap on agent iterations per case
+const EVAL_MAX_ITERATIONS = 50;
+
+const SOURCE_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js'];
+const ASSET_PATTERN = /\.(png|jpe?g|gif|webp|svg|ttf|otf|json|mp3|mp4|wav)$/i;
+
+// ── Suites ─────────────────────────────────────────────────────────────────
+
+/** One case per agent app template (agent-prompts.ts), with its screens expected */
+export function getAgentTemplateEvalCases(): EvalCase[] {
+  return Object.entries(AGENT_APP_TEMPLATES).map(([id, template]) => ({
+    id: `agent-${id}`,
+    name: `${id[0].toUpperCase()}${id.slice(1)} app`,
+    prompt: `Build a ${id} app.\n\nFeatures:\n${template.features.map((feature) => `- ${feature}`).join('\n')}\n\nScreens:\n${template.screens.map((screen) => `- ${screen}`).join('\n')}`,
+    expectedScreens: template.screens,
+  }));
+}
+
+// ── Scoring ────────────────────────────────────────────────────────────────
+
+const normalizeName = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+function isSourceFile(path: string): boolean {
+  return SOURCE_EXTENSIONS.some((extension) => path.endsWith(extension));
+}
+
+/** Module specifiers imported by a source file */
+function importSpecifiers(content: string): string[] {
+  const specifiers: string[] = [];
+  const pattern = /(?:import|export)\s+(?:[^'"]*?\sfrom\s+)?['"]([^'"]+)['"]|(?:import|require)\(\s*['"]([^'"]+)['"]\s*\)/g;
+  for (const match of content.matchAll(pattern)) specifiers.push(match[1] ?? match[2]);
+  return specifiers;
+}
+
+function resolvesTo(files: Record<string, string>, base: string): boolean {
+  if (base in files) return true;
+  return SOURCE_EXTENSIONS.some((extension) => `${base}${extension}` in files || `${base}/index${extension}` in files)
+    // React Native platform files (Button.ios.tsx / Button.native.tsx)
+    || ['ios', 'android', 'native', 'web'].some((platform) =>
+      SOURCE_EXTENSIONS.some((extension) => `${base}.${platform}${extension}` in files));
+}
+
+function joinPath(from: string, specifier: string): string {
+  const parts = from.split('/').slice(0, -1);
+  for (const segment of specifier.split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.' && segment !== '') parts.push(segment);
+  }
+  return parts.join('/');
+}
+
+/** Relative and `@/` imports that don't resolve to a project file */
+export function findMissingImports(files: Record<string, string>): string[] {
+  const missing: string[] = [];
+  for (const [path, content] of Object.entries(files)) {
+    if (!isSourceFile(path)) continue;
+    for (const specifier of importSpecifiers(content)) {
+      const target = specifier.startsWith('.')
+        ? joinPath(path, specifier)
+        : specifier.startsWith('@/') ? specifier.slice(2) : null;
+      if (target === null) continue;
+      if (ASSET_PATTERN.test(target) ? !(target in files) : !resolvesTo(files, target)) {
+        missing.push(`${path}: ${specifier}`);
+      }
+    }
+  }
+  return missing;
+}
+
+/** URL path of an Expo Router route file; groups like (tabs) don't add a segment */
+function routeUrl(path: string): string {
+  const segments = path.replace(/^app\//, '').replace(/\.[jt]sx?$/, '').split('/')
+    .filter((segment) => !/^\(.+\)$/.test(segment));
+  if (segments[segments.length - 1] === 'index') segments.pop();
+  return `/${segments.join('/')}`;
+}
+
+/** Structural problems with the app/ routes (the full router analysis lives elsewhere) */
+export function findRouteIssues(files: Record<string, string>): string[] {
+  const routeFiles = Object.keys(files).filter((path) => path.startsWith('app/') && isSourceFile(path));
+  if (routeFiles.length === 0) return ['No routes under app/'];
+
+  const issues: string[] = [];
+  if (!routeFiles.some((path) => /^app\/_layout\.[jt]sx?$/.test(path))) issues.push('Missing root layout app/_layout.tsx');
+
+  const urls = new Map<string, string>();
+  for (const path of routeFiles) {
+    const name = path.split('/').pop() ?? '';
+    // Layouts, +html / +not-found and API routes are not screens
+    if (name.startsWith('_layout.') || name.startsWith('+') || /\+api\.[jt]sx?$/.test(name)) continue;
+    if (!/export\s+default\b/.test(files[path])) issues.push(`${path} has no default export`);
+    const url = routeUrl(path);
+    const existing = urls.get(url);
+    if (existing) issues.push(`${path} and ${existing} both match ${url}`);
+    else urls.set(url, path);
+  }
+  if (!urls.has('/')) issues.push('No index route (app/index.tsx or app/(group)/index.tsx)');
+  return issues;
+}
+
+function planCoverage(plan: AppPlan | null, files: Record<string, string>): { coverage: number | null; missing: string[] } {
+  const planned = (plan?.fileTree ?? []).map((path) => path.replace(/^\.?\//, '')).filter(Boolean);
+  if (planned.length === 0) return { coverage: null, missing: [] };
+  const missing = planned.filter((path) => !(path in files));
+  return { coverage: (planned.length - missing.length) / planned.length, missing };
+}
+
+function screenCoverage(expected: string[] | undefined, plan: AppPlan | null, files: Record<string, string>): number | null {
+  if (!expected?.length) return null;
+  const haystack = [...(plan?.screens ?? []), ...Object.keys(files).filter((path) => path.startsWith('app/'))]
+    .map(normalizeName)
+    .join('|');
+  return expected.filter((screen) => haystack.includes(normalizeName(screen))).length / expected.length;
+}
+
+/**
+ * 0-100: success and plan coverage count most; each kind of problem
+ * (lint errors, type errors, missing imports, route issues) takes away
+ * a share that shrinks towards zero as the count grows. A run that wrote
+ * nothing scores 0.
+ */
+function overallScore(scores: Omit<EvalScores, 'score'>): number {
+  if (scores.fileCount === 0) return 0;
+  const penalty = (count: number) => 1 / (1 + count);
+  const parts = [
+    [scores.success ? 1 : 0, 3],
+    [scores.planCoverage ?? (scores.success ? 1 : 0), 2],
+    [scores.screenCoverage ?? 1, 1],
+    [penalty(scores.lintErrors), 1],
+    [penalty(scores.typeErrors), 1],
+    [penalty(scores.missingImports.length), 1],
+    [penalty(scores.routeIssues.length), 1],
+  ] as const;
+  const total = parts.reduce((sum, [, weight]) => sum + weight, 0);
+  return Math.round((parts.reduce((sum, [value, weight]) => sum + value * weight, 0) / total) * 100);
+}
+
+/** Score a finished project; `run` carries what the agent reported */
+export function scoreEvalProject(
+  evalCase: EvalCase,
+  files: Record<string, string>,
+  plan: AppPlan | null,
+  run: { success: boolean; iterations: number; inputTokens: number; outputTokens: number; durationMs: number }
+): EvalScores {
+  const lint = lintProject(files);
+  const typecheck = typecheckProject(files, { maxDiagnostics: 0 });
+  const coverage = planCoverage(plan, files);
+  const scores = {
+    ...run,
+    planCoverage: coverage.coverage,
+    missingPlannedFiles: coverage.missing,
+    screenCoverage: screenCoverage(evalCase.expectedScreens, plan, files),
+    fileCount: Object.keys(files).length,
+    lintErrors: lint.filter((finding) => finding.severity === 'error').length,
+    lintWarnings: lint.filter((finding) => finding.severity === 'warning').length,
+    typeErrors: typecheck.errorCount,
+    missingImports: findMissingImports(files),
+    routeIssues: findRouteIssues(files),
+  };
+  return { ...scores, score: overallScore(scores) };
+}
+
+// ── Running ────────────────────────────────────────────────────────────────
+
+/** Run the agent on one case and score the result */
+export async function runEvalCase(evalCase: EvalCase, options: EvalRunOptions): Promise<EvalCaseResult> {
+  const { executor, files } = options.createExecutor(evalCase);
+  const started = Date.now();
+  let firstRequest: AgentTurnRequest | undefined;
+  let plan: AppPlan | null = null;
+  let error: string | undefined;
+  let success = false;
+  let iterations = 0;
+  let usage = { inputTokens: 0, outputTokens: 0 };
+
+  try {
+    const inner = await options.createModel(evalCase);
+    const agent = new RorkAgent({
+      model: {
+        name: inner.name,
+        displayName: inner.displayName,
+        defaultMaxTokens: inner.defaultMaxTokens,
+        createTurn: (request) => {
+          firstRequest ??= request;
+          return inner.createTurn(request);
+        },
+      },
+      maxIterations: options.maxIterations ?? EVAL_MAX_ITERATIONS,
+      signal: options.signal,
+    });
+    try {
+      const result = await agent.run(evalCase.prompt, executor, evalCase.files ?? {}, evalCase.mode ?? 'build');
+      ({ success, iterations, usage } = result);
+      error = result.error;
+    } finally {
+      plan = agent.getCheckpoint().plan;
+    }
+  } catch (runError) {
+    error = runError instanceof Error ? runError.message : String(runError);
+  }
+
+  return {
+    id: evalCase.id,
+    name: evalCase.name,
+    promptFingerprint: firstRequest ? contentHash(`${firstRequest.system}\n${JSON.stringify(firstRequest.tools)}`) : null,
+    ...(error && { error }),
+    scores: scoreEvalProject(evalCase, files(), plan, {
+      success,
+      iterations,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      durationMs: Date.now() - started,
+    }),
+  };
+}
+
+function mean(values: Array<number | null>): number | null {
+  const present = values.filter((value): value is number => value !== null);
+  return present.length ? present.reduce((sum, value) => sum + value, 0) / present.length : null;
+}
+
+export function summarizeEvalCases(cases: EvalCaseResult[]): EvalSummary {
+  const scores = cases.map((result) => result.scores);
+  return {
+    score: mean(scores.map((s) => s.score)),
+    successRate: mean(scores.map((s) => (s.success ? 1 : 0))),
+    planCoverage: mean(scores.map((s) => s.planCoverage)),
+    screenCoverage: mean(scores.map((s) => s.screenCoverage)),
+    lintErrors: mean(scores.map((s) => s.lintErrors)),
+    typeErrors: mean(scores.map((s) => s.typeErrors)),
+    missingImports: mean(scores.map((s) => s.missingImports.length)),
+    routeIssues: mean(scores.map((s) => s.routeIssues.length)),
+    iterations: mean(scores.map((s) => s.iterations)),
+    inputTokens: mean(scores.map((s) => s.inputTokens)),
+    outputTokens: mean(scores.map((s) => s.outputTokens)),
+    durationMs: mean(scores.map((s) => s.durationMs)),
+  };
+}
+
+/** Run every case in turn (one at a time, so token usage and timings are comparable) */
+export async function runEvalSuite(cases: EvalCase[], options: EvalRunOptions): Promise<EvalReport> {
+  const results: EvalCaseResult[] = [];
+  let model = '';
+  for (const evalCase of cases) {
+    if (options.signal?.aborted) break;
+    const result = await runEvalCase(evalCase, {
+      ...options,
+      createModel: async (current) => {
+        const created = await options.createModel(current);
+        model ||= created.displayName;
+        return created;
+      },
+    });
+    results.push(result);
+    options.onCaseComplete?.(result);
+  }
+
+  return {
+    version: 1,
+    label: options.label,
+    model,
+    createdAt: new Date().toISOString(),
+    promptFingerprints: [...new Set(results.map((result) => result.promptFingerprint).filter((f): f is string => !!f))],
+    cases: results,
+    summary: summarizeEvalCases(results),
+  };
+}
+
+export function compareEvalReports(baseline: EvalReport, current: EvalReport): EvalComparison {
+  const summary = Object.fromEntries(
+    (Object.keys(current.summary) as Array<keyof EvalSummary>).map((key) => {
+      const before = baseline.summary[key];
+      const after = current.summary[key];
+      return [key, before === null || after === null ? null : after - before];
+    })
+  ) as EvalComparison['summary'];
+
+  const baselineScores = new Map(baseline.cases.map((result) => [result.id, result.scores.score]));
+  const cases: Record<string, number> = {};
+  for (const result of current.cases) {
+    const before = baselineScores.get(result.id);
+    if (before !== undefined) cases[result.id] = result.scores.score - before;
+  }
+
+  return {
+    baseline: { label: baseline.label, createdAt: baseline.createdAt, promptFingerprints: baseline.promptFingerprints },
+    summary,
+    cases,
+  };
+}
+
+// ── HTML ───────────────────────────────────────────────────────────────────
+
+// Metrics where a lower value is better (deltas are colored accordingly)
+const LOWER_IS_BETTER = new Set<keyof EvalSummary>([
+  'lintErrors', 'typeErrors', 'missingImports', 'routeIssues', 'iterations', 'inputTokens', 'outputTokens', 'durationMs',
+]);
+
+const SUMMARY_LABELS: Record<keyof EvalSummary, string> = {
+  score: 'Score',
+  successRate: 'Success rate',
+  planCoverage: 'Plan coverage',
+  screenCoverage: 'Screen coverage',
+  lintErrors: 'Lint errors',
+  typeErrors: 'Type errors',
+  missingImports: 'Missing imports',
+  routeIssues: 'Route issues',
+  iterations: 'Iterations',
+  inputTokens: 'Input tokens',
+  outputTokens: 'Output tokens',
+  durationMs: 'Duration (ms)',
+};
+
+const PERCENT_METRICS = new Set<keyof EvalSummary>(['successRate', 'planCoverage', 'screenCoverage']);
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function formatMetric(key: keyof EvalSummary, value: number | null): string {
+  if (value === null) return '–';
+  if (PERCENT_METRICS.has(key)) return `${Math.round(value * 100)}%`;
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+function formatDelta(key: keyof EvalSummary, delta: number | null | undefined): string {
+  if (delta === null || delta === undefined || delta === 0) return '';
+  const better = LOWER_IS_BETTER.has(key) ? delta < 0 : delta > 0;
+  const text = PERCENT_METRICS.has(key) ? `${Math.round(delta * 100)}pt` : Number.isInteger(delta) ? String(delta) : delta.toFixed(1);
+  return ` <span class="${better ? 'better' : 'worse'}">${delta > 0 ? '+' : ''}${text}</span>`;
+}
+
+/** A standalone HTML page for a report, with deltas against `baseline` when given */
+export function renderEvalReportHtml(report: EvalReport, baseline?: EvalReport): string {
+  const comparison = baseline ? compareEvalReports(baseline, report) : null;
+  const summaryRows = (Object.keys(SUMMARY_LABELS) as Array<keyof EvalSummary>).map((key) =>
+    `<tr><th>${SUMMARY_LABELS[key]}</th><td>${formatMetric(key, report.summary[key])}${formatDelta(key, comparison?.summary[key])}</td>${
+      baseline ? `<td>${formatMetric(key, baseline.summary[key])}</td>` : ''}</tr>`
+  ).join('\n');
+
+  const caseRows = report.cases.map((result) => {
+    const s = result.scores;
+    const problems = [
+      ...(result.error ? [`Error: ${result.error}`] : []),
+      ...s.missingPlannedFiles.map((path) => `Planned but not written: ${path}`),
+      ...s.missingImports.map((entry) => `Missing import: ${entry}`),
+      ...s.routeIssues,
+    ];
+    return `<tr>
+<td>${escapeHtml(result.name)}<div class="muted">${escapeHtml(result.id)}</div></td>
+<td>${s.score}${formatDelta('score', comparison?.cases[result.id])}</td>
+<td>${s.success ? '✓' : '✗'}</td>
+<td>${formatMetric('planCoverage', s.planCoverage)}</td>
+<td>${formatMetric('screenCoverage', s.screenCoverage)}</td>
+<td>${s.lintErrors} / ${s.lintWarnings}</td>
+<td>${s.typeErrors}</td>
+<td>${s.missingImports.length}</td>
+<td>${s.routeIssues.length}</td>
+<td>${s.iterations}</td>
+<td>${s.inputTokens} / ${s.outputTokens}</td>
+<td>${problems.length ? `<details><summary>${problems.length}</summary><ul>${problems.map((p) => `<li>${escapeHtml(p)}</li>`).join('')}</ul></details>` : ''}</td>
+</tr>`;
+  }).join('\n');
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Agent eval: ${escapeHtml(report.label)}</title>
+<style>
+body { font: 14px/1.5 system-ui, sans-serif; margin: 2rem; color: #18181b; }
+table { border-collapse: collapse; margin: 1rem 0 2rem; }
+th, td { border-bottom: 1px solid #e4e4e7; padding: 6px 12px; text-align: left; vertical-align: top; }
+.muted { color: #71717a; font-size: 12px; }
+.better { color: #059669; }
+.worse { color: #dc2626; }
+code { font-size: 12px; }
+</style>
+</head>
+<body>
+<h1>Agent eval: ${escapeHtml(report.label)}</h1>
+<p class="muted">${escapeHtml(report.model)} · ${escapeHtml(report.createdAt)} · prompt ${report.promptFingerprints.map((f) => `<code>${f}</code>`).join(', ') || '–'}${
+  baseline ? `<br>Compared with <strong>${escapeHtml(baseline.label)}</strong> (${escapeHtml(baseline.createdAt)}) · prompt ${baseline.promptFingerprints.map((f) => `<code>${f}</code>`).join(', ') || '–'}` : ''}</p>
+<h2>Summary</h2>
+<table>
+<tr><th></th><th>${escapeHtml(report.label)}</th>${baseline ? `<th>${escapeHtml(baseline.label)}</th>` : ''}</tr>
+${summaryRows}
+</table>
+<h2>Cases</h2>
+<table>
+<tr><th>Case</th><th>Score</th><th>Success</th><th>Plan</th><th>Screens</th><th>Lint (err / warn)</th><th>Type errors</th><th>Missing imports</th><th>Route issues</th><th>Iterations</th><th>Tokens (in / out)</th><th>Problems</th></tr>
+${caseRows}
+</table>
+</body>
+</html>
+`;
+}
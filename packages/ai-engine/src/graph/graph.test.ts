@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { runChecks } from '../tools';
+import { analyzeImportGraph } from '.';
+
+const LAYOUT = `import { Stack } from 'expo-router';
+
+export default function RootLayout() {
+  return <Stack />;
+}
+`;
+
+function issues(files: Record<string, string>) {
+  return analyzeImportGraph({ 'app/_layout.tsx': LAYOUT, ...files }).issues
+    .map(({ kind, severity, file, line, message }) => ({ kind, severity, file, line, message }));
+}
+
+describe('analyzeImportGraph', () => {
+  it('reports a circular import once, as a loop from its first file', () => {
+    expect(issues({
+      'app/index.tsx': `import { Card } from '@/components/Card';\n\nexport default function Home() {\n  return <Card />;\n}\n`,
+      'components/Card.tsx': `import { theme } from './theme';\n\nexport function Card() {\n  return null;\n}\n`,
+      'components/theme.ts': `import { Card } from './Card';\n\nexport const theme = { card: Card };\n`,
+    })).toEqual([{
+      kind: 'circular-import',
+      severity: 'warning',
+      file: 'components/Card.tsx',
+      line: 1,
+      message: 'Circular import: components/Card.tsx → components/theme.ts → components/Card.tsx',
+    }]);
+  });
+
+  it('ignores cycles through type-only imports', () => {
+    expect(issues({
+      'app/index.tsx': `import { Card } from '@/components/Card';\n\nexport default function Home() {\n  return <Card />;\n}\n`,
+      'components/Card.tsx': `import type { Theme } from './theme';\n\nexport function Card(props: { theme?: Theme }) {\n  return null;\n}\n`,
+      'components/theme.ts': `import { Card } from './Card';\n\nexport type Theme = { card: typeof Card };\n`,
+    })).toEqual([]);
+  });
+
+  it('reports named and default imports a module does not export, following export *', () => {
+    expect(issues({
+      'app/index.tsx': `import Button, { Card, Title } from '@/components';\n\nexport default function Home() {\n  return <Card />;\n}\n`,
+      'components/index.ts': `export * from './Card';\n`,
+      'components/Card.tsx': `export function Card() {\n  return null;\n}\n`,
+    })).toEqual([
+      { kind: 'missing-export', severity: 'error', file: 'app/index.tsx', line: 1, message: "'@/components' (components/index.ts) has no a default export" },
+      { kind: 'missing-export', severity: 'error', file: 'app/index.tsx', line: 1, message: "'@/components' (components/index.ts) has no { Title }" },
+    ]);
+  });
+
+  it('reports files no route or entry reaches, except tests', () => {
+    expect(issues({
+      'app/index.tsx': `export default function Home() {\n  return null;\n}\n`,
+      'components/Old.tsx': `import { helper } from '../utils/helper';\n\nexport function Old() {\n  return helper();\n}\n`,
+      'utils/helper.ts': `export function helper() {\n  return null;\n}\n`,
+      'utils/helper.test.ts': `import { helper } from './helper';\n`,
+    })).toEqual([
+      { kind: 'unreachable-file', severity: 'warning', file: 'components/Old.tsx', line: 1, message: 'Not imported by any route or entry file' },
+      { kind: 'unreachable-file', severity: 'warning', file: 'utils/helper.ts', line: 1, message: 'Not imported by any route or entry file' },
+    ]);
+  });
+});
+
+describe('runChecks imports', () => {
+  it('leaves an unresolved import typecheck already reports to typecheck', () => {
+    const files = {
+      'app/_layout.tsx': LAYOUT,
+      'app/index.tsx': `import { Card } from '../components/card';\nimport logo from '../assets/logo.png';\n\nexport default function Home() {\n  return <Card source={logo} />;\n}\n`,
+      'components/Card.tsx': `export function Card(props: { source: number }) {\n  return null;\n}\n`,
+    };
+
+    const result = runChecks(files, ['typecheck', 'imports']);
+    const data = result.data as { diagnostics: { file: string; code: number }[]; importIssues: { kind: string; specifier?: string }[] };
+
+    expect(data.diagnostics.filter((diagnostic) => diagnostic.code === 2307).map((diagnostic) => diagnostic.file)).toEqual(['app/index.tsx']);
+    expect(data.importIssues.filter((issue) => issue.kind === 'unresolved-import').map((issue) => issue.specifier)).toEqual(['../assets/logo.png']);
+    // Still reported by the graph check alone
+    expect(runChecks(files, ['imports']).error).toContain("Cannot resolve '../components/card' (did you mean '../components/Card'?)");
+  });
+});
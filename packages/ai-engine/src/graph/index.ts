@@ -0,0 +1,446 @@
+/**
+ * Import graph for generated projects.
+ *
+ * Resolves every import in the project — relative, '@/' alias and package —
+ * the way Metro would (extensions, platform suffixes, index files), then
+ * reports what breaks or rots the graph: imports of files that don't exist,
+ * named imports a module doesn't export, circular imports, and files no
+ * route or entry point reaches.
+ */
+
+import ts from 'typescript';
+import { getPackageName } from '@rork/shared';
+import { parseSourceFile } from '../lint';
+
+export interface ImportGraphEdge {
+  from: string;
+  specifier: string;
+  line: number;
+  column: number;
+  /** Project file the import resolves to; null for packages and unresolved imports */
+  target: string | null;
+  /** Package a bare specifier refers to */
+  package?: string;
+  /** Bindings imported by name ('default' for a default import); null when not checkable (namespace, dynamic, require) */
+  names: string[] | null;
+  /** Erased at runtime (`import type`), so it can't take part in a cycle */
+  typeOnly: boolean;
+}
+
+export interface ImportGraphModule {
+  path: string;
+  imports: ImportGraphEdge[];
+  /** Names the module declares as exports ('default' included) */
+  exports: string[];
+  /** Specifiers of `export * from` re-exports */
+  exportsAll: string[];
+  /** CommonJS or `export =`: its exports can't be listed */
+  opaque: boolean;
+}
+
+export interface ImportGraph {
+  /** Source files → their imports and exports */
+  modules: Record<string, ImportGraphModule>;
+  /** Routes and entry files the app starts from */
+  entries: string[];
+}
+
+export type ImportIssueKind = 'unresolved-import' | 'missing-export' | 'circular-import' | 'unreachable-file';
+
+export interface ImportIssue {
+  kind: ImportIssueKind;
+  severity: 'error' | 'warning';
+  file: string;
+  line: number;
+  column: number;
+  message: string;
+  /** The import's specifier, for unresolved imports and missing exports */
+  specifier?: string;
+}
+
+export interface ImportGraphReport {
+  graph: ImportGraph;
+  issues: ImportIssue[];
+}
+
+const SOURCE_FILE = /\.(tsx?|jsx?)$/;
+const RESOLVE_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js', '.json'];
+const PLATFORM_SUFFIXES = ['', '.native', '.ios', '.android', '.web'];
+const ENTRY_FILES = ['App.tsx', 'App.ts', 'App.jsx', 'App.js', 'index.tsx', 'index.ts', 'index.js'];
+const CONFIG_FILE = /^[^/]+\.config\.[cm]?[jt]s$/;
+const TEST_FILE = /(^|\/)__tests__\/|\.(test|spec)\.[jt]sx?$/;
+
+function isGraphFile(path: string): boolean {
+  return SOURCE_FILE.test(path) && !path.endsWith('.d.ts');
+}
+
+// ── Resolution ──
+
+function dirname(path: string): string {
+  return path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+}
+
+/** Join and normalize; null when the path climbs out of the project */
+function joinPath(base: string, specifier: string): string | null {
+  const parts: string[] = base ? base.split('/') : [];
+  for (const segment of specifier.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      if (parts.length === 0) return null;
+      parts.pop();
+    } else {
+      parts.push(segment);
+    }
+  }
+  return parts.join('/');
+}
+
+function isLocalSpecifier(specifier: string): boolean {
+  return specifier.startsWith('.') || specifier.startsWith('/') || specifier.startsWith('@/');
+}
+
+/** The project file `specifier` refers to from `from`, as Metro resolves it */
+function resolveLocal(from: string, specifier: string, files: Set<string>): string | null {
+  const base = specifier.startsWith('@/')
+    ? joinPath('', specifier.slice(2))
+    : joinPath(specifier.startsWith('/') ? '' : dirname(from), specifier);
+  if (base === null) return null;
+  if (files.has(base)) return base;
+
+  for (const stem of [base, base ? `${base}/index` : 'index']) {
+    for (const platform of PLATFORM_SUFFIXES) {
+      for (const extension of RESOLVE_EXTENSIONS) {
+        const candidate = `${stem}${platform}${extension}`;
+        if (files.has(candidate)) return candidate;
+      }
+    }
+  }
+  return null;
+}
+
+/** A relative specifier from `from` to `target`, without extension or '/index' */
+function relativeSpecifier(from: string, target: string): string {
+  const fromParts = dirname(from).split('/').filter(Boolean);
+  const targetParts = target.replace(/(\/index)?\.(tsx?|jsx?)$/, '').split('/');
+  let common = 0;
+  while (common < fromParts.length && fromParts[common] === targetParts[common]) common++;
+  const up = fromParts.length - common;
+  const rest = targetParts.slice(common).join('/');
+  return up === 0 ? `./${rest}` : `${'../'.repeat(up)}${rest}`;
+}
+
+// ── Parsing ──
+
+function bindingNames(name: ts.BindingName): string[] {
+  if (ts.isIdentifier(name)) return [name.text];
+  return name.elements.flatMap((element) => (ts.isOmittedExpression(element) ? [] : bindingNames(element.name)));
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some((modifier) => modifier.kind === kind);
+}
+
+function parseModule(path: string, content: string, files: Set<string>): ImportGraphModule {
+  const sourceFile = parseSourceFile(path, content);
+  const imports: ImportGraphEdge[] = [];
+  const exports = new Set<string>();
+  const exportsAll: string[] = [];
+  let opaque = /\bmodule\.exports\b|^\s*exports\.\w+\s*=/m.test(content);
+
+  const addImport = (specifierNode: ts.StringLiteralLike, names: string[] | null, typeOnly: boolean): void => {
+    const specifier = specifierNode.text;
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(specifierNode.getStart(sourceFile));
+    const local = isLocalSpecifier(specifier);
+    imports.push({
+      from: path,
+      specifier,
+      line: line + 1,
+      column: character + 1,
+      target: local ? resolveLocal(path, specifier, files) : null,
+      ...(local ? {} : { package: getPackageName(specifier) }),
+      names,
+      typeOnly,
+    });
+  };
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+      const clause = statement.importClause;
+      const names: string[] = [];
+      let checkable = true;
+      let typeOnly = clause?.isTypeOnly ?? false;
+      if (clause?.name) names.push('default');
+      if (clause?.namedBindings && ts.isNamespaceImport(clause.namedBindings)) checkable = false;
+      if (clause?.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+        const elements = clause.namedBindings.elements;
+        names.push(...elements.map((element) => (element.propertyName ?? element.name).text));
+        if (!clause.name && elements.length > 0 && elements.every((element) => element.isTypeOnly)) typeOnly = true;
+      }
+      addImport(statement.moduleSpecifier, checkable ? names : null, typeOnly);
+    } else if (ts.isExportDeclaration(statement)) {
+      const clause = statement.exportClause;
+      if (clause && ts.isNamedExports(clause)) {
+        clause.elements.forEach((element) => exports.add(element.name.text));
+      } else if (clause && ts.isNamespaceExport(clause)) {
+        exports.add(clause.name.text);
+      }
+      if (statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)) {
+        if (!clause) exportsAll.push(statement.moduleSpecifier.text);
+        const names = clause && ts.isNamedExports(clause)
+          ? clause.elements.map((element) => (element.propertyName ?? element.name).text)
+          : null;
+        addImport(statement.moduleSpecifier, names, statement.isTypeOnly);
+      }
+    } else if (ts.isExportAssignment(statement)) {
+      if (statement.isExportEquals) opaque = true;
+      else exports.add('default');
+    } else if (hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+      if (hasModifier(statement, ts.SyntaxKind.DefaultKeyword)) {
+        exports.add('default');
+      } else if (ts.isVariableStatement(statement)) {
+        statement.declarationList.declarations.forEach((declaration) => bindingNames(declaration.name).forEach((name) => exports.add(name)));
+      } else if (
+        (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement) || ts.isInterfaceDeclaration(statement)
+          || ts.isTypeAliasDeclaration(statement) || ts.isEnumDeclaration(statement) || ts.isModuleDeclaration(statement))
+        && statement.name && ts.isIdentifier(statement.name)
+      ) {
+        exports.add(statement.name.text);
+      }
+    }
+  }
+
+  // import('x') and require('x') anywhere in the file
+  const visit = (node: ts.Node): void => {
+    if (ts.isCallExpression(node) && node.arguments.length === 1 && ts.isStringLiteralLike(node.arguments[0])) {
+      const isDynamicImport = node.expression.kind === ts.SyntaxKind.ImportKeyword;
+      const isRequire = ts.isIdentifier(node.expression) && node.expression.text === 'require';
+      if (isDynamicImport || isRequire) addImport(node.arguments[0], null, false);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return { path, imports, exports: [...exports], exportsAll, opaque };
+}
+
+// ── Graph ──
+
+function findEntries(paths: string[], files: Record<string, string>, fileSet: Set<string>): string[] {
+  const entries = new Set<string>();
+  for (const path of paths) {
+    if (path.startsWith('app/') || ENTRY_FILES.includes(path) || CONFIG_FILE.test(path)) entries.add(path);
+  }
+  try {
+    const main: unknown = JSON.parse(files['package.json'] ?? '{}')?.main;
+    const resolved = typeof main === 'string' ? resolveLocal('', `./${main}`, fileSet) : null;
+    if (resolved) entries.add(resolved);
+  } catch {
+    // An unparseable package.json has no entry to contribute
+  }
+  return [...entries].sort();
+}
+
+/** Parse every source file in `files` (path → content) into an import graph. */
+export function buildImportGraph(files: Record<string, string>): ImportGraph {
+  const fileSet = new Set(Object.keys(files));
+  const paths = Object.keys(files).filter((path) => SOURCE_FILE.test(path)).sort();
+  const modules: Record<string, ImportGraphModule> = {};
+  for (const path of paths) {
+    modules[path] = parseModule(path, files[path], fileSet);
+  }
+  return { modules, entries: findEntries(paths.filter(isGraphFile), files, fileSet) };
+}
+
+/** Everything `path` exports, following `export *`; null when that can't be known */
+function collectExports(graph: ImportGraph, path: string, seen = new Set<string>()): Set<string> | null {
+  const mod = graph.modules[path];
+  if (!mod || mod.opaque || path.endsWith('.d.ts')) return null;
+  if (seen.has(path)) return new Set();
+  seen.add(path);
+
+  const names = new Set(mod.exports);
+  for (const specifier of mod.exportsAll) {
+    const edge = mod.imports.find((e) => e.specifier === specifier);
+    if (!edge?.target) return null;
+    const inner = collectExports(graph, edge.target, seen);
+    if (!inner) return null;
+    inner.forEach((name) => name !== 'default' && names.add(name));
+  }
+  return names;
+}
+
+/** Strongly connected components of the runtime import graph (Tarjan) */
+function findCycles(graph: ImportGraph): string[][] {
+  const adjacency = new Map<string, string[]>();
+  for (const mod of Object.values(graph.modules)) {
+    adjacency.set(mod.path, mod.imports.filter((edge) => edge.target && !edge.typeOnly && graph.modules[edge.target]).map((edge) => edge.target!));
+  }
+
+  let index = 0;
+  const indices = new Map<string, number>();
+  const lowlinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+
+  const connect = (node: string): void => {
+    indices.set(node, index);
+    lowlinks.set(node, index);
+    index++;
+    stack.push(node);
+    onStack.add(node);
+
+    for (const next of adjacency.get(node) ?? []) {
+      if (!indices.has(next)) {
+        connect(next);
+        lowlinks.set(node, Math.min(lowlinks.get(node)!, lowlinks.get(next)!));
+      } else if (onStack.has(next)) {
+        lowlinks.set(node, Math.min(lowlinks.get(node)!, indices.get(next)!));
+      }
+    }
+
+    if (lowlinks.get(node) === indices.get(node)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== node);
+      const selfImport = component.length === 1 && adjacency.get(node)!.includes(node);
+      if (component.length > 1 || selfImport) components.push(component.sort());
+    }
+  };
+
+  for (const node of [...adjacency.keys()].sort()) {
+    if (!indices.has(node)) connect(node);
+  }
+
+  // One concrete loop per component, starting from its first file
+  return components.map((component) => {
+    const members = new Set(component);
+    const start = component[0];
+    const previous = new Map<string, string>();
+    const queue = [start];
+    while (queue.length > 0) {
+      const node = queue.shift()!;
+      for (const next of adjacency.get(node) ?? []) {
+        if (!members.has(next)) continue;
+        if (next === start) {
+          const loop = [start];
+          for (let at = node; at !== start; at = previous.get(at)!) loop.splice(1, 0, at);
+          return [...loop, start];
+        }
+        if (!previous.has(next)) {
+          previous.set(next, node);
+          queue.push(next);
+        }
+      }
+    }
+    return [start, start];
+  });
+}
+
+function reachableFrom(graph: ImportGraph): Set<string> {
+  const reached = new Set<string>();
+  const queue = [...graph.entries];
+  while (queue.length > 0) {
+    const path = queue.shift()!;
+    if (reached.has(path)) continue;
+    reached.add(path);
+    for (const edge of graph.modules[path]?.imports ?? []) {
+      if (edge.target && !reached.has(edge.target)) queue.push(edge.target);
+    }
+  }
+  return reached;
+}
+
+// ── Analysis ──
+
+function describeName(name: string): string {
+  return name === 'default' ? 'a default export' : `{ ${name} }`;
+}
+
+/**
+ * Build the import graph of `files` and report unresolved imports and
+ * missing exports (errors), circular imports and unreachable files (warnings).
+ */
+export function analyzeImportGraph(files: Record<string, string>): ImportGraphReport {
+  const graph = buildImportGraph(files);
+  const issues: ImportIssue[] = [];
+  const sourcePaths = Object.keys(graph.modules).filter(isGraphFile);
+
+  for (const mod of Object.values(graph.modules)) {
+    for (const edge of mod.imports) {
+      if (edge.package) continue;
+
+      if (!edge.target) {
+        // Suggest a file with the same name elsewhere (or in another case: Metro is case-sensitive)
+        const wanted = edge.specifier.split('/').pop() ?? '';
+        const candidate = sourcePaths.find((path) =>
+          path !== mod.path && path.replace(/(\/index)?\.(tsx?|jsx?)$/, '').split('/').pop()?.toLowerCase() === wanted.toLowerCase()
+        );
+        const asset = /\.\w+$/.test(wanted) && !RESOLVE_EXTENSIONS.some((extension) => wanted.endsWith(extension));
+        issues.push({
+          kind: 'unresolved-import',
+          severity: asset ? 'warning' : 'error',
+          file: mod.path,
+          line: edge.line,
+          column: edge.column,
+          message: `Cannot resolve '${edge.specifier}'${candidate ? ` (did you mean '${relativeSpecifier(mod.path, candidate)}'?)` : ''}`,
+          specifier: edge.specifier,
+        });
+        continue;
+      }
+
+      if (!edge.names || edge.names.length === 0) continue;
+      const exported = collectExports(graph, edge.target);
+      if (!exported) continue;
+      for (const name of edge.names) {
+        if (exported.has(name)) continue;
+        issues.push({
+          kind: 'missing-export',
+          severity: 'error',
+          file: mod.path,
+          line: edge.line,
+          column: edge.column,
+          message: `'${edge.specifier}' (${edge.target}) has no ${describeName(name)}`,
+          specifier: edge.specifier,
+        });
+      }
+    }
+  }
+
+  for (const loop of findCycles(graph)) {
+    const edge = graph.modules[loop[0]].imports.find((e) => e.target === loop[1]);
+    issues.push({
+      kind: 'circular-import',
+      severity: 'warning',
+      file: loop[0],
+      line: edge?.line ?? 1,
+      column: edge?.column ?? 1,
+      message: `Circular import: ${loop.join(' → ')}`,
+    });
+  }
+
+  if (graph.entries.length > 0) {
+    const reached = reachableFrom(graph);
+    for (const path of sourcePaths) {
+      if (reached.has(path) || TEST_FILE.test(path)) continue;
+      issues.push({
+        kind: 'unreachable-file',
+        severity: 'warning',
+        file: path,
+        line: 1,
+        column: 1,
+        message: 'Not imported by any route or entry file',
+      });
+    }
+  }
+
+  return { graph, issues };
+}
+
+export function formatImportIssue(issue: ImportIssue): string {
+  return `${issue.file}(${issue.line},${issue.column}): ${issue.severity} ${issue.kind}: ${issue.message}`;
+}
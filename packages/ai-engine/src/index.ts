@@ -1,20 +1,141 @@
 // Providers
 export { ClaudeProvider } from './providers/claude';
 export { GeminiProvider } from './providers/gemini';
+export { OpenAICompatibleProvider } from './providers/openai-compatible';
+export { OpenRouterProvider, openRouterConfig, OPENROUTER_BASE_URL, OPENROUTER_DEFAULT_MODEL } from './providers/openrouter';
 export { createAIProvider, type AIProviderType } from './providers';
 
+// Agent models (tool-calling adapters for the agent loop)
+export { createAgentModel, AnthropicAgentModel, GeminiAgentModel, OpenAICompatibleAgentModel } from './models';
+
+// Record/replay of model calls (JSON cassettes for offline agent runs)
+export {
+  RecordingAgentModel,
+  ReplayAgentModel,
+  RecordingAIProvider,
+  ReplayAIProvider,
+  CassetteError,
+  CASSETTE_VERSION,
+  serializeCassette,
+  parseCassette,
+  describeAgentRequest,
+  type Cassette,
+  type AgentModelCassette,
+  type ProviderCassette,
+  type AgentModelInteraction,
+  type ProviderInteraction,
+  type CassetteRequest,
+  type RecordingOptions,
+  type ReplayMatch,
+} from './cassettes';
+
+// Offline evaluation of agent runs (suites, scoring, JSON/HTML reports)
+export {
+  getAgentTemplateEvalCases,
+  runEvalCase,
+  runEvalSuite,
+  scoreEvalProject,
+  summarizeEvalCases,
+  compareEvalReports,
+  renderEvalReportHtml,
+  findMissingImports,
+  findRouteIssues,
+  type EvalCase,
+  type EvalScores,
+  type EvalCaseResult,
+  type EvalSummary,
+  type EvalReport,
+  type EvalComparison,
+  type EvalRunOptions,
+} from './eval';
+
 // Prompts
 export { 
   SYSTEM_PROMPT, 
   REACT_NATIVE_RULES, 
   EXPO_CONVENTIONS,
   FULL_SYSTEM_PROMPT,
+  getSystemPrompt,
+  getFullSystemPrompt,
+  getExpoSdkRules,
   getPromptForContext,
 } from './prompts';
 
 // Parser
 export { parseGeneratedFiles, validateReactNativeCode } from './parser';
 
+// Type checking
+export {
+  typecheckProject,
+  formatTypecheckDiagnostic,
+  type TypecheckDiagnostic,
+  type TypecheckResult,
+  type TypecheckOptions,
+} from './typecheck';
+
+// Lint rules
+export {
+  registerLintRule,
+  getLintRules,
+  describeLintRules,
+  lintFile,
+  lintProject,
+  fixFile,
+  fixProject,
+  applyLintEdits,
+  formatLintFinding,
+  matchesGlob,
+  type LintRule,
+  type LintRuleInfo,
+  type LintRuleToggles,
+  type LintFinding,
+  type LintSeverity,
+  type LintContext,
+  type LintEdit,
+  type LintOptions,
+} from './lint';
+
+// Import graph
+export {
+  buildImportGraph,
+  analyzeImportGraph,
+  formatImportIssue,
+  type ImportGraph,
+  type ImportGraphModule,
+  type ImportGraphEdge,
+  type ImportGraphReport,
+  type ImportIssue,
+  type ImportIssueKind,
+} from './graph';
+
+// Expo Router routes
+export {
+  buildRouteMap,
+  analyzeRoutes,
+  formatRouteIssue,
+  type RouteMap,
+  type RouteNode,
+  type LayoutScreen,
+  type RouteLink,
+  type RouteReport,
+  type RouteIssue,
+  type RouteIssueKind,
+} from './routes';
+
+// Expo SDK upgrades
+export {
+  planSdkUpgrade,
+  describeSdkCodemods,
+  SDK_CODEMODS,
+  type SdkUpgradePlan,
+  type SdkUpgradeFileChange,
+  type SdkUpgradeNote,
+  type SdkUpgradeOptions,
+  type SdkCodemodInfo,
+  type SdkCodemod,
+  type CodemodContext,
+} from './upgrade';
+
 // Context Injection
 export {
   analyzePromptForContext,
@@ -22,6 +143,14 @@ export {
   enhancePromptWithContext,
   getContextSummary,
 } from './context';
+export { selectRelevantFiles, type RelevantFile, type RelevantFileOptions } from './context/files';
+export {
+  buildConversationContext,
+  estimateTokens,
+  type HistoryTurn,
+  type ConversationContext,
+  type ConversationContextOptions,
+} from './context/history';
 
 // Agent
 export * from './tools';
@@ -32,6 +161,8 @@ export {
   type AgentEventType,
   type AgentConfig,
   type AgentResult,
+  type AgentFileChange,
+  type AgentCheckpoint,
   type AppPlan,
   type PlanProgress,
 } from './agent';
@@ -46,4 +177,13 @@ export type {
   StreamChunk,
   ImageAttachment,
   ConversationMessage,
+  TokenUsage,
+  AgentMode,
+  AgentModel,
+  AgentMessage,
+  AgentToolCall,
+  AgentToolResult,
+  AgentTurnRequest,
+  AgentTurnResponse,
+  OpenAICompatibleConfig,
 } from './types';
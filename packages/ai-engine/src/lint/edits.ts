@@ -0,0 +1,191 @@
+/**
+ * AST edit helpers shared by lint autofixes (and codemods built on them).
+ */
+
+import ts from 'typescript';
+import type { LintEdit } from './index';
+
+export function findImport(sourceFile: ts.SourceFile, moduleName: string): ts.ImportDeclaration | undefined {
+  return sourceFile.statements.find(
+    (statement): statement is ts.ImportDeclaration =>
+      ts.isImportDeclaration(statement) &&
+      ts.isStringLiteral(statement.moduleSpecifier) &&
+      statement.moduleSpecifier.text === moduleName &&
+      !statement.importClause?.isTypeOnly
+  );
+}
+
+function scriptKindFor(path: string): ts.ScriptKind {
+  if (path.endsWith('.tsx')) return ts.ScriptKind.TSX;
+  if (path.endsWith('.jsx')) return ts.ScriptKind.JSX;
+  if (path.endsWith('.js')) return ts.ScriptKind.JS;
+  return ts.ScriptKind.TS;
+}
+
+export function parseSourceFile(path: string, content: string): ts.SourceFile {
+  return ts.createSourceFile(path, content, ts.ScriptTarget.Latest, true, scriptKindFor(path));
+}
+
+export function applyLintEdits(content: string, edits: LintEdit[]): string {
+  const sorted = [...edits].sort((a, b) => b.start - a.start);
+  let result = content;
+  let lastStart = Infinity;
+  for (const edit of sorted) {
+    // Drop edits that overlap one already applied
+    if (edit.end > lastStart) continue;
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+    lastStart = edit.start;
+  }
+  return result;
+}
+
+function lastImport(sourceFile: ts.SourceFile): ts.ImportDeclaration | undefined {
+  const imports = sourceFile.statements.filter(ts.isImportDeclaration);
+  return imports[imports.length - 1];
+}
+
+/** Local name of an import specifier text such as `SafeAreaView as SAV`. */
+function localName(specifier: string): string {
+  const parts = specifier.split(/\s+as\s+/);
+  return parts[parts.length - 1].trim();
+}
+
+/**
+ * Make sure `names` are imported from `moduleName`, extending an existing
+ * import when there is one. Returns a single edit (or none).
+ */
+export function ensureNamedImport(
+  sourceFile: ts.SourceFile,
+  moduleName: string,
+  names: string | string[]
+): LintEdit[] {
+  const wanted = Array.isArray(names) ? names : [names];
+  const existing = findImport(sourceFile, moduleName);
+  const bindings = existing?.importClause?.namedBindings;
+
+  if (existing && bindings && ts.isNamedImports(bindings)) {
+    const present = new Set(bindings.elements.map((element) => element.name.text));
+    const missing = wanted.filter((name) => !present.has(localName(name)));
+    if (missing.length === 0) return [];
+
+    const last = bindings.elements[bindings.elements.length - 1];
+    if (!last) {
+      return [{ start: bindings.getStart(sourceFile), end: bindings.getEnd(), text: `{ ${missing.join(', ')} }` }];
+    }
+    return [{ start: last.getEnd(), end: last.getEnd(), text: `, ${missing.join(', ')}` }];
+  }
+
+  if (existing?.importClause?.name && !bindings) {
+    const defaultName = existing.importClause.name;
+    return [{ start: defaultName.getEnd(), end: defaultName.getEnd(), text: `, { ${wanted.join(', ')} }` }];
+  }
+
+  const statement = `import { ${wanted.join(', ')} } from '${moduleName}';`;
+  const anchor = lastImport(sourceFile);
+  if (anchor) {
+    return [{ start: anchor.getEnd(), end: anchor.getEnd(), text: `\n${statement}` }];
+  }
+  return [{ start: 0, end: 0, text: `${statement}\n` }];
+}
+
+/**
+ * Remove the named import `name` from `moduleName`; drops the whole
+ * statement when it was the only binding.
+ */
+export function removeNamedImport(sourceFile: ts.SourceFile, moduleName: string, name: string): LintEdit[] {
+  const existing = findImport(sourceFile, moduleName);
+  const bindings = existing?.importClause?.namedBindings;
+  if (!existing || !bindings || !ts.isNamedImports(bindings)) return [];
+
+  const elements = bindings.elements;
+  const index = elements.findIndex((element) => (element.propertyName ?? element.name).text === name);
+  if (index === -1) return [];
+
+  if (elements.length === 1 && !existing.importClause?.name) {
+    const end = sourceFile.text[existing.getEnd()] === '\n' ? existing.getEnd() + 1 : existing.getEnd();
+    return [{ start: existing.getStart(sourceFile), end, text: '' }];
+  }
+  if (elements.length === 1) {
+    // `import React, { X } from` → `import React from`
+    return [{ start: existing.importClause!.name!.getEnd(), end: bindings.getEnd(), text: '' }];
+  }
+
+  const element = elements[index];
+  if (index < elements.length - 1) {
+    return [{ start: element.getStart(sourceFile), end: elements[index + 1].getStart(sourceFile), text: '' }];
+  }
+  return [{ start: elements[index - 1].getEnd(), end: element.getEnd(), text: '' }];
+}
+
+/**
+ * Move the named import `name` from `fromModule` to `toModule`, keeping any
+ * alias. A statement that imports only `name` just gets its module swapped.
+ */
+export function moveNamedImport(sourceFile: ts.SourceFile, fromModule: string, toModule: string, name: string): LintEdit[] {
+  const declaration = findImport(sourceFile, fromModule);
+  const bindings = declaration?.importClause?.namedBindings;
+  if (!declaration || !bindings || !ts.isNamedImports(bindings)) return [];
+
+  const element = bindings.elements.find((e) => (e.propertyName ?? e.name).text === name);
+  if (!element) return [];
+
+  if (bindings.elements.length === 1 && !declaration.importClause?.name) {
+    return [replaceNode(sourceFile, declaration.moduleSpecifier, `'${toModule}'`)];
+  }
+
+  return [
+    ...removeNamedImport(sourceFile, fromModule, name),
+    ...ensureNamedImport(sourceFile, toModule, element.getText(sourceFile)),
+  ];
+}
+
+function identifiersOutsideImports(sourceFile: ts.SourceFile): Set<string> {
+  const names = new Set<string>();
+  const visit = (node: ts.Node): void => {
+    if (ts.isIdentifier(node)) names.add(node.text);
+    ts.forEachChild(node, visit);
+  };
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement)) visit(statement);
+  }
+  return names;
+}
+
+/**
+ * Drop named imports (module → imported names, '*' for all) that nothing
+ * references any more, one at a time. `apply` applies each removal.
+ */
+export function pruneUnusedImports(
+  path: string,
+  content: string,
+  prunes: Record<string, string[] | '*'> | undefined,
+  apply: (content: string, edits: LintEdit[]) => string = applyLintEdits
+): string {
+  let current = content;
+  for (const [moduleName, names] of Object.entries(prunes ?? {})) {
+    for (;;) {
+      const sourceFile = parseSourceFile(path, current);
+      const bindings = findImport(sourceFile, moduleName)?.importClause?.namedBindings;
+      if (!bindings || !ts.isNamedImports(bindings)) break;
+
+      const used = identifiersOutsideImports(sourceFile);
+      const unused = bindings.elements.find((element) =>
+        (names === '*' || names.includes((element.propertyName ?? element.name).text)) && !used.has(element.name.text)
+      );
+      const edits = unused ? removeNamedImport(sourceFile, moduleName, (unused.propertyName ?? unused.name).text) : [];
+      if (edits.length === 0) break;
+      current = apply(current, edits);
+    }
+  }
+  return current;
+}
+
+export function replaceNode(sourceFile: ts.SourceFile, node: ts.Node, text: string): LintEdit {
+  return { start: node.getStart(sourceFile), end: node.getEnd(), text };
+}
+
+/** Depth-first walk over every node in the file. */
+export function walk(node: ts.Node, visit: (node: ts.Node) => void): void {
+  visit(node);
+  ts.forEachChild(node, (child) => walk(child, visit));
+}
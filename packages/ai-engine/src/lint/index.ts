@@ -0,0 +1,226 @@
+/**
+ * Lint rule registry for generated Expo code.
+ *
+ * Every check the agent, the verification pass and the parser run goes through
+ * here, so there is one place to add a rule and one set of per-project toggles.
+ */
+
+import ts from 'typescript';
+import { getExpoSdk, type ExpoSdk } from '@rork/shared';
+import { applyLintEdits, parseSourceFile } from './edits';
+import { BUILTIN_RULES } from './rules';
+
+export type LintSeverity = 'error' | 'warning';
+
+/** A single text replacement, in offsets of the original file content. */
+export interface LintEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface LintContext {
+  path: string;
+  content: string;
+  sourceFile: ts.SourceFile;
+  /** Manifest of the Expo SDK the project targets */
+  sdk: ExpoSdk;
+  /** Build a finding located at `node` (or at a character offset). */
+  report(node: ts.Node | number, message: string): LintFinding;
+}
+
+export interface LintRule {
+  id: string;
+  description: string;
+  severity: LintSeverity;
+  /** Glob patterns (relative to project root) the rule applies to. */
+  files: string[];
+  check(context: LintContext): LintFinding[];
+  /** Optional autofix: returns non-overlapping edits for the whole file. */
+  fix?(context: LintContext): LintEdit[];
+}
+
+export interface LintFinding {
+  ruleId: string;
+  severity: LintSeverity;
+  file: string;
+  line: number;
+  column: number;
+  message: string;
+  fixable: boolean;
+}
+
+/** Per-project rule toggles: rule id → enabled. Missing ids use the default (enabled). */
+export type LintRuleToggles = Record<string, boolean>;
+
+export interface LintOptions {
+  rules?: LintRuleToggles;
+  /** Expo SDK the project targets (default: the current SDK) */
+  sdkVersion?: string;
+}
+
+export interface LintRuleInfo {
+  id: string;
+  description: string;
+  severity: LintSeverity;
+  files: string[];
+  fixable: boolean;
+}
+
+// ── Registry ──
+
+const registry = new Map<string, LintRule>();
+
+for (const rule of BUILTIN_RULES) {
+  registry.set(rule.id, rule);
+}
+
+/** Register (or replace) a rule. */
+export function registerLintRule(rule: LintRule): void {
+  registry.set(rule.id, rule);
+}
+
+export function getLintRules(): LintRule[] {
+  return [...registry.values()];
+}
+
+/** Serializable rule metadata for settings UIs. */
+export function describeLintRules(): LintRuleInfo[] {
+  return getLintRules().map((rule) => ({
+    id: rule.id,
+    description: rule.description,
+    severity: rule.severity,
+    files: rule.files,
+    fixable: typeof rule.fix === 'function',
+  }));
+}
+
+function isEnabled(rule: LintRule, toggles?: LintRuleToggles): boolean {
+  return toggles?.[rule.id] ?? true;
+}
+
+// ── Glob matching ──
+
+const globCache = new Map<string, RegExp>();
+
+function globToRegExp(glob: string): RegExp {
+  const cached = globCache.get(glob);
+  if (cached) return cached;
+
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` matches zero or more directories
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const close = glob.indexOf('}', i);
+      const options = glob.slice(i + 1, close).split(',').map((o) => o.replace(/[.+^$()|[\]\\]/g, '\\$&'));
+      source += `(?:${options.join('|')})`;
+      i = close;
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  const regex = new RegExp(`^${source}$`);
+  globCache.set(glob, regex);
+  return regex;
+}
+
+export function matchesGlob(path: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => globToRegExp(pattern).test(path));
+}
+
+// ── Running rules ──
+
+function createContext(path: string, sourceFile: ts.SourceFile, rule: LintRule, options: LintOptions): LintContext {
+  const content = sourceFile.text;
+  return {
+    path,
+    content,
+    sourceFile,
+    sdk: getExpoSdk(options.sdkVersion),
+    report(node, message) {
+      const position = typeof node === 'number' ? node : node.getStart(sourceFile);
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(position);
+      return {
+        ruleId: rule.id,
+        severity: rule.severity,
+        file: path,
+        line: line + 1,
+        column: character + 1,
+        message,
+        fixable: typeof rule.fix === 'function',
+      };
+    },
+  };
+}
+
+function rulesFor(path: string, options: LintOptions): LintRule[] {
+  return getLintRules().filter((rule) => isEnabled(rule, options.rules) && matchesGlob(path, rule.files));
+}
+
+/** Lint one file. */
+export function lintFile(path: string, content: string, options: LintOptions = {}): LintFinding[] {
+  const rules = rulesFor(path, options);
+  if (rules.length === 0) return [];
+
+  const sourceFile = parseSourceFile(path, content);
+  const findings: LintFinding[] = [];
+  for (const rule of rules) {
+    findings.push(...rule.check(createContext(path, sourceFile, rule, options)));
+  }
+  return findings;
+}
+
+/** Lint every file of a project given as path → content. */
+export function lintProject(files: Record<string, string>, options: LintOptions = {}): LintFinding[] {
+  const findings: LintFinding[] = [];
+  for (const [path, content] of Object.entries(files)) {
+    findings.push(...lintFile(path, content, options));
+  }
+  return findings;
+}
+
+/**
+ * Apply every enabled autofix to one file.
+ * Rules run one after another on a fresh parse, so their edits never conflict.
+ */
+export function fixFile(path: string, content: string, options: LintOptions = {}): string {
+  let current = content;
+  for (const rule of rulesFor(path, options)) {
+    if (!rule.fix) continue;
+    const context = createContext(path, parseSourceFile(path, current), rule, options);
+    if (rule.check(context).length === 0) continue;
+    const edits = rule.fix(context);
+    if (edits.length > 0) current = applyLintEdits(current, edits);
+  }
+  return current;
+}
+
+/** Apply autofixes across a project. Returns only the files that changed. */
+export function fixProject(files: Record<string, string>, options: LintOptions = {}): Record<string, string> {
+  const changed: Record<string, string> = {};
+  for (const [path, content] of Object.entries(files)) {
+    const fixed = fixFile(path, content, options);
+    if (fixed !== content) changed[path] = fixed;
+  }
+  return changed;
+}
+
+export function formatLintFinding(finding: LintFinding): string {
+  return `${finding.file}(${finding.line},${finding.column}): ${finding.severity} ${finding.ruleId}: ${finding.message}${finding.fixable ? ' (autofixable)' : ''}`;
+}
+
+export { applyLintEdits, ensureNamedImport, parseSourceFile, removeNamedImport, replaceNode } from './edits';
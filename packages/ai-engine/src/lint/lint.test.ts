@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+import { fixFile, lintFile } from '.';
+
+const PATH = 'app/index.tsx';
+const OPTIONS = { sdkVersion: '54.0.0' };
+
+/** Autofix `before` with one rule, and the rule's findings left afterwards */
+function fix(ruleId: string, before: string) {
+  const after = fixFile(PATH, before, OPTIONS);
+  const remaining = lintFile(PATH, after, OPTIONS).filter((finding) => finding.ruleId === ruleId);
+  return { after, remaining: remaining.map((finding) => finding.line) };
+}
+
+describe('lint autofixes', () => {
+  it('no-web-elements: swaps web tags for React Native components and imports them', () => {
+    expect(fix('no-web-elements', `import { View } from 'react-native';
+
+export default function Card({ onSelect }: { onSelect: () => void }) {
+  return (
+    <div>
+      <h1>Title</h1>
+      <button onClick={onSelect}><span>Select</span></button>
+      <img source={{ uri: 'https://example.com/a.png' }} />
+    </div>
+  );
+}
+`)).toEqual({
+      after: `import { View, Image, Pressable, Text } from 'react-native';
+
+export default function Card({ onSelect }: { onSelect: () => void }) {
+  return (
+    <View>
+      <Text>Title</Text>
+      <Pressable onPress={onSelect}><Text>Select</Text></Pressable>
+      <Image source={{ uri: 'https://example.com/a.png' }} />
+    </View>
+  );
+}
+`,
+      remaining: [],
+    });
+  });
+
+  it('no-deprecated-packages: moves expo-av sounds to expo-audio', () => {
+    expect(fix('no-deprecated-packages', `import { Audio } from 'expo-av';
+import { Pressable, Text } from 'react-native';
+
+export default function Ding() {
+  async function play() {
+    const { sound } = await Audio.Sound.createAsync(require('../assets/ding.mp3'));
+    await sound.playAsync();
+  }
+  return (
+    <Pressable onPress={play}>
+      <Text>Ding</Text>
+    </Pressable>
+  );
+}
+`)).toEqual({
+      after: `import { Pressable, Text } from 'react-native';
+import { createAudioPlayer } from 'expo-audio';
+
+export default function Ding() {
+  async function play() {
+    const sound = createAudioPlayer(require('../assets/ding.mp3'));
+    await sound.play();
+  }
+  return (
+    <Pressable onPress={play}>
+      <Text>Ding</Text>
+    </Pressable>
+  );
+}
+`,
+      remaining: [],
+    });
+  });
+
+  it('no-deprecated-packages: leaves expo-av alone on an SDK that still supports it', () => {
+    const before = `import { Audio } from 'expo-av';\n\nexport async function play() {\n  const { sound } = await Audio.Sound.createAsync(require('./ding.mp3'));\n  await sound.playAsync();\n}\n`;
+    expect(fixFile('lib/sound.ts', before, { sdkVersion: '52.0.0' })).toBe(before);
+  });
+
+  it('no-react-native-safe-area-view: imports SafeAreaView from react-native-safe-area-context', () => {
+    expect(fix('no-react-native-safe-area-view', `import { SafeAreaView, Text } from 'react-native';
+
+export default function Home() {
+  return (
+    <SafeAreaView>
+      <Text>Home</Text>
+    </SafeAreaView>
+  );
+}
+`)).toEqual({
+      after: `import { Text } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+export default function Home() {
+  return (
+    <SafeAreaView>
+      <Text>Home</Text>
+    </SafeAreaView>
+  );
+}
+`,
+      remaining: [],
+    });
+  });
+
+  it('no-dimensions-get: uses useWindowDimensions() in components, leaving module scope reported', () => {
+    expect(fix('no-dimensions-get', `import { Dimensions, StyleSheet, Text } from 'react-native';
+
+const { height } = Dimensions.get('window');
+
+export default function Home() {
+  const { width } = Dimensions.get('window');
+  return <Text style={[styles.title, { width, height }]}>Home</Text>;
+}
+
+const styles = StyleSheet.create({ title: { fontSize: 20 } });
+`)).toEqual({
+      after: `import { Dimensions, StyleSheet, Text, useWindowDimensions } from 'react-native';
+
+const { height } = Dimensions.get('window');
+
+export default function Home() {
+  const { width } = useWindowDimensions();
+  return <Text style={[styles.title, { width, height }]}>Home</Text>;
+}
+
+const styles = StyleSheet.create({ title: { fontSize: 20 } });
+`,
+      remaining: [3],
+    });
+  });
+
+  it('no-dimensions-get: drops the Dimensions import once nothing uses it', () => {
+    expect(fix('no-dimensions-get', `import { Dimensions, StyleSheet, Text } from 'react-native';
+
+export default function Home() {
+  const { width } = Dimensions.get('window');
+  return <Text style={[styles.title, { width }]}>Home</Text>;
+}
+
+const styles = StyleSheet.create({ title: { fontSize: 20 } });
+`).after).toBe(`import { StyleSheet, Text, useWindowDimensions } from 'react-native';
+
+export default function Home() {
+  const { width } = useWindowDimensions();
+  return <Text style={[styles.title, { width }]}>Home</Text>;
+}
+
+const styles = StyleSheet.create({ title: { fontSize: 20 } });
+`);
+  });
+
+  it('flatlist-key-extractor: adds a keyExtractor', () => {
+    expect(fix('flatlist-key-extractor', `import { FlatList, Text } from 'react-native';
+
+export default function List({ items }: { items: { id: string; title: string }[] }) {
+  return <FlatList data={items} renderItem={({ item }) => <Text>{item.title}</Text>} />;
+}
+`)).toEqual({
+      after: `import { FlatList, Text } from 'react-native';
+
+export default function List({ items }: { items: { id: string; title: string }[] }) {
+  return <FlatList keyExtractor={(item) => item.id} data={items} renderItem={({ item }) => <Text>{item.title}</Text>} />;
+}
+`,
+      remaining: [],
+    });
+  });
+});
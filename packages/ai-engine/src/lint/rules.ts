@@ -0,0 +1,330 @@
+/**
+ * Built-in lint rules — the Expo/React Native conventions the system prompts
+ * already ask the model to follow.
+ */
+
+import ts from 'typescript';
+import type { LintContext, LintEdit, LintFinding, LintRule } from './index';
+import { SDK_CODEMODS } from '../upgrade/codemods';
+import { applyLintEdits, ensureNamedImport, findImport, moveNamedImport, pruneUnusedImports, replaceNode, walk } from './edits';
+
+const SCRIPT_FILES = ['**/*.{ts,tsx,js,jsx}'];
+const COMPONENT_FILES = ['**/*.{tsx,jsx}'];
+
+// ── Helpers ──
+
+type JsxTag = ts.JsxOpeningElement | ts.JsxSelfClosingElement;
+
+function jsxTags(sourceFile: ts.SourceFile): JsxTag[] {
+  const tags: JsxTag[] = [];
+  walk(sourceFile, (node) => {
+    if (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) tags.push(node);
+  });
+  return tags;
+}
+
+function isIntrinsicTag(tag: JsxTag): tag is JsxTag & { tagName: ts.Identifier } {
+  return ts.isIdentifier(tag.tagName) && /^[a-z]/.test(tag.tagName.text);
+}
+
+function isPropertyChain(node: ts.Node, chain: string[]): boolean {
+  let current: ts.Node = node;
+  for (let i = chain.length - 1; i > 0; i--) {
+    if (!ts.isPropertyAccessExpression(current) || current.name.text !== chain[i]) return false;
+    current = current.expression;
+  }
+  return ts.isIdentifier(current) && current.text === chain[0];
+}
+
+function importsFrom(sourceFile: ts.SourceFile, moduleName: string): ts.Node[] {
+  const nodes: ts.Node[] = [];
+  walk(sourceFile, (node) => {
+    if (
+      (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) &&
+      node.moduleSpecifier &&
+      ts.isStringLiteral(node.moduleSpecifier) &&
+      (node.moduleSpecifier.text === moduleName || node.moduleSpecifier.text.startsWith(`${moduleName}/`))
+    ) {
+      nodes.push(node);
+    } else if (
+      ts.isCallExpression(node) &&
+      (node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+        (ts.isIdentifier(node.expression) && node.expression.text === 'require')) &&
+      node.arguments.length === 1 &&
+      ts.isStringLiteral(node.arguments[0]) &&
+      node.arguments[0].text === moduleName
+    ) {
+      nodes.push(node);
+    }
+  });
+  return nodes;
+}
+
+/**
+ * Autofix through the SDK upgrade codemod `id`, as one edit over the whole
+ * file (its import pruning needs a fresh parse). Whatever the codemod can't
+ * migrate is left in place and keeps being reported.
+ */
+function codemodFix(id: string, context: LintContext): LintEdit[] {
+  const codemod = SDK_CODEMODS.find((candidate) => candidate.id === id);
+  if (!codemod || !codemod.appliesTo(context.sdk, context.sdk)) return [];
+
+  const { path, sourceFile, sdk, content } = context;
+  const edits = codemod.transform({ path, sourceFile, from: sdk, to: sdk, note: () => {} });
+  if (edits.length === 0) return [];
+  const fixed = pruneUnusedImports(path, applyLintEdits(content, edits), codemod.prunes);
+  return fixed === content ? [] : [{ start: 0, end: content.length, text: fixed }];
+}
+
+// ── Rules ──
+
+/** Web tag → React Native component used by the autofix. */
+const WEB_TAG_REPLACEMENTS: Record<string, string> = {
+  div: 'View',
+  section: 'View',
+  main: 'View',
+  header: 'View',
+  footer: 'View',
+  nav: 'View',
+  article: 'View',
+  aside: 'View',
+  form: 'View',
+  ul: 'View',
+  ol: 'View',
+  li: 'View',
+  span: 'Text',
+  p: 'Text',
+  h1: 'Text',
+  h2: 'Text',
+  h3: 'Text',
+  h4: 'Text',
+  h5: 'Text',
+  h6: 'Text',
+  label: 'Text',
+  strong: 'Text',
+  em: 'Text',
+  b: 'Text',
+  i: 'Text',
+  img: 'Image',
+  button: 'Pressable',
+  input: 'TextInput',
+  textarea: 'TextInput',
+};
+
+const noWebElements: LintRule = {
+  id: 'no-web-elements',
+  description: 'Web HTML tags (div, span, p, button…) do not exist in React Native; use View, Text, Pressable, etc.',
+  severity: 'error',
+  files: COMPONENT_FILES,
+  check(context) {
+    return jsxTags(context.sourceFile)
+      .filter(isIntrinsicTag)
+      .map((tag) => {
+        const replacement = WEB_TAG_REPLACEMENTS[tag.tagName.text];
+        return context.report(
+          tag,
+          `<${tag.tagName.text}> is a web element${replacement ? `; use <${replacement}> from react-native` : ' and is not available in React Native'}`
+        );
+      });
+  },
+  fix(context) {
+    const { sourceFile } = context;
+    const edits: LintEdit[] = [];
+    const needed = new Set<string>();
+
+    walk(sourceFile, (node) => {
+      if (!ts.isJsxElement(node) && !ts.isJsxSelfClosingElement(node)) return;
+      const opening = ts.isJsxElement(node) ? node.openingElement : node;
+      if (!isIntrinsicTag(opening)) return;
+      const replacement = WEB_TAG_REPLACEMENTS[opening.tagName.text];
+      if (!replacement) return;
+
+      needed.add(replacement);
+      edits.push(replaceNode(sourceFile, opening.tagName, replacement));
+      for (const attribute of replacement === 'Pressable' ? opening.attributes.properties : []) {
+        if (ts.isJsxAttribute(attribute) && ts.isIdentifier(attribute.name) && attribute.name.text === 'onClick') {
+          edits.push(replaceNode(sourceFile, attribute.name, 'onPress'));
+        }
+      }
+      if (ts.isJsxElement(node) && ts.isIdentifier(node.closingElement.tagName)) {
+        edits.push(replaceNode(sourceFile, node.closingElement.tagName, replacement));
+      }
+    });
+
+    if (needed.size > 0) {
+      edits.push(...ensureNamedImport(sourceFile, 'react-native', [...needed].sort()));
+    }
+    return edits;
+  },
+};
+
+const noDeprecatedPackages: LintRule = {
+  id: 'no-deprecated-packages',
+  description: "Packages the project's Expo SDK deprecates (such as expo-av in SDK 54) must be replaced.",
+  severity: 'error',
+  files: SCRIPT_FILES,
+  check(context) {
+    const { sdk } = context;
+    return Object.entries(sdk.deprecated).flatMap(([name, replacement]) =>
+      importsFrom(context.sourceFile, name).map((node) =>
+        context.report(node, `${name} is deprecated in Expo SDK ${sdk.major}; use ${replacement} instead`)
+      )
+    );
+  },
+  fix(context) {
+    return codemodFix('expo-av', context);
+  },
+};
+
+const noReactNativeSafeAreaView: LintRule = {
+  id: 'no-react-native-safe-area-view',
+  description: 'SafeAreaView must come from react-native-safe-area-context, not react-native.',
+  severity: 'error',
+  files: SCRIPT_FILES,
+  check(context) {
+    const declaration = findImport(context.sourceFile, 'react-native');
+    const bindings = declaration?.importClause?.namedBindings;
+    if (!bindings || !ts.isNamedImports(bindings)) return [];
+
+    return bindings.elements
+      .filter((element) => (element.propertyName ?? element.name).text === 'SafeAreaView')
+      .map((element) =>
+        context.report(element, "Import SafeAreaView from 'react-native-safe-area-context' instead of 'react-native'")
+      );
+  },
+  fix(context) {
+    return moveNamedImport(context.sourceFile, 'react-native', 'react-native-safe-area-context', 'SafeAreaView');
+  },
+};
+
+const noDimensionsGet: LintRule = {
+  id: 'no-dimensions-get',
+  description: 'Use the useWindowDimensions() hook instead of Dimensions.get() so layouts follow rotation and resizing.',
+  severity: 'warning',
+  files: SCRIPT_FILES,
+  check(context) {
+    const findings: LintFinding[] = [];
+    walk(context.sourceFile, (node) => {
+      if (ts.isCallExpression(node) && isPropertyChain(node.expression, ['Dimensions', 'get'])) {
+        findings.push(context.report(node, 'Dimensions.get() does not update on rotation; use useWindowDimensions() inside the component'));
+      }
+    });
+    return findings;
+  },
+  fix(context) {
+    return codemodFix('use-window-dimensions', context);
+  },
+};
+
+const preferPlatformOs: LintRule = {
+  id: 'prefer-platform-os',
+  description: 'Use Platform.OS from react-native instead of process.env.EXPO_OS.',
+  severity: 'warning',
+  files: SCRIPT_FILES,
+  check(context) {
+    const findings: LintFinding[] = [];
+    walk(context.sourceFile, (node) => {
+      if (isPropertyChain(node, ['process', 'env', 'EXPO_OS'])) {
+        findings.push(context.report(node, 'Use Platform.OS instead of process.env.EXPO_OS'));
+      }
+    });
+    return findings;
+  },
+  fix(context) {
+    const { sourceFile } = context;
+    const edits: LintEdit[] = [];
+    walk(sourceFile, (node) => {
+      if (isPropertyChain(node, ['process', 'env', 'EXPO_OS'])) {
+        edits.push(replaceNode(sourceFile, node, 'Platform.OS'));
+      }
+    });
+    if (edits.length > 0) {
+      edits.push(...ensureNamedImport(sourceFile, 'react-native', 'Platform'));
+    }
+    return edits;
+  },
+};
+
+function flatListsWithoutKeyExtractor(sourceFile: ts.SourceFile): JsxTag[] {
+  return jsxTags(sourceFile).filter((tag) => {
+    const name = tag.tagName.getText(sourceFile);
+    if (name !== 'FlatList' && !name.endsWith('.FlatList')) return false;
+    return !tag.attributes.properties.some(
+      (attribute) =>
+        ts.isJsxSpreadAttribute(attribute) ||
+        (ts.isIdentifier(attribute.name) && attribute.name.text === 'keyExtractor')
+    );
+  });
+}
+
+const flatListKeyExtractor: LintRule = {
+  id: 'flatlist-key-extractor',
+  description: 'FlatList needs a keyExtractor so rows keep stable identity.',
+  severity: 'warning',
+  files: COMPONENT_FILES,
+  check(context) {
+    return flatListsWithoutKeyExtractor(context.sourceFile)
+      .map((tag) => context.report(tag, 'FlatList is missing keyExtractor; add keyExtractor={(item) => item.id}'));
+  },
+  fix(context) {
+    return flatListsWithoutKeyExtractor(context.sourceFile).map((tag) => ({
+      start: tag.tagName.getEnd(),
+      end: tag.tagName.getEnd(),
+      text: ' keyExtractor={(item) => item.id}',
+    }));
+  },
+};
+
+const noTodoMarkers: LintRule = {
+  id: 'no-todo-markers',
+  description: 'Generated code should be complete — no TODO/FIXME placeholders.',
+  severity: 'warning',
+  files: SCRIPT_FILES,
+  check(context) {
+    const findings: LintFinding[] = [];
+    const pattern = /\b(TODO|FIXME)\b/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(context.content)) !== null) {
+      findings.push(context.report(match.index, `Contains a ${match[1]} marker`));
+    }
+    return findings;
+  },
+};
+
+const preferStyleSheet: LintRule = {
+  id: 'prefer-stylesheet',
+  description: 'Define styles with StyleSheet.create rather than inline style objects.',
+  severity: 'warning',
+  files: COMPONENT_FILES,
+  check(context) {
+    if (context.content.includes('StyleSheet.create')) return [];
+
+    let first: ts.Node | undefined;
+    walk(context.sourceFile, (node) => {
+      if (
+        !first &&
+        ts.isJsxAttribute(node) &&
+        ts.isIdentifier(node.name) &&
+        node.name.text === 'style' &&
+        node.initializer &&
+        ts.isJsxExpression(node.initializer) &&
+        node.initializer.expression &&
+        ts.isObjectLiteralExpression(node.initializer.expression)
+      ) {
+        first = node;
+      }
+    });
+    return first ? [context.report(first, 'Inline style objects found; consider StyleSheet.create')] : [];
+  },
+};
+
+export const BUILTIN_RULES: LintRule[] = [
+  noWebElements,
+  noDeprecatedPackages,
+  noReactNativeSafeAreaView,
+  noDimensionsGet,
+  preferPlatformOs,
+  flatListKeyExtractor,
+  noTodoMarkers,
+  preferStyleSheet,
+];
@@ -0,0 +1,98 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type { AgentModel, AgentTurnRequest, AgentTurnResponse, AgentMessage } from '../types';
+
+export const ANTHROPIC_MODEL = 'claude-sonnet-4-20250514';
+
+/**
+ * Anthropic Messages API adapter for the agent loop.
+ */
+export class AnthropicAgentModel implements AgentModel {
+  name = 'claude';
+  displayName = 'Claude Sonnet 4';
+  defaultMaxTokens = 16384;
+
+  private client: Anthropic;
+  private model: string;
+
+  constructor(apiKey: string, model: string = ANTHROPIC_MODEL) {
+    this.client = new Anthropic({ apiKey });
+    this.model = model;
+  }
+
+  async createTurn(request: AgentTurnRequest): Promise<AgentTurnResponse> {
+    const response = await this.client.messages.create({
+      model: this.model,
+      max_tokens: request.maxTokens,
+      system: request.system,
+      tools: request.tools as Anthropic.Tool[],
+      messages: toAnthropicMessages(request.messages),
+    }, { signal: request.signal });
+
+    let text = '';
+    const toolCalls: AgentTurnResponse['toolCalls'] = [];
+    for (const block of response.content) {
+      if (block.type === 'text') {
+        text += block.text;
+      } else if (block.type === 'tool_use') {
+        toolCalls.push({ id: block.id, name: block.name, input: (block.input ?? {}) as Record<string, unknown> });
+      }
+    }
+
+    return {
+      text,
+      toolCalls,
+      stopReason:
+        response.stop_reason === 'end_turn' || response.stop_reason === 'tool_use' || response.stop_reason === 'max_tokens'
+          ? response.stop_reason
+          : 'other',
+      usage: {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+      },
+    };
+  }
+}
+
+/** Convert history, merging consecutive user turns (tool results + follow-up nudges). */
+function toAnthropicMessages(messages: AgentMessage[]): Anthropic.MessageParam[] {
+  const result: Anthropic.MessageParam[] = [];
+  for (const message of messages) {
+    const param = toAnthropicMessage(message);
+    const previous = result[result.length - 1];
+    if (previous && previous.role === 'user' && param.role === 'user') {
+      previous.content = [...toBlocks(previous.content), ...toBlocks(param.content)];
+    } else {
+      result.push(param);
+    }
+  }
+  return result;
+}
+
+function toBlocks(content: Anthropic.MessageParam['content']): Anthropic.ContentBlockParam[] {
+  return typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+}
+
+function toAnthropicMessage(message: AgentMessage): Anthropic.MessageParam {
+  if (message.role === 'user') {
+    return { role: 'user', content: message.content };
+  }
+
+  if (message.role === 'assistant') {
+    const content: Anthropic.ContentBlockParam[] = [];
+    if (message.text) content.push({ type: 'text', text: message.text });
+    for (const call of message.toolCalls) {
+      content.push({ type: 'tool_use', id: call.id, name: call.name, input: call.input });
+    }
+    return { role: 'assistant', content };
+  }
+
+  return {
+    role: 'user',
+    content: message.results.map((result) => ({
+      type: 'tool_result' as const,
+      tool_use_id: result.toolCallId,
+      content: result.content,
+      is_error: result.isError,
+    })),
+  };
+}
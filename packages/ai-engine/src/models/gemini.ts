@@ -0,0 +1,140 @@
+import { GoogleGenAI, Type, type Content, type FunctionDeclaration, type Part, type Schema } from '@google/genai';
+import type { AgentModel, AgentTurnRequest, AgentTurnResponse, AgentMessage } from '../types';
+import type { ToolDefinition } from '../tools';
+
+const GEMINI_MODEL = 'gemini-flash-latest';
+
+type JsonSchema = {
+  type: string;
+  description?: string;
+  items?: JsonSchema;
+  enum?: string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+};
+
+const SCHEMA_TYPES: Record<string, Type> = {
+  object: Type.OBJECT,
+  string: Type.STRING,
+  array: Type.ARRAY,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+};
+
+/** Convert the shared JSON-schema tool definitions into Gemini's Schema shape. */
+function toGeminiSchema(schema: JsonSchema): Schema {
+  const result: Schema = { type: SCHEMA_TYPES[schema.type] ?? Type.STRING };
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.items) result.items = toGeminiSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    );
+  }
+  if (schema.required) result.required = schema.required;
+  return result;
+}
+
+export function toFunctionDeclarations(tools: ToolDefinition[]): FunctionDeclaration[] {
+  return tools.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    parameters: toGeminiSchema(tool.input_schema as JsonSchema),
+  }));
+}
+
+/**
+ * Gemini generateContent adapter for the agent loop.
+ * Requests are stateless: the full history is sent every turn, replaying the
+ * model's own content verbatim so thought signatures survive.
+ */
+export class GeminiAgentModel implements AgentModel {
+  name = 'gemini';
+  displayName = 'Gemini Flash';
+  defaultMaxTokens = 65536;
+
+  private ai: GoogleGenAI;
+  private model: string;
+
+  constructor(apiKey: string, model: string = GEMINI_MODEL) {
+    this.ai = new GoogleGenAI({ apiKey });
+    this.model = model;
+  }
+
+  async createTurn(request: AgentTurnRequest): Promise<AgentTurnResponse> {
+    const response = await this.ai.models.generateContent({
+      model: this.model,
+      contents: request.messages.map(toGeminiContent),
+      config: {
+        systemInstruction: request.system,
+        tools: [{ functionDeclarations: toFunctionDeclarations(request.tools) }],
+        maxOutputTokens: request.maxTokens,
+        temperature: 1.0,
+        abortSignal: request.signal,
+      },
+    });
+
+    const candidate = response.candidates?.[0];
+    const parts = candidate?.content?.parts ?? [];
+
+    let text = '';
+    const toolCalls: AgentTurnResponse['toolCalls'] = [];
+    parts.forEach((part, index) => {
+      if (part.text && !part.thought) text += part.text;
+      if (part.functionCall?.name) {
+        toolCalls.push({
+          id: part.functionCall.id ?? `call-${Date.now()}-${index}`,
+          name: part.functionCall.name,
+          input: (part.functionCall.args ?? {}) as Record<string, unknown>,
+        });
+      }
+    });
+
+    const finishReason = candidate?.finishReason;
+    return {
+      text,
+      toolCalls,
+      stopReason: toolCalls.length > 0
+        ? 'tool_use'
+        : finishReason === 'MAX_TOKENS'
+          ? 'max_tokens'
+          : finishReason === 'STOP'
+            ? 'end_turn'
+            : 'other',
+      usage: {
+        inputTokens: response.usageMetadata?.promptTokenCount ?? 0,
+        outputTokens: response.usageMetadata?.candidatesTokenCount ?? 0,
+      },
+      raw: candidate?.content,
+    };
+  }
+}
+
+function toGeminiContent(message: AgentMessage): Content {
+  if (message.role === 'user') {
+    return { role: 'user', parts: [{ text: message.content }] };
+  }
+
+  if (message.role === 'assistant') {
+    if (message.raw) return message.raw as Content;
+    const parts: Part[] = [];
+    if (message.text) parts.push({ text: message.text });
+    for (const call of message.toolCalls) {
+      parts.push({ functionCall: { id: call.id, name: call.name, args: call.input } });
+    }
+    return { role: 'model', parts };
+  }
+
+  return {
+    role: 'user',
+    parts: message.results.map((result) => ({
+      functionResponse: {
+        id: result.toolCallId,
+        name: result.name,
+        response: result.isError ? { error: result.content } : { output: result.content },
+      },
+    })),
+  };
+}
@@ -0,0 +1,28 @@
+import type { AgentModel, OpenAICompatibleConfig } from '../types';
+import type { AIProviderType } from '../providers';
+import { AnthropicAgentModel } from './anthropic';
+import { GeminiAgentModel } from './gemini';
+import { OpenAICompatibleAgentModel } from './openai-compatible';
+
+export { AnthropicAgentModel } from './anthropic';
+export { GeminiAgentModel, toFunctionDeclarations } from './gemini';
+export { OpenAICompatibleAgentModel } from './openai-compatible';
+export { withRetry, isRetryableError, sleep, MAX_API_RETRIES, API_RETRY_DELAY_MS } from './retry';
+
+/**
+ * Create the tool-calling model used by the agent loop. `config` is the
+ * endpoint for 'openai-compatible'.
+ */
+export function createAgentModel(type: AIProviderType, apiKey: string, config?: OpenAICompatibleConfig): AgentModel {
+  switch (type) {
+    case 'claude':
+      return new AnthropicAgentModel(apiKey);
+    case 'gemini':
+      return new GeminiAgentModel(apiKey);
+    case 'openai-compatible':
+      if (!config) throw new Error('OpenAI-compatible agent model needs a base URL and model');
+      return new OpenAICompatibleAgentModel(apiKey, config);
+    default:
+      throw new Error(`Unknown agent model: ${type}`);
+  }
+}
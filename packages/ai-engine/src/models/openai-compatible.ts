@@ -0,0 +1,165 @@
+import type {
+  AgentModel,
+  AgentTurnRequest,
+  AgentTurnResponse,
+  AgentMessage,
+  OpenAICompatibleConfig,
+} from '../types';
+import type { ToolDefinition } from '../tools';
+
+/** Message shapes of the OpenAI chat completions API */
+export type ChatCompletionMessage =
+  | { role: 'system' | 'user'; content: string | Array<Record<string, unknown>> }
+  | { role: 'assistant'; content: string | null; tool_calls?: ChatCompletionToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+export interface ChatCompletionToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+export interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: { content?: string | null; tool_calls?: ChatCompletionToolCall[] };
+    finish_reason?: string | null;
+  }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+  error?: { message?: string };
+}
+
+/**
+ * POST to `<baseUrl>/chat/completions`. The API key is optional (local
+ * servers such as Ollama or LM Studio don't need one). Failures throw with
+ * the HTTP status in the message so transient ones are retried.
+ */
+export async function fetchChatCompletion(
+  config: OpenAICompatibleConfig,
+  apiKey: string,
+  body: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<Response> {
+  const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      ...config.headers,
+    },
+    signal,
+    body: JSON.stringify({ model: config.model, ...body }),
+  });
+
+  if (!response.ok) {
+    let detail = '';
+    try {
+      const data = (await response.json()) as ChatCompletionResponse;
+      detail = data.error?.message ?? '';
+    } catch {
+      // Not JSON (proxies, HTML error pages); the status is enough
+    }
+    throw new Error(`${config.displayName ?? config.model} request failed (HTTP ${response.status})${detail ? `: ${detail}` : ''}`);
+  }
+  return response;
+}
+
+/** The shared tool definitions as OpenAI function tools (both use JSON schema) */
+export function toChatCompletionTools(tools: ToolDefinition[]) {
+  return tools.map((tool) => ({
+    type: 'function' as const,
+    function: { name: tool.name, description: tool.description, parameters: tool.input_schema },
+  }));
+}
+
+/** Tool arguments arrive as a JSON string; a malformed one becomes an empty input */
+export function parseToolArguments(value: string | undefined): Record<string, unknown> {
+  if (!value) return {};
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * OpenAI-compatible chat completions adapter for the agent loop: works with
+ * OpenRouter, vLLM, Ollama, LM Studio and anything else speaking the same
+ * API with function calling.
+ */
+export class OpenAICompatibleAgentModel implements AgentModel {
+  name = 'openai-compatible';
+  displayName: string;
+  defaultMaxTokens = 16384;
+
+  private apiKey: string;
+  private config: OpenAICompatibleConfig;
+
+  constructor(apiKey: string, config: OpenAICompatibleConfig) {
+    this.apiKey = apiKey;
+    this.config = config;
+    this.displayName = config.displayName ?? config.model;
+  }
+
+  async createTurn(request: AgentTurnRequest): Promise<AgentTurnResponse> {
+    const response = await fetchChatCompletion(this.config, this.apiKey, {
+      messages: [{ role: 'system', content: request.system }, ...request.messages.flatMap(toChatCompletionMessages)],
+      tools: toChatCompletionTools(request.tools),
+      max_tokens: request.maxTokens,
+    }, request.signal);
+
+    const data = (await response.json()) as ChatCompletionResponse;
+    if (data.error) throw new Error(`${this.displayName} error: ${data.error.message ?? 'unknown error'}`);
+
+    const choice = data.choices?.[0];
+    const toolCalls: AgentTurnResponse['toolCalls'] = (choice?.message?.tool_calls ?? []).map((call, index) => ({
+      id: call.id || `call-${Date.now()}-${index}`,
+      name: call.function.name,
+      input: parseToolArguments(call.function.arguments),
+    }));
+
+    // Some local servers report 'stop' even when the turn ends in tool calls
+    return {
+      text: choice?.message?.content ?? '',
+      toolCalls,
+      stopReason: toolCalls.length > 0
+        ? 'tool_use'
+        : choice?.finish_reason === 'length'
+          ? 'max_tokens'
+          : choice?.finish_reason === 'stop'
+            ? 'end_turn'
+            : 'other',
+      usage: {
+        inputTokens: data.usage?.prompt_tokens ?? 0,
+        outputTokens: data.usage?.completion_tokens ?? 0,
+      },
+    };
+  }
+}
+
+/** Tool results become one `tool` message per call */
+function toChatCompletionMessages(message: AgentMessage): ChatCompletionMessage[] {
+  if (message.role === 'user') {
+    return [{ role: 'user', content: message.content }];
+  }
+
+  if (message.role === 'assistant') {
+    return [{
+      role: 'assistant',
+      content: message.text || null,
+      ...(message.toolCalls.length > 0 && {
+        tool_calls: message.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function' as const,
+          function: { name: call.name, arguments: JSON.stringify(call.input) },
+        })),
+      }),
+    }];
+  }
+
+  return message.results.map((result) => ({
+    role: 'tool' as const,
+    tool_call_id: result.toolCallId,
+    content: result.isError ? `Error: ${result.content}` : result.content,
+  }));
+}
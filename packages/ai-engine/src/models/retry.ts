@@ -0,0 +1,69 @@
+// Max retries for transient API errors (timeout, 503, rate limit)
+export const MAX_API_RETRIES = 2;
+
+// Delay between API retries in ms
+export const API_RETRY_DELAY_MS = 3000;
+
+/** Check if an error is transient and should be retried */
+export function isRetryableError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  const msg = error.message.toLowerCase();
+  return (
+    msg.includes('timeout') ||
+    msg.includes('503') ||
+    msg.includes('529') ||
+    msg.includes('429') ||
+    msg.includes('overloaded') ||
+    msg.includes('rate limit') ||
+    msg.includes('resource exhausted') ||
+    msg.includes('unavailable') ||
+    msg.includes('internal error') ||
+    msg.includes('deadline exceeded')
+  );
+}
+
+/** Sleep for a given number of milliseconds; rejects early if `signal` aborts */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run `fn`, retrying transient errors up to MAX_API_RETRIES times.
+ * `onRetry` is called before each retry (for logging / status events).
+ * An aborted `signal` stops retrying immediately.
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  onRetry?: (attempt: number, error: unknown) => void,
+  signal?: AbortSignal
+): Promise<T> {
+  let lastError: unknown;
+  for (let attempt = 0; attempt <= MAX_API_RETRIES; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      lastError = err;
+      if (attempt < MAX_API_RETRIES && !signal?.aborted && isRetryableError(err)) {
+        onRetry?.(attempt + 1, err);
+        await sleep(API_RETRY_DELAY_MS, signal);
+      } else {
+        throw err;
+      }
+    }
+  }
+  throw lastError;
+}
@@ -1,4 +1,5 @@
 import type { ParsedFile, ValidationResult } from '../types';
+import { lintFile, type LintRuleToggles } from '../lint';
 
 /**
  * Parse generated files from AI response
@@ -52,45 +53,26 @@ export function getLanguageFromPath(path: string): string {
 }
 
 /**
- * Validate React Native code for common issues
+ * Validate React Native code for common issues.
+ * Runs the shared lint rule registry; `path` decides which rules apply.
  */
-export function validateReactNativeCode(code: string): ValidationResult {
+export function validateReactNativeCode(
+  code: string,
+  path = 'App.tsx',
+  lintRules?: LintRuleToggles
+): ValidationResult {
   const errors: string[] = [];
   const warnings: string[] = [];
-  
-  // Check for web elements (common mistake)
-  const webElements = ['<div', '<span', '<button', '<input', '<a href'];
-  for (const element of webElements) {
-    if (code.includes(element)) {
-      errors.push(`Using web element "${element}" instead of React Native component`);
+
+  for (const finding of lintFile(path, code, { rules: lintRules })) {
+    const message = `${finding.line}:${finding.column} ${finding.message} (${finding.ruleId})`;
+    if (finding.severity === 'error') {
+      errors.push(message);
+    } else {
+      warnings.push(message);
     }
   }
-  
-  // Check for missing export
-  if (!code.includes('export default') && !code.includes('export {')) {
-    warnings.push('Missing export statement');
-  }
-  
-  // Check for StyleSheet usage
-  if (code.includes('style={{') && !code.includes('StyleSheet.create')) {
-    warnings.push('Consider using StyleSheet.create for better performance');
-  }
-  
-  // Check for required imports
-  if (code.includes('StyleSheet') && !code.includes("from 'react-native'")) {
-    errors.push('Missing React Native import for StyleSheet');
-  }
-  
-  if (code.includes('useState') && !code.includes("from 'react'")) {
-    errors.push('Missing React import for useState');
-  }
-  
-  // Check for inline functions in JSX (performance issue)
-  const inlineFunctionPattern = /onPress=\{(?!\s*\w+\s*\})[^}]+\}/g;
-  if (inlineFunctionPattern.test(code)) {
-    warnings.push('Consider extracting inline functions for better performance');
-  }
-  
+
   return {
     isValid: errors.length === 0,
     errors,
@@ -1,16 +1,31 @@
 /**
- * Expo SDK 52 Core Rules and Library Preferences
- * For Expo Snack SDK preview environment (real Expo code)
+ * Expo SDK Core Rules and Library Preferences
+ * For Expo Snack SDK preview environment (real Expo code). Versions and
+ * package lists come from the SDK manifest (@rork/shared EXPO_SDKS).
  */
 
-export const EXPO_SDK54_RULES = `## Expo SDK 52 Core Rules
+import { getExpoSdk, type ExpoSdk } from '@rork/shared';
+
+// Installed with every project; not worth listing as extra packages
+const BASE_PACKAGES = new Set(['expo', 'react', 'react-dom', 'react-native', 'react-native-web']);
+
+export function getExpoSdkRules(sdk: ExpoSdk): string {
+  const resolved = Object.entries(sdk.packages)
+    .filter(([name]) => !BASE_PACKAGES.has(name) && !sdk.snackPreloaded.includes(name) && !sdk.deprecated[name])
+    .map(([name, version]) => `- ${name}@${version}`)
+    .join('\n');
+  const deprecated = Object.entries(sdk.deprecated)
+    .map(([name, replacement]) => `- ${name} — deprecated in SDK ${sdk.major}; use ${replacement}`)
+    .join('\n');
+
+  return `## Expo SDK ${sdk.major} Core Rules
 
 ### Runtime Environment
 This app runs in **Expo Snack** — a real Expo environment powered by Metro bundler.
 - Code runs natively on iOS/Android via Expo Go, AND as a web preview via react-native-web
 - The Snack web player renders your app in an iframe — users can also scan a QR code to test on real devices
 - The entry point is always \`App.tsx\` (default export)
-- Expo SDK 52 is the target — use packages compatible with this version
+- Expo SDK ${sdk.major} (React Native ${sdk.packages['react-native']}, React ${sdk.packages.react}) is the target — use packages compatible with this version
 
 ### Library Preferences
 | Use This | NOT This |
@@ -30,26 +45,13 @@ This app runs in **Expo Snack** — a real Expo environment powered by Metro bun
 
 ### Available Packages (Pre-loaded in Snack)
 These packages are pre-loaded and resolve instantly:
-- react, react-native
-- expo-router
-- @expo/vector-icons
-- react-native-safe-area-context
-- react-native-reanimated
-- react-native-gesture-handler
-- @react-native-async-storage/async-storage
-- expo-constants, expo-font
+${sdk.snackPreloaded.map((name) => `- ${name}`).join('\n')}
 
 ### Available Packages (Resolved by Snackager)
 These packages are available but need resolution (slight delay on first use).
 **Use EXACTLY these versions in package.json — wrong versions cause build failures:**
-- expo-image@~2.0.0
-- expo-blur@~14.0.0
-- expo-haptics@~14.0.0
-- expo-linear-gradient@~14.0.0
-- expo-status-bar@~2.0.0
-- expo-linking@~7.0.0
-- expo-clipboard@~7.0.0
-
+${resolved}
+${deprecated ? `\n### Deprecated in SDK ${sdk.major} (do not use)\n${deprecated}\n` : ''}
 ### Project Structure (expo-router file-based routing)
 \`\`\`
 App.tsx                    # Entry point — MUST contain ONLY: import 'expo-router/entry';
@@ -81,6 +83,10 @@ types/                     # TypeScript types
 - TypeScript strict mode enabled
 - Use \`export default\` for route/screen components
 - Use named exports for components and hooks`;
+}
+
+/** Rules for the default SDK */
+export const EXPO_SDK_RULES = getExpoSdkRules(getExpoSdk());
 
 export const EXPO_PACKAGES = `## Available Packages
 
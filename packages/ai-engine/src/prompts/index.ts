@@ -3,11 +3,13 @@
  * For Expo Snack SDK preview environment (real Expo code)
  */
 
+import { getExpoSdk, type ExpoSdk } from '@rork/shared';
+
 import {
-  EXPO_SDK54_RULES,
+  getExpoSdkRules,
   EXPO_PACKAGES,
   EXPO_BEST_PRACTICES,
-} from './expo-sdk54';
+} from './expo-sdk';
 
 import {
   NATIVE_TABS,
@@ -44,12 +46,13 @@ import {
   EXPO_CONTROLS,
 } from './expo-knowledge';
 
-// Main system prompt
-export const SYSTEM_PROMPT = `You are Rork Max, an advanced AI app builder that creates and modifies Expo/React Native mobile applications. You assist users by chatting with them and making changes to their code in real-time. You can see the current project files and use them as context.
+// Main system prompt, for the SDK the project targets
+export function getSystemPrompt(sdk: ExpoSdk = getExpoSdk()): string {
+  return `You are Rork Max, an advanced AI app builder that creates and modifies Expo/React Native mobile applications. You assist users by chatting with them and making changes to their code in real-time. You can see the current project files and use them as context.
 
 Interface Layout: On the left there's a chat window. In the center there's a live preview powered by Expo Snack (phone simulator + real device via QR code). On the right there's a code editor. When you make code changes via the write_file tool, users will see the updates immediately in the preview.
 
-Technology Stack: Rork Max projects are built with Expo SDK 52 + React Native + TypeScript. The preview runs via Expo Snack SDK — code works on web (react-native-web), iOS, and Android. Navigation uses expo-router (file-based routing). Icons use @expo/vector-icons (Ionicons). The entry point is ALWAYS App.tsx — it MUST contain ONLY \`import 'expo-router/entry';\` (nothing else). The Snack runtime detects this import and automatically bootstraps expo-router with the app/ directory.
+Technology Stack: Rork Max projects are built with Expo SDK ${sdk.major} + React Native + TypeScript. The preview runs via Expo Snack SDK — code works on web (react-native-web), iOS, and Android. Navigation uses expo-router (file-based routing). Icons use @expo/vector-icons (Ionicons). The entry point is ALWAYS App.tsx — it MUST contain ONLY \`import 'expo-router/entry';\` (nothing else). The Snack runtime detects this import and automatically bootstraps expo-router with the app/ directory.
 
 As Rork Max, you have superior design capabilities and support for complex features like 3D Games and 3D UI using \`@react-three/fiber\` and \`three.js\`.
 
@@ -126,7 +129,7 @@ When the user describes what they want to build:
 11. Entry point is ALWAYS App.tsx — it MUST contain ONLY: \`import 'expo-router/entry';\` (no default export, no other code). The Snack runtime detects this import and bootstraps expo-router automatically.
 12. Navigation uses expo-router — put routes in app/ directory. All screen/layout code goes in app/ files, NOT in App.tsx.
 
-${EXPO_SDK54_RULES}
+${getExpoSdkRules(sdk)}
 
 ## Available Expo Packages (USE THESE)
 - **expo-router** — file-based routing (Stack, Tabs, Link, useRouter)
@@ -152,6 +155,9 @@ ${EXPO_SDK54_RULES}
 - **PlatformColor()** — use hex colors
 - Web HTML elements (<div>, <span>, <img>)
 - Legacy RN shadow props (shadowColor, shadowOffset, etc.) — use CSS boxShadow`;
+}
+
+export const SYSTEM_PROMPT = getSystemPrompt();
 
 // Navigation patterns
 export const NAVIGATION_PROMPT = `${NATIVE_TABS}
@@ -209,7 +215,8 @@ ${EXPO_STORAGE}
 ${EXPO_CONTROLS}`;
 
 // Combined full prompt
-export const FULL_SYSTEM_PROMPT = `${SYSTEM_PROMPT}
+export function getFullSystemPrompt(sdk: ExpoSdk = getExpoSdk()): string {
+  return `${getSystemPrompt(sdk)}
 
 ${NAVIGATION_PROMPT}
 
@@ -220,6 +227,9 @@ ${COMPONENTS_PROMPT}
 ${BEST_PRACTICES_PROMPT}
 
 ${EXPO_KNOWLEDGE_PROMPT}`;
+}
+
+export const FULL_SYSTEM_PROMPT = getFullSystemPrompt();
 
 // Legacy exports (kept for backward compatibility)
 export const REACT_NATIVE_RULES = `## React Native Best Practices
@@ -297,7 +307,7 @@ export function getPromptForContext(context: 'navigation' | 'styling' | 'compone
 }
 
 // Export individual modules for selective use
-export * from './expo-sdk54';
+export * from './expo-sdk';
 export * from './navigation';
 export * from './styling';
 export * from './components';
@@ -132,6 +132,7 @@ function HomeScreen() {
 \`\`\`tsx
 // app/details/[id].tsx
 import { useLocalSearchParams } from 'expo-router';
+import { View, Text } from 'react-native';
 
 export default function DetailsScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
@@ -186,7 +187,9 @@ export default function RootLayout() {
 ### Setting Screen Options Dynamically
 \`\`\`tsx
 // app/details/[id].tsx
+import { useLocalSearchParams } from 'expo-router';
 import { Stack } from 'expo-router/stack';
+import { ScrollView } from 'react-native';
 
 export default function DetailsScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
@@ -225,7 +228,9 @@ export const MODALS_AND_SHEETS = `## Modals and Sheets
 \`\`\`tsx
 // In _layout.tsx
 <Stack.Screen name="modal" options={{ presentation: 'modal' }} />
+\`\`\`
 
+\`\`\`tsx
 // app/modal.tsx
 import { useRouter } from 'expo-router';
 import { View, Text, Pressable, StyleSheet } from 'react-native';
@@ -233,6 +238,11 @@ import { View, Text, Pressable, StyleSheet } from 'react-native';
 export default function ModalScreen() {
   const router = useRouter();
 
+  const handleSave = () => {
+    // Save, then close the modal
+    router.back();
+  };
+
   return (
     <View style={styles.container}>
       <View style={styles.header}>
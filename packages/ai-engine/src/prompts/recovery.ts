@@ -0,0 +1,70 @@
+/**
+ * Recovery prompts used by the agent loops when the model stalls, the
+ * context has been compressed, or verification fails.
+ */
+
+// ── Helper: build a continuation prompt when the model stops early ──────
+
+export function buildContinuationPrompt(remainingFiles: string[]): string {
+  return [
+    `CRITICAL: You have NOT finished writing all files yet. The following ${remainingFiles.length} file(s) from the plan have NOT been written:`,
+    '',
+    ...remainingFiles.map((f) => `- ${f}`),
+    '',
+    'You MUST call write_file for 3-5 of these files RIGHT NOW.',
+    'Do NOT output any text. Do NOT explain. Do NOT apologize. ONLY call write_file.',
+    'If you do not call write_file, the build will fail and the user will see an incomplete app.',
+  ].join('\n');
+}
+
+/**
+ * Build a compressed summary for context compression.
+ * Includes the original user request + plan + what's been written + what remains,
+ * so the fresh chat session has enough context to continue generating files.
+ */
+export function buildCompressedContext(
+  writtenFiles: Set<string>,
+  planData: { appName: string; appType?: string; features?: string[]; fileTree: string[]; dependencies?: string[] } | null,
+  remainingFiles: string[],
+  originalPrompt: string,
+): string {
+  const written = Array.from(writtenFiles);
+  return [
+    `=== CONTINUATION SESSION ===`,
+    `You are continuing to build an app. The plan was already created and some files have been written.`,
+    '',
+    `## Original User Request`,
+    originalPrompt.length > 500 ? originalPrompt.slice(0, 500) + '...' : originalPrompt,
+    '',
+    planData ? `## Plan` : '',
+    planData ? `App: ${planData.appName} (${planData.appType || 'general'})` : '',
+    planData?.features?.length ? `Features: ${planData.features.join(', ')}` : '',
+    planData?.dependencies?.length ? `Dependencies: ${planData.dependencies.join(', ')}` : '',
+    planData ? `Total files in plan: ${planData.fileTree.length}` : '',
+    '',
+    `## Already Written (${written.length} files — do NOT rewrite these)`,
+    ...written.map((f) => `- ${f}`),
+    '',
+    `## Remaining Files (${remainingFiles.length} — you MUST write these)`,
+    ...remainingFiles.map((f) => `- ${f}`),
+    '',
+    `=== END CONTEXT ===`,
+    '',
+    `IMPORTANT: Call write_file immediately for 3-5 of the remaining files. Do NOT output text — only call write_file.`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+export function buildErrorFixPrompt(errors: string[]): string {
+  return [
+    `VERIFICATION FAILED. The code you generated has the following ${errors.length} errors:`,
+    '',
+    ...errors.slice(0, 10).map((e) => `- ${e}`),
+    errors.length > 10 ? `- ...and ${errors.length - 10} more errors.` : '',
+    '',
+    'You MUST fix these errors before calling complete.',
+    'Call write_file to overwrite the files containing these errors with the correct code.',
+    'Do NOT stop or explain — just call write_file immediately to fix the issues.',
+  ].join('\n');
+}
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { StreamChunk } from '../types';
+import { ClaudeProvider } from './claude';
+
+/** Captures Anthropic API requests and answers them with `responses` in order */
+function stubFetch(responses: Response[]) {
+  const requests: Array<{ url: string; headers: Headers; body: Record<string, unknown> }> = [];
+  vi.stubGlobal('fetch', vi.fn(async (input: string | URL | Request, init?: RequestInit) => {
+    requests.push({
+      url: String(input instanceof Request ? input.url : input),
+      headers: new Headers(init?.headers),
+      body: JSON.parse(String(init?.body)),
+    });
+    const response = responses.shift();
+    if (!response) throw new Error('Unexpected request');
+    return response;
+  }));
+  return requests;
+}
+
+function message(content: unknown[], stopReason: string): Response {
+  return Response.json({
+    id: 'msg_1',
+    type: 'message',
+    role: 'assistant',
+    model: 'claude-sonnet-4-20250514',
+    content,
+    stop_reason: stopReason,
+    stop_sequence: null,
+    usage: { input_tokens: 100, output_tokens: 20 },
+  });
+}
+
+function eventStream(events: Record<string, unknown>[]): Response {
+  const body = events.map((event) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join('');
+  return new Response(body, { headers: { 'content-type': 'text/event-stream' } });
+}
+
+const FILE = { path: 'app/index.tsx', content: 'export default function Home() { return null; }\n' };
+
+describe('ClaudeProvider', () => {
+  beforeEach(() => {
+    // The SDK prefers a base URL from the environment over api.anthropic.com
+    vi.stubEnv('ANTHROPIC_BASE_URL', undefined);
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('calls the Anthropic Messages API with the key', async () => {
+    const requests = stubFetch([
+      message([{ type: 'text', text: 'Writing the screen.' }, { type: 'tool_use', id: 'toolu_1', name: 'write_file', input: FILE }], 'tool_use'),
+      message([{ type: 'text', text: ' Done.' }], 'end_turn'),
+    ]);
+
+    const result = await new ClaudeProvider('sk-ant-test').generateCode({ prompt: 'A home screen' });
+
+    expect(requests.map((request) => request.url)).toEqual([
+      'https://api.anthropic.com/v1/messages',
+      'https://api.anthropic.com/v1/messages',
+    ]);
+    expect(requests[0].headers.get('x-api-key')).toBe('sk-ant-test');
+    expect(requests[0].body.model).toBe('claude-sonnet-4-20250514');
+    // The tool result goes back in the next turn
+    expect(requests[1].body.messages).toEqual([
+      expect.objectContaining({ role: 'user' }),
+      expect.objectContaining({ role: 'assistant' }),
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'File written successfully', is_error: false }] },
+    ]);
+
+    expect(result).toEqual({
+      text: 'Writing the screen. Done.',
+      files: [{ ...FILE, language: 'typescript' }],
+      usage: { inputTokens: 200, outputTokens: 40 },
+    });
+  });
+
+  it('streams text and written files', async () => {
+    const input = JSON.stringify(FILE);
+    stubFetch([eventStream([
+      { type: 'message_start', message: { id: 'msg_1', type: 'message', role: 'assistant', model: 'claude-sonnet-4-20250514', content: [], stop_reason: null, usage: { input_tokens: 100, output_tokens: 1 } } },
+      { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Writing.' } },
+      { type: 'content_block_stop', index: 0 },
+      { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_1', name: 'write_file', input: {} } },
+      { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: input.slice(0, 20) } },
+      { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: input.slice(20) } },
+      { type: 'content_block_stop', index: 1 },
+      { type: 'message_delta', delta: { stop_reason: 'tool_use', stop_sequence: null }, usage: { output_tokens: 30 } },
+      { type: 'message_stop' },
+    ])]);
+
+    const chunks: StreamChunk[] = [];
+    for await (const chunk of new ClaudeProvider('sk-ant-test').streamCode({ prompt: 'A home screen' })) chunks.push(chunk);
+
+    expect(chunks).toEqual([
+      { type: 'text', content: 'Writing.' },
+      { type: 'file', file: { ...FILE, language: 'typescript' } },
+      { type: 'done', usage: { inputTokens: 100, outputTokens: 30 } },
+    ]);
+  });
+});
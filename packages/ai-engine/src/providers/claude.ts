@@ -1,43 +1,64 @@
-import type { 
-  AIProvider, 
-  GenerateParams, 
-  GenerateResult, 
+import Anthropic from '@anthropic-ai/sdk';
+import type {
+  AIProvider,
+  GenerateParams,
+  GenerateResult,
   StreamChunk,
   ConversationMessage,
   ImageAttachment,
+  ParsedFile,
 } from '../types';
 import { getLanguageFromPath } from '../tools';
 import { FULL_SYSTEM_PROMPT } from '../prompts';
-
-const WRITE_FILE_TOOL = {
-  type: 'function',
-  function: {
-    name: 'write_file',
-    description: 'Write or create a file in the project. Always provide COMPLETE file content.',
-    parameters: {
-      type: 'object',
-      properties: {
-        path: { type: 'string', description: 'File path relative to project root' },
-        content: { type: 'string', description: 'Complete file content' },
-      },
-      required: ['path', 'content'],
+import { ANTHROPIC_MODEL } from '../models/anthropic';
+
+// Maximum tool-call rounds for one non-streaming generation
+const MAX_ROUNDS = 10;
+
+const WRITE_FILE_TOOL: Anthropic.Tool = {
+  name: 'write_file',
+  description: 'Write or create a file in the project. Always provide COMPLETE file content.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      path: { type: 'string', description: 'File path relative to project root' },
+      content: { type: 'string', description: 'Complete file content' },
     },
+    required: ['path', 'content'],
   },
 };
 
+function toParsedFile(input: unknown): ParsedFile | null {
+  const { path, content } = (input ?? {}) as Record<string, unknown>;
+  if (typeof path !== 'string' || typeof content !== 'string') return null;
+  return { path: path.trim(), content, language: getLanguageFromPath(path) };
+}
+
+function parseToolInput(json: string): unknown {
+  try {
+    return JSON.parse(json || '{}');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Single-shot code generation with Claude through the Anthropic Messages API
+ * (the same API and model as AnthropicAgentModel), with files written
+ * through a `write_file` tool.
+ */
 export class ClaudeProvider implements AIProvider {
   name = 'claude';
-  displayName = 'OpenRouter (Gemini)';
-  
-  private apiKey: string;
-  private defaultModel: string;
-  private baseUrl = 'https://openrouter.ai/api/v1';
-  
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
-    this.defaultModel = process.env.AI_MODEL || 'google/gemini-2.0-flash-001';
+  displayName = 'Claude Sonnet 4';
+
+  private client: Anthropic;
+  private model: string;
+
+  constructor(apiKey: string, model: string = ANTHROPIC_MODEL) {
+    this.client = new Anthropic({ apiKey });
+    this.model = model;
   }
-  
+
   async generateCode(params: GenerateParams): Promise<GenerateResult> {
     const {
       prompt,
@@ -46,69 +67,50 @@ export class ClaudeProvider implements AIProvider {
       conversationHistory = [],
       maxTokens = 16384,
       images = [],
+      signal,
     } = params;
-    
-    const model = (params as any).model || this.defaultModel;
-    const fullSystemPrompt = systemPrompt || FULL_SYSTEM_PROMPT;
-    let messages = this.buildMessages(prompt, conversationHistory, currentFiles, images);
-    
+
+    const messages = this.buildMessages(prompt, conversationHistory, currentFiles, images);
     let fullText = '';
-    const files: Array<{ path: string; content: string; language: string }> = [];
+    const files: ParsedFile[] = [];
     let inputTokens = 0;
     let outputTokens = 0;
-    
-    for (let round = 0; round < 10; round++) {
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': 'https://rork.io', 
-        },
-        body: JSON.stringify({
-          model,
-          messages: [{ role: 'system', content: fullSystemPrompt }, ...messages],
-          tools: [WRITE_FILE_TOOL],
-          max_tokens: maxTokens,
-        }),
-      });
-
-      const data = await response.json();
-      if (data.error) throw new Error(`OpenRouter Error: ${data.error.message}`);
-
-      const message = data.choices[0].message;
-      inputTokens += data.usage?.prompt_tokens || 0;
-      outputTokens += data.usage?.completion_tokens || 0;
-
-      if (message.content) fullText += message.content;
-
-      if (message.tool_calls) {
-        messages.push(message as any);
-        for (const toolCall of message.tool_calls) {
-          if (toolCall.function.name === 'write_file') {
-            const input = JSON.parse(toolCall.function.arguments);
-            files.push({
-              path: input.path.trim(),
-              content: input.content,
-              language: getLanguageFromPath(input.path),
-            });
-
-            messages.push({
-              role: 'tool',
-              tool_call_id: toolCall.id,
-              name: 'write_file',
-              content: 'File written successfully',
-            } as any);
-          }
+
+    for (let round = 0; round < MAX_ROUNDS; round++) {
+      const response = await this.client.messages.create({
+        model: this.model,
+        max_tokens: maxTokens,
+        system: systemPrompt || FULL_SYSTEM_PROMPT,
+        tools: [WRITE_FILE_TOOL],
+        messages,
+      }, { signal });
+
+      inputTokens += response.usage.input_tokens;
+      outputTokens += response.usage.output_tokens;
+
+      const results: Anthropic.ToolResultBlockParam[] = [];
+      for (const block of response.content) {
+        if (block.type === 'text') {
+          fullText += block.text;
+        } else if (block.type === 'tool_use') {
+          const file = block.name === 'write_file' ? toParsedFile(block.input) : null;
+          if (file) files.push(file);
+          results.push({
+            type: 'tool_result',
+            tool_use_id: block.id,
+            content: file ? 'File written successfully' : `Error: invalid ${block.name} call`,
+            is_error: !file,
+          });
         }
-      } else {
-        break; 
       }
+      if (results.length === 0 || response.stop_reason !== 'tool_use') break;
+
+      messages.push({ role: 'assistant', content: response.content }, { role: 'user', content: results });
     }
-    
+
     return { text: fullText, files, usage: { inputTokens, outputTokens } };
   }
-  
+
   async *streamCode(params: GenerateParams): AsyncGenerator<StreamChunk> {
     const {
       prompt,
@@ -117,82 +119,63 @@ export class ClaudeProvider implements AIProvider {
       conversationHistory = [],
       maxTokens = 16384,
       images = [],
+      signal,
     } = params;
-    
-    const model = (params as any).model || this.defaultModel;
-    const fullSystemPrompt = systemPrompt || FULL_SYSTEM_PROMPT;
+
     const messages = this.buildMessages(prompt, conversationHistory, currentFiles, images);
-    
+    let inputTokens = 0;
+    let outputTokens = 0;
+
     try {
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': 'https://rork.io',
-        },
-        body: JSON.stringify({
-          model,
-          messages: [{ role: 'system', content: fullSystemPrompt }, ...messages],
-          tools: [WRITE_FILE_TOOL],
-          max_tokens: maxTokens,
-          stream: true,
-        }),
-      });
-
-      if (!response.body) return;
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let toolArguments = "";
-      let isCollectingTool = false;
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n').filter(line => line.trim() !== '');
-
-        for (const line of lines) {
-          const cleanLine = line.replace(/^data: /, '').trim();
-          if (cleanLine === '[DONE]' || !cleanLine) continue;
-          
-          try {
-            const json = JSON.parse(cleanLine);
-            const delta = json.choices[0].delta;
-
-            if (delta?.content) {
-              yield { type: 'text', content: delta.content };
-            }
-
-            if (delta?.tool_calls) {
-              isCollectingTool = true;
-              toolArguments += delta.tool_calls[0].function.arguments || "";
-            }
-
-            if (json.choices[0].finish_reason === 'tool_calls') {
-              const input = JSON.parse(toolArguments);
-              yield {
-                type: 'file',
-                file: {
-                  path: input.path.trim(),
-                  content: input.content,
-                  language: getLanguageFromPath(input.path),
-                },
-              };
-              isCollectingTool = false;
-              toolArguments = "";
-            }
-          } catch (e) { }
+      const stream = await this.client.messages.create({
+        model: this.model,
+        max_tokens: maxTokens,
+        system: systemPrompt || FULL_SYSTEM_PROMPT,
+        tools: [WRITE_FILE_TOOL],
+        messages,
+        stream: true,
+      }, { signal });
+
+      // Tool input streams in as JSON fragments, keyed by content block index
+      const toolCalls = new Map<number, { name: string; json: string }>();
+
+      for await (const event of stream) {
+        if (event.type === 'message_start') {
+          inputTokens = event.message.usage.input_tokens;
+        } else if (event.type === 'message_delta') {
+          outputTokens = event.usage.output_tokens;
+        } else if (event.type === 'content_block_start' && event.content_block.type === 'tool_use') {
+          toolCalls.set(event.index, { name: event.content_block.name, json: '' });
+        } else if (event.type === 'content_block_delta') {
+          if (event.delta.type === 'text_delta') {
+            yield { type: 'text', content: event.delta.text };
+          } else if (event.delta.type === 'input_json_delta') {
+            const call = toolCalls.get(event.index);
+            if (call) call.json += event.delta.partial_json;
+          }
+        } else if (event.type === 'content_block_stop') {
+          const call = toolCalls.get(event.index);
+          const file = call?.name === 'write_file' ? toParsedFile(parseToolInput(call.json)) : null;
+          if (file) yield { type: 'file', file };
+          toolCalls.delete(event.index);
         }
       }
-      yield { type: 'done', usage: { inputTokens: 0, outputTokens: 0 } };
+      yield { type: 'done', usage: { inputTokens, outputTokens } };
     } catch (error) {
+      if (signal?.aborted) {
+        yield { type: 'cancelled' };
+        return;
+      }
       yield { type: 'error', error: error instanceof Error ? error.message : 'Unknown error' };
     }
   }
 
-  private buildMessages(prompt: string, history: ConversationMessage[], files: any, images: ImageAttachment[]) {
+  private buildMessages(
+    prompt: string,
+    history: ConversationMessage[],
+    files: Record<string, string> | undefined,
+    images: ImageAttachment[]
+  ): Anthropic.MessageParam[] {
     let textContent = prompt;
     if (files && Object.keys(files).length > 0) {
       const fileContext = Object.entries(files)
@@ -201,17 +184,17 @@ export class ClaudeProvider implements AIProvider {
       textContent = `Current project files:\n${fileContext}\n\nUser request: ${prompt}`;
     }
 
-    const userContent: any[] = [{ type: 'text', text: textContent }];
-    images.forEach(img => {
-      userContent.push({
-        type: 'image_url',
-        image_url: { url: `data:${img.mediaType};base64,${img.data}` }
-      });
-    });
+    const userContent: Anthropic.ContentBlockParam[] = [
+      ...images.map((img): Anthropic.ImageBlockParam => ({
+        type: 'image',
+        source: { type: 'base64', media_type: img.mediaType, data: img.data },
+      })),
+      { type: 'text', text: textContent },
+    ];
 
     return [
-      ...history.map(msg => ({ role: msg.role, content: msg.content })),
-      { role: 'user', content: userContent }
-    ] as any[];
+      ...history.map((msg): Anthropic.MessageParam => ({ role: msg.role, content: msg.content })),
+      { role: 'user', content: userContent },
+    ];
   }
 }
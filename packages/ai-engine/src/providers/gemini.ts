@@ -7,7 +7,11 @@ import type {
   ConversationMessage 
 } from '../types';
 import { getLanguageFromPath, runChecks } from '../tools';
+import { fixProject } from '../lint';
+import { MAX_API_RETRIES, API_RETRY_DELAY_MS, isRetryableError, sleep } from '../models/retry';
+import { getExpoSdk } from '@rork/shared';
 import { FULL_SYSTEM_PROMPT } from '../prompts';
+import { buildContinuationPrompt, buildCompressedContext, buildErrorFixPrompt } from '../prompts/recovery';
 
 const GEMINI_MODEL = 'gemini-flash-latest';
 
@@ -23,12 +27,6 @@ const MAX_CONSECUTIVE_EMPTY = 2;
 // Total empty responses across all session resets before giving up
 const MAX_TOTAL_EMPTY = 8;
 
-// Max retries for transient API errors (timeout, 503, rate limit)
-const MAX_API_RETRIES = 2;
-
-// Delay between API retries in ms
-const API_RETRY_DELAY_MS = 3000;
-
 // ── Tool Declarations ──────────────────────────────────────────────────────
 
 const CREATE_PLAN_DECLARATION = {
@@ -65,7 +63,7 @@ const CREATE_PLAN_DECLARATION = {
       dependencies: {
         type: Type.ARRAY,
         items: { type: Type.STRING },
-        description: 'npm packages required (only Expo Snack SDK 54 compatible)',
+        description: `npm packages required (only Expo Snack SDK ${getExpoSdk().major} compatible)`,
       },
       plan_steps: {
         type: Type.ARRAY,
@@ -128,93 +126,6 @@ const ALL_TOOLS = [
   { functionDeclarations: [CREATE_PLAN_DECLARATION, WRITE_FILE_DECLARATION, COMPLETE_DECLARATION] },
 ];
 
-// ── Helper: build a continuation prompt when the model stops early ──────
-
-function buildContinuationPrompt(remainingFiles: string[]): string {
-  return [
-    `CRITICAL: You have NOT finished writing all files yet. The following ${remainingFiles.length} file(s) from the plan have NOT been written:`,
-    '',
-    ...remainingFiles.map((f) => `- ${f}`),
-    '',
-    'You MUST call write_file for 3-5 of these files RIGHT NOW.',
-    'Do NOT output any text. Do NOT explain. Do NOT apologize. ONLY call write_file.',
-    'If you do not call write_file, the build will fail and the user will see an incomplete app.',
-  ].join('\n');
-}
-
-/**
- * Build a compressed summary for context compression.
- * Includes the original user request + plan + what's been written + what remains,
- * so the fresh chat session has enough context to continue generating files.
- */
-function buildCompressedContext(
-  writtenFiles: Set<string>,
-  planData: { appName: string; appType?: string; features?: string[]; fileTree: string[]; dependencies?: string[] } | null,
-  remainingFiles: string[],
-  originalPrompt: string,
-): string {
-  const written = Array.from(writtenFiles);
-  return [
-    `=== CONTINUATION SESSION ===`,
-    `You are continuing to build an app. The plan was already created and some files have been written.`,
-    '',
-    `## Original User Request`,
-    originalPrompt.length > 500 ? originalPrompt.slice(0, 500) + '...' : originalPrompt,
-    '',
-    planData ? `## Plan` : '',
-    planData ? `App: ${planData.appName} (${planData.appType || 'general'})` : '',
-    planData?.features?.length ? `Features: ${planData.features.join(', ')}` : '',
-    planData?.dependencies?.length ? `Dependencies: ${planData.dependencies.join(', ')}` : '',
-    planData ? `Total files in plan: ${planData.fileTree.length}` : '',
-    '',
-    `## Already Written (${written.length} files — do NOT rewrite these)`,
-    ...written.map((f) => `- ${f}`),
-    '',
-    `## Remaining Files (${remainingFiles.length} — you MUST write these)`,
-    ...remainingFiles.map((f) => `- ${f}`),
-    '',
-    `=== END CONTEXT ===`,
-    '',
-    `IMPORTANT: Call write_file immediately for 3-5 of the remaining files. Do NOT output text — only call write_file.`,
-  ]
-    .filter(Boolean)
-    .join('\n');
-}
-
-/** Check if an error is transient and should be retried */
-function isRetryableError(error: unknown): boolean {
-  if (!(error instanceof Error)) return false;
-  const msg = error.message.toLowerCase();
-  return (
-    msg.includes('timeout') ||
-    msg.includes('503') ||
-    msg.includes('429') ||
-    msg.includes('rate limit') ||
-    msg.includes('resource exhausted') ||
-    msg.includes('unavailable') ||
-    msg.includes('internal error') ||
-    msg.includes('deadline exceeded')
-  );
-}
-
-/** Sleep for a given number of milliseconds */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-function buildErrorFixPrompt(errors: string[]): string {
-  return [
-    `VERIFICATION FAILED. The code you generated has the following ${errors.length} errors:`,
-    '',
-    ...errors.slice(0, 10).map((e) => `- ${e}`),
-    errors.length > 10 ? `- ...and ${errors.length - 10} more errors.` : '',
-    '',
-    'You MUST fix these errors before calling complete.',
-    'Call write_file to overwrite the files containing these errors with the correct code.',
-    'Do NOT stop or explain — just call write_file immediately to fix the issues.',
-  ].join('\n');
-}
-
 // ── GeminiProvider ──────────────────────────────────────────────────────
 
 export class GeminiProvider implements AIProvider {
@@ -253,6 +164,7 @@ export class GeminiProvider implements AIProvider {
    * - Retryable API errors: retries transient errors (timeout, 503, rate limit)
    *   up to MAX_API_RETRIES times with API_RETRY_DELAY_MS between
    * - Safety cap at MAX_API_CALLS to avoid runaway costs
+   * - params.signal cancels the loop and the in-flight request (yields 'cancelled')
    */
   async *streamCode(params: GenerateParams): AsyncGenerator<StreamChunk> {
     const {
@@ -262,6 +174,8 @@ export class GeminiProvider implements AIProvider {
       conversationHistory = [],
       maxTokens = 65536,
       agentMode = 'build',
+      lintRules,
+      signal,
     } = params;
 
     let fullSystemPrompt = systemPrompt || FULL_SYSTEM_PROMPT;
@@ -317,13 +231,16 @@ export class GeminiProvider implements AIProvider {
       let lastError: unknown;
       for (let attempt = 0; attempt <= MAX_API_RETRIES; attempt++) {
         try {
-          const resp = await chat.sendMessage(message);
+          const resp = await chat.sendMessage({
+            ...message,
+            config: { ...message.config, abortSignal: signal },
+          });
           return resp;
         } catch (err) {
           lastError = err;
-          if (attempt < MAX_API_RETRIES && isRetryableError(err)) {
+          if (attempt < MAX_API_RETRIES && !signal?.aborted && isRetryableError(err)) {
             console.log(`[gemini] Retryable error on attempt ${attempt + 1}/${MAX_API_RETRIES + 1}: ${err instanceof Error ? err.message : err}`);
-            await sleep(API_RETRY_DELAY_MS);
+            await sleep(API_RETRY_DELAY_MS, signal);
           } else {
             throw err;
           }
@@ -372,7 +289,7 @@ export class GeminiProvider implements AIProvider {
       apiCallCount++;
 
       // ── Main agentic loop ──
-      while (!isComplete && apiCallCount < MAX_API_CALLS) {
+      while (!isComplete && apiCallCount < MAX_API_CALLS && !signal?.aborted) {
         console.log(`[gemini] Loop iteration: apiCalls=${apiCallCount}, written=${writtenFiles.size}/${planFileTree.length}, functionCalls=${response.functionCalls?.length ?? 0}`);
 
         // Stream text incrementally (not buffered until loop end)
@@ -577,7 +494,17 @@ export class GeminiProvider implements AIProvider {
         if (agentMode === 'build' && planFileTree.length > 0) {
           const remainingFiles = planFileTree.filter((f) => !writtenFiles.has(f));
           if (remainingFiles.length === 0 && !isComplete) {
-            const checkResult = runChecks(generatedCodeContext, ['typecheck', 'lint', 'build']);
+            // Apply lint autofixes before verifying so the model only sees what it must fix itself
+            const fixed = fixProject(generatedCodeContext, { rules: lintRules });
+            for (const [filePath, content] of Object.entries(fixed)) {
+              generatedCodeContext[filePath] = content;
+              yield {
+                type: 'file',
+                file: { path: filePath, content, language: getLanguageFromPath(filePath) },
+              };
+            }
+
+            const checkResult = runChecks(generatedCodeContext, ['typecheck', 'lint', 'build', 'imports', 'routes'], { lintRules });
             
             if (!checkResult.success && checkResult.error) {
               const errors = checkResult.error.split('\n');
@@ -610,6 +537,11 @@ export class GeminiProvider implements AIProvider {
 
       console.log(`[gemini] Finished. apiCalls=${apiCallCount}, written=${writtenFiles.size}/${planFileTree.length}, complete=${isComplete}`);
 
+      if (signal?.aborted) {
+        yield { type: 'cancelled' };
+        return;
+      }
+
       // Usage from last response
       const inputTokens =
         response.usageMetadata?.promptTokenCount ||
@@ -620,6 +552,11 @@ export class GeminiProvider implements AIProvider {
 
       yield { type: 'done', usage: { inputTokens, outputTokens } };
     } catch (error) {
+      if (signal?.aborted) {
+        console.log(`[gemini] Cancelled after ${apiCallCount} API calls, ${writtenFiles.size} files written`);
+        yield { type: 'cancelled' };
+        return;
+      }
       console.error(`[gemini] Fatal error after ${apiCallCount} API calls, ${writtenFiles.size} files written:`, error);
       yield {
         type: 'error',
@@ -1,18 +1,23 @@
 import { ClaudeProvider } from './claude';
 import { GeminiProvider } from './gemini';
-import type { AIProvider } from '../types';
+import { OpenAICompatibleProvider } from './openai-compatible';
+import type { AIProvider, OpenAICompatibleConfig } from '../types';
 
-export type AIProviderType = 'claude' | 'gemini';
+export type AIProviderType = 'claude' | 'gemini' | 'openai-compatible';
 
 export function createAIProvider(
   type: AIProviderType,
-  apiKey: string
+  apiKey: string,
+  config?: OpenAICompatibleConfig
 ): AIProvider {
   switch (type) {
     case 'claude':
       return new ClaudeProvider(apiKey);
     case 'gemini':
       return new GeminiProvider(apiKey);
+    case 'openai-compatible':
+      if (!config) throw new Error('OpenAI-compatible provider needs a base URL and model');
+      return new OpenAICompatibleProvider(apiKey, config);
     default:
       throw new Error(`Unknown AI provider type: ${type}`);
   }
@@ -20,3 +25,5 @@ export function createAIProvider(
 
 export { ClaudeProvider } from './claude';
 export { GeminiProvider } from './gemini';
+export { OpenAICompatibleProvider } from './openai-compatible';
+export { OpenRouterProvider, openRouterConfig, OPENROUTER_BASE_URL, OPENROUTER_DEFAULT_MODEL } from './openrouter';
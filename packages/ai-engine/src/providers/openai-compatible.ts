@@ -0,0 +1,237 @@
+import type {
+  AIProvider,
+  GenerateParams,
+  GenerateResult,
+  StreamChunk,
+  ConversationMessage,
+  ImageAttachment,
+  OpenAICompatibleConfig,
+  ParsedFile,
+} from '../types';
+import { getLanguageFromPath } from '../tools';
+import { FULL_SYSTEM_PROMPT } from '../prompts';
+import {
+  fetchChatCompletion,
+  parseToolArguments,
+  type ChatCompletionMessage,
+  type ChatCompletionResponse,
+} from '../models/openai-compatible';
+
+// Maximum tool-call rounds for one non-streaming generation
+const MAX_ROUNDS = 10;
+
+const WRITE_FILE_TOOL = {
+  type: 'function',
+  function: {
+    name: 'write_file',
+    description: 'Write or create a file in the project. Always provide COMPLETE file content.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'File path relative to project root' },
+        content: { type: 'string', description: 'Complete file content' },
+      },
+      required: ['path', 'content'],
+    },
+  },
+};
+
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{ index?: number; id?: string; function?: { name?: string; arguments?: string } }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+  error?: { message?: string };
+}
+
+function toParsedFile(args: string | undefined): ParsedFile | null {
+  const input = parseToolArguments(args);
+  if (typeof input.path !== 'string' || typeof input.content !== 'string') return null;
+  return { path: input.path.trim(), content: input.content, language: getLanguageFromPath(input.path) };
+}
+
+/**
+ * Single-shot code generation against any OpenAI-compatible endpoint, with
+ * files written through a `write_file` tool.
+ */
+export class OpenAICompatibleProvider implements AIProvider {
+  name = 'openai-compatible';
+  displayName: string;
+
+  private apiKey: string;
+  protected config: OpenAICompatibleConfig;
+
+  constructor(apiKey: string, config: OpenAICompatibleConfig) {
+    this.apiKey = apiKey;
+    this.config = config;
+    this.displayName = config.displayName ?? config.model;
+  }
+
+  async generateCode(params: GenerateParams): Promise<GenerateResult> {
+    const {
+      prompt,
+      systemPrompt,
+      currentFiles,
+      conversationHistory = [],
+      maxTokens = 16384,
+      images = [],
+      signal,
+    } = params;
+
+    const messages = this.buildMessages(prompt, conversationHistory, currentFiles, images);
+    let fullText = '';
+    const files: ParsedFile[] = [];
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    for (let round = 0; round < MAX_ROUNDS; round++) {
+      const response = await fetchChatCompletion(this.config, this.apiKey, {
+        messages: [{ role: 'system', content: systemPrompt || FULL_SYSTEM_PROMPT }, ...messages],
+        tools: [WRITE_FILE_TOOL],
+        max_tokens: maxTokens,
+      }, signal);
+
+      const data = (await response.json()) as ChatCompletionResponse;
+      if (data.error) throw new Error(`${this.displayName} error: ${data.error.message ?? 'unknown error'}`);
+
+      const message = data.choices?.[0]?.message;
+      inputTokens += data.usage?.prompt_tokens ?? 0;
+      outputTokens += data.usage?.completion_tokens ?? 0;
+      if (message?.content) fullText += message.content;
+
+      const toolCalls = message?.tool_calls ?? [];
+      if (toolCalls.length === 0) break;
+
+      messages.push({ role: 'assistant', content: message?.content ?? null, tool_calls: toolCalls });
+      for (const toolCall of toolCalls) {
+        const file = toolCall.function.name === 'write_file' ? toParsedFile(toolCall.function.arguments) : null;
+        if (file) files.push(file);
+        messages.push({
+          role: 'tool',
+          tool_call_id: toolCall.id,
+          content: file ? 'File written successfully' : `Error: invalid ${toolCall.function.name} call`,
+        });
+      }
+    }
+
+    return { text: fullText, files, usage: { inputTokens, outputTokens } };
+  }
+
+  async *streamCode(params: GenerateParams): AsyncGenerator<StreamChunk> {
+    const {
+      prompt,
+      systemPrompt,
+      currentFiles,
+      conversationHistory = [],
+      maxTokens = 16384,
+      images = [],
+      signal,
+    } = params;
+
+    const messages = this.buildMessages(prompt, conversationHistory, currentFiles, images);
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    try {
+      const response = await fetchChatCompletion(this.config, this.apiKey, {
+        messages: [{ role: 'system', content: systemPrompt || FULL_SYSTEM_PROMPT }, ...messages],
+        tools: [WRITE_FILE_TOOL],
+        max_tokens: maxTokens,
+        stream: true,
+      }, signal);
+
+      if (!response.body) throw new Error(`${this.displayName} returned an empty response`);
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      // Tool calls stream in as argument fragments, keyed by index
+      const toolCalls = new Map<number, { name: string; arguments: string }>();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, '').trim();
+          if (!data || data === '[DONE]' || line.startsWith(':')) continue;
+
+          let json: ChatCompletionChunk;
+          try {
+            json = JSON.parse(data) as ChatCompletionChunk;
+          } catch {
+            continue;
+          }
+          if (json.error) throw new Error(`${this.displayName} error: ${json.error.message ?? 'unknown error'}`);
+          if (json.usage) {
+            inputTokens = json.usage.prompt_tokens ?? inputTokens;
+            outputTokens = json.usage.completion_tokens ?? outputTokens;
+          }
+
+          const choice = json.choices?.[0];
+          if (choice?.delta?.content) {
+            yield { type: 'text', content: choice.delta.content };
+          }
+          for (const delta of choice?.delta?.tool_calls ?? []) {
+            const call = toolCalls.get(delta.index ?? 0) ?? { name: '', arguments: '' };
+            call.name += delta.function?.name ?? '';
+            call.arguments += delta.function?.arguments ?? '';
+            toolCalls.set(delta.index ?? 0, call);
+          }
+
+          if (choice?.finish_reason) {
+            for (const call of toolCalls.values()) {
+              const file = call.name === 'write_file' ? toParsedFile(call.arguments) : null;
+              if (file) yield { type: 'file', file };
+            }
+            toolCalls.clear();
+          }
+        }
+      }
+      yield { type: 'done', usage: { inputTokens, outputTokens } };
+    } catch (error) {
+      if (signal?.aborted) {
+        yield { type: 'cancelled' };
+        return;
+      }
+      yield { type: 'error', error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  private buildMessages(
+    prompt: string,
+    history: ConversationMessage[],
+    files: Record<string, string> | undefined,
+    images: ImageAttachment[]
+  ): ChatCompletionMessage[] {
+    let textContent = prompt;
+    if (files && Object.keys(files).length > 0) {
+      const fileContext = Object.entries(files)
+        .map(([path, content]) => `<current_file path="${path}">\n${content}\n</current_file>`)
+        .join('\n\n');
+      textContent = `Current project files:\n${fileContext}\n\nUser request: ${prompt}`;
+    }
+
+    const userContent: Array<Record<string, unknown>> = [{ type: 'text', text: textContent }];
+    images.forEach(img => {
+      userContent.push({
+        type: 'image_url',
+        image_url: { url: `data:${img.mediaType};base64,${img.data}` },
+      });
+    });
+
+    return [
+      ...history.map((msg): ChatCompletionMessage => (
+        msg.role === 'assistant' ? { role: 'assistant', content: msg.content } : { role: 'user', content: msg.content }
+      )),
+      { role: 'user', content: userContent },
+    ];
+  }
+}
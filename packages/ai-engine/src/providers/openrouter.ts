@@ -0,0 +1,25 @@
+import type { OpenAICompatibleConfig } from '../types';
+import { OpenAICompatibleProvider } from './openai-compatible';
+
+export const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+
+export const OPENROUTER_DEFAULT_MODEL = 'google/gemini-2.0-flash-001';
+
+/** Endpoint config for OpenRouter, serving `model` (an OpenRouter model slug) */
+export function openRouterConfig(model: string = OPENROUTER_DEFAULT_MODEL): OpenAICompatibleConfig {
+  return {
+    baseUrl: OPENROUTER_BASE_URL,
+    model,
+    headers: { 'HTTP-Referer': 'https://rork.io' },
+    displayName: `OpenRouter (${model})`,
+  };
+}
+
+/** Single-shot generation through OpenRouter, an OpenAI-compatible endpoint */
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+  name = 'openrouter';
+
+  constructor(apiKey: string, model?: string) {
+    super(apiKey, openRouterConfig(model));
+  }
+}
@@ -0,0 +1,448 @@
+/**
+ * Expo Router route map.
+ *
+ * Derives the route tree from the files under app/ (groups, layouts, dynamic
+ * and catch-all segments, +not-found), reads each layout's navigator and the
+ * screens it declares, and collects the navigation targets in the code
+ * (`<Link href>`, `<Redirect href>`, `router.push/replace/navigate`). The
+ * analysis cross-checks them: screens that name no route, routes a tab
+ * navigator shows by accident, links no route matches, and route files
+ * without a default export — the mistakes that only show up as blank screens.
+ */
+
+import ts from 'typescript';
+import { parseSourceFile } from '../lint';
+
+export interface RouteNode {
+  file: string;
+  kind: 'layout' | 'screen' | 'not-found';
+  /** Name the parent layout's navigator knows the route by ('index', 'post/[id]', '(tabs)'; '' for the root layout) */
+  name: string;
+  /** URL pattern ('/post/[id]'); a layout's is its directory's */
+  pathname: string;
+  /** Layout that renders the route; null at the root */
+  parent: string | null;
+  /** Navigator a layout renders ('Stack', 'Tabs', 'Slot', ...); layouts only */
+  navigator?: string;
+  /** Presented modally by its parent layout */
+  modal: boolean;
+}
+
+/** A `<Stack.Screen name>` (or Tabs/Drawer/NativeTabs.Trigger) in a layout */
+export interface LayoutScreen {
+  layout: string;
+  navigator: string;
+  name: string;
+  line: number;
+  column: number;
+  modal: boolean;
+  /** Tab hidden from the tab bar (`href: null`) */
+  hidden: boolean;
+}
+
+export interface RouteLink {
+  file: string;
+  line: number;
+  column: number;
+  /** The href as written; `${…}` parts kept */
+  href: string;
+  via: 'Link' | 'Redirect' | 'router';
+  /** Route file the href reaches; null when none matches */
+  target: string | null;
+  /** Fully literal (no interpolated segments) */
+  exact: boolean;
+}
+
+export interface RouteMap {
+  routes: RouteNode[];
+  screens: LayoutScreen[];
+  links: RouteLink[];
+}
+
+export type RouteIssueKind = 'dead-link' | 'unmatched-screen' | 'undeclared-tab' | 'missing-default-export';
+
+export interface RouteIssue {
+  kind: RouteIssueKind;
+  severity: 'error' | 'warning';
+  file: string;
+  line: number;
+  column: number;
+  message: string;
+}
+
+export interface RouteReport {
+  map: RouteMap;
+  issues: RouteIssue[];
+}
+
+const ROUTE_FILE = /^app\/.+\.(tsx?|jsx?)$/;
+const SOURCE_FILE = /\.(tsx?|jsx?)$/;
+const PLATFORM_SUFFIX = /\.(native|ios|android|web)$/;
+const NAVIGATORS = ['Stack', 'Tabs', 'Drawer', 'NativeTabs', 'Slot'];
+const TAB_NAVIGATORS = ['Tabs', 'NativeTabs'];
+const MODAL_PRESENTATIONS = ['modal', 'transparentModal', 'fullScreenModal', 'formSheet', 'containedModal'];
+const ROUTER_METHODS = ['push', 'replace', 'navigate', 'dismissTo'];
+/** Placeholder for an interpolated href segment */
+const DYNAMIC = '\u0000';
+
+function dirname(path: string): string {
+  return path.slice(0, path.lastIndexOf('/'));
+}
+
+function isGroup(segment: string): boolean {
+  return /^\(.+\)$/.test(segment);
+}
+
+/** 'app/(tabs)/post/[id].web.tsx' → ['(tabs)', 'post', '[id]'] */
+function routeSegments(file: string): string[] {
+  return file.slice('app/'.length).replace(SOURCE_FILE, '').replace(PLATFORM_SUFFIX, '').split('/');
+}
+
+function toPathname(segments: string[]): string {
+  const visible = segments.filter((segment) => !isGroup(segment) && segment !== 'index' && segment !== '_layout');
+  return `/${visible.join('/')}`;
+}
+
+function position(sourceFile: ts.SourceFile, node: ts.Node): { line: number; column: number } {
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+  return { line: line + 1, column: character + 1 };
+}
+
+function walk(node: ts.Node, visit: (node: ts.Node) => void): void {
+  visit(node);
+  ts.forEachChild(node, (child) => walk(child, visit));
+}
+
+function jsxAttribute(node: ts.JsxOpeningLikeElement, name: string): ts.JsxAttribute | undefined {
+  return node.attributes.properties.find(
+    (attribute): attribute is ts.JsxAttribute => ts.isJsxAttribute(attribute) && attribute.name.getText() === name
+  );
+}
+
+function attributeExpression(attribute: ts.JsxAttribute | undefined): ts.Expression | undefined {
+  const initializer = attribute?.initializer;
+  if (!initializer) return undefined;
+  if (ts.isStringLiteral(initializer)) return initializer;
+  return ts.isJsxExpression(initializer) ? initializer.expression : undefined;
+}
+
+function objectProperty(object: ts.Expression | undefined, name: string): ts.Expression | undefined {
+  if (!object || !ts.isObjectLiteralExpression(object)) return undefined;
+  for (const property of object.properties) {
+    if (ts.isPropertyAssignment(property) && property.name.getText().replace(/['"]/g, '') === name) return property.initializer;
+  }
+  return undefined;
+}
+
+/** Local name → imported name for everything imported from expo-router */
+function expoRouterImports(sourceFile: ts.SourceFile): Map<string, string> {
+  const names = new Map<string, string>();
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) continue;
+    if (!statement.moduleSpecifier.text.startsWith('expo-router')) continue;
+    const bindings = statement.importClause?.namedBindings;
+    if (bindings && ts.isNamedImports(bindings)) {
+      for (const element of bindings.elements) names.set(element.name.text, (element.propertyName ?? element.name).text);
+    }
+  }
+  return names;
+}
+
+function hasDefaultExport(sourceFile: ts.SourceFile): boolean {
+  return sourceFile.statements.some((statement) =>
+    (ts.isExportAssignment(statement) && !statement.isExportEquals)
+    || (ts.isExportDeclaration(statement) && !!statement.exportClause && ts.isNamedExports(statement.exportClause)
+      && statement.exportClause.elements.some((element) => element.name.text === 'default'))
+    || (ts.canHaveModifiers(statement) && (ts.getModifiers(statement) ?? []).some((m) => m.kind === ts.SyntaxKind.DefaultKeyword))
+  );
+}
+
+// ── Hrefs ──
+
+/** An href expression as a pattern: literal text with DYNAMIC for interpolations; null when not static enough */
+function hrefPattern(expression: ts.Expression | undefined): string | null {
+  if (!expression) return null;
+  if (ts.isStringLiteral(expression) || ts.isNoSubstitutionTemplateLiteral(expression)) return expression.text;
+  if (ts.isTemplateExpression(expression)) {
+    return expression.head.text + expression.templateSpans.map((span) => DYNAMIC + span.literal.text).join('');
+  }
+  if (ts.isObjectLiteralExpression(expression)) return hrefPattern(objectProperty(expression, 'pathname'));
+  if (ts.isAsExpression(expression) || ts.isParenthesizedExpression(expression)) return hrefPattern(expression.expression);
+  return null;
+}
+
+function segmentScore(segment: string): number {
+  if (/^\[\[?\.\.\./.test(segment)) return 1;
+  return /^\[.+\]$/.test(segment) ? 2 : 3;
+}
+
+/** Whether `href` (segments, groups removed) reaches the route with `pattern` segments */
+function matchesRoute(href: string[], pattern: string[]): boolean {
+  if (pattern.length === 0) return href.length === 0;
+  const [head, ...rest] = pattern;
+  if (/^\[\[\.\.\..+\]\]$/.test(head)) return true;
+  if (/^\[\.\.\..+\]$/.test(head)) return href.length > 0;
+  if (href.length === 0) return false;
+  const segment = href[0];
+  const matches = /^\[.+\]$/.test(head) || segment === head || segment.includes(DYNAMIC);
+  return matches && matchesRoute(href.slice(1), rest);
+}
+
+/** The route `href` reaches, preferring the most specific; undefined when none does */
+function resolveHref(href: string, routes: RouteNode[]): RouteNode | undefined {
+  const segments = href.split(/[?#]/)[0].split('/').filter((segment) => segment && !isGroup(segment));
+  if (segments[segments.length - 1] === 'index') segments.pop();
+
+  let best: RouteNode | undefined;
+  let bestScore = -1;
+  for (const route of routes) {
+    if (route.kind !== 'screen') continue;
+    const pattern = route.pathname.split('/').filter(Boolean);
+    if (!matchesRoute(segments, pattern)) continue;
+    const score = pattern.reduce((total, segment) => total + segmentScore(segment), 0);
+    if (score > bestScore) {
+      best = route;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function isCheckableHref(href: string): boolean {
+  return href.startsWith('/') && !href.startsWith('//');
+}
+
+// ── Building the map ──
+
+function collectRoutes(files: Record<string, string>): RouteNode[] {
+  const seen = new Set<string>();
+  const routeFiles = Object.keys(files)
+    .filter((path) => ROUTE_FILE.test(path) && !path.endsWith('.d.ts'))
+    // Platform variants are one route: keep the plain file when there is one
+    .sort((a, b) => Number(PLATFORM_SUFFIX.test(a.replace(SOURCE_FILE, ''))) - Number(PLATFORM_SUFFIX.test(b.replace(SOURCE_FILE, ''))) || a.localeCompare(b))
+    .filter((path) => {
+      const key = routeSegments(path).join('/');
+      if (seen.has(key)) return false;
+      seen.add(key);
+      // +html and API routes (name+api.ts) render no screen
+      const last = routeSegments(path).pop()!;
+      return (!last.startsWith('+') || last === '+not-found') && !last.endsWith('+api');
+    });
+
+  const layoutDirs = new Map<string, string>();
+  for (const file of routeFiles) {
+    if (routeSegments(file).pop() === '_layout') layoutDirs.set(dirname(file), file);
+  }
+  const layoutAbove = (dir: string): string | null => {
+    for (let at = dir; at.startsWith('app'); at = dirname(at)) {
+      if (layoutDirs.has(at)) return at;
+      if (at === 'app') break;
+    }
+    return null;
+  };
+
+  return routeFiles.map((file) => {
+    const segments = routeSegments(file);
+    const last = segments[segments.length - 1];
+    const kind = last === '_layout' ? 'layout' : last === '+not-found' ? 'not-found' : 'screen';
+    const ownDir = dirname(file);
+    // A layout belongs to the layout above its directory; other routes to the one in theirs
+    const parentDir = kind === 'layout' ? (ownDir === 'app' ? null : layoutAbove(dirname(ownDir))) : layoutAbove(ownDir);
+    const relativeTo = parentDir ?? 'app';
+    const name = kind === 'layout'
+      ? ownDir.slice(relativeTo.length + 1)
+      : file.slice(relativeTo.length + 1).replace(SOURCE_FILE, '').replace(PLATFORM_SUFFIX, '');
+
+    return {
+      file,
+      kind,
+      name,
+      pathname: toPathname(kind === 'layout' ? segments.slice(0, -1) : segments),
+      parent: parentDir ? layoutDirs.get(parentDir)! : null,
+      modal: false,
+    };
+  });
+}
+
+function collectScreens(layout: RouteNode, sourceFile: ts.SourceFile, screens: LayoutScreen[]): void {
+  walk(sourceFile, (node) => {
+    if (!ts.isJsxOpeningElement(node) && !ts.isJsxSelfClosingElement(node)) return;
+    const tag = node.tagName;
+
+    if (ts.isIdentifier(tag) && NAVIGATORS.includes(tag.text)) {
+      layout.navigator ??= tag.text;
+      return;
+    }
+    if (!ts.isPropertyAccessExpression(tag) || !ts.isIdentifier(tag.expression)) return;
+    if (tag.name.text !== 'Screen' && tag.name.text !== 'Trigger') return;
+
+    const navigator = tag.expression.text;
+    const nameExpression = attributeExpression(jsxAttribute(node, 'name'));
+    if (!nameExpression || !ts.isStringLiteralLike(nameExpression)) return;
+
+    const options = attributeExpression(jsxAttribute(node, 'options'));
+    const presentation = objectProperty(options, 'presentation');
+    const href = objectProperty(options, 'href');
+    layout.navigator ??= navigator;
+    screens.push({
+      layout: layout.file,
+      navigator,
+      name: nameExpression.text,
+      ...position(sourceFile, nameExpression),
+      modal: !!presentation && ts.isStringLiteralLike(presentation) && MODAL_PRESENTATIONS.includes(presentation.text),
+      hidden: href?.kind === ts.SyntaxKind.NullKeyword,
+    });
+  });
+}
+
+function collectLinks(path: string, sourceFile: ts.SourceFile, links: Omit<RouteLink, 'target'>[]): void {
+  const imported = expoRouterImports(sourceFile);
+  const routerNames = new Set([...imported].filter(([, name]) => name === 'router').map(([local]) => local));
+  const importedAs = (local: string) => imported.get(local);
+
+  // const router = useRouter();
+  walk(sourceFile, (node) => {
+    if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer
+      && ts.isCallExpression(node.initializer) && ts.isIdentifier(node.initializer.expression)
+      && importedAs(node.initializer.expression.text) === 'useRouter') {
+      routerNames.add(node.name.text);
+    }
+  });
+
+  const add = (expression: ts.Expression | undefined, via: RouteLink['via']) => {
+    const href = hrefPattern(expression);
+    if (href === null || !expression) return;
+    links.push({
+      file: path,
+      ...position(sourceFile, expression),
+      href: href.replaceAll(DYNAMIC, '${…}'),
+      via,
+      exact: !href.includes(DYNAMIC),
+    });
+  };
+
+  walk(sourceFile, (node) => {
+    if ((ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) && ts.isIdentifier(node.tagName)) {
+      const component = importedAs(node.tagName.text);
+      if (component === 'Link' || component === 'Redirect') add(attributeExpression(jsxAttribute(node, 'href')), component);
+    } else if (
+      ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)
+      && ts.isIdentifier(node.expression.expression) && routerNames.has(node.expression.expression.text)
+      && ROUTER_METHODS.includes(node.expression.name.text)
+    ) {
+      add(node.arguments[0], 'router');
+    }
+  });
+}
+
+/** Derive the route map of `files` (path → content); empty when there is no app/ directory. */
+export function buildRouteMap(files: Record<string, string>): RouteMap {
+  const routes = collectRoutes(files);
+  const screens: LayoutScreen[] = [];
+  const links: Omit<RouteLink, 'target'>[] = [];
+  if (routes.length === 0) return { routes, screens, links: [] };
+
+  for (const route of routes) {
+    if (route.kind === 'layout') collectScreens(route, parseSourceFile(route.file, files[route.file]), screens);
+  }
+  for (const [path, content] of Object.entries(files).sort(([a], [b]) => a.localeCompare(b))) {
+    if (SOURCE_FILE.test(path) && !path.endsWith('.d.ts') && /expo-router/.test(content)) {
+      collectLinks(path, parseSourceFile(path, content), links);
+    }
+  }
+
+  for (const screen of screens) {
+    if (!screen.modal) continue;
+    const route = routes.find((r) => r.parent === screen.layout && r.name === screen.name);
+    if (route) route.modal = true;
+  }
+
+  return {
+    routes,
+    screens,
+    links: links.map((link) => ({
+      ...link,
+      target: isCheckableHref(link.href) ? resolveHref(link.href.replaceAll('${…}', DYNAMIC), routes)?.file ?? null : null,
+    })),
+  };
+}
+
+// ── Analysis ──
+
+function closestName(name: string, candidates: string[]): string | undefined {
+  return candidates.find((candidate) => candidate.replace(/\/index$/, '') === name || candidate.split('/').pop() === name);
+}
+
+/**
+ * Build the route map of `files` and report screens that name no route and
+ * dead links (errors when fully literal), routes a tab navigator shows without
+ * declaring them, and route files without a default export.
+ */
+export function analyzeRoutes(files: Record<string, string>): RouteReport {
+  const map = buildRouteMap(files);
+  const issues: RouteIssue[] = [];
+
+  for (const route of map.routes) {
+    if (!hasDefaultExport(parseSourceFile(route.file, files[route.file]))) {
+      issues.push({
+        kind: 'missing-default-export',
+        severity: 'error',
+        file: route.file,
+        line: 1,
+        column: 1,
+        message: `${route.kind === 'layout' ? 'Layout' : 'Route'} has no default export, so Expo Router renders nothing for ${route.pathname}`,
+      });
+    }
+  }
+
+  for (const layout of map.routes.filter((route) => route.kind === 'layout')) {
+    const children = map.routes.filter((route) => route.parent === layout.file && route.kind !== 'not-found');
+    const childNames = children.map((route) => route.name);
+    const declared = map.screens.filter((screen) => screen.layout === layout.file);
+
+    for (const screen of declared) {
+      if (childNames.includes(screen.name)) continue;
+      const hint = closestName(screen.name, childNames);
+      issues.push({
+        kind: 'unmatched-screen',
+        severity: 'error',
+        file: layout.file,
+        line: screen.line,
+        column: screen.column,
+        message: `${screen.navigator} screen '${screen.name}' matches no route in ${dirname(layout.file)}/${hint ? ` (did you mean '${hint}'?)` : ''}`,
+      });
+    }
+
+    if (layout.navigator && TAB_NAVIGATORS.includes(layout.navigator) && declared.length > 0) {
+      for (const child of children) {
+        if (declared.some((screen) => screen.name === child.name)) continue;
+        issues.push({
+          kind: 'undeclared-tab',
+          severity: 'warning',
+          file: child.file,
+          line: 1,
+          column: 1,
+          message: `'${child.name}' shows up as an extra tab in ${layout.file}; declare it with options={{ href: null }} or move it out of the tab group`,
+        });
+      }
+    }
+  }
+
+  for (const link of map.links) {
+    if (link.target || !isCheckableHref(link.href)) continue;
+    issues.push({
+      kind: 'dead-link',
+      severity: link.exact ? 'error' : 'warning',
+      file: link.file,
+      line: link.line,
+      column: link.column,
+      message: `No route matches '${link.href}'`,
+    });
+  }
+
+  return { map, issues };
+}
+
+export function formatRouteIssue(issue: RouteIssue): string {
+  return `${issue.file}(${issue.line},${issue.column}): ${issue.severity} ${issue.kind}: ${issue.message}`;
+}
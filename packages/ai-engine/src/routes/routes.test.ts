@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeRoutes } from '.';
+
+const screen = (name: string) => `export default function ${name}() {\n  return null;\n}\n`;
+
+function issues(files: Record<string, string>) {
+  return analyzeRoutes(files).issues.map(({ kind, severity, file, line, message }) => ({ kind, severity, file, line, message }));
+}
+
+describe('analyzeRoutes', () => {
+  it('accepts a project whose screens, links and exports line up', () => {
+    expect(issues({
+      'app/_layout.tsx': `import { Stack } from 'expo-router';
+
+export default function RootLayout() {
+  return (
+    <Stack>
+      <Stack.Screen name="(tabs)" />
+      <Stack.Screen name="post/[id]" options={{ presentation: 'modal' }} />
+    </Stack>
+  );
+}
+`,
+      'app/(tabs)/_layout.tsx': `import { Tabs } from 'expo-router';
+
+export default function TabLayout() {
+  return (
+    <Tabs>
+      <Tabs.Screen name="index" />
+      <Tabs.Screen name="settings" />
+    </Tabs>
+  );
+}
+`,
+      'app/(tabs)/index.tsx': `import { Link } from 'expo-router';
+
+export default function Home({ id }: { id: string }) {
+  return <Link href={\`/post/\${id}\`}>Post</Link>;
+}
+`,
+      'app/(tabs)/settings.tsx': screen('Settings'),
+      'app/post/[id].tsx': `import { router } from 'expo-router';
+
+export default function Post() {
+  return <Button onPress={() => router.replace('/settings')} title="Back" />;
+}
+`,
+      'app/+not-found.tsx': screen('NotFound'),
+    })).toEqual([]);
+  });
+
+  it('reports route files and layouts without a default export', () => {
+    expect(issues({
+      'app/_layout.tsx': `import { Stack } from 'expo-router';\n\nexport function RootLayout() {\n  return <Stack />;\n}\n`,
+      'app/index.tsx': screen('Home'),
+      'app/profile.tsx': `export function Profile() {\n  return null;\n}\n`,
+    })).toEqual([
+      { kind: 'missing-default-export', severity: 'error', file: 'app/_layout.tsx', line: 1, message: 'Layout has no default export, so Expo Router renders nothing for /' },
+      { kind: 'missing-default-export', severity: 'error', file: 'app/profile.tsx', line: 1, message: 'Route has no default export, so Expo Router renders nothing for /profile' },
+    ]);
+  });
+
+  it('reports screens that name no route, suggesting a close one', () => {
+    expect(issues({
+      'app/_layout.tsx': `import { Stack } from 'expo-router';
+
+export default function RootLayout() {
+  return (
+    <Stack>
+      <Stack.Screen name="index" />
+      <Stack.Screen name="settings" />
+      <Stack.Screen name="details" />
+    </Stack>
+  );
+}
+`,
+      'app/index.tsx': screen('Home'),
+      'app/settings/index.tsx': screen('Settings'),
+    })).toEqual([
+      { kind: 'unmatched-screen', severity: 'error', file: 'app/_layout.tsx', line: 7, message: "Stack screen 'settings' matches no route in app/ (did you mean 'settings/index'?)" },
+      { kind: 'unmatched-screen', severity: 'error', file: 'app/_layout.tsx', line: 8, message: "Stack screen 'details' matches no route in app/" },
+    ]);
+  });
+
+  it('reports dead links, as warnings when part of the href is interpolated', () => {
+    expect(issues({
+      'app/index.tsx': `import { Link, useRouter } from 'expo-router';
+
+export default function Home({ id }: { id: string }) {
+  const router = useRouter();
+  return (
+    <>
+      <Link href="/profile">Profile</Link>
+      <Link href={{ pathname: '/users/[id]', params: { id } }}>User</Link>
+      <Link href="https://expo.dev">Expo</Link>
+      <Button onPress={() => router.push(\`/orders/\${id}\`)} title="Order" />
+    </>
+  );
+}
+`,
+      'app/users/[id].tsx': screen('User'),
+    })).toEqual([
+      { kind: 'dead-link', severity: 'error', file: 'app/index.tsx', line: 7, message: "No route matches '/profile'" },
+      { kind: 'dead-link', severity: 'warning', file: 'app/index.tsx', line: 10, message: "No route matches '/orders/${…}'" },
+    ]);
+  });
+});
@@ -5,6 +5,12 @@
 
 // Tool definitions and executor for the AI agent
 
+import { checkProjectDependencies } from '@rork/shared';
+import { typecheckProject, formatTypecheckDiagnostic, type TypecheckDiagnostic } from '../typecheck';
+import { lintProject, formatLintFinding, type LintFinding, type LintRuleToggles } from '../lint';
+import { analyzeImportGraph, formatImportIssue, type ImportIssue } from '../graph';
+import { analyzeRoutes, formatRouteIssue, type RouteIssue } from '../routes';
+
 // Tool definitions for Claude tool_use
 export interface ToolDefinition {
   name: string;
@@ -142,13 +148,13 @@ export const AGENT_TOOLS: ToolDefinition[] = [
   },
   {
     name: 'verify_project',
-    description: 'Run verification checks (typecheck/lint/build) and return diagnostics.',
+    description: 'Run verification checks (typecheck/lint/build/imports/routes) and return diagnostics. typecheck runs the TypeScript compiler over the whole project and reports errors as path(line,col). imports reports unresolved imports, missing exports, circular imports and files nothing imports. routes checks Expo Router screen names and Link/router targets against the app/ routes.',
     input_schema: {
       type: 'object',
       properties: {
         checks: {
           type: 'array',
-          description: 'Checks to run in order',
+          description: 'Checks to run in order: typecheck, lint, build, imports, routes',
           items: { type: 'string' },
         },
       },
@@ -173,6 +179,64 @@ export const AGENT_TOOLS: ToolDefinition[] = [
       required: ['path'],
     },
   },
+  {
+    name: 'move_file',
+    description: 'Move or rename a file, keeping its content. Update imports that reference the old path afterwards.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        from: {
+          type: 'string',
+          description: 'Current file path',
+        },
+        to: {
+          type: 'string',
+          description: 'New file path (must not exist yet)',
+        },
+        reason: {
+          type: 'string',
+          description: 'Reason for the move',
+        },
+      },
+      required: ['from', 'to'],
+    },
+  },
+  {
+    name: 'add_dependency',
+    description: 'Add a package to package.json at the version the project\'s Expo SDK pins. Only packages Snack can run are accepted; use this instead of editing package.json by hand.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Package name, e.g. "expo-image" or "zustand"',
+        },
+        reason: {
+          type: 'string',
+          description: 'What the package is for',
+        },
+      },
+      required: ['name'],
+    },
+  },
+  {
+    name: 'remove_dependency',
+    description: 'Remove a package from package.json. Remove its imports first.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Package name to remove',
+        },
+        reason: {
+          type: 'string',
+          description: 'Why the package is no longer needed',
+        },
+      },
+      required: ['name'],
+    },
+  },
   {
     name: 'read_file',
     description: 'Read the current content of a file to understand existing code before modifying',
@@ -203,14 +267,14 @@ export const AGENT_TOOLS: ToolDefinition[] = [
   },
   {
     name: 'run_test',
-    description: 'Run the app in test mode and check for errors. Returns build/runtime errors if any.',
+    description: 'Run the app in test mode and check for errors. Returns build/runtime errors if any. typescript runs a full type-check with file/line/column diagnostics.',
     input_schema: {
       type: 'object',
       properties: {
         check_type: {
           type: 'string',
           description: 'Type of check to run',
-          enum: ['typescript', 'lint', 'build', 'runtime'],
+          enum: ['typescript', 'lint', 'build', 'imports', 'routes', 'runtime'],
         },
       },
       required: ['check_type'],
@@ -272,6 +336,9 @@ export type ToolName =
   | 'search_files'
   | 'verify_project'
   | 'delete_file' 
+  | 'move_file'
+  | 'add_dependency'
+  | 'remove_dependency'
   | 'read_file' 
   | 'list_files'
   | 'run_test' 
@@ -308,7 +375,7 @@ export interface SearchFilesInput {
 }
 
 export interface VerifyProjectInput {
-  checks: Array<'typecheck' | 'lint' | 'build'>;
+  checks: ProjectCheck[];
 }
 
 export interface DeleteFileInput {
@@ -316,6 +383,22 @@ export interface DeleteFileInput {
   reason?: string;
 }
 
+export interface MoveFileInput {
+  from: string;
+  to: string;
+  reason?: string;
+}
+
+export interface AddDependencyInput {
+  name: string;
+  reason?: string;
+}
+
+export interface RemoveDependencyInput {
+  name: string;
+  reason?: string;
+}
+
 export interface ReadFileInput {
   path: string;
 }
@@ -325,7 +408,7 @@ export interface ListFilesInput {
 }
 
 export interface RunTestInput {
-  check_type: 'typescript' | 'lint' | 'build' | 'runtime';
+  check_type: 'typescript' | 'lint' | 'build' | 'imports' | 'routes' | 'runtime';
 }
 
 export interface FixErrorInput {
@@ -347,6 +430,9 @@ export type ToolInput =
   | SearchFilesInput
   | VerifyProjectInput
   | DeleteFileInput 
+  | MoveFileInput
+  | AddDependencyInput
+  | RemoveDependencyInput
   | ReadFileInput 
   | ListFilesInput
   | RunTestInput 
@@ -362,8 +448,13 @@ export interface ToolExecutor {
   writeFile(input: WriteFileInput): Promise<ToolResult>;
   patchFile(input: PatchFileInput): Promise<ToolResult>;
   searchFiles(input: SearchFilesInput): Promise<ToolResult>;
+  /** Check the project; a result's data may carry `fixedFiles: ParsedFile[]`, files the executor autofixed */
   verifyProject(input: VerifyProjectInput): Promise<ToolResult>;
   deleteFile(input: DeleteFileInput): Promise<ToolResult>;
+  moveFile(input: MoveFileInput): Promise<ToolResult>;
+  /** Edit package.json; a successful result's data is `{ file: ParsedFile }` with the new package.json */
+  addDependency(input: AddDependencyInput): Promise<ToolResult>;
+  removeDependency(input: RemoveDependencyInput): Promise<ToolResult>;
   readFile(input: ReadFileInput): Promise<ToolResult>;
   listFiles(input: ListFilesInput): Promise<ToolResult>;
   runTest(input: RunTestInput): Promise<ToolResult>;
@@ -392,6 +483,12 @@ export async function executeTool(
       return executor.verifyProject(input as VerifyProjectInput);
     case 'delete_file':
       return executor.deleteFile(input as DeleteFileInput);
+    case 'move_file':
+      return executor.moveFile(input as MoveFileInput);
+    case 'add_dependency':
+      return executor.addDependency(input as AddDependencyInput);
+    case 'remove_dependency':
+      return executor.removeDependency(input as RemoveDependencyInput);
     case 'read_file':
       return executor.readFile(input as ReadFileInput);
     case 'list_files':
@@ -433,36 +530,87 @@ export function getLanguageFromPath(path: string): string {
   }
 }
 
+/** Checks verify_project and runChecks can run */
+export type ProjectCheck = 'typecheck' | 'lint' | 'build' | 'imports' | 'routes';
+
+export interface RunChecksOptions {
+  /** Per-project lint rule toggles (rule id → enabled). */
+  lintRules?: LintRuleToggles;
+  /** Expo SDK the project targets (default: the current SDK) */
+  sdkVersion?: string;
+}
+
 /**
  * Run verification checks on code
  */
 export function runChecks(
   files: Record<string, string>,
-  checks: Array<'typecheck' | 'lint' | 'build'>
+  checks: ProjectCheck[],
+  options: RunChecksOptions = {}
 ): ToolResult {
   const errors: string[] = [];
   const warnings: string[] = [];
+  let diagnostics: TypecheckDiagnostic[] = [];
+  let lintFindings: LintFinding[] = [];
+  let importIssues: ImportIssue[] = [];
+  let routeIssues: RouteIssue[] = [];
+
+  if (checks.includes('typecheck')) {
+    const result = typecheckProject(files);
+    diagnostics = result.diagnostics;
+    for (const diagnostic of result.diagnostics) {
+      const line = formatTypecheckDiagnostic(diagnostic);
+      if (diagnostic.category === 'error') errors.push(line);
+      else warnings.push(line);
+    }
+    // Diagnostics past the cap are only counted; report each kind with its own severity
+    const shownErrors = result.diagnostics.filter((diagnostic) => diagnostic.category === 'error').length;
+    const hiddenErrors = result.errorCount - shownErrors;
+    const hiddenWarnings = result.warningCount - (result.diagnostics.length - shownErrors);
+    if (hiddenErrors > 0) errors.push(`... and ${hiddenErrors} more TypeScript errors`);
+    if (hiddenWarnings > 0) warnings.push(`... and ${hiddenWarnings} more TypeScript warnings`);
+  }
+
+  if (checks.includes('lint')) {
+    lintFindings = lintProject(files, { rules: options.lintRules, sdkVersion: options.sdkVersion });
+    for (const finding of lintFindings) {
+      (finding.severity === 'error' ? errors : warnings).push(formatLintFinding(finding));
+    }
+  }
+
+  if (checks.includes('imports')) {
+    // An import typecheck already reports as TS2307 is only reported once
+    const missingModules = new Set(diagnostics
+      .filter((diagnostic) => diagnostic.code === 2307)
+      .map((diagnostic) => `${diagnostic.file}:${/'([^']+)'/.exec(diagnostic.message)?.[1]}`));
+    importIssues = analyzeImportGraph(files).issues.filter((issue) =>
+      issue.kind !== 'unresolved-import' || !missingModules.has(`${issue.file}:${issue.specifier}`)
+    );
+    for (const issue of importIssues) {
+      (issue.severity === 'error' ? errors : warnings).push(formatImportIssue(issue));
+    }
+  }
+
+  if (checks.includes('routes')) {
+    routeIssues = analyzeRoutes(files).issues;
+    for (const issue of routeIssues) {
+      (issue.severity === 'error' ? errors : warnings).push(formatRouteIssue(issue));
+    }
+  }
+
+  if (checks.includes('build')) {
+    for (const warning of checkProjectDependencies(files)) {
+      warnings.push(`${warning.kind === 'unused' ? 'package.json' : warning.files[0]}: ${warning.message}`);
+    }
+  }
 
   for (const [path, content] of Object.entries(files)) {
     if (checks.includes('typecheck')) {
-      if ((content.includes('useState') || content.includes('useEffect')) && !content.includes("from 'react'") && !content.includes('from "react"')) {
-        errors.push(`${path}: missing React import for hooks`);
-      }
-
       if (path.endsWith('.tsx') && content.includes('export default') && /:\s*any\b|<any>|as\s+any\b/.test(content)) {
         warnings.push(`${path}: contains any type in exported component`);
       }
     }
 
-    if (checks.includes('lint')) {
-      if (/TODO|FIXME/.test(content)) {
-        warnings.push(`${path}: contains TODO/FIXME markers`);
-      }
-      if (path.endsWith('.tsx') && (content.includes('<div') || content.includes('<span') || content.includes('<p>') || content.includes('<a '))) {
-        errors.push(`${path}: uses web HTML tags (div, span, p, a) which are invalid in React Native code. Use View, Text, etc.`);
-      }
-    }
-
     if (checks.includes('build')) {
       if ((path.endsWith('.tsx') || path.endsWith('.ts')) && !content.includes('export')) {
         warnings.push(`${path}: file has no export`);
@@ -477,13 +625,13 @@ export function runChecks(
     return {
       success: false,
       error: errors.join('\n'),
-      data: { errors, warnings, checks },
+      data: { errors, warnings, checks, diagnostics, lintFindings, importIssues, routeIssues },
     };
   }
 
   return {
     success: true,
     output: `${checks.join(', ')} checks passed`,
-    data: { warnings, checks },
+    data: { warnings, checks, diagnostics, lintFindings, importIssues, routeIssues },
   };
 }
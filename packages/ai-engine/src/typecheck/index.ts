@@ -0,0 +1,227 @@
+/**
+ * In-memory TypeScript checker for generated projects.
+ *
+ * Runs a real TypeScript LanguageService over the project's files (never
+ * touching disk for them) with bundled React Native / Expo Router / expo-*
+ * type stubs, and returns tsc-style diagnostics with file, line and column.
+ */
+
+import ts from 'typescript';
+import { TYPE_STUBS, STUBBED_MODULES } from './stubs';
+
+export interface TypecheckDiagnostic {
+  file: string;
+  line: number;
+  column: number;
+  code: number;
+  message: string;
+  category: 'error' | 'warning';
+}
+
+export interface TypecheckResult {
+  diagnostics: TypecheckDiagnostic[];
+  errorCount: number;
+  warningCount: number;
+  filesChecked: number;
+}
+
+export interface TypecheckOptions {
+  /** Cap on returned diagnostics (counts still reflect the full set). Default 100. */
+  maxDiagnostics?: number;
+}
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx'];
+const UNTYPED_MODULES_FILE = '/__rork_types__/untyped-modules.d.ts';
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  lib: ['lib.es2022.d.ts', 'lib.dom.d.ts'],
+  jsx: ts.JsxEmit.ReactJSX,
+  strict: true,
+  allowJs: true,
+  checkJs: false,
+  resolveJsonModule: true,
+  esModuleInterop: true,
+  allowSyntheticDefaultImports: true,
+  skipLibCheck: true,
+  noEmit: true,
+  isolatedModules: true,
+  types: [],
+  baseUrl: '/',
+  paths: { '@/*': ['./*'] },
+};
+
+// ── Language service (one per process, files swapped per call) ──
+
+let currentFiles = new Map<string, { content: string; version: string }>();
+let service: ts.LanguageService | null = null;
+const libCache = new Map<string, string | undefined>();
+
+function getService(): ts.LanguageService {
+  if (service) return service;
+
+  const defaultLib = ts.getDefaultLibFilePath(COMPILER_OPTIONS);
+  const libDir = defaultLib.slice(0, defaultLib.lastIndexOf('/'));
+
+  const readLib = (fileName: string): string | undefined => {
+    if (!libCache.has(fileName)) {
+      libCache.set(fileName, ts.sys.readFile(fileName));
+    }
+    return libCache.get(fileName);
+  };
+
+  const host: ts.LanguageServiceHost = {
+    getCompilationSettings: () => COMPILER_OPTIONS,
+    getScriptFileNames: () => [...currentFiles.keys()],
+    getScriptVersion: (fileName) => currentFiles.get(fileName)?.version ?? '0',
+    getScriptSnapshot: (fileName) => {
+      const file = currentFiles.get(fileName);
+      if (file) return ts.ScriptSnapshot.fromString(file.content);
+      if (fileName.startsWith(libDir)) {
+        const content = readLib(fileName);
+        return content === undefined ? undefined : ts.ScriptSnapshot.fromString(content);
+      }
+      return undefined;
+    },
+    getCurrentDirectory: () => '/',
+    getDefaultLibFileName: (options) => ts.getDefaultLibFilePath(options),
+    fileExists: (fileName) =>
+      currentFiles.has(fileName) || (fileName.startsWith(libDir) && readLib(fileName) !== undefined),
+    readFile: (fileName) =>
+      currentFiles.get(fileName)?.content ?? (fileName.startsWith(libDir) ? readLib(fileName) : undefined),
+    directoryExists: (dirName) => {
+      if (dirName.startsWith(libDir)) return true;
+      const prefix = dirName.endsWith('/') ? dirName : `${dirName}/`;
+      for (const fileName of currentFiles.keys()) {
+        if (fileName.startsWith(prefix)) return true;
+      }
+      return false;
+    },
+    getDirectories: () => [],
+  };
+
+  service = ts.createLanguageService(host, ts.createDocumentRegistry());
+  return service;
+}
+
+// ── Helpers ──
+
+function toVirtualPath(path: string): string {
+  return `/${path.replace(/^\.?\/+/, '')}`;
+}
+
+function fromVirtualPath(fileName: string): string {
+  return fileName.replace(/^\/+/, '');
+}
+
+function isSourceFile(path: string): boolean {
+  return SOURCE_EXTENSIONS.some((ext) => path.endsWith(ext)) && !path.endsWith('.d.ts');
+}
+
+/** Cheap content hash used as the script version. */
+function hashContent(content: string): string {
+  let hash = 5381;
+  for (let i = 0; i < content.length; i++) {
+    hash = ((hash << 5) + hash + content.charCodeAt(i)) | 0;
+  }
+  return `${content.length}:${hash}`;
+}
+
+function isStubbed(moduleName: string): boolean {
+  return STUBBED_MODULES.some((stub) =>
+    stub.endsWith('/*') ? moduleName.startsWith(stub.slice(0, -1)) : moduleName === stub
+  );
+}
+
+/**
+ * Bare package imports without a bundled stub are declared as `any` modules, so
+ * the checker flags missing relative files but not missing third-party typings.
+ */
+function buildUntypedModules(files: Record<string, string>): string {
+  const modules = new Set<string>();
+
+  for (const [path, content] of Object.entries(files)) {
+    if (!isSourceFile(path)) continue;
+    const { importedFiles } = ts.preProcessFile(content, true, true);
+    for (const { fileName } of importedFiles) {
+      if (fileName.startsWith('.') || fileName.startsWith('/') || fileName.startsWith('@/')) continue;
+      if (isStubbed(fileName)) continue;
+      modules.add(fileName);
+    }
+  }
+
+  return [...modules].map((name) => `declare module ${JSON.stringify(name)};`).join('\n');
+}
+
+function toDiagnostic(diagnostic: ts.Diagnostic): TypecheckDiagnostic | null {
+  if (!diagnostic.file || diagnostic.start === undefined) return null;
+  if (diagnostic.file.fileName.startsWith('/__rork_types__/')) return null;
+
+  const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+  return {
+    file: fromVirtualPath(diagnostic.file.fileName),
+    line: line + 1,
+    column: character + 1,
+    code: diagnostic.code,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+    category: diagnostic.category === ts.DiagnosticCategory.Error ? 'error' : 'warning',
+  };
+}
+
+// ── Public API ──
+
+/**
+ * Type-check a project given as path → content.
+ * Non-source files (JSON, assets) are made available for imports but not checked.
+ */
+export function typecheckProject(
+  files: Record<string, string>,
+  options: TypecheckOptions = {}
+): TypecheckResult {
+  const maxDiagnostics = options.maxDiagnostics ?? 100;
+
+  const next = new Map<string, { content: string; version: string }>();
+  for (const [name, content] of Object.entries(TYPE_STUBS)) {
+    next.set(name, { content, version: '1' });
+  }
+  const untyped = buildUntypedModules(files);
+  next.set(UNTYPED_MODULES_FILE, { content: untyped, version: hashContent(untyped) });
+
+  const sourcePaths: string[] = [];
+  for (const [path, content] of Object.entries(files)) {
+    if (!isSourceFile(path) && !path.endsWith('.json')) continue;
+    const fileName = toVirtualPath(path);
+    next.set(fileName, { content, version: hashContent(content) });
+    if (isSourceFile(path)) sourcePaths.push(fileName);
+  }
+  currentFiles = next;
+
+  const languageService = getService();
+  const diagnostics: TypecheckDiagnostic[] = [];
+
+  for (const fileName of sourcePaths) {
+    const raw = [
+      ...languageService.getSyntacticDiagnostics(fileName),
+      ...languageService.getSemanticDiagnostics(fileName),
+    ];
+    for (const item of raw) {
+      const diagnostic = toDiagnostic(item);
+      if (diagnostic) diagnostics.push(diagnostic);
+    }
+  }
+
+  const errorCount = diagnostics.filter((d) => d.category === 'error').length;
+  return {
+    diagnostics: diagnostics.slice(0, maxDiagnostics),
+    errorCount,
+    warningCount: diagnostics.length - errorCount,
+    filesChecked: sourcePaths.length,
+  };
+}
+
+/** Format a diagnostic the way tsc prints it: `path(line,col): error TS2304: message`. */
+export function formatTypecheckDiagnostic(diagnostic: TypecheckDiagnostic): string {
+  return `${diagnostic.file}(${diagnostic.line},${diagnostic.column}): ${diagnostic.category} TS${diagnostic.code}: ${diagnostic.message}`;
+}
@@ -0,0 +1,873 @@
+/**
+ * Bundled type stubs for the in-memory TypeScript checker.
+ *
+ * These are NOT full copies of @types/react or the Expo typings — they cover the
+ * surface generated apps actually use, and stay permissive (index signatures on
+ * props) so that the checker reports real mistakes (unknown names, missing
+ * imports, bad hook usage) rather than stub imprecision.
+ *
+ * Packages without a stub here are declared as `any` modules at check time.
+ */
+
+const REACT_STUB = `
+declare module 'react' {
+  export type Key = string | number;
+  export type ReactText = string | number;
+  export type ReactNode = ReactElement | string | number | bigint | Iterable<ReactNode> | boolean | null | undefined | Promise<ReactNode>;
+  export interface ReactElement<P = any, T = any> {
+    type: T;
+    props: P;
+    key: Key | null;
+  }
+  export type JSXElementConstructor<P> = ((props: P) => ReactNode) | (new (props: P) => Component<any, any>);
+  export interface RefObject<T> { current: T; }
+  export interface MutableRefObject<T> { current: T; }
+  export type RefCallback<T> = (instance: T | null) => void;
+  export type Ref<T> = RefCallback<T> | RefObject<T | null> | null;
+  export type Dispatch<A> = (value: A) => void;
+  export type SetStateAction<S> = S | ((prevState: S) => S);
+  export type DependencyList = readonly unknown[];
+  export type EffectCallback = () => void | (() => void);
+  export type PropsWithChildren<P = unknown> = P & { children?: ReactNode };
+  export type ComponentProps<T> = T extends JSXElementConstructor<infer P> ? P : any;
+  export type ComponentPropsWithoutRef<T> = ComponentProps<T>;
+  export type ElementRef<T> = any;
+  export type ComponentRef<T> = any;
+
+  export interface FunctionComponent<P = {}> {
+    (props: P): ReactNode;
+    displayName?: string;
+  }
+  export type FC<P = {}> = FunctionComponent<P>;
+  export class Component<P = {}, S = {}> {
+    constructor(props: P);
+    props: Readonly<P>;
+    state: Readonly<S>;
+    setState(state: Partial<S> | ((prev: S, props: P) => Partial<S> | null) | null, callback?: () => void): void;
+    forceUpdate(): void;
+    render(): ReactNode;
+  }
+  export class PureComponent<P = {}, S = {}> extends Component<P, S> {}
+  export type ComponentType<P = {}> = FunctionComponent<P> | (new (props: P) => Component<P, any>);
+
+  export interface Context<T> {
+    Provider: FunctionComponent<{ value: T; children?: ReactNode }>;
+    Consumer: FunctionComponent<{ children: (value: T) => ReactNode }>;
+    displayName?: string;
+  }
+
+  export function createContext<T>(defaultValue: T): Context<T>;
+  export function useContext<T>(context: Context<T>): T;
+  export function use<T>(usable: Promise<T> | Context<T>): T;
+  export function useState<S>(initialState: S | (() => S)): [S, Dispatch<SetStateAction<S>>];
+  export function useState<S = undefined>(): [S | undefined, Dispatch<SetStateAction<S | undefined>>];
+  export function useReducer<S, A>(reducer: (state: S, action: A) => S, initialState: S): [S, Dispatch<A>];
+  export function useReducer<S, A, I>(reducer: (state: S, action: A) => S, initialArg: I, init: (arg: I) => S): [S, Dispatch<A>];
+  export function useEffect(effect: EffectCallback, deps?: DependencyList): void;
+  export function useLayoutEffect(effect: EffectCallback, deps?: DependencyList): void;
+  export function useInsertionEffect(effect: EffectCallback, deps?: DependencyList): void;
+  export function useMemo<T>(factory: () => T, deps: DependencyList): T;
+  export function useCallback<T extends Function>(callback: T, deps: DependencyList): T;
+  export function useRef<T>(initialValue: T): MutableRefObject<T>;
+  export function useRef<T>(initialValue: T | null): RefObject<T | null>;
+  export function useRef<T = undefined>(): MutableRefObject<T | undefined>;
+  export function useImperativeHandle<T>(ref: Ref<T> | undefined, init: () => T, deps?: DependencyList): void;
+  export function useId(): string;
+  export function useTransition(): [boolean, (callback: () => void) => void];
+  export function useDeferredValue<T>(value: T): T;
+  export function useSyncExternalStore<T>(subscribe: (cb: () => void) => () => void, getSnapshot: () => T, getServerSnapshot?: () => T): T;
+  export function useOptimistic<S, A>(state: S, updateFn?: (state: S, action: A) => S): [S, (action: A) => void];
+  export function useDebugValue<T>(value: T): void;
+
+  export function memo<P>(component: FunctionComponent<P>, propsAreEqual?: (prev: P, next: P) => boolean): FunctionComponent<P>;
+  export function forwardRef<T, P = {}>(render: (props: P, ref: Ref<T>) => ReactNode): FunctionComponent<P & { ref?: Ref<T> }>;
+  export function lazy<T extends ComponentType<any>>(factory: () => Promise<{ default: T }>): T;
+  export function createElement(type: any, props?: any, ...children: ReactNode[]): ReactElement;
+  export function cloneElement(element: ReactElement, props?: any, ...children: ReactNode[]): ReactElement;
+  export function isValidElement(object: unknown): object is ReactElement;
+  export function startTransition(callback: () => void): void;
+  export const Fragment: FunctionComponent<{ children?: ReactNode; key?: Key }>;
+  export const StrictMode: FunctionComponent<{ children?: ReactNode }>;
+  export const Suspense: FunctionComponent<{ children?: ReactNode; fallback?: ReactNode }>;
+  export const Children: {
+    map<T, C>(children: C | readonly C[], fn: (child: C, index: number) => T): T[];
+    forEach<C>(children: C | readonly C[], fn: (child: C, index: number) => void): void;
+    count(children: unknown): number;
+    only<C>(children: C): C;
+    toArray(children: ReactNode): ReactNode[];
+  };
+
+  const React: {
+    createContext: typeof createContext;
+    useContext: typeof useContext;
+    use: typeof use;
+    useState: typeof useState;
+    useReducer: typeof useReducer;
+    useEffect: typeof useEffect;
+    useLayoutEffect: typeof useLayoutEffect;
+    useMemo: typeof useMemo;
+    useCallback: typeof useCallback;
+    useRef: typeof useRef;
+    useImperativeHandle: typeof useImperativeHandle;
+    useId: typeof useId;
+    useTransition: typeof useTransition;
+    useDeferredValue: typeof useDeferredValue;
+    memo: typeof memo;
+    forwardRef: typeof forwardRef;
+    lazy: typeof lazy;
+    createElement: typeof createElement;
+    cloneElement: typeof cloneElement;
+    isValidElement: typeof isValidElement;
+    startTransition: typeof startTransition;
+    Fragment: typeof Fragment;
+    StrictMode: typeof StrictMode;
+    Suspense: typeof Suspense;
+    Children: typeof Children;
+    Component: typeof Component;
+    PureComponent: typeof PureComponent;
+  };
+  export default React;
+}
+
+declare module 'react/jsx-runtime' {
+  export const jsx: any;
+  export const jsxs: any;
+  export const Fragment: any;
+}
+
+declare module 'react/jsx-dev-runtime' {
+  export const jsxDEV: any;
+  export const Fragment: any;
+}
+
+declare namespace React {
+  type ReactNode = import('react').ReactNode;
+  type ReactElement<P = any, T = any> = import('react').ReactElement<P, T>;
+  type FC<P = {}> = import('react').FC<P>;
+  type ComponentType<P = {}> = import('react').ComponentType<P>;
+  type PropsWithChildren<P = unknown> = import('react').PropsWithChildren<P>;
+  type Dispatch<A> = import('react').Dispatch<A>;
+  type SetStateAction<S> = import('react').SetStateAction<S>;
+  type RefObject<T> = import('react').RefObject<T>;
+  type MutableRefObject<T> = import('react').MutableRefObject<T>;
+  type ComponentProps<T> = import('react').ComponentProps<T>;
+  type Key = import('react').Key;
+}
+
+declare namespace JSX {
+  type Element = import('react').ReactElement<any, any>;
+  type ElementType = string | import('react').JSXElementConstructor<any>;
+  interface ElementClass {
+    render(): import('react').ReactNode;
+  }
+  interface ElementAttributesProperty {
+    props: {};
+  }
+  interface ElementChildrenAttribute {
+    children: {};
+  }
+  interface IntrinsicAttributes {
+    key?: import('react').Key | null;
+  }
+  // React Native has no intrinsic (host string) elements: <div>, <span> etc. are errors.
+  interface IntrinsicElements {}
+}
+`;
+
+const REACT_NATIVE_STUB = `
+declare module 'react-native' {
+  import type { ComponentType, ReactNode, ReactElement, Ref } from 'react';
+
+  type Falsy = undefined | null | false | '';
+  export type StyleProp<T> = T | ReadonlyArray<StyleProp<T>> | Falsy;
+  export type ColorValue = string | OpaqueColorValue;
+  export interface OpaqueColorValue { readonly __opaque: 'OpaqueColorValue' }
+  export type DimensionValue = number | 'auto' | \`\${number}%\` | null;
+
+  export interface ViewStyle { [key: string]: any }
+  export interface TextStyle extends ViewStyle {}
+  export interface ImageStyle extends ViewStyle {}
+
+  export interface LayoutRectangle { x: number; y: number; width: number; height: number }
+  export interface LayoutChangeEvent { nativeEvent: { layout: LayoutRectangle } }
+  export interface NativeSyntheticEvent<T> { nativeEvent: T; preventDefault(): void; stopPropagation(): void }
+  export interface GestureResponderEvent extends NativeSyntheticEvent<any> {}
+  export interface NativeScrollEvent {
+    contentOffset: { x: number; y: number };
+    contentSize: { width: number; height: number };
+    layoutMeasurement: { width: number; height: number };
+  }
+
+  export interface ViewProps {
+    style?: StyleProp<ViewStyle>;
+    children?: ReactNode;
+    testID?: string;
+    onLayout?: (event: LayoutChangeEvent) => void;
+    [key: string]: any;
+  }
+  export interface TextProps {
+    style?: StyleProp<TextStyle>;
+    children?: ReactNode;
+    numberOfLines?: number;
+    onPress?: (event: GestureResponderEvent) => void;
+    [key: string]: any;
+  }
+  export interface PressableStateCallbackType { readonly pressed: boolean; readonly hovered?: boolean }
+  export interface PressableProps extends Omit<ViewProps, 'style' | 'children'> {
+    style?: StyleProp<ViewStyle> | ((state: PressableStateCallbackType) => StyleProp<ViewStyle>);
+    children?: ReactNode | ((state: PressableStateCallbackType) => ReactNode);
+    onPress?: (event: GestureResponderEvent) => void;
+    onLongPress?: (event: GestureResponderEvent) => void;
+    disabled?: boolean | null;
+  }
+  export interface TextInputProps extends TextProps {
+    value?: string;
+    defaultValue?: string;
+    placeholder?: string;
+    onChangeText?: (text: string) => void;
+    onSubmitEditing?: (event: NativeSyntheticEvent<{ text: string }>) => void;
+  }
+  export interface ImageSourcePropType { [key: string]: any }
+  export interface ImageProps extends ViewProps {
+    source?: ImageSourcePropType | number | { uri?: string } | Array<{ uri?: string }>;
+    style?: StyleProp<ImageStyle>;
+  }
+  export interface ScrollViewProps extends ViewProps {
+    contentContainerStyle?: StyleProp<ViewStyle>;
+    horizontal?: boolean | null;
+    onScroll?: (event: NativeSyntheticEvent<NativeScrollEvent>) => void;
+  }
+  export interface ListRenderItemInfo<ItemT> {
+    item: ItemT;
+    index: number;
+    separators: { highlight(): void; unhighlight(): void; updateProps(select: 'leading' | 'trailing', newProps: any): void };
+  }
+  export type ListRenderItem<ItemT> = (info: ListRenderItemInfo<ItemT>) => ReactElement | ReactNode | null;
+  export interface FlatListProps<ItemT> extends ScrollViewProps {
+    data: ArrayLike<ItemT> | ReadonlyArray<ItemT> | null | undefined;
+    renderItem: ListRenderItem<ItemT> | null | undefined;
+    keyExtractor?: (item: ItemT, index: number) => string;
+    numColumns?: number;
+    ListHeaderComponent?: ComponentType<any> | ReactElement | null;
+    ListFooterComponent?: ComponentType<any> | ReactElement | null;
+    ListEmptyComponent?: ComponentType<any> | ReactElement | null;
+    ItemSeparatorComponent?: ComponentType<any> | null;
+  }
+  export interface SectionBase<ItemT> { data: ReadonlyArray<ItemT>; key?: string; [key: string]: any }
+  export interface SectionListProps<ItemT, SectionT = any> extends ScrollViewProps {
+    sections: ReadonlyArray<SectionT & SectionBase<ItemT>>;
+    renderItem?: (info: { item: ItemT; index: number; section: SectionT & SectionBase<ItemT> }) => ReactElement | ReactNode | null;
+    renderSectionHeader?: (info: { section: SectionT & SectionBase<ItemT> }) => ReactElement | ReactNode | null;
+    keyExtractor?: (item: ItemT, index: number) => string;
+  }
+  export interface SwitchProps extends ViewProps {
+    value?: boolean | null;
+    onValueChange?: ((value: boolean) => void) | null;
+  }
+  export interface ModalProps extends ViewProps {
+    visible?: boolean;
+    animationType?: 'none' | 'slide' | 'fade';
+    transparent?: boolean;
+    onRequestClose?: () => void;
+  }
+
+  export class View extends HostComponent<ViewProps> {}
+  export class Text extends HostComponent<TextProps> {}
+  export class TextInput extends HostComponent<TextInputProps> {
+    focus(): void;
+    blur(): void;
+    clear(): void;
+  }
+  export class Image extends HostComponent<ImageProps> {}
+  export class ImageBackground extends HostComponent<ImageProps> {}
+  export class ScrollView extends HostComponent<ScrollViewProps> {
+    scrollTo(options?: { x?: number; y?: number; animated?: boolean }): void;
+    scrollToEnd(options?: { animated?: boolean }): void;
+  }
+  export class FlatList<ItemT = any> extends HostComponent<FlatListProps<ItemT>> {
+    scrollToIndex(params: { index: number; animated?: boolean }): void;
+    scrollToOffset(params: { offset: number; animated?: boolean }): void;
+    scrollToEnd(params?: { animated?: boolean }): void;
+  }
+  export class SectionList<ItemT = any, SectionT = any> extends HostComponent<SectionListProps<ItemT, SectionT>> {}
+  export class VirtualizedList<ItemT = any> extends HostComponent<any> {}
+  export class Pressable extends HostComponent<PressableProps> {}
+  export class TouchableOpacity extends HostComponent<PressableProps & { activeOpacity?: number }> {}
+  export class TouchableHighlight extends HostComponent<PressableProps & { underlayColor?: ColorValue }> {}
+  export class TouchableWithoutFeedback extends HostComponent<PressableProps> {}
+  export class Button extends HostComponent<{ title: string; onPress?: (event: GestureResponderEvent) => void; color?: ColorValue; disabled?: boolean; [key: string]: any }> {}
+  export class Switch extends HostComponent<SwitchProps> {}
+  export class ActivityIndicator extends HostComponent<ViewProps & { size?: number | 'small' | 'large'; color?: ColorValue; animating?: boolean }> {}
+  export class Modal extends HostComponent<ModalProps> {}
+  export class RefreshControl extends HostComponent<ViewProps & { refreshing: boolean; onRefresh?: () => void }> {}
+  export class KeyboardAvoidingView extends HostComponent<ViewProps & { behavior?: 'height' | 'position' | 'padding' }> {}
+  export class SafeAreaView extends HostComponent<ViewProps> {}
+  export class StatusBar extends HostComponent<ViewProps & { barStyle?: 'default' | 'light-content' | 'dark-content' }> {}
+
+  class HostComponent<P> {
+    constructor(props: P);
+    props: Readonly<P> & { ref?: Ref<any> };
+    state: any;
+    setState(state: any): void;
+    forceUpdate(): void;
+    render(): ReactNode;
+  }
+
+  type NamedStyles<T> = { [P in keyof T]: ViewStyle | TextStyle | ImageStyle };
+  export const StyleSheet: {
+    create<T extends NamedStyles<T> | NamedStyles<any>>(styles: T & NamedStyles<any>): T;
+    flatten<T>(style?: StyleProp<T>): T;
+    compose<T>(a: StyleProp<T>, b: StyleProp<T>): StyleProp<T>;
+    hairlineWidth: number;
+    absoluteFill: ViewStyle;
+    absoluteFillObject: ViewStyle;
+  };
+
+  export type PlatformOSType = 'ios' | 'android' | 'web' | 'windows' | 'macos' | 'native';
+  export const Platform: {
+    OS: PlatformOSType;
+    Version: number | string;
+    isPad?: boolean;
+    isTV: boolean;
+    select<T>(specifics: ({ [platform in PlatformOSType]?: T } & { default?: T })): T;
+  };
+
+  export interface ScaledSize { width: number; height: number; scale: number; fontScale: number }
+  export const Dimensions: {
+    get(dim: 'window' | 'screen'): ScaledSize;
+    addEventListener(type: 'change', handler: (dims: { window: ScaledSize; screen: ScaledSize }) => void): { remove(): void };
+  };
+  export function useWindowDimensions(): ScaledSize;
+  export function useColorScheme(): 'light' | 'dark' | null | undefined;
+  export function PlatformColor(...names: string[]): OpaqueColorValue;
+  export function processColor(color: ColorValue): number | null | undefined;
+
+  export interface AlertButton { text?: string; onPress?: (value?: string) => void; style?: 'default' | 'cancel' | 'destructive' }
+  export const Alert: {
+    alert(title: string, message?: string, buttons?: AlertButton[], options?: { cancelable?: boolean }): void;
+    prompt(title: string, message?: string, callbackOrButtons?: ((text: string) => void) | AlertButton[], type?: string, defaultValue?: string): void;
+  };
+  export const Linking: {
+    openURL(url: string): Promise<any>;
+    canOpenURL(url: string): Promise<boolean>;
+    getInitialURL(): Promise<string | null>;
+    openSettings(): Promise<void>;
+    addEventListener(type: 'url', handler: (event: { url: string }) => void): { remove(): void };
+  };
+  export const Keyboard: {
+    dismiss(): void;
+    addListener(event: string, handler: (e: any) => void): { remove(): void };
+  };
+  export const Share: {
+    share(content: { message?: string; url?: string; title?: string }, options?: any): Promise<any>;
+  };
+  export const Vibration: { vibrate(pattern?: number | number[], repeat?: boolean): void; cancel(): void };
+  export const AppState: {
+    currentState: 'active' | 'background' | 'inactive' | 'unknown' | 'extension';
+    addEventListener(type: 'change', handler: (state: string) => void): { remove(): void };
+  };
+  export const LayoutAnimation: {
+    configureNext(config: any, onAnimationDidEnd?: () => void): void;
+    Presets: { easeInEaseOut: any; linear: any; spring: any };
+  };
+  export const UIManager: { setLayoutAnimationEnabledExperimental?: (value: boolean) => void; [key: string]: any };
+  export const I18nManager: { isRTL: boolean; [key: string]: any };
+  export const PixelRatio: { get(): number; getFontScale(): number; roundToNearestPixel(size: number): number };
+  export const Easing: { [key: string]: any };
+  export const Animated: any;
+  export const PanResponder: any;
+  export const NativeModules: any;
+  export const DeviceEventEmitter: any;
+  export function findNodeHandle(ref: any): number | null;
+  export function requireNativeComponent<P>(name: string): ComponentType<P>;
+  export const AppRegistry: { registerComponent(key: string, getComponent: () => ComponentType<any>): string };
+}
+`;
+
+const EXPO_ROUTER_STUB = `
+declare module 'expo-router' {
+  import type { ComponentType, ReactNode, FunctionComponent } from 'react';
+
+  export type Href = string | { pathname: string; params?: Record<string, string | number | boolean | string[] | undefined> };
+
+  export interface HeaderButtonProps {
+    tintColor?: string;
+    pressColor?: string;
+    pressOpacity?: number;
+    canGoBack?: boolean;
+  }
+  export interface TabBarIconProps {
+    focused: boolean;
+    color: string;
+    size: number;
+  }
+  export interface TabBarLabelProps {
+    focused: boolean;
+    color: string;
+    position: 'beside-icon' | 'below-icon';
+    children: string;
+  }
+  // Stack and Tabs options in one shape; the callbacks are typed so destructured
+  // parameters don't become implicit any under strict mode
+  export interface ScreenOptions {
+    title?: string;
+    headerShown?: boolean;
+    headerTitle?: string | ((props: { children: string; tintColor?: string }) => ReactNode);
+    headerLeft?: (props: HeaderButtonProps & { label?: string; href?: string }) => ReactNode;
+    headerRight?: (props: HeaderButtonProps) => ReactNode;
+    headerBackground?: () => ReactNode;
+    presentation?: 'card' | 'modal' | 'transparentModal' | 'containedModal' | 'containedTransparentModal' | 'fullScreenModal' | 'formSheet';
+    tabBarIcon?: (props: TabBarIconProps) => ReactNode;
+    tabBarLabel?: string | ((props: TabBarLabelProps) => ReactNode);
+    tabBarButton?: (props: { children?: ReactNode; onPress?: (...args: any[]) => void; [key: string]: any }) => ReactNode;
+    tabBarBadge?: string | number;
+    href?: Href | null;
+    [key: string]: any;
+  }
+  type ScreenOptionsProp = ScreenOptions | ((props: { route: { key: string; name: string; params?: any }; navigation: any }) => ScreenOptions);
+
+  export interface ScreenProps {
+    name?: string;
+    options?: ScreenOptionsProp;
+    initialParams?: Record<string, any>;
+    redirect?: boolean;
+    [key: string]: any;
+  }
+  export interface NavigatorProps {
+    children?: ReactNode;
+    screenOptions?: ScreenOptionsProp;
+    initialRouteName?: string;
+    [key: string]: any;
+  }
+  type NavigatorComponent = FunctionComponent<NavigatorProps> & {
+    Screen: FunctionComponent<ScreenProps>;
+    Protected?: FunctionComponent<{ guard: boolean; children?: ReactNode }>;
+  };
+
+  export const Stack: NavigatorComponent;
+  export const Tabs: NavigatorComponent;
+  export const Slot: FunctionComponent<{ [key: string]: any }>;
+  export const Redirect: FunctionComponent<{ href: Href }>;
+  export const Link: FunctionComponent<{
+    href: Href;
+    asChild?: boolean;
+    replace?: boolean;
+    push?: boolean;
+    style?: any;
+    children?: ReactNode;
+    [key: string]: any;
+  }> & {
+    Trigger: FunctionComponent<{ children?: ReactNode }>;
+    Preview: FunctionComponent<{ [key: string]: any }>;
+    Menu: FunctionComponent<{ [key: string]: any }>;
+    MenuAction: FunctionComponent<{ [key: string]: any }>;
+  };
+  export const ErrorBoundary: ComponentType<{ error: Error; retry: () => Promise<void> }>;
+
+  export interface Router {
+    push(href: Href): void;
+    navigate(href: Href): void;
+    replace(href: Href): void;
+    back(): void;
+    canGoBack(): boolean;
+    dismiss(count?: number): void;
+    dismissAll(): void;
+    canDismiss(): boolean;
+    setParams(params: Record<string, string | number | undefined>): void;
+  }
+  export const router: Router;
+  export function useRouter(): Router;
+  export function useLocalSearchParams<T extends Record<string, string | string[]> = Record<string, string | string[]>>(): Partial<T>;
+  export function useGlobalSearchParams<T extends Record<string, string | string[]> = Record<string, string | string[]>>(): Partial<T>;
+  export function useSegments(): string[];
+  export function usePathname(): string;
+  export function useNavigation<T = any>(): T;
+  export function useFocusEffect(effect: () => void | (() => void)): void;
+  export function useRootNavigationState(): any;
+  export function withLayoutContext(navigator: any): any;
+  export const SplashScreen: {
+    preventAutoHideAsync(): Promise<boolean>;
+    hideAsync(): Promise<boolean>;
+  };
+}
+
+declare module 'expo-router/stack' {
+  export { Stack } from 'expo-router';
+}
+
+declare module 'expo-router/tabs' {
+  export { Tabs } from 'expo-router';
+}
+
+declare module 'expo-router/entry' {}
+
+declare module 'expo-router/unstable-native-tabs' {
+  import type { FunctionComponent, ReactNode } from 'react';
+  export const NativeTabs: FunctionComponent<{ children?: ReactNode; [key: string]: any }> & {
+    Trigger: FunctionComponent<{ name: string; children?: ReactNode; [key: string]: any }>;
+  };
+  export const Icon: FunctionComponent<{ sf?: any; drawable?: string; src?: any; [key: string]: any }>;
+  export const Label: FunctionComponent<{ children?: ReactNode; hidden?: boolean; [key: string]: any }>;
+  export const Badge: FunctionComponent<{ children?: ReactNode; [key: string]: any }>;
+  export const VectorIcon: FunctionComponent<{ [key: string]: any }>;
+}
+`;
+
+const EXPO_MODULES_STUB = `
+declare module 'expo-status-bar' {
+  import type { FunctionComponent } from 'react';
+  export const StatusBar: FunctionComponent<{ style?: 'auto' | 'inverted' | 'light' | 'dark'; [key: string]: any }>;
+}
+
+declare module 'expo-image' {
+  import type { FunctionComponent } from 'react';
+  export type ImageContentFit = 'cover' | 'contain' | 'fill' | 'none' | 'scale-down';
+  export const Image: FunctionComponent<{
+    source?: any;
+    style?: any;
+    contentFit?: ImageContentFit;
+    placeholder?: any;
+    transition?: number | Record<string, any>;
+    [key: string]: any;
+  }> & { prefetch(urls: string | string[]): Promise<boolean>; clearMemoryCache(): Promise<boolean> };
+  export const ImageBackground: FunctionComponent<{ [key: string]: any }>;
+}
+
+declare module 'expo-blur' {
+  import type { FunctionComponent } from 'react';
+  export const BlurView: FunctionComponent<{
+    intensity?: number;
+    tint?: string;
+    style?: any;
+    children?: any;
+    [key: string]: any;
+  }>;
+}
+
+declare module 'expo-linear-gradient' {
+  import type { FunctionComponent } from 'react';
+  export const LinearGradient: FunctionComponent<{
+    colors: readonly [string, string, ...string[]] | string[];
+    start?: { x: number; y: number } | [number, number] | null;
+    end?: { x: number; y: number } | [number, number] | null;
+    locations?: readonly [number, number, ...number[]] | number[] | null;
+    style?: any;
+    children?: any;
+    [key: string]: any;
+  }>;
+}
+
+declare module 'expo-haptics' {
+  export enum ImpactFeedbackStyle { Light = 'light', Medium = 'medium', Heavy = 'heavy', Soft = 'soft', Rigid = 'rigid' }
+  export enum NotificationFeedbackType { Success = 'success', Warning = 'warning', Error = 'error' }
+  export function impactAsync(style?: ImpactFeedbackStyle): Promise<void>;
+  export function notificationAsync(type?: NotificationFeedbackType): Promise<void>;
+  export function selectionAsync(): Promise<void>;
+}
+
+declare module 'expo-constants' {
+  const Constants: {
+    expoConfig: Record<string, any> | null;
+    appOwnership: string | null;
+    executionEnvironment: string;
+    statusBarHeight: number;
+    [key: string]: any;
+  };
+  export default Constants;
+}
+
+declare module 'expo-font' {
+  export function useFonts(map: Record<string, any>): [boolean, Error | null];
+  export function loadAsync(map: Record<string, any> | string, source?: any): Promise<void>;
+  export function isLoaded(fontFamily: string): boolean;
+}
+
+declare module 'expo-linking' {
+  export function createURL(path: string, options?: Record<string, any>): string;
+  export function openURL(url: string): Promise<true>;
+  export function canOpenURL(url: string): Promise<boolean>;
+  export function useURL(): string | null;
+  export function parse(url: string): { hostname: string | null; path: string | null; queryParams: Record<string, any> | null; scheme: string | null };
+}
+
+declare module 'expo-clipboard' {
+  export function setStringAsync(text: string): Promise<boolean>;
+  export function getStringAsync(): Promise<string>;
+  export function hasStringAsync(): Promise<boolean>;
+}
+
+declare module 'expo-audio' {
+  export interface AudioPlayer {
+    play(): void;
+    pause(): void;
+    seekTo(seconds: number): Promise<void>;
+    replace(source: any): void;
+    remove(): void;
+    playing: boolean;
+    currentTime: number;
+    duration: number;
+    volume: number;
+    loop: boolean;
+    muted: boolean;
+  }
+  export function useAudioPlayer(source?: any, updateInterval?: number): AudioPlayer;
+  export function createAudioPlayer(source?: any, updateInterval?: number): AudioPlayer;
+  export function useAudioPlayerStatus(player: AudioPlayer): { playing: boolean; currentTime: number; duration: number; isLoaded: boolean; [key: string]: any };
+  export function useAudioRecorder(options: any, statusListener?: (status: any) => void): any;
+  export function setAudioModeAsync(mode: Record<string, any>): Promise<void>;
+  export const RecordingPresets: Record<string, any>;
+  export const AudioModule: any;
+}
+
+declare module 'expo-video' {
+  import type { FunctionComponent } from 'react';
+  export interface VideoPlayer {
+    play(): void;
+    pause(): void;
+    replace(source: any): void;
+    seekBy(seconds: number): void;
+    playing: boolean;
+    loop: boolean;
+    muted: boolean;
+    currentTime: number;
+    duration: number;
+  }
+  export function useVideoPlayer(source: any, setup?: (player: VideoPlayer) => void): VideoPlayer;
+  export const VideoView: FunctionComponent<{ player: VideoPlayer; style?: any; nativeControls?: boolean; [key: string]: any }>;
+}
+
+declare module 'expo-camera' {
+  import type { FunctionComponent } from 'react';
+  export type CameraType = 'front' | 'back';
+  export interface PermissionResponse { granted: boolean; canAskAgain: boolean; status: string }
+  export const CameraView: FunctionComponent<{ facing?: CameraType; style?: any; children?: any; ref?: any; [key: string]: any }>;
+  export function useCameraPermissions(): [PermissionResponse | null, () => Promise<PermissionResponse>];
+  export function useMicrophonePermissions(): [PermissionResponse | null, () => Promise<PermissionResponse>];
+}
+
+declare module 'expo-av' {
+  export const Audio: any;
+  export const Video: any;
+  export const ResizeMode: any;
+  export const AVPlaybackStatus: any;
+}
+
+declare module '@expo/vector-icons' {
+  import type { FunctionComponent } from 'react';
+  type IconProps = { name: any; size?: number; color?: any; style?: any; [key: string]: any };
+  type IconComponent = FunctionComponent<IconProps> & { glyphMap: Record<string, number> };
+  export const Ionicons: IconComponent;
+  export const MaterialIcons: IconComponent;
+  export const MaterialCommunityIcons: IconComponent;
+  export const FontAwesome: IconComponent;
+  export const FontAwesome5: IconComponent;
+  export const FontAwesome6: IconComponent;
+  export const Feather: IconComponent;
+  export const AntDesign: IconComponent;
+  export const Entypo: IconComponent;
+  export const EvilIcons: IconComponent;
+  export const Octicons: IconComponent;
+  export const SimpleLineIcons: IconComponent;
+  export const Foundation: IconComponent;
+  export const Zocial: IconComponent;
+}
+
+declare module '@expo/vector-icons/*' {
+  import type { FunctionComponent } from 'react';
+  const Icon: FunctionComponent<{ name: any; size?: number; color?: any; style?: any; [key: string]: any }> & { glyphMap: Record<string, number> };
+  export default Icon;
+}
+
+declare module 'react-native-safe-area-context' {
+  import type { FunctionComponent } from 'react';
+  export interface EdgeInsets { top: number; right: number; bottom: number; left: number }
+  export type Edge = 'top' | 'right' | 'bottom' | 'left';
+  export const SafeAreaProvider: FunctionComponent<{ children?: any; [key: string]: any }>;
+  export const SafeAreaView: FunctionComponent<{ edges?: readonly Edge[]; style?: any; children?: any; [key: string]: any }>;
+  export function useSafeAreaInsets(): EdgeInsets;
+  export function useSafeAreaFrame(): { x: number; y: number; width: number; height: number };
+}
+
+declare module '@react-native-async-storage/async-storage' {
+  const AsyncStorage: {
+    getItem(key: string): Promise<string | null>;
+    setItem(key: string, value: string): Promise<void>;
+    removeItem(key: string): Promise<void>;
+    mergeItem(key: string, value: string): Promise<void>;
+    clear(): Promise<void>;
+    getAllKeys(): Promise<readonly string[]>;
+    multiGet(keys: readonly string[]): Promise<readonly [string, string | null][]>;
+    multiSet(pairs: ReadonlyArray<readonly [string, string]>): Promise<void>;
+    multiRemove(keys: readonly string[]): Promise<void>;
+  };
+  export default AsyncStorage;
+}
+`;
+
+// 3D (the prompts offer @react-three/fiber): the three.js classes generated code
+// names, and fiber's elements. The elements are declared for every project,
+// since the stubs don't know which projects render a Canvas.
+const THREE_STUB = `
+declare module 'three' {
+  class Loose {
+    constructor(...args: any[]);
+    [key: string]: any;
+  }
+  export class Object3D extends Loose {}
+  export class Mesh extends Object3D {}
+  export class InstancedMesh extends Mesh {}
+  export class Group extends Object3D {}
+  export class Scene extends Object3D {}
+  export class Points extends Object3D {}
+  export class Line extends Object3D {}
+  export class Camera extends Object3D {}
+  export class PerspectiveCamera extends Camera {}
+  export class OrthographicCamera extends Camera {}
+  export class Light extends Object3D {}
+  export class AmbientLight extends Light {}
+  export class DirectionalLight extends Light {}
+  export class PointLight extends Light {}
+  export class SpotLight extends Light {}
+  export class BufferGeometry extends Loose {}
+  export class BoxGeometry extends BufferGeometry {}
+  export class SphereGeometry extends BufferGeometry {}
+  export class PlaneGeometry extends BufferGeometry {}
+  export class CylinderGeometry extends BufferGeometry {}
+  export class TorusGeometry extends BufferGeometry {}
+  export class Material extends Loose {}
+  export class MeshStandardMaterial extends Material {}
+  export class MeshBasicMaterial extends Material {}
+  export class MeshPhysicalMaterial extends Material {}
+  export class Texture extends Loose {}
+  export class Vector2 extends Loose {}
+  export class Vector3 extends Loose {}
+  export class Euler extends Loose {}
+  export class Quaternion extends Loose {}
+  export class Color extends Loose {}
+  export class Clock extends Loose {}
+  export class Raycaster extends Loose {}
+  export const MathUtils: any;
+  export const DoubleSide: number;
+}
+
+declare module '@react-three/fiber' {
+  import type { FunctionComponent, ReactNode } from 'react';
+  export interface RootState {
+    camera: any;
+    scene: any;
+    gl: any;
+    clock: { elapsedTime: number; getElapsedTime(): number; getDelta(): number };
+    size: { width: number; height: number };
+    pointer: { x: number; y: number };
+    [key: string]: any;
+  }
+  export const Canvas: FunctionComponent<{ children?: ReactNode; style?: any; camera?: any; [key: string]: any }>;
+  export function useFrame(callback: (state: RootState, delta: number) => void, priority?: number): void;
+  export function useThree(): RootState;
+  export function useThree<T>(selector: (state: RootState) => T): T;
+  export function useLoader(loader: any, url: string | string[], ...args: any[]): any;
+}
+
+declare namespace JSX {
+  interface ThreeElementProps {
+    ref?: any;
+    children?: import('react').ReactNode;
+    [key: string]: any;
+  }
+  interface IntrinsicElements {
+    mesh: ThreeElementProps;
+    instancedMesh: ThreeElementProps;
+    group: ThreeElementProps;
+    points: ThreeElementProps;
+    primitive: ThreeElementProps;
+    boxGeometry: ThreeElementProps;
+    sphereGeometry: ThreeElementProps;
+    planeGeometry: ThreeElementProps;
+    cylinderGeometry: ThreeElementProps;
+    torusGeometry: ThreeElementProps;
+    bufferGeometry: ThreeElementProps;
+    meshStandardMaterial: ThreeElementProps;
+    meshBasicMaterial: ThreeElementProps;
+    meshPhysicalMaterial: ThreeElementProps;
+    ambientLight: ThreeElementProps;
+    directionalLight: ThreeElementProps;
+    pointLight: ThreeElementProps;
+    spotLight: ThreeElementProps;
+    hemisphereLight: ThreeElementProps;
+    color: ThreeElementProps;
+    fog: ThreeElementProps;
+  }
+}
+`;
+
+const GLOBALS_STUB = `
+declare var process: {
+  env: {
+    NODE_ENV?: 'development' | 'production' | 'test';
+    EXPO_OS?: 'ios' | 'android' | 'web';
+    [key: string]: string | undefined;
+  };
+};
+declare var __DEV__: boolean;
+declare function require(id: string): any;
+declare var module: { exports: any };
+
+declare module '*.png' { const value: any; export default value; }
+declare module '*.jpg' { const value: any; export default value; }
+declare module '*.jpeg' { const value: any; export default value; }
+declare module '*.gif' { const value: any; export default value; }
+declare module '*.webp' { const value: any; export default value; }
+declare module '*.svg' { const value: any; export default value; }
+declare module '*.ttf' { const value: any; export default value; }
+declare module '*.otf' { const value: any; export default value; }
+declare module '*.mp3' { const value: any; export default value; }
+declare module '*.mp4' { const value: any; export default value; }
+`;
+
+/**
+ * Virtual file name → declaration source.
+ * File names live under a directory that can never collide with project paths.
+ */
+export const TYPE_STUBS: Record<string, string> = {
+  '/__rork_types__/react.d.ts': REACT_STUB,
+  '/__rork_types__/react-native.d.ts': REACT_NATIVE_STUB,
+  '/__rork_types__/expo-router.d.ts': EXPO_ROUTER_STUB,
+  '/__rork_types__/expo-modules.d.ts': EXPO_MODULES_STUB,
+  '/__rork_types__/three.d.ts': THREE_STUB,
+  '/__rork_types__/globals.d.ts': GLOBALS_STUB,
+};
+
+/**
+ * Module names (and `name/*` prefixes) that the stubs above declare.
+ * Anything else imported by the project is treated as an untyped `any` module.
+ */
+export const STUBBED_MODULES: string[] = [
+  'react',
+  'react/jsx-runtime',
+  'react/jsx-dev-runtime',
+  'react-native',
+  'expo-router',
+  'expo-router/stack',
+  'expo-router/tabs',
+  'expo-router/entry',
+  'expo-router/unstable-native-tabs',
+  'expo-status-bar',
+  'expo-image',
+  'expo-blur',
+  'expo-linear-gradient',
+  'expo-haptics',
+  'expo-constants',
+  'expo-font',
+  'expo-linking',
+  'expo-clipboard',
+  'expo-audio',
+  'expo-video',
+  'expo-camera',
+  'expo-av',
+  '@expo/vector-icons',
+  '@expo/vector-icons/*',
+  'react-native-safe-area-context',
+  '@react-native-async-storage/async-storage',
+  'three',
+  '@react-three/fiber',
+];
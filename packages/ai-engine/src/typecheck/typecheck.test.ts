@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { getContextDocs } from '../context';
+import { FULL_SYSTEM_PROMPT } from '../prompts';
+import { formatTypecheckDiagnostic, typecheckProject } from '.';
+
+/**
+ * The code the prompts teach has to type-check against the stubs, or
+ * verify_project reports errors on correct generated code and the agent
+ * loops trying to fix them.
+ */
+
+/** ```tsx blocks that are whole modules (fragments reference names they don't declare) */
+function exampleModules(text: string): string[] {
+  return [...text.matchAll(/```tsx\n([\s\S]*?)```/g)]
+    .map((match) => match[1])
+    .filter((code) => /^export default function/m.test(code) && /^import /m.test(code));
+}
+
+function typeErrors(code: string): string[] {
+  return typecheckProject({ 'app/example.tsx': code }).diagnostics
+    .filter((diagnostic) => diagnostic.category === 'error')
+    .map(formatTypecheckDiagnostic);
+}
+
+describe('prompt examples', () => {
+  const sources = {
+    'system prompt': FULL_SYSTEM_PROMPT,
+    'context docs': getContextDocs(['navigation', 'tabs']),
+  };
+
+  for (const [source, text] of Object.entries(sources)) {
+    const modules = exampleModules(text);
+
+    it(`has whole-module examples in the ${source}`, () => {
+      expect(modules.length).toBeGreaterThan(0);
+    });
+
+    it.each(modules.map((code) => [/^export default function (\w+)/m.exec(code)![1], code]))(
+      `${source}: %s type-checks`,
+      (_name, code) => {
+        expect(typeErrors(code!)).toEqual([]);
+      }
+    );
+  }
+});
+
+describe('expo-router screen options', () => {
+  it('types tabBarIcon, tabBarLabel and headerRight callback parameters', () => {
+    const code = `import { Stack, Tabs } from 'expo-router';
+import { Text } from 'react-native';
+
+export function TabLayout() {
+  return (
+    <Tabs screenOptions={({ route }) => ({ tabBarLabel: ({ focused, color }) => <Text style={{ color }}>{focused ? route.name : ''}</Text> })}>
+      <Tabs.Screen name="index" options={{ tabBarIcon: ({ color, size, focused }) => <Text style={{ color, fontSize: focused ? size : size - 2 }}>•</Text> }} />
+    </Tabs>
+  );
+}
+
+export default function Layout() {
+  return <Stack screenOptions={{ headerRight: ({ tintColor }) => <Text style={{ color: tintColor }}>Edit</Text> }} />;
+}
+`;
+    expect(typeErrors(code)).toEqual([]);
+  });
+
+  it('still rejects wrong callback parameter use', () => {
+    const code = `import { Tabs } from 'expo-router';
+
+export default function Layout() {
+  return <Tabs.Screen name="index" options={{ tabBarIcon: ({ size }) => size.toUpperCase() }} />;
+}
+`;
+    expect(typeErrors(code).join('\n')).toContain("Property 'toUpperCase' does not exist on type 'number'");
+  });
+});
@@ -1,3 +1,8 @@
+import type { ToolDefinition } from './tools';
+
+/** plan = plan only, build = plan then implement, edit = minimal changes to an existing project */
+export type AgentMode = 'plan' | 'build' | 'edit';
+
 export interface AIProvider {
   name: string;
   displayName: string;
@@ -6,6 +11,20 @@ export interface AIProvider {
   streamCode(params: GenerateParams): AsyncGenerator<StreamChunk>;
 }
 
+/**
+ * An OpenAI-compatible chat completions endpoint (OpenRouter, vLLM, Ollama,
+ * LM Studio, ...). The model must support function calling for the agent.
+ */
+export interface OpenAICompatibleConfig {
+  /** Base URL including the API version, e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  model: string;
+  /** Extra request headers (e.g. OpenRouter's HTTP-Referer) */
+  headers?: Record<string, string>;
+  /** Name shown in the UI; defaults to the model */
+  displayName?: string;
+}
+
 export interface GenerateParams {
   prompt: string;
   systemPrompt?: string;
@@ -13,7 +32,11 @@ export interface GenerateParams {
   conversationHistory?: ConversationMessage[];
   maxTokens?: number;
   images?: ImageAttachment[];
-  agentMode?: 'plan' | 'build';
+  agentMode?: AgentMode;
+  /** Per-project lint rule toggles (rule id → enabled). */
+  lintRules?: Record<string, boolean>;
+  /** Stops the generation loop and any in-flight model request */
+  signal?: AbortSignal;
 }
 
 export interface ImageAttachment {
@@ -48,7 +71,7 @@ export interface TokenUsage {
 }
 
 export interface StreamChunk {
-  type: 'text' | 'file' | 'done' | 'error' | 'plan' | 'progress' | 'phase';
+  type: 'text' | 'file' | 'done' | 'error' | 'plan' | 'progress' | 'phase' | 'cancelled';
   content?: string;
   file?: ParsedFile;
   error?: string;
@@ -75,3 +98,54 @@ export interface ValidationResult {
   errors: string[];
   warnings: string[];
 }
+
+// ── Agent model abstraction ──
+// One tool-calling turn against any LLM; the agent loop owns everything else.
+
+export interface AgentToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface AgentToolResult {
+  toolCallId: string;
+  name: string;
+  content: string;
+  isError: boolean;
+}
+
+export type AgentMessage =
+  | { role: 'user'; content: string }
+  | {
+      role: 'assistant';
+      text: string;
+      toolCalls: AgentToolCall[];
+      /** Provider-native content to replay verbatim (e.g. Gemini thought signatures) */
+      raw?: unknown;
+    }
+  | { role: 'tool'; results: AgentToolResult[] };
+
+export interface AgentTurnRequest {
+  system: string;
+  messages: AgentMessage[];
+  tools: ToolDefinition[];
+  maxTokens: number;
+  signal?: AbortSignal;
+}
+
+export interface AgentTurnResponse {
+  text: string;
+  toolCalls: AgentToolCall[];
+  stopReason: 'end_turn' | 'tool_use' | 'max_tokens' | 'other';
+  usage: TokenUsage;
+  raw?: unknown;
+}
+
+export interface AgentModel {
+  name: string;
+  displayName: string;
+  /** Output token budget used when the agent config does not set one */
+  defaultMaxTokens: number;
+  createTurn(request: AgentTurnRequest): Promise<AgentTurnResponse>;
+}
@@ -0,0 +1,525 @@
+/**
+ * Codemods for APIs that moved between Expo SDKs. Each rewrites what can be
+ * migrated mechanically and leaves a note on anything it can't, so the
+ * upgrade changeset spells out what is left to do by hand.
+ */
+
+import ts from 'typescript';
+import type { ExpoSdk } from '@rork/shared';
+import type { LintEdit } from '../lint';
+import { ensureNamedImport, moveNamedImport, replaceNode, walk } from '../lint/edits';
+
+export interface CodemodContext {
+  path: string;
+  sourceFile: ts.SourceFile;
+  from: ExpoSdk;
+  to: ExpoSdk;
+  /** Record something at `node` that has to be migrated by hand. */
+  note(node: ts.Node, message: string): void;
+}
+
+export interface SdkCodemod {
+  id: string;
+  description: string;
+  /** Glob patterns (relative to project root) the codemod applies to. */
+  files: string[];
+  /** Whether an upgrade from `from` to `to` needs this codemod. */
+  appliesTo(from: ExpoSdk, to: ExpoSdk): boolean;
+  /** Non-overlapping edits for the whole file. */
+  transform(context: CodemodContext): LintEdit[];
+  /** Named imports (module → imported names, '*' for all) to drop afterwards once nothing uses them. */
+  prunes?: Record<string, string[] | '*'>;
+}
+
+const SCRIPT_FILES = ['**/*.{ts,tsx,js,jsx}'];
+
+// ── Helpers ──
+
+type FunctionLike = ts.FunctionDeclaration | ts.FunctionExpression | ts.ArrowFunction | ts.MethodDeclaration;
+
+function isFunctionLike(node: ts.Node): node is FunctionLike {
+  return ts.isFunctionDeclaration(node) || ts.isFunctionExpression(node) || ts.isArrowFunction(node) || ts.isMethodDeclaration(node);
+}
+
+/** Imported name → local name for `import { ... } from moduleName`. */
+function namedImports(sourceFile: ts.SourceFile, moduleName: string): Map<string, string> {
+  const names = new Map<string, string>();
+  for (const statement of sourceFile.statements) {
+    if (
+      !ts.isImportDeclaration(statement) ||
+      !ts.isStringLiteral(statement.moduleSpecifier) ||
+      statement.moduleSpecifier.text !== moduleName ||
+      statement.importClause?.isTypeOnly
+    ) {
+      continue;
+    }
+    const bindings = statement.importClause?.namedBindings;
+    if (!bindings || !ts.isNamedImports(bindings)) continue;
+    for (const element of bindings.elements) {
+      names.set((element.propertyName ?? element.name).text, element.name.text);
+    }
+  }
+  return names;
+}
+
+function isMemberCall(node: ts.Node, object: string, member: string): node is ts.CallExpression {
+  return (
+    ts.isCallExpression(node) &&
+    ts.isPropertyAccessExpression(node.expression) &&
+    ts.isIdentifier(node.expression.expression) &&
+    node.expression.expression.text === object &&
+    node.expression.name.text === member
+  );
+}
+
+function enclosingFunction(node: ts.Node): FunctionLike | undefined {
+  for (let current = node.parent; current; current = current.parent) {
+    if (isFunctionLike(current)) return current;
+  }
+  return undefined;
+}
+
+/** The node a function is bound to, looking through wrappers such as memo() and forwardRef(). */
+function bindingSite(fn: FunctionLike): ts.Node {
+  let current: ts.Node = fn.parent;
+  while (ts.isCallExpression(current) || ts.isParenthesizedExpression(current)) current = current.parent;
+  return current;
+}
+
+/** Components and custom hooks are the only functions that may call hooks. */
+function canCallHooks(fn: FunctionLike): boolean {
+  if (ts.isFunctionDeclaration(fn)) {
+    if (fn.modifiers?.some((modifier) => modifier.kind === ts.SyntaxKind.DefaultKeyword)) return true;
+    return !!fn.name && /^([A-Z]|use[A-Z0-9])/.test(fn.name.text);
+  }
+  const site = bindingSite(fn);
+  if (ts.isExportAssignment(site)) return true;
+  const name = ts.isVariableDeclaration(site) && ts.isIdentifier(site.name) ? site.name.text
+    : ts.isFunctionExpression(fn) && fn.name ? fn.name.text
+    : undefined;
+  return !!name && /^([A-Z]|use[A-Z0-9])/.test(name);
+}
+
+const CONDITIONAL_KINDS = new Set([
+  ts.SyntaxKind.IfStatement,
+  ts.SyntaxKind.ConditionalExpression,
+  ts.SyntaxKind.SwitchStatement,
+  ts.SyntaxKind.ForStatement,
+  ts.SyntaxKind.ForInStatement,
+  ts.SyntaxKind.ForOfStatement,
+  ts.SyntaxKind.WhileStatement,
+  ts.SyntaxKind.DoStatement,
+]);
+
+const SHORT_CIRCUIT_OPERATORS = new Set([
+  ts.SyntaxKind.AmpersandAmpersandToken,
+  ts.SyntaxKind.BarBarToken,
+  ts.SyntaxKind.QuestionQuestionToken,
+]);
+
+function containsReturn(node: ts.Node): boolean {
+  if (ts.isReturnStatement(node)) return true;
+  if (isFunctionLike(node)) return false;
+  return ts.forEachChild(node, containsReturn) ?? false;
+}
+
+/**
+ * Where a hook call can go for `node` inside `fn`: the top-level statement of
+ * the body holding it, provided no earlier statement can return first.
+ * `conditional` is set when `node` itself only runs on some paths.
+ */
+function hookPlacement(fn: FunctionLike, node: ts.Node): { statement: ts.Statement; conditional: boolean } | undefined {
+  const body = fn.body;
+  if (!body || !ts.isBlock(body)) return undefined;
+
+  let conditional = false;
+  let current: ts.Node = node;
+  while (current.parent && current.parent !== body) {
+    current = current.parent;
+    if (
+      CONDITIONAL_KINDS.has(current.kind) ||
+      (ts.isBinaryExpression(current) && SHORT_CIRCUIT_OPERATORS.has(current.operatorToken.kind))
+    ) {
+      conditional = true;
+    }
+  }
+  if (current.parent !== body) return undefined;
+
+  const statement = current as ts.Statement;
+  const earlier = body.statements.slice(0, body.statements.indexOf(statement));
+  if (earlier.some(containsReturn)) return undefined;
+  return { statement, conditional };
+}
+
+function indentOf(sourceFile: ts.SourceFile, node: ts.Node): string {
+  const start = node.getStart(sourceFile);
+  const lineStart = sourceFile.text.lastIndexOf('\n', start - 1) + 1;
+  return /^[ \t]*/.exec(sourceFile.text.slice(lineStart, start))![0];
+}
+
+/** `base`, or `base2`, `base3`… — whichever `fn` doesn't use yet. */
+function unusedName(sourceFile: ts.SourceFile, fn: FunctionLike, base: string, taken: Set<string>): string {
+  const text = fn.getText(sourceFile);
+  for (let i = 1; ; i++) {
+    const name = i === 1 ? base : `${base}${i}`;
+    if (!taken.has(name) && !new RegExp(`\\b${name}\\b`).test(text)) {
+      taken.add(name);
+      return name;
+    }
+  }
+}
+
+/** Remove a JSX attribute together with the whitespace before it. */
+function removeAttribute(attribute: ts.JsxAttribute): LintEdit {
+  return { start: attribute.getFullStart(), end: attribute.getEnd(), text: '' };
+}
+
+/** `prop`, `prop={true}` → true; `prop={false}` → false; anything dynamic → undefined. */
+function booleanAttribute(attribute: ts.JsxAttribute): boolean | undefined {
+  const value = attribute.initializer;
+  if (!value) return true;
+  if (ts.isJsxExpression(value) && value.expression?.kind === ts.SyntaxKind.TrueKeyword) return true;
+  if (ts.isJsxExpression(value) && value.expression?.kind === ts.SyntaxKind.FalseKeyword) return false;
+  return undefined;
+}
+
+function attributeName(attribute: ts.JsxAttribute): string {
+  return ts.isIdentifier(attribute.name) ? attribute.name.text : attribute.name.getText();
+}
+
+// ── Codemods ──
+
+const safeAreaContext: SdkCodemod = {
+  id: 'safe-area-context',
+  description: "Import SafeAreaView from react-native-safe-area-context; react-native's is deprecated and iOS-only.",
+  files: SCRIPT_FILES,
+  appliesTo: () => true,
+  transform(context) {
+    return moveNamedImport(context.sourceFile, 'react-native', 'react-native-safe-area-context', 'SafeAreaView');
+  },
+};
+
+const windowDimensions: SdkCodemod = {
+  id: 'use-window-dimensions',
+  description: "Replace Dimensions.get('window') in components and hooks with useWindowDimensions(), which follows rotation and resizing.",
+  files: SCRIPT_FILES,
+  appliesTo: () => true,
+  prunes: { 'react-native': ['Dimensions'] },
+  transform(context) {
+    const { sourceFile } = context;
+    if (namedImports(sourceFile, 'react-native').get('Dimensions') !== 'Dimensions') return [];
+
+    const edits: LintEdit[] = [];
+    walk(sourceFile, (node) => {
+      if (!isMemberCall(node, 'Dimensions', 'get')) return;
+
+      const [dimension] = node.arguments;
+      if (!dimension || !ts.isStringLiteralLike(dimension) || dimension.text !== 'window') {
+        context.note(node, "Only Dimensions.get('window') has a hook equivalent; left as is");
+        return;
+      }
+      const fn = enclosingFunction(node);
+      if (!fn || !canCallHooks(fn)) {
+        context.note(node, 'Dimensions.get() outside a component or hook cannot become useWindowDimensions(); move it into the component that uses it');
+        return;
+      }
+      const placement = hookPlacement(fn, node);
+      if (!placement || placement.conditional) {
+        context.note(node, 'Dimensions.get() runs conditionally here and a hook cannot; call useWindowDimensions() at the top of the component instead');
+        return;
+      }
+      edits.push(replaceNode(sourceFile, node, 'useWindowDimensions()'));
+    });
+
+    if (edits.length > 0) edits.push(...ensureNamedImport(sourceFile, 'react-native', 'useWindowDimensions'));
+    return edits;
+  },
+};
+
+const RESIZE_MODES: Record<string, string> = { CONTAIN: 'contain', COVER: 'cover', STRETCH: 'fill' };
+
+// <Video> props that become player settings in useVideoPlayer's setup callback
+const VIDEO_PLAYER_FLAGS: Record<string, string> = {
+  isLooping: 'player.loop = true;',
+  isMuted: 'player.muted = true;',
+  shouldPlay: 'player.play();',
+};
+
+// <Video> props VideoView accepts unchanged
+const VIDEO_VIEW_PROPS = new Set(['style', 'key', 'testID', 'nativeControls', 'contentFit', 'allowsFullscreen', 'allowsPictureInPicture']);
+
+function resizeModeToContentFit(attribute: ts.JsxAttribute, resizeModeName: string | undefined): string | undefined {
+  const value = attribute.initializer;
+  if (value && ts.isStringLiteral(value)) return value.text === 'stretch' ? 'fill' : value.text;
+
+  const expression = value && ts.isJsxExpression(value) ? value.expression : undefined;
+  if (!expression) return undefined;
+  if (ts.isStringLiteral(expression)) return expression.text === 'stretch' ? 'fill' : expression.text;
+  if (
+    resizeModeName &&
+    ts.isPropertyAccessExpression(expression) &&
+    ts.isIdentifier(expression.expression) &&
+    expression.expression.text === resizeModeName
+  ) {
+    return RESIZE_MODES[expression.name.text];
+  }
+  return undefined;
+}
+
+/** `<Video source={s} … />` → `useVideoPlayer(s)` in the component and `<VideoView player={…} />`. */
+function migrateVideos(
+  context: CodemodContext,
+  videoName: string,
+  resizeModeName: string | undefined,
+  imports: Set<string>
+): LintEdit[] {
+  const { sourceFile } = context;
+  const edits: LintEdit[] = [];
+  const taken = new Set<string>();
+
+  walk(sourceFile, (node) => {
+    if (!ts.isJsxSelfClosingElement(node) && !ts.isJsxOpeningElement(node)) return;
+    if (!ts.isIdentifier(node.tagName) || node.tagName.text !== videoName) return;
+
+    const fn = enclosingFunction(node);
+    const placement = fn && canCallHooks(fn) ? hookPlacement(fn, node) : undefined;
+    if (!fn || !placement) {
+      context.note(node, 'Create the player with useVideoPlayer() at the top of the component and render <VideoView player={player} /> here');
+      return;
+    }
+
+    const attributes = node.attributes.properties.filter(ts.isJsxAttribute);
+    const source = attributes.find((attribute) => attributeName(attribute) === 'source');
+    const sourceValue = source?.initializer;
+    const sourceText = !sourceValue ? undefined
+      : ts.isJsxExpression(sourceValue) ? sourceValue.expression?.getText(sourceFile)
+      : sourceValue.getText(sourceFile);
+    if (!source || !sourceText) {
+      context.note(node, '<Video> without a source prop; migrate it to useVideoPlayer() and <VideoView> by hand');
+      return;
+    }
+
+    const player = unusedName(sourceFile, fn, 'player', taken);
+    const setup: string[] = [];
+    for (const attribute of attributes) {
+      const name = attributeName(attribute);
+      if (name === 'source') {
+        edits.push(replaceNode(sourceFile, attribute, `player={${player}}`));
+      } else if (name === 'useNativeControls') {
+        edits.push(replaceNode(sourceFile, attribute.name, 'nativeControls'));
+      } else if (name === 'resizeMode') {
+        const contentFit = resizeModeToContentFit(attribute, resizeModeName);
+        if (contentFit) edits.push(replaceNode(sourceFile, attribute, `contentFit="${contentFit}"`));
+        else context.note(attribute, 'Map resizeMode to the VideoView contentFit prop by hand');
+      } else if (name in VIDEO_PLAYER_FLAGS) {
+        const enabled = booleanAttribute(attribute);
+        if (enabled === undefined) {
+          context.note(attribute, `${name} is player state in expo-video; drive it through ${player} (play(), pause(), loop, muted)`);
+          continue;
+        }
+        if (enabled) setup.push(VIDEO_PLAYER_FLAGS[name]);
+        edits.push(removeAttribute(attribute));
+      } else if (!VIDEO_VIEW_PROPS.has(name)) {
+        context.note(attribute, `VideoView has no ${name} prop; use the player's properties and events instead`);
+      }
+    }
+    if (node.attributes.properties.some(ts.isJsxSpreadAttribute)) {
+      context.note(node, 'Check the spread props against VideoView: playback settings now live on the player');
+    }
+
+    // play() goes last, once the other settings are applied
+    setup.sort((a, b) => Number(a.startsWith('player.play')) - Number(b.startsWith('player.play')));
+    const setupText = setup.length > 0 ? `, (player) => { ${setup.join(' ')} }` : '';
+    const anchor = placement.statement.getStart(sourceFile);
+    edits.push({
+      start: anchor,
+      end: anchor,
+      text: `const ${player} = useVideoPlayer(${sourceText}${setupText});\n${indentOf(sourceFile, placement.statement)}`,
+    });
+
+    edits.push(replaceNode(sourceFile, node.tagName, 'VideoView'));
+    if (ts.isJsxOpeningElement(node) && ts.isJsxElement(node.parent)) {
+      edits.push(replaceNode(sourceFile, node.parent.closingElement.tagName, 'VideoView'));
+    }
+    imports.add('useVideoPlayer');
+    imports.add('VideoView');
+  });
+
+  return edits;
+}
+
+// Sound methods with a direct AudioPlayer equivalent
+const SOUND_METHODS: Record<string, string> = { playAsync: 'play', pauseAsync: 'pause', unloadAsync: 'remove' };
+
+// Sound methods whose AudioPlayer equivalent works differently
+const SOUND_METHODS_BY_HAND: Record<string, string> = {
+  stopAsync: 'pause() then seekTo(0)',
+  replayAsync: 'seekTo(0) then play()',
+  setPositionAsync: 'seekTo(seconds)',
+  setIsLoopingAsync: 'the loop property',
+  setVolumeAsync: 'the volume property',
+  setIsMutedAsync: 'the muted property',
+  getStatusAsync: 'useAudioPlayerStatus(player)',
+  setOnPlaybackStatusUpdate: 'useAudioPlayerStatus(player)',
+};
+
+// createAsync options that become player properties
+const SOUND_OPTIONS: Record<string, (player: string, value: string) => string | undefined> = {
+  shouldPlay: (player, value) => (value === 'true' ? `${player}.play();` : value === 'false' ? '' : undefined),
+  isLooping: (player, value) => `${player}.loop = ${value};`,
+  isMuted: (player, value) => `${player}.muted = ${value};`,
+  volume: (player, value) => `${player}.volume = ${value};`,
+};
+
+// Audio.setAudioModeAsync options renamed in expo-audio
+const AUDIO_MODE_OPTIONS: Record<string, string> = {
+  playsInSilentModeIOS: 'playsInSilentMode',
+  staysActiveInBackground: 'shouldPlayInBackground',
+  allowsRecordingIOS: 'allowsRecording',
+  playThroughEarpieceAndroid: 'shouldRouteThroughEarpiece',
+};
+
+/**
+ * `const { sound } = await Audio.Sound.createAsync(src)` → `createAudioPlayer(src)`,
+ * Sound method calls → AudioPlayer methods, `Audio.setAudioModeAsync` →
+ * expo-audio's, and `Audio.Sound` types → `AudioPlayer`.
+ */
+function migrateAudio(context: CodemodContext, audioName: string, renameMethods: boolean, imports: Set<string>): LintEdit[] {
+  const { sourceFile } = context;
+  const edits: LintEdit[] = [];
+  const handled = new Set<ts.Node>();
+
+  walk(sourceFile, (node) => {
+    // const { sound } = await Audio.Sound.createAsync(source, options)
+    if (ts.isVariableDeclaration(node) && ts.isObjectBindingPattern(node.name) && node.initializer) {
+      const call = ts.isAwaitExpression(node.initializer) ? node.initializer.expression : node.initializer;
+      if (
+        !ts.isCallExpression(call) ||
+        !ts.isPropertyAccessExpression(call.expression) ||
+        call.expression.name.text !== 'createAsync' ||
+        !ts.isPropertyAccessExpression(call.expression.expression) ||
+        call.expression.expression.getText(sourceFile) !== `${audioName}.Sound`
+      ) {
+        return;
+      }
+      handled.add(call.expression.expression.expression);
+
+      const elements = node.name.elements;
+      const sound = elements.find((element) => (element.propertyName ?? element.name).getText(sourceFile) === 'sound');
+      const [source, options] = call.arguments;
+      if (!sound || elements.length > 1 || !ts.isIdentifier(sound.name) || !source) {
+        context.note(node, 'Replace Audio.Sound.createAsync() with createAudioPlayer(source) (or useAudioPlayer in a component) by hand');
+        return;
+      }
+
+      const player = sound.name.text;
+      const setup: string[] = [];
+      if (options) {
+        if (!ts.isObjectLiteralExpression(options)) {
+          context.note(options, `Apply these createAsync options to ${player} by hand (play(), loop, volume, muted)`);
+        } else {
+          for (const property of options.properties) {
+            const apply = ts.isPropertyAssignment(property) && property.name.getText(sourceFile) in SOUND_OPTIONS
+              ? SOUND_OPTIONS[property.name.getText(sourceFile)](player, property.initializer.getText(sourceFile))
+              : undefined;
+            if (apply === undefined) context.note(property, `Apply the ${property.name?.getText(sourceFile) ?? ''} option to ${player} by hand`);
+            else if (apply) setup.push(apply);
+          }
+        }
+      }
+
+      edits.push(replaceNode(sourceFile, node, `${player} = createAudioPlayer(${source.getText(sourceFile)})`));
+      const statement = node.parent.parent;
+      if (setup.length > 0 && ts.isVariableStatement(statement)) {
+        const indent = indentOf(sourceFile, statement);
+        edits.push({ start: statement.getEnd(), end: statement.getEnd(), text: setup.map((line) => `\n${indent}${line}`).join('') });
+      }
+      imports.add('createAudioPlayer');
+      return;
+    }
+
+    // Audio.setAudioModeAsync({ ... })
+    if (isMemberCall(node, audioName, 'setAudioModeAsync')) {
+      handled.add((node.expression as ts.PropertyAccessExpression).expression);
+      edits.push(replaceNode(sourceFile, node.expression, 'setAudioModeAsync'));
+      const [mode] = node.arguments;
+      if (mode && ts.isObjectLiteralExpression(mode)) {
+        for (const property of mode.properties) {
+          const name = property.name?.getText(sourceFile);
+          if (property.name && name && name in AUDIO_MODE_OPTIONS) {
+            edits.push(replaceNode(sourceFile, property.name, AUDIO_MODE_OPTIONS[name]));
+          } else if (name && !Object.values(AUDIO_MODE_OPTIONS).includes(name)) {
+            context.note(property, `expo-audio's setAudioModeAsync has no ${name} option; check its AudioMode type`);
+          }
+        }
+      }
+      imports.add('setAudioModeAsync');
+      return;
+    }
+
+    // Audio.Sound in type positions
+    if (
+      ts.isTypeReferenceNode(node) &&
+      ts.isQualifiedName(node.typeName) &&
+      node.typeName.getText(sourceFile) === `${audioName}.Sound`
+    ) {
+      handled.add(node.typeName.left);
+      edits.push(replaceNode(sourceFile, node.typeName, 'AudioPlayer'));
+      imports.add('type AudioPlayer');
+      return;
+    }
+
+    // sound.playAsync() and friends
+    if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+      const method = node.expression.name.text;
+      if (method in SOUND_METHODS) {
+        if (renameMethods) edits.push(replaceNode(sourceFile, node.expression.name, SOUND_METHODS[method]));
+        else context.note(node, `If this is a Sound, ${method}() becomes ${SOUND_METHODS[method]}() on an AudioPlayer`);
+      } else if (method in SOUND_METHODS_BY_HAND) {
+        context.note(node, `${method}() has no AudioPlayer method; use ${SOUND_METHODS_BY_HAND[method]}`);
+      }
+    }
+  });
+
+  // Whatever else still goes through Audio (recording, permissions, …)
+  walk(sourceFile, (node) => {
+    const object = ts.isPropertyAccessExpression(node) ? node.expression
+      : ts.isQualifiedName(node) ? node.left
+      : undefined;
+    if (object && ts.isIdentifier(object) && object.text === audioName && !handled.has(object)) {
+      context.note(node, `${node.getText(sourceFile)} has no automatic migration; see expo-audio (useAudioRecorder, AudioModule)`);
+    }
+  });
+
+  return edits;
+}
+
+const expoAvToAudioVideo: SdkCodemod = {
+  id: 'expo-av',
+  description: 'Move expo-av playback to expo-audio (createAudioPlayer, setAudioModeAsync) and expo-video (useVideoPlayer, VideoView).',
+  files: SCRIPT_FILES,
+  appliesTo: (_from, to) => 'expo-av' in to.deprecated,
+  prunes: { 'expo-av': '*' },
+  transform(context) {
+    const { sourceFile } = context;
+    const imported = namedImports(sourceFile, 'expo-av');
+    const videoName = imported.get('Video');
+    const audioName = imported.get('Audio');
+    const audioImports = new Set<string>();
+    const videoImports = new Set<string>();
+
+    const edits: LintEdit[] = [];
+    if (videoName) edits.push(...migrateVideos(context, videoName, imported.get('ResizeMode'), videoImports));
+    if (audioName) edits.push(...migrateAudio(context, audioName, !videoName, audioImports));
+    if (audioImports.size > 0) edits.push(...ensureNamedImport(sourceFile, 'expo-audio', [...audioImports].sort()));
+    if (videoImports.size > 0) edits.push(...ensureNamedImport(sourceFile, 'expo-video', [...videoImports].sort()));
+    return edits;
+  },
+};
+
+/** In the order they run; each sees the output of the ones before. */
+export const SDK_CODEMODS: SdkCodemod[] = [
+  safeAreaContext,
+  windowDimensions,
+  expoAvToAudioVideo,
+];
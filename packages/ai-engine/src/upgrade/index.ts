@@ -0,0 +1,280 @@
+/**
+ * Expo SDK upgrades.
+ *
+ * Moves a project from one SDK to a newer one: package.json gets the target
+ * SDK's versions from the manifest (@rork/shared EXPO_SDKS), codemods rewrite
+ * APIs that moved, and the result is verified against the target SDK. Nothing
+ * is written here; callers present the changes for review.
+ */
+
+import {
+  findImportedPackages,
+  formatJson,
+  getExpoSdk,
+  orderDependencies,
+  type ExpoSdk,
+  type ExpoSdkVersion,
+} from '@rork/shared';
+import { applyLintEdits, matchesGlob, parseSourceFile, type LintEdit, type LintRuleToggles } from '../lint';
+import { pruneUnusedImports } from '../lint/edits';
+import { runChecks, type ToolResult } from '../tools';
+import { SDK_CODEMODS, type SdkCodemod } from './codemods';
+
+export interface SdkUpgradeFileChange {
+  path: string;
+  original: string;
+  content: string;
+  /** Codemods that changed the file ('package-json' / 'app-json' for the manifests) */
+  codemods: string[];
+}
+
+/** Something the upgrade could not migrate, left for the developer */
+export interface SdkUpgradeNote {
+  file: string;
+  line: number;
+  codemod: string;
+  message: string;
+}
+
+export interface SdkUpgradePlan {
+  from: ExpoSdkVersion;
+  to: ExpoSdkVersion;
+  changes: SdkUpgradeFileChange[];
+  notes: SdkUpgradeNote[];
+  /** Typecheck and lint of the upgraded project against the target SDK (null when skipped) */
+  verification: ToolResult | null;
+}
+
+export interface SdkUpgradeOptions {
+  lintRules?: LintRuleToggles;
+  /** Verify the upgraded project (default true) */
+  verify?: boolean;
+}
+
+export interface SdkCodemodInfo {
+  id: string;
+  description: string;
+}
+
+/** The codemods an upgrade from `fromVersion` to `toVersion` runs. */
+export function describeSdkCodemods(fromVersion: string, toVersion: string): SdkCodemodInfo[] {
+  const from = getExpoSdk(fromVersion);
+  const to = getExpoSdk(toVersion);
+  return SDK_CODEMODS
+    .filter((codemod) => codemod.appliesTo(from, to))
+    .map(({ id, description }) => ({ id, description }));
+}
+
+// ── Codemods ──
+
+/** A note while its file is still being rewritten, at an offset into the current content */
+interface PendingNote {
+  position: number;
+  codemod: string;
+  message: string;
+}
+
+/** Where `position` ends up once `edits` are applied, as applyLintEdits applies them */
+function mapPosition(position: number, edits: LintEdit[]): number {
+  let mapped = position;
+  let lastStart = Infinity;
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    if (edit.end > lastStart) continue;
+    lastStart = edit.start;
+    if (edit.end <= mapped) mapped += edit.text.length - (edit.end - edit.start);
+    else if (edit.start < mapped) mapped = edit.start;
+  }
+  return mapped;
+}
+
+/** Apply `edits`, moving the pending notes along with the text they point at */
+function applyTrackedEdits(content: string, edits: LintEdit[], pending: PendingNote[]): string {
+  for (const note of pending) note.position = mapPosition(note.position, edits);
+  return applyLintEdits(content, edits);
+}
+
+/**
+ * Run the codemods over one file in turn. Notes are reported against the
+ * upgraded content, so their lines match the file the developer reviews.
+ */
+function runCodemods(
+  path: string,
+  content: string,
+  codemods: SdkCodemod[],
+  from: ExpoSdk,
+  to: ExpoSdk,
+  notes: SdkUpgradeNote[]
+): { content: string; applied: string[] } {
+  let current = content;
+  const applied: string[] = [];
+  const pending: PendingNote[] = [];
+
+  for (const codemod of codemods) {
+    if (!matchesGlob(path, codemod.files)) continue;
+
+    const sourceFile = parseSourceFile(path, current);
+    const edits = codemod.transform({
+      path,
+      sourceFile,
+      from,
+      to,
+      note(node, message) {
+        pending.push({ position: node.getStart(sourceFile), codemod: codemod.id, message });
+      },
+    });
+    if (edits.length === 0) continue;
+
+    const next = pruneUnusedImports(
+      path,
+      applyTrackedEdits(current, edits, pending),
+      codemod.prunes,
+      (text, removals) => applyTrackedEdits(text, removals, pending)
+    );
+    if (next !== current) {
+      current = next;
+      applied.push(codemod.id);
+    }
+  }
+
+  for (const { position, codemod, message } of pending) {
+    const line = current.slice(0, position).split('\n').length;
+    notes.push({ file: path, line, codemod, message });
+  }
+  return { content: current, applied };
+}
+
+// ── Manifests ──
+
+/**
+ * Pin every dependency the target SDK lists to its version, add packages the
+ * codemods started importing, and drop deprecated ones nothing imports.
+ */
+function upgradePackageJson(
+  content: string,
+  to: ExpoSdk,
+  imported: Set<string>,
+  introduced: Set<string>,
+  notes: SdkUpgradeNote[]
+): string {
+  let pkg: { dependencies?: Record<string, string>; devDependencies?: Record<string, string> };
+  try {
+    pkg = JSON.parse(content);
+  } catch {
+    notes.push({ file: 'package.json', line: 1, codemod: 'package-json', message: 'package.json is not valid JSON; update its versions by hand' });
+    return content;
+  }
+
+  const dependencies = { ...(pkg.dependencies ?? {}) };
+  const before = Object.keys(dependencies);
+  for (const name of Object.keys(dependencies)) {
+    if (to.packages[name]) dependencies[name] = to.packages[name];
+    else if (name.startsWith('expo-')) {
+      notes.push({ file: 'package.json', line: 1, codemod: 'package-json', message: `${name} is not in the Expo SDK ${to.major} manifest; check its version by hand` });
+    }
+  }
+  for (const name of introduced) {
+    if (!(name in dependencies) && to.packages[name]) dependencies[name] = to.packages[name];
+  }
+  for (const name of Object.keys(to.deprecated)) {
+    if (name in dependencies && !imported.has(name)) delete dependencies[name];
+  }
+
+  const devDependencies = { ...(pkg.devDependencies ?? {}) };
+  for (const name of Object.keys(devDependencies)) {
+    if (to.devDependencies[name]) devDependencies[name] = to.devDependencies[name];
+  }
+
+  return formatJson({
+    ...pkg,
+    ...(pkg.dependencies || Object.keys(dependencies).length > 0 ? { dependencies: orderDependencies(dependencies, before) } : {}),
+    ...(pkg.devDependencies ? { devDependencies } : {}),
+  }, content);
+}
+
+/** Update `expo.sdkVersion` in app.json when the project pins one */
+function upgradeAppJson(content: string, to: ExpoSdk): string {
+  try {
+    const config = JSON.parse(content);
+    if (typeof config?.expo?.sdkVersion !== 'string') return content;
+    return formatJson({ ...config, expo: { ...config.expo, sdkVersion: to.version } }, content);
+  } catch {
+    return content;
+  }
+}
+
+// ── Planning ──
+
+/**
+ * Upgrade `files` (path → content) from one SDK to a newer one. Returns the
+ * changed files, notes on what needs a hand migration, and the verification
+ * result of the upgraded project.
+ */
+export function planSdkUpgrade(
+  files: Record<string, string>,
+  fromVersion: string,
+  toVersion: string,
+  options: SdkUpgradeOptions = {}
+): SdkUpgradePlan {
+  const from = getExpoSdk(fromVersion);
+  const to = getExpoSdk(toVersion);
+  const codemods = SDK_CODEMODS.filter((codemod) => codemod.appliesTo(from, to));
+
+  const upgraded: Record<string, string> = { ...files };
+  const applied: Record<string, string[]> = {};
+  const notes: SdkUpgradeNote[] = [];
+
+  for (const [path, content] of Object.entries(files)) {
+    const result = runCodemods(path, content, codemods, from, to, notes);
+    if (result.applied.length === 0) continue;
+    upgraded[path] = result.content;
+    applied[path] = result.applied;
+  }
+
+  // Packages still imported after the codemods, and those they introduced
+  const imported = new Set<string>();
+  const introduced = new Set<string>();
+  for (const [path, content] of Object.entries(upgraded)) {
+    if (!matchesGlob(path, ['**/*.{ts,tsx,js,jsx}'])) continue;
+    const packages = findImportedPackages(content);
+    packages.forEach((name) => imported.add(name));
+    if (applied[path]) {
+      const before = findImportedPackages(files[path]);
+      packages.forEach((name) => !before.has(name) && introduced.add(name));
+    }
+  }
+  for (const [name, replacement] of Object.entries(to.deprecated)) {
+    if (imported.has(name)) {
+      notes.push({
+        file: 'package.json',
+        line: 1,
+        codemod: 'package-json',
+        message: `${name} is still imported and deprecated in Expo SDK ${to.major}; finish moving to ${replacement}`,
+      });
+    }
+  }
+
+  if (files['package.json'] !== undefined) {
+    upgraded['package.json'] = upgradePackageJson(files['package.json'], to, imported, introduced, notes);
+    if (upgraded['package.json'] !== files['package.json']) applied['package.json'] = ['package-json'];
+  }
+  if (files['app.json'] !== undefined) {
+    upgraded['app.json'] = upgradeAppJson(files['app.json'], to);
+    if (upgraded['app.json'] !== files['app.json']) applied['app.json'] = ['app-json'];
+  }
+
+  const changes = Object.keys(applied)
+    .sort()
+    .map((path) => ({ path, original: files[path], content: upgraded[path], codemods: applied[path] }));
+
+  return {
+    from: from.version,
+    to: to.version,
+    changes,
+    notes,
+    verification: options.verify === false
+      ? null
+      : runChecks(upgraded, ['typecheck', 'lint'], { lintRules: options.lintRules, sdkVersion: to.version }),
+  };
+}
+
+export { SDK_CODEMODS, type SdkCodemod, type CodemodContext } from './codemods';
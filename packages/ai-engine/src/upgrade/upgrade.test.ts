@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { planSdkUpgrade } from '.';
+
+const PACKAGE_JSON = `{
+  "name": "app",
+  "main": "expo-router/entry",
+  "dependencies": {
+    "expo": "~52.0.0",
+    "expo-av": "~15.0.2",
+    "react": "18.3.1",
+    "react-native": "0.76.9",
+    "react-native-safe-area-context": "4.12.0"
+  },
+  "devDependencies": {
+    "typescript": "^5.3.3"
+  }
+}
+`;
+
+const HOME = `import { Dimensions, SafeAreaView, Text } from 'react-native';
+import { Audio } from 'expo-av';
+
+const { width } = Dimensions.get('window');
+
+export default function Home() {
+  async function play() {
+    const { sound } = await Audio.Sound.createAsync(require('../assets/ding.mp3'), { shouldPlay: true });
+    await sound.setPositionAsync(0);
+    await sound.playAsync();
+  }
+  return (
+    <SafeAreaView style={{ width }}>
+      <Text onPress={play}>Play</Text>
+    </SafeAreaView>
+  );
+}
+`;
+
+const CLIP = `import { ResizeMode, Video } from 'expo-av';
+import { View } from 'react-native';
+
+export default function Clip() {
+  return (
+    <View>
+      <Video source={{ uri: 'https://example.com/clip.mp4' }} resizeMode={ResizeMode.COVER} isLooping shouldPlay useNativeControls style={{ height: 200 }} />
+    </View>
+  );
+}
+`;
+
+function upgrade(files: Record<string, string>) {
+  const plan = planSdkUpgrade(files, '52.0.0', '54.0.0', { verify: false });
+  const upgraded = Object.fromEntries(plan.changes.map((change) => [change.path, change.content]));
+  return { plan, upgraded };
+}
+
+describe('planSdkUpgrade', () => {
+  it('moves SafeAreaView to react-native-safe-area-context and expo-av sounds to expo-audio', () => {
+    const { plan, upgraded } = upgrade({ 'app/index.tsx': HOME });
+
+    expect(plan.changes.map(({ path, codemods }) => [path, codemods])).toEqual([['app/index.tsx', ['safe-area-context', 'expo-av']]]);
+    expect(upgraded['app/index.tsx']).toBe(`import { Dimensions, Text } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { createAudioPlayer } from 'expo-audio';
+
+const { width } = Dimensions.get('window');
+
+export default function Home() {
+  async function play() {
+    const sound = createAudioPlayer(require('../assets/ding.mp3'));
+    sound.play();
+    await sound.setPositionAsync(0);
+    await sound.play();
+  }
+  return (
+    <SafeAreaView style={{ width }}>
+      <Text onPress={play}>Play</Text>
+    </SafeAreaView>
+  );
+}
+`);
+  });
+
+  it('moves expo-av videos to a player from useVideoPlayer and VideoView', () => {
+    const { upgraded } = upgrade({ 'app/video.tsx': CLIP });
+
+    expect(upgraded['app/video.tsx']).toBe(`import { View } from 'react-native';
+import { VideoView, useVideoPlayer } from 'expo-video';
+
+export default function Clip() {
+  const player = useVideoPlayer({ uri: 'https://example.com/clip.mp4' }, (player) => { player.loop = true; player.play(); });
+  return (
+    <View>
+      <VideoView player={player} contentFit="cover" nativeControls style={{ height: 200 }} />
+    </View>
+  );
+}
+`);
+  });
+
+  it('bumps package.json to the target SDK, swapping expo-av for the packages the codemods import', () => {
+    const { upgraded } = upgrade({ 'package.json': PACKAGE_JSON, 'app/index.tsx': HOME, 'app/video.tsx': CLIP });
+
+    expect(upgraded['package.json']).toBe(`{
+  "name": "app",
+  "main": "expo-router/entry",
+  "dependencies": {
+    "expo": "~54.0.0",
+    "expo-audio": "~1.0.13",
+    "expo-video": "~3.0.11",
+    "react": "19.1.0",
+    "react-native": "0.81.4",
+    "react-native-safe-area-context": "~5.6.0"
+  },
+  "devDependencies": {
+    "typescript": "~5.9.2"
+  }
+}
+`);
+  });
+
+  it('reports notes on the lines of the upgraded file', () => {
+    const { plan, upgraded } = upgrade({ 'app/index.tsx': HOME });
+    const lines = upgraded['app/index.tsx'].split('\n');
+
+    expect(plan.notes.map(({ line, codemod }) => [line, codemod])).toEqual([[5, 'use-window-dimensions'], [11, 'expo-av']]);
+    expect(lines[5 - 1]).toContain('Dimensions.get');
+    expect(lines[11 - 1]).toContain('setPositionAsync');
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Project dependencies: which packages a project may declare, structural
+ * edits to its package.json, and the check that what the code imports and
+ * what package.json declares agree.
+ *
+ * The allow-list is the SDK manifest (./expo-sdk) plus pure-JS libraries
+ * Snackager is known to bundle. Anything else fails at Snack resolution time,
+ * so the agent's add_dependency tool and the editor's Dependencies panel
+ * refuse it up front.
+ */
+
+import {
+  CORE_PACKAGES,
+  DEV_BUILD_PACKAGES,
+  ROUTER_PACKAGES,
+  getPackageName,
+  type ExpoSdk,
+} from './expo-sdk';
+
+/** Pure-JS libraries that work in Snack on every supported SDK → version */
+export const SNACK_JS_PACKAGES: Record<string, string> = {
+  '@tanstack/react-query': '^5.66.0',
+  '@react-three/drei': '^9.117.0',
+  '@react-three/fiber': '^8.17.10',
+  'axios': '^1.7.9',
+  'date-fns': '^4.1.0',
+  'dayjs': '^1.11.13',
+  'fuse.js': '^7.1.0',
+  'i18n-js': '^4.5.1',
+  'immer': '^10.1.1',
+  'jotai': '^2.12.1',
+  'lodash': '^4.17.21',
+  'react-hook-form': '^7.54.2',
+  'three': '^0.170.0',
+  'zod': '^3.24.2',
+  'zustand': '^5.0.3',
+};
+
+/** Packages Snack can't run → what to use instead */
+const UNSUPPORTED_PACKAGES: Record<string, string> = {
+  'lucide-react-native': '@expo/vector-icons',
+  'nativewind': 'StyleSheet.create',
+  'tailwindcss': 'StyleSheet.create',
+  '@tamagui/core': 'react-native components',
+  'tamagui': 'react-native components',
+  'expo-gl': '@react-three/fiber',
+};
+
+/**
+ * Declared packages nothing imports by design: config plugins, runtime
+ * peers and the dev client.
+ */
+const IMPORT_FREE_PACKAGES = ['expo-dev-client', 'expo-system-ui', 'react-native-worklets'];
+
+const PACKAGE_NAME = /^(@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
+
+/** The version a project on `sdk` should declare for `name`; undefined when it isn't allowed */
+export function getDependencyVersion(sdk: ExpoSdk, name: string): string | undefined {
+  return sdk.packages[name] ?? SNACK_JS_PACKAGES[name];
+}
+
+/** Why `name` can't be added to a project on `sdk`, or null when it can */
+export function dependencyError(sdk: ExpoSdk, name: string): string | null {
+  if (!PACKAGE_NAME.test(name)) return `"${name}" is not a valid package name`;
+  if (UNSUPPORTED_PACKAGES[name]) return `${name} is not available in Snack; use ${UNSUPPORTED_PACKAGES[name]} instead`;
+  if (DEV_BUILD_PACKAGES.includes(name)) return `${name} has native code Expo Go doesn't include and needs a development build`;
+  if (sdk.deprecated[name]) return `${name} is deprecated in Expo SDK ${sdk.major}; use ${sdk.deprecated[name]}`;
+  if (!getDependencyVersion(sdk, name)) return `${name} is not on the list of packages Snack can run for Expo SDK ${sdk.major}`;
+  return null;
+}
+
+/** Every package a project on `sdk` may add → version, sorted by name */
+export function getAllowedDependencies(sdk: ExpoSdk): Record<string, string> {
+  const names = [...Object.keys(sdk.packages), ...Object.keys(SNACK_JS_PACKAGES)]
+    .filter((name) => !sdk.deprecated[name])
+    .sort((a, b) => a.localeCompare(b));
+  return Object.fromEntries(names.map((name) => [name, getDependencyVersion(sdk, name)!]));
+}
+
+// ── package.json ──
+
+interface PackageJson {
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+function parsePackageJson(content: string): PackageJson {
+  let pkg: unknown;
+  try {
+    pkg = JSON.parse(content);
+  } catch {
+    throw new Error('package.json is not valid JSON');
+  }
+  if (!pkg || typeof pkg !== 'object' || Array.isArray(pkg)) throw new Error('package.json must contain an object');
+  return pkg as PackageJson;
+}
+
+function jsonIndent(content: string): string | number {
+  return /^([ \t]+)"/m.exec(content)?.[1] ?? 2;
+}
+
+/** `value` serialized with the indentation and trailing newline of `original` */
+export function formatJson(value: unknown, original: string): string {
+  return JSON.stringify(value, null, jsonIndent(original)) + (original.endsWith('\n') ? '\n' : '');
+}
+
+function isSorted(names: string[]): boolean {
+  return names.every((name, i) => i === 0 || names[i - 1].localeCompare(name) <= 0);
+}
+
+/** `dependencies` sorted by name when `before` was, otherwise in insertion order */
+export function orderDependencies(dependencies: Record<string, string>, before: string[]): Record<string, string> {
+  return isSorted(before)
+    ? Object.fromEntries(Object.entries(dependencies).sort(([a], [b]) => a.localeCompare(b)))
+    : dependencies;
+}
+
+/** The `dependencies` of a package.json, or null when it doesn't parse */
+export function readDependencies(content: string): Record<string, string> | null {
+  try {
+    return { ...(parsePackageJson(content).dependencies ?? {}) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Declare `name` at `version`, keeping every other field, the file's
+ * formatting and (when they were sorted) the dependency order. Throws when
+ * package.json doesn't parse.
+ */
+export function setDependency(content: string, name: string, version: string): string {
+  const pkg = parsePackageJson(content);
+  const before = Object.keys(pkg.dependencies ?? {});
+  const dependencies = orderDependencies({ ...(pkg.dependencies ?? {}), [name]: version }, before);
+  return formatJson({ ...pkg, dependencies }, content);
+}
+
+/**
+ * Drop `name` from dependencies and devDependencies; `content` comes back
+ * unchanged when it declares neither. Throws when package.json doesn't parse.
+ */
+export function removeDependency(content: string, name: string): string {
+  const pkg = parsePackageJson(content);
+  if (!Object.hasOwn(pkg.dependencies ?? {}, name) && !Object.hasOwn(pkg.devDependencies ?? {}, name)) return content;
+  const without = (deps?: Record<string, string>) =>
+    deps && Object.fromEntries(Object.entries(deps).filter(([dep]) => dep !== name));
+  return formatJson({ ...pkg, dependencies: without(pkg.dependencies), devDependencies: without(pkg.devDependencies) }, content);
+}
+
+// ── Imports ──
+
+const SOURCE_FILE = /\.(tsx?|jsx?)$/;
+
+/** Packages imported anywhere in `content` (relative and '@/' imports excluded) */
+export function findImportedPackages(content: string): Set<string> {
+  const packages = new Set<string>();
+  const pattern = /(?:from\s+|import\s*\(?\s*|require\(\s*)['"]([^'"]+)['"]/g;
+  for (const match of content.matchAll(pattern)) {
+    const specifier = match[1];
+    if (!specifier.startsWith('.') && !specifier.startsWith('@/')) packages.add(getPackageName(specifier));
+  }
+  return packages;
+}
+
+export interface DependencyWarning {
+  kind: 'undeclared' | 'unused';
+  name: string;
+  /** Files importing the package (undeclared) or ['package.json'] (unused) */
+  files: string[];
+  message: string;
+}
+
+/** Config plugins app.json names: declared for them, never imported */
+function configPlugins(appJson: string | undefined): Set<string> {
+  try {
+    const plugins: unknown = JSON.parse(appJson ?? '{}')?.expo?.plugins;
+    if (!Array.isArray(plugins)) return new Set();
+    return new Set(plugins.map((plugin) => (Array.isArray(plugin) ? plugin[0] : plugin)).filter((p) => typeof p === 'string'));
+  } catch {
+    return new Set();
+  }
+}
+
+/**
+ * Compare what `files` (path → content) import with what package.json
+ * declares: imported packages it doesn't declare, and declared ones nothing
+ * imports. Returns nothing when package.json is missing or doesn't parse.
+ */
+export function checkProjectDependencies(files: Record<string, string>): DependencyWarning[] {
+  if (files['package.json'] === undefined) return [];
+  let pkg: PackageJson;
+  try {
+    pkg = parsePackageJson(files['package.json']);
+  } catch {
+    return [];
+  }
+  const declared = new Set([...Object.keys(pkg.dependencies ?? {}), ...Object.keys(pkg.devDependencies ?? {})]);
+
+  const importers = new Map<string, string[]>();
+  for (const [path, content] of Object.entries(files).sort(([a], [b]) => a.localeCompare(b))) {
+    if (!SOURCE_FILE.test(path)) continue;
+    for (const name of findImportedPackages(content)) {
+      importers.set(name, [...(importers.get(name) ?? []), path]);
+    }
+  }
+
+  const warnings: DependencyWarning[] = [];
+  for (const [name, paths] of importers) {
+    if (declared.has(name)) continue;
+    const where = paths.length > 1 ? `${paths[0]} and ${paths.length - 1} more` : paths[0];
+    warnings.push({ kind: 'undeclared', name, files: paths, message: `${name} is imported by ${where} but not declared in package.json` });
+  }
+
+  const expected = new Set([
+    ...CORE_PACKAGES,
+    ...(declared.has('expo-router') ? ROUTER_PACKAGES : []),
+    ...IMPORT_FREE_PACKAGES,
+    ...configPlugins(files['app.json']),
+  ]);
+  for (const name of Object.keys(pkg.dependencies ?? {})) {
+    if (importers.has(name) || expected.has(name)) continue;
+    warnings.push({ kind: 'unused', name, files: ['package.json'], message: `${name} is declared in package.json but never imported` });
+  }
+
+  return warnings;
+}
@@ -0,0 +1,243 @@
+/**
+ * Expo SDK manifest: the SDKs projects can target and, for each, the
+ * packages they may use with the versions `npx expo install` would pick.
+ *
+ * Everything that names an SDK or a package version derives from here: the
+ * system prompts, the Snack preview's dependency resolver, scaffolding,
+ * export and lint. packages/expo-template/package.json mirrors the default
+ * SDK by hand (JSON can't import it); keep them in step.
+ */
+
+export const EXPO_SDK_VERSIONS = ['52.0.0', '54.0.0'] as const;
+
+export type ExpoSdkVersion = (typeof EXPO_SDK_VERSIONS)[number];
+
+/** What new projects target */
+export const DEFAULT_EXPO_SDK_VERSION: ExpoSdkVersion = '54.0.0';
+
+export interface ExpoSdk {
+  /** Full SDK version, as Snack and `projects.sdk_version` spell it */
+  version: ExpoSdkVersion;
+  major: number;
+  /** Allowed packages → version range bundled with this SDK */
+  packages: Record<string, string>;
+  /** Dev dependencies a standalone TypeScript project needs */
+  devDependencies: Record<string, string>;
+  /** Packages the Snack runtime ships with: they resolve instantly, at any version */
+  snackPreloaded: string[];
+  /** Packages deprecated in this SDK → what to use instead */
+  deprecated: Record<string, string>;
+}
+
+// Modules the Snack runtime bundles for SDK 52-54 (snack-content's sdks list)
+const SNACK_PRELOADED = [
+  'react',
+  'react-native',
+  'expo-router',
+  '@expo/vector-icons',
+  'react-native-safe-area-context',
+  'react-native-reanimated',
+  'react-native-gesture-handler',
+  '@react-native-async-storage/async-storage',
+  'react-native-pager-view',
+  'expo-constants',
+  'expo-font',
+  'expo-asset',
+  'expo-file-system',
+];
+
+export const EXPO_SDKS: Record<ExpoSdkVersion, ExpoSdk> = {
+  '52.0.0': {
+    version: '52.0.0',
+    major: 52,
+    packages: {
+      'expo': '~52.0.0',
+      'react': '18.3.1',
+      'react-dom': '18.3.1',
+      'react-native': '0.76.9',
+      'react-native-web': '~0.19.13',
+      'expo-router': '~4.0.0',
+      'expo-status-bar': '~2.0.1',
+      'expo-constants': '~17.0.8',
+      'expo-linking': '~7.0.5',
+      'expo-font': '~13.0.4',
+      'expo-asset': '~11.0.5',
+      'expo-splash-screen': '~0.29.24',
+      'expo-system-ui': '~4.0.9',
+      'expo-web-browser': '~14.0.2',
+      'expo-image': '~2.0.7',
+      'expo-blur': '~14.0.3',
+      'expo-haptics': '~14.0.1',
+      'expo-linear-gradient': '~14.0.2',
+      'expo-clipboard': '~7.0.1',
+      'expo-av': '~15.0.2',
+      'expo-audio': '~0.3.5',
+      'expo-video': '~2.0.6',
+      'expo-camera': '~16.0.18',
+      'expo-image-picker': '~16.0.6',
+      'expo-media-library': '~17.0.6',
+      'expo-location': '~18.0.10',
+      'expo-notifications': '~0.29.14',
+      'expo-secure-store': '~14.0.1',
+      'expo-file-system': '~18.0.12',
+      'expo-sharing': '~13.0.1',
+      'expo-sensors': '~14.0.2',
+      'expo-device': '~7.0.3',
+      'expo-application': '~6.0.2',
+      'expo-crypto': '~14.0.2',
+      'expo-localization': '~16.0.1',
+      'expo-sqlite': '~15.1.4',
+      'expo-speech': '~13.0.1',
+      'expo-document-picker': '~13.0.3',
+      'expo-auth-session': '~6.0.3',
+      'expo-print': '~14.0.3',
+      'expo-symbols': '~0.2.2',
+      '@expo/vector-icons': '^14.0.2',
+      'react-native-safe-area-context': '4.12.0',
+      'react-native-screens': '~4.4.0',
+      'react-native-reanimated': '~3.16.1',
+      'react-native-gesture-handler': '~2.20.2',
+      'react-native-svg': '15.8.0',
+      'react-native-webview': '13.12.5',
+      'react-native-maps': '1.18.0',
+      'react-native-pager-view': '6.5.1',
+      'lottie-react-native': '7.1.0',
+      '@react-native-async-storage/async-storage': '1.23.1',
+      '@react-native-community/datetimepicker': '8.2.0',
+      '@react-native-community/slider': '4.5.5',
+      '@react-native-picker/picker': '2.9.0',
+      '@shopify/flash-list': '1.7.3',
+    },
+    devDependencies: {
+      '@babel/core': '^7.25.2',
+      '@types/react': '~18.3.12',
+      'typescript': '^5.3.3',
+    },
+    snackPreloaded: SNACK_PRELOADED,
+    deprecated: {},
+  },
+  '54.0.0': {
+    version: '54.0.0',
+    major: 54,
+    packages: {
+      'expo': '~54.0.0',
+      'react': '19.1.0',
+      'react-dom': '19.1.0',
+      'react-native': '0.81.4',
+      'react-native-web': '^0.21.0',
+      'expo-router': '~6.0.10',
+      'expo-status-bar': '~3.0.8',
+      'expo-constants': '~18.0.9',
+      'expo-linking': '~8.0.8',
+      'expo-font': '~14.0.9',
+      'expo-asset': '~12.0.9',
+      'expo-splash-screen': '~31.0.10',
+      'expo-system-ui': '~6.0.7',
+      'expo-web-browser': '~15.0.8',
+      'expo-image': '~3.0.9',
+      'expo-blur': '~15.0.7',
+      'expo-haptics': '~15.0.7',
+      'expo-linear-gradient': '~15.0.7',
+      'expo-clipboard': '~8.0.7',
+      'expo-av': '~16.0.7',
+      'expo-audio': '~1.0.13',
+      'expo-video': '~3.0.11',
+      'expo-camera': '~17.0.8',
+      'expo-image-picker': '~17.0.8',
+      'expo-media-library': '~18.2.0',
+      'expo-location': '~19.0.7',
+      'expo-notifications': '~0.32.12',
+      'expo-secure-store': '~15.0.7',
+      'expo-file-system': '~19.0.17',
+      'expo-sharing': '~14.0.7',
+      'expo-sensors': '~15.0.7',
+      'expo-device': '~8.0.9',
+      'expo-application': '~7.0.7',
+      'expo-crypto': '~15.0.7',
+      'expo-localization': '~17.0.7',
+      'expo-sqlite': '~16.0.8',
+      'expo-speech': '~14.0.7',
+      'expo-document-picker': '~14.0.7',
+      'expo-auth-session': '~7.0.8',
+      'expo-print': '~15.0.7',
+      'expo-symbols': '~1.0.7',
+      '@expo/vector-icons': '^15.0.2',
+      'react-native-safe-area-context': '~5.6.0',
+      'react-native-screens': '~4.16.0',
+      'react-native-reanimated': '~4.1.1',
+      'react-native-worklets': '0.5.1',
+      'react-native-gesture-handler': '~2.28.0',
+      'react-native-svg': '15.12.1',
+      'react-native-webview': '13.15.0',
+      'react-native-maps': '1.20.1',
+      'react-native-pager-view': '6.9.1',
+      'lottie-react-native': '~7.3.1',
+      '@react-native-async-storage/async-storage': '2.2.0',
+      '@react-native-community/datetimepicker': '8.4.4',
+      '@react-native-community/slider': '5.0.1',
+      '@react-native-picker/picker': '2.11.1',
+      '@shopify/flash-list': '2.0.2',
+    },
+    devDependencies: {
+      '@babel/core': '^7.25.2',
+      '@types/react': '~19.1.10',
+      'typescript': '~5.9.2',
+    },
+    snackPreloaded: SNACK_PRELOADED,
+    deprecated: {
+      'expo-av': 'expo-audio (useAudioPlayer) for sound or expo-video (useVideoPlayer, VideoView) for video',
+    },
+  },
+};
+
+export function isExpoSdkVersion(value: unknown): value is ExpoSdkVersion {
+  return typeof value === 'string' && (EXPO_SDK_VERSIONS as readonly string[]).includes(value);
+}
+
+/** The manifest for `version`; unknown or missing versions get the default SDK */
+export function getExpoSdk(version?: string | null): ExpoSdk {
+  return EXPO_SDKS[isExpoSdkVersion(version) ? version : DEFAULT_EXPO_SDK_VERSION];
+}
+
+/** The SDK an `expo` dependency range belongs to ('~52.0.0' → '52.0.0'), or null when none matches */
+export function findExpoSdkVersion(expoRange: string | undefined): ExpoSdkVersion | null {
+  const major = expoRange?.match(/(\d+)\./)?.[1];
+  return EXPO_SDK_VERSIONS.find((version) => version.startsWith(`${major}.`)) ?? null;
+}
+
+/** `names` pinned to the SDK's versions; names the SDK doesn't list are left out */
+export function getSdkDependencies(sdk: ExpoSdk, names: string[]): Record<string, string> {
+  return Object.fromEntries(names.filter((name) => name in sdk.packages).map((name) => [name, sdk.packages[name]]));
+}
+
+/** Packages every exported project needs, and those Expo Router adds */
+export const CORE_PACKAGES = ['expo', 'expo-status-bar', 'react', 'react-dom', 'react-native', 'react-native-web'];
+export const ROUTER_PACKAGES = [
+  'expo-router',
+  'expo-constants',
+  'expo-linking',
+  'react-native-safe-area-context',
+  'react-native-screens',
+];
+
+/**
+ * Libraries with custom native code that Expo Go does not include: they work
+ * in Snack's web preview but need a development build on a device.
+ */
+export const DEV_BUILD_PACKAGES = [
+  'react-native-mmkv',
+  'react-native-vision-camera',
+  'react-native-iap',
+  'react-native-purchases',
+  'react-native-ble-plx',
+  'react-native-fast-image',
+  '@react-native-firebase/app',
+  '@react-native-google-signin/google-signin',
+  '@stripe/stripe-react-native',
+];
+
+/** The package an import specifier refers to ('@scope/pkg/sub' → '@scope/pkg') */
+export function getPackageName(specifier: string): string {
+  const parts = specifier.split('/');
+  return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+}
@@ -1,3 +1,8 @@
+import type { ExpoSdkVersion } from './expo-sdk';
+
+export * from './expo-sdk';
+export * from './dependencies';
+
 // Database types
 export interface Project {
   id: string;
@@ -6,6 +11,18 @@ export interface Project {
   description: string | null;
   expo_slug: string | null;
   is_public: boolean;
+  /** Lint rule toggles (rule id → enabled); missing ids are enabled */
+  lint_rules: Record<string, boolean>;
+  /** Linked GitHub repo ("owner/repo") and branch; null when not linked */
+  github_repo: string | null;
+  github_branch: string | null;
+  /** Commit the project matched at its last push or pull */
+  github_synced_sha: string | null;
+  github_synced_at: string | null;
+  /** Push each agent run to its own branch and open a pull request for it */
+  github_pr_per_run: boolean;
+  /** Expo SDK the project targets (see EXPO_SDKS) */
+  sdk_version: ExpoSdkVersion;
   created_at: string;
   updated_at: string;
 }
@@ -20,6 +37,16 @@ export interface ProjectFile {
   updated_at: string;
 }
 
+export interface AppPlan {
+  appName: string;
+  appType: string;
+  features: string[];
+  screens: string[];
+  fileTree: string[];
+  dependencies: string[];
+  planSteps?: string[];
+}
+
 export interface Message {
   id: string;
   project_id: string;
@@ -28,14 +55,126 @@ export interface Message {
   model: string | null;
   files_changed: string[] | null;
   tokens_used: number | null;
+  plan: AppPlan | null;
+  status: 'complete' | 'failed' | 'cancelled';
+  /** Version taken before the agent run this message reports */
+  version_id: string | null;
+  /** Whose API key the agent run this message reports used */
+  key_source: ModelKeySource | null;
+  created_at: string;
+}
+
+export type AgentRunStatus = 'running' | 'paused' | 'complete' | 'failed' | 'cancelled';
+
+/** Review state of a staged run's changeset (null for unstaged runs) */
+export type AgentRunReviewStatus = 'pending' | 'applied' | 'discarded';
+
+export interface AgentRunFileChange {
+  path: string;
+  action: 'created' | 'modified' | 'deleted' | 'moved';
+  /** Original path of a moved file */
+  from?: string;
+}
+
+export interface AgentRun {
+  id: string;
+  project_id: string;
+  user_id: string;
+  status: AgentRunStatus;
+  prompt: string;
+  agent_mode: 'plan' | 'build' | 'edit';
+  model: string;
+  plan: AppPlan | null;
+  iteration: number;
+  written_files: Record<string, { path: string; content: string; language: string }>;
+  changes: AgentRunFileChange[];
+  summary: string | null;
+  error: string | null;
+  cancel_requested: boolean;
+  /** Changes wait for review instead of being written to project_files */
+  staged: boolean;
+  review_status: AgentRunReviewStatus | null;
+  /** Pull request opened for the run (projects with github_pr_per_run) */
+  github_pr_url: string | null;
+  /** Whose API key the run used */
+  key_source: ModelKeySource | null;
+  heartbeat_at: string;
   created_at: string;
+  updated_at: string;
+}
+
+export type ProjectVersionKind = 'agent_run' | 'manual' | 'restore';
+
+/** A file as stored in a version snapshot */
+export interface VersionFile {
+  content: string;
+  language: string;
+}
+
+/** Files changed since the previous version (or all files, in a full snapshot); null marks a deleted file */
+export type VersionSnapshot = Record<string, VersionFile | null>;
+
+export interface ProjectVersion {
+  id: string;
+  project_id: string;
+  user_id: string;
+  kind: ProjectVersionKind;
+  label: string;
+  message_id: string | null;
+  run_id: string | null;
+  files: VersionSnapshot;
+  /** `files` holds the whole project rather than the changes since the previous version */
+  full_snapshot: boolean;
+  created_at: string;
+}
+
+export type BuildPlatform = 'ios' | 'android';
+export type BuildProfile = 'development' | 'preview' | 'production';
+export type BuildState = 'in-queue' | 'in-progress' | 'finished' | 'errored' | 'canceled';
+
+/** An EAS build submitted for one platform */
+export interface Build {
+  id: string;
+  project_id: string;
+  user_id: string;
+  platform: BuildPlatform;
+  profile: BuildProfile;
+  status: BuildState;
+  eas_build_id: string | null;
+  build_url: string | null;
+  artifact_url: string | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Built-in model providers (users can bring their own keys for these) */
+export type ModelProvider = 'claude' | 'gemini';
+
+/**
+ * A model the agent can run on: a built-in provider, or an OpenAI-compatible
+ * endpoint configured on the server ("custom:<endpoint id>")
+ */
+export type ModelId = ModelProvider | `custom:${string}`;
+
+/** Whose API key a model call used: the user's own or the server's */
+export type ModelKeySource = 'user' | 'server';
+
+/** A model as offered to a user; keySource is null when it can't be used */
+export interface ModelOption {
+  id: ModelId;
+  name: string;
+  keySource: ModelKeySource | null;
 }
 
 export interface UserSettings {
   user_id: string;
-  preferred_model: 'claude' | 'gemini';
+  preferred_model: ModelId;
   github_token: string | null;
   expo_token: string | null;
+  /** The user's own model API keys (sealed by the token vault) */
+  claude_api_key: string | null;
+  gemini_api_key: string | null;
   theme: 'dark' | 'light';
   created_at: string;
   updated_at: string;
@@ -57,7 +196,7 @@ export interface AIModel {
 export interface GenerateRequest {
   prompt: string;
   projectId: string;
-  model: 'claude' | 'gemini';
+  model: ModelId;
   currentFiles: Record<string, string>;
   conversationHistory?: ChatMessage[];
 }
@@ -99,7 +238,7 @@ export interface EditorState {
   activeFile: string | null;
   messages: UIMessage[];
   isGenerating: boolean;
-  selectedModel: 'claude' | 'gemini';
+  selectedModel: ModelId;
 }
 
 export interface UIMessage {
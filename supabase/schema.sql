@@ -44,6 +44,7 @@ CREATE TABLE IF NOT EXISTS messages (
 CREATE TABLE IF NOT EXISTS user_settings (
   user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
   preferred_model TEXT DEFAULT 'gemini',
+  -- Sealed by the token vault (apps/web/src/lib/token-vault.ts), never plaintext
   github_token TEXT,
   expo_token TEXT,
   theme TEXT DEFAULT 'dark',
@@ -51,18 +52,147 @@ CREATE TABLE IF NOT EXISTS user_settings (
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Agent runs (persisted jobs that can resume after a request times out)
+CREATE TABLE IF NOT EXISTS agent_runs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'paused', 'complete', 'failed', 'cancelled')),
+  prompt TEXT NOT NULL,
+  agent_mode TEXT NOT NULL DEFAULT 'build',
+  model TEXT NOT NULL,
+  plan JSONB,
+  iteration INTEGER NOT NULL DEFAULT 0,
+  -- Checkpointed changes: path → { path, content, language }, plus the agent's change list
+  written_files JSONB NOT NULL DEFAULT '{}'::jsonb,
+  changes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  summary TEXT,
+  error TEXT,
+  cancel_requested BOOLEAN NOT NULL DEFAULT false,
+  heartbeat_at TIMESTAMPTZ DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Event log of each agent run; seq doubles as the SSE event id for Last-Event-ID replay
+CREATE TABLE IF NOT EXISTS agent_run_events (
+  run_id UUID NOT NULL REFERENCES agent_runs(id) ON DELETE CASCADE,
+  seq INTEGER NOT NULL,
+  event JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (run_id, seq)
+);
+
+-- Audit trail of the token vault: every decrypt of a third-party token (with the
+-- integration that asked for it), and every time a token is saved, migrated,
+-- re-wrapped under a new master key or removed
+CREATE TABLE IF NOT EXISTS token_audit_log (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  token_kind TEXT NOT NULL CHECK (token_kind IN ('github', 'expo', 'claude', 'gemini')),
+  action TEXT NOT NULL CHECK (action IN ('seal', 'decrypt', 'rewrap', 'migrate', 'delete')),
+  purpose TEXT,
+  key_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Project version history. Each version is a checkpoint of the project; `files`
+-- holds only what changed since the previous version (path → { content, language },
+-- or null for a file deleted since then), so replaying versions in order rebuilds
+-- the project at any checkpoint.
+CREATE TABLE IF NOT EXISTS project_versions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('agent_run', 'manual', 'restore')),
+  label TEXT NOT NULL,
+  -- The prompt message that started the agent run (agent_run versions)
+  message_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+  run_id UUID REFERENCES agent_runs(id) ON DELETE SET NULL,
+  files JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- EAS builds submitted from the editor (one row per platform)
+CREATE TABLE IF NOT EXISTS builds (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  platform TEXT NOT NULL CHECK (platform IN ('ios', 'android')),
+  profile TEXT NOT NULL CHECK (profile IN ('development', 'preview', 'production')),
+  status TEXT NOT NULL DEFAULT 'in-queue' CHECK (status IN ('in-queue', 'in-progress', 'finished', 'errored', 'canceled')),
+  eas_build_id TEXT,
+  -- Expo build page (logs) and the installable artifact once finished
+  build_url TEXT,
+  artifact_url TEXT,
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Columns added after the initial release (safe to re-run on existing databases)
+-- Per-project lint rule toggles: { "rule-id": false } disables a rule
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS lint_rules JSONB NOT NULL DEFAULT '{}'::jsonb;
+-- Plan produced by the agent run an assistant message summarises (conversation memory)
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS plan JSONB;
+-- Outcome of the agent run an assistant message reports
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'complete'
+  CHECK (status IN ('complete', 'failed', 'cancelled'));
+-- Version taken before the agent run an assistant message reports ("revert this run")
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS version_id UUID REFERENCES project_versions(id) ON DELETE SET NULL;
+-- Versions store the changes since the previous one, except periodic full snapshots that
+-- rebuilding a version replays from
+ALTER TABLE project_versions ADD COLUMN IF NOT EXISTS full_snapshot BOOLEAN NOT NULL DEFAULT false;
+-- Staged runs keep their changes as a pending changeset until the user reviews them
+ALTER TABLE agent_runs ADD COLUMN IF NOT EXISTS staged BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE agent_runs ADD COLUMN IF NOT EXISTS review_status TEXT
+  CHECK (review_status IN ('pending', 'applied', 'discarded'));
+-- Linked GitHub repo ("owner/repo") and branch, and the commit the project was last synced with
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS github_repo TEXT;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS github_branch TEXT;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS github_synced_sha TEXT;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS github_synced_at TIMESTAMPTZ;
+-- Push each agent run to its own branch and open a pull request for it
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS github_pr_per_run BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE agent_runs ADD COLUMN IF NOT EXISTS github_pr_url TEXT;
+-- Users' own model API keys (sealed by the token vault), and whose key each run used
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS claude_api_key TEXT;
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS gemini_api_key TEXT;
+ALTER TABLE agent_runs ADD COLUMN IF NOT EXISTS key_source TEXT CHECK (key_source IN ('user', 'server'));
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS key_source TEXT CHECK (key_source IN ('user', 'server'));
+ALTER TABLE token_audit_log DROP CONSTRAINT IF EXISTS token_audit_log_token_kind_check;
+ALTER TABLE token_audit_log ADD CONSTRAINT token_audit_log_token_kind_check
+  CHECK (token_kind IN ('github', 'expo', 'claude', 'gemini'));
+-- Expo SDK each project targets: existing projects are backfilled to SDK 52, the one
+-- their preview ran on, and new ones start on the current SDK
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS sdk_version TEXT;
+UPDATE projects SET sdk_version = '52.0.0' WHERE sdk_version IS NULL;
+ALTER TABLE projects ALTER COLUMN sdk_version SET DEFAULT '54.0.0';
+ALTER TABLE projects ALTER COLUMN sdk_version SET NOT NULL;
+
 -- Create indexes for better query performance
 CREATE INDEX IF NOT EXISTS idx_projects_user_id ON projects(user_id);
 CREATE INDEX IF NOT EXISTS idx_projects_updated_at ON projects(updated_at DESC);
 CREATE INDEX IF NOT EXISTS idx_project_files_project_id ON project_files(project_id);
 CREATE INDEX IF NOT EXISTS idx_messages_project_id ON messages(project_id);
 CREATE INDEX IF NOT EXISTS idx_messages_created_at ON messages(created_at);
+CREATE INDEX IF NOT EXISTS idx_agent_runs_project_id ON agent_runs(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_project_versions_project_id ON project_versions(project_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_project_versions_run_id ON project_versions(run_id);
+CREATE INDEX IF NOT EXISTS idx_project_versions_snapshots ON project_versions(project_id, created_at) WHERE full_snapshot;
+CREATE INDEX IF NOT EXISTS idx_builds_project_id ON builds(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_token_audit_log_user_id ON token_audit_log(user_id, created_at DESC);
 
 -- Enable Row Level Security
 ALTER TABLE projects ENABLE ROW LEVEL SECURITY;
 ALTER TABLE project_files ENABLE ROW LEVEL SECURITY;
 ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
 ALTER TABLE user_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE agent_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE agent_run_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE builds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE token_audit_log ENABLE ROW LEVEL SECURITY;
 
 -- RLS Policies for projects
 DROP POLICY IF EXISTS "Users can view own projects" ON projects;
@@ -95,11 +225,44 @@ CREATE POLICY "Users can CRUD messages of own projects" ON messages
     project_id IN (SELECT id FROM projects WHERE user_id = auth.uid())
   );
 
+-- RLS Policies for agent_runs
+DROP POLICY IF EXISTS "Users can CRUD own agent runs" ON agent_runs;
+CREATE POLICY "Users can CRUD own agent runs" ON agent_runs
+  FOR ALL USING (auth.uid() = user_id);
+
+-- Read-only for users: the server writes the event log with the service role,
+-- so the replayed SSE stream can't be forged through the anon key
+DROP POLICY IF EXISTS "Users can view events of own agent runs" ON agent_run_events;
+CREATE POLICY "Users can view events of own agent runs" ON agent_run_events
+  FOR SELECT USING (
+    run_id IN (SELECT id FROM agent_runs WHERE user_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Users can CRUD events of own agent runs" ON agent_run_events;
+
+-- RLS Policies for project_versions
+DROP POLICY IF EXISTS "Users can CRUD own project versions" ON project_versions;
+CREATE POLICY "Users can CRUD own project versions" ON project_versions
+  FOR ALL USING (auth.uid() = user_id);
+
+-- RLS Policies for builds
+DROP POLICY IF EXISTS "Users can CRUD own builds" ON builds;
+CREATE POLICY "Users can CRUD own builds" ON builds
+  FOR ALL USING (auth.uid() = user_id);
+
 -- RLS Policies for user_settings
 DROP POLICY IF EXISTS "Users can CRUD own settings" ON user_settings;
 CREATE POLICY "Users can CRUD own settings" ON user_settings
   FOR ALL USING (auth.uid() = user_id);
 
+-- RLS Policies for token_audit_log (read-only for users: the vault writes it
+-- with the service role, so rows can't be forged through the anon key)
+DROP POLICY IF EXISTS "Users can view own token audit log" ON token_audit_log;
+CREATE POLICY "Users can view own token audit log" ON token_audit_log
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can append to own token audit log" ON token_audit_log;
+
 -- Function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -122,6 +285,18 @@ CREATE TRIGGER update_project_files_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS update_agent_runs_updated_at ON agent_runs;
+CREATE TRIGGER update_agent_runs_updated_at
+  BEFORE UPDATE ON agent_runs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_builds_updated_at ON builds;
+CREATE TRIGGER update_builds_updated_at
+  BEFORE UPDATE ON builds
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
 DROP TRIGGER IF EXISTS update_user_settings_updated_at ON user_settings;
 CREATE TRIGGER update_user_settings_updated_at
   BEFORE UPDATE ON user_settings
@@ -145,3 +320,28 @@ CREATE TRIGGER on_auth_user_created
   AFTER INSERT ON auth.users
   FOR EACH ROW
   EXECUTE FUNCTION handle_new_user();
+
+-- Apply an agent run's file changes in one transaction: deletions (including
+-- the old paths of moved files) and upserts succeed or fail together.
+-- Runs with the caller's permissions, so project_files RLS still applies.
+CREATE OR REPLACE FUNCTION commit_project_files(
+  p_project_id UUID,
+  p_files JSONB,
+  p_deleted_paths TEXT[]
+)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM public.project_files
+  WHERE project_id = p_project_id
+    AND path = ANY(p_deleted_paths);
+
+  INSERT INTO public.project_files (project_id, path, content, language)
+  SELECT p_project_id, f->>'path', f->>'content', f->>'language'
+  FROM jsonb_array_elements(p_files) AS f
+  ON CONFLICT (project_id, path) DO UPDATE
+    SET content = EXCLUDED.content,
+        language = EXCLUDED.language;
+
+  UPDATE public.projects SET updated_at = NOW() WHERE id = p_project_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;